@@ -0,0 +1,69 @@
+import { GET, PUT } from '@/app/api/transactions/[transactionId]/route';
+import * as databaseService from '@/lib/databaseService';
+import * as authUtils from '@/lib/authUtils';
+
+jest.mock('@/lib/databaseService');
+jest.mock('@/lib/authUtils');
+
+const mockRequest = (body: any, headers: Record<string, string> = {}) => ({
+  json: jest.fn().mockResolvedValue(body),
+  headers: new Headers({ Authorization: 'Bearer valid-jwt-token', ...headers }),
+} as any);
+
+const storedTransaction = {
+  id: 'tx-1', userId: 'user-1', type: 'expense', amount: 50, category: 'Lazer', date: '2024-06-10',
+  recurrenceFrequency: 'none', createdAt: 1717000000000, updatedAt: 1718000000000,
+};
+
+describe('API /api/transactions/[transactionId] com concorrência otimista', () => {
+  const params = { params: { transactionId: 'tx-1' } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authUtils.getUserIdFromAuthHeader as jest.Mock).mockResolvedValue('user-1');
+  });
+
+  it('deve devolver a transação com o ETag da versão atual', async () => {
+    (databaseService.getRecordForUser as jest.Mock).mockResolvedValue(storedTransaction);
+
+    const response = await GET(mockRequest(undefined), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"1718000000000"');
+    expect(body.transaction).toEqual(storedTransaction);
+    expect(databaseService.getRecordForUser).toHaveBeenCalledWith('user-1', 'transactions', 'tx-1');
+  });
+
+  it('deve exigir If-Match ou version para atualizar', async () => {
+    const response = await PUT(mockRequest({ amount: 80 }), params);
+
+    expect(response.status).toBe(428);
+    expect(databaseService.updateTransaction).not.toHaveBeenCalled();
+  });
+
+  it('deve repassar a versão do If-Match e devolver o novo ETag', async () => {
+    const saved = { ...storedTransaction, amount: 80, updatedAt: 1719000000000 };
+    (databaseService.updateTransaction as jest.Mock).mockResolvedValue({ success: true, record: saved });
+
+    const response = await PUT(mockRequest({ amount: 80 }, { 'If-Match': '"1718000000000"' }), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"1719000000000"');
+    expect(body.transaction.amount).toBe(80);
+    expect(databaseService.updateTransaction).toHaveBeenCalledWith('user-1', 'tx-1', expect.objectContaining({ amount: 80 }), 1718000000000);
+  });
+
+  it('deve responder 409 com o registro atual quando a versão estiver desatualizada', async () => {
+    const current = { ...storedTransaction, amount: 65, updatedAt: 1719000000000 };
+    (databaseService.updateTransaction as jest.Mock).mockResolvedValue({ success: false, conflict: true, record: current, error: 'The transaction was changed since it was loaded.' });
+
+    const response = await PUT(mockRequest({ amount: 80, version: 1718000000000 }), params);
+    const body = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe('"1719000000000"');
+    expect(body.current).toEqual(current);
+  });
+});
@@ -0,0 +1,74 @@
+import { POST } from '@/app/api/transactions/batch/route';
+import * as databaseService from '@/lib/databaseService';
+import * as authUtils from '@/lib/authUtils';
+
+jest.mock('@/lib/databaseService');
+jest.mock('@/lib/authUtils');
+
+const mockRequest = (body: any) => ({
+  json: jest.fn().mockResolvedValue(body),
+  headers: new Headers({ Authorization: 'Bearer valid-jwt-token' }),
+} as any);
+
+describe('API /api/transactions/batch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authUtils.getUserIdFromAuthHeader as jest.Mock).mockResolvedValue('user-1');
+  });
+
+  it('deve aplicar o lote e devolver os ids afetados', async () => {
+    (databaseService.applyTransactionBatch as jest.Mock).mockResolvedValue({ success: true, created: ['tx-new'], updated: ['tx-1'], deleted: ['tx-2'] });
+    const batch = {
+      create: [{ type: 'expense', amount: 10, category: 'Lazer', date: '2024-06-10' }],
+      update: [{ id: 'tx-1', changes: { category: 'Casa' }, version: 1718000000000 }],
+      delete: ['tx-2'],
+    };
+
+    const response = await POST(mockRequest(batch));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual(expect.objectContaining({ success: true, created: ['tx-new'], updated: ['tx-1'], deleted: ['tx-2'] }));
+    expect(databaseService.applyTransactionBatch).toHaveBeenCalledWith('user-1', batch);
+  });
+
+  it('deve responder 400 com os erros de cada item inválido', async () => {
+    const errors = [{ operation: 'create', index: 1, message: 'Amount must be a positive number.' }];
+    (databaseService.applyTransactionBatch as jest.Mock).mockResolvedValue({ success: false, error: 'The batch has invalid items.', errors });
+
+    const response = await POST(mockRequest({ create: [{}, {}] }));
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors).toEqual(errors);
+  });
+
+  it('deve responder 409 quando uma transação foi alterada desde que foi carregada', async () => {
+    const errors = [{ operation: 'update', index: 0, id: 'tx-1', message: 'The transaction was changed since it was loaded.' }];
+    (databaseService.applyTransactionBatch as jest.Mock).mockResolvedValue({ success: false, conflict: true, error: 'The batch was not applied.', errors });
+
+    const response = await POST(mockRequest({ update: [{ id: 'tx-1', changes: { amount: 5 }, version: 1 }] }));
+
+    expect(response.status).toBe(409);
+  });
+
+  it('deve responder 428 quando uma alteração não informa a versão', async () => {
+    const errors = [{ operation: 'update', index: 0, id: 'tx-1', message: 'Updating a transaction requires a version.' }];
+    (databaseService.applyTransactionBatch as jest.Mock).mockResolvedValue({ success: false, versionRequired: true, error: 'Updating transactions in a batch requires the version of each one.', errors });
+
+    const response = await POST(mockRequest({ update: [{ id: 'tx-1', changes: { amount: 5 } }] }));
+    const body = await response.json();
+
+    expect(response.status).toBe(428);
+    expect(body.errors).toEqual(errors);
+  });
+
+  it('deve responder 401 sem autenticação', async () => {
+    (authUtils.getUserIdFromAuthHeader as jest.Mock).mockResolvedValue(null);
+
+    const response = await POST(mockRequest({ delete: ['tx-1'] }));
+
+    expect(response.status).toBe(401);
+    expect(databaseService.applyTransactionBatch).not.toHaveBeenCalled();
+  });
+});
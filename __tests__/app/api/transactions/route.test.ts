@@ -1,5 +1,5 @@
 
-import { POST } from '@/app/api/transactions/route';
+import { GET, POST } from '@/app/api/transactions/route';
 import { NextResponse } from 'next/server';
 import * as databaseService from '@/lib/databaseService';
 import * as authUtils from '@/lib/authUtils'; // Importar o módulo mockado
@@ -130,3 +130,46 @@ describe('API POST /api/transactions', () => {
     expect(body.message).toBe('Invalid JSON payload.');
   });
 });
+
+describe('API GET /api/transactions', () => {
+  const mockGetRequest = (queryString: string) => ({
+    url: `http://localhost/api/transactions${queryString}`,
+    headers: new Headers({ 'Authorization': 'Bearer valid-token' }),
+  } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (authUtils.getUserIdFromAuthHeader as jest.Mock).mockResolvedValue('user123');
+  });
+
+  it('deve repassar filtros, ordenação e cursor e devolver a página', async () => {
+    const page = { transactions: [{ id: 'tx-1' }], nextCursor: 'next', totalCount: 3 };
+    (databaseService.queryTransactionsForUser as jest.Mock).mockResolvedValue({ success: true, page });
+
+    const response = await GET(mockGetRequest('?from=2024-01-01&to=2024-12-31&type=expense&category=Lazer&recurrence=recurring&minAmount=10,5&maxAmount=200&search=%20cinema%20&sortBy=amount&sortOrder=asc&cursor=abc&limit=20'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ success: true, ...page });
+    expect(databaseService.queryTransactionsForUser).toHaveBeenCalledWith('user123', {
+      from: '2024-01-01', to: '2024-12-31', type: 'expense', category: 'Lazer', recurrence: 'recurring',
+      minAmount: 10.5, maxAmount: 200, search: 'cinema', sortBy: 'amount', sortOrder: 'asc', cursor: 'abc', limit: 20,
+    });
+  });
+
+  it('deve retornar 400 para parâmetros inválidos sem consultar o banco', async () => {
+    for (const queryString of ['?type=refund', '?sortBy=description', '?limit=0', '?minAmount=abc']) {
+      const response = await GET(mockGetRequest(queryString));
+      expect(response.status).toBe(400);
+    }
+    expect(databaseService.queryTransactionsForUser).not.toHaveBeenCalled();
+  });
+
+  it('deve retornar 400 para cursor inválido e 401 sem autenticação', async () => {
+    (databaseService.queryTransactionsForUser as jest.Mock).mockResolvedValue({ success: false, error: 'Invalid cursor.' });
+    expect((await GET(mockGetRequest('?cursor=xyz'))).status).toBe(400);
+
+    (authUtils.getUserIdFromAuthHeader as jest.Mock).mockResolvedValue(null);
+    expect((await GET(mockGetRequest(''))).status).toBe(401);
+  });
+});
@@ -0,0 +1,15 @@
+// __tests__/helpers/fixtures.ts
+import type { CreditCardPurchase, Transaction } from '@/types';
+
+// Registros mínimos para as suítes de relatórios; cada teste informa só os campos que importam.
+
+export const transaction = (id: string, changes: Partial<Transaction> = {}): Transaction => ({
+  id, userId: 'u1', type: 'expense', amount: 0, category: 'Lazer', date: '2026-03-10', createdAt: 0, ...changes,
+});
+
+export const purchase = (id: string, changes: Partial<CreditCardPurchase> = {}): CreditCardPurchase => ({
+  id, userId: 'u1', cardId: 'c1', date: '2026-03-12', description: 'Compra', category: 'Lazer', totalAmount: 0, installments: 1, createdAt: 0, ...changes,
+});
+
+/** Conversão para a moeda base quando tudo já está na moeda base. */
+export const toBase = (amount: number) => amount;
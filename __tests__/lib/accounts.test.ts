@@ -0,0 +1,56 @@
+import { accountBalances, clearedBalance, reconciliationCandidates, reconciliationDifference, runningBalances } from '@/lib/accounts';
+import type { Account, Transaction } from '@/types';
+
+const checking: Account = { id: 'acc-1', userId: 'u1', name: 'Conta Corrente', type: 'checking', openingBalance: 100.1, currency: 'BRL', createdAt: 1 };
+const wallet: Account = { id: 'acc-2', userId: 'u1', name: 'Carteira', type: 'cash', openingBalance: 0, currency: 'BRL', createdAt: 1 };
+
+const tx = (id: string, type: Transaction['type'], amount: number, date: string, accountId: string | null, createdAt = 1): Transaction =>
+  ({ id, userId: 'u1', type, amount, category: 'Outros', date, accountId, createdAt });
+
+const transactions = [
+  tx('t3', 'expense', 0.3, '2024-02-01', 'acc-1'),
+  tx('t1', 'income', 50.2, '2024-01-10', 'acc-1'),
+  tx('t2', 'expense', 20, '2024-01-10', 'acc-1', 2),
+  tx('t4', 'expense', 5, '2024-01-15', 'acc-2'),
+  tx('t5', 'income', 999, '2024-01-15', null),
+];
+
+describe('accounts', () => {
+  it('deve somar o saldo inicial às transações de cada conta', () => {
+    const balances = accountBalances([checking, wallet], transactions);
+
+    expect(balances.get('acc-1')).toBe(130);
+    expect(balances.get('acc-2')).toBe(-5);
+    expect(balances.size).toBe(2);
+  });
+
+  it('deve calcular o saldo corrente em ordem de data', () => {
+    const entries = runningBalances(checking, transactions);
+
+    expect(entries.map(entry => entry.transaction.id)).toEqual(['t1', 't2', 't3']);
+    expect(entries.map(entry => entry.balance)).toEqual([150.3, 130.3, 130]);
+  });
+
+  it('deve tirar a transferência da conta de origem e somá-la à de destino', () => {
+    const transfer: Transaction = { ...tx('t6', 'transfer', 30, '2024-03-01', 'acc-1'), transferTo: 'account', transferToId: 'acc-2' };
+    const toGoal: Transaction = { ...tx('t7', 'transfer', 10, '2024-03-02', 'acc-2'), transferTo: 'goal', transferToId: 'goal-1' };
+    const balances = accountBalances([checking, wallet], [...transactions, transfer, toGoal]);
+
+    expect(balances.get('acc-1')).toBe(100);
+    expect(balances.get('acc-2')).toBe(15);
+    expect(runningBalances(wallet, [...transactions, transfer, toGoal]).map(entry => entry.balance)).toEqual([-5, 25, 15]);
+  });
+
+  it('deve conferir com o extrato só as transações compensadas até a data de fechamento', () => {
+    const statement = [
+      { ...transactions[1], clearedStatus: 'reconciled' as const },
+      { ...transactions[2], clearedStatus: 'cleared' as const },
+      { ...transactions[0], clearedStatus: 'cleared' as const },
+      tx('t8', 'expense', 12.5, '2024-01-20', 'acc-1'),
+    ];
+
+    expect(clearedBalance(checking, statement, '2024-01-31')).toBe(130.3);
+    expect(reconciliationDifference(checking, statement, '2024-01-31', 117.8)).toBe(-12.5);
+    expect(reconciliationCandidates(checking, statement, '2024-01-31').map(t => t.id)).toEqual(['t2', 't8']);
+  });
+});
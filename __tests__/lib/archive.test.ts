@@ -0,0 +1,23 @@
+import { gzipSync } from 'zlib';
+import { createArchive, isGzip, readArchive } from '@/lib/archive';
+
+describe('archive', () => {
+  it('deve ler de volta os arquivos gravados', () => {
+    const entries = [
+      { name: 'backup.json', data: Buffer.from('{"transactions":[]}') },
+      { name: 'attachments/a1', data: Buffer.alloc(1300, 7) },
+      { name: 'attachments/vazio', data: Buffer.alloc(0) },
+    ];
+    const archive = createArchive(entries);
+
+    expect(isGzip(archive)).toBe(true);
+    expect(readArchive(archive)).toEqual(entries);
+  });
+
+  it('deve recusar o que não é um arquivo tar.gz', () => {
+    expect(isGzip(Buffer.from('{"transactions":[]}'))).toBe(false);
+    expect(() => readArchive(Buffer.from('não é gzip'))).toThrow();
+    expect(() => readArchive(gzipSync(Buffer.alloc(512, 1)))).toThrow('Invalid archive');
+    expect(() => createArchive([{ name: 'a'.repeat(101), data: Buffer.alloc(1) }])).toThrow();
+  });
+});
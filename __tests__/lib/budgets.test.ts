@@ -0,0 +1,74 @@
+import { budgetAlerts, budgetMonth, budgetUsage, monthlySpending, spendingLookup, type SpendingSources } from '@/lib/budgets';
+import type { Budget, UserCategory } from '@/types';
+import { purchase, toBase, transaction } from '../helpers/fixtures';
+
+const category = (id: string, name: string, parentId: string | null = null): UserCategory => ({ id, userId: 'u1', name, isSystemDefined: false, parentId, createdAt: 0 });
+const food = category('c1', 'Alimentação');
+const market = category('c2', 'Mercado', 'c1');
+const leisure = category('c3', 'Lazer');
+const categories = [food, market, leisure];
+
+const sources = (changes: Partial<SpendingSources>): SpendingSources => ({
+  transactions: [], occurrenceStates: [], creditCards: [{ id: 'c1', userId: 'u1', name: 'Cartão', limit: 5000, dueDateDay: 15, closingDateDay: 5, createdAt: 0 }],
+  creditCardPurchases: [], loans: [], ...changes,
+});
+const budget = (changes: Partial<Budget>): Budget => ({ id: 'b1', userId: 'u1', categoryId: 'c1', amount: 500, rollover: false, startMonth: '2026-01', createdAt: 0, ...changes });
+
+describe('budgets', () => {
+  it('deve somar no mês as ocorrências, as parcelas pela fatura e as parcelas de empréstimos', () => {
+    const spending = monthlySpending(sources({
+      transactions: [
+        transaction('t1', { amount: 120, category: 'Mercado', date: '2026-01-08', recurrenceFrequency: 'monthly' }),
+        transaction('t2', { amount: 100, splits: [{ category: 'Mercado', amount: 60 }, { category: 'Lazer', amount: 40 }] }),
+        transaction('t3', { amount: 3000, type: 'income', category: 'Salário' }),
+      ],
+      occurrenceStates: [{ id: 's1', userId: 'u1', transactionId: 't1', scheduledDate: '2026-03-08', status: 'paid', amount: 130, createdAt: 0 }],
+      creditCardPurchases: [
+        purchase('p1', { date: '2026-02-20', totalAmount: 300, installments: 3 }), // After the closing day: invoices of March, April and May
+        purchase('p2', { date: '2026-03-02', totalAmount: 90 }),
+        purchase('p3', { date: '2026-03-06', totalAmount: 50 }), // Next month's invoice
+      ],
+      loans: [{ id: 'l1', userId: 'u1', bankName: 'Banco', description: 'Carro', installmentAmount: 700, installmentsCount: 12, startDate: '2025-10-31', endDate: '2026-09-30', createdAt: 0 }],
+    }), '2026-03', toBase);
+
+    expect(spending).toEqual([
+      { category: 'Lazer', date: '2026-03-01', amount: 100 },
+      { category: 'Lazer', date: '2026-03-02', amount: 90 },
+      { category: 'Mercado', date: '2026-03-08', amount: 130 },
+      { category: 'Mercado', date: '2026-03-10', amount: 60 },
+      { category: 'Lazer', date: '2026-03-10', amount: 40 },
+      { category: 'Empréstimo', date: '2026-03-31', amount: 700 },
+    ]);
+  });
+
+  it('deve incluir as subcategorias e levar a sobra e o excesso para o mês seguinte', () => {
+    const spendingOf = spendingLookup(sources({
+      transactions: [
+        transaction('t1', { amount: 300, category: 'Mercado', date: '2026-01-05' }),
+        transaction('t2', { amount: 650, category: 'Alimentação', date: '2026-02-05' }),
+        transaction('t3', { amount: 999, category: 'Lazer', date: '2026-02-06' }),
+        transaction('t4', { amount: 420, category: 'mercado', date: '2026-03-05' }),
+      ],
+    }), toBase);
+
+    expect(budgetMonth(budget({}), categories, spendingOf, '2026-03')).toEqual({ month: '2026-03', budgeted: 500, carriedOver: 0, available: 500, spent: 420, remaining: 80 });
+    expect(budgetMonth(budget({ rollover: true }), categories, spendingOf, '2026-02')).toMatchObject({ carriedOver: 200, available: 700, remaining: 50 });
+    expect(budgetMonth(budget({ rollover: true }), categories, spendingOf, '2026-03')).toMatchObject({ carriedOver: 50, available: 550, remaining: 130 });
+    expect(budgetMonth(budget({ rollover: true, startMonth: '2026-02' }), categories, spendingOf, '2026-03')).toMatchObject({ carriedOver: -150, available: 350, remaining: -70 });
+    expect(budgetMonth(budget({ startMonth: '2026-04' }), categories, spendingOf, '2026-03')).toBeNull();
+  });
+
+  it('deve alertar no dia em que os gastos chegam a 80% e a 100% do disponível', () => {
+    const entries = [
+      { category: 'Mercado', date: '2026-03-12', amount: 150 },
+      { category: 'Mercado', date: '2026-03-03', amount: 300 },
+      { category: 'Mercado', date: '2026-03-20', amount: 100 },
+    ];
+
+    expect(budgetAlerts(500, entries.slice(0, 2))).toEqual([{ threshold: 80, date: '2026-03-12' }]);
+    expect(budgetAlerts(500, entries)).toEqual([{ threshold: 80, date: '2026-03-12' }, { threshold: 100, date: '2026-03-20' }]);
+    expect(budgetAlerts(-50, [])).toEqual([]);
+    expect(budgetUsage({ available: 500, spent: 550 })).toBe(110);
+    expect(budgetUsage({ available: -50, spent: 0 })).toBe(100);
+  });
+});
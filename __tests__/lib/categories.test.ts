@@ -0,0 +1,39 @@
+import { categoryPath, orderCategories, renameCategoryIn } from '@/lib/categories';
+import type { UserCategory } from '@/types';
+
+const category = (id: string, name: string, parentId: string | null = null): UserCategory => ({ id, userId: 'u1', name, isSystemDefined: false, parentId, createdAt: 0 });
+
+const food = category('c1', 'Alimentação');
+const market = category('c2', 'Mercado', 'c1');
+const restaurants = category('c3', 'Restaurantes', 'c1');
+const home = category('c4', 'Casa');
+const orphan = category('c5', 'Avulsa', 'removida');
+
+describe('categories', () => {
+  it('deve listar cada categoria seguida das suas subcategorias', () => {
+    expect(orderCategories([restaurants, home, market, orphan, food]).map(({ category, depth }) => [category.name, depth])).toEqual([
+      ['Alimentação', 0], ['Mercado', 1], ['Restaurantes', 1], ['Avulsa', 0], ['Casa', 0],
+    ]);
+    expect(categoryPath('mercado', [food, market])).toBe('Alimentação › Mercado');
+    expect(categoryPath('Sem cadastro', [food, market])).toBe('Sem cadastro');
+  });
+
+  it('deve mover um registro para outra categoria', () => {
+    expect(renameCategoryIn({ category: 'Mercado', splits: null }, 'mercado', 'Feira')).toEqual({ category: 'Feira', splits: null });
+    expect(renameCategoryIn({ category: 'Casa', splits: null }, 'Mercado', 'Feira')).toBeNull();
+  });
+
+  it('deve juntar as linhas da divisão que ficam na mesma categoria', () => {
+    const splits = [
+      { category: 'Mercado', amount: 60 },
+      { category: 'Casa', amount: 30.5 },
+      { category: 'Feira', amount: 9.5 },
+    ];
+
+    expect(renameCategoryIn({ category: 'Mercado', splits }, 'Mercado', 'Feira')).toEqual({
+      category: 'Feira',
+      splits: [{ category: 'Feira', amount: 69.5 }, { category: 'Casa', amount: 30.5 }],
+    });
+    expect(renameCategoryIn({ category: 'Mercado', splits: splits.slice(0, 2) }, 'Casa', 'Mercado')).toEqual({ category: 'Mercado', splits: null });
+  });
+});
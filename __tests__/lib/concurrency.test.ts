@@ -0,0 +1,28 @@
+import { conflictingFields, etagOf, mergeEdits, requestedVersion } from '@/lib/concurrency';
+
+describe('concurrency', () => {
+  it('deve usar updatedAt (ou createdAt) como ETag', () => {
+    expect(etagOf({ createdAt: 100, updatedAt: 250 })).toBe('"250"');
+    expect(etagOf({ createdAt: 100 })).toBe('"100"');
+  });
+
+  it('deve ler a versão do If-Match ou do corpo', () => {
+    expect(requestedVersion(new Headers({ 'If-Match': '"250"' }))).toEqual({ status: 'ok', version: 250 });
+    expect(requestedVersion(new Headers({ 'If-Match': 'W/"250"' }))).toEqual({ status: 'ok', version: 250 });
+    expect(requestedVersion(new Headers({ 'If-Match': '*' }))).toEqual({ status: 'any' });
+    expect(requestedVersion(new Headers({ 'If-Match': 'abc' }))).toEqual({ status: 'invalid' });
+    expect(requestedVersion(new Headers(), { version: 250 })).toEqual({ status: 'ok', version: 250 });
+    expect(requestedVersion(new Headers(), { version: 'x' })).toEqual({ status: 'invalid' });
+    expect(requestedVersion(new Headers(), {})).toEqual({ status: 'missing' });
+  });
+
+  it('deve mesclar mantendo apenas os campos alterados pelo usuário', () => {
+    const base = { name: 'Carro', targetAmount: 1000, description: '' };
+    const mine = { name: 'Carro novo', targetAmount: 1000, description: undefined };
+    const current = { name: 'Carro', targetAmount: 1500, description: 'Outra aba' };
+
+    expect(mergeEdits(base, mine, current)).toEqual({ name: 'Carro novo', targetAmount: 1500, description: 'Outra aba' });
+    expect(conflictingFields(mine, current)).toEqual(['name', 'targetAmount', 'description']);
+    expect(conflictingFields(mergeEdits(base, mine, current), current)).toEqual(['name']);
+  });
+});
@@ -0,0 +1,36 @@
+import { convertMoney, createCurrencyConverter, exchangeRateOn, type RateQuote } from '@/lib/currency';
+
+const rates: RateQuote[] = [
+  { currency: 'USD', quoteCurrency: 'BRL', rate: 5, date: '2024-01-01' },
+  { currency: 'USD', quoteCurrency: 'BRL', rate: 5.5, date: '2024-03-01' },
+  { currency: 'EUR', quoteCurrency: 'USD', rate: 1.1, date: '2024-02-01' },
+];
+
+describe('currency', () => {
+  it('deve usar a cotação mais recente até a data', () => {
+    expect(exchangeRateOn(rates, 'BRL', 'BRL', '2024-01-10')).toBe(1);
+    expect(exchangeRateOn(rates, 'USD', 'BRL', '2024-02-15')).toBe(5);
+    expect(exchangeRateOn(rates, 'USD', 'BRL', '2024-03-01')).toBe(5.5);
+    expect(exchangeRateOn(rates, 'USD', 'BRL')).toBe(5.5);
+  });
+
+  it('deve usar a primeira cotação posterior quando não há anterior', () => {
+    expect(exchangeRateOn(rates, 'USD', 'BRL', '2023-12-01')).toBe(5);
+  });
+
+  it('deve inverter a cotação e passar por uma moeda intermediária', () => {
+    expect(exchangeRateOn(rates, 'BRL', 'USD', '2024-01-10')).toBe(0.2);
+    expect(exchangeRateOn(rates, 'EUR', 'BRL', '2024-03-10')).toBeCloseTo(6.05);
+    expect(convertMoney(100, 'EUR', 'BRL', rates, '2024-03-10')).toBe(605);
+    expect(exchangeRateOn(rates, 'GBP', 'BRL')).toBeNull();
+  });
+
+  it('deve converter para a moeda principal e registrar moedas sem cotação', () => {
+    const converter = createCurrencyConverter('BRL', rates);
+
+    expect(converter.toBase(10, 'USD', '2024-01-15')).toBe(50);
+    expect(converter.toBase(10, undefined)).toBe(10);
+    expect(converter.toBase(10, 'GBP', '2024-01-15')).toBe(0);
+    expect([...converter.missing]).toEqual(['GBP']);
+  });
+});
@@ -0,0 +1,55 @@
+import { monthLookup, spendingLookup, type SpendingSources } from '@/lib/budgets';
+import { envelopeMonth, monthlyIncome } from '@/lib/envelopes';
+import type { EnvelopeAssignment, UserCategory } from '@/types';
+import { purchase, toBase, transaction } from '../helpers/fixtures';
+
+const category = (id: string, name: string): UserCategory => ({ id, userId: 'u1', name, isSystemDefined: false, createdAt: 0 });
+const categories = [category('c1', 'Alimentação'), category('c2', 'Lazer'), category('c3', 'Salário')];
+
+const assignment = (categoryId: string, month: string, amount: number): EnvelopeAssignment => ({ id: `${categoryId}-${month}`, userId: 'u1', categoryId, month, amount, createdAt: 0 });
+
+const sources: SpendingSources = {
+  transactions: [
+    transaction('t1', { type: 'income', amount: 3000, category: 'Salário', date: '2026-01-05', recurrenceFrequency: 'monthly' }),
+    transaction('t2', { amount: 450, category: 'Alimentação', date: '2026-01-12' }),
+    transaction('t3', { amount: 200, category: 'Alimentação', date: '2026-02-03' }),
+    transaction('t4', { amount: 80, category: 'Farmácia', date: '2026-02-15' }),
+  ],
+  occurrenceStates: [{ id: 's1', userId: 'u1', transactionId: 't1', scheduledDate: '2026-02-05', status: 'skipped', createdAt: 0 }],
+  creditCards: [{ id: 'c1', userId: 'u1', name: 'Cartão', limit: 5000, dueDateDay: 15, closingDateDay: 5, createdAt: 0 }],
+  creditCardPurchases: [purchase('p1', { date: '2026-02-20', totalAmount: 600, installments: 3 })],
+  loans: [],
+};
+
+describe('envelopes', () => {
+  it('deve contar as receitas não puladas e as compras no cartão inteiras na data da compra', () => {
+    expect(monthlyIncome(sources, '2026-02', toBase)).toEqual([]);
+    expect(monthlyIncome(sources, '2026-03', toBase)).toEqual([{ category: 'Salário', date: '2026-03-05', amount: 3000 }]);
+    expect(spendingLookup(sources, toBase, undefined, { cardPurchasesAt: 'purchase' })('2026-02')).toEqual([
+      { category: 'Alimentação', date: '2026-02-03', amount: 200 },
+      { category: 'Farmácia', date: '2026-02-15', amount: 80 },
+      { category: 'Lazer', date: '2026-02-20', amount: 600 },
+    ]);
+    expect(spendingLookup(sources, toBase, undefined, { cardPurchasesAt: 'purchase' })('2026-03')).toEqual([]);
+  });
+
+  it('deve acumular o saldo a atribuir e o disponível de cada envelope desde o início', () => {
+    const spendingOf = spendingLookup(sources, toBase, undefined, { cardPurchasesAt: 'purchase' });
+    const incomeOf = monthLookup(month => monthlyIncome(sources, month, toBase));
+    const assignments = [assignment('c1', '2026-01', 500), assignment('c2', '2026-01', 1000), assignment('c1', '2026-02', 300), assignment('c2', '2026-02', -200)];
+
+    expect(envelopeMonth('2026-01', '2026-02', categories, assignments, spendingOf, incomeOf)).toEqual({
+      month: '2026-02',
+      income: 0,
+      toBeAssigned: 1320, // 3000 received, 1600 assigned and 80 spent outside the envelopes
+      unassignedSpending: 80,
+      envelopes: [
+        { categoryId: 'c1', assigned: 300, activity: 200, available: 150 },
+        { categoryId: 'c2', assigned: -200, activity: 600, available: 200 },
+        { categoryId: 'c3', assigned: 0, activity: 0, available: 0 },
+      ],
+    });
+    expect(envelopeMonth('2026-02', '2026-02', categories, assignments, spendingOf, incomeOf)?.toBeAssigned).toBe(-180);
+    expect(envelopeMonth('2026-03', '2026-02', categories, assignments, spendingOf, incomeOf)).toBeNull();
+  });
+});
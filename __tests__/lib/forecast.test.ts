@@ -0,0 +1,70 @@
+import { cashFlowForecast, isForecastMonths, type ForecastSources } from '@/lib/forecast';
+import type { CreditCard } from '@/types';
+import { purchase, toBase, transaction } from '../helpers/fixtures';
+
+const card = (id: string, closingDateDay: number, dueDateDay: number): CreditCard => ({ id, userId: 'u1', name: `Cartão ${id}`, limit: 5000, closingDateDay, dueDateDay, createdAt: 0 });
+
+const sources: ForecastSources = {
+  accounts: [{ id: 'a1', userId: 'u1', name: 'Conta', type: 'checking', openingBalance: 1000, currency: 'BRL', createdAt: 0 }],
+  transactions: [
+    transaction('salary', { type: 'income', amount: 3000, category: 'Salário', date: '2026-01-05', recurrenceFrequency: 'monthly' }),
+    transaction('rent', { amount: 2900, category: 'Moradia', description: 'Aluguel', date: '2026-01-10', recurrenceFrequency: 'monthly' }),
+    transaction('move', { type: 'transfer', amount: 500, date: '2026-02-01', recurrenceFrequency: 'none', transferTo: 'account', transferToId: 'a2' }),
+  ],
+  occurrenceStates: [],
+  creditCards: [card('c1', 5, 12), card('c2', 25, 5)],
+  creditCardPurchases: [
+    purchase('p1', { date: '2026-02-20', description: 'TV', category: 'Casa', totalAmount: 600, installments: 3 }),
+    purchase('p2', { cardId: 'c2', date: '2026-03-20', description: 'Mercado', category: 'Alimentação', totalAmount: 300 }),
+  ],
+  loans: [{ id: 'l1', userId: 'u1', bankName: 'Banco', description: 'Carro', installmentAmount: 100, installmentsCount: 4, startDate: '2026-01-31', endDate: '2026-04-30', createdAt: 0 }],
+  goals: [{ id: 'g1', userId: 'u1', name: 'Viagem', targetAmount: 1000, currentAmount: 100, targetDate: '2026-06-10', status: 'active', createdAt: 0, updatedAt: 0 }],
+};
+
+describe('forecast', () => {
+  it('deve partir do saldo até ontem e prever transações, faturas no vencimento, empréstimos e metas', () => {
+    const forecast = cashFlowForecast(sources, toBase, new Date(2026, 2, 15), 3);
+
+    // 1000 + 3000 × 3 − 2900 × 3, less March's invoice of c1 (200, due on the 12th) and two loan installments.
+    expect(forecast.startingBalance).toBe(900);
+    expect(forecast.from).toBe('2026-03-15');
+    expect(forecast.to).toBe('2026-06-15');
+    expect(forecast.days).toHaveLength(93);
+    expect(forecast.events.filter(event => event.date <= '2026-04-12').map(({ date, amount, source }) => [date, amount, source])).toEqual([
+      ['2026-03-31', -100, 'loan'],
+      ['2026-04-01', -300, 'goal'],
+      ['2026-04-05', 3000, 'transaction'],
+      ['2026-04-05', -300, 'cardInvoice'], // Closes on March 25th, due on April 5th
+      ['2026-04-10', -2900, 'transaction'],
+      ['2026-04-12', -200, 'cardInvoice'], // March's invoice was due on the 12th, before today
+    ]);
+    expect(forecast.events.filter(event => event.source === 'loan').map(event => event.date)).toEqual(['2026-03-31', '2026-04-30']);
+  });
+
+  it('deve descontar do saldo inicial a fatura vencida antes de hoje, mas não a que vence depois', () => {
+    const onlyCard: ForecastSources = {
+      ...sources, transactions: [], loans: [], goals: [],
+      creditCardPurchases: [{ id: 'p3', userId: 'u1', cardId: 'c1', date: '2026-01-03', description: 'Sofá', category: 'Casa', totalAmount: 400, installments: 2, createdAt: 0 }],
+    };
+
+    const forecast = cashFlowForecast(onlyCard, toBase, new Date(2026, 1, 20), 3);
+
+    // January's invoice (due Jan 12th) was paid before today; February's (due Feb 12th) too; nothing is left.
+    expect(forecast.startingBalance).toBe(600);
+    expect(forecast.events).toEqual([]);
+    expect(cashFlowForecast(onlyCard, toBase, new Date(2026, 1, 10), 3)).toMatchObject({
+      startingBalance: 800,
+      events: [{ date: '2026-02-12', amount: -200, source: 'cardInvoice', sourceId: 'c1' }],
+    });
+  });
+
+  it('deve apontar o menor saldo e o primeiro dia negativo', () => {
+    const forecast = cashFlowForecast(sources, toBase, new Date(2026, 2, 15), 3);
+
+    expect(forecast.days.find(day => day.date === '2026-04-05')).toEqual({ date: '2026-04-05', inflow: 3000, outflow: 300, balance: 3200 });
+    expect(forecast.lowest).toEqual({ date: '2026-06-01', balance: -700 });
+    expect(forecast.firstNegativeDate).toBe('2026-05-01');
+    expect(forecast.days[forecast.days.length - 1].balance).toBe(-600);
+    expect([2, 3, 24, 25, 6.5].map(isForecastMonths)).toEqual([false, true, true, false, false]);
+  });
+});
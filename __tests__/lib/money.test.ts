@@ -0,0 +1,46 @@
+import { addMoney, allocateMoney, formatMoneyDecimal, multiplyMoney, parseMoney, roundMoney, splitMoney, subtractMoney, toCents } from '@/lib/money';
+
+describe('money', () => {
+  it('deve converter para centavos sem erro de ponto flutuante', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents('150.75')).toBe(15075);
+    expect(toCents(-2.675)).toBe(-268);
+    expect(roundMoney(1.005)).toBe(1.01);
+  });
+
+  it('deve somar e subtrair valores exatamente', () => {
+    expect(addMoney(0.1, 0.2)).toBe(0.3);
+    expect(addMoney(...Array(10).fill(0.1))).toBe(1);
+    expect(subtractMoney(1, 0.9)).toBe(0.1);
+  });
+
+  it('deve dividir parcelas sem perder centavos', () => {
+    const parts = splitMoney(100, 3);
+    expect(parts).toEqual([33.34, 33.33, 33.33]);
+    expect(addMoney(...parts)).toBe(100);
+    expect(splitMoney(-0.05, 2)).toEqual([-0.03, -0.02]);
+  });
+
+  it('deve repartir um valor na proporção de outros sem perder centavos', () => {
+    expect(allocateMoney(10, [1, 1, 1])).toEqual([3.34, 3.33, 3.33]);
+    expect(allocateMoney(50, [60, 30, 10])).toEqual([30, 15, 5]);
+    expect(allocateMoney(-10, [1, 1, 1])).toEqual([-3.34, -3.33, -3.33]);
+    expect(addMoney(...allocateMoney(99.99, [12.5, 7.3, 0.2]))).toBe(99.99);
+    expect(allocateMoney(1, [0, 0])).toEqual([0.5, 0.5]);
+  });
+
+  it('deve multiplicar e arredondar para centavos', () => {
+    expect(multiplyMoney(33.33, 3)).toBe(99.99);
+    expect(multiplyMoney(19.9, 12)).toBe(238.8);
+  });
+
+  it('deve formatar e interpretar valores decimais', () => {
+    expect(formatMoneyDecimal(1234.5)).toBe('1234.50');
+    expect(formatMoneyDecimal(-0.07)).toBe('-0.07');
+    expect(parseMoney('12,345')).toBe(12.35);
+    expect(parseMoney(' 99.9 ')).toBe(99.9);
+    expect(parseMoney('R$ 10')).toBeNull();
+    expect(parseMoney(Number.NaN)).toBeNull();
+    expect(parseMoney(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { matchPayee, normalizePayeeText, spendingByPayee, suggestPayeeName } from '@/lib/payees';
+import type { Payee } from '@/types';
+import { purchase, toBase, transaction } from '../helpers/fixtures';
+
+const payee = (id: string, name: string, aliases: string[] = []): Payee => ({ id, userId: 'u1', name, aliases, createdAt: 0 });
+const ifood = payee('p1', 'iFood', ['IFD*IFOOD.COM']);
+const ifoodMarket = payee('p2', 'iFood Mercado');
+const jose = payee('p3', 'José da Silva', ['JOSEDASILVA']);
+const unused = payee('p4', 'Padaria');
+
+describe('payees', () => {
+  it('deve normalizar descrições sem prefixo de maquininha, acentos e pontuação', () => {
+    expect(normalizePayeeText('PAG*JoséDaSilva')).toBe('JOSEDASILVA');
+    expect(normalizePayeeText('IFD*IFOOD.COM')).toBe('IFOODCOM');
+    expect(normalizePayeeText('iFood .com')).toBe('IFOODCOM');
+  });
+
+  it('deve reconhecer o favorecido pela descrição, preferindo o nome mais longo', () => {
+    const payees = [ifood, ifoodMarket, jose];
+    expect(matchPayee('IFOOD *RESTAURANTE', payees)).toBe(ifood);
+    expect(matchPayee('IFD*IFOOD MERCADO 123', payees)).toBe(ifoodMarket);
+    expect(matchPayee('PAG*JOSEDASILVA', payees)).toBe(jose);
+    expect(matchPayee('Posto Shell', payees)).toBeUndefined();
+  });
+
+  it('deve sugerir um nome a partir da descrição', () => {
+    expect(suggestPayeeName('PAG*PADARIA REAL 0042')).toBe('Padaria Real');
+  });
+
+  it('deve somar despesas e compras no cartão por favorecido e por mês', () => {
+    const transactions = [
+      transaction('x1', { amount: 40.1, payeeId: 'p1' }),
+      transaction('x2', { amount: 500, type: 'income', payeeId: 'p1' }),
+      transaction('x3', { amount: 20, payeeId: 'removido' }),
+    ];
+    const purchases = [purchase('p1', { date: '2026-04-12', totalAmount: 60, installments: 2, payeeId: 'p1' })];
+
+    expect(spendingByPayee([unused, ifood], transactions, purchases, toBase)).toEqual([
+      { payee: ifood, total: 100.1, count: 2, lastDate: '2026-04-12', byMonth: { '2026-03': 40.1, '2026-04': 60 } },
+      { payee: unused, total: 0, count: 0, lastDate: null, byMonth: {} },
+    ]);
+  });
+});
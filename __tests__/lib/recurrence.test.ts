@@ -0,0 +1,80 @@
+import { format } from 'date-fns';
+import { describeRecurrence, normalizeRecurrenceRule, occurrencesBetween, projectOccurrences, recurrenceRuleError, type RecurrenceRule } from '@/lib/recurrence';
+import type { RecurrenceOccurrence } from '@/types';
+
+const day = (value: string) => new Date(`${value}T00:00:00`);
+const datesOf = (rule: RecurrenceRule, from: string, to: string) =>
+  occurrencesBetween(rule, day(from), day(to)).map(date => format(date, 'yyyy-MM-dd'));
+
+describe('recurrence', () => {
+  it('deve manter o dia original nos meses seguintes aos meses curtos', () => {
+    const rule: RecurrenceRule = { date: '2026-01-31', recurrenceFrequency: 'monthly' };
+
+    expect(datesOf(rule, '2026-01-01', '2026-04-30')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+    expect(datesOf({ date: '2024-02-29', recurrenceFrequency: 'annually' }, '2025-01-01', '2028-12-31')).toEqual(['2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+  });
+
+  it('deve repetir a cada N dias, semanas e meses e quinzenalmente', () => {
+    expect(datesOf({ date: '2026-01-01', recurrenceFrequency: 'daily', recurrenceInterval: 10 }, '2026-01-05', '2026-02-01')).toEqual(['2026-01-11', '2026-01-21', '2026-01-31']);
+    expect(datesOf({ date: '2026-01-02', recurrenceFrequency: 'biweekly' }, '2026-01-01', '2026-02-13')).toEqual(['2026-01-02', '2026-01-16', '2026-01-30', '2026-02-13']);
+    expect(datesOf({ date: '2026-01-02', recurrenceFrequency: 'weekly', recurrenceInterval: 3 }, '2026-01-20', '2026-02-28')).toEqual(['2026-01-23', '2026-02-13']);
+    expect(datesOf({ date: '2025-11-15', recurrenceFrequency: 'monthly', recurrenceInterval: 3 }, '2026-01-01', '2026-12-31')).toEqual(['2026-02-15', '2026-05-15', '2026-08-15', '2026-11-15']);
+  });
+
+  it('deve parar na data final ou após o número de ocorrências', () => {
+    expect(datesOf({ date: '2026-01-10', recurrenceFrequency: 'monthly', recurrenceEndDate: '2026-03-10' }, '2026-01-01', '2026-12-31')).toEqual(['2026-01-10', '2026-02-10', '2026-03-10']);
+    expect(datesOf({ date: '2026-01-10', recurrenceFrequency: 'monthly', recurrenceCount: 2 }, '2026-01-01', '2026-12-31')).toEqual(['2026-01-10', '2026-02-10']);
+    expect(datesOf({ date: '2026-01-10', recurrenceFrequency: 'monthly', recurrenceCount: 2 }, '2026-03-01', '2026-12-31')).toEqual([]);
+  });
+
+  it('deve cair no último dia útil e tirar as ocorrências do fim de semana', () => {
+    expect(datesOf({ date: '2026-01-05', recurrenceFrequency: 'monthly', recurrenceDayRule: 'lastBusinessDay' }, '2026-01-01', '2026-05-31'))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-31', '2026-04-30', '2026-05-29']);
+    expect(datesOf({ date: '2026-05-31', recurrenceFrequency: 'monthly', recurrenceWeekendShift: 'after' }, '2026-05-01', '2026-06-30')).toEqual(['2026-06-01', '2026-06-30']);
+    expect(datesOf({ date: '2026-06-06', recurrenceFrequency: 'weekly', recurrenceWeekendShift: 'before' }, '2026-06-01', '2026-06-14')).toEqual(['2026-06-05', '2026-06-12']);
+  });
+
+  it('deve tratar uma transação não recorrente como uma única ocorrência', () => {
+    expect(datesOf({ date: '2026-03-10', recurrenceFrequency: 'none' }, '2026-03-01', '2026-03-31')).toEqual(['2026-03-10']);
+    expect(datesOf({ date: '2026-03-10' }, '2026-04-01', '2026-04-30')).toEqual([]);
+  });
+
+  it('deve aplicar às ocorrências o pagamento, o pulo, a remarcação e o ajuste registrados', () => {
+    const bill = { id: 'luz', amount: 280, date: '2026-01-10', recurrenceFrequency: 'monthly' as const };
+    const state = (scheduledDate: string, overrides: Partial<RecurrenceOccurrence>): RecurrenceOccurrence =>
+      ({ id: scheduledDate, userId: 'u', transactionId: 'luz', scheduledDate, status: 'pending', createdAt: 0, ...overrides });
+    const states = [
+      state('2026-03-10', { status: 'paid', date: '2026-03-12', amount: 312 }),
+      state('2026-04-10', { status: 'skipped' }),
+      state('2026-05-10', { date: '2026-06-02' }),
+      state('2026-06-10', { amount: 300 }),
+      state('2026-06-11', { status: 'paid' }),
+      state('2026-06-10', { transactionId: 'agua', status: 'skipped' }),
+    ];
+    const project = (from: string, to: string) => projectOccurrences(bill, states, day(from), day(to))
+      .map(o => [o.scheduledDate, format(o.date, 'yyyy-MM-dd'), o.amount, o.status]);
+
+    expect(project('2026-03-01', '2026-04-30')).toEqual([['2026-03-10', '2026-03-12', 312, 'paid'], ['2026-04-10', '2026-04-10', 280, 'skipped']]);
+    expect(project('2026-05-01', '2026-05-31')).toEqual([]);
+    expect(project('2026-06-01', '2026-06-30')).toEqual([['2026-05-10', '2026-06-02', 280, 'pending'], ['2026-06-10', '2026-06-10', 300, 'pending']]);
+  });
+
+  it('deve recusar regras inconsistentes e guardar os padrões como nulos', () => {
+    const monthly: RecurrenceRule = { date: '2026-03-10', recurrenceFrequency: 'monthly' };
+
+    expect(recurrenceRuleError({ ...monthly, recurrenceInterval: 2, recurrenceCount: 6, recurrenceDayRule: 'lastBusinessDay' })).toBeNull();
+    expect(recurrenceRuleError({ ...monthly, recurrenceFrequency: 'fortnightly' as any })).toBe('Invalid recurrence frequency.');
+    expect(recurrenceRuleError({ ...monthly, recurrenceInterval: 0 })).toMatch('Recurrence interval');
+    expect(recurrenceRuleError({ ...monthly, recurrenceEndDate: '2026-03-01' })).toBe('Recurrence end date cannot be before the transaction date.');
+    expect(recurrenceRuleError({ ...monthly, recurrenceEndDate: '2026-12-01', recurrenceCount: 3 })).toMatch('not both');
+    expect(recurrenceRuleError({ ...monthly, recurrenceFrequency: 'weekly', recurrenceDayRule: 'lastBusinessDay' })).toMatch('monthly and annual');
+    expect(recurrenceRuleError({ ...monthly, recurrenceFrequency: 'daily', recurrenceWeekendShift: 'after' })).toMatch('Daily recurrences');
+
+    expect(normalizeRecurrenceRule({ ...monthly, recurrenceInterval: 1, recurrenceDayRule: 'sameDay', recurrenceWeekendShift: 'none' })).toEqual({
+      recurrenceFrequency: 'monthly', recurrenceInterval: null, recurrenceEndDate: null, recurrenceCount: null, recurrenceDayRule: null, recurrenceWeekendShift: null,
+    });
+    expect(normalizeRecurrenceRule({ ...monthly, recurrenceFrequency: 'none', recurrenceCount: 3 }).recurrenceCount).toBeNull();
+    expect(describeRecurrence({ recurrenceFrequency: 'monthly', recurrenceInterval: 3, recurrenceDayRule: 'lastBusinessDay', recurrenceCount: 4 }))
+      .toBe('A cada 3 meses, último dia útil, 4 vezes');
+  });
+});
@@ -0,0 +1,33 @@
+import { categoryLines, splitsError, totalsByCategory } from '@/lib/splits';
+import type { CategorySplit } from '@/types';
+
+const splits: CategorySplit[] = [
+  { category: 'Mercado', amount: 70 },
+  { category: 'Casa', amount: 30.01 },
+];
+
+describe('splits', () => {
+  it('deve aceitar apenas linhas que somam o total', () => {
+    expect(splitsError(splits, 100.01)).toBeNull();
+    expect(splitsError(splits, 100)).toBe('Split amounts must add up to the total.');
+    expect(splitsError([splits[0]], 70)).toBe('A split needs at least two lines.');
+    expect(splitsError([splits[0], { category: ' ', amount: 10 }], 80)).toBe('Every split line needs a category and a positive amount.');
+  });
+
+  it('deve repartir um valor convertido na proporção das linhas', () => {
+    expect(categoryLines({ category: 'Mercado', splits }, 20)).toEqual([
+      { category: 'Mercado', amount: 14 },
+      { category: 'Casa', amount: 6 },
+    ]);
+    expect(categoryLines({ category: 'Lazer', splits: null }, 20)).toEqual([{ category: 'Lazer', amount: 20 }]);
+  });
+
+  it('deve somar por categoria respeitando as divisões', () => {
+    const records = [
+      { category: 'Mercado', splits, totalAmount: 100.01 },
+      { category: 'Casa', splits: null, totalAmount: 9.99 },
+    ];
+
+    expect(totalsByCategory(records, record => record.totalAmount)).toEqual({ Mercado: 70, Casa: 40 });
+  });
+});
@@ -0,0 +1,639 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Pool } from 'pg';
+import { createLocalJsonAdapter } from '@/lib/storage/localJsonAdapter';
+import { createPostgresAdapter } from '@/lib/storage/postgresAdapter';
+import { createSqliteAdapter } from '@/lib/storage/sqliteAdapter';
+import { migratePostgres } from '@/lib/storage/migrations';
+import { StorageError, type StorageAdapter, type StoredUser, type UserCollections } from '@/lib/storage';
+import type { Account, Attachment, Transaction, CreditCard, CreditCardPurchase, Investment, Loan, Reconciliation, UserCategory } from '@/types';
+
+// Suíte única que todo adaptador de armazenamento precisa passar.
+// O adaptador PostgreSQL só roda quando TEST_DATABASE_URL aponta para um banco descartável.
+
+interface AdapterHarness {
+  name: string;
+  enabled: boolean;
+  setup: () => Promise<StorageAdapter>;
+  teardown: (adapter: StorageAdapter) => Promise<void>;
+}
+
+let tmpDir: string;
+
+const harnesses: AdapterHarness[] = [
+  {
+    name: 'local JSON',
+    enabled: true,
+    setup: async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'solar-fin-storage-'));
+      return createLocalJsonAdapter({ filePath: path.join(tmpDir, 'db.json') });
+    },
+    teardown: async (adapter) => {
+      await adapter.close();
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    },
+  },
+  {
+    name: 'SQLite',
+    enabled: true,
+    setup: async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'solar-fin-storage-'));
+      return createSqliteAdapter({ filePath: path.join(tmpDir, 'solar-fin.sqlite') });
+    },
+    teardown: async (adapter) => {
+      await adapter.close();
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    },
+  },
+  {
+    name: 'PostgreSQL',
+    enabled: !!process.env.TEST_DATABASE_URL,
+    setup: async () => {
+      const pool = new Pool({ connectionString: process.env.TEST_DATABASE_URL });
+      await migratePostgres(pool);
+      await pool.query('TRUNCATE app_users CASCADE');
+      return createPostgresAdapter(pool);
+    },
+    teardown: (adapter) => adapter.close(),
+  },
+];
+
+// Comparação tolerante: backends relacionais devolvem null onde o JSON omite o campo.
+const withoutNil = <T extends object>(record: T) =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value !== null && value !== undefined));
+
+const newUser = (email = `user-${randomUUID()}@example.com`): StoredUser => ({
+  profile: { id: randomUUID(), email, displayName: 'Test User', createdAt: 1717000000000, lastLoginAt: 1717000000000, notifyByEmail: false },
+  hashedPassword: 'hashed-password',
+});
+
+const category = (userId: string, name: string): UserCategory => ({
+  id: randomUUID(), userId, name, isSystemDefined: true, createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+const transaction = (userId: string, overrides: Partial<Transaction> = {}): Transaction => ({
+  id: randomUUID(), userId, type: 'expense', amount: 150.75, currency: 'BRL', category: 'Alimentação', date: '2024-06-10',
+  description: 'Mercado', recurrenceFrequency: 'none', createdAt: 1717000000000, updatedAt: 1717000000000, ...overrides,
+});
+
+const account = (userId: string): Account => ({
+  id: randomUUID(), userId, name: 'Conta Corrente', type: 'checking', institution: 'Banco X', openingBalance: 1000.5, currency: 'BRL',
+  createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+const card = (userId: string): CreditCard => ({
+  id: randomUUID(), userId, name: 'Cartão Azul', limit: 5000, dueDateDay: 10, closingDateDay: 3, createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+const purchase = (userId: string, cardId: string): CreditCardPurchase => ({
+  id: randomUUID(), userId, cardId, date: '2024-06-02', description: 'Livro', category: 'Educação',
+  totalAmount: 90, currency: 'BRL', installments: 3, createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+const loan = (userId: string): Loan => ({
+  id: randomUUID(), userId, bankName: 'Banco X', description: 'Reforma', installmentAmount: 450.5, installmentsCount: 12,
+  startDate: '2024-01-15', endDate: '2024-12-15', createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+describe.each(harnesses.filter(h => h.enabled))('StorageAdapter conformance: $name', (harness) => {
+  let adapter: StorageAdapter;
+
+  beforeEach(async () => {
+    adapter = await harness.setup();
+  });
+
+  afterEach(async () => {
+    await harness.teardown(adapter);
+  });
+
+  describe('usuários', () => {
+    it('deve criar um usuário com suas categorias iniciais e encontrá-lo por id e email', async () => {
+      const user = newUser();
+      await adapter.createUser(user, [category(user.profile.id, 'Lazer'), category(user.profile.id, 'Alimentação')]);
+
+      const byId = await adapter.findUserById(user.profile.id);
+      const byEmail = await adapter.findUserByEmail(user.profile.email);
+
+      expect(byId?.profile).toMatchObject({ id: user.profile.id, email: user.profile.email, displayName: 'Test User', baseCurrency: 'BRL' });
+      expect(byEmail?.hashedPassword).toBe('hashed-password');
+      expect((await adapter.list('categories', user.profile.id)).map(c => c.name)).toEqual(['Alimentação', 'Lazer']);
+    });
+
+    it('deve rejeitar email duplicado com StorageError de conflito', async () => {
+      const user = newUser('dup@example.com');
+      await adapter.createUser(user, []);
+
+      await expect(adapter.createUser(newUser('dup@example.com'), [])).rejects.toMatchObject({ code: 'conflict' });
+      await expect(adapter.createUser(newUser('dup@example.com'), [])).rejects.toBeInstanceOf(StorageError);
+    });
+
+    it('deve criar um usuário já com todos os seus registros', async () => {
+      const user = newUser();
+      user.profile.envelopeStartMonth = '2024-06';
+      const userId = user.profile.id;
+      const c = card(userId);
+      const data: UserCollections = { accounts: [], reconciliations: [], transactions: [transaction(userId)], recurrenceOccurrences: [], loans: [], creditCards: [c], creditCardPurchases: [purchase(userId, c.id)], categories: [category(userId, 'Lazer')], budgets: [], envelopeAssignments: [], tags: [], payees: [], attachments: [], financialGoals: [], investments: [], exchangeRates: [], auditEvents: [] };
+
+      await adapter.createUserWithData(user, data);
+
+      expect((await adapter.findUserById(userId))?.profile).toMatchObject({ email: user.profile.email, envelopeStartMonth: '2024-06' });
+      expect((await adapter.list('creditCardPurchases', userId)).map(withoutNil)).toEqual(data.creditCardPurchases.map(withoutNil));
+      expect((await adapter.list('categories', userId)).map(cat => cat.name)).toEqual(['Lazer']);
+      await expect(adapter.createUserWithData(newUser(user.profile.email), data)).rejects.toMatchObject({ code: 'conflict' });
+    });
+
+    it('deve atualizar campos do perfil e a senha', async () => {
+      const user = newUser();
+      await adapter.createUser(user, []);
+
+      const updated = await adapter.updateUser(user.profile.id, { displayName: 'Novo Nome', notifyByEmail: true, hashedPassword: 'new-hash' });
+
+      expect(updated?.profile).toMatchObject({ displayName: 'Novo Nome', notifyByEmail: true });
+      expect((await adapter.findUserById(user.profile.id))?.hashedPassword).toBe('new-hash');
+      expect((await adapter.updateUser(user.profile.id, { envelopeStartMonth: '2024-06' }))?.profile.envelopeStartMonth).toBe('2024-06');
+      expect((await adapter.updateUser(user.profile.id, { envelopeStartMonth: null }))?.profile.envelopeStartMonth ?? null).toBeNull();
+      expect(await adapter.updateUser(randomUUID(), { displayName: 'x' })).toBeNull();
+    });
+
+    it('deve listar todos os usuários da instância do mais antigo ao mais novo', async () => {
+      const newer = newUser();
+      newer.profile.createdAt = 1718000000000;
+      const older = newUser();
+      await adapter.createUser(newer, []);
+      await adapter.createUser(older, []);
+
+      const users = await adapter.listUsers();
+
+      expect(users.map(u => u.profile.id)).toEqual([older.profile.id, newer.profile.id]);
+      expect(users[0].hashedPassword).toBe('hashed-password');
+    });
+
+    it('deve retornar null para usuários inexistentes', async () => {
+      expect(await adapter.findUserById(randomUUID())).toBeNull();
+      expect(await adapter.findUserByEmail('nobody@example.com')).toBeNull();
+    });
+  });
+
+  describe('entidades', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      const user = newUser();
+      userId = user.profile.id;
+      await adapter.createUser(user, []);
+    });
+
+    it('deve inserir e ler um registro preservando tipos e valores', async () => {
+      const tx = transaction(userId);
+      await adapter.insert('transactions', tx);
+
+      expect(withoutNil((await adapter.get('transactions', userId, tx.id))!)).toEqual(withoutNil(tx));
+      expect(withoutNil((await adapter.list('transactions', userId))[0])).toEqual(withoutNil(tx));
+    });
+
+    it('deve listar transações por data decrescente e depois por criação', async () => {
+      const older = transaction(userId, { date: '2024-05-01' });
+      const sameDayFirst = transaction(userId, { date: '2024-06-01', createdAt: 1717000000000 });
+      const sameDaySecond = transaction(userId, { date: '2024-06-01', createdAt: 1717000005000 });
+      for (const tx of [older, sameDayFirst, sameDaySecond]) await adapter.insert('transactions', tx);
+
+      expect((await adapter.list('transactions', userId)).map(tx => tx.id)).toEqual([sameDaySecond.id, sameDayFirst.id, older.id]);
+    });
+
+    it('deve consultar transações com filtros e paginar por cursor', async () => {
+      const rent = transaction(userId, { date: '2024-06-05', amount: 1200, category: 'Moradia', description: 'Aluguel', recurrenceFrequency: 'monthly', createdAt: 1717000001000 });
+      const market = transaction(userId, { date: '2024-06-05', amount: 150.75, description: 'Mercado 50%', createdAt: 1717000002000 });
+      const salary = transaction(userId, { date: '2024-06-01', type: 'income', amount: 5000, category: 'Salário', description: 'Salário' });
+      const cinema = transaction(userId, { date: '2024-05-20', amount: 45, category: 'Lazer', description: 'Cinema' });
+      const trashed = transaction(userId, { date: '2024-06-06', amount: 99 });
+      for (const tx of [rent, market, salary, cinema, trashed]) await adapter.insert('transactions', tx);
+      await adapter.trash('transactions', userId, trashed.id, Date.now());
+      const ids = (page: { transactions: Transaction[] }) => page.transactions.map(tx => tx.id);
+
+      const first = await adapter.queryTransactions(userId, { limit: 2 });
+      expect(ids(first)).toEqual([market.id, rent.id]);
+      expect(first.totalCount).toBe(4);
+      const second = await adapter.queryTransactions(userId, { limit: 2, cursor: first.nextCursor! });
+      expect(ids(second)).toEqual([salary.id, cinema.id]);
+      expect(second.nextCursor).toBeNull();
+
+      expect(ids(await adapter.queryTransactions(userId, { type: 'expense', from: '2024-06-01', to: '2024-06-30' }))).toEqual([market.id, rent.id]);
+      expect(ids(await adapter.queryTransactions(userId, { minAmount: 45, maxAmount: 1200, sortBy: 'amount', sortOrder: 'asc' }))).toEqual([cinema.id, market.id, rent.id]);
+      expect(ids(await adapter.queryTransactions(userId, { recurrence: 'recurring' }))).toEqual([rent.id]);
+      expect(ids(await adapter.queryTransactions(userId, { recurrence: 'none', category: 'Lazer' }))).toEqual([cinema.id]);
+      expect(ids(await adapter.queryTransactions(userId, { search: 'MERCADO' }))).toEqual([market.id]);
+      expect(ids(await adapter.queryTransactions(userId, { search: '50%' }))).toEqual([market.id]);
+      expect(ids(await adapter.queryTransactions(userId, { search: 'moradia' }))).toEqual([rent.id]);
+
+      const byAmount = await adapter.queryTransactions(userId, { sortBy: 'amount', limit: 1 });
+      expect(ids(byAmount)).toEqual([salary.id]);
+      expect(ids(await adapter.queryTransactions(userId, { sortBy: 'amount', limit: 1, cursor: byAmount.nextCursor! }))).toEqual([rent.id]);
+    });
+
+    it('deve filtrar transações por tag', async () => {
+      const tagged = transaction(userId, { tagIds: ['tag-1', 'tag-2'] });
+      const otherTag = transaction(userId, { tagIds: ['tag-2'] });
+      for (const tx of [tagged, otherTag, transaction(userId)]) await adapter.insert('transactions', tx);
+      const ids = (page: { transactions: Transaction[] }) => page.transactions.map(tx => tx.id);
+
+      expect((await adapter.get('transactions', userId, tagged.id))?.tagIds).toEqual(['tag-1', 'tag-2']);
+      expect(ids(await adapter.queryTransactions(userId, { tagId: 'tag-1' }))).toEqual([tagged.id]);
+      expect(ids(await adapter.queryTransactions(userId, { tagId: 'tag-2', sortBy: 'createdAt' })).sort()).toEqual([tagged.id, otherTag.id].sort());
+    });
+
+    it('deve filtrar transações por conta e levá-las para a Lixeira junto com a conta', async () => {
+      const checking = account(userId);
+      await adapter.insert('accounts', checking);
+      const inAccount = transaction(userId, { accountId: checking.id });
+      const withoutAccount = transaction(userId);
+      for (const tx of [inAccount, withoutAccount]) await adapter.insert('transactions', tx);
+      const ids = (page: { transactions: Transaction[] }) => page.transactions.map(tx => tx.id);
+
+      expect(withoutNil((await adapter.get('accounts', userId, checking.id))!)).toEqual(withoutNil(checking));
+      expect(ids(await adapter.queryTransactions(userId, { accountId: checking.id }))).toEqual([inAccount.id]);
+      expect(ids(await adapter.queryTransactions(userId, { accountId: 'none' }))).toEqual([withoutAccount.id]);
+
+      await adapter.trash('accounts', userId, checking.id, Date.now());
+
+      expect((await adapter.get('transactions', userId, inAccount.id))?.deletedAt).toBeTruthy();
+      expect((await adapter.get('transactions', userId, withoutAccount.id))?.deletedAt).toBeFalsy();
+    });
+
+    it('deve aplicar os padrões de leitura (recurrenceFrequency e updatedAt)', async () => {
+      const { recurrenceFrequency, updatedAt, ...legacy } = transaction(userId);
+      await adapter.insert('transactions', legacy as Transaction);
+
+      const stored = await adapter.get('transactions', userId, legacy.id);
+      expect(stored?.recurrenceFrequency).toBe('none');
+      expect(stored?.updatedAt).toBeGreaterThan(0);
+    });
+
+    it('deve isolar registros entre usuários', async () => {
+      const other = newUser();
+      await adapter.createUser(other, []);
+      const tx = transaction(userId);
+      await adapter.insert('transactions', tx);
+
+      expect(await adapter.list('transactions', other.profile.id)).toEqual([]);
+      expect(await adapter.get('transactions', other.profile.id, tx.id)).toBeNull();
+      expect(await adapter.update('transactions', other.profile.id, tx.id, { amount: 1, updatedAt: Date.now() })).toBeNull();
+      expect(await adapter.remove('transactions', other.profile.id, tx.id)).toBe(false);
+    });
+
+    it('deve guardar valores monetários arredondados para centavos', async () => {
+      const tx = transaction(userId, { amount: 1.005 });
+      await adapter.insert('transactions', tx);
+      await adapter.insert('transactions', transaction(userId, { amount: 0.1 + 0.2 }));
+
+      expect((await adapter.get('transactions', userId, tx.id))?.amount).toBe(1.01);
+      expect((await adapter.list('transactions', userId)).map(t => t.amount).sort()).toEqual([0.3, 1.01]);
+      expect((await adapter.update('transactions', userId, tx.id, { amount: 19.999, updatedAt: Date.now() }))?.amount).toBe(20);
+    });
+
+    it('deve recusar inserção para usuário inexistente com StorageError not_found', async () => {
+      await expect(adapter.insert('loans', loan(randomUUID()))).rejects.toMatchObject({ code: 'not_found' });
+    });
+
+    it('deve aplicar atualizações parciais ignorando campos undefined', async () => {
+      const l = loan(userId);
+      await adapter.insert('loans', l);
+
+      const updated = await adapter.update('loans', userId, l.id, { installmentAmount: 500, description: undefined, updatedAt: 1718000000000 });
+
+      expect(updated).toMatchObject({ installmentAmount: 500, description: 'Reforma', bankName: 'Banco X', updatedAt: 1718000000000 });
+      expect(await adapter.get('loans', userId, l.id)).toMatchObject({ installmentAmount: 500, description: 'Reforma' });
+      expect(await adapter.update('loans', userId, randomUUID(), { installmentAmount: 1, updatedAt: Date.now() })).toBeNull();
+    });
+
+    it('deve atualizar somente se a versão esperada ainda for a atual', async () => {
+      const l = loan(userId);
+      await adapter.insert('loans', l);
+
+      const updated = await adapter.update('loans', userId, l.id, { installmentAmount: 500, updatedAt: 1718000000000 }, l.updatedAt);
+      expect(updated).toMatchObject({ installmentAmount: 500 });
+
+      expect(await adapter.update('loans', userId, l.id, { installmentAmount: 600, updatedAt: 1719000000000 }, l.updatedAt)).toBeNull();
+      expect((await adapter.get('loans', userId, l.id))?.installmentAmount).toBe(500);
+      expect(await adapter.update('loans', userId, l.id, { installmentAmount: 600, updatedAt: 1719000000000 }, updated!.updatedAt)).toMatchObject({ installmentAmount: 600 });
+    });
+
+    it('deve usar o updatedAt gravado como versão mesmo em salvamentos no mesmo milissegundo', async () => {
+      // Mesma sequência do databaseService: cada versão nova é a anterior + 1 quando o relógio não avançou.
+      const l = { ...loan(userId), updatedAt: Date.now() };
+      await adapter.insert('loans', l);
+
+      const first = await adapter.update('loans', userId, l.id, { installmentAmount: 500, updatedAt: l.updatedAt + 1 }, l.updatedAt);
+      expect(first?.updatedAt).toBe(l.updatedAt + 1);
+      const second = await adapter.update('loans', userId, l.id, { installmentAmount: 600, updatedAt: l.updatedAt + 2 }, first!.updatedAt);
+      expect(second?.updatedAt).toBe(l.updatedAt + 2);
+
+      expect(await adapter.update('loans', userId, l.id, { installmentAmount: 700, updatedAt: l.updatedAt + 3 }, first!.updatedAt)).toBeNull();
+      expect(await adapter.get('loans', userId, l.id)).toMatchObject({ installmentAmount: 600, updatedAt: l.updatedAt + 2 });
+    });
+
+    it('deve aplicar um lote de inclusões, alterações e exclusões de uma vez', async () => {
+      const kept = transaction(userId, { description: 'Padaria' });
+      const trashed = transaction(userId, { description: 'Feira' });
+      await adapter.insert('transactions', kept);
+      await adapter.insert('transactions', trashed);
+      const added = transaction(userId, { description: 'Cinema' });
+
+      const result = await adapter.applyBatch('transactions', userId, [
+        { type: 'insert', record: added },
+        { type: 'update', id: kept.id, patch: { amount: 12, updatedAt: 1718000000000 }, expectedUpdatedAt: kept.updatedAt },
+        { type: 'trash', id: trashed.id, deletedAt: 1718000000000 },
+      ]);
+
+      expect(result.applied).toBe(true);
+      expect(result.applied && result.records.map(r => r.id)).toEqual([added.id, kept.id, trashed.id]);
+      expect((await adapter.get('transactions', userId, kept.id))?.amount).toBe(12);
+      expect((await adapter.get('transactions', userId, trashed.id))?.deletedAt).toBe(1718000000000);
+      expect(await adapter.get('transactions', userId, added.id)).not.toBeNull();
+    });
+
+    it('deve desfazer o lote inteiro se uma operação falhar', async () => {
+      const existing = transaction(userId);
+      await adapter.insert('transactions', existing);
+      const added = transaction(userId);
+
+      const result = await adapter.applyBatch('transactions', userId, [
+        { type: 'insert', record: added },
+        { type: 'update', id: existing.id, patch: { amount: 99, updatedAt: 1718000000000 } },
+        { type: 'update', id: existing.id, patch: { amount: 1, updatedAt: 1719000000000 }, expectedUpdatedAt: existing.updatedAt },
+      ]);
+
+      expect(result).toEqual({ applied: false, failedIndex: 2 });
+      expect(await adapter.get('transactions', userId, added.id)).toBeNull();
+      expect((await adapter.get('transactions', userId, existing.id))?.amount).toBe(150.75);
+      await expect(adapter.applyBatch('transactions', randomUUID(), [])).rejects.toMatchObject({ code: 'not_found' });
+    });
+
+    it('deve aplicar operações em várias entidades de uma vez, inclusive restaurações', async () => {
+      const investment: Investment = {
+        id: randomUUID(), userId, name: 'Tesouro Selic', type: 'savings', currentValue: 1000, currency: 'BRL', createdAt: 1717000000000, updatedAt: 1717000000000,
+      };
+      await adapter.insert('investments', investment);
+      const trashed = transaction(userId, { deletedAt: 1717500000000 });
+      await adapter.insert('transactions', trashed);
+      const transfer = transaction(userId, { type: 'transfer', amount: 200, category: 'Transferência', transferTo: 'investment', transferToId: investment.id });
+
+      const failed = await adapter.applyChanges(userId, [
+        { entity: 'transactions', type: 'insert', record: transfer },
+        { entity: 'investments', type: 'update', id: investment.id, patch: { currentValue: 1200, updatedAt: 1718000000000 }, expectedUpdatedAt: 1 },
+      ]);
+      expect(failed).toEqual({ applied: false, failedIndex: 1 });
+      expect(await adapter.get('transactions', userId, transfer.id)).toBeNull();
+
+      const result = await adapter.applyChanges(userId, [
+        { entity: 'transactions', type: 'insert', record: transfer },
+        { entity: 'investments', type: 'update', id: investment.id, patch: { currentValue: 1200, updatedAt: 1718000000000 }, expectedUpdatedAt: investment.updatedAt },
+        { entity: 'transactions', type: 'restore', id: trashed.id },
+      ]);
+      expect(result.applied && result.records.map(r => r.id)).toEqual([transfer.id, investment.id, trashed.id]);
+      expect(await adapter.get('transactions', userId, transfer.id)).toMatchObject({ type: 'transfer', transferTo: 'investment', transferToId: investment.id });
+      expect((await adapter.get('investments', userId, investment.id))?.currentValue).toBe(1200);
+      expect((await adapter.get('transactions', userId, trashed.id))?.deletedAt).toBeFalsy();
+    });
+
+    it('deve excluir um cartão junto com suas compras', async () => {
+      const c = card(userId);
+      const otherCard = card(userId);
+      await adapter.insert('creditCards', c);
+      await adapter.insert('creditCards', otherCard);
+      await adapter.insert('creditCardPurchases', purchase(userId, c.id));
+      const kept = purchase(userId, otherCard.id);
+      await adapter.insert('creditCardPurchases', kept);
+
+      expect(await adapter.remove('creditCards', userId, c.id)).toBe(true);
+      expect(await adapter.remove('creditCards', userId, c.id)).toBe(false);
+      expect((await adapter.list('creditCardPurchases', userId)).map(p => p.id)).toEqual([kept.id]);
+    });
+  });
+
+  describe('lixeira', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      const user = newUser();
+      userId = user.profile.id;
+      await adapter.createUser(user, []);
+    });
+
+    it('deve mover um registro para a lixeira e restaurá-lo', async () => {
+      const tx = transaction(userId);
+      await adapter.insert('transactions', tx);
+
+      expect(await adapter.trash('transactions', userId, tx.id, 1718000000000)).toBe(true);
+      expect(await adapter.trash('transactions', userId, tx.id, 1718000001000)).toBe(false);
+      expect((await adapter.get('transactions', userId, tx.id))?.deletedAt).toBe(1718000000000);
+
+      expect(await adapter.restore('transactions', userId, tx.id)).toBe(true);
+      expect(await adapter.restore('transactions', userId, tx.id)).toBe(false);
+      expect((await adapter.get('transactions', userId, tx.id))?.deletedAt ?? null).toBeNull();
+      expect(await adapter.trash('transactions', randomUUID(), tx.id, Date.now())).toBe(false);
+    });
+
+    it('deve restaurar com o cartão apenas as compras excluídas junto com ele', async () => {
+      const c = card(userId);
+      await adapter.insert('creditCards', c);
+      const earlier = purchase(userId, c.id);
+      const cascaded = purchase(userId, c.id);
+      await adapter.insert('creditCardPurchases', earlier);
+      await adapter.insert('creditCardPurchases', cascaded);
+
+      await adapter.trash('creditCardPurchases', userId, earlier.id, 1718000000000);
+      await adapter.trash('creditCards', userId, c.id, 1718000005000);
+      const trashed = await adapter.list('creditCardPurchases', userId);
+      expect(Object.fromEntries(trashed.map(p => [p.id, p.deletedAt]))).toEqual({ [earlier.id]: 1718000000000, [cascaded.id]: 1718000005000 });
+
+      expect(await adapter.restore('creditCards', userId, c.id)).toBe(true);
+      expect((await adapter.get('creditCardPurchases', userId, cascaded.id))?.deletedAt ?? null).toBeNull();
+      expect((await adapter.get('creditCardPurchases', userId, earlier.id))?.deletedAt).toBe(1718000000000);
+    });
+
+    it('deve manter a versão ao mover para a lixeira e restaurar', async () => {
+      const c = card(userId);
+      const p = purchase(userId, c.id);
+      await adapter.insert('creditCards', c);
+      await adapter.insert('creditCardPurchases', p);
+
+      await adapter.trash('creditCards', userId, c.id, 1718000000000);
+      expect((await adapter.get('creditCards', userId, c.id))?.updatedAt).toBe(c.updatedAt);
+      expect((await adapter.get('creditCardPurchases', userId, p.id))?.updatedAt).toBe(p.updatedAt);
+
+      await adapter.restore('creditCards', userId, c.id);
+      expect((await adapter.get('creditCards', userId, c.id))?.updatedAt).toBe(c.updatedAt);
+      expect((await adapter.get('creditCardPurchases', userId, p.id))?.updatedAt).toBe(p.updatedAt);
+      expect(await adapter.update('creditCards', userId, c.id, { limit: 6000, updatedAt: 1719000000000 }, c.updatedAt)).toMatchObject({ limit: 6000 });
+    });
+
+    it('deve levar os anexos junto com o registro a que pertencem', async () => {
+      const loanRecord = loan(userId);
+      const tx = transaction(userId);
+      await adapter.insert('loans', loanRecord);
+      await adapter.insert('transactions', tx);
+      const attachment = (ownerEntity: Attachment['ownerEntity'], ownerId: string): Attachment =>
+        ({ id: randomUUID(), userId, ownerEntity, ownerId, fileName: 'contrato.pdf', contentType: 'application/pdf', size: 2048, hasThumbnail: false, createdAt: 1717000000000 });
+      const contract = attachment('loans', loanRecord.id);
+      const receipt = attachment('transactions', tx.id);
+      await adapter.insert('attachments', contract);
+      await adapter.insert('attachments', receipt);
+
+      await adapter.trash('loans', userId, loanRecord.id, 1718000000000);
+      expect((await adapter.get('attachments', userId, contract.id))?.deletedAt).toBe(1718000000000);
+      expect((await adapter.get('attachments', userId, receipt.id))?.deletedAt ?? null).toBeNull();
+
+      expect(await adapter.remove('loans', userId, loanRecord.id)).toBe(true);
+      expect((await adapter.list('attachments', userId)).map(a => a.id)).toEqual([receipt.id]);
+    });
+
+    it('deve guardar as ocorrências de uma recorrente e levá-las junto com a transação', async () => {
+      const bill = transaction(userId, { amount: 280, recurrenceFrequency: 'monthly' });
+      await adapter.insert('transactions', bill);
+      const paid = { id: randomUUID(), userId, transactionId: bill.id, scheduledDate: '2024-07-10', status: 'paid' as const, date: '2024-07-12', amount: 312.4, createdAt: 1717000000000 };
+      const skipped = { id: randomUUID(), userId, transactionId: bill.id, scheduledDate: '2024-06-10', status: 'skipped' as const, createdAt: 1717000000000 };
+      await adapter.insert('recurrenceOccurrences', paid);
+      await adapter.insert('recurrenceOccurrences', skipped);
+
+      const occurrences = await adapter.list('recurrenceOccurrences', userId);
+      expect(occurrences.map(o => o.scheduledDate)).toEqual(['2024-06-10', '2024-07-10']);
+      expect(occurrences[0]).toMatchObject({ status: 'skipped', date: null, amount: null });
+      expect(occurrences[1]).toMatchObject({ status: 'paid', date: '2024-07-12', amount: 312.4 });
+
+      await adapter.trash('transactions', userId, bill.id, 1718000000000);
+      expect((await adapter.get('recurrenceOccurrences', userId, paid.id))?.deletedAt).toBe(1718000000000);
+      expect(await adapter.restore('transactions', userId, bill.id)).toBe(true);
+      expect((await adapter.get('recurrenceOccurrences', userId, paid.id))?.deletedAt ?? null).toBeNull();
+
+      expect(await adapter.remove('transactions', userId, bill.id)).toBe(true);
+      expect(await adapter.list('recurrenceOccurrences', userId)).toEqual([]);
+    });
+
+    it('deve guardar as conciliações de uma conta e levá-las junto com a conta', async () => {
+      const checking = account(userId);
+      await adapter.insert('accounts', checking);
+      const reconciled = transaction(userId, { accountId: checking.id, clearedStatus: 'reconciled' });
+      await adapter.insert('transactions', reconciled);
+      const reconciliation = (statementDate: string, overrides: Partial<Reconciliation> = {}): Reconciliation =>
+        ({ id: randomUUID(), userId, accountId: checking.id, statementDate, statementBalance: 1520.3, status: 'open', createdAt: 1717000000000, ...overrides });
+      const may = reconciliation('2024-05-31', { status: 'completed', transactionIds: [reconciled.id], completedAt: 1717200000000 });
+      const june = reconciliation('2024-06-30');
+      await adapter.insert('reconciliations', may);
+      await adapter.insert('reconciliations', june);
+
+      const reconciliations = await adapter.list('reconciliations', userId);
+      expect(reconciliations.map(r => r.statementDate)).toEqual(['2024-06-30', '2024-05-31']);
+      expect(reconciliations[0]).toMatchObject({ status: 'open', transactionIds: null, completedAt: null });
+      expect(reconciliations[1]).toMatchObject({ statementBalance: 1520.3, transactionIds: [reconciled.id], completedAt: 1717200000000 });
+      expect((await adapter.get('transactions', userId, reconciled.id))?.clearedStatus).toBe('reconciled');
+
+      await adapter.trash('accounts', userId, checking.id, 1718000000000);
+      expect((await adapter.get('reconciliations', userId, may.id))?.deletedAt).toBe(1718000000000);
+
+      expect(await adapter.remove('accounts', userId, checking.id)).toBe(true);
+      expect(await adapter.list('reconciliations', userId)).toEqual([]);
+    });
+
+    it('deve guardar os orçamentos e envelopes de uma categoria e removê-los junto com ela', async () => {
+      const groceries = category(userId, 'Mercado');
+      await adapter.insert('categories', groceries);
+      const budget = { id: randomUUID(), userId, categoryId: groceries.id, amount: 800.5, rollover: true, startMonth: '2024-06', createdAt: 1717000000000 };
+      const envelope = { id: randomUUID(), userId, categoryId: groceries.id, month: '2024-06', amount: -120.25, createdAt: 1717000000000 };
+      await adapter.insert('budgets', budget);
+      await adapter.insert('envelopeAssignments', envelope);
+
+      expect(await adapter.list('budgets', userId)).toEqual([expect.objectContaining({ amount: 800.5, rollover: true, startMonth: '2024-06' })]);
+      expect(await adapter.list('envelopeAssignments', userId)).toEqual([expect.objectContaining({ amount: -120.25, month: '2024-06' })]);
+
+      await adapter.trash('categories', userId, groceries.id, 1718000000000);
+      expect((await adapter.get('budgets', userId, budget.id))?.deletedAt).toBe(1718000000000);
+      expect((await adapter.get('envelopeAssignments', userId, envelope.id))?.deletedAt).toBe(1718000000000);
+
+      expect(await adapter.remove('categories', userId, groceries.id)).toBe(true);
+      expect(await adapter.list('budgets', userId)).toEqual([]);
+      expect(await adapter.list('envelopeAssignments', userId)).toEqual([]);
+    });
+  });
+
+  describe('histórico', () => {
+    it('deve guardar eventos com as alterações por campo e listá-los do mais antigo ao mais novo', async () => {
+      const user = newUser();
+      const userId = user.profile.id;
+      await adapter.createUser(user, []);
+      const recordId = randomUUID();
+      const update = { id: randomUUID(), userId, entity: 'loans', recordId, action: 'update' as const, changes: [{ field: 'installmentAmount', from: 450.5, to: 470 }, { field: 'description', from: 'Reforma', to: null }], actorId: userId, createdAt: 1718000005000 };
+      const create = { id: randomUUID(), userId, entity: 'loans', recordId, action: 'create' as const, changes: [], actorId: userId, createdAt: 1718000000000 };
+      const purge = { id: randomUUID(), userId, entity: 'loans', recordId, action: 'purge' as const, changes: [], actorId: null, createdAt: 1718000009000 };
+      await adapter.insert('auditEvents', update);
+      await adapter.insert('auditEvents', purge);
+      await adapter.insert('auditEvents', create);
+
+      const events = await adapter.list('auditEvents', userId);
+
+      expect(events.map(e => e.action)).toEqual(['create', 'update', 'purge']);
+      expect(events[1].changes).toEqual(update.changes);
+      expect(events[2].actorId ?? null).toBeNull();
+    });
+  });
+
+  describe('restauração', () => {
+    it('deve substituir todas as coleções e atualizar o perfil preservando timestamps', async () => {
+      const user = newUser();
+      const userId = user.profile.id;
+      await adapter.createUser(user, [category(userId, 'Antiga')]);
+      await adapter.insert('transactions', transaction(userId));
+
+      const c = card(userId);
+      const wallet = account(userId);
+      const trip = { id: randomUUID(), userId, name: 'Viagem Chile', createdAt: 1717000000000, updatedAt: 1717000000000 };
+      const market = { id: randomUUID(), userId, name: 'Mercado Bom Preço', aliases: ['BOMPRECO'], defaultCategory: 'Nova', createdAt: 1717000000000, updatedAt: 1717000000000 };
+      const newCategory = category(userId, 'Nova');
+      const restoredTx = transaction(userId, { updatedAt: 1718000000000, amount: 42, accountId: wallet.id, tagIds: [trip.id], payeeId: market.id, clearedStatus: 'reconciled' });
+      const data: UserCollections = {
+        accounts: [wallet],
+        reconciliations: [{ id: randomUUID(), userId, accountId: wallet.id, statementDate: '2024-06-30', statementBalance: 42, status: 'completed', transactionIds: [restoredTx.id], completedAt: 1718000000000, createdAt: 1718000000000, updatedAt: 1718000000000 }],
+        transactions: [restoredTx],
+        recurrenceOccurrences: [{ id: randomUUID(), userId, transactionId: restoredTx.id, scheduledDate: '2024-06-10', status: 'paid', date: '2024-06-11', amount: 45.9, createdAt: 1718000000000, updatedAt: 1718000000000 }],
+        loans: [loan(userId)],
+        creditCards: [c],
+        creditCardPurchases: [purchase(userId, c.id)],
+        categories: [newCategory],
+        budgets: [{ id: randomUUID(), userId, categoryId: newCategory.id, amount: 300, rollover: false, startMonth: '2024-06', createdAt: 1718000000000, updatedAt: 1718000000000 }],
+        envelopeAssignments: [{ id: randomUUID(), userId, categoryId: newCategory.id, month: '2024-06', amount: 450.1, createdAt: 1718000000000, updatedAt: 1718000000000 }],
+        tags: [trip],
+        payees: [market],
+        attachments: [{ id: randomUUID(), userId, ownerEntity: 'transactions', ownerId: restoredTx.id, fileName: 'nota.jpg', contentType: 'image/jpeg', size: 53211, hasThumbnail: true, createdAt: 1718000000000, updatedAt: 1718000000000 }],
+        financialGoals: [{ id: randomUUID(), userId, name: 'Viagem', targetAmount: 8000, currentAmount: 1000, targetDate: '2025-12-01', status: 'active', createdAt: 1717000000000, updatedAt: 1717000000000 }],
+        investments: [{ id: randomUUID(), userId, name: 'Tesouro', type: 'savings', currentValue: 2500.5, quantity: 1.5, createdAt: 1717000000000, updatedAt: 1717500000000 }],
+        exchangeRates: [{ id: randomUUID(), userId, currency: 'USD', quoteCurrency: 'BRL', rate: 5.4321, date: '2024-06-10', createdAt: 1717000000000, updatedAt: 1717000000000 }],
+        auditEvents: [{ id: randomUUID(), userId, entity: 'transactions', recordId: restoredTx.id, action: 'update', changes: [{ field: 'amount', from: 40, to: 42 }], actorId: userId, createdAt: 1718000000000 }],
+      };
+
+      expect(await adapter.replaceUserData(userId, { displayName: 'Restaurado', notifyByEmail: true, baseCurrency: 'USD', envelopeStartMonth: '2024-06' }, data)).toBe(true);
+
+      expect((await adapter.findUserById(userId))?.profile).toMatchObject({ displayName: 'Restaurado', notifyByEmail: true, baseCurrency: 'USD', envelopeStartMonth: '2024-06' });
+      expect((await adapter.list('transactions', userId)).map(withoutNil)).toEqual([withoutNil(restoredTx)]);
+      expect((await adapter.list('categories', userId)).map(cat => cat.name)).toEqual(['Nova']);
+      expect((await adapter.list('investments', userId))[0]).toMatchObject({ currentValue: 2500.5, quantity: 1.5, updatedAt: 1717500000000 });
+      expect((await adapter.list('financialGoals', userId))[0]).toMatchObject({ targetDate: '2025-12-01', currentAmount: 1000 });
+      expect(await adapter.list('creditCardPurchases', userId)).toHaveLength(1);
+      expect(await adapter.list('auditEvents', userId)).toEqual(data.auditEvents);
+      expect((await adapter.list('exchangeRates', userId)).map(withoutNil)).toEqual(data.exchangeRates.map(withoutNil));
+      expect((await adapter.list('accounts', userId)).map(withoutNil)).toEqual([withoutNil(wallet)]);
+      expect((await adapter.list('tags', userId)).map(withoutNil)).toEqual([withoutNil(trip)]);
+      expect((await adapter.list('payees', userId)).map(withoutNil)).toEqual([withoutNil(market)]);
+      expect((await adapter.list('attachments', userId)).map(withoutNil)).toEqual(data.attachments.map(withoutNil));
+      expect((await adapter.list('recurrenceOccurrences', userId)).map(withoutNil)).toEqual(data.recurrenceOccurrences.map(withoutNil));
+      expect((await adapter.list('reconciliations', userId)).map(withoutNil)).toEqual(data.reconciliations.map(withoutNil));
+      expect((await adapter.list('budgets', userId)).map(withoutNil)).toEqual(data.budgets.map(withoutNil));
+      expect((await adapter.list('envelopeAssignments', userId)).map(withoutNil)).toEqual(data.envelopeAssignments.map(withoutNil));
+    });
+
+    it('deve retornar false ao restaurar um usuário inexistente', async () => {
+      const emptyData: UserCollections = { accounts: [], reconciliations: [], transactions: [], recurrenceOccurrences: [], loans: [], creditCards: [], creditCardPurchases: [], categories: [], budgets: [], envelopeAssignments: [], tags: [], payees: [], attachments: [], financialGoals: [], investments: [], exchangeRates: [], auditEvents: [] };
+      expect(await adapter.replaceUserData(randomUUID(), {}, emptyData)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createLocalJsonAdapter } from '@/lib/storage/localJsonAdapter';
+import type { StorageAdapter, StoredUser } from '@/lib/storage';
+import type { Transaction } from '@/types';
+
+// Garantias específicas do db.json: escrita atômica, fila de escrita, cache e recuperação.
+
+const newUser = (): StoredUser => ({
+  profile: { id: randomUUID(), email: `user-${randomUUID()}@example.com`, displayName: 'Test User', createdAt: 1717000000000, notifyByEmail: false },
+  hashedPassword: 'hashed-password',
+});
+
+const transaction = (userId: string, amount: number): Transaction => ({
+  id: randomUUID(), userId, type: 'expense', amount, category: 'Alimentação', date: '2024-06-10',
+  recurrenceFrequency: 'none', createdAt: 1717000000000, updatedAt: 1717000000000,
+});
+
+describe('createLocalJsonAdapter', () => {
+  let tmpDir: string;
+  let filePath: string;
+  let adapter: StorageAdapter;
+  let userId: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'solar-fin-json-'));
+    filePath = path.join(tmpDir, 'db.json');
+    adapter = createLocalJsonAdapter({ filePath });
+    const user = newUser();
+    userId = user.profile.id;
+    await adapter.createUser(user, []);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await adapter.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('não deve perder escritas concorrentes', async () => {
+    await Promise.all(Array.from({ length: 40 }, (_, i) => adapter.insert('transactions', transaction(userId, i + 1))));
+
+    expect(await adapter.list('transactions', userId)).toHaveLength(40);
+    const onDisk = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    expect(onDisk.users[userId].transactions).toHaveLength(40);
+  });
+
+  it('não deve deixar arquivos temporários para trás', async () => {
+    await adapter.insert('transactions', transaction(userId, 10));
+
+    expect((await fs.readdir(tmpDir)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('deve enxergar alterações feitas no arquivo por outro processo', async () => {
+    const other = createLocalJsonAdapter({ filePath });
+    await other.insert('transactions', transaction(userId, 99));
+
+    expect((await adapter.list('transactions', userId)).map(tx => tx.amount)).toEqual([99]);
+  });
+
+  it('deve recuperar o último snapshot válido quando o db.json estiver corrompido', async () => {
+    const tx = transaction(userId, 25);
+    await adapter.insert('transactions', tx);
+    await adapter.insert('transactions', transaction(userId, 30));
+    await fs.writeFile(filePath, '{"users": {', 'utf-8');
+
+    const recovered = await adapter.list('transactions', userId);
+
+    expect(recovered.map(t => t.id)).toContain(tx.id);
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).users[userId]).toBeDefined();
+    expect((await fs.readdir(tmpDir)).some(name => name.startsWith('db.json.corrupt-'))).toBe(true);
+  });
+
+  it('não deve gravar nada quando a operação falha', async () => {
+    const before = await fs.readFile(filePath, 'utf-8');
+
+    await expect(adapter.insert('transactions', transaction(randomUUID(), 5))).rejects.toMatchObject({ code: 'not_found' });
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(before);
+  });
+});
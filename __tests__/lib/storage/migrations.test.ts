@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getSqliteMigrationStatus, loadMigrations, migrateSqlite } from '@/lib/storage/migrations';
+
+describe('migrations', () => {
+  let root: string;
+  let db: Database.Database;
+
+  const writeMigration = (file: string, sql: string) => fs.writeFileSync(path.join(root, 'sqlite', file), sql);
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'solar-fin-migrations-'));
+    fs.mkdirSync(path.join(root, 'sqlite'));
+    writeMigration('0001_create_items.sql', 'CREATE TABLE items (id TEXT PRIMARY KEY);');
+    writeMigration('0002_add_name.sql', 'ALTER TABLE items ADD COLUMN name TEXT;');
+    db = new Database(':memory:');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    db.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('deve carregar os arquivos em ordem de versão ignorando nomes fora do padrão', () => {
+    writeMigration('0010_later.sql', 'SELECT 1;');
+    writeMigration('notes.sql', 'SELECT 1;');
+
+    expect(loadMigrations('sqlite', root).map(m => m.version)).toEqual([1, 2, 10]);
+  });
+
+  it('deve aplicar as migrações pendentes uma única vez', () => {
+    expect(migrateSqlite(db, { migrations: loadMigrations('sqlite', root) }).map(m => m.name)).toEqual(['create_items', 'add_name']);
+    expect(migrateSqlite(db, { migrations: loadMigrations('sqlite', root) })).toEqual([]);
+
+    db.prepare('INSERT INTO items (id, name) VALUES (?, ?)').run('1', 'ok');
+    expect(getSqliteMigrationStatus(db, loadMigrations('sqlite', root)).map(s => s.state)).toEqual(['applied', 'applied']);
+  });
+
+  it('deve apenas listar as pendências em dry-run', () => {
+    expect(migrateSqlite(db, { migrations: loadMigrations('sqlite', root), dryRun: true })).toHaveLength(2);
+    expect(getSqliteMigrationStatus(db, loadMigrations('sqlite', root)).map(s => s.state)).toEqual(['pending', 'pending']);
+  });
+
+  it('deve reportar migrações alteradas e ausentes e recusar aplicar novas', () => {
+    migrateSqlite(db, { migrations: loadMigrations('sqlite', root) });
+    writeMigration('0001_create_items.sql', 'CREATE TABLE items (id INTEGER PRIMARY KEY);');
+    fs.rmSync(path.join(root, 'sqlite', '0002_add_name.sql'));
+    writeMigration('0003_index.sql', 'CREATE INDEX idx_items_name ON items(name);');
+
+    expect(getSqliteMigrationStatus(db, loadMigrations('sqlite', root)).map(s => [s.version, s.state])).toEqual([[1, 'changed'], [2, 'missing'], [3, 'pending']]);
+    expect(() => migrateSqlite(db, { migrations: loadMigrations('sqlite', root) })).toThrow(/0001_create_items/);
+  });
+
+  it('deve desfazer uma migração que falha sem registrá-la', () => {
+    writeMigration('0003_broken.sql', 'CREATE TABLE tags (id TEXT); INSERT INTO missing_table VALUES (1);');
+
+    expect(() => migrateSqlite(db, { migrations: loadMigrations('sqlite', root) })).toThrow();
+
+    const states = getSqliteMigrationStatus(db, loadMigrations('sqlite', root)).map(s => s.state);
+    expect(states).toEqual(['applied', 'applied', 'pending']);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'tags'").get()).toBeUndefined();
+  });
+
+  it('deve manter os schemas do repositório com versões únicas', () => {
+    expect(() => loadMigrations('postgres')).not.toThrow();
+    expect(loadMigrations('sqlite').length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createFileSystemStore } from '@/lib/attachmentStore';
+import { createLocalJsonAdapter } from '@/lib/storage/localJsonAdapter';
+import { createSqliteAdapter } from '@/lib/storage/sqliteAdapter';
+import { transferInstance } from '@/lib/storage/transfer';
+import type { StorageAdapter, StoredUser } from '@/lib/storage';
+
+const newUser = (email: string): StoredUser => ({
+  profile: { id: randomUUID(), email, displayName: email, createdAt: 1717000000000, notifyByEmail: true },
+  hashedPassword: `hash-of-${email}`,
+});
+
+describe('transferInstance', () => {
+  let tmpDir: string;
+  let local: StorageAdapter;
+  let sqlite: StorageAdapter;
+  let alice: StoredUser;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'solar-fin-transfer-'));
+    local = createLocalJsonAdapter({ filePath: path.join(tmpDir, 'db.json') });
+    sqlite = createSqliteAdapter({ filePath: path.join(tmpDir, 'solar-fin.sqlite') });
+
+    alice = newUser('alice@example.com');
+    const bob = newUser('bob@example.com');
+    const now = 1717000000000;
+    await local.createUser(alice, [{ id: randomUUID(), userId: alice.profile.id, name: 'Lazer', isSystemDefined: true, createdAt: now, updatedAt: now }]);
+    await local.createUser(bob, []);
+    const cardId = randomUUID();
+    await local.insert('creditCards', { id: cardId, userId: alice.profile.id, name: 'Azul', limit: 3000, dueDateDay: 10, closingDateDay: 3, createdAt: now, updatedAt: now });
+    await local.insert('creditCardPurchases', { id: randomUUID(), userId: alice.profile.id, cardId, date: '2024-06-02', description: 'Livro', category: 'Lazer', totalAmount: 90, installments: 3, createdAt: now, updatedAt: now });
+    await local.insert('transactions', { id: randomUUID(), userId: bob.profile.id, type: 'income', amount: 5000, category: 'Salário', date: '2024-06-05', recurrenceFrequency: 'monthly', createdAt: now, updatedAt: now });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await local.close();
+    await sqlite.close();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('deve copiar usuários com hash de senha e todas as entidades, verificando as contagens', async () => {
+    const report = await transferInstance(local, sqlite);
+
+    expect(report.mismatches).toEqual([]);
+    expect(report.target).toMatchObject({ users: 2, categories: 1, creditCards: 1, creditCardPurchases: 1, transactions: 1 });
+    expect(await sqlite.findUserByEmail('alice@example.com')).toEqual(await local.findUserByEmail('alice@example.com'));
+    expect(await sqlite.list('creditCardPurchases', alice.profile.id)).toEqual(await local.list('creditCardPurchases', alice.profile.id));
+  });
+
+  it('deve permitir o caminho de volta para um db.json vazio', async () => {
+    await transferInstance(local, sqlite);
+    const restored = createLocalJsonAdapter({ filePath: path.join(tmpDir, 'restored.json') });
+
+    const report = await transferInstance(sqlite, restored);
+
+    expect(report.mismatches).toEqual([]);
+    expect((await restored.findUserById(alice.profile.id))?.hashedPassword).toBe('hash-of-alice@example.com');
+    await restored.close();
+  });
+
+  it('não deve gravar nada em dry-run', async () => {
+    const report = await transferInstance(local, sqlite, { dryRun: true });
+
+    expect(report.source.users).toBe(2);
+    expect(await sqlite.listUsers()).toEqual([]);
+  });
+
+  it('deve dar um UUID novo ao usuário migrado do db.json antigo e levar junto registros e anexos', async () => {
+    const migrated: StoredUser = { profile: { ...newUser('migrated@example.local').profile, id: 'default-user-migrated-id' }, hashedPassword: 'hash-antigo' };
+    await local.createUser(migrated, []);
+    const tx = { id: randomUUID(), userId: migrated.profile.id, type: 'expense' as const, amount: 30, category: 'Lazer', date: '2024-06-07', createdAt: 1717000000000, updatedAt: 1717000000000 };
+    await local.insert('transactions', tx);
+    await local.insert('auditEvents', { id: randomUUID(), userId: migrated.profile.id, entity: 'transactions', recordId: tx.id, action: 'create', changes: [], actorId: migrated.profile.id, createdAt: 1717000000000 });
+    const attachmentId = randomUUID();
+    await local.insert('attachments', { id: attachmentId, userId: migrated.profile.id, ownerEntity: 'transactions', ownerId: tx.id, fileName: 'nota.pdf', contentType: 'application/pdf', size: 4, hasThumbnail: false, createdAt: 1717000000000, updatedAt: 1717000000000 });
+    const attachments = createFileSystemStore({ rootDir: path.join(tmpDir, 'attachments') });
+    await attachments.put(`default-user-migrated-id/${attachmentId}`, Buffer.from('nota'), 'application/pdf');
+
+    const dryRun = await transferInstance(local, sqlite, { dryRun: true });
+    expect(dryRun.reassignedUsers).toEqual([expect.objectContaining({ email: 'migrated@example.local', from: 'default-user-migrated-id' })]);
+
+    const report = await transferInstance(local, sqlite, { attachments });
+
+    expect(report.mismatches).toEqual([]);
+    const [{ to: newId }] = report.reassignedUsers;
+    expect(newId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(await sqlite.findUserById('default-user-migrated-id')).toBeNull();
+    expect((await sqlite.findUserById(newId))?.hashedPassword).toBe('hash-antigo');
+    expect((await sqlite.list('transactions', newId)).map(t => t.id)).toEqual([tx.id]);
+    expect(await sqlite.list('auditEvents', newId)).toEqual([expect.objectContaining({ userId: newId, actorId: newId })]);
+    expect((await attachments.get(`${newId}/${attachmentId}`))?.toString()).toBe('nota');
+  });
+
+  it('não deve deixar um usuário copiado pela metade quando a gravação dos dados falha', async () => {
+    await local.insert('creditCardPurchases', { id: randomUUID(), userId: alice.profile.id, cardId: randomUUID(), date: '2024-06-03', description: 'Órfã', category: 'Lazer', totalAmount: 10, installments: 1, createdAt: 1717000000000, updatedAt: 1717000000000 });
+
+    await expect(transferInstance(local, sqlite)).rejects.toThrow(/alice@example.com/);
+    expect(await sqlite.findUserById(alice.profile.id)).toBeNull();
+  });
+
+  it('deve recusar o destino que já contém algum dos usuários', async () => {
+    await sqlite.createUser(newUser('ALICE@example.com'), []);
+
+    await expect(transferInstance(local, sqlite)).rejects.toThrow(/alice@example.com/);
+    expect(await sqlite.listUsers()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { spendingByTag, tagsOf } from '@/lib/tags';
+import type { Tag } from '@/types';
+import { purchase, toBase, transaction } from '../helpers/fixtures';
+
+const tag = (id: string, name: string): Tag => ({ id, userId: 'u1', name, createdAt: 0 });
+const trip = tag('t1', 'Viagem');
+const refundable = tag('t2', 'Reembolsável');
+const unused = tag('t3', 'Sem uso');
+
+describe('tags', () => {
+  it('deve somar despesas e compras no cartão por tag', () => {
+    const transactions = [
+      transaction('x1', { amount: 100.1, tagIds: ['t1', 't2'] }),
+      transaction('x2', { amount: 500, type: 'income', tagIds: ['t1'] }),
+      transaction('x3', { amount: 20, tagIds: ['removida'] }),
+    ];
+    const purchases = [purchase('p1', { totalAmount: 300, installments: 3, tagIds: ['t1'] })];
+
+    expect(spendingByTag([trip, refundable, unused], transactions, purchases, toBase)).toEqual([
+      { tag: trip, cash: 100.1, card: 300, total: 400.1, count: 2 },
+      { tag: refundable, cash: 100.1, card: 0, total: 100.1, count: 1 },
+    ]);
+  });
+
+  it('deve considerar apenas os lançamentos do período', () => {
+    const transactions = [
+      transaction('x1', { amount: 50, date: '2026-02-28', tagIds: ['t1'] }),
+      transaction('x2', { amount: 30, date: '2026-03-01', tagIds: ['t1'] }),
+    ];
+    const purchases = [purchase('p1', { totalAmount: 80, date: '2026-04-01', tagIds: ['t1'] })];
+
+    expect(spendingByTag([trip], transactions, purchases, toBase, { from: '2026-03-01', to: '2026-03-31' })).toEqual([
+      { tag: trip, cash: 30, card: 0, total: 30, count: 1 },
+    ]);
+  });
+
+  it('deve ignorar tags excluídas ao exibir as tags de um registro', () => {
+    expect(tagsOf({ tagIds: ['t2', 'removida'] }, [trip, refundable])).toEqual([refundable]);
+    expect(tagsOf({ tagIds: null }, [trip])).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+// Applies or reports SQL schema migrations for the configured DATABASE_MODE.
+//   npm run db:migrate              apply pending migrations
+//   npm run db:migrate -- --dry-run list what would be applied
+//   npm run db:migrate:status       show applied / pending / changed / missing migrations
+import { config } from 'dotenv';
+config();
+
+import Database from 'better-sqlite3';
+import { Pool } from 'pg';
+import { format } from 'date-fns';
+import { DEFAULT_SQLITE_PATH, getDatabaseMode } from '@/lib/storage';
+import {
+  getPostgresMigrationStatus,
+  getSqliteMigrationStatus,
+  migratePostgres,
+  migrateSqlite,
+  migrationLabel,
+  type Migration,
+  type MigrationStatus,
+} from '@/lib/storage/migrations';
+
+const args = process.argv.slice(2);
+const command = args.includes('status') ? 'status' : 'migrate';
+const dryRun = args.includes('--dry-run');
+
+function printStatus(statuses: MigrationStatus[]) {
+  if (!statuses.length) {
+    console.log('No migrations found.');
+    return;
+  }
+  for (const s of statuses) {
+    const appliedAt = s.appliedAt ? format(new Date(s.appliedAt), 'yyyy-MM-dd HH:mm:ss') : '';
+    console.log(`${migrationLabel(s).padEnd(40)} ${s.state.padEnd(8)} ${appliedAt}`);
+  }
+}
+
+function printApplied(migrations: Migration[]) {
+  if (!migrations.length) {
+    console.log('Database schema is up to date.');
+  } else if (dryRun) {
+    migrations.forEach(m => console.log(`Would apply ${migrationLabel(m)}`));
+  } else {
+    console.log(`${migrations.length} migration(s) applied.`);
+  }
+}
+
+async function main(): Promise<number> {
+  const mode = getDatabaseMode();
+
+  if (mode === 'postgres') {
+    if (!process.env.DATABASE_URL) {
+      console.error("DATABASE_MODE is 'postgres' but DATABASE_URL is not set.");
+      return 1;
+    }
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    try {
+      if (command === 'status') {
+        const statuses = await getPostgresMigrationStatus(pool);
+        printStatus(statuses);
+        return statuses.some(s => s.state === 'changed') ? 1 : 0;
+      }
+      printApplied(await migratePostgres(pool, { dryRun }));
+      return 0;
+    } finally {
+      await pool.end();
+    }
+  }
+
+  if (mode === 'sqlite') {
+    const db = new Database(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    try {
+      if (command === 'status') {
+        const statuses = getSqliteMigrationStatus(db);
+        printStatus(statuses);
+        return statuses.some(s => s.state === 'changed') ? 1 : 0;
+      }
+      printApplied(migrateSqlite(db, { dryRun }));
+      return 0;
+    } finally {
+      db.close();
+    }
+  }
+
+  console.log(`DATABASE_MODE '${mode}' does not use SQL migrations; db.json is upgraded automatically when read.`);
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Migration failed:', error.message);
+    process.exit(1);
+  });
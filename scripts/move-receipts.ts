@@ -0,0 +1,32 @@
+// Moves receipts saved inline in transactions (data URIs in receiptImageUri) to the attachment store.
+//   npm run attachments:move-receipts
+// Uses the app's DATABASE_MODE and ATTACHMENT_STORAGE settings. Safe to run again: moved receipts are skipped.
+import { config } from 'dotenv';
+config();
+
+import { getStorageAdapter, migrateDatabase } from '@/lib/storage';
+import { moveInlineReceipts } from '@/lib/databaseService';
+
+async function main(): Promise<number> {
+  await migrateDatabase();
+  const storage = getStorageAdapter();
+  try {
+    let total = 0;
+    for (const user of await storage.listUsers()) {
+      const moved = await moveInlineReceipts(user.profile.id);
+      if (moved) console.log(`${user.profile.email}: ${moved} receipt(s) moved.`);
+      total += moved;
+    }
+    console.log(`Done; ${total} receipt(s) moved to attachments.`);
+    return 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Moving receipts failed:', error.message);
+    process.exit(1);
+  });
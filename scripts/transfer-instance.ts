@@ -0,0 +1,72 @@
+// Copies every user (with password hashes) and all their data between storage backends.
+//   npm run db:transfer -- --from local --to postgres [--dry-run]
+// Modes are the DATABASE_MODE values: local (db.json), sqlite (SQLITE_PATH) and postgres (DATABASE_URL).
+import { config } from 'dotenv';
+config();
+
+import { createAttachmentStore, getAttachmentStorageMode } from '@/lib/attachmentStore';
+import { createStorageAdapter, migrateDatabase, type StorageAdapter } from '@/lib/storage';
+import { transferInstance, type TransferReport } from '@/lib/storage/transfer';
+
+const MODES = ['local', 'sqlite', 'postgres'];
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function printReport(report: TransferReport) {
+  console.log(`${'collection'.padEnd(22)}${'source'.padStart(8)}${(report.dryRun ? 'to copy' : 'target').padStart(9)}`);
+  for (const key of Object.keys(report.source) as Array<keyof TransferReport['source']>) {
+    const flag = report.mismatches.includes(key) ? '  MISMATCH' : '';
+    console.log(`${key.padEnd(22)}${String(report.source[key]).padStart(8)}${String(report.target[key]).padStart(9)}${flag}`);
+  }
+  for (const user of report.reassignedUsers) {
+    console.log(`${user.email}: id ${user.from} is not a UUID; ${report.dryRun ? 'would get' : 'got'} the new id ${user.to}.`);
+  }
+}
+
+async function main(): Promise<number> {
+  const from = argValue('--from');
+  const to = argValue('--to');
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (!from || !to || !MODES.includes(from) || !MODES.includes(to) || from === to) {
+    console.error(`Usage: npm run db:transfer -- --from <${MODES.join('|')}> --to <${MODES.join('|')}> [--dry-run]`);
+    return 1;
+  }
+
+  // The target schema must exist before we can look for conflicting users.
+  if (to === 'postgres' && !dryRun) {
+    process.env.DATABASE_MODE = 'postgres';
+    await migrateDatabase();
+  }
+
+  const adapters: StorageAdapter[] = [];
+  try {
+    const source = createStorageAdapter(from);
+    adapters.push(source);
+    const target = createStorageAdapter(to);
+    adapters.push(target);
+
+    console.log(`${dryRun ? 'Dry run: ' : ''}transferring instance from ${from} to ${to}...`);
+    const report = await transferInstance(source, target, { dryRun, attachments: createAttachmentStore(getAttachmentStorageMode()) });
+    printReport(report);
+
+    if (report.mismatches.length) {
+      console.error(`Verification failed for: ${report.mismatches.join(', ')}.`);
+      return 1;
+    }
+    console.log(dryRun ? 'Dry run complete; nothing was written.' : 'Transfer complete and verified.');
+    return 0;
+  } finally {
+    for (const adapter of adapters) await adapter.close();
+  }
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Transfer failed:', error.message);
+    process.exit(1);
+  });
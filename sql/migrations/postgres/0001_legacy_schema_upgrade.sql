@@ -1,3 +1,6 @@
+-- Cria as tabelas ausentes e adiciona colunas, triggers e constraints que faltam em bancos
+-- criados por versões antigas (antigo sql/update_schema.sql). Idempotente.
+
 DO $$
 BEGIN
     -- Função para atualizar o timestamp da coluna updated_at
@@ -393,6 +396,3 @@ BEGIN
     END IF;
 END
 $$;
-
-RAISE NOTICE 'Schema update/check script completed.';
-```
\ No newline at end of file
@@ -1,3 +1,6 @@
+-- Schema completo atual (antigo sql/init.sql). Idempotente: em bancos já existentes apenas
+-- garante índices e triggers.
+
 
 -- Função para atualizar o timestamp da coluna updated_at
 CREATE OR REPLACE FUNCTION trigger_set_timestamp()
@@ -0,0 +1,15 @@
+-- Histórico de alterações: um evento por criação, alteração, exclusão, restauração ou remoção
+-- definitiva de um registro, com as diferenças campo a campo. Somente inserções; nunca é alterado.
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    entity VARCHAR(50) NOT NULL,
+    record_id UUID NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+    changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    actor_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_record ON audit_events(user_id, entity, record_id, created_at);
@@ -0,0 +1,22 @@
+-- Consulta paginada de transações (GET /api/transactions): índices que acompanham a
+-- ordenação por data, valor e criação (com created_at e id como desempate do cursor),
+-- somente sobre transações fora da Lixeira.
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_page ON transactions(user_id, date, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_page ON transactions(user_id, amount, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_page ON transactions(user_id, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category ON transactions(user_id, category) WHERE deleted_at IS NULL;
+
+-- Busca textual (ILIKE '%termo%') na descrição e na categoria via trigramas.
+-- pg_trgm é uma extensão confiável desde o PostgreSQL 13; sem permissão para criá-la,
+-- a busca continua funcionando, apenas sem índice.
+DO $$
+BEGIN
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    CREATE INDEX IF NOT EXISTS idx_transactions_description_trgm ON transactions USING GIN (description gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS idx_transactions_category_trgm ON transactions USING GIN (category gin_trgm_ops);
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE NOTICE 'Extensão pg_trgm indisponível; busca de transações sem índice de trigramas.';
+END
+$$;
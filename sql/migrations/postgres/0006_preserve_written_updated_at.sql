@@ -0,0 +1,13 @@
+-- O aplicativo grava updated_at em cada inclusão e atualização e usa esse valor como versão do
+-- registro (ETag/If-Match). O trigger deixa de sobrescrevê-lo com NOW() e só o preenche quando
+-- vier nulo; mover para a lixeira e restaurar mantêm a versão, como nos modos JSON e SQLite.
+
+CREATE OR REPLACE FUNCTION trigger_set_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.updated_at IS NULL THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
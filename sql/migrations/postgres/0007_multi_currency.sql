@@ -0,0 +1,29 @@
+-- Várias moedas: cada lançamento guarda a moeda em que foi registrado (BRL para os já
+-- existentes), o usuário escolhe a moeda base dos totais e mantém uma tabela de cotações
+-- com histórico, usada para converter os totais.
+
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3) NOT NULL DEFAULT 'BRL';
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'BRL';
+ALTER TABLE credit_card_purchases ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'BRL';
+ALTER TABLE financial_goals ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'BRL';
+ALTER TABLE investments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'BRL';
+
+-- 1 currency = rate quote_currency na data rate_date.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    quote_currency VARCHAR(3) NOT NULL,
+    rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ,
+    UNIQUE (user_id, currency, quote_currency, rate_date)
+);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user_id ON exchange_rates(user_id);
+DROP TRIGGER IF EXISTS set_timestamp_exchange_rates ON exchange_rates;
+CREATE TRIGGER set_timestamp_exchange_rates
+BEFORE UPDATE ON exchange_rates
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
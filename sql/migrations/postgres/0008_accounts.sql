@@ -0,0 +1,26 @@
+-- Contas: contas correntes, poupanças, dinheiro e carteiras, com saldo inicial. Cada
+-- transação pode ser lançada em uma conta; o saldo da conta é o saldo inicial mais as
+-- receitas e menos as despesas lançadas nela.
+
+CREATE TABLE IF NOT EXISTS accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('checking', 'savings', 'cash', 'wallet')),
+    institution VARCHAR(100),
+    opening_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    currency VARCHAR(3) NOT NULL DEFAULT 'BRL',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_accounts_deleted_at ON accounts(deleted_at) WHERE deleted_at IS NOT NULL;
+DROP TRIGGER IF EXISTS set_timestamp_accounts ON accounts;
+CREATE TRIGGER set_timestamp_accounts
+BEFORE UPDATE ON accounts
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
@@ -0,0 +1,10 @@
+-- Transferências: um lançamento do tipo 'transfer' move dinheiro de uma conta (ou de
+-- fora delas) para outra conta, um investimento ou uma meta, sem contar como receita
+-- nem despesa. transfer_to diz o tipo do destino e transfer_to_id qual registro é.
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_to VARCHAR(20) CHECK (transfer_to IN ('account', 'investment', 'goal'));
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS transfer_to_id UUID;
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_to_id ON transactions(transfer_to_id) WHERE transfer_to_id IS NOT NULL;
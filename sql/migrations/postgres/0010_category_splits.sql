@@ -0,0 +1,6 @@
+-- Divisão por categorias: uma transação ou compra no cartão pode ser dividida em linhas
+-- de categoria (JSON: [{ "category": "...", "amount": 12.5 }, ...]) que somam o total.
+-- A coluna category continua com a categoria da primeira linha.
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS splits JSONB;
+ALTER TABLE credit_card_purchases ADD COLUMN IF NOT EXISTS splits JSONB;
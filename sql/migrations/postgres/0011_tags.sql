@@ -0,0 +1,22 @@
+-- Tags: marcadores livres do usuário (ex.: "viagem Chile 2026") que cruzam categorias.
+-- Transações e compras no cartão guardam os ids das suas tags em tag_ids (JSON: ["id", ...]).
+
+CREATE TABLE IF NOT EXISTS tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_tags_deleted_at ON tags(deleted_at) WHERE deleted_at IS NOT NULL;
+DROP TRIGGER IF EXISTS set_timestamp_tags ON tags;
+CREATE TRIGGER set_timestamp_tags
+BEFORE UPDATE ON tags
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tag_ids JSONB;
+ALTER TABLE credit_card_purchases ADD COLUMN IF NOT EXISTS tag_ids JSONB;
+CREATE INDEX IF NOT EXISTS idx_transactions_tag_ids ON transactions USING GIN (tag_ids);
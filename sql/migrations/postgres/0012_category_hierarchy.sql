@@ -0,0 +1,8 @@
+-- Categorias: subcategorias (parent_id aponta para a categoria pai, com um só nível),
+-- ícone e cor exibidos na interface. Sem chave estrangeira em parent_id para que a
+-- restauração de backups possa inserir as categorias em qualquer ordem.
+
+ALTER TABLE user_categories ADD COLUMN IF NOT EXISTS parent_id UUID;
+ALTER TABLE user_categories ADD COLUMN IF NOT EXISTS icon VARCHAR(50);
+ALTER TABLE user_categories ADD COLUMN IF NOT EXISTS color VARCHAR(7);
+CREATE INDEX IF NOT EXISTS idx_user_categories_parent_id ON user_categories(parent_id) WHERE parent_id IS NOT NULL;
@@ -0,0 +1,26 @@
+-- Favorecidos: estabelecimentos e pessoas pagas, com apelidos (grafias dos extratos, ex.:
+-- "IFD*IFOOD.COM") em aliases (JSON: ["...", ...]) e uma categoria padrão (nome).
+-- Transações e compras no cartão guardam o favorecido em payee_id.
+
+CREATE TABLE IF NOT EXISTS payees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    aliases JSONB,
+    default_category VARCHAR(100),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_payees_user_id ON payees(user_id);
+CREATE INDEX IF NOT EXISTS idx_payees_deleted_at ON payees(deleted_at) WHERE deleted_at IS NOT NULL;
+DROP TRIGGER IF EXISTS set_timestamp_payees ON payees;
+CREATE TRIGGER set_timestamp_payees
+BEFORE UPDATE ON payees
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS payee_id UUID;
+ALTER TABLE credit_card_purchases ADD COLUMN IF NOT EXISTS payee_id UUID;
+CREATE INDEX IF NOT EXISTS idx_transactions_payee_id ON transactions(payee_id) WHERE payee_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_card_purchases_payee_id ON credit_card_purchases(payee_id) WHERE payee_id IS NOT NULL;
@@ -0,0 +1,25 @@
+-- Anexos (comprovantes e documentos) de transações, compras no cartão, empréstimos e
+-- investimentos. Aqui ficam só os metadados; o arquivo e a miniatura ficam no armazenamento
+-- de anexos (pasta local ou bucket S3), com chave derivada de user_id e id.
+-- owner_entity é o nome da coleção do registro dono (transactions, loans, ...).
+
+CREATE TABLE IF NOT EXISTS attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    owner_entity VARCHAR(50) NOT NULL,
+    owner_id UUID NOT NULL,
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size INTEGER NOT NULL,
+    has_thumbnail BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_attachments_user_id ON attachments(user_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_owner ON attachments(owner_entity, owner_id);
+DROP TRIGGER IF EXISTS set_timestamp_attachments ON attachments;
+CREATE TRIGGER set_timestamp_attachments
+BEFORE UPDATE ON attachments
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
@@ -0,0 +1,14 @@
+-- Regras de recorrência: novas frequências (diária e quinzenal), a cada N períodos
+-- (recurrence_interval), fim numa data ou após N ocorrências, último dia útil do mês
+-- (recurrence_day_rule = 'lastBusinessDay') e ocorrências de fim de semana antecipadas
+-- ('before') ou adiadas ('after'). Nulas, valem os padrões: todo período, mesmo dia,
+-- sem deslocamento e sem fim.
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_recurrence_frequency_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_recurrence_frequency_check CHECK (recurrence_frequency IN ('none', 'daily', 'weekly', 'biweekly', 'monthly', 'annually'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_interval INTEGER;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_end_date DATE;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_count INTEGER;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_day_rule VARCHAR(20) CHECK (recurrence_day_rule IN ('sameDay', 'lastBusinessDay'));
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS recurrence_weekend_shift VARCHAR(10) CHECK (recurrence_weekend_shift IN ('none', 'before', 'after'));
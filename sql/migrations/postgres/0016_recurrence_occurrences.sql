@@ -0,0 +1,25 @@
+-- Ocorrências de transações recorrentes: a transação recorrente é só o modelo, e cada
+-- ocorrência confirmada como paga, pulada, remarcada ou com valor ajustado ganha uma linha aqui.
+-- scheduled_date é a data que a regra dá à ocorrência e a identifica; occurrence_date é a
+-- data em que foi paga ou para a qual foi remarcada, e amount o valor real ou ajustado,
+-- na moeda da transação. Sem linha, a ocorrência está pendente, na data e no valor do modelo.
+
+CREATE TABLE IF NOT EXISTS recurrence_occurrences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    scheduled_date DATE NOT NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('pending', 'paid', 'skipped')),
+    occurrence_date DATE,
+    amount NUMERIC(12, 2),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_recurrence_occurrences_user_id ON recurrence_occurrences(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurrence_occurrences_schedule ON recurrence_occurrences(transaction_id, scheduled_date);
+DROP TRIGGER IF EXISTS set_timestamp_recurrence_occurrences ON recurrence_occurrences;
+CREATE TRIGGER set_timestamp_recurrence_occurrences
+BEFORE UPDATE ON recurrence_occurrences
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
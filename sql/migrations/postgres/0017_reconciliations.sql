@@ -0,0 +1,29 @@
+-- Conciliação com o extrato: cleared_status marca a transação como compensada ('cleared')
+-- quando aparece no extrato do banco, e como conciliada ('reconciled') quando uma
+-- conciliação concluída a trava contra edições. Nulo, ainda não compensou.
+-- Cada conciliação confere uma conta com o saldo final (statement_balance) de um extrato
+-- fechado em statement_date; concluída, guarda as transações conciliadas em transaction_ids
+-- (JSON: ["...", ...]).
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS cleared_status VARCHAR(10) CHECK (cleared_status IN ('cleared', 'reconciled'));
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    statement_date DATE NOT NULL,
+    statement_balance NUMERIC(12, 2) NOT NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('open', 'completed')),
+    transaction_ids JSONB,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_reconciliations_user_id ON reconciliations(user_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliations_account_id ON reconciliations(account_id);
+DROP TRIGGER IF EXISTS set_timestamp_reconciliations ON reconciliations;
+CREATE TRIGGER set_timestamp_reconciliations
+BEFORE UPDATE ON reconciliations
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
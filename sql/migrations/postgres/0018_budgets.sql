@@ -0,0 +1,22 @@
+-- Orçamentos mensais por categoria: amount é o limite de cada mês, na moeda base do usuário,
+-- a partir de start_month ('yyyy-MM'). Com rollover, o que sobrou (ou faltou) de um mês passa
+-- para o seguinte. Um orçamento por categoria; some junto com ela.
+
+CREATE TABLE IF NOT EXISTS budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES user_categories(id) ON DELETE CASCADE,
+    amount NUMERIC(12, 2) NOT NULL,
+    rollover BOOLEAN NOT NULL DEFAULT FALSE,
+    start_month VARCHAR(7) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+CREATE INDEX IF NOT EXISTS idx_budgets_category_id ON budgets(category_id);
+DROP TRIGGER IF EXISTS set_timestamp_budgets ON budgets;
+CREATE TRIGGER set_timestamp_budgets
+BEFORE UPDATE ON budgets
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
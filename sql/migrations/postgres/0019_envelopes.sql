@@ -0,0 +1,24 @@
+-- Orçamento por envelopes (base zero): envelope_start_month ('yyyy-MM') é o mês a partir do qual
+-- as receitas entram no saldo "a atribuir"; NULL enquanto o modo está desligado. Cada linha de
+-- envelope_assignments é o total colocado no envelope de uma categoria em um mês, na moeda base;
+-- mover dinheiro entre envelopes ajusta as duas linhas. Some junto com a categoria.
+
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS envelope_start_month VARCHAR(7);
+
+CREATE TABLE IF NOT EXISTS envelope_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    category_id UUID NOT NULL REFERENCES user_categories(id) ON DELETE CASCADE,
+    month VARCHAR(7) NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    deleted_at TIMESTAMPTZ,
+    UNIQUE (category_id, month)
+);
+CREATE INDEX IF NOT EXISTS idx_envelope_assignments_user_id ON envelope_assignments(user_id);
+DROP TRIGGER IF EXISTS set_timestamp_envelope_assignments ON envelope_assignments;
+CREATE TRIGGER set_timestamp_envelope_assignments
+BEFORE UPDATE ON envelope_assignments
+FOR EACH ROW
+EXECUTE PROCEDURE trigger_set_timestamp();
@@ -0,0 +1,125 @@
+-- Schema para DATABASE_MODE=sqlite. Espelha sql/migrations/postgres com os tipos do SQLite:
+-- UUIDs e datas (YYYY-MM-DD) como TEXT, timestamps como INTEGER (epoch em milissegundos),
+-- booleanos como INTEGER (0/1) e valores monetários como NUMERIC.
+
+-- Tabela de Usuários
+CREATE TABLE IF NOT EXISTS app_users (
+    id TEXT PRIMARY KEY,
+    email TEXT UNIQUE NOT NULL,
+    hashed_password TEXT NOT NULL,
+    display_name TEXT,
+    notify_by_email INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    last_login_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_app_users_email ON app_users(email);
+
+-- Tabela de Categorias do Usuário
+CREATE TABLE IF NOT EXISTS user_categories (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    is_system_defined INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    UNIQUE (user_id, name)
+);
+CREATE INDEX IF NOT EXISTS idx_user_categories_user_id ON user_categories(user_id);
+
+-- Tabela de Transações
+CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('income', 'expense')),
+    amount NUMERIC NOT NULL,
+    category TEXT NOT NULL,
+    date TEXT NOT NULL,
+    description TEXT,
+    recurrence_frequency TEXT DEFAULT 'none' CHECK (recurrence_frequency IN ('none', 'monthly', 'weekly', 'annually')),
+    receipt_image_uri TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+CREATE INDEX IF NOT EXISTS idx_transactions_recurrence ON transactions(recurrence_frequency);
+
+-- Tabela de Empréstimos
+CREATE TABLE IF NOT EXISTS loans (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    bank_name TEXT NOT NULL,
+    description TEXT,
+    installment_amount NUMERIC NOT NULL,
+    installments_count INTEGER NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_loans_user_id ON loans(user_id);
+
+-- Tabela de Cartões de Crédito
+CREATE TABLE IF NOT EXISTS credit_cards (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    limit_amount NUMERIC NOT NULL,
+    due_date_day INTEGER NOT NULL CHECK (due_date_day >= 1 AND due_date_day <= 31),
+    closing_date_day INTEGER NOT NULL CHECK (closing_date_day >= 1 AND closing_date_day <= 31),
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_credit_cards_user_id ON credit_cards(user_id);
+
+-- Tabela de Compras no Cartão de Crédito
+CREATE TABLE IF NOT EXISTS credit_card_purchases (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    card_id TEXT NOT NULL REFERENCES credit_cards(id) ON DELETE CASCADE,
+    purchase_date TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category TEXT NOT NULL,
+    total_amount NUMERIC NOT NULL,
+    installments INTEGER NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_credit_card_purchases_user_id ON credit_card_purchases(user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_card_purchases_card_id ON credit_card_purchases(card_id);
+
+-- Tabela de Metas Financeiras
+CREATE TABLE IF NOT EXISTS financial_goals (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    target_amount NUMERIC NOT NULL,
+    current_amount NUMERIC DEFAULT 0,
+    target_date TEXT,
+    description TEXT,
+    icon TEXT,
+    status TEXT DEFAULT 'active' CHECK (status IN ('active', 'achieved', 'abandoned')),
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_financial_goals_user_id ON financial_goals(user_id);
+
+-- Tabela de Investimentos
+CREATE TABLE IF NOT EXISTS investments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('stock', 'savings', 'crypto', 'other')),
+    initial_amount NUMERIC,
+    current_value NUMERIC NOT NULL,
+    quantity NUMERIC,
+    symbol TEXT,
+    institution TEXT,
+    acquisition_date TEXT,
+    notes TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+CREATE INDEX IF NOT EXISTS idx_investments_user_id ON investments(user_id);
@@ -0,0 +1,18 @@
+-- Lixeira: registros excluídos ficam com deleted_at (epoch em milissegundos) preenchido até
+-- serem restaurados ou removidos definitivamente após o período de retenção (TRASH_RETENTION_DAYS).
+
+ALTER TABLE transactions ADD COLUMN deleted_at INTEGER;
+ALTER TABLE loans ADD COLUMN deleted_at INTEGER;
+ALTER TABLE credit_cards ADD COLUMN deleted_at INTEGER;
+ALTER TABLE credit_card_purchases ADD COLUMN deleted_at INTEGER;
+ALTER TABLE user_categories ADD COLUMN deleted_at INTEGER;
+ALTER TABLE financial_goals ADD COLUMN deleted_at INTEGER;
+ALTER TABLE investments ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_deleted_at ON transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_loans_deleted_at ON loans(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_cards_deleted_at ON credit_cards(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_card_purchases_deleted_at ON credit_card_purchases(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_user_categories_deleted_at ON user_categories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_financial_goals_deleted_at ON financial_goals(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_investments_deleted_at ON investments(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Histórico de alterações: um evento por criação, alteração, exclusão, restauração ou remoção
+-- definitiva de um registro, com as diferenças campo a campo (JSON em TEXT). Somente inserções.
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    entity TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'restore', 'purge')),
+    changes TEXT NOT NULL DEFAULT '[]',
+    actor_id TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_record ON audit_events(user_id, entity, record_id, created_at);
@@ -0,0 +1,8 @@
+-- Consulta paginada de transações (GET /api/transactions): índices que acompanham a
+-- ordenação por data, valor e criação (com created_at e id como desempate do cursor),
+-- somente sobre transações fora da Lixeira.
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_page ON transactions(user_id, date, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_page ON transactions(user_id, amount, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_page ON transactions(user_id, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category ON transactions(user_id, category) WHERE deleted_at IS NULL;
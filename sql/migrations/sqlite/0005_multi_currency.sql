@@ -0,0 +1,24 @@
+-- Várias moedas: cada lançamento guarda a moeda em que foi registrado (BRL para os já
+-- existentes), o usuário escolhe a moeda base dos totais e mantém uma tabela de cotações
+-- com histórico, usada para converter os totais.
+
+ALTER TABLE app_users ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'BRL';
+ALTER TABLE transactions ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+ALTER TABLE credit_card_purchases ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+ALTER TABLE financial_goals ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+ALTER TABLE investments ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+
+-- 1 currency = rate quote_currency na data rate_date.
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    rate NUMERIC NOT NULL CHECK (rate > 0),
+    rate_date TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER,
+    UNIQUE (user_id, currency, quote_currency, rate_date)
+);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user_id ON exchange_rates(user_id);
@@ -0,0 +1,21 @@
+-- Contas: contas correntes, poupanças, dinheiro e carteiras, com saldo inicial. Cada
+-- transação pode ser lançada em uma conta; o saldo da conta é o saldo inicial mais as
+-- receitas e menos as despesas lançadas nela.
+
+CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('checking', 'savings', 'cash', 'wallet')),
+    institution TEXT,
+    opening_balance NUMERIC NOT NULL DEFAULT 0,
+    currency TEXT NOT NULL DEFAULT 'BRL',
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_accounts_deleted_at ON accounts(deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE transactions ADD COLUMN account_id TEXT REFERENCES accounts(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
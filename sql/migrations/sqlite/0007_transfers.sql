@@ -0,0 +1,42 @@
+-- Transferências: um lançamento do tipo 'transfer' move dinheiro de uma conta (ou de
+-- fora delas) para outra conta, um investimento ou uma meta, sem contar como receita
+-- nem despesa. transfer_to diz o tipo do destino e transfer_to_id qual registro é.
+-- O SQLite não altera um CHECK existente, então a tabela de transações é recriada.
+
+CREATE TABLE transactions_new (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
+    amount NUMERIC NOT NULL,
+    category TEXT NOT NULL,
+    date TEXT NOT NULL,
+    description TEXT,
+    recurrence_frequency TEXT DEFAULT 'none' CHECK (recurrence_frequency IN ('none', 'monthly', 'weekly', 'annually')),
+    receipt_image_uri TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER,
+    currency TEXT NOT NULL DEFAULT 'BRL',
+    account_id TEXT REFERENCES accounts(id) ON DELETE CASCADE,
+    transfer_to TEXT CHECK (transfer_to IN ('account', 'investment', 'goal')),
+    transfer_to_id TEXT
+);
+
+INSERT INTO transactions_new (id, user_id, type, amount, category, date, description, recurrence_frequency, receipt_image_uri, created_at, updated_at, deleted_at, currency, account_id)
+SELECT id, user_id, type, amount, category, date, description, recurrence_frequency, receipt_image_uri, created_at, updated_at, deleted_at, currency, account_id
+FROM transactions;
+
+DROP TABLE transactions;
+ALTER TABLE transactions_new RENAME TO transactions;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+CREATE INDEX IF NOT EXISTS idx_transactions_recurrence ON transactions(recurrence_frequency);
+CREATE INDEX IF NOT EXISTS idx_transactions_deleted_at ON transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_page ON transactions(user_id, date, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_page ON transactions(user_id, amount, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_page ON transactions(user_id, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category ON transactions(user_id, category) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_to_id ON transactions(transfer_to_id) WHERE transfer_to_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Tags: marcadores livres do usuário (ex.: "viagem Chile 2026") que cruzam categorias.
+-- Transações e compras no cartão guardam os ids das suas tags em tag_ids (JSON: ["id", ...]).
+
+CREATE TABLE IF NOT EXISTS tags (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_tags_deleted_at ON tags(deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE transactions ADD COLUMN tag_ids TEXT;
+ALTER TABLE credit_card_purchases ADD COLUMN tag_ids TEXT;
@@ -0,0 +1,21 @@
+-- Favorecidos: estabelecimentos e pessoas pagas, com apelidos (grafias dos extratos, ex.:
+-- "IFD*IFOOD.COM") em aliases (JSON: ["...", ...]) e uma categoria padrão (nome).
+-- Transações e compras no cartão guardam o favorecido em payee_id.
+
+CREATE TABLE IF NOT EXISTS payees (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    aliases TEXT,
+    default_category TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_payees_user_id ON payees(user_id);
+CREATE INDEX IF NOT EXISTS idx_payees_deleted_at ON payees(deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE transactions ADD COLUMN payee_id TEXT;
+ALTER TABLE credit_card_purchases ADD COLUMN payee_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_transactions_payee_id ON transactions(payee_id) WHERE payee_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_credit_card_purchases_payee_id ON credit_card_purchases(payee_id) WHERE payee_id IS NOT NULL;
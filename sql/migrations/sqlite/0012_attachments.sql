@@ -0,0 +1,20 @@
+-- Anexos (comprovantes e documentos) de transações, compras no cartão, empréstimos e
+-- investimentos. Aqui ficam só os metadados; o arquivo e a miniatura ficam no armazenamento
+-- de anexos (pasta local ou bucket S3), com chave derivada de user_id e id.
+-- owner_entity é o nome da coleção do registro dono (transactions, loans, ...).
+
+CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    owner_entity TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    has_thumbnail INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_attachments_user_id ON attachments(user_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_owner ON attachments(owner_entity, owner_id);
@@ -0,0 +1,53 @@
+-- Regras de recorrência: novas frequências (diária e quinzenal), a cada N períodos
+-- (recurrence_interval), fim numa data ou após N ocorrências, último dia útil do mês
+-- (recurrence_day_rule = 'lastBusinessDay') e ocorrências de fim de semana antecipadas
+-- ('before') ou adiadas ('after'). Nulas, valem os padrões: todo período, mesmo dia,
+-- sem deslocamento e sem fim.
+-- O SQLite não altera um CHECK existente, então a tabela de transações é recriada.
+
+CREATE TABLE transactions_new (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('income', 'expense', 'transfer')),
+    amount NUMERIC NOT NULL,
+    category TEXT NOT NULL,
+    date TEXT NOT NULL,
+    description TEXT,
+    recurrence_frequency TEXT DEFAULT 'none' CHECK (recurrence_frequency IN ('none', 'daily', 'weekly', 'biweekly', 'monthly', 'annually')),
+    receipt_image_uri TEXT,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER,
+    currency TEXT NOT NULL DEFAULT 'BRL',
+    account_id TEXT REFERENCES accounts(id) ON DELETE CASCADE,
+    transfer_to TEXT CHECK (transfer_to IN ('account', 'investment', 'goal')),
+    transfer_to_id TEXT,
+    splits TEXT,
+    tag_ids TEXT,
+    payee_id TEXT,
+    recurrence_interval INTEGER,
+    recurrence_end_date TEXT,
+    recurrence_count INTEGER,
+    recurrence_day_rule TEXT CHECK (recurrence_day_rule IN ('sameDay', 'lastBusinessDay')),
+    recurrence_weekend_shift TEXT CHECK (recurrence_weekend_shift IN ('none', 'before', 'after'))
+);
+
+INSERT INTO transactions_new (id, user_id, type, amount, category, date, description, recurrence_frequency, receipt_image_uri, created_at, updated_at, deleted_at, currency, account_id, transfer_to, transfer_to_id, splits, tag_ids, payee_id)
+SELECT id, user_id, type, amount, category, date, description, recurrence_frequency, receipt_image_uri, created_at, updated_at, deleted_at, currency, account_id, transfer_to, transfer_to_id, splits, tag_ids, payee_id
+FROM transactions;
+
+DROP TABLE transactions;
+ALTER TABLE transactions_new RENAME TO transactions;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_id ON transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(type);
+CREATE INDEX IF NOT EXISTS idx_transactions_recurrence ON transactions(recurrence_frequency);
+CREATE INDEX IF NOT EXISTS idx_transactions_deleted_at ON transactions(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_date_page ON transactions(user_id, date, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_amount_page ON transactions(user_id, amount, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_page ON transactions(user_id, created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_user_category ON transactions(user_id, category) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_account_id ON transactions(account_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer_to_id ON transactions(transfer_to_id) WHERE transfer_to_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_payee_id ON transactions(payee_id) WHERE payee_id IS NOT NULL;
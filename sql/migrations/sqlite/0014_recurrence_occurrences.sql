@@ -0,0 +1,20 @@
+-- Ocorrências de transações recorrentes: a transação recorrente é só o modelo, e cada
+-- ocorrência confirmada como paga, pulada, remarcada ou com valor ajustado ganha uma linha aqui.
+-- scheduled_date é a data que a regra dá à ocorrência e a identifica; occurrence_date é a
+-- data em que foi paga ou para a qual foi remarcada, e amount o valor real ou ajustado,
+-- na moeda da transação. Sem linha, a ocorrência está pendente, na data e no valor do modelo.
+
+CREATE TABLE IF NOT EXISTS recurrence_occurrences (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    transaction_id TEXT NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    scheduled_date TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'paid', 'skipped')),
+    occurrence_date TEXT,
+    amount NUMERIC,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_recurrence_occurrences_user_id ON recurrence_occurrences(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recurrence_occurrences_schedule ON recurrence_occurrences(transaction_id, scheduled_date);
@@ -0,0 +1,24 @@
+-- Conciliação com o extrato: cleared_status marca a transação como compensada ('cleared')
+-- quando aparece no extrato do banco, e como conciliada ('reconciled') quando uma
+-- conciliação concluída a trava contra edições. Nulo, ainda não compensou.
+-- Cada conciliação confere uma conta com o saldo final (statement_balance) de um extrato
+-- fechado em statement_date; concluída, guarda as transações conciliadas em transaction_ids
+-- (JSON: ["...", ...]).
+
+ALTER TABLE transactions ADD COLUMN cleared_status TEXT CHECK (cleared_status IN ('cleared', 'reconciled'));
+
+CREATE TABLE IF NOT EXISTS reconciliations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    account_id TEXT NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+    statement_date TEXT NOT NULL,
+    statement_balance NUMERIC NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('open', 'completed')),
+    transaction_ids TEXT,
+    completed_at INTEGER,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_reconciliations_user_id ON reconciliations(user_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliations_account_id ON reconciliations(account_id);
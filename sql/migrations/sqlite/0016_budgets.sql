@@ -0,0 +1,17 @@
+-- Orçamentos mensais por categoria: amount é o limite de cada mês, na moeda base do usuário,
+-- a partir de start_month ('yyyy-MM'). Com rollover, o que sobrou (ou faltou) de um mês passa
+-- para o seguinte. Um orçamento por categoria; some junto com ela.
+
+CREATE TABLE IF NOT EXISTS budgets (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    category_id TEXT NOT NULL REFERENCES user_categories(id) ON DELETE CASCADE,
+    amount NUMERIC NOT NULL,
+    rollover INTEGER NOT NULL DEFAULT 0,
+    start_month TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+CREATE INDEX IF NOT EXISTS idx_budgets_category_id ON budgets(category_id);
@@ -0,0 +1,19 @@
+-- Orçamento por envelopes (base zero): envelope_start_month ('yyyy-MM') é o mês a partir do qual
+-- as receitas entram no saldo "a atribuir"; NULL enquanto o modo está desligado. Cada linha de
+-- envelope_assignments é o total colocado no envelope de uma categoria em um mês, na moeda base;
+-- mover dinheiro entre envelopes ajusta as duas linhas. Some junto com a categoria.
+
+ALTER TABLE app_users ADD COLUMN envelope_start_month TEXT;
+
+CREATE TABLE IF NOT EXISTS envelope_assignments (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    category_id TEXT NOT NULL REFERENCES user_categories(id) ON DELETE CASCADE,
+    month TEXT NOT NULL,
+    amount NUMERIC NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    updated_at INTEGER NOT NULL DEFAULT (CAST(unixepoch('subsec') * 1000 AS INTEGER)),
+    deleted_at INTEGER,
+    UNIQUE (category_id, month)
+);
+CREATE INDEX IF NOT EXISTS idx_envelope_assignments_user_id ON envelope_assignments(user_id);
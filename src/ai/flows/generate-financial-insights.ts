@@ -13,26 +13,27 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
 const FinancialDataInputSchema = z.object({
-  income: z.number().describe('The user monthly income in Brazilian Real.'),
+  currency: z.string().describe('ISO 4217 code of the currency every amount is given in (the user base currency).'),
+  income: z.number().describe('The user monthly income.'),
   expenses: z.array(
     z.object({
       category: z.string().describe('The category of the expense.'),
-      amount: z.number().describe('The amount spent in Brazilian Real for this category.'),
+      amount: z.number().describe('The amount spent for this category.'),
     })
   ).describe('A list of expenses, including the category and amount.'),
   loans: z.array(
     z.object({
       description: z.string().describe('Description of the loan'),
-      amount: z.number().describe('The loan amount in Brazilian Real.'),
+      amount: z.number().describe('The loan amount.'),
       interestRate: z.number().describe('The interest rate of the loan.'),
-      monthlyPayment: z.number().describe('The monthly payment amount in Brazilian Real.'),
+      monthlyPayment: z.number().describe('The monthly payment amount.'),
     })
   ).describe('A list of loans the user has.'),
   creditCards: z.array(
     z.object({
       name: z.string().describe('The name of the credit card.'),
-      limit: z.number().describe('The credit card limit in Brazilian Real.'),
-      balance: z.number().describe('The current balance on the credit card in Brazilian Real.'),
+      limit: z.number().describe('The credit card limit.'),
+      balance: z.number().describe('The current balance on the credit card.'),
       dueDate: z.string().describe('The due date of the credit card bill (YYYY-MM-DD).'),
     })
   ).describe('A list of credit cards the user has.'),
@@ -57,21 +58,21 @@ const prompt = ai.definePrompt({
   output: {schema: FinancialInsightsOutputSchema},
   prompt: `Você é um especialista financeiro pessoal no Brasil.
 
-  Analise os dados financeiros fornecidos e forneça dicas de economia personalizadas e um resumo da situação financeira do usuário. Use Real Brasileiro (BRL) para todas as quantias monetárias.
+  Analise os dados financeiros fornecidos e forneça dicas de economia personalizadas e um resumo da situação financeira do usuário. Todas as quantias estão em {{{currency}}}; use essa moeda ao citar valores.
 
   Dados Financeiros:
-  Renda Mensal: {{{income}}} BRL
+  Renda Mensal: {{{income}}} {{{currency}}}
   Despesas:
   {{#each expenses}}
-  - Categoria: {{{category}}}, Valor: {{{amount}}} BRL
+  - Categoria: {{{category}}}, Valor: {{{amount}}} {{{../currency}}}
   {{/each}}
   Empréstimos:
   {{#each loans}}
-  - Descrição: {{{description}}}, Valor: {{{amount}}} BRL, Taxa de Juros: {{{interestRate}}}, Pagamento Mensal: {{{monthlyPayment}}} BRL
+  - Descrição: {{{description}}}, Valor: {{{amount}}} {{{../currency}}}, Taxa de Juros: {{{interestRate}}}, Pagamento Mensal: {{{monthlyPayment}}} {{{../currency}}}
   {{/each}}
   Cartões de Crédito:
   {{#each creditCards}}
-  - Nome: {{{name}}}, Limite: {{{limit}}} BRL, Saldo: {{{balance}}} BRL, Vencimento: {{{dueDate}}}
+  - Nome: {{{name}}}, Limite: {{{limit}}} {{{../currency}}}, Saldo: {{{balance}}} {{{../currency}}}, Vencimento: {{{dueDate}}}
   {{/each}}
 
   Instruções:
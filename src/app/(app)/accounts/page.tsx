@@ -0,0 +1,408 @@
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PlusCircle, Edit3, Trash2, Sun, AlertTriangleIcon, SearchX, Wallet, Landmark, PiggyBank, Banknote, Smartphone, Building, History, CheckCircle2, Lock, ListChecks } from "lucide-react";
+import { AccountForm } from "@/components/accounts/AccountForm";
+import { ReconciliationDialog } from "@/components/accounts/ReconciliationDialog";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
+import type { Account, AccountType, Transaction } from "@/types";
+import { getTransactionsForUser } from '@/lib/databaseService';
+import { accountBalances, accountTypeLabels, addsToAccount, clearedStatusLabels, runningBalances } from '@/lib/accounts';
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, cn } from "@/lib/utils";
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from '@/components/ui/badge';
+
+const accountTypeIconMap: Record<AccountType, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Banknote,
+  wallet: Smartphone,
+};
+
+export default function AccountsPage() {
+  const { user, loading: authLoading, getToken } = useAuth();
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [accountToEdit, setAccountToEdit] = useState<Account | null>(null);
+
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [accountForHistory, setAccountForHistory] = useState<Account | null>(null);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  const [isDeletingId, setIsDeletingId] = useState<string | null>(null);
+  const [isReconcileOpen, setIsReconcileOpen] = useState(false);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    const token = getToken();
+    if (!token) {
+      setError("Sessão inválida. Faça login novamente.");
+      setIsLoading(false);
+      toast({ variant: "destructive", title: "Erro de Autenticação", description: "Sessão inválida." });
+      return;
+    }
+
+    try {
+      const [response, fetchedTransactions] = await Promise.all([
+        fetch('/api/accounts', { headers: { 'Authorization': `Bearer ${token}` } }),
+        getTransactionsForUser(user.id),
+      ]);
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setAccounts(data.accounts);
+        setTransactions(fetchedTransactions);
+        setSelectedAccountId(prev => data.accounts.some((a: Account) => a.id === prev) ? prev : data.accounts[0]?.id ?? null);
+      } else {
+        setError(data.message || "Falha ao carregar contas.");
+        toast({ variant: "destructive", title: "Erro ao Carregar", description: data.message || "Falha ao carregar suas contas." });
+      }
+    } catch (e: any) {
+      setError("Falha ao conectar com o servidor para carregar contas.");
+      toast({ variant: "destructive", title: "Erro de Rede", description: "Não foi possível buscar suas contas." });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, toast, getToken]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchAccounts();
+    }
+  }, [authLoading, fetchAccounts]);
+
+  // Reloads only the transactions, so the statement stays on screen while reconciling.
+  const refreshTransactions = useCallback(async () => {
+    if (user) setTransactions(await getTransactionsForUser(user.id));
+  }, [user]);
+
+  // A reconciled transaction accepts no other change until it is back to cleared.
+  const handleUnlock = async (transaction: Transaction) => {
+    setUnlockingId(transaction.id);
+    try {
+      const response = await fetch(`/api/transactions/${transaction.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+        body: JSON.stringify({ clearedStatus: 'cleared', version: transaction.updatedAt ?? transaction.createdAt }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      toast({ title: 'Conciliação desfeita', description: 'A transação voltou a ser só compensada e pode ser alterada.' });
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro', description: e?.message || 'Não foi possível desfazer a conciliação.' });
+    } finally {
+      setUnlockingId(null);
+      refreshTransactions();
+    }
+  };
+
+  const balances = useMemo(() => accountBalances(accounts, transactions), [accounts, transactions]);
+  const selectedAccount = accounts.find(account => account.id === selectedAccountId) || null;
+  // Newest first, as on the transactions page; each row keeps the balance right after it.
+  const statement = useMemo(
+    () => selectedAccount ? runningBalances(selectedAccount, transactions).reverse() : [],
+    [selectedAccount, transactions]
+  );
+
+  const handleAccountUpserted = () => {
+    fetchAccounts();
+    setIsModalOpen(false);
+    setAccountToEdit(null);
+  };
+
+  const openAddModal = () => {
+    setAccountToEdit(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (account: Account) => {
+    setAccountToEdit(account);
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteAccount = (account: Account) => {
+    setAccountToDelete(account);
+    setShowDeleteConfirmDialog(true);
+  };
+
+  const confirmDeleteAccount = async () => {
+    if (!accountToDelete || !user) return;
+    setIsDeletingId(accountToDelete.id);
+    setShowDeleteConfirmDialog(false);
+    const token = getToken();
+    if (!token) {
+      toast({ variant: "destructive", title: "Erro de Autenticação", description: "Sessão inválida." });
+      setIsDeletingId(null);
+      setAccountToDelete(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/accounts/${accountToDelete.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        }
+      });
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        toast({
+          title: 'Conta Excluída!',
+          description: `A conta "${accountToDelete.name}" e suas transações foram movidas para a Lixeira.`,
+          action: <UndoDeleteAction userId={user.id} entity="accounts" itemId={accountToDelete.id} onRestored={fetchAccounts} />,
+        });
+        fetchAccounts();
+      } else {
+        toast({ variant: 'destructive', title: 'Erro ao Excluir', description: result.message || 'Não foi possível excluir a conta.' });
+      }
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro de Rede', description: 'Falha ao excluir a conta.' });
+    } finally {
+      setIsDeletingId(null);
+      setAccountToDelete(null);
+    }
+  };
+
+  const renderAccountCards = () => {
+    if (isLoading) {
+      return <div className="col-span-full flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando contas...</p></div>;
+    }
+    if (error) {
+      return <div className="col-span-full flex flex-col items-center justify-center h-64 text-destructive"><AlertTriangleIcon className="h-12 w-12 mb-3" /><p>{error}</p></div>;
+    }
+    if (accounts.length === 0) {
+      return <div className="col-span-full flex flex-col items-center justify-center h-64 text-muted-foreground"><SearchX className="h-12 w-12 mb-3" /><p className="text-lg">Nenhuma conta encontrada.</p><p className="text-sm">Cadastre suas contas bancárias e carteiras para acompanhar o saldo de cada uma.</p></div>;
+    }
+
+    return accounts.map(account => {
+      const IconComponent = accountTypeIconMap[account.type] || Wallet;
+      const balance = balances.get(account.id) ?? account.openingBalance;
+
+      return (
+        <Card
+          key={account.id}
+          className={cn("shadow-md hover:shadow-lg transition-shadow cursor-pointer", account.id === selectedAccountId && "ring-2 ring-primary")}
+          onClick={() => setSelectedAccountId(account.id)}
+        >
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between">
+              <div className="flex items-center">
+                <IconComponent className="mr-3 h-7 w-7 text-primary" />
+                <div>
+                  <CardTitle className="text-lg font-semibold">{account.name}</CardTitle>
+                  <Badge variant="secondary" className="mt-1 text-xs">{accountTypeLabels[account.type]}</Badge>
+                </div>
+              </div>
+              <div className="flex gap-1" onClick={e => e.stopPropagation()}>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditModal(account)} disabled={isDeletingId === account.id || !user}>
+                  <Edit3 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setAccountForHistory(account)} disabled={!user} title="Histórico de alterações">
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive/90" onClick={() => handleDeleteAccount(account)} disabled={isDeletingId === account.id || !user}>
+                  {isDeletingId === account.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+            {account.institution && (
+              <CardDescription className="text-xs pt-1 flex items-center">
+                <Building className="mr-1.5 h-3.5 w-3.5" /> {account.institution}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex justify-between items-baseline">
+              <span className="text-sm text-muted-foreground">Saldo Atual:</span>
+              <span className={cn("text-lg font-bold", balance >= 0 ? "text-primary" : "text-red-600")}>{formatCurrency(balance, account.currency)}</span>
+            </div>
+            <div className="flex justify-between items-baseline text-xs">
+              <span className="text-muted-foreground">Saldo Inicial:</span>
+              <span>{formatCurrency(account.openingBalance, account.currency)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    });
+  };
+
+  if (authLoading) {
+    return <div className="flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando...</p></div>;
+  }
+  if (!user && !authLoading) {
+    return <div className="flex flex-col items-center justify-center h-64 text-muted-foreground"><AlertTriangleIcon className="h-12 w-12 mb-3" /><p className="text-lg">Por favor, faça login para acessar esta página.</p></div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-headline flex items-center">
+            <Wallet className="mr-3 h-8 w-8 text-primary" />
+            Minhas Contas
+          </h1>
+          <p className="text-muted-foreground">
+            Contas bancárias, dinheiro e carteiras, com o saldo de cada uma.
+          </p>
+        </div>
+        <Dialog open={isModalOpen} onOpenChange={(isOpen) => { setIsModalOpen(isOpen); if (!isOpen) setAccountToEdit(null); }}>
+          <DialogTrigger asChild>
+            <Button onClick={openAddModal} className="w-full sm:w-auto" disabled={!user}>
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Nova Conta
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{accountToEdit ? "Editar Conta" : "Adicionar Nova Conta"}</DialogTitle>
+              <DialogDescription>
+                {accountToEdit ? "Atualize os detalhes da sua conta." : "Preencha os detalhes da sua nova conta."}
+              </DialogDescription>
+            </DialogHeader>
+            {user && <AccountForm userId={user.id} existingAccount={accountToEdit} onSuccess={handleAccountUpserted} setOpen={setIsModalOpen} />}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {renderAccountCards()}
+      </div>
+
+      {selectedAccount && !isLoading && (
+        <Card className="shadow-md">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Extrato - {selectedAccount.name}</CardTitle>
+              <CardDescription>Transações da conta com o saldo após cada uma.</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setIsReconcileOpen(true)} disabled={!user}>
+              <ListChecks className="mr-2 h-4 w-4" />
+              Conciliar
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {statement.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma transação nesta conta. Escolha a conta ao registrar ou importar transações.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Categoria</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead className="w-10"><span className="sr-only">Conciliação</span></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.map(({ transaction, balance }) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{format(parseISO(transaction.date), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                      <TableCell>{transaction.description || '—'}</TableCell>
+                      <TableCell>{transaction.category}</TableCell>
+                      <TableCell className={cn("text-right font-medium", addsToAccount(transaction, selectedAccount.id) ? "text-green-600" : "text-red-600")}>
+                        {addsToAccount(transaction, selectedAccount.id) ? '+' : '-'} {formatCurrency(transaction.amount, selectedAccount.currency)}
+                      </TableCell>
+                      <TableCell className={cn("text-right", balance < 0 && "text-red-600")}>{formatCurrency(balance, selectedAccount.currency)}</TableCell>
+                      <TableCell>
+                        {transaction.clearedStatus === 'reconciled' ? (
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleUnlock(transaction)} disabled={unlockingId === transaction.id} title={`${clearedStatusLabels.reconciled} - clique para desfazer`}>
+                            {unlockingId === transaction.id ? <Sun className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4 text-primary" />}
+                          </Button>
+                        ) : transaction.clearedStatus === 'cleared' ? (
+                          <CheckCircle2 className="mx-auto h-4 w-4 text-green-600" aria-label={clearedStatusLabels.cleared} />
+                        ) : null}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-muted-foreground">Saldo Inicial</TableCell>
+                    <TableCell className="text-right">{formatCurrency(selectedAccount.openingBalance, selectedAccount.currency)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <ReconciliationDialog
+        account={selectedAccount}
+        transactions={transactions}
+        open={isReconcileOpen}
+        onOpenChange={setIsReconcileOpen}
+        onChanged={refreshTransactions}
+      />
+
+      <RecordHistorySheet
+        entity="accounts"
+        recordId={accountForHistory?.id ?? null}
+        title={accountForHistory?.name}
+        currency={accountForHistory?.currency}
+        open={!!accountForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setAccountForHistory(null); }}
+      />
+
+      <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir a conta "{accountToDelete?.name || 'selecionada'}"? Ela e suas transações ficarão na Lixeira, de onde podem ser restauradas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setAccountToDelete(null)} disabled={!!isDeletingId}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDeleteAccount}
+              disabled={!!isDeletingId || !user}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeletingId ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Excluir Conta
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangleIcon, ChevronLeft, ChevronRight, Edit3, PiggyBank, PlusCircle, SearchX, Sun, Trash2 } from "lucide-react";
+import type { Budget, EnvelopeAssignment, ExchangeRate, UserCategory } from "@/types";
+import {
+  getBudgetsForUser, getCategoriesForUser, getCreditCardPurchasesForUser, getCreditCardsForUser, getEnvelopeAssignmentsForUser, getExchangeRatesForUser,
+  getLoansForUser, getRecurrenceOccurrencesForUser, getTransactionsForUser,
+} from '@/lib/databaseService';
+import { budgetEntries, budgetMonth, budgetUsage, monthOf, shiftMonth, spendingLookup, type SpendingSources } from '@/lib/budgets';
+import { EnvelopesPanel } from '@/components/budgets/EnvelopesPanel';
+import { categoryPath, orderCategories } from '@/lib/categories';
+import { createCurrencyConverter, DEFAULT_CURRENCY } from '@/lib/currency';
+import { addMoney, parseMoney, subtractMoney } from '@/lib/money';
+import { cn, formatCurrency } from "@/lib/utils";
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from '@/hooks/use-toast';
+
+interface BudgetFormValues {
+  categoryId: string;
+  amount: string;
+  rollover: boolean;
+  startMonth: string; // 'yyyy-MM'
+}
+
+const emptySources: SpendingSources = { transactions: [], occurrenceStates: [], creditCards: [], creditCardPurchases: [], loans: [] };
+
+const monthLabel = (month: string) => format(parseISO(`${month}-01`), 'MMMM yyyy', { locale: ptBR });
+
+export default function BudgetsPage() {
+  const { user, loading: authLoading, getToken } = useAuth();
+  const { toast } = useToast();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [sources, setSources] = useState<SpendingSources>(emptySources);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [assignments, setAssignments] = useState<EnvelopeAssignment[]>([]);
+  const [month, setMonth] = useState(() => monthOf(new Date()));
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ budget: Budget | null } | null>(null); // budget null creates a new one
+  const [form, setForm] = useState<BudgetFormValues>({ categoryId: '', amount: '', rollover: false, startMonth: month });
+  const [isSaving, setIsSaving] = useState(false);
+  const [budgetToDelete, setBudgetToDelete] = useState<Budget | null>(null);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+
+  const fetchData = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [userBudgets, userCategories, transactions, occurrenceStates, creditCards, creditCardPurchases, loans, rates, envelopeAssignments] = await Promise.all([
+        getBudgetsForUser(user.id),
+        getCategoriesForUser(user.id),
+        getTransactionsForUser(user.id),
+        getRecurrenceOccurrencesForUser(user.id),
+        getCreditCardsForUser(user.id),
+        getCreditCardPurchasesForUser(user.id),
+        getLoansForUser(user.id),
+        getExchangeRatesForUser(user.id),
+        getEnvelopeAssignmentsForUser(user.id),
+      ]);
+      setBudgets(userBudgets);
+      setCategories(userCategories);
+      setSources({ transactions, occurrenceStates, creditCards, creditCardPurchases, loans });
+      setExchangeRates(rates);
+      setAssignments(envelopeAssignments);
+    } catch (e: any) {
+      console.error("Failed to fetch budget data:", e?.message);
+      setError("Não foi possível carregar os orçamentos.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchData();
+    }
+  }, [authLoading, fetchData]);
+
+  const refreshAssignments = useCallback(async () => {
+    if (user) setAssignments(await getEnvelopeAssignmentsForUser(user.id));
+  }, [user]);
+
+  // What was spent up to today against each budget, and what is still scheduled for the rest of the month.
+  const rows = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    const spentOf = spendingLookup(sources, converter.toBase, format(new Date(), 'yyyy-MM-dd'));
+    const plannedOf = spendingLookup(sources, converter.toBase);
+    const order = orderCategories(categories).map(({ category }) => category.id);
+    return budgets
+      .map(budget => {
+        const category = categories.find(c => c.id === budget.categoryId);
+        const status = budgetMonth(budget, categories, spentOf, month);
+        const planned = addMoney(...budgetEntries(budget, categories, plannedOf(month)).map(entry => entry.amount));
+        return { budget, category, status, scheduled: status ? subtractMoney(planned, status.spent) : 0 };
+      })
+      .sort((a, b) => order.indexOf(a.budget.categoryId) - order.indexOf(b.budget.categoryId));
+  }, [budgets, categories, sources, exchangeRates, baseCurrency, month]);
+
+  const totals = useMemo(() => {
+    const active = rows.flatMap(row => row.status ? [row.status] : []);
+    return { available: addMoney(...active.map(s => s.available)), spent: addMoney(...active.map(s => s.spent)) };
+  }, [rows]);
+
+  const openEditor = (budget: Budget | null) => {
+    setForm(budget
+      ? { categoryId: budget.categoryId, amount: String(budget.amount), rollover: budget.rollover, startMonth: budget.startMonth }
+      : { categoryId: '', amount: '', rollover: false, startMonth: month });
+    setEditing({ budget });
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    const amount = parseMoney(form.amount);
+    if (amount === null || amount <= 0) {
+      toast({ variant: 'destructive', title: 'Valor inválido', description: 'Informe um valor mensal maior que zero.' });
+      return;
+    }
+    const token = getToken();
+    const body = { amount, rollover: form.rollover, startMonth: form.startMonth };
+    setIsSaving(true);
+    try {
+      const response = await fetch(editing.budget ? `/api/budgets/${editing.budget.id}` : '/api/budgets', {
+        method: editing.budget ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { 'Authorization': `Bearer ${token}` } : {}) },
+        body: JSON.stringify(editing.budget
+          ? { ...body, version: editing.budget.updatedAt ?? editing.budget.createdAt }
+          : { ...body, categoryId: form.categoryId }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      toast({ title: 'Orçamento Salvo' });
+      setEditing(null);
+      fetchData();
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro ao Salvar Orçamento', description: e?.message || 'Não foi possível salvar o orçamento.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!user || !budgetToDelete) return;
+    const token = getToken();
+    try {
+      const response = await fetch(`/api/budgets/${budgetToDelete.id}`, {
+        method: 'DELETE',
+        headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      setBudgets(prev => prev.filter(b => b.id !== budgetToDelete.id));
+      toast({ title: 'Orçamento Excluído' });
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro ao Excluir Orçamento', description: e?.message || 'Não foi possível excluir o orçamento.' });
+    } finally {
+      setBudgetToDelete(null);
+    }
+  };
+
+  if (authLoading) {
+    return <div className="flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando...</p></div>;
+  }
+  if (!user && !authLoading) {
+    return <div className="flex flex-col items-center justify-center h-64 text-muted-foreground"><AlertTriangleIcon className="h-12 w-12 mb-3" /><p className="text-lg">Por favor, faça login para acessar esta página.</p></div>;
+  }
+
+  const budgetedCategoryIds = new Set(budgets.map(budget => budget.categoryId));
+
+  const renderBudgets = () => {
+    if (isLoading) {
+      return <div className="flex items-center justify-center h-40"><Sun className="h-10 w-10 animate-spin text-primary" /></div>;
+    }
+    if (error) {
+      return <div className="flex flex-col items-center justify-center h-40 text-destructive"><AlertTriangleIcon className="h-10 w-10 mb-3" /><p>{error}</p></div>;
+    }
+    if (budgets.length === 0) {
+      return <div className="flex flex-col items-center justify-center h-40 text-muted-foreground"><SearchX className="h-10 w-10 mb-3" /><p>Nenhum orçamento cadastrado.</p><p className="text-sm">Defina quanto pretende gastar por mês em cada categoria.</p></div>;
+    }
+    return (
+      <div className="space-y-6">
+        {rows.map(({ budget, category, status, scheduled }) => {
+          const usage = status ? budgetUsage(status) : 0;
+          return (
+            <div key={budget.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">{category ? categoryPath(category.name, categories) : 'Categoria removida'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(budget.amount, baseCurrency)} por mês{budget.rollover && ', acumulando o saldo'}
+                  </p>
+                </div>
+                <div className="flex items-center whitespace-nowrap">
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(budget)} aria-label="Editar orçamento">
+                    <Edit3 className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setBudgetToDelete(budget)} aria-label="Excluir orçamento">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+              {status ? (
+                <>
+                  <Progress
+                    value={Math.min(usage, 100)}
+                    className="h-3"
+                    indicatorClassName={cn(usage >= 100 ? 'bg-destructive' : usage >= 80 && 'bg-yellow-500')}
+                    aria-label={`${Math.round(usage)}% do orçamento usado`}
+                  />
+                  <div className="flex flex-wrap justify-between gap-x-4 text-sm">
+                    <span>
+                      {formatCurrency(status.spent, baseCurrency)} de {formatCurrency(status.available, baseCurrency)} ({Math.round(usage)}%)
+                    </span>
+                    <span className={cn('font-medium', status.remaining < 0 ? 'text-destructive' : 'text-green-600')}>
+                      {status.remaining < 0 ? `Excedido em ${formatCurrency(-status.remaining, baseCurrency)}` : `Restam ${formatCurrency(status.remaining, baseCurrency)}`}
+                    </span>
+                  </div>
+                  {(status.carriedOver !== 0 || scheduled > 0) && (
+                    <p className="text-xs text-muted-foreground">
+                      {status.carriedOver !== 0 && `${status.carriedOver > 0 ? 'Sobra' : 'Excesso'} acumulado dos meses anteriores: ${formatCurrency(Math.abs(status.carriedOver), baseCurrency)}. `}
+                      {scheduled > 0 && `Ainda previsto no mês: ${formatCurrency(scheduled, baseCurrency)}.`}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Começa em {monthLabel(budget.startMonth)}.</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-headline flex items-center">
+            <PiggyBank className="mr-3 h-8 w-8 text-primary" />
+            Orçamentos
+          </h1>
+          <p className="text-muted-foreground">
+            Limites mensais por categoria, com alertas no sino de notificações ao chegar a 80% e a 100%.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} disabled={!user}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Novo Orçamento
+        </Button>
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="capitalize">{monthLabel(month)}</CardTitle>
+            <CardDescription>
+              Gastos até hoje, com as parcelas do cartão no mês em que a fatura fecha e as de empréstimos no mês do pagamento.
+              {!isLoading && budgets.length > 0 && ` Total: ${formatCurrency(totals.spent, baseCurrency)} de ${formatCurrency(totals.available, baseCurrency)}.`}
+              {' '}Valores em {baseCurrency}.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={() => setMonth(shiftMonth(month, -1))} aria-label="Mês anterior">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setMonth(monthOf(new Date()))}>Mês Atual</Button>
+            <Button variant="outline" size="icon" onClick={() => setMonth(shiftMonth(month, 1))} aria-label="Próximo mês">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {renderBudgets()}
+        </CardContent>
+      </Card>
+
+      {user?.envelopeStartMonth && !isLoading && !error && (
+        <EnvelopesPanel
+          startMonth={user.envelopeStartMonth}
+          month={month}
+          categories={categories}
+          assignments={assignments}
+          sources={sources}
+          exchangeRates={exchangeRates}
+          baseCurrency={baseCurrency}
+          onChanged={refreshAssignments}
+        />
+      )}
+
+      <Dialog open={!!editing} onOpenChange={isOpen => { if (!isOpen) setEditing(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing?.budget ? 'Editar Orçamento' : 'Novo Orçamento'}</DialogTitle>
+            <DialogDescription>
+              O orçamento de uma categoria inclui os gastos nas suas subcategorias.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select value={form.categoryId} onValueChange={categoryId => setForm({ ...form, categoryId })} disabled={isSaving || !!editing?.budget}>
+                <SelectTrigger><SelectValue placeholder="Selecione a categoria" /></SelectTrigger>
+                <SelectContent>
+                  {orderCategories(categories).map(({ category, depth }) => (
+                    <SelectItem
+                      key={category.id}
+                      value={category.id}
+                      className={cn(depth > 0 && 'pl-10')}
+                      disabled={budgetedCategoryIds.has(category.id) && category.id !== editing?.budget?.categoryId}
+                    >
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Valor Mensal ({baseCurrency})</Label>
+              <Input id="budget-amount" inputMode="decimal" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} disabled={isSaving} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-start-month">Mês de Início</Label>
+              <Input id="budget-start-month" type="month" value={form.startMonth} onChange={e => setForm({ ...form, startMonth: e.target.value })} disabled={isSaving} />
+            </div>
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div>
+                <Label htmlFor="budget-rollover">Acumular saldo</Label>
+                <p className="text-xs text-muted-foreground">O que sobrar, ou faltar, em um mês passa para o seguinte.</p>
+              </div>
+              <Switch id="budget-rollover" checked={form.rollover} onCheckedChange={rollover => setForm({ ...form, rollover })} disabled={isSaving} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.categoryId || !form.amount.trim() || !form.startMonth}>
+              {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!budgetToDelete} onOpenChange={isOpen => { if (!isOpen) setBudgetToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir orçamento?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O orçamento é excluído definitivamente, sem passar pela Lixeira. Os lançamentos da categoria não são afetados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -26,12 +26,21 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger, // Ensured this is imported
 } from "@/components/ui/alert-dialog";
-import { PlusCircle, CreditCardIcon as CreditCardLucideIcon, CalendarDays, AlertTriangleIcon, SearchX, Sun, ShoppingBag, Trash2, TrendingUp, TrendingDown, FileText, Edit3, ArrowLeft, BarChart3, ListTree, Filter } from "lucide-react";
+import { PlusCircle, CreditCardIcon as CreditCardLucideIcon, CalendarDays, AlertTriangleIcon, SearchX, Sun, ShoppingBag, Trash2, TrendingUp, TrendingDown, FileText, Edit3, ArrowLeft, BarChart3, ListTree, Filter, History } from "lucide-react";
 import { CreditCardForm } from "@/components/credit-cards/CreditCardForm";
 import { CreditCardTransactionForm } from "@/components/credit-cards/CreditCardTransactionForm";
-import type { CreditCard, CreditCardPurchase } from "@/types";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
+import type { CreditCard, CreditCardPurchase, ExchangeRate, Tag, UserCategory } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, cn } from "@/lib/utils";
+import { addMoney, splitMoney, sumMoney } from "@/lib/money";
+import { categoryLabel, totalsByCategory } from "@/lib/splits";
+import { tagsOf } from "@/lib/tags";
+import { categoryPath, findCategory } from "@/lib/categories";
+import { CategoryIcon } from "@/components/categories/CategoryIcon";
+import { createCurrencyConverter, DEFAULT_CURRENCY } from "@/lib/currency";
+import { getCategoriesForUser, getExchangeRatesForUser, getTagsForUser } from "@/lib/databaseService";
 import { 
   format, 
   parseISO, 
@@ -56,6 +65,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Progress } from "@/components/ui/progress";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface MonthlySummary {
   monthYear: string; 
@@ -83,6 +93,11 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
 
   const [cardDetails, setCardDetails] = useState<CreditCard | null>(null);
   const [cardPurchases, setCardPurchases] = useState<CreditCardPurchase[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [tagFilter, setTagFilter] = useState<string>('all');
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
   
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -95,12 +110,24 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
   const [isDeletingPurchaseId, setIsDeletingPurchaseId] = useState<string | null>(null);
   const [showDeletePurchaseConfirmDialog, setShowDeletePurchaseConfirmDialog] = useState(false);
   const [purchaseToDelete, setPurchaseToDelete] = useState<CreditCardPurchase | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{ entity: 'creditCards' | 'creditCardPurchases'; id: string; title: string; currency?: string } | null>(null);
 
   const [showDeleteCardConfirmDialog, setShowDeleteCardConfirmDialog] = useState(false);
   const [isDeletingCardId, setIsDeletingCardId] = useState<string | null>(null);
 
   const [categoryFilterMode, setCategoryFilterMode] = useState<CategoryFilterMode>('allTime');
 
+  // Invoices and summaries add purchases up in the base currency; the purchase list shows each one in its own.
+  const cardPurchasesInBase = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    return cardPurchases.map(p => ({ ...p, totalAmount: converter.toBase(p.totalAmount, p.currency, p.date) }));
+  }, [cardPurchases, baseCurrency, exchangeRates]);
+
+  const listedPurchases = useMemo(
+    () => tagFilter === 'all' ? cardPurchases : cardPurchases.filter(p => p.tagIds?.includes(tagFilter)),
+    [cardPurchases, tagFilter]
+  );
+
   const fetchCardData = useCallback(async () => {
     if (!user || !cardId) return;
     setIsLoading(true);
@@ -113,10 +140,16 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
     }
 
     try {
-      const [cardsResponse, purchasesResponse] = await Promise.all([
+      const [cardsResponse, purchasesResponse, rates, userTags, userCategories] = await Promise.all([
         fetch('/api/credit-cards', { headers: { 'Authorization': `Bearer ${token}` } }),
-        fetch('/api/credit-card-purchases', { headers: { 'Authorization': `Bearer ${token}` } })
+        fetch('/api/credit-card-purchases', { headers: { 'Authorization': `Bearer ${token}` } }),
+        getExchangeRatesForUser(user.id),
+        getTagsForUser(user.id),
+        getCategoriesForUser(user.id),
       ]);
+      setExchangeRates(rates);
+      setTags(userTags);
+      setCategories(userCategories);
 
       const cardsData = await cardsResponse.json();
       const purchasesData = await purchasesResponse.json();
@@ -181,7 +214,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
       
       allPurchases.forEach(purchase => {
         const purchaseDate = parseISO(purchase.date);
-        const installmentAmount = purchase.totalAmount / purchase.installments;
+        const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
 
         for (let i = 0; i < purchase.installments; i++) {
           let billingCycleDateForInstallment = purchaseDate;
@@ -198,7 +231,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
             installmentInvoiceClosingMonth === targetInvoiceClosingMonth &&
             installmentInvoiceClosingYear === targetInvoiceClosingYear
           ) {
-            invoiceTotal += installmentAmount;
+            invoiceTotal = addMoney(invoiceTotal, installmentAmounts[i]);
           }
         }
       });
@@ -209,11 +242,11 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
 
   const calculateMonthlySummariesForThisCard = useCallback((): MonthlySummary[] => {
     const summaries: { [key: string]: MonthlySummary } = {}; 
-    if (!cardDetails || !cardPurchases.length) return [];
+    if (!cardDetails || !cardPurchasesInBase.length) return [];
 
-    cardPurchases.forEach(purchase => {
+    cardPurchasesInBase.forEach(purchase => {
       const purchaseDate = parseISO(purchase.date);
-      const installmentAmount = purchase.totalAmount / purchase.installments;
+      const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
 
       for (let i = 0; i < purchase.installments; i++) {
         let paymentMonthDate = new Date(purchaseDate);
@@ -233,10 +266,10 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
             purchases: [],
           };
         }
-        summaries[monthYearSortKey].totalAmount += installmentAmount;
+        summaries[monthYearSortKey].totalAmount = addMoney(summaries[monthYearSortKey].totalAmount, installmentAmounts[i]);
         summaries[monthYearSortKey].purchases.push({
           ...purchase,
-          installmentAmount,
+          installmentAmount: installmentAmounts[i],
           currentInstallment: i + 1,
           totalInstallments: purchase.installments,
         });
@@ -255,7 +288,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
         const dateB = new Date(bYear, bMonthIndex, 1);
         return dateA.getTime() - dateB.getTime();
     });
-  }, [cardPurchases, cardDetails]);
+  }, [cardPurchasesInBase, cardDetails]);
 
   const allCalculatedSummariesForThisCard = calculateMonthlySummariesForThisCard();
 
@@ -295,7 +328,11 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
       });
       const result = await response.json();
       if (result.success) {
-        toast({ title: 'Compra Excluída!', description: 'A compra foi excluída.' });
+        toast({
+          title: 'Compra Excluída!',
+          description: 'A compra foi movida para a Lixeira.',
+          action: <UndoDeleteAction userId={user.id} entity="creditCardPurchases" itemId={purchaseToDelete.id} onRestored={handlePurchaseUpserted} />,
+        });
         handlePurchaseUpserted(); 
       } else {
         toast({ variant: 'destructive', title: 'Erro', description: result.message || 'Não foi possível excluir a compra.' });
@@ -324,7 +361,12 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
       });
       const result = await response.json();
       if (result.success) {
-        toast({ title: 'Cartão Excluído!', description: `O cartão "${cardDetails.name}" e suas compras foram excluídos.` });
+        const cardId = cardDetails.id;
+        toast({
+          title: 'Cartão Excluído!',
+          description: `O cartão "${cardDetails.name}" e suas compras foram movidos para a Lixeira.`,
+          action: <UndoDeleteAction userId={user.id} entity="creditCards" itemId={cardId} onRestored={() => router.push(`/credit-cards/${cardId}`)} />,
+        });
         router.push('/credit-cards');
       } else {
         toast({ variant: 'destructive', title: 'Erro', description: result.message || 'Não foi possível excluir o cartão.' });
@@ -340,7 +382,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
   const categorySpendingSummaryForThisCard = useMemo(() => {
     if (isLoading || !cardDetails) return [];
 
-    let purchasesToConsider = cardPurchases;
+    let purchasesToConsider = cardPurchasesInBase;
 
     if (categoryFilterMode === 'currentInvoice') {
       const today = new Date();
@@ -360,7 +402,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
         invoicePeriodEnd = setDate(today, cardDetails.closingDateDay);
       }
       
-      purchasesToConsider = cardPurchases.filter(p => {
+      purchasesToConsider = cardPurchasesInBase.filter(p => {
         const purchaseDate = parseISO(p.date);
         // Purchases made ON invoicePeriodStart are part of previous invoice, so AFTER.
         // Purchases made ON invoicePeriodEnd are part of current invoice.
@@ -375,12 +417,9 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
         return [];
     }
 
-    const summary: Record<string, number> = purchasesToConsider.reduce((acc, purchase) => {
-      acc[purchase.category] = (acc[purchase.category] || 0) + purchase.totalAmount;
-      return acc;
-    }, {} as Record<string, number>);
+    const summary = totalsByCategory(purchasesToConsider, purchase => purchase.totalAmount);
 
-    const totalSpending = Object.values(summary).reduce((sum, amount) => sum + amount, 0);
+    const totalSpending = sumMoney(Object.values(summary));
 
     return Object.entries(summary)
       .map(([category, totalAmount]) => ({
@@ -389,7 +428,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
         percentage: totalSpending > 0 ? (totalAmount / totalSpending) * 100 : 0,
       }))
       .sort((a, b) => b.totalAmount - a.totalAmount);
-  }, [cardPurchases, isLoading, cardDetails, categoryFilterMode]);
+  }, [cardPurchasesInBase, isLoading, cardDetails, categoryFilterMode]);
 
 
   if (authLoading || isLoading) {
@@ -410,8 +449,8 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
   const nextMonthDate = addMonths(currentDate, 1);
   const nextMonth = getMonth(nextMonthDate);
   const nextYear = getYear(nextMonthDate);
-  const currentInvoiceTotal = calculateInvoiceTotalForCardAndMonth(cardDetails, cardPurchases, currentMonth, currentYear);
-  const nextInvoiceTotal = calculateInvoiceTotalForCardAndMonth(cardDetails, cardPurchases, nextMonth, nextYear);
+  const currentInvoiceTotal = calculateInvoiceTotalForCardAndMonth(cardDetails, cardPurchasesInBase, currentMonth, currentYear);
+  const nextInvoiceTotal = calculateInvoiceTotalForCardAndMonth(cardDetails, cardPurchasesInBase, nextMonth, nextYear);
   const currentClosingDate = setDate(currentDate, cardDetails.closingDateDay);
   let nextClosingDate = addMonths(currentDate, 1);
   nextClosingDate = setDate(nextClosingDate, cardDetails.closingDateDay);
@@ -446,12 +485,13 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
               {user && <CreditCardForm onSuccess={handleCardUpserted} setOpen={setIsEditCardModalOpen} userId={user.id} existingCard={cardDetails}/>}
             </DialogContent>
           </Dialog>
+          <Button size="sm" variant="outline" className="w-full sm:w-auto" disabled={!user} onClick={() => setHistoryTarget({ entity: 'creditCards', id: cardDetails.id, title: cardDetails.name })}><History className="mr-2 h-4 w-4" />Histórico</Button>
            <AlertDialog open={showDeleteCardConfirmDialog} onOpenChange={setShowDeleteCardConfirmDialog}>
             <AlertDialogTrigger asChild>
                  <Button size="sm" variant="destructive" className="w-full sm:w-auto" disabled={isDeletingCardId === cardDetails.id || !user}><Trash2 className="mr-2 h-4 w-4" />Excluir Cartão</Button>
             </AlertDialogTrigger>
             <AlertDialogContent>
-                <AlertDialogHeader><AlertDialogTitle>Excluir Cartão</AlertDialogTitle><AlertDialogDescription>Tem certeza que deseja excluir o cartão "{cardDetails.name}" e todas as suas compras associadas? Esta ação é irreversível.</AlertDialogDescription></AlertDialogHeader>
+                <AlertDialogHeader><AlertDialogTitle>Excluir Cartão</AlertDialogTitle><AlertDialogDescription>Tem certeza que deseja excluir o cartão "{cardDetails.name}" e todas as suas compras associadas? Eles ficarão na Lixeira, de onde podem ser restaurados.</AlertDialogDescription></AlertDialogHeader>
                 <AlertDialogFooter>
                     <AlertDialogCancel disabled={!!isDeletingCardId}>Cancelar</AlertDialogCancel>
                     <AlertDialogAction onClick={confirmDeleteCard} disabled={!!isDeletingCardId} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
@@ -470,8 +510,8 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
             <div><span className="text-muted-foreground">Vencimento:</span><span className="font-medium float-right">Dia {String(cardDetails.dueDateDay).padStart(2, '0')}</span></div>
             <div><span className="text-muted-foreground">Fechamento:</span><span className="font-medium float-right">Dia {String(cardDetails.closingDateDay).padStart(2, '0')}</span></div>
             <Separator className="sm:col-span-2 my-1"/>
-            <div><span className="text-muted-foreground">Fatura Atual (Fecha {format(currentClosingDate, 'dd/MM', { locale: ptBR })}):</span><span className="font-semibold float-right text-blue-600">{formatCurrency(currentInvoiceTotal)}</span></div>
-            <div><span className="text-muted-foreground">Próxima Fatura (Fecha {format(nextClosingDate, 'dd/MM', { locale: ptBR })}):</span><span className="font-semibold float-right text-green-600">{formatCurrency(nextInvoiceTotal)}</span></div>
+            <div><span className="text-muted-foreground">Fatura Atual (Fecha {format(currentClosingDate, 'dd/MM', { locale: ptBR })}):</span><span className="font-semibold float-right text-blue-600">{formatCurrency(currentInvoiceTotal, baseCurrency)}</span></div>
+            <div><span className="text-muted-foreground">Próxima Fatura (Fecha {format(nextClosingDate, 'dd/MM', { locale: ptBR })}):</span><span className="font-semibold float-right text-green-600">{formatCurrency(nextInvoiceTotal, baseCurrency)}</span></div>
         </CardContent>
       </Card>
 
@@ -513,9 +553,12 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
                     {categorySpendingSummaryForThisCard.map(item => (
                         <li key={item.category} className="text-sm">
                         <div className="flex justify-between items-center mb-1">
-                            <span className="font-medium truncate pr-2" title={item.category}>{item.category}</span>
+                            <span className="flex items-center gap-2 font-medium truncate pr-2" title={categoryPath(item.category, categories)}>
+                                <CategoryIcon category={findCategory(categories, item.category)} />
+                                {categoryPath(item.category, categories)}
+                            </span>
                             <div className="flex items-baseline whitespace-nowrap">
-                            <span className="font-semibold">{formatCurrency(item.totalAmount)}</span>
+                            <span className="font-semibold">{formatCurrency(item.totalAmount, baseCurrency)}</span>
                             <span className="ml-1.5 text-xs text-muted-foreground">({item.percentage.toFixed(1)}%)</span>
                             </div>
                         </div>
@@ -532,31 +575,50 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         <div>
-            <h2 className="text-2xl font-semibold tracking-tight font-headline mb-4">Compras Realizadas (Este Cartão)</h2>
+            <div className="flex items-center justify-between gap-2 mb-4">
+                <h2 className="text-2xl font-semibold tracking-tight font-headline">Compras Realizadas (Este Cartão)</h2>
+                {tags.length > 0 && (
+                    <Select value={tagFilter} onValueChange={setTagFilter}>
+                        <SelectTrigger className="w-[180px]" aria-label="Filtrar por tag"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">Todas as tags</SelectItem>
+                            {tags.map(tag => <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                )}
+            </div>
             {cardPurchases.length === 0 ? (
                 <p className="text-muted-foreground text-center py-4">Nenhuma compra registrada para este cartão.</p>
+            ) : listedPurchases.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">Nenhuma compra com esta tag.</p>
             ) : (
                 <ScrollArea className="h-[400px] pr-2">
                 <ul className="space-y-3">
-                    {cardPurchases.map(p => (
+                    {listedPurchases.map(p => (
                     <li key={p.id} className="p-3 border rounded-md shadow-sm bg-card">
                         <div className="flex justify-between items-start">
                         <div>
                             <p className="font-medium">{p.description}</p>
-                            <p className="text-xs text-muted-foreground">{p.category}</p>
+                            <p className="text-xs text-muted-foreground">{categoryLabel(p)}</p>
                         </div>
                         <div className="text-right flex flex-col items-end gap-1 sm:flex-row sm:items-center sm:gap-2">
                             <div>
-                            <p className="font-semibold">{formatCurrency(p.totalAmount)}</p>
-                            <p className="text-xs text-muted-foreground">{p.installments}x de {formatCurrency(p.totalAmount / p.installments)}</p>
+                            <p className="font-semibold">{formatCurrency(p.totalAmount, p.currency)}</p>
+                            <p className="text-xs text-muted-foreground">{p.installments}x de {formatCurrency(splitMoney(p.totalAmount, p.installments)[0], p.currency)}</p>
                             </div>
                             <Button variant="ghost" size="icon" onClick={() => handleOpenEditPurchaseModal(p)} disabled={!!isDeletingPurchaseId || !user} aria-label="Editar compra" className="h-8 w-8 text-primary hover:text-primary/80 shrink-0"><Edit3 className="h-4 w-4" /></Button>
+                            <Button variant="ghost" size="icon" onClick={() => setHistoryTarget({ entity: 'creditCardPurchases', id: p.id, title: p.description, currency: p.currency })} disabled={!user} aria-label="Histórico da compra" title="Histórico de alterações" className="h-8 w-8 shrink-0"><History className="h-4 w-4" /></Button>
                             <Button variant="ghost" size="icon" onClick={() => handleDeleteCardPurchase(p)} disabled={isDeletingPurchaseId === p.id || !user} aria-label="Excluir compra" className="h-8 w-8 text-destructive hover:text-destructive/80 shrink-0">
                             {isDeletingPurchaseId === p.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
                             </Button>
                         </div>
                         </div>
                         <p className="text-xs text-muted-foreground mt-1">Comprado em: {format(parseISO(p.date), 'dd/MM/yyyy', { locale: ptBR })}</p>
+                        {tagsOf(p, tags).length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                                {tagsOf(p, tags).map(tag => <Badge key={tag.id} variant="outline" className="text-xs font-normal">{tag.name}</Badge>)}
+                            </div>
+                        )}
                     </li>
                     ))}
                 </ul>
@@ -574,7 +636,7 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
                     <AccordionTrigger className="hover:no-underline">
                     <div className="flex justify-between w-full pr-2">
                         <span className="font-semibold text-base">{summary.monthYear.charAt(0).toUpperCase() + summary.monthYear.slice(1)}</span>
-                        <Badge variant="secondary" className="text-base">{formatCurrency(summary.totalAmount)}</Badge>
+                        <Badge variant="secondary" className="text-base">{formatCurrency(summary.totalAmount, baseCurrency)}</Badge>
                     </div>
                     </AccordionTrigger>
                     <AccordionContent>
@@ -584,10 +646,10 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
                             <div className="flex justify-between items-center">
                             <div>
                                 <p className="text-sm font-medium">{p.description}</p>
-                                <p className="text-xs text-muted-foreground">{p.category}</p>
+                                <p className="text-xs text-muted-foreground">{categoryLabel(p)}</p>
                             </div>
                             <div className="text-right">
-                                <p className="text-sm font-semibold">{formatCurrency(p.installmentAmount)}</p>
+                                <p className="text-sm font-semibold">{formatCurrency(p.installmentAmount, baseCurrency)}</p>
                                 <p className="text-xs text-muted-foreground">Parcela {p.currentInstallment}/{p.totalInstallments}</p>
                             </div>
                             </div>
@@ -609,6 +671,17 @@ export default function CreditCardDetailPage({ params }: CreditCardDetailPagePro
         </DialogContent>
       </Dialog>
 
+      {historyTarget && (
+        <RecordHistorySheet
+          entity={historyTarget.entity}
+          recordId={historyTarget.id}
+          title={historyTarget.title}
+          currency={historyTarget.currency}
+          open={!!historyTarget}
+          onOpenChange={(isOpen) => { if (!isOpen) setHistoryTarget(null); }}
+        />
+      )}
+
       <AlertDialog open={showDeletePurchaseConfirmDialog} onOpenChange={setShowDeletePurchaseConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader><AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle><AlertDialogDescription>Tem certeza que deseja excluir a compra "{purchaseToDelete?.description || 'selecionada'}"?</AlertDialogDescription></AlertDialogHeader>
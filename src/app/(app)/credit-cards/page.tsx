@@ -28,10 +28,14 @@ import { PlusCircle, CreditCardIcon as CreditCardLucideIcon, CalendarDays, Alert
 import { CreditCardForm } from "@/components/credit-cards/CreditCardForm";
 import { CreditCardTransactionForm } from "@/components/credit-cards/CreditCardTransactionForm";
 import { ImportCardInvoiceDialog } from "@/components/credit-cards/ImportCardInvoiceDialog";
-import { getCreditCardsForUser, getCreditCardPurchasesForUser, deleteCreditCardPurchase } from "@/lib/databaseService"; // deleteCreditCard might be removed if handled in detail page
-import type { CreditCard, CreditCardPurchase } from "@/types";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { getCreditCardsForUser, getCreditCardPurchasesForUser, deleteCreditCardPurchase, getExchangeRatesForUser } from "@/lib/databaseService"; // deleteCreditCard might be removed if handled in detail page
+import type { CreditCard, CreditCardPurchase, ExchangeRate } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, cn } from "@/lib/utils";
+import { addMoney, splitMoney, sumMoney } from "@/lib/money";
+import { categoryLabel, totalsByCategory } from "@/lib/splits";
+import { createCurrencyConverter, DEFAULT_CURRENCY } from "@/lib/currency";
 import { 
   format, 
   parseISO, 
@@ -85,6 +89,8 @@ export default function CreditCardsPage() {
   
   const [creditCards, setCreditCards] = useState<CreditCard[]>([]);
   const [purchases, setPurchases] = useState<CreditCardPurchase[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
   
   const [isLoadingCards, setIsLoadingCards] = useState(true);
   const [isLoadingPurchases, setIsLoadingPurchases] = useState(true);
@@ -141,6 +147,7 @@ export default function CreditCardsPage() {
       const data = await response.json();
       if (response.ok && data.success) {
         setPurchases(data.purchases);
+        setExchangeRates(await getExchangeRatesForUser(user.id));
       } else {
         throw new Error(data.message || "Falha ao carregar compras.");
       }
@@ -199,7 +206,7 @@ export default function CreditCardsPage() {
 
       purchasesOnThisCard.forEach(purchase => {
         const purchaseDate = parseISO(purchase.date);
-        const installmentAmount = purchase.totalAmount / purchase.installments;
+        const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
 
         for (let i = 0; i < purchase.installments; i++) {
           let billingCycleDateForInstallment = purchaseDate;
@@ -216,7 +223,7 @@ export default function CreditCardsPage() {
             installmentInvoiceClosingMonth === targetInvoiceClosingMonth &&
             installmentInvoiceClosingYear === targetInvoiceClosingYear
           ) {
-            invoiceTotal += installmentAmount;
+            invoiceTotal = addMoney(invoiceTotal, installmentAmounts[i]);
           }
         }
       });
@@ -225,16 +232,22 @@ export default function CreditCardsPage() {
     []
   );
 
+  // Invoices and summaries add purchases up in the base currency; the purchase list shows each one in its own.
+  const purchasesInBase = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    return purchases.map(p => ({ ...p, totalAmount: converter.toBase(p.totalAmount, p.currency, p.date) }));
+  }, [purchases, baseCurrency, exchangeRates]);
+
   const calculateMonthlySummaries = useCallback((): MonthlySummary[] => {
     const summaries: { [key: string]: MonthlySummary } = {}; 
-    if (!creditCards.length || !purchases.length) return [];
+    if (!creditCards.length || !purchasesInBase.length) return [];
 
-    purchases.forEach(purchase => {
+    purchasesInBase.forEach(purchase => {
       const card = creditCards.find(c => c.id === purchase.cardId);
       if (!card) return;
 
       const purchaseDate = parseISO(purchase.date);
-      const installmentAmount = purchase.totalAmount / purchase.installments;
+      const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
 
       for (let i = 0; i < purchase.installments; i++) {
         let paymentMonthDate = new Date(purchaseDate);
@@ -254,10 +267,10 @@ export default function CreditCardsPage() {
             purchases: [],
           };
         }
-        summaries[monthYearSortKey].totalAmount += installmentAmount;
+        summaries[monthYearSortKey].totalAmount = addMoney(summaries[monthYearSortKey].totalAmount, installmentAmounts[i]);
         summaries[monthYearSortKey].purchases.push({
           ...purchase,
-          installmentAmount,
+          installmentAmount: installmentAmounts[i],
           currentInstallment: i + 1,
           totalInstallments: purchase.installments,
         });
@@ -280,7 +293,7 @@ export default function CreditCardsPage() {
         const dateB = new Date(bYear, bMonthIndex, 1);
         return dateA.getTime() - dateB.getTime();
     });
-  }, [purchases, creditCards]);
+  }, [purchasesInBase, creditCards]);
 
   const allCalculatedSummaries = calculateMonthlySummaries();
 
@@ -334,7 +347,8 @@ export default function CreditCardsPage() {
       if (result.success) {
         toast({
           title: 'Compra Excluída!',
-          description: 'A compra do cartão de crédito foi excluída com sucesso.',
+          description: 'A compra do cartão de crédito foi movida para a Lixeira.',
+          action: <UndoDeleteAction userId={user.id} entity="creditCardPurchases" itemId={purchaseToDelete.id} onRestored={handlePurchaseUpserted} />,
         });
         handlePurchaseUpserted(); 
       } else {
@@ -364,12 +378,9 @@ export default function CreditCardsPage() {
     if (isLoadingPurchases || purchases.length === 0) {
       return [];
     }
-    const summary: Record<string, number> = purchases.reduce((acc, purchase) => {
-      acc[purchase.category] = (acc[purchase.category] || 0) + purchase.totalAmount;
-      return acc;
-    }, {} as Record<string, number>);
+    const summary = totalsByCategory(purchasesInBase, purchase => purchase.totalAmount);
 
-    const totalSpending = Object.values(summary).reduce((sum, amount) => sum + amount, 0);
+    const totalSpending = sumMoney(Object.values(summary));
 
     return Object.entries(summary)
       .map(([category, totalAmount]) => ({
@@ -378,7 +389,7 @@ export default function CreditCardsPage() {
         percentage: totalSpending > 0 ? (totalAmount / totalSpending) * 100 : 0,
       }))
       .sort((a, b) => b.totalAmount - a.totalAmount);
-  }, [purchases, isLoadingPurchases]);
+  }, [purchasesInBase, isLoadingPurchases]);
 
 
   if (authLoading) {
@@ -405,8 +416,8 @@ export default function CreditCardsPage() {
     const nextYear = getYear(nextMonthDate);
 
     return creditCards.map((card) => {
-      const currentInvoiceTotal = calculateInvoiceTotalForCardAndMonth(card, purchases, currentMonth, currentYear);
-      const nextInvoiceTotal = calculateInvoiceTotalForCardAndMonth(card, purchases, nextMonth, nextYear);
+      const currentInvoiceTotal = calculateInvoiceTotalForCardAndMonth(card, purchasesInBase, currentMonth, currentYear);
+      const nextInvoiceTotal = calculateInvoiceTotalForCardAndMonth(card, purchasesInBase, nextMonth, nextYear);
       
       const currentClosingDate = setDate(currentDate, card.closingDateDay);
       let nextClosingDate = addMonths(currentDate, 1);
@@ -431,14 +442,14 @@ export default function CreditCardsPage() {
                     <FileText className="mr-2 h-4 w-4 text-blue-500" />
                     <span>Fatura Atual (Fecha {format(currentClosingDate, 'dd/MM', { locale: ptBR })}):</span>
                 </div>
-                <span className="font-semibold text-blue-600">{formatCurrency(currentInvoiceTotal)}</span>
+                <span className="font-semibold text-blue-600">{formatCurrency(currentInvoiceTotal, baseCurrency)}</span>
                 </div>
                 <div className="flex items-center justify-between">
                 <div className="flex items-center text-sm text-muted-foreground">
                     <TrendingUp className="mr-2 h-4 w-4 text-green-500" />
                     <span>Próxima Fatura (Fecha {format(nextClosingDate, 'dd/MM', { locale: ptBR })}):</span>
                 </div>
-                <span className="font-semibold text-green-600">{formatCurrency(nextInvoiceTotal)}</span>
+                <span className="font-semibold text-green-600">{formatCurrency(nextInvoiceTotal, baseCurrency)}</span>
                 </div>
             </CardContent>
             </Card>
@@ -464,12 +475,12 @@ export default function CreditCardsPage() {
               <div className="flex justify-between items-start">
                 <div>
                   <p className="font-medium">{p.description}</p>
-                  <p className="text-xs text-muted-foreground">{p.category} - {cardName}</p>
+                  <p className="text-xs text-muted-foreground">{categoryLabel(p)} - {cardName}</p>
                 </div>
                 <div className="text-right flex flex-col items-end gap-1 sm:flex-row sm:items-center sm:gap-2">
                  <div>
-                    <p className="font-semibold">{formatCurrency(p.totalAmount)}</p>
-                    <p className="text-xs text-muted-foreground">{p.installments}x de {formatCurrency(p.totalAmount / p.installments)}</p>
+                    <p className="font-semibold">{formatCurrency(p.totalAmount, p.currency)}</p>
+                    <p className="text-xs text-muted-foreground">{p.installments}x de {formatCurrency(splitMoney(p.totalAmount, p.installments)[0], p.currency)}</p>
                   </div>
                   <Button
                     variant="ghost"
@@ -523,7 +534,7 @@ export default function CreditCardsPage() {
             <AccordionTrigger className="hover:no-underline">
               <div className="flex justify-between w-full pr-2">
                 <span className="font-semibold text-base">{summary.monthYear.charAt(0).toUpperCase() + summary.monthYear.slice(1)}</span>
-                <Badge variant="secondary" className="text-base">{formatCurrency(summary.totalAmount)}</Badge>
+                <Badge variant="secondary" className="text-base">{formatCurrency(summary.totalAmount, baseCurrency)}</Badge>
               </div>
             </AccordionTrigger>
             <AccordionContent>
@@ -534,11 +545,11 @@ export default function CreditCardsPage() {
                       <div>
                         <p className="text-sm font-medium">{p.description}</p>
                         <p className="text-xs text-muted-foreground">
-                          {creditCards.find(c => c.id === p.cardId)?.name || 'Cartão'} - {p.category}
+                          {creditCards.find(c => c.id === p.cardId)?.name || 'Cartão'} - {categoryLabel(p)}
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-semibold">{formatCurrency(p.installmentAmount)}</p>
+                        <p className="text-sm font-semibold">{formatCurrency(p.installmentAmount, baseCurrency)}</p>
                         <p className="text-xs text-muted-foreground">Parcela {p.currentInstallment}/{p.totalInstallments}</p>
                       </div>
                     </div>
@@ -567,7 +578,7 @@ export default function CreditCardsPage() {
               <div className="flex justify-between items-center mb-1">
                 <span className="font-medium truncate pr-2" title={item.category}>{item.category}</span>
                 <div className="flex items-baseline whitespace-nowrap">
-                  <span className="font-semibold">{formatCurrency(item.totalAmount)}</span>
+                  <span className="font-semibold">{formatCurrency(item.totalAmount, baseCurrency)}</span>
                   <span className="ml-1.5 text-xs text-muted-foreground">({item.percentage.toFixed(1)}%)</span>
                 </div>
               </div>
@@ -689,7 +700,7 @@ export default function CreditCardsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar Exclusão de Compra</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir a compra "{purchaseToDelete?.description || 'selecionada'}" no valor total de {formatCurrency(purchaseToDelete?.totalAmount || 0)}? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir a compra "{purchaseToDelete?.description || 'selecionada'}" no valor total de {formatCurrency(purchaseToDelete?.totalAmount || 0, purchaseToDelete?.currency)}? Ela ficará na Lixeira, de onde pode ser restaurada.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
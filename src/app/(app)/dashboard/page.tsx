@@ -15,9 +15,17 @@ import {
 } from "@/components/ui/dialog";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { DollarSign, CreditCardIcon, TrendingUp, TrendingDown, Sun, AlertTriangleIcon, SearchX, ChevronLeft, ChevronRight, CalendarClock, PlusCircle, ShoppingBag, ListChecks, Clock, CheckCircle2, Minus, Info } from "lucide-react";
-import { getTransactionsForUser, getCreditCardsForUser, getCreditCardPurchasesForUser, getLoansForUser } from '@/lib/databaseService';
-import type { Transaction, CreditCard, CreditCardPurchase, Loan } from '@/types';
+import { getTransactionsForUser, getCreditCardsForUser, getCreditCardPurchasesForUser, getLoansForUser, getExchangeRatesForUser, getAccountsForUser, getCategoriesForUser, getRecurrenceOccurrencesForUser } from '@/lib/databaseService';
+import type { Transaction, CreditCard, CreditCardPurchase, Loan, UserCategory, OccurrenceStatus } from '@/types';
 import { formatCurrency, cn } from "@/lib/utils";
+import { addMoney, splitMoney, subtractMoney } from "@/lib/money";
+import { categoryLines } from "@/lib/splits";
+import { projectOccurrences } from "@/lib/recurrence";
+import { categoryPath, findCategory } from "@/lib/categories";
+import { CategoryIcon } from "@/components/categories/CategoryIcon";
+import { EnvelopesCard } from "@/components/budgets/EnvelopesCard";
+import { ForecastChart } from "@/components/forecast/ForecastChart";
+import { createCurrencyConverter, DEFAULT_CURRENCY } from "@/lib/currency";
 import {
   startOfMonth,
   endOfMonth,
@@ -31,8 +39,6 @@ import {
   format as formatDateFns,
   isSameMonth,
   isSameYear,
-  addWeeks,
-  addYears,
   isBefore,
   isAfter,
   isSameDay,
@@ -40,7 +46,7 @@ import {
   lastDayOfMonth,
   addDays,
   setDate,
-  endOfDay, // Added for precision in some interval checks
+  min,
 } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useAuth } from '@/contexts/AuthContext';
@@ -76,6 +82,14 @@ interface DailyTransactionSummary {
 interface ProjectedTransaction extends Transaction {
   projectedDate: Date;
   isPast: boolean;
+  occurrenceStatus?: OccurrenceStatus; // Recurring transactions only; card bills and loan installments have none
+}
+
+/** A movement shown on the calendar: a transaction, or an occurrence of a recurring one. */
+interface CalendarEntry {
+  type: Transaction['type'];
+  date: string; // 'yyyy-MM-dd'
+  amount: number;
 }
 
 export default function DashboardPage() {
@@ -87,9 +101,13 @@ export default function DashboardPage() {
   const [expensesByCategory, setExpensesByCategory] = useState<CategoryExpense[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [allUserTransactions, setAllUserTransactions] = useState<Transaction[]>([]);
+  const [calendarEntries, setCalendarEntries] = useState<CalendarEntry[]>([]);
   const [projectedTransactionsForMonth, setProjectedTransactionsForMonth] = useState<ProjectedTransaction[]>([]);
   const [userCreditCards, setUserCreditCards] = useState<CreditCard[]>([]);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
   const [spendingPaceAlert, setSpendingPaceAlert] = useState<{ message: string; type: 'warning' | 'info' } | null>(null);
+  const [currenciesWithoutRate, setCurrenciesWithoutRate] = useState<string[]>([]);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
 
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
   const [isCreditCardPurchaseModalOpen, setIsCreditCardPurchaseModalOpen] = useState(false);
@@ -98,21 +116,22 @@ export default function DashboardPage() {
 
   const dailyTransactionSummaries = useMemo(() => {
     const summaries: Map<string, DailyTransactionSummary> = new Map();
-    if (!allUserTransactions.length) return summaries;
+    if (!calendarEntries.length) return summaries;
 
-    allUserTransactions.forEach(tx => {
-      const dateKey = formatDateFns(parseISO(tx.date), 'yyyy-MM-dd');
+    calendarEntries.forEach(tx => {
+      if (tx.type === 'transfer') return; // Neither income nor expense
+      const dateKey = tx.date;
       const daySummary = summaries.get(dateKey) || { income: 0, expense: 0, net: 0 };
       if (tx.type === 'income') {
-        daySummary.income += tx.amount;
+        daySummary.income = addMoney(daySummary.income, tx.amount);
       } else {
-        daySummary.expense += tx.amount;
+        daySummary.expense = addMoney(daySummary.expense, tx.amount);
       }
       daySummary.net = daySummary.income - daySummary.expense;
       summaries.set(dateKey, daySummary);
     });
     return summaries;
-  }, [allUserTransactions]);
+  }, [calendarEntries]);
 
   const calendarModifiers = useMemo(() => {
     const daysWithNetIncome: Date[] = [];
@@ -186,9 +205,9 @@ export default function DashboardPage() {
         {daySummary && (
           <PopoverContent className="w-auto text-sm p-3 space-y-1 shadow-lg rounded-md border bg-popover text-popover-foreground">
             <p className="font-semibold text-center border-b pb-1 mb-1">{formatDateFns(props.date, 'PPP', { locale: ptBR })}</p>
-            {daySummary.income > 0 && <p className="flex justify-between items-center"><TrendingUp className="h-4 w-4 mr-1 text-positive" /> Receitas: <span className="font-medium text-positive">{formatCurrency(daySummary.income)}</span></p>}
-            {daySummary.expense > 0 && <p className="flex justify-between items-center"><TrendingDown className="h-4 w-4 mr-1 text-negative" /> Despesas: <span className="font-medium text-negative">{formatCurrency(daySummary.expense)}</span></p>}
-            <p className="flex justify-between items-center pt-1 border-t mt-1"><DollarSign className="h-4 w-4 mr-1 text-primary"/> Saldo do Dia: <span className={`font-bold ${daySummary.net > 0 ? 'text-positive' : daySummary.net < 0 ? 'text-negative' : 'text-foreground'}`}>{formatCurrency(daySummary.net)}</span></p>
+            {daySummary.income > 0 && <p className="flex justify-between items-center"><TrendingUp className="h-4 w-4 mr-1 text-positive" /> Receitas: <span className="font-medium text-positive">{formatCurrency(daySummary.income, baseCurrency)}</span></p>}
+            {daySummary.expense > 0 && <p className="flex justify-between items-center"><TrendingDown className="h-4 w-4 mr-1 text-negative" /> Despesas: <span className="font-medium text-negative">{formatCurrency(daySummary.expense, baseCurrency)}</span></p>}
+            <p className="flex justify-between items-center pt-1 border-t mt-1"><DollarSign className="h-4 w-4 mr-1 text-primary"/> Saldo do Dia: <span className={`font-bold ${daySummary.net > 0 ? 'text-positive' : daySummary.net < 0 ? 'text-negative' : 'text-foreground'}`}>{formatCurrency(daySummary.net, baseCurrency)}</span></p>
           </PopoverContent>
         )}
       </Popover>
@@ -208,7 +227,7 @@ export default function DashboardPage() {
 
       purchasesOnThisCard.forEach(purchase => {
         const purchaseDate = parseISO(purchase.date); 
-        const installmentAmount = purchase.totalAmount / purchase.installments;
+        const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
 
         for (let i = 0; i < purchase.installments; i++) {
           let billingCycleDateForInstallment = purchaseDate; 
@@ -225,7 +244,7 @@ export default function DashboardPage() {
             installmentInvoiceClosingMonth === targetInvoiceClosingMonth &&
             installmentInvoiceClosingYear === targetInvoiceClosingYear
           ) {
-            invoiceTotal += installmentAmount;
+            invoiceTotal = addMoney(invoiceTotal, installmentAmounts[i]);
           }
         }
       });
@@ -234,82 +253,6 @@ export default function DashboardPage() {
     []
   );
 
-  const getProjectedOccurrences = useCallback((transaction: Transaction, periodStart: Date, periodEnd: Date): Date[] => {
-    const occurrences: Date[] = [];
-    const originalDate = parseISO(transaction.date);
-
-    if (!transaction.recurrenceFrequency || transaction.recurrenceFrequency === 'none') {
-      if (isWithinInterval(originalDate, { start: periodStart, end: endOfDay(periodEnd) })) { // Use endOfDay for periodEnd
-        occurrences.push(originalDate);
-      }
-      return occurrences;
-    }
-
-    let currentDate = originalDate;
-
-    if (transaction.recurrenceFrequency !== 'none') {
-        while (isBefore(currentDate, periodStart) && isBefore(currentDate, addYears(periodEnd,1))) { 
-            const nextDate = new Date(currentDate);
-            let advanced = false;
-            switch (transaction.recurrenceFrequency) {
-                case 'monthly':
-                    currentDate = addMonths(nextDate, 1);
-                    const dayOfMonth = getDate(originalDate);
-                    const lastDay = getDate(lastDayOfMonth(currentDate));
-                    currentDate = new Date(getYear(currentDate), getMonth(currentDate), Math.min(dayOfMonth, lastDay));
-                    advanced = true;
-                    break;
-                case 'weekly':
-                    currentDate = addWeeks(nextDate, 1);
-                    advanced = true;
-                    break;
-                case 'annually':
-                    currentDate = addYears(nextDate, 1);
-                    const annualDay = getDate(originalDate);
-                    const annualMonth = getMonth(originalDate);
-                    currentDate = new Date(getYear(currentDate), annualMonth, Math.min(annualDay, getDate(lastDayOfMonth(currentDate))));
-                    advanced = true;
-                    break;
-            }
-             if (!advanced || (currentDate <= nextDate && transaction.recurrenceFrequency !== 'none')) { 
-                break;
-            }
-        }
-    }
-
-
-    while (isBefore(currentDate, endOfDay(periodEnd)) || isSameDay(currentDate, periodEnd)) { // Use endOfDay
-      if (isWithinInterval(currentDate, { start: periodStart, end: endOfDay(periodEnd) })) {
-        occurrences.push(new Date(currentDate)); 
-      }
-
-      const prevIterDate = new Date(currentDate);
-      switch (transaction.recurrenceFrequency) {
-        case 'monthly':
-          currentDate = addMonths(currentDate, 1);
-          const dayOfMonth = getDate(originalDate);
-          const lastDay = getDate(lastDayOfMonth(currentDate));
-          currentDate = new Date(getYear(currentDate), getMonth(currentDate), Math.min(dayOfMonth, lastDay));
-          break;
-        case 'weekly':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case 'annually':
-          currentDate = addYears(currentDate, 1);
-          const annualDay = getDate(originalDate);
-          const annualMonth = getMonth(originalDate);
-          currentDate = new Date(getYear(currentDate), annualMonth, Math.min(annualDay, getDate(lastDayOfMonth(currentDate))));
-          break;
-        default: 
-          return occurrences; 
-      }
-       if (currentDate <= prevIterDate) break; 
-       if (occurrences.length > 200) break; 
-    }
-    return occurrences;
-  }, []);
-
-
   const fetchDashboardData = useCallback(async () => {
     if (!user) {
       setIsLoading(false);
@@ -322,19 +265,43 @@ export default function DashboardPage() {
     setSpendingPaceAlert(null);
 
     try {
-      const [fetchedTransactions, fetchedCreditCards, creditCardPurchases, loans] = await Promise.all([
+      const [rawTransactions, fetchedCreditCards, rawPurchases, rawLoans, exchangeRates, accounts, userCategories, occurrenceStates] = await Promise.all([
         getTransactionsForUser(user.id),
         getCreditCardsForUser(user.id),
         getCreditCardPurchasesForUser(user.id),
         getLoansForUser(user.id),
+        getExchangeRatesForUser(user.id),
+        getAccountsForUser(user.id),
+        getCategoriesForUser(user.id),
+        getRecurrenceOccurrencesForUser(user.id),
       ]);
+      setCategories(userCategories);
+      // Everything below works in the base currency; loans have no currency of their own and are in reais.
+      const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+      const fetchedTransactions = rawTransactions.map(tx => ({ ...tx, amount: converter.toBase(tx.amount, tx.currency, tx.date) }));
+      const creditCardPurchases = rawPurchases.map(p => ({ ...p, totalAmount: converter.toBase(p.totalAmount, p.currency, p.date) }));
+      const loans = rawLoans.map(loan => ({ ...loan, installmentAmount: converter.toBase(loan.installmentAmount, DEFAULT_CURRENCY) }));
+      // Money already in the accounts before their first recorded transaction.
+      const openingBalances = accounts.map(account => converter.toBase(account.openingBalance, account.currency));
+      setCurrenciesWithoutRate([...converter.missing]);
       setAllUserTransactions(fetchedTransactions);
       setUserCreditCards(fetchedCreditCards);
 
-      let baseLifetimeBalance = 0;
+      // Occurrences that were not skipped, on the date they were paid on or moved to; amounts
+      // paid or adjusted in the transaction's currency are converted like the transaction's own.
+      const occurrencesOf = (tx: Transaction, from: Date, to: Date) =>
+        projectOccurrences(tx, occurrenceStates, from, to)
+          .filter(occurrence => occurrence.status !== 'skipped')
+          .map(occurrence => occurrence.state?.amount != null
+            ? { ...occurrence, amount: converter.toBase(occurrence.state.amount, tx.currency, tx.date) }
+            : occurrence);
+      const isRecurring = (tx: Transaction) => !!tx.recurrenceFrequency && tx.recurrenceFrequency !== 'none';
+
+      let baseLifetimeBalance = addMoney(...openingBalances);
       fetchedTransactions.forEach(tx => {
-        if (tx.type === 'income') baseLifetimeBalance += tx.amount;
-        else baseLifetimeBalance -= tx.amount;
+        // Transfers between accounts keep the money in the balance; into investments and goals they take it out.
+        if (tx.type === 'income') baseLifetimeBalance = addMoney(baseLifetimeBalance, tx.amount);
+        else if (tx.type === 'expense' || tx.transferTo !== 'account') baseLifetimeBalance = subtractMoney(baseLifetimeBalance, tx.amount);
       });
 
       const selectedMonthStart = startOfMonth(selectedDate);
@@ -351,30 +318,42 @@ export default function DashboardPage() {
       const previousSelectedMonthEnd = endOfMonth(subMonths(selectedDate, 1));
 
       fetchedTransactions.forEach(tx => {
-        const occurrencesSelectedMonth = getProjectedOccurrences(tx, selectedMonthStart, selectedMonthEnd);
-        occurrencesSelectedMonth.forEach(occDate => {
+        const occurrencesSelectedMonth = occurrencesOf(tx, selectedMonthStart, selectedMonthEnd);
+        occurrencesSelectedMonth.forEach(occurrence => {
           if (tx.type === 'income') {
-            projectedMonthIncome += tx.amount;
-          } else {
-            projectedMonthExpenses += tx.amount;
-            selectedMonthExpensesByCategory[tx.category] = (selectedMonthExpensesByCategory[tx.category] || 0) + tx.amount;
+            projectedMonthIncome = addMoney(projectedMonthIncome, occurrence.amount);
+          } else if (tx.type === 'expense') {
+            projectedMonthExpenses = addMoney(projectedMonthExpenses, occurrence.amount);
+            categoryLines(tx, occurrence.amount).forEach(line => {
+              selectedMonthExpensesByCategory[line.category] = addMoney(selectedMonthExpensesByCategory[line.category] || 0, line.amount);
+            });
           }
-          if (tx.recurrenceFrequency && tx.recurrenceFrequency !== 'none') {
+          if (isRecurring(tx)) {
              currentProjectedTransactions.push({
                 ...tx,
-                projectedDate: occDate,
-                isPast: isBefore(occDate, today) && !isSameDay(occDate, today),
+                amount: occurrence.amount,
+                projectedDate: occurrence.date,
+                isPast: isBefore(occurrence.date, today) && !isSameDay(occurrence.date, today),
+                occurrenceStatus: occurrence.status,
             });
           }
         });
 
         if (tx.type === 'expense') {
-            const occurrencesPreviousMonth = getProjectedOccurrences(tx, previousSelectedMonthStart, previousSelectedMonthEnd);
-            occurrencesPreviousMonth.forEach(_ => { 
-                previousMonthExpensesByCategory[tx.category] = (previousMonthExpensesByCategory[tx.category] || 0) + tx.amount;
+            const occurrencesPreviousMonth = occurrencesOf(tx, previousSelectedMonthStart, previousSelectedMonthEnd);
+            occurrencesPreviousMonth.forEach(occurrence => {
+                categoryLines(tx, occurrence.amount).forEach(line => {
+                  previousMonthExpensesByCategory[line.category] = addMoney(previousMonthExpensesByCategory[line.category] || 0, line.amount);
+                });
             });
         }
       });
+
+      // The calendar shows what already happened: recurring transactions on each occurrence of the month up to today.
+      setCalendarEntries(fetchedTransactions.flatMap((tx): CalendarEntry[] => isRecurring(tx)
+        ? occurrencesOf(tx, selectedMonthStart, min([selectedMonthEnd, today]))
+            .map(occurrence => ({ type: tx.type, date: formatDateFns(occurrence.date, 'yyyy-MM-dd'), amount: occurrence.amount }))
+        : [{ type: tx.type, date: formatDateFns(parseISO(tx.date), 'yyyy-MM-dd'), amount: tx.amount }]));
       
       fetchedCreditCards.forEach(card => {
         const prevMonthForClosing = subMonths(selectedDate, 1); 
@@ -478,12 +457,12 @@ export default function DashboardPage() {
       const targetPrevMonthClosingYear = getYear(monthBeforeSelected);
       let ccBillsClosedLastMonthForSelected = 0;
       fetchedCreditCards.forEach(card => {
-        ccBillsClosedLastMonthForSelected += calculateInvoiceTotalForCardAndMonth(
+        ccBillsClosedLastMonthForSelected = addMoney(ccBillsClosedLastMonthForSelected, calculateInvoiceTotalForCardAndMonth(
           card,
           creditCardPurchases,
           targetPrevMonthClosingMonth,
           targetPrevMonthClosingYear
-        );
+        ));
       });
 
       let loanPaymentsForSelectedMonth = 0;
@@ -501,7 +480,7 @@ export default function DashboardPage() {
                 const paymentDateForThisInstallment = new Date(getYear(installmentBaseDate), getMonth(installmentBaseDate), actualPaymentDayInInstallmentMonth);
 
                 if (isSameMonth(paymentDateForThisInstallment, selectedDate) && isSameYear(paymentDateForThisInstallment, selectedDate)) {
-                    loanPaymentsForSelectedMonth += loan.installmentAmount;
+                    loanPaymentsForSelectedMonth = addMoney(loanPaymentsForSelectedMonth, loan.installmentAmount);
                     break; 
                 }
                 if (isAfter(paymentDateForThisInstallment, selectedMonthEnd) && getMonth(paymentDateForThisInstallment) > getMonth(selectedDate)) break;
@@ -509,19 +488,19 @@ export default function DashboardPage() {
         }
       });
 
-      const totalSelectedMonthExpensesWithLoansAndOldCC = projectedMonthExpenses + ccBillsClosedLastMonthForSelected + loanPaymentsForSelectedMonth;
+      const totalSelectedMonthExpensesWithLoansAndOldCC = addMoney(projectedMonthExpenses, ccBillsClosedLastMonthForSelected, loanPaymentsForSelectedMonth);
 
 
       let cardSpendingForSelectedMonthBills = 0; 
       const targetSelectedMonthClosingMonth = getMonth(selectedDate);
       const targetSelectedMonthClosingYear = getYear(selectedDate);
       fetchedCreditCards.forEach(card => {
-        cardSpendingForSelectedMonthBills += calculateInvoiceTotalForCardAndMonth(
+        cardSpendingForSelectedMonthBills = addMoney(cardSpendingForSelectedMonthBills, calculateInvoiceTotalForCardAndMonth(
           card,
           creditCardPurchases,
           targetSelectedMonthClosingMonth,
           targetSelectedMonthClosingYear
-        );
+        ));
       });
 
       // Calculate for "Saldo Atual (Real)" card - based on actual current month
@@ -544,7 +523,7 @@ export default function DashboardPage() {
                 const paymentDateForThisInstallment = new Date(getYear(installmentBaseDate), getMonth(installmentBaseDate), actualPaymentDayInInstallmentMonth);
 
                 if (isSameMonth(paymentDateForThisInstallment, actualCurrentDate) && isSameYear(paymentDateForThisInstallment, actualCurrentDate)) {
-                    loanPaymentsDueInActualCurrentMonth += loan.installmentAmount;
+                    loanPaymentsDueInActualCurrentMonth = addMoney(loanPaymentsDueInActualCurrentMonth, loan.installmentAmount);
                     break; 
                 }
                 if (isAfter(paymentDateForThisInstallment, actualCurrentMonthEnd) && getMonth(paymentDateForThisInstallment) > getMonth(actualCurrentDate)) break;
@@ -557,26 +536,25 @@ export default function DashboardPage() {
       const actualPreviousMonthClosingYear = getYear(actualPreviousMonth);
       let ccBillsClosedPreviousActualMonth = 0;
       fetchedCreditCards.forEach(card => {
-        ccBillsClosedPreviousActualMonth += calculateInvoiceTotalForCardAndMonth(
+        ccBillsClosedPreviousActualMonth = addMoney(ccBillsClosedPreviousActualMonth, calculateInvoiceTotalForCardAndMonth(
             card,
             creditCardPurchases,
             actualPreviousMonthClosingMonth,
             actualPreviousMonthClosingYear
-        );
+        ));
       });
 
       let directRecurringExpensesForActualCurrentMonth = 0;
       fetchedTransactions.forEach(tx => {
-        if (tx.type === 'expense' && tx.recurrenceFrequency && tx.recurrenceFrequency !== 'none') {
-          const occurrences = getProjectedOccurrences(tx, actualCurrentMonthStart, actualCurrentMonthEnd);
-          occurrences.forEach(() => {
-            directRecurringExpensesForActualCurrentMonth += tx.amount;
+        if (tx.type === 'expense' && isRecurring(tx)) {
+          occurrencesOf(tx, actualCurrentMonthStart, actualCurrentMonthEnd).forEach(occurrence => {
+            directRecurringExpensesForActualCurrentMonth = addMoney(directRecurringExpensesForActualCurrentMonth, occurrence.amount);
           });
         }
       });
 
       setSummary({
-        balance: baseLifetimeBalance - loanPaymentsDueInActualCurrentMonth - ccBillsClosedPreviousActualMonth - directRecurringExpensesForActualCurrentMonth,
+        balance: subtractMoney(baseLifetimeBalance, loanPaymentsDueInActualCurrentMonth, ccBillsClosedPreviousActualMonth, directRecurringExpensesForActualCurrentMonth),
         selectedMonthIncome: projectedMonthIncome,
         selectedMonthExpenses: totalSelectedMonthExpensesWithLoansAndOldCC,
         selectedMonthCardSpending: cardSpendingForSelectedMonthBills,
@@ -596,14 +574,14 @@ export default function DashboardPage() {
         fetchedTransactions.forEach(tx => {
           const txDate = parseISO(tx.date);
           if (tx.type === 'expense' && isWithinInterval(txDate, { start: currentPeriodStart, end: currentPeriodEnd }) && (!tx.recurrenceFrequency || tx.recurrenceFrequency === 'none')) {
-            currentMonthPaceExpenses += tx.amount;
+            currentMonthPaceExpenses = addMoney(currentMonthPaceExpenses, tx.amount);
           }
         });
         let ccSpendingCurrentPace = 0;
         fetchedCreditCards.forEach(card => {
           creditCardPurchases.filter(p => p.cardId === card.id).forEach(purchase => {
             const purchaseDate = parseISO(purchase.date);
-            const installmentAmount = purchase.totalAmount / purchase.installments;
+            const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
             let firstBillCycleDate = purchaseDate;
             if (getDate(purchaseDate) > card.closingDateDay) {
                 firstBillCycleDate = addMonths(purchaseDate, 1);
@@ -613,27 +591,27 @@ export default function DashboardPage() {
                 const installmentBillCycleDate = addMonths(firstBillCycleDate, i);
                 if (getMonth(installmentBillCycleDate) === getMonth(currentPeriodStart) && getYear(installmentBillCycleDate) === getYear(currentPeriodStart)) {
                     if(isWithinInterval(purchaseDate, {start: currentPeriodStart, end: currentPeriodEnd})) {
-                         ccSpendingCurrentPace += installmentAmount;
+                         ccSpendingCurrentPace = addMoney(ccSpendingCurrentPace, installmentAmounts[i]);
                     }
                 }
             }
           });
         });
-        currentMonthPaceExpenses += ccSpendingCurrentPace;
+        currentMonthPaceExpenses = addMoney(currentMonthPaceExpenses, ccSpendingCurrentPace);
 
 
         let prevMonthPaceExpenses = 0;
         fetchedTransactions.forEach(tx => {
           const txDate = parseISO(tx.date);
           if (tx.type === 'expense' && isWithinInterval(txDate, { start: prevMonthPeriodStart, end: prevMonthPeriodEnd }) && (!tx.recurrenceFrequency || tx.recurrenceFrequency === 'none')) {
-            prevMonthPaceExpenses += tx.amount;
+            prevMonthPaceExpenses = addMoney(prevMonthPaceExpenses, tx.amount);
           }
         });
         let ccSpendingPrevPace = 0;
          fetchedCreditCards.forEach(card => {
           creditCardPurchases.filter(p => p.cardId === card.id).forEach(purchase => {
             const purchaseDate = parseISO(purchase.date);
-            const installmentAmount = purchase.totalAmount / purchase.installments;
+            const installmentAmounts = splitMoney(purchase.totalAmount, purchase.installments);
             let firstBillCycleDate = purchaseDate;
             if (getDate(purchaseDate) > card.closingDateDay) {
                 firstBillCycleDate = addMonths(purchaseDate, 1);
@@ -642,25 +620,25 @@ export default function DashboardPage() {
                 const installmentBillCycleDate = addMonths(firstBillCycleDate, i);
                  if (getMonth(installmentBillCycleDate) === getMonth(prevMonthPeriodStart) && getYear(installmentBillCycleDate) === getYear(prevMonthPeriodStart)) {
                      if(isWithinInterval(purchaseDate, {start: prevMonthPeriodStart, end: prevMonthPeriodEnd})) {
-                        ccSpendingPrevPace += installmentAmount;
+                        ccSpendingPrevPace = addMoney(ccSpendingPrevPace, installmentAmounts[i]);
                      }
                 }
             }
           });
         });
-        prevMonthPaceExpenses += ccSpendingPrevPace;
+        prevMonthPaceExpenses = addMoney(prevMonthPaceExpenses, ccSpendingPrevPace);
 
 
         if (prevMonthPaceExpenses > 0 && currentMonthPaceExpenses > (prevMonthPaceExpenses * 1.3)) {
           const percentageIncrease = ((currentMonthPaceExpenses - prevMonthPaceExpenses) / prevMonthPaceExpenses) * 100;
           setSpendingPaceAlert({
-            message: `Suas despesas até o dia ${daysIntoMonth} deste mês (${formatCurrency(currentMonthPaceExpenses)}) estão ${percentageIncrease.toFixed(0)}% maiores que no mesmo período do mês passado (${formatCurrency(prevMonthPaceExpenses)}).`,
+            message: `Suas despesas até o dia ${daysIntoMonth} deste mês (${formatCurrency(currentMonthPaceExpenses, baseCurrency)}) estão ${percentageIncrease.toFixed(0)}% maiores que no mesmo período do mês passado (${formatCurrency(prevMonthPaceExpenses, baseCurrency)}).`,
             type: 'warning',
           });
         } else if (prevMonthPaceExpenses > 0 && currentMonthPaceExpenses < (prevMonthPaceExpenses * 0.7) && currentMonthPaceExpenses > 0) {
            const percentageDecrease = ((prevMonthPaceExpenses - currentMonthPaceExpenses) / prevMonthPaceExpenses) * 100;
            setSpendingPaceAlert({
-            message: `Bom trabalho! Suas despesas até o dia ${daysIntoMonth} deste mês (${formatCurrency(currentMonthPaceExpenses)}) estão ${percentageDecrease.toFixed(0)}% menores que no mesmo período do mês passado (${formatCurrency(prevMonthPaceExpenses)}).`,
+            message: `Bom trabalho! Suas despesas até o dia ${daysIntoMonth} deste mês (${formatCurrency(currentMonthPaceExpenses, baseCurrency)}) estão ${percentageDecrease.toFixed(0)}% menores que no mesmo período do mês passado (${formatCurrency(prevMonthPaceExpenses, baseCurrency)}).`,
             type: 'info',
           });
         }
@@ -674,7 +652,7 @@ export default function DashboardPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [calculateInvoiceTotalForCardAndMonth, selectedDate, user, getProjectedOccurrences]);
+  }, [calculateInvoiceTotalForCardAndMonth, selectedDate, user, baseCurrency]);
 
   useEffect(() => {
     if (user && !authLoading) {
@@ -696,7 +674,7 @@ export default function DashboardPage() {
       const tomorrow = addDays(today, 1);
 
       const upcomingForTomorrow = projectedTransactionsForMonth.filter(tx =>
-        !tx.isPast && isSameDay(startOfDay(tx.projectedDate), tomorrow)
+        !tx.isPast && tx.occurrenceStatus !== 'paid' && isSameDay(startOfDay(tx.projectedDate), tomorrow)
       );
 
       if (upcomingForTomorrow.length > 0) {
@@ -714,7 +692,7 @@ export default function DashboardPage() {
                     <div className="flex items-start gap-2">
                     <CalendarClock className="h-5 w-5 text-primary mt-0.5" />
                     <span>
-                        {tx.description || tx.category} ({formatCurrency(tx.amount)}) está agendada para amanhã, {formatDateFns(tx.projectedDate, 'dd/MM/yyyy', { locale: ptBR })}.
+                        {tx.description || tx.category} ({formatCurrency(tx.amount, baseCurrency)}) está agendada para amanhã, {formatDateFns(tx.projectedDate, 'dd/MM/yyyy', { locale: ptBR })}.
                     </span>
                     </div>
                 ),
@@ -879,6 +857,16 @@ export default function DashboardPage() {
         </Alert>
       )}
 
+      {currenciesWithoutRate.length > 0 && (
+        <Alert variant="warning" className="mb-6 shadow-md">
+          <AlertTriangleIcon className="h-5 w-5" />
+          <AlertTitle className="font-semibold">Cotação não cadastrada</AlertTitle>
+          <AlertDescription>
+            Registros em {currenciesWithoutRate.join(', ')} ficaram fora dos totais por falta de cotação para {baseCurrency}. <Link href="/settings" className="underline">Cadastre as cotações em Configurações.</Link>
+          </AlertDescription>
+        </Alert>
+      )}
+
 
       <div className="grid grid-cols-2 gap-4 md:grid-cols-2 lg:grid-cols-4">
         {summaryCardsData.map((cardItem) => {
@@ -890,7 +878,7 @@ export default function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <div className={`text-2xl font-bold ${cardItem.color || ''}`}>
-                  {cardItem.currency ? formatCurrency(cardItem.value) : `${cardItem.value.toFixed(2)}${cardItem.unit || ''}`}
+                  {cardItem.currency ? formatCurrency(cardItem.value, baseCurrency) : `${cardItem.value.toFixed(2)}${cardItem.unit || ''}`}
                 </div>
               </CardContent>
             </Card>
@@ -920,12 +908,15 @@ export default function DashboardPage() {
                   {expensesByCategory.map((expense) => (
                     <li key={expense.category} className="py-2 border-b last:border-b-0">
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-foreground truncate pr-2" title={expense.category}>{expense.category}</span>
-                        <span className="text-sm font-semibold text-negative whitespace-nowrap">{formatCurrency(expense.total)}</span>
+                        <span className="flex items-center gap-2 text-sm text-foreground truncate pr-2" title={categoryPath(expense.category, categories)}>
+                          <CategoryIcon category={findCategory(categories, expense.category)} />
+                          {categoryPath(expense.category, categories)}
+                        </span>
+                        <span className="text-sm font-semibold text-negative whitespace-nowrap">{formatCurrency(expense.total, baseCurrency)}</span>
                       </div>
                       {expense.previousMonthTotal !== undefined && (
                         <div className="flex justify-between items-center text-xs mt-0.5">
-                          <span className="text-muted-foreground">Mês Anterior: {formatCurrency(expense.previousMonthTotal)}</span>
+                          <span className="text-muted-foreground">Mês Anterior: {formatCurrency(expense.previousMonthTotal, baseCurrency)}</span>
                            {expense.percentageChange !== undefined && expense.percentageChange !== Infinity && (
                             <span className={cn(
                               "font-medium flex items-center",
@@ -987,12 +978,19 @@ export default function DashboardPage() {
                                 "text-sm font-semibold mr-2 whitespace-nowrap",
                                 tx.type === 'income' ? 'text-positive' : 'text-negative'
                             )}>
-                            {tx.type === 'income' ? '+' : '-'} {formatCurrency(tx.amount)}
+                            {tx.type === 'income' ? '+' : '-'} {formatCurrency(tx.amount, baseCurrency)}
                             </span>
-                            <Badge variant={tx.isPast ? "outline" : "default"} className={cn("text-xs h-6 px-2 py-0.5", tx.isPast ? "border-yellow-500 text-yellow-600 bg-yellow-50 dark:text-yellow-400 dark:bg-yellow-900/30" : "bg-blue-500 text-white")}>
-                                {tx.isPast ? <CheckCircle2 className="h-3.5 w-3.5 mr-1" /> : <Clock className="h-3.5 w-3.5 mr-1" />}
-                                {tx.isPast ? 'Ocorrida' : 'Agendada'}
-                            </Badge>
+                            {tx.occurrenceStatus === 'paid' ? (
+                              <Badge variant="outline" className="text-xs h-6 px-2 py-0.5 border-green-500 text-green-700 bg-green-50 dark:text-green-300 dark:bg-green-900/30">
+                                  <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                                  Pago
+                              </Badge>
+                            ) : (
+                              <Badge variant={tx.isPast ? "outline" : "default"} className={cn("text-xs h-6 px-2 py-0.5", tx.isPast ? "border-yellow-500 text-yellow-600 bg-yellow-50 dark:text-yellow-400 dark:bg-yellow-900/30" : "bg-blue-500 text-white")}>
+                                  {tx.isPast ? <CheckCircle2 className="h-3.5 w-3.5 mr-1" /> : <Clock className="h-3.5 w-3.5 mr-1" />}
+                                  {tx.isPast ? 'Ocorrida' : 'Agendada'}
+                              </Badge>
+                            )}
                         </div>
                         </li>
                     ))}
@@ -1010,6 +1008,12 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {user?.envelopeStartMonth && (
+        <EnvelopesCard userId={user.id} startMonth={user.envelopeStartMonth} month={formatDateFns(selectedDate, 'yyyy-MM')} baseCurrency={baseCurrency} />
+      )}
+
+      {user && <ForecastChart refreshKey={allUserTransactions} />}
+
       <Card className="shadow-lg">
           <CardHeader>
             <CardTitle className="font-headline">Calendário Financeiro (Transações Reais)</CardTitle>
@@ -23,8 +23,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { PlusCircle, Edit3, Trash2, Sun, AlertTriangleIcon, SearchX, Target as TargetIcon, PiggyBank, TrendingUp, Flag, CheckCircle2, XCircle, CalendarClock } from "lucide-react";
+import { PlusCircle, Edit3, Trash2, Sun, AlertTriangleIcon, SearchX, Target as TargetIcon, PiggyBank, TrendingUp, Flag, CheckCircle2, XCircle, CalendarClock, History } from "lucide-react";
 import { FinancialGoalForm } from "@/components/goals/FinancialGoalForm";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
 import type { FinancialGoal } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, cn } from "@/lib/utils";
@@ -58,6 +60,7 @@ export default function FinancialGoalsPage() {
   const [goalToEdit, setGoalToEdit] = useState<FinancialGoal | null>(null);
 
   const [goalToDelete, setGoalToDelete] = useState<FinancialGoal | null>(null);
+  const [goalForHistory, setGoalForHistory] = useState<FinancialGoal | null>(null);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [isDeletingId, setIsDeletingId] = useState<string | null>(null);
 
@@ -153,7 +156,11 @@ export default function FinancialGoalsPage() {
       const result = await response.json();
 
       if (response.ok && result.success) {
-        toast({ title: 'Meta Excluída!', description: `A meta "${goalToDelete.name}" foi excluída.` });
+        toast({
+          title: 'Meta Excluída!',
+          description: `A meta "${goalToDelete.name}" foi movida para a Lixeira.`,
+          action: <UndoDeleteAction userId={user.id} entity="financialGoals" itemId={goalToDelete.id} onRestored={fetchGoals} />,
+        });
         setGoals(prevGoals => prevGoals.filter(g => g.id !== goalToDelete.id));
       } else {
         toast({ variant: 'destructive', title: 'Erro ao Excluir', description: result.message || 'Não foi possível excluir a meta.' });
@@ -224,6 +231,9 @@ export default function FinancialGoalsPage() {
                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditModal(goal)} disabled={isDeletingId === goal.id || !user}>
                     <Edit3 className="h-4 w-4" />
                  </Button>
+                 <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setGoalForHistory(goal)} disabled={!user} title="Histórico de alterações">
+                    <History className="h-4 w-4" />
+                 </Button>
                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive/90" onClick={() => handleDeleteGoal(goal)} disabled={isDeletingId === goal.id || !user}>
                     {isDeletingId === goal.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
                  </Button>
@@ -233,7 +243,7 @@ export default function FinancialGoalsPage() {
           <CardContent className="space-y-3 flex-grow text-sm">
             <div className="space-y-1">
               <div className="flex justify-between items-baseline">
-                <span className="text-xs text-muted-foreground">Progresso ({formatCurrency(goal.currentAmount)} / {formatCurrency(goal.targetAmount)})</span>
+                <span className="text-xs text-muted-foreground">Progresso ({formatCurrency(goal.currentAmount, goal.currency)} / {formatCurrency(goal.targetAmount, goal.currency)})</span>
                 <span className="text-xs font-medium">{Math.min(100, progress).toFixed(0)}%</span>
               </div>
               <Progress value={progress} className="h-2" indicatorClassName={cn(goal.status === 'achieved' ? 'bg-green-500' : goal.status === 'abandoned' ? 'bg-destructive' : 'bg-primary')} />
@@ -302,12 +312,21 @@ export default function FinancialGoalsPage() {
         {renderGoalCards()}
       </div>
 
+      <RecordHistorySheet
+        entity="financialGoals"
+        recordId={goalForHistory?.id ?? null}
+        title={goalForHistory?.name}
+        currency={goalForHistory?.currency}
+        open={!!goalForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setGoalForHistory(null); }}
+      />
+
       <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir a meta "{goalToDelete?.name || 'selecionada'}"? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir a meta "{goalToDelete?.name || 'selecionada'}"? Ela ficará na Lixeira, de onde pode ser restaurada.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -22,8 +22,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { PlusCircle, Edit3, Trash2, Sun, AlertTriangleIcon, SearchX, Briefcase, LineChart, Bitcoin, PiggyBank, Building, HelpCircle } from "lucide-react";
+import { PlusCircle, Edit3, Trash2, Sun, AlertTriangleIcon, SearchX, Briefcase, LineChart, Bitcoin, PiggyBank, Building, HelpCircle, History } from "lucide-react";
 import { InvestmentForm } from "@/components/investments/InvestmentForm";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
 import type { Investment, InvestmentType } from "@/types";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, cn } from "@/lib/utils";
@@ -59,6 +61,7 @@ export default function InvestmentsPage() {
   const [investmentToEdit, setInvestmentToEdit] = useState<Investment | null>(null);
 
   const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
+  const [investmentForHistory, setInvestmentForHistory] = useState<Investment | null>(null);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [isDeletingId, setIsDeletingId] = useState<string | null>(null);
 
@@ -147,7 +150,11 @@ export default function InvestmentsPage() {
       const result = await response.json();
 
       if (response.ok && result.success) {
-        toast({ title: 'Investimento Excluído!', description: `O investimento "${investmentToDelete.name}" foi excluído.` });
+        toast({
+          title: 'Investimento Excluído!',
+          description: `O investimento "${investmentToDelete.name}" foi movido para a Lixeira.`,
+          action: <UndoDeleteAction userId={user.id} entity="investments" itemId={investmentToDelete.id} onRestored={fetchInvestments} />,
+        });
         setInvestments(prev => prev.filter(inv => inv.id !== investmentToDelete.id));
       } else {
         toast({ variant: 'destructive', title: 'Erro ao Excluir', description: result.message || 'Não foi possível excluir o investimento.' });
@@ -191,6 +198,9 @@ export default function InvestmentsPage() {
                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditModal(inv)} disabled={isDeletingId === inv.id || !user}>
                     <Edit3 className="h-4 w-4" />
                  </Button>
+                 <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setInvestmentForHistory(inv)} disabled={!user} title="Histórico de alterações">
+                    <History className="h-4 w-4" />
+                 </Button>
                  <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive/90" onClick={() => handleDeleteInvestment(inv)} disabled={isDeletingId === inv.id || !user}>
                     {isDeletingId === inv.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
                  </Button>
@@ -201,12 +211,12 @@ export default function InvestmentsPage() {
           <CardContent className="space-y-2 flex-grow text-sm">
             <div className="flex justify-between items-baseline">
                 <span className="text-sm text-muted-foreground">Valor Atual:</span>
-                <span className="text-lg font-bold text-primary">{formatCurrency(inv.currentValue)}</span>
+                <span className="text-lg font-bold text-primary">{formatCurrency(inv.currentValue, inv.currency)}</span>
             </div>
             {inv.initialAmount != null && (
                  <div className="flex justify-between items-baseline text-xs">
                     <span className="text-muted-foreground">Valor Inicial:</span>
-                    <span>{formatCurrency(inv.initialAmount)}</span>
+                    <span>{formatCurrency(inv.initialAmount, inv.currency)}</span>
                 </div>
             )}
             {performance != null && (
@@ -287,12 +297,21 @@ export default function InvestmentsPage() {
         {renderInvestmentCards()}
       </div>
 
+      <RecordHistorySheet
+        entity="investments"
+        recordId={investmentForHistory?.id ?? null}
+        title={investmentForHistory?.name}
+        currency={investmentForHistory?.currency}
+        open={!!investmentForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setInvestmentForHistory(null); }}
+      />
+
       <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir o investimento "{investmentToDelete?.name || 'selecionado'}"? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir o investimento "{investmentToDelete?.name || 'selecionado'}"? Ele ficará na Lixeira, de onde pode ser restaurado.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
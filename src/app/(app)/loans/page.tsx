@@ -22,12 +22,15 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { PlusCircle, Landmark, CalendarDays, Trash2, Sun, AlertTriangleIcon, SearchX, Info, TrendingUp, TrendingDown, CircleDollarSign, ReceiptText, Sigma, CalendarClock, Banknote, LayoutGrid, Edit3 } from "lucide-react";
+import { PlusCircle, Landmark, CalendarDays, Trash2, Sun, AlertTriangleIcon, SearchX, Info, TrendingUp, TrendingDown, CircleDollarSign, ReceiptText, Sigma, CalendarClock, Banknote, LayoutGrid, Edit3, History } from "lucide-react";
 import { LoanForm } from "@/components/loans/LoanForm";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
 import type { Loan } from "@/types";
 import { getLoansForUser, deleteLoan } from "@/lib/databaseService";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency, cn } from "@/lib/utils";
+import { addMoney, multiplyMoney, subtractMoney } from "@/lib/money";
 import { format, parseISO, isPast, isFuture, differenceInMonths, addMonths, getDaysInMonth, startOfMonth, endOfMonth, isSameMonth, isSameYear } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Badge } from '@/components/ui/badge';
@@ -66,6 +69,7 @@ export default function LoansPage() {
 
   const [loanToEdit, setLoanToEdit] = useState<Loan | null>(null);
   const [loanToDelete, setLoanToDelete] = useState<Loan | null>(null);
+  const [loanForHistory, setLoanForHistory] = useState<Loan | null>(null);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [isDeletingId, setIsDeletingId] = useState<string | null>(null);
 
@@ -150,7 +154,8 @@ export default function LoansPage() {
       if (result.success) {
         toast({
           title: 'Empréstimo Excluído!',
-          description: 'O empréstimo foi excluído com sucesso.',
+          description: 'O empréstimo foi movido para a Lixeira.',
+          action: <UndoDeleteAction userId={user.id} entity="loans" itemId={loanToDelete.id} onRestored={fetchUserLoans} />,
         });
         fetchUserLoans();
       } else {
@@ -180,7 +185,7 @@ export default function LoansPage() {
     const today = new Date();
     
     const totalInstallments = loan.installmentsCount;
-    const totalLoanAmount = loan.installmentAmount * totalInstallments;
+    const totalLoanAmount = multiplyMoney(loan.installmentAmount, totalInstallments);
     let monthsPassed = 0;
     let status = "";
     let progress = 0;
@@ -209,8 +214,8 @@ export default function LoansPage() {
     }
     
     const remainingMonths = Math.max(0, totalInstallments - monthsPassed);
-    const paidAmount = loan.installmentAmount * monthsPassed;
-    const remainingAmount = totalLoanAmount - paidAmount;
+    const paidAmount = multiplyMoney(loan.installmentAmount, monthsPassed);
+    const remainingAmount = subtractMoney(totalLoanAmount, paidAmount);
 
     return { 
       progress: Math.max(0, Math.min(100, progress)), 
@@ -236,10 +241,10 @@ export default function LoansPage() {
       const progressInfo = calculateLoanProgress(loan);
       
       if (progressInfo.status !== "Concluído") {
-        totalRemainingForAllLoans += progressInfo.remainingAmount;
+        totalRemainingForAllLoans = addMoney(totalRemainingForAllLoans, progressInfo.remainingAmount);
 
         const bankEntry = debtByBankMap.get(loan.bankName) || { totalRemaining: 0, loanCount: 0 };
-        bankEntry.totalRemaining += progressInfo.remainingAmount;
+        bankEntry.totalRemaining = addMoney(bankEntry.totalRemaining, progressInfo.remainingAmount);
         bankEntry.loanCount += 1;
         debtByBankMap.set(loan.bankName, bankEntry);
       }
@@ -252,7 +257,7 @@ export default function LoansPage() {
         const lastInstallmentDateForNextMonth = endOfMonth(nextMonthDate);
 
         if (loanStartDate <= lastInstallmentDateForNextMonth && loanEndDate >= firstInstallmentDateForNextMonth) {
-            totalNextMonthPayments += loan.installmentAmount;
+            totalNextMonthPayments = addMoney(totalNextMonthPayments, loan.installmentAmount);
         }
       }
     });
@@ -311,6 +316,9 @@ export default function LoansPage() {
                 <Button variant="ghost" size="icon" className="h-8 w-8 text-primary hover:text-primary/90" onClick={() => openEditModal(loan)} disabled={isDeletingId === loan.id || !user}>
                   <Edit3 className="h-4 w-4" />
                 </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setLoanForHistory(loan)} disabled={!user} title="Histórico de alterações">
+                  <History className="h-4 w-4" />
+                </Button>
                 <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive/90" onClick={() => handleDeleteLoan(loan)} disabled={isDeletingId === loan.id || !user}>
                   {isDeletingId === loan.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
                 </Button>
@@ -493,12 +501,20 @@ export default function LoansPage() {
         {renderLoanList()}
       </div>
       
+      <RecordHistorySheet
+        entity="loans"
+        recordId={loanForHistory?.id ?? null}
+        title={loanForHistory ? `${loanForHistory.bankName} - ${loanForHistory.description}` : undefined}
+        open={!!loanForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setLoanForHistory(null); }}
+      />
+
       <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir o empréstimo "{loanToDelete?.description || 'selecionado'}" do banco "{loanToDelete?.bankName}"? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir o empréstimo "{loanToDelete?.description || 'selecionado'}" do banco "{loanToDelete?.bankName}"? Ele ficará na Lixeira, de onde pode ser restaurado.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
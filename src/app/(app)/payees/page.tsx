@@ -0,0 +1,327 @@
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangleIcon, Edit3, History, PlusCircle, SearchX, Store, Sun, Trash2 } from "lucide-react";
+import type { CreditCardPurchase, ExchangeRate, Payee, Transaction, UserCategory } from "@/types";
+import {
+  addPayee, deletePayee, getCategoriesForUser, getCreditCardPurchasesForUser, getExchangeRatesForUser, getPayeesForUser,
+  getTransactionsForUser, linkPayeeRecords, updatePayee,
+} from '@/lib/databaseService';
+import { spendingByPayee, suggestPayeeName } from '@/lib/payees';
+import { orderCategories } from '@/lib/categories';
+import { createCurrencyConverter, DEFAULT_CURRENCY } from '@/lib/currency';
+import { cn, formatCurrency } from "@/lib/utils";
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from '@/hooks/use-toast';
+
+interface PayeeFormValues {
+  name: string;
+  aliases: string; // One per line
+  defaultCategory: string; // 'none' for no default category
+}
+
+const emptyForm: PayeeFormValues = { name: '', aliases: '', defaultCategory: 'none' };
+
+// Descriptions offered as new payees, the most frequent first.
+const MAX_SUGGESTIONS = 10;
+
+export default function PayeesPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [purchases, setPurchases] = useState<CreditCardPurchase[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ payee: Payee | null } | null>(null); // payee null creates a new one
+  const [form, setForm] = useState<PayeeFormValues>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyPayeeId, setHistoryPayeeId] = useState<string | null>(null);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+
+  const fetchData = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [userPayees, userCategories, userTransactions, userPurchases, rates] = await Promise.all([
+        getPayeesForUser(user.id),
+        getCategoriesForUser(user.id),
+        getTransactionsForUser(user.id),
+        getCreditCardPurchasesForUser(user.id),
+        getExchangeRatesForUser(user.id),
+      ]);
+      setPayees(userPayees);
+      setCategories(userCategories);
+      setTransactions(userTransactions);
+      setPurchases(userPurchases);
+      setExchangeRates(rates);
+    } catch (e: any) {
+      console.error("Failed to fetch payee data:", e?.message);
+      setError("Não foi possível carregar os favorecidos.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchData();
+    }
+  }, [authLoading, fetchData]);
+
+  const spending = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    return spendingByPayee(payees, transactions, purchases, converter.toBase);
+  }, [payees, transactions, purchases, exchangeRates, baseCurrency]);
+
+  // Expense descriptions without a payee, grouped by the payee name they suggest.
+  const suggestions = useMemo(() => {
+    const counts = new Map<string, number>();
+    const unlinked = [...transactions.filter(tx => tx.type === 'expense'), ...purchases].filter(record => !record.payeeId && record.description);
+    for (const record of unlinked) {
+      const name = suggestPayeeName(record.description!);
+      if (name) counts.set(name, (counts.get(name) || 0) + 1);
+    }
+    const taken = new Set(payees.map(payee => payee.name.toLowerCase()));
+    return [...counts.entries()]
+      .filter(([name]) => !taken.has(name.toLowerCase()))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [transactions, purchases, payees]);
+
+  const history = spending.find(entry => entry.payee.id === historyPayeeId);
+
+  const openEditor = (payee: Payee | null, name = '') => {
+    setForm(payee
+      ? { name: payee.name, aliases: payee.aliases.join('\n'), defaultCategory: payee.defaultCategory || 'none' }
+      : { ...emptyForm, name });
+    setEditing({ payee });
+  };
+
+  // Saving also links the records already saved under the payee's name or aliases.
+  const handleSave = async () => {
+    if (!user || !editing) return;
+    const data = {
+      name: form.name,
+      aliases: form.aliases.split('\n'),
+      defaultCategory: form.defaultCategory === 'none' ? null : form.defaultCategory,
+    };
+    setIsSaving(true);
+    const result = editing.payee ? await updatePayee(user.id, editing.payee.id, data) : await addPayee(user.id, data);
+    const payeeId = editing.payee?.id ?? ('payee' in result ? result.payee?.id : undefined);
+    const linked = result.success && payeeId ? await linkPayeeRecords(user.id, payeeId) : null;
+    setIsSaving(false);
+    if (!result.success) {
+      toast({ variant: 'destructive', title: 'Erro ao Salvar Favorecido', description: result.error || 'Não foi possível salvar o favorecido.' });
+      return;
+    }
+    if (linked?.linked) {
+      toast({ title: 'Favorecido Salvo', description: `${linked.linked} lançamentos foram vinculados a "${form.name.trim()}".` });
+    }
+    setEditing(null);
+    fetchData();
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    if (!user) return;
+    const result = await deletePayee(user.id, payee.id);
+    if (result.success) {
+      setPayees(prev => prev.filter(p => p.id !== payee.id));
+      if (historyPayeeId === payee.id) setHistoryPayeeId(null);
+      toast({ title: 'Favorecido Movido para a Lixeira', description: `"${payee.name}" pode ser restaurado pela Lixeira.` });
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Excluir Favorecido', description: result.error || 'Não foi possível excluir o favorecido.' });
+    }
+  };
+
+  if (authLoading) {
+    return <div className="flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando...</p></div>;
+  }
+  if (!user && !authLoading) {
+    return <div className="flex flex-col items-center justify-center h-64 text-muted-foreground"><AlertTriangleIcon className="h-12 w-12 mb-3" /><p className="text-lg">Por favor, faça login para acessar esta página.</p></div>;
+  }
+
+  const renderPayees = () => {
+    if (isLoading) {
+      return <div className="flex items-center justify-center h-40"><Sun className="h-10 w-10 animate-spin text-primary" /></div>;
+    }
+    if (error) {
+      return <div className="flex flex-col items-center justify-center h-40 text-destructive"><AlertTriangleIcon className="h-10 w-10 mb-3" /><p>{error}</p></div>;
+    }
+    if (payees.length === 0) {
+      return <div className="flex flex-col items-center justify-center h-40 text-muted-foreground"><SearchX className="h-10 w-10 mb-3" /><p>Nenhum favorecido cadastrado.</p><p className="text-sm">Crie favorecidos aqui ou ao lançar uma transação ou compra.</p></div>;
+    }
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Favorecido</TableHead>
+            <TableHead>Categoria Padrão</TableHead>
+            <TableHead className="text-right">Lançamentos</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">Ações</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {spending.map(entry => (
+            <TableRow key={entry.payee.id} className={cn(historyPayeeId === entry.payee.id && 'bg-muted/50')}>
+              <TableCell>
+                <span className="font-medium">{entry.payee.name}</span>
+                {entry.payee.aliases.length > 0 && <span className="block text-xs text-muted-foreground truncate max-w-[240px]">{entry.payee.aliases.join(', ')}</span>}
+              </TableCell>
+              <TableCell>{entry.payee.defaultCategory || '-'}</TableCell>
+              <TableCell className="text-right">{entry.count}</TableCell>
+              <TableCell className="text-right font-semibold">{formatCurrency(entry.total, baseCurrency)}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button variant="ghost" size="icon" onClick={() => setHistoryPayeeId(entry.payee.id)} disabled={entry.count === 0} aria-label="Ver histórico">
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openEditor(entry.payee)} aria-label="Editar favorecido">
+                  <Edit3 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.payee)} aria-label="Excluir favorecido">
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-headline flex items-center">
+            <Store className="mr-3 h-8 w-8 text-primary" />
+            Favorecidos
+          </h1>
+          <p className="text-muted-foreground">
+            Lojas e pessoas para quem você paga, reconhecidas pela descrição dos lançamentos e importações.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} disabled={!user}>
+          <PlusCircle className="mr-2 h-4 w-4" /> Novo Favorecido
+        </Button>
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>Gastos por Favorecido</CardTitle>
+          <CardDescription>
+            Despesas e compras no cartão (pelo valor total na data da compra) de cada favorecido. Valores em {baseCurrency}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {renderPayees()}
+        </CardContent>
+      </Card>
+
+      {history && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>Histórico de {history.payee.name}</CardTitle>
+            <CardDescription>
+              {history.count} lançamentos{history.lastDate && `, o último em ${format(parseISO(history.lastDate), 'dd/MM/yyyy', { locale: ptBR })}`}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mês</TableHead>
+                  <TableHead className="text-right">Gasto</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(history.byMonth).sort(([a], [b]) => b.localeCompare(a)).map(([month, amount]) => (
+                  <TableRow key={month}>
+                    <TableCell className="capitalize">{format(parseISO(`${month}-01`), 'MMMM yyyy', { locale: ptBR })}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(amount, baseCurrency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && suggestions.length > 0 && (
+        <Card className="shadow-md">
+          <CardHeader>
+            <CardTitle>Sugestões</CardTitle>
+            <CardDescription>Descrições frequentes de despesas sem favorecido.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {suggestions.map(([name, count]) => (
+              <Button key={name} variant="outline" size="sm" onClick={() => openEditor(null, name)}>
+                <PlusCircle className="mr-2 h-4 w-4" /> {name} ({count})
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={isOpen => { if (!isOpen) setEditing(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing?.payee ? 'Editar Favorecido' : 'Novo Favorecido'}</DialogTitle>
+            <DialogDescription>
+              Lançamentos cuja descrição contém o nome ou um dos apelidos são vinculados ao favorecido, ignorando
+              maiúsculas, acentos, pontuação e prefixos de maquininha como &quot;PAG*&quot; e &quot;IFD*&quot;.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="payee-name">Nome</Label>
+              <Input id="payee-name" value={form.name} maxLength={100} onChange={e => setForm({ ...form, name: e.target.value })} disabled={isSaving} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payee-aliases">Apelidos (um por linha)</Label>
+              <Textarea id="payee-aliases" className="resize-none" rows={3} placeholder={'IFOOD\nIFD*IFOOD.COM'} value={form.aliases} onChange={e => setForm({ ...form, aliases: e.target.value })} disabled={isSaving} />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria Padrão</Label>
+              <Select value={form.defaultCategory} onValueChange={defaultCategory => setForm({ ...form, defaultCategory })} disabled={isSaving}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nenhuma</SelectItem>
+                  {orderCategories(categories).map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.name} className={cn(depth > 0 && 'pl-10')}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Usada nas importações e ao escolher o favorecido em um novo lançamento.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+              {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -17,8 +17,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Info, Sun, KeyRound, UserCircle2, Download, Upload, AlertTriangle as AlertTriangleIcon, Database, Mail } from 'lucide-react';
-import type { AuthApiResponse, UserBackupData, UpdateEmailNotificationPrefsData, UserProfile } from '@/types';
+import { Info, Sun, KeyRound, UserCircle2, Download, Upload, AlertTriangle as AlertTriangleIcon, Database, Mail, Coins, Tags, Shapes, Wallet } from 'lucide-react';
+import type { AuthApiResponse, UserBackupData, UpdateEmailNotificationPrefsData, UpdateBaseCurrencyData, UpdateEnvelopeModeData, UserProfile, CurrencyCode } from '@/types';
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { ExchangeRatesManager } from '@/components/settings/ExchangeRatesManager';
+import { TagsManager } from '@/components/settings/TagsManager';
+import { CategoriesManager } from '@/components/settings/CategoriesManager';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
 import { format } from 'date-fns';
 import {
   AlertDialog,
@@ -33,7 +38,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from '@/components/ui/skeleton';
 
-type DataStorageMode = "local" | "postgres";
+type DataStorageMode = "local" | "sqlite" | "postgres";
 
 const displayNameSchema = z.object({
   displayName: z.string().min(1, "Nome de exibição é obrigatório.").max(50, "Máximo de 50 caracteres."),
@@ -64,6 +69,8 @@ export default function SettingsPage() {
   const restoreFileInputRef = useRef<HTMLInputElement>(null);
   const [emailNotificationsEnabled, setEmailNotificationsEnabled] = useState(user?.notifyByEmail || false);
   const [isEmailNotificationSubmitting, setIsEmailNotificationSubmitting] = useState(false);
+  const [isBaseCurrencySubmitting, setIsBaseCurrencySubmitting] = useState(false);
+  const [isEnvelopeModeSubmitting, setIsEnvelopeModeSubmitting] = useState(false);
 
   const displayNameForm = useForm<DisplayNameFormValues>({
     resolver: zodResolver(displayNameSchema),
@@ -207,6 +214,58 @@ export default function SettingsPage() {
     }
   };
 
+  const handleBaseCurrencyChange = async (baseCurrency: CurrencyCode) => {
+    if (!user) return;
+    const headers = getAuthHeaders();
+    if (!headers) return;
+
+    setIsBaseCurrencySubmitting(true);
+    try {
+      const response = await fetch('/api/user/update-base-currency', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ baseCurrency } as UpdateBaseCurrencyData),
+      });
+      const data: AuthApiResponse & { user?: UserProfile } = await response.json();
+      if (response.ok && data.success && data.user) {
+        toast({ title: 'Sucesso!', description: `Os totais agora são exibidos em ${baseCurrency}.` });
+        updateUserContext({ baseCurrency: data.user.baseCurrency });
+      } else {
+        toast({ variant: 'destructive', title: 'Erro', description: data.message || 'Não foi possível atualizar a moeda principal.' });
+      }
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Erro de Rede', description: 'Não foi possível conectar ao servidor.' });
+    } finally {
+      setIsBaseCurrencySubmitting(false);
+    }
+  };
+
+  const handleEnvelopeModeChange = async (enabled: boolean) => {
+    if (!user) return;
+    const headers = getAuthHeaders();
+    if (!headers) return;
+
+    setIsEnvelopeModeSubmitting(true);
+    try {
+      const response = await fetch('/api/user/update-envelope-mode', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ enabled } as UpdateEnvelopeModeData),
+      });
+      const data: AuthApiResponse & { user?: UserProfile } = await response.json();
+      if (response.ok && data.success && data.user) {
+        toast({ title: 'Sucesso!', description: `Orçamento por envelopes ${enabled ? 'ativado' : 'desativado'}.` });
+        updateUserContext({ envelopeStartMonth: data.user.envelopeStartMonth ?? null });
+      } else {
+        toast({ variant: 'destructive', title: 'Erro', description: data.message || 'Não foi possível atualizar o modo de orçamento.' });
+      }
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Erro de Rede', description: 'Não foi possível conectar ao servidor.' });
+    } finally {
+      setIsEnvelopeModeSubmitting(false);
+    }
+  };
+
   const handleBackup = async () => {
     if (!user) return;
     const token = getToken();
@@ -228,7 +287,7 @@ export default function SettingsPage() {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = `solar_fin_backup_${user.email?.split('@')[0] || 'user'}_${format(new Date(), 'yyyyMMdd_HHmmss')}.json`;
+      let filename = `solar_fin_backup_${user.email?.split('@')[0] || 'user'}_${format(new Date(), 'yyyyMMdd_HHmmss')}.tar.gz`;
       if (contentDisposition) {
         const filenameMatch = contentDisposition.match(/filename="?(.+)"?/i);
         if (filenameMatch && filenameMatch.length > 1) {
@@ -257,12 +316,42 @@ export default function SettingsPage() {
     }
   };
 
+  const handleRestoreResponse = async (response: Response) => {
+    const result = await response.json();
+    if (response.ok && result.success) {
+      toast({ title: 'Restauração Concluída', description: 'Seus dados foram restaurados. Você será deslogado para aplicar as mudanças.' });
+      setSelectedRestoreFile(null);
+      if (restoreFileInputRef.current) restoreFileInputRef.current.value = "";
+      setTimeout(() => {
+           logout(); 
+      }, 2000);
+    } else {
+      throw new Error(result.message || 'Falha ao restaurar os dados.');
+    }
+  };
+
   const handleRestore = async () => {
     if (!user || !selectedRestoreFile) return;
     const headers = getAuthHeaders();
     if (!headers) return;
     
     setIsRestoreLoading(true);
+    if (!/\.json$/i.test(selectedRestoreFile.name)) {
+      // Backup archives (.tar.gz) carry the attached files too and are sent as they are.
+      try {
+        const response = await fetch('/api/user/restore', {
+          method: 'POST',
+          headers: { ...headers, 'Content-Type': 'application/gzip' },
+          body: selectedRestoreFile,
+        });
+        await handleRestoreResponse(response);
+      } catch (restoreError: any) {
+        toast({ variant: 'destructive', title: 'Erro na Restauração', description: restoreError.message || 'Não foi possível restaurar os dados.' });
+      } finally {
+        setIsRestoreLoading(false);
+      }
+      return;
+    }
     try {
       const fileReader = new FileReader();
       fileReader.onload = async (e) => {
@@ -277,17 +366,7 @@ export default function SettingsPage() {
             headers,
             body: JSON.stringify(backupData),
           });
-          const result = await response.json();
-          if (response.ok && result.success) {
-            toast({ title: 'Restauração Concluída', description: 'Seus dados foram restaurados. Você será deslogado para aplicar as mudanças.' });
-            setSelectedRestoreFile(null);
-            if (restoreFileInputRef.current) restoreFileInputRef.current.value = "";
-            setTimeout(() => {
-                 logout(); 
-            }, 2000);
-          } else {
-            throw new Error(result.message || 'Falha ao restaurar os dados.');
-          }
+          await handleRestoreResponse(response);
         } catch (restoreError: any) {
           toast({ variant: 'destructive', title: 'Erro na Restauração', description: restoreError.message || 'Não foi possível restaurar os dados.' });
         } finally {
@@ -452,6 +531,88 @@ export default function SettingsPage() {
       
       <Separator />
 
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Coins className="mr-2 h-5 w-5 text-primary" />Moedas</CardTitle>
+          <CardDescription>Cada registro guarda a moeda em que foi lançado. Painel, relatórios e insights convertem tudo para a moeda principal.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2 max-w-sm">
+            <Label htmlFor="base-currency">Moeda Principal</Label>
+            <CurrencySelect
+              id="base-currency"
+              value={user?.baseCurrency || DEFAULT_CURRENCY}
+              onValueChange={handleBaseCurrencyChange}
+              disabled={isBaseCurrencySubmitting || authLoading}
+            />
+          </div>
+          <Separator />
+          <div className="space-y-2">
+            <Label className="text-base">Cotações</Label>
+            <p className="text-sm text-muted-foreground">
+              Cada registro é convertido pela cotação mais recente até a sua data (ou a primeira depois dela, se não houver anterior).
+            </p>
+            {user && <ExchangeRatesManager userId={user.id} baseCurrency={user.baseCurrency || DEFAULT_CURRENCY} />}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Wallet className="mr-2 h-5 w-5 text-primary" />Orçamento por Envelopes</CardTitle>
+          <CardDescription>Orçamento base zero: toda receita entra no saldo a atribuir e cada real é colocado no envelope de uma categoria antes de ser gasto.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between space-x-2 p-1 rounded-md">
+            <div className="space-y-0.5">
+              <Label htmlFor="envelope-mode" className="text-base">
+                Usar Envelopes
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                {user?.envelopeStartMonth
+                  ? `Ativo desde ${format(new Date(`${user.envelopeStartMonth}-01T00:00:00`), 'MM/yyyy')}. Ao desativar, as atribuições são mantidas.`
+                  : 'As receitas passam a contar a partir do mês atual. Os envelopes ficam na página de Orçamentos.'}
+              </p>
+            </div>
+            <Switch
+              id="envelope-mode"
+              checked={!!user?.envelopeStartMonth}
+              onCheckedChange={handleEnvelopeModeChange}
+              disabled={isEnvelopeModeSubmitting || authLoading}
+              aria-label="Ativar orçamento por envelopes"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Shapes className="mr-2 h-5 w-5 text-primary" />Categorias</CardTitle>
+          <CardDescription>Renomeie, mescle e exclua categorias, organize subcategorias e escolha ícones e cores. As alterações são aplicadas a todas as transações e compras.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user && <CategoriesManager userId={user.id} />}
+        </CardContent>
+      </Card>
+
+      <Separator />
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Tags className="mr-2 h-5 w-5 text-primary" />Tags</CardTitle>
+          <CardDescription>Marque transações e compras no cartão com tags como &quot;viagem Chile 2026&quot; ou &quot;reembolsável pelo trabalho&quot;, independentemente da categoria.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user && <TagsManager userId={user.id} />}
+        </CardContent>
+      </Card>
+
+      <Separator />
+
       <Card className="shadow-lg">
         <CardHeader>
           <CardTitle>Aparência</CardTitle>
@@ -481,7 +642,7 @@ export default function SettingsPage() {
             <div>
                 <h3 className="text-md font-medium mb-2">Backup Local</h3>
                 <p className="text-sm text-muted-foreground mb-3">
-                    Salve uma cópia de todos os seus dados (transações, empréstimos, cartões, etc.) em um arquivo JSON no seu computador.
+                    Salve uma cópia de todos os seus dados (transações, empréstimos, cartões, etc.) e dos arquivos anexados em um arquivo .tar.gz no seu computador. Backups JSON antigos continuam podendo ser restaurados.
                 </p>
                 <Button onClick={handleBackup} disabled={isBackupLoading || !user}>
                     {isBackupLoading ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
@@ -501,7 +662,7 @@ export default function SettingsPage() {
                 <div className="space-y-3">
                     <Input
                         type="file"
-                        accept=".json"
+                        accept=".tar.gz,.tgz,.json"
                         onChange={handleFileSelect}
                         disabled={isRestoreLoading || !user}
                         ref={restoreFileInputRef}
@@ -559,6 +720,12 @@ export default function SettingsPage() {
                   Arquivo Local (db.json) {currentServerDbMode === 'local' && <span className="text-primary ml-1">(Ativo)</span>}
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="sqlite" id="dbSqlite" />
+                <Label htmlFor="dbSqlite" className={currentServerDbMode === 'sqlite' ? 'font-semibold' : ''}>
+                  Arquivo SQLite {currentServerDbMode === 'sqlite' && <span className="text-primary ml-1">(Ativo)</span>}
+                </Label>
+              </div>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="postgres" id="dbPostgres" />
                 <Label htmlFor="dbPostgres" className={currentServerDbMode === 'postgres' ? 'font-semibold' : ''}>
@@ -572,12 +739,13 @@ export default function SettingsPage() {
             <AlertTitle>Nota Importante</AlertTitle>
             <AlertDescription>
               A configuração acima mostra o modo de banco de dados atualmente ativo no servidor.
-              Para alterar para PostgreSQL (ou voltar para local), você deve:
+              Para alterar para SQLite ou PostgreSQL (ou voltar para local), você deve:
               <ol className="list-decimal list-inside mt-1 text-xs">
                 <li>Configurar a variável de ambiente `DATABASE_URL` com sua string de conexão PostgreSQL (se for usar PostgreSQL).</li>
-                <li>Definir a variável de ambiente `DATABASE_MODE` como "postgres" ou "local".</li>
+                <li>Configurar a variável de ambiente `SQLITE_PATH` com o caminho do arquivo (opcional, se for usar SQLite; padrão `src/data/solar-fin.sqlite`).</li>
+                <li>Definir a variável de ambiente `DATABASE_MODE` como "postgres", "sqlite" ou "local".</li>
                 <li>Reiniciar o servidor da aplicação.</li>
-                <li>Se estiver usando PostgreSQL, certifique-se de que as tabelas do banco de dados foram criadas. Você pode encontrar um script de inicialização em `sql/init.sql`.</li>
+                <li>As tabelas são criadas e atualizadas automaticamente na inicialização a partir de `sql/migrations`. Para aplicá-las manualmente, use `npm run db:migrate` (e `npm run db:migrate:status` para ver o estado).</li>
               </ol>
               A maioria das funcionalidades de dados (Perfil, Transações, Empréstimos, Cartões, Categorias) já foram adaptadas para funcionar com PostgreSQL.
             </AlertDescription>
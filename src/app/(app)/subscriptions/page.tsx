@@ -4,49 +4,33 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button"; // Added missing import
-import { Repeat, Sun, AlertTriangleIcon, SearchX, CalendarDays, Tag, DollarSign, CheckCircle2, Edit3 } from "lucide-react";
-import type { Transaction, RecurrenceFrequency } from '@/types';
-import { getTransactionsForUser } from '@/lib/databaseService';
+import { Repeat, Sun, AlertTriangleIcon, SearchX, CalendarDays, Tag, DollarSign, CheckCircle2, Edit3, History, SkipForward, CalendarCheck } from "lucide-react";
+import type { OccurrenceStatus, RecurrenceOccurrence, Transaction } from '@/types';
+import { getRecurrenceOccurrencesForUser, getTransactionsForUser } from '@/lib/databaseService';
 import { formatCurrency, cn } from '@/lib/utils';
-import { 
-  format, 
-  parseISO,
-  startOfDay,
-  getMonth,
-  getYear,
-  getDate,
-  getDaysInMonth,
-  getDay,
-  startOfMonth,
-  addDays,
-  isSameMonth,
-  addWeeks,
-  isPast,
-  isToday
-} from 'date-fns';
+import { describeRecurrence, projectOccurrences, type ProjectedOccurrence } from '@/lib/recurrence';
+import { format, parseISO, startOfDay, startOfMonth, endOfMonth, isAfter } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { TransactionForm } from '@/components/transactions/TransactionForm';
-
-const recurrenceFrequencyMap: Record<RecurrenceFrequency, string> = {
-  none: 'Não Recorrente',
-  monthly: 'Mensal',
-  weekly: 'Semanal',
-  annually: 'Anual',
-};
+import { RecordHistorySheet } from '@/components/history/RecordHistorySheet';
+import { OccurrenceStateDialog } from '@/components/transactions/OccurrenceStateDialog';
 
 export default function SubscriptionsPage() {
   const { user, loading: authLoading } = useAuth();
   const [recurringExpenses, setRecurringExpenses] = useState<Transaction[]>([]);
+  const [occurrenceStates, setOccurrenceStates] = useState<RecurrenceOccurrence[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
 
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [transactionToEdit, setTransactionToEdit] = useState<Transaction | null>(null);
+  const [expenseForHistory, setExpenseForHistory] = useState<Transaction | null>(null);
+  const [occurrenceToUpdate, setOccurrenceToUpdate] = useState<{ expense: Transaction; occurrence: ProjectedOccurrence; status?: OccurrenceStatus } | null>(null);
 
   const fetchRecurringExpenses = useCallback(async () => {
     if (!user) {
@@ -56,7 +40,8 @@ export default function SubscriptionsPage() {
     setIsLoading(true);
     setError(null);
     try {
-      const allTransactions = await getTransactionsForUser(user.id);
+      const [allTransactions, states] = await Promise.all([getTransactionsForUser(user.id), getRecurrenceOccurrencesForUser(user.id)]);
+      setOccurrenceStates(states);
       const filteredExpenses = allTransactions.filter(
         (tx) => tx.type === 'expense' && tx.recurrenceFrequency && tx.recurrenceFrequency !== 'none'
       );
@@ -141,61 +126,13 @@ export default function SubscriptionsPage() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {recurringExpenses.map((expense) => {
           const today = startOfDay(new Date());
-          const currentMonth = getMonth(today);
-          const currentYear = getYear(today);
-          let expectedPaymentDateThisMonth: Date | null = null;
-
-          const lastRecordedDate = parseISO(expense.date);
-
-          if (expense.recurrenceFrequency === 'monthly') {
-            const paymentDayOfMonth = getDate(lastRecordedDate);
-            const dayInCurrentMonth = Math.min(paymentDayOfMonth, getDaysInMonth(new Date(currentYear, currentMonth)));
-            expectedPaymentDateThisMonth = startOfDay(new Date(currentYear, currentMonth, dayInCurrentMonth));
-          } else if (expense.recurrenceFrequency === 'annually') {
-            const paymentDayOfMonth = getDate(lastRecordedDate);
-            const paymentMonth = getMonth(lastRecordedDate);
-            if (paymentMonth === currentMonth) {
-              const dayInCurrentMonth = Math.min(paymentDayOfMonth, getDaysInMonth(new Date(currentYear, currentMonth)));
-              expectedPaymentDateThisMonth = startOfDay(new Date(currentYear, currentMonth, dayInCurrentMonth));
-            }
-          } else if (expense.recurrenceFrequency === 'weekly') {
-            const originalDayOfWeek = getDay(lastRecordedDate);
-            let firstDayOfCurrentMonth = startOfMonth(today);
-            
-            let firstOccurrenceThisMonth = new Date(firstDayOfCurrentMonth);
-            let count = 0; 
-            while(getDay(firstOccurrenceThisMonth) !== originalDayOfWeek && count < 7) {
-                firstOccurrenceThisMonth = addDays(firstOccurrenceThisMonth, 1);
-                if (getMonth(firstOccurrenceThisMonth) !== currentMonth) {
-                    firstOccurrenceThisMonth = null; 
-                    break;
-                }
-                count++;
-            }
-            if(count >= 7) firstOccurrenceThisMonth = null;
-
-            if (firstOccurrenceThisMonth && isSameMonth(firstOccurrenceThisMonth, today)) {
-                let latestPastOrTodayOccurrenceInMonth: Date | null = null;
-                let currentWeeklyDate = startOfDay(new Date(firstOccurrenceThisMonth));
-                while(isSameMonth(currentWeeklyDate, today)) {
-                    if (isPast(currentWeeklyDate) || isToday(currentWeeklyDate)) {
-                        latestPastOrTodayOccurrenceInMonth = new Date(currentWeeklyDate);
-                    } else {
-                        break; 
-                    }
-                    const nextWeeklyDate = addWeeks(currentWeeklyDate, 1);
-                    if (!isSameMonth(nextWeeklyDate, today) && isSameMonth(currentWeeklyDate, today)) { 
-                        break;
-                    }
-                    currentWeeklyDate = nextWeeklyDate;
-                }
-                expectedPaymentDateThisMonth = latestPastOrTodayOccurrenceInMonth;
-            }
-          }
-
-          const isPaidThisMonth = !!expectedPaymentDateThisMonth &&
-                                  (isToday(expectedPaymentDateThisMonth) || isPast(expectedPaymentDateThisMonth)) &&
-                                  isSameMonth(expectedPaymentDateThisMonth, today);
+          // The latest occurrence this month up to today; otherwise the next one still to come.
+          const occurrencesThisMonth = projectOccurrences(expense, occurrenceStates, startOfMonth(today), endOfMonth(today));
+          const occurrenceThisMonth: ProjectedOccurrence | null =
+            occurrencesThisMonth.filter(occurrence => !isAfter(occurrence.date, today)).pop() || occurrencesThisMonth[0] || null;
+          const isPaidThisMonth = occurrenceThisMonth?.status === 'paid';
+          const isSkippedThisMonth = occurrenceThisMonth?.status === 'skipped';
+          const isOverdue = occurrenceThisMonth?.status === 'pending' && !isAfter(occurrenceThisMonth.date, today);
           
           return (
             <Card key={expense.id} className="shadow-md hover:shadow-lg transition-shadow flex flex-col">
@@ -212,6 +149,12 @@ export default function SubscriptionsPage() {
                         Pago este Mês
                         </Badge>
                     )}
+                    {isSkippedThisMonth && (
+                        <Badge variant="secondary" className="ml-auto text-xs">
+                        <SkipForward className="mr-1 h-3.5 w-3.5" />
+                        Pulado este Mês
+                        </Badge>
+                    )}
                     <Button
                         variant="ghost"
                         size="icon"
@@ -222,6 +165,16 @@ export default function SubscriptionsPage() {
                     >
                         <Edit3 className="h-4 w-4" />
                     </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => setExpenseForHistory(expense)}
+                        disabled={!user}
+                        title="Histórico de alterações"
+                    >
+                        <History className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
                 <CardDescription className="text-xs pt-1">
@@ -231,21 +184,47 @@ export default function SubscriptionsPage() {
               <CardContent className="space-y-2 flex-grow text-sm">
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground flex items-center"><DollarSign className="mr-1.5 h-4 w-4 opacity-70"/>Valor:</span>
-                  <span className="font-semibold text-destructive">{formatCurrency(expense.amount)}</span>
+                  <span className="font-semibold text-destructive">{formatCurrency(expense.amount, expense.currency)}</span>
                 </div>
+                {occurrenceThisMonth && !isSkippedThisMonth && occurrenceThisMonth.amount !== expense.amount && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground flex items-center"><DollarSign className="mr-1.5 h-4 w-4 opacity-70"/>{isPaidThisMonth ? 'Pago este mês:' : 'Previsto este mês:'}</span>
+                    <span className="font-semibold">{formatCurrency(occurrenceThisMonth.amount, expense.currency)}</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground flex items-center"><Tag className="mr-1.5 h-4 w-4 opacity-70"/>Frequência:</span>
-                  <span className="font-medium">{recurrenceFrequencyMap[expense.recurrenceFrequency || 'none']}</span>
+                  <span className="font-medium">{describeRecurrence(expense)}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-muted-foreground flex items-center"><CalendarDays className="mr-1.5 h-4 w-4 opacity-70"/>Último Registro:</span>
                   <span className="font-medium">{format(parseISO(expense.date), 'dd/MM/yyyy', { locale: ptBR })}</span>
                 </div>
-                 {expectedPaymentDateThisMonth && !isPaidThisMonth && isSameMonth(expectedPaymentDateThisMonth, today) && (
-                    <p className="text-xs text-blue-600 dark:text-blue-400 pt-1">
-                        Próximo pagamento esperado em: {format(expectedPaymentDateThisMonth, 'dd/MM/yyyy', { locale: ptBR })}
+                {isPaidThisMonth && (
+                    <p className="text-xs text-muted-foreground pt-1">
+                        Pago em: {format(occurrenceThisMonth.date, 'dd/MM/yyyy', { locale: ptBR })}
+                    </p>
+                )}
+                {occurrenceThisMonth?.status === 'pending' && (
+                    <p className={cn("text-xs pt-1", isOverdue ? "text-yellow-600 dark:text-yellow-400" : "text-blue-600 dark:text-blue-400")}>
+                        {isOverdue ? 'Pagamento previsto, ainda não confirmado, em: ' : 'Próximo pagamento esperado em: '}
+                        {format(occurrenceThisMonth.date, 'dd/MM/yyyy', { locale: ptBR })}
                     </p>
                 )}
+                {occurrenceThisMonth && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {!isPaidThisMonth && (
+                      <Button variant="outline" size="sm" onClick={() => setOccurrenceToUpdate({ expense, occurrence: occurrenceThisMonth, status: 'paid' })} disabled={!user}>
+                        <CheckCircle2 className="mr-1.5 h-4 w-4" />
+                        Confirmar pagamento
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setOccurrenceToUpdate({ expense, occurrence: occurrenceThisMonth })} disabled={!user}>
+                      <CalendarCheck className="mr-1.5 h-4 w-4" />
+                      Pular, remarcar ou ajustar
+                    </Button>
+                  </div>
+                )}
               </CardContent>
               <CardFooter className="text-xs text-muted-foreground pt-2 pb-3">
                 Registrada em: {format(new Date(expense.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
@@ -291,6 +270,24 @@ export default function SubscriptionsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <OccurrenceStateDialog
+        transaction={occurrenceToUpdate?.expense ?? null}
+        occurrence={occurrenceToUpdate?.occurrence ?? null}
+        initialStatus={occurrenceToUpdate?.status}
+        open={!!occurrenceToUpdate}
+        onOpenChange={(isOpen) => { if (!isOpen) setOccurrenceToUpdate(null); }}
+        onSaved={fetchRecurringExpenses}
+      />
+
+      <RecordHistorySheet
+        entity="transactions"
+        recordId={expenseForHistory?.id ?? null}
+        title={expenseForHistory?.description || "Despesa Recorrente"}
+        currency={expenseForHistory?.currency}
+        open={!!expenseForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setExpenseForHistory(null); }}
+      />
     </div>
   );
 }
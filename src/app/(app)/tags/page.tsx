@@ -0,0 +1,165 @@
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangleIcon, SearchX, Sun, Tag as TagIcon } from "lucide-react";
+import type { CreditCardPurchase, ExchangeRate, Tag, Transaction } from "@/types";
+import { getCreditCardPurchasesForUser, getExchangeRatesForUser, getTagsForUser, getTransactionsForUser } from '@/lib/databaseService';
+import { spendingByTag, type TagSpendingPeriod } from '@/lib/tags';
+import { createCurrencyConverter, DEFAULT_CURRENCY } from '@/lib/currency';
+import { formatCurrency } from "@/lib/utils";
+import { format, startOfMonth, startOfYear, subMonths } from 'date-fns';
+import { useAuth } from "@/contexts/AuthContext";
+
+type PeriodOption = 'thisMonth' | 'last3Months' | 'thisYear' | 'allTime';
+
+const periodLabels: Record<PeriodOption, string> = {
+  thisMonth: 'Este mês',
+  last3Months: 'Últimos 3 meses',
+  thisYear: 'Este ano',
+  allTime: 'Todo o período',
+};
+
+function periodOf(option: PeriodOption, today: Date): TagSpendingPeriod {
+  const to = format(today, 'yyyy-MM-dd');
+  switch (option) {
+    case 'thisMonth': return { from: format(startOfMonth(today), 'yyyy-MM-dd'), to };
+    case 'last3Months': return { from: format(startOfMonth(subMonths(today, 2)), 'yyyy-MM-dd'), to };
+    case 'thisYear': return { from: format(startOfYear(today), 'yyyy-MM-dd'), to };
+    default: return {};
+  }
+}
+
+export default function TagsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [purchases, setPurchases] = useState<CreditCardPurchase[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [period, setPeriod] = useState<PeriodOption>('thisMonth');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+
+  const fetchData = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [userTags, userTransactions, userPurchases, rates] = await Promise.all([
+        getTagsForUser(user.id),
+        getTransactionsForUser(user.id),
+        getCreditCardPurchasesForUser(user.id),
+        getExchangeRatesForUser(user.id),
+      ]);
+      setTags(userTags);
+      setTransactions(userTransactions);
+      setPurchases(userPurchases);
+      setExchangeRates(rates);
+    } catch (e: any) {
+      console.error("Failed to fetch tag spending data:", e?.message);
+      setError("Não foi possível carregar os gastos por tag.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchData();
+    }
+  }, [authLoading, fetchData]);
+
+  const spending = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    return spendingByTag(tags, transactions, purchases, converter.toBase, periodOf(period, new Date()));
+  }, [tags, transactions, purchases, exchangeRates, baseCurrency, period]);
+
+  if (authLoading) {
+    return <div className="flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando...</p></div>;
+  }
+  if (!user && !authLoading) {
+    return <div className="flex flex-col items-center justify-center h-64 text-muted-foreground"><AlertTriangleIcon className="h-12 w-12 mb-3" /><p className="text-lg">Por favor, faça login para acessar esta página.</p></div>;
+  }
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <div className="flex items-center justify-center h-40"><Sun className="h-10 w-10 animate-spin text-primary" /></div>;
+    }
+    if (error) {
+      return <div className="flex flex-col items-center justify-center h-40 text-destructive"><AlertTriangleIcon className="h-10 w-10 mb-3" /><p>{error}</p></div>;
+    }
+    if (tags.length === 0) {
+      return <div className="flex flex-col items-center justify-center h-40 text-muted-foreground"><SearchX className="h-10 w-10 mb-3" /><p>Nenhuma tag criada.</p><p className="text-sm">Crie tags em Configurações ou ao lançar uma transação ou compra.</p></div>;
+    }
+    if (spending.length === 0) {
+      return <p className="text-sm text-muted-foreground">Nenhum gasto com tags neste período.</p>;
+    }
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Tag</TableHead>
+            <TableHead className="text-right">Lançamentos</TableHead>
+            <TableHead className="text-right">Transações</TableHead>
+            <TableHead className="text-right">Cartões</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {spending.map(entry => (
+            <TableRow key={entry.tag.id}>
+              <TableCell className="font-medium">{entry.tag.name}</TableCell>
+              <TableCell className="text-right">{entry.count}</TableCell>
+              <TableCell className="text-right">{formatCurrency(entry.cash, baseCurrency)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(entry.card, baseCurrency)}</TableCell>
+              <TableCell className="text-right font-semibold">{formatCurrency(entry.total, baseCurrency)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-headline flex items-center">
+            <TagIcon className="mr-3 h-8 w-8 text-primary" />
+            Gastos por Tag
+          </h1>
+          <p className="text-muted-foreground">
+            Quanto foi gasto em cada tag, somando despesas e compras no cartão.
+          </p>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as PeriodOption)}>
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Período"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(periodLabels) as PeriodOption[]).map(option => (
+              <SelectItem key={option} value={option}>{periodLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="shadow-md">
+        <CardHeader>
+          <CardTitle>{periodLabels[period]}</CardTitle>
+          <CardDescription>
+            Compras no cartão contam pelo valor total na data da compra. Um lançamento com várias tags conta inteiro em cada uma delas. Valores em {baseCurrency}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {renderContent()}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -31,10 +40,18 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { TransactionForm } from "@/components/transactions/TransactionForm";
-import { PlusCircle, ArrowUpCircle, ArrowDownCircle, Sun, AlertTriangleIcon, SearchX, Copy, RefreshCw, Trash2, CalendarClock, Edit3, FileImage } from "lucide-react"; // Added Edit3
-import type { Transaction, NewTransactionData, RecurrenceFrequency } from '@/types';
-import { getTransactionsForUser, addTransaction, deleteTransaction } from '@/lib/databaseService';
+import { BulkEditTransactionsDialog } from "@/components/transactions/BulkEditTransactionsDialog";
+import { UndoDeleteAction } from "@/components/trash/UndoDeleteAction";
+import { RecordHistorySheet } from "@/components/history/RecordHistorySheet";
+import { PlusCircle, ArrowUpCircle, ArrowDownCircle, ArrowRightLeft, Sun, AlertTriangleIcon, SearchX, Copy, RefreshCw, Trash2, CalendarClock, Edit3, FileImage, History, Lock, Search, X } from "lucide-react"; // Added Edit3
+import type { Account, Payee, Tag, UserCategory, Transaction, NewTransactionData, RecurrenceFrequency, TransactionType, TransactionPage, TransactionBatchRequest, UpdateTransactionData } from '@/types';
+import { getCategoriesForUser, getAccountsForUser, getInvestmentsForUser, getFinancialGoalsForUser, getTagsForUser, getPayeesForUser, addTransaction, deleteTransaction } from '@/lib/databaseService';
 import { formatCurrency, cn } from '@/lib/utils';
+import { categoryLabel } from '@/lib/splits';
+import { findCategory, orderCategories } from '@/lib/categories';
+import { CategoryIcon } from '@/components/categories/CategoryIcon';
+import { tagsOf } from '@/lib/tags';
+import { describeRecurrence, recurrenceFrequencyLabels, RECURRENCE_FREQUENCIES } from '@/lib/recurrence';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Badge } from '@/components/ui/badge';
@@ -42,34 +59,123 @@ import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { ImportStatementDialog } from '@/components/transactions/ImportStatementDialog';
 
-const recurrenceFrequencyMap: Record<RecurrenceFrequency, string> = {
-  none: 'Não Recorrente',
-  monthly: 'Mensal',
-  weekly: 'Semanal',
-  annually: 'Anual',
+const transactionTypeDisplay: Record<TransactionType, { label: string; icon: typeof ArrowUpCircle; textClass: string; badgeClass: string }> = {
+  income: { label: 'Receita', icon: ArrowUpCircle, textClass: 'text-positive', badgeClass: 'bg-positive/20 text-positive-foreground border-positive/30' },
+  expense: { label: 'Despesa', icon: ArrowDownCircle, textClass: 'text-negative', badgeClass: 'bg-negative/20 text-negative-foreground border-negative/30' },
+  transfer: { label: 'Transferência', icon: ArrowRightLeft, textClass: 'text-muted-foreground', badgeClass: 'bg-muted text-muted-foreground border-border' },
+};
+
+// Reconciled transactions are locked until their reconciliation is undone on the accounts page.
+const RECONCILED_HINT = 'Conciliada com o extrato: desfaça a conciliação em Contas para alterá-la';
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type SortOption = 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc' | 'createdAt-desc';
+
+const sortOptionLabels: Record<SortOption, string> = {
+  'date-desc': 'Mais recentes',
+  'date-asc': 'Mais antigas',
+  'amount-desc': 'Maior valor',
+  'amount-asc': 'Menor valor',
+  'createdAt-desc': 'Últimas adicionadas',
+};
+
+interface TransactionFilters {
+  search: string;
+  type: 'all' | TransactionType;
+  category: string; // 'all' or a category name
+  accountId: string; // 'all', 'none' (no account) or an account id
+  tagId: string; // 'all' or a tag id
+  recurrence: 'all' | 'recurring' | RecurrenceFrequency;
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+  sort: SortOption;
+}
+
+const defaultFilters: TransactionFilters = {
+  search: '', type: 'all', category: 'all', accountId: 'all', tagId: 'all', recurrence: 'all', from: '', to: '', minAmount: '', maxAmount: '', sort: 'date-desc',
 };
 
+// Query string for GET /api/transactions; empty filters are left out.
+function toQueryString(filters: TransactionFilters, cursor: string | null): string {
+  const [sortBy, sortOrder] = filters.sort.split('-');
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), sortBy, sortOrder });
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.type !== 'all') params.set('type', filters.type);
+  if (filters.category !== 'all') params.set('category', filters.category);
+  if (filters.accountId !== 'all') params.set('accountId', filters.accountId);
+  if (filters.tagId !== 'all') params.set('tagId', filters.tagId);
+  if (filters.recurrence !== 'all') params.set('recurrence', filters.recurrence);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.minAmount.trim()) params.set('minAmount', filters.minAmount.trim());
+  if (filters.maxAmount.trim()) params.set('maxAmount', filters.maxAmount.trim());
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
 export default function TransactionsPage() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, getToken } = useAuth();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [filters, setFilters] = useState<TransactionFilters>(defaultFilters);
+  const [appliedFilters, setAppliedFilters] = useState<TransactionFilters>(defaultFilters);
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const categoryNames = useMemo(() => categories.map(category => category.name), [categories]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [destinationNames, setDestinationNames] = useState<Map<string, string>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const latestRequestRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [isDuplicatingId, setIsDuplicatingId] = useState<string | null>(null);
   const [isDeletingId, setIsDeletingId] = useState<string | null>(null);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
   const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
   const [transactionToEdit, setTransactionToEdit] = useState<Transaction | null>(null); // For editing
+  const [transactionForHistory, setTransactionForHistory] = useState<Transaction | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkEditOpen, setIsBulkEditOpen] = useState(false);
+  const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
+  const [isBulkSaving, setIsBulkSaving] = useState(false);
   const { toast } = useToast();
 
-  const fetchUserTransactions = useCallback(async () => {
+  // Loads the first page for the applied filters, or the page after `cursor`.
+  const fetchTransactionsPage = useCallback(async (cursor: string | null) => {
     if (!user) return;
-    setIsLoading(true);
+    const token = getToken();
+    if (!token) {
+      setError("Sessão inválida.");
+      setIsLoading(false);
+      return;
+    }
+    const requestId = ++latestRequestRef.current;
+    if (cursor) setIsLoadingMore(true); else setIsLoading(true);
     setError(null);
     try {
-      const userTransactions = await getTransactionsForUser(user.id);
-      setTransactions(userTransactions);
+      const response = await fetch(`/api/transactions?${toQueryString(appliedFilters, cursor)}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const result = await response.json();
+      if (requestId !== latestRequestRef.current) return; // Filters changed while this page was loading
+      if (response.ok && result.success) {
+        const page = result as TransactionPage;
+        setTransactions(previous => cursor ? [...previous, ...page.transactions] : page.transactions);
+        setNextCursor(page.nextCursor);
+        setTotalCount(page.totalCount);
+      } else if (response.status === 400) {
+        setError("Filtros inválidos. Verifique as datas e os valores informados.");
+      } else {
+        throw new Error(result.message || 'Failed to fetch transactions.');
+      }
     } catch (e: any) {
       const errorMessage = (e && typeof e.message === 'string') ? e.message : 'An unknown error occurred.';
       console.error("Failed to fetch transactions:", errorMessage);
@@ -80,9 +186,14 @@ export default function TransactionsPage() {
         description: "Não foi possível buscar suas transações.",
       });
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
     }
-  }, [toast, user]);
+  }, [appliedFilters, getToken, toast, user]);
+
+  const fetchUserTransactions = useCallback(() => fetchTransactionsPage(null), [fetchTransactionsPage]);
 
   useEffect(() => {
     if (user && !authLoading) {
@@ -90,6 +201,57 @@ export default function TransactionsPage() {
     }
   }, [fetchUserTransactions, user, authLoading]);
 
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedFilters(filters), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  // A selection only makes sense for the rows currently listed.
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [appliedFilters]);
+
+  useEffect(() => {
+    if (!user) return;
+    getCategoriesForUser(user.id)
+      .then(setCategories)
+      .catch((e: any) => console.error("Failed to fetch categories:", e?.message));
+    getAccountsForUser(user.id)
+      .then(setAccounts)
+      .catch((e: any) => console.error("Failed to fetch accounts:", e?.message));
+    getTagsForUser(user.id)
+      .then(setTags)
+      .catch((e: any) => console.error("Failed to fetch tags:", e?.message));
+    getPayeesForUser(user.id)
+      .then(setPayees)
+      .catch((e: any) => console.error("Failed to fetch payees:", e?.message));
+    Promise.all([getInvestmentsForUser(user.id), getFinancialGoalsForUser(user.id)])
+      .then(([investments, goals]) => setDestinationNames(new Map([
+        ...investments.map(investment => [`investment:${investment.id}`, investment.name] as [string, string]),
+        ...goals.map(goal => [`goal:${goal.id}`, goal.name] as [string, string]),
+      ])))
+      .catch((e: any) => console.error("Failed to fetch transfer destinations:", e?.message));
+  }, [user]);
+
+  // For transfers, where the money went as well: "Conta Corrente → Tesouro Selic".
+  const payeeNameOf = (transaction: Transaction) => payees.find(payee => payee.id === transaction.payeeId)?.name;
+
+  const accountNameOf = (transaction: Transaction) => {
+    const source = accounts.find(account => account.id === transaction.accountId)?.name;
+    if (transaction.type !== 'transfer') return source;
+    const destination = transaction.transferTo === 'account'
+      ? accounts.find(account => account.id === transaction.transferToId)?.name
+      : destinationNames.get(`${transaction.transferTo}:${transaction.transferToId}`);
+    return `${source || 'Sem conta'} → ${destination || 'Destino removido'}`;
+  };
+
+  const updateFilter = <K extends keyof TransactionFilters>(key: K, value: TransactionFilters[K]) => {
+    setFilters(previous => ({ ...previous, [key]: value }));
+  };
+
+  const hasActiveFilters = (Object.keys(defaultFilters) as Array<keyof TransactionFilters>)
+    .some(key => key !== 'sort' && filters[key] !== defaultFilters[key]);
+
   const handleTransactionUpserted = () => { // Renamed to reflect add or edit
     fetchUserTransactions(); 
     setIsModalOpen(false); // Close main modal
@@ -115,10 +277,22 @@ export default function TransactionsPage() {
         type: transaction.type,
         amount: transaction.amount,
         category: transaction.category,
+        splits: transaction.splits,
+        tagIds: transaction.tagIds,
+        payeeId: transaction.payeeId ?? null,
         description: transaction.description || '',
         date: format(new Date(), 'yyyy-MM-dd'), 
         recurrenceFrequency: transaction.recurrenceFrequency || 'none',
+        recurrenceInterval: transaction.recurrenceInterval,
+        recurrenceEndDate: transaction.recurrenceEndDate,
+        recurrenceCount: transaction.recurrenceCount,
+        recurrenceDayRule: transaction.recurrenceDayRule,
+        recurrenceWeekendShift: transaction.recurrenceWeekendShift,
         receiptImageUri: transaction.receiptImageUri, 
+        currency: transaction.currency,
+        accountId: transaction.accountId,
+        transferTo: transaction.transferTo,
+        transferToId: transaction.transferToId,
       };
 
       const result = await addTransaction(user.id, newTransactionData);
@@ -164,7 +338,8 @@ export default function TransactionsPage() {
       if (result.success) {
         toast({
           title: 'Transação Excluída!',
-          description: 'A transação foi excluída com sucesso.',
+          description: 'A transação foi movida para a Lixeira.',
+          action: <UndoDeleteAction userId={user.id} entity="transactions" itemId={transactionToDelete.id} onRestored={fetchUserTransactions} />,
         });
         fetchUserTransactions();
       } else {
@@ -188,7 +363,71 @@ export default function TransactionsPage() {
     }
   };
 
-  if (authLoading || isLoading && !transactions.length ) {
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(previous => {
+      const next = new Set(previous);
+      if (checked) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const allListedSelected = transactions.length > 0 && transactions.every(t => selectedIds.has(t.id));
+  const toggleAllListed = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(transactions.map(t => t.id)) : new Set());
+  };
+
+  // Sends one all-or-nothing batch; returns whether it was applied.
+  const submitTransactionBatch = async (request: TransactionBatchRequest, errorTitle: string): Promise<boolean> => {
+    setIsBulkSaving(true);
+    try {
+      const response = await fetch('/api/transactions/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+        body: JSON.stringify(request),
+      });
+      const result = await response.json();
+      if (response.ok && result.success) return true;
+      toast({
+        variant: 'destructive',
+        title: errorTitle,
+        description: response.status === 409
+          ? 'Algumas transações foram alteradas em outra aba ou dispositivo. A lista foi atualizada; revise e tente novamente.'
+          : result.errors?.[0]?.message || result.message || 'Nenhuma transação foi alterada.',
+      });
+      if (response.status === 409) fetchUserTransactions();
+      return false;
+    } catch (e: any) {
+      console.error('Error applying transaction batch:', e?.message);
+      toast({ variant: 'destructive', title: errorTitle, description: 'Ocorreu um erro ao comunicar com o servidor. Nenhuma transação foi alterada.' });
+      return false;
+    } finally {
+      setIsBulkSaving(false);
+    }
+  };
+
+  const applyBulkEdit = async (changes: UpdateTransactionData) => {
+    const selected = transactions.filter(t => selectedIds.has(t.id));
+    const applied = await submitTransactionBatch({
+      update: selected.map(t => ({ id: t.id, changes, version: t.updatedAt ?? t.createdAt })),
+    }, 'Erro ao Editar Transações');
+    if (!applied) return;
+    toast({ title: 'Transações Atualizadas!', description: `${selected.length} ${selected.length === 1 ? 'transação foi alterada' : 'transações foram alteradas'}.` });
+    setIsBulkEditOpen(false);
+    setSelectedIds(new Set());
+    fetchUserTransactions();
+  };
+
+  const confirmBulkDelete = async () => {
+    const ids = Array.from(selectedIds);
+    setShowBulkDeleteDialog(false);
+    const applied = await submitTransactionBatch({ delete: ids }, 'Erro ao Excluir Transações');
+    if (!applied) return;
+    toast({ title: 'Transações Excluídas!', description: `${ids.length} ${ids.length === 1 ? 'transação foi movida' : 'transações foram movidas'} para a Lixeira.` });
+    setSelectedIds(new Set());
+    fetchUserTransactions();
+  };
+
+  if (authLoading) {
     return <div className="flex items-center justify-center h-64"><Sun className="h-12 w-12 animate-spin text-primary" /><p className="ml-3 text-muted-foreground">Carregando...</p></div>;
   }
 
@@ -197,44 +436,72 @@ export default function TransactionsPage() {
       {transactions.map((transaction) => {
         const isActuallyRecurring = transaction.recurrenceFrequency && transaction.recurrenceFrequency !== 'none';
         const actionButtonsDisabled = !!isDuplicatingId || !!isDeletingId || !user;
+        const isReconciled = transaction.clearedStatus === 'reconciled';
+        const typeDisplay = transactionTypeDisplay[transaction.type];
         return (
           <Card key={transaction.id} className="shadow-sm">
             <CardHeader className="pb-3">
               <div className="flex justify-between items-start">
-                <div>
-                  <CardTitle className="text-base font-semibold">{transaction.description || 'Sem descrição'}</CardTitle>
-                  <CardDescription className="text-xs">{format(parseISO(transaction.date), 'dd/MM/yyyy', { locale: ptBR })}</CardDescription>
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    checked={selectedIds.has(transaction.id)}
+                    onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+                    aria-label="Selecionar transação"
+                    className="mt-1"
+                  />
+                  <div>
+                    <CardTitle className="text-base font-semibold">{transaction.description || 'Sem descrição'}</CardTitle>
+                    <CardDescription className="text-xs flex items-center">
+                      {format(parseISO(transaction.date), 'dd/MM/yyyy', { locale: ptBR })}
+                      {isReconciled && <Lock className="ml-1.5 h-3 w-3" aria-label={RECONCILED_HINT} />}
+                    </CardDescription>
+                  </div>
                 </div>
                 <Badge 
-                  variant={transaction.type === 'income' ? 'default' : 'destructive'} 
-                  className={cn(
-                    "text-xs",
-                    transaction.type === 'income' ? 'bg-positive/20 text-positive-foreground border-positive/30' : 'bg-negative/20 text-negative-foreground border-negative/30'
-                  )}
+                  variant={transaction.type === 'income' ? 'default' : transaction.type === 'expense' ? 'destructive' : 'secondary'} 
+                  className={cn("text-xs", typeDisplay.badgeClass)}
                 >
-                  {transaction.type === 'income' ? <ArrowUpCircle className="mr-1 h-3 w-3"/> : <ArrowDownCircle className="mr-1 h-3 w-3"/>}
-                  {transaction.type === 'income' ? 'Receita' : 'Despesa'}
+                  <typeDisplay.icon className="mr-1 h-3 w-3"/>
+                  {typeDisplay.label}
                 </Badge>
               </div>
             </CardHeader>
             <CardContent className="space-y-1 pb-3 text-sm">
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">Valor:</span>
-                <span className={`font-medium ${transaction.type === 'income' ? 'text-positive' : 'text-negative'}`}>
-                  {formatCurrency(transaction.amount)}
+                <span className={`font-medium ${typeDisplay.textClass}`}>
+                  {formatCurrency(transaction.amount, transaction.currency)}
                 </span>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">Categoria:</span>
                 <Badge variant={isActuallyRecurring ? "default" : "secondary"} className={cn("text-xs", isActuallyRecurring ? "bg-blue-100 text-blue-700 border-blue-300" : "")}>
-                  {transaction.category}
+                  {!transaction.splits?.length && <CategoryIcon category={findCategory(categories, transaction.category)} className="mr-1.5 h-3 w-3" />}
+                  {categoryLabel(transaction)}
                   {isActuallyRecurring && <CalendarClock className="ml-1.5 h-3 w-3" />}
                 </Badge>
               </div>
+              {payeeNameOf(transaction) && (
+                <div className="flex justify-between items-center text-xs text-muted-foreground">
+                  <span>Favorecido:</span>
+                  <span>{payeeNameOf(transaction)}</span>
+                </div>
+              )}
+              {accountNameOf(transaction) && (
+                <div className="flex justify-between items-center text-xs text-muted-foreground">
+                  <span>Conta:</span>
+                  <span>{accountNameOf(transaction)}</span>
+                </div>
+              )}
+              {tagsOf(transaction, tags).length > 0 && (
+                <div className="flex flex-wrap justify-end gap-1">
+                  {tagsOf(transaction, tags).map(tag => <Badge key={tag.id} variant="outline" className="text-xs font-normal">{tag.name}</Badge>)}
+                </div>
+              )}
                {isActuallyRecurring && (
                  <div className="flex justify-between items-center text-xs text-muted-foreground">
                    <span>Recorrência:</span>
-                   <span>{recurrenceFrequencyMap[transaction.recurrenceFrequency!]}</span>
+                   <span>{describeRecurrence(transaction)}</span>
                  </div>
                 )}
             </CardContent>
@@ -243,13 +510,23 @@ export default function TransactionsPage() {
                 variant="ghost"
                 size="icon"
                 onClick={() => handleOpenEditModal(transaction)}
-                disabled={actionButtonsDisabled}
+                disabled={actionButtonsDisabled || isReconciled}
                 aria-label="Editar transação"
                 className="h-7 w-7"
-                title="Editar transação"
+                title={isReconciled ? RECONCILED_HINT : "Editar transação"}
               >
                 <Edit3 className="h-3 w-3" />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTransactionForHistory(transaction)}
+                aria-label="Histórico da transação"
+                className="h-7 w-7"
+                title="Histórico de alterações"
+              >
+                <History className="h-3 w-3" />
+              </Button>
               {isActuallyRecurring && (
                 <Button
                   variant="ghost"
@@ -271,7 +548,7 @@ export default function TransactionsPage() {
                   variant="ghost"
                   size="icon"
                   onClick={() => handleDeleteTransaction(transaction)}
-                  disabled={isDeletingId === transaction.id || actionButtonsDisabled}
+                  disabled={isDeletingId === transaction.id || actionButtonsDisabled || isReconciled}
                   aria-label="Excluir transação"
                   className="h-7 w-7 text-destructive hover:text-destructive/80"
                 >
@@ -293,43 +570,63 @@ export default function TransactionsPage() {
     return transactions.map((transaction) => {
        const isActuallyRecurring = transaction.recurrenceFrequency && transaction.recurrenceFrequency !== 'none';
        const actionButtonsDisabled = !!isDuplicatingId || !!isDeletingId || !user;
+       const isReconciled = transaction.clearedStatus === 'reconciled';
+       const typeDisplay = transactionTypeDisplay[transaction.type];
        return (
-        <TableRow key={transaction.id}>
+        <TableRow key={transaction.id} data-state={selectedIds.has(transaction.id) ? 'selected' : undefined}>
+          <TableCell>
+            <Checkbox
+              checked={selectedIds.has(transaction.id)}
+              onCheckedChange={(checked) => toggleSelected(transaction.id, checked === true)}
+              aria-label="Selecionar transação"
+            />
+          </TableCell>
           <TableCell>
             {format(parseISO(transaction.date), 'dd/MM/yyyy', { locale: ptBR })}
+            {isReconciled && <Lock className="ml-1.5 inline h-3 w-3 text-muted-foreground" aria-label={RECONCILED_HINT} />}
           </TableCell>
           <TableCell className="font-medium max-w-[120px] sm:max-w-[200px] truncate" title={transaction.description}>
             {transaction.description || '-'}
+            {payeeNameOf(transaction) && <span className="block text-xs font-normal text-muted-foreground truncate">{payeeNameOf(transaction)}</span>}
+            {accountNameOf(transaction) && <span className="block text-xs font-normal text-muted-foreground truncate">{accountNameOf(transaction)}</span>}
           </TableCell>
           <TableCell>
             <Badge variant={isActuallyRecurring ? "default" : "secondary"} className={cn(isActuallyRecurring ? "bg-blue-500 hover:bg-blue-600 text-white" : "", "whitespace-nowrap")}>
-              {transaction.category}
-              {isActuallyRecurring && <CalendarClock className="ml-1.5 h-3 w-3" title={recurrenceFrequencyMap[transaction.recurrenceFrequency!]}/>}
+              {!transaction.splits?.length && <CategoryIcon category={findCategory(categories, transaction.category)} className="mr-1.5 h-3 w-3" />}
+              {categoryLabel(transaction)}
+              {isActuallyRecurring && <CalendarClock className="ml-1.5 h-3 w-3" title={describeRecurrence(transaction)}/>}
             </Badge>
+            {tagsOf(transaction, tags).map(tag => <Badge key={tag.id} variant="outline" className="ml-1 text-xs font-normal whitespace-nowrap">{tag.name}</Badge>)}
           </TableCell>
-          <TableCell className={`flex items-center ${transaction.type === 'income' ? 'text-positive' : 'text-negative'}`}>
-            {transaction.type === 'income' ? (
-              <ArrowUpCircle className="mr-2 h-4 w-4" />
-            ) : (
-              <ArrowDownCircle className="mr-2 h-4 w-4" />
-            )}
-            {transaction.type === 'income' ? 'Receita' : 'Despesa'}
+          <TableCell className={`flex items-center ${typeDisplay.textClass}`}>
+            <typeDisplay.icon className="mr-2 h-4 w-4" />
+            {typeDisplay.label}
           </TableCell>
-          <TableCell className={`text-right font-semibold ${transaction.type === 'income' ? 'text-positive' : 'text-negative'}`}>
-            {formatCurrency(transaction.amount)}
+          <TableCell className={`text-right font-semibold ${typeDisplay.textClass}`}>
+            {formatCurrency(transaction.amount, transaction.currency)}
           </TableCell>
           <TableCell className="text-right space-x-1">
             <Button
                 variant="ghost"
                 size="icon"
                 onClick={() => handleOpenEditModal(transaction)}
-                disabled={actionButtonsDisabled}
+                disabled={actionButtonsDisabled || isReconciled}
                 aria-label="Editar transação"
                 className="h-8 w-8"
-                title="Editar transação"
+                title={isReconciled ? RECONCILED_HINT : "Editar transação"}
               >
                 <Edit3 className="h-4 w-4" />
             </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setTransactionForHistory(transaction)}
+                aria-label="Histórico da transação"
+                className="h-8 w-8"
+                title="Histórico de alterações"
+              >
+                <History className="h-4 w-4" />
+            </Button>
             {isActuallyRecurring && (
               <Button
                 variant="ghost"
@@ -351,7 +648,7 @@ export default function TransactionsPage() {
                 variant="ghost"
                 size="icon"
                 onClick={() => handleDeleteTransaction(transaction)}
-                disabled={isDeletingId === transaction.id || actionButtonsDisabled}
+                disabled={isDeletingId === transaction.id || actionButtonsDisabled || isReconciled}
                 aria-label="Excluir transação"
                 className="h-8 w-8 text-destructive hover:text-destructive/80"
               >
@@ -421,6 +718,107 @@ export default function TransactionsPage() {
           <CardDescription>Veja todas as suas movimentações financeiras.</CardDescription>
         </CardHeader>
         <CardContent>
+          <div className="grid gap-2 mb-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="relative sm:col-span-2">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={filters.search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+                placeholder="Buscar por descrição ou categoria"
+                className="pl-8"
+                aria-label="Buscar transações"
+              />
+            </div>
+            <Select value={filters.type} onValueChange={(value) => updateFilter('type', value as TransactionFilters['type'])}>
+              <SelectTrigger aria-label="Tipo"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os tipos</SelectItem>
+                <SelectItem value="income">Receitas</SelectItem>
+                <SelectItem value="expense">Despesas</SelectItem>
+                <SelectItem value="transfer">Transferências</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.sort} onValueChange={(value) => updateFilter('sort', value as SortOption)}>
+              <SelectTrigger aria-label="Ordenação"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sortOptionLabels) as SortOption[]).map(option => (
+                  <SelectItem key={option} value={option}>{sortOptionLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.category} onValueChange={(value) => updateFilter('category', value)}>
+              <SelectTrigger aria-label="Categoria"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas as categorias</SelectItem>
+                {orderCategories(categories).map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.name} className={cn(depth > 0 && "pl-10")}>
+                    <span className="flex items-center gap-2"><CategoryIcon category={category} />{category.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {accounts.length > 0 && (
+              <Select value={filters.accountId} onValueChange={(value) => updateFilter('accountId', value)}>
+                <SelectTrigger aria-label="Conta"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as contas</SelectItem>
+                  <SelectItem value="none">Sem conta</SelectItem>
+                  {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+            {tags.length > 0 && (
+              <Select value={filters.tagId} onValueChange={(value) => updateFilter('tagId', value)}>
+                <SelectTrigger aria-label="Tag"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as tags</SelectItem>
+                  {tags.map(tag => <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={filters.recurrence} onValueChange={(value) => updateFilter('recurrence', value as TransactionFilters['recurrence'])}>
+              <SelectTrigger aria-label="Recorrência"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Qualquer recorrência</SelectItem>
+                <SelectItem value="recurring">Somente recorrentes</SelectItem>
+                {RECURRENCE_FREQUENCIES.map(frequency => (
+                  <SelectItem key={frequency} value={frequency}>{recurrenceFrequencyLabels[frequency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} aria-label="Data inicial" title="Data inicial" />
+              <Input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} aria-label="Data final" title="Data final" />
+            </div>
+            <div className="flex gap-2">
+              <Input inputMode="decimal" value={filters.minAmount} onChange={(e) => updateFilter('minAmount', e.target.value)} placeholder="Valor mín." aria-label="Valor mínimo" />
+              <Input inputMode="decimal" value={filters.maxAmount} onChange={(e) => updateFilter('maxAmount', e.target.value)} placeholder="Valor máx." aria-label="Valor máximo" />
+            </div>
+          </div>
+          <div className="flex items-center justify-between mb-4 text-xs text-muted-foreground">
+            <span>{isLoading ? 'Buscando...' : `${totalCount} ${totalCount === 1 ? 'transação encontrada' : 'transações encontradas'}`}</span>
+            {hasActiveFilters && (
+              <Button variant="ghost" size="sm" onClick={() => setFilters({ ...defaultFilters, sort: filters.sort })}>
+                <X className="mr-1 h-3 w-3" /> Limpar filtros
+              </Button>
+            )}
+          </div>
+          {selectedIds.size > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4 rounded-md border bg-muted/50 px-3 py-2">
+              <span className="text-sm">{selectedIds.size} {selectedIds.size === 1 ? 'selecionada' : 'selecionadas'}</span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())} disabled={isBulkSaving}>
+                  Limpar seleção
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsBulkEditOpen(true)} disabled={isBulkSaving}>
+                  <Edit3 className="mr-1 h-3 w-3" /> Editar selecionadas
+                </Button>
+                <Button variant="destructive" size="sm" onClick={() => setShowBulkDeleteDialog(true)} disabled={isBulkSaving}>
+                  {isBulkSaving ? <Sun className="mr-1 h-3 w-3 animate-spin" /> : <Trash2 className="mr-1 h-3 w-3" />} Excluir selecionadas
+                </Button>
+              </div>
+            </div>
+          )}
           {isLoading && transactions.length === 0 ? ( 
             <div className="h-[300px] flex items-center justify-center">
               <Sun className="h-8 w-8 animate-spin text-primary" />
@@ -435,7 +833,9 @@ export default function TransactionsPage() {
              <div className="h-[200px] md:h-[300px] flex flex-col items-center justify-center space-y-2 text-center">
                 <SearchX className="h-10 w-10 text-muted-foreground" />
                 <p className="text-muted-foreground">Nenhuma transação encontrada.</p>
-                <p className="text-xs text-muted-foreground">Adicione uma nova transação para começar.</p>
+                <p className="text-xs text-muted-foreground">
+                  {hasActiveFilters ? 'Ajuste ou limpe os filtros para ver mais resultados.' : 'Adicione uma nova transação para começar.'}
+                </p>
             </div>
           ) : (
             <>
@@ -444,6 +844,13 @@ export default function TransactionsPage() {
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allListedSelected}
+                          onCheckedChange={(checked) => toggleAllListed(checked === true)}
+                          aria-label="Selecionar todas as transações listadas"
+                        />
+                      </TableHead>
                       <TableHead>Data</TableHead>
                       <TableHead>Descrição</TableHead>
                       <TableHead>Categoria</TableHead>
@@ -457,17 +864,65 @@ export default function TransactionsPage() {
                   </TableBody>
                 </Table>
               </div>
+              {nextCursor && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" onClick={() => fetchTransactionsPage(nextCursor)} disabled={isLoadingMore}>
+                    {isLoadingMore ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Carregar mais ({transactions.length} de {totalCount})
+                  </Button>
+                </div>
+              )}
             </>
           )}
         </CardContent>
       </Card>
 
+      <RecordHistorySheet
+        entity="transactions"
+        recordId={transactionForHistory?.id ?? null}
+        title={transactionForHistory ? transactionForHistory.description || transactionForHistory.category : undefined}
+        currency={transactionForHistory?.currency}
+        open={!!transactionForHistory}
+        onOpenChange={(isOpen) => { if (!isOpen) setTransactionForHistory(null); }}
+      />
+
+      <BulkEditTransactionsDialog
+        open={isBulkEditOpen}
+        onOpenChange={setIsBulkEditOpen}
+        selectedCount={selectedIds.size}
+        categoryNames={categoryNames}
+        accounts={accounts}
+        isSaving={isBulkSaving}
+        onApply={applyBulkEdit}
+      />
+
+      <AlertDialog open={showBulkDeleteDialog} onOpenChange={setShowBulkDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir {selectedIds.size} {selectedIds.size === 1 ? 'transação' : 'transações'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As transações selecionadas ficarão na Lixeira, de onde podem ser restauradas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBulkSaving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmBulkDelete}
+              disabled={isBulkSaving || !user}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
             <AlertDialogDescription>
-              Tem certeza que deseja excluir a transação "{transactionToDelete?.description || 'selecionada'}" no valor de {formatCurrency(transactionToDelete?.amount || 0)}? Esta ação não pode ser desfeita.
+              Tem certeza que deseja excluir a transação "{transactionToDelete?.description || 'selecionada'}" no valor de {formatCurrency(transactionToDelete?.amount || 0, transactionToDelete?.currency)}? Ela ficará na Lixeira, de onde pode ser restaurada.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
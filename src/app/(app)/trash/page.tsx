@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from '@/components/ui/badge';
+import { Trash2, Sun, AlertTriangleIcon, SearchX, Undo2 } from "lucide-react";
+import type { TrashEntity, TrashItem } from '@/types';
+import { formatCurrency } from '@/lib/utils';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+
+const entityLabels: Record<TrashEntity, string> = {
+  accounts: 'Conta',
+  tags: 'Tag',
+  payees: 'Favorecido',
+  transactions: 'Transação',
+  creditCards: 'Cartão',
+  creditCardPurchases: 'Compra no Cartão',
+  loans: 'Empréstimo',
+  financialGoals: 'Meta',
+  investments: 'Investimento',
+};
+
+export default function TrashPage() {
+  const { user, loading: authLoading, getToken } = useAuth();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [itemToDelete, setItemToDelete] = useState<TrashItem | null>(null);
+  const [showEmptyConfirmDialog, setShowEmptyConfirmDialog] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    const token = getToken();
+    if (!token) {
+      setError("Sessão inválida.");
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/trash', { headers: { 'Authorization': `Bearer ${token}` } });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setItems(result.items);
+      } else {
+        setError(result.message || "Não foi possível carregar a lixeira.");
+      }
+    } catch (e: any) {
+      console.error("Error fetching trash:", e?.message);
+      setError("Não foi possível carregar a lixeira.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, getToken]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchTrash();
+    }
+  }, [authLoading, fetchTrash]);
+
+  const runItemAction = async (item: TrashItem, method: 'POST' | 'DELETE') => {
+    const token = getToken();
+    if (!token) {
+      toast({ variant: "destructive", title: "Erro de Autenticação", description: "Sessão inválida." });
+      return;
+    }
+    setBusyItemId(item.id);
+    try {
+      const response = await fetch(`/api/trash/${item.entity}/${item.id}`, { method, headers: { 'Authorization': `Bearer ${token}` } });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        toast(method === 'POST'
+          ? { title: 'Item Restaurado!', description: `${entityLabels[item.entity]} "${item.description}" foi restaurado(a).` }
+          : { title: 'Excluído Definitivamente', description: `"${item.description}" foi removido permanentemente.` });
+        fetchTrash();
+      } else {
+        toast({ variant: 'destructive', title: method === 'POST' ? 'Erro ao Restaurar' : 'Erro ao Excluir', description: result.message || 'Não foi possível concluir a ação.' });
+      }
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro de Rede', description: 'Falha ao comunicar com o servidor.' });
+    } finally {
+      setBusyItemId(null);
+      setItemToDelete(null);
+    }
+  };
+
+  const confirmEmptyTrash = async () => {
+    setShowEmptyConfirmDialog(false);
+    const token = getToken();
+    if (!token) {
+      toast({ variant: "destructive", title: "Erro de Autenticação", description: "Sessão inválida." });
+      return;
+    }
+    setBusyItemId('all');
+    try {
+      const response = await fetch('/api/trash', { method: 'DELETE', headers: { 'Authorization': `Bearer ${token}` } });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        toast({ title: 'Lixeira Esvaziada', description: 'Todos os itens foram removidos permanentemente.' });
+        fetchTrash();
+      } else {
+        toast({ variant: 'destructive', title: 'Erro', description: result.message || 'Não foi possível esvaziar a lixeira.' });
+      }
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro de Rede', description: 'Falha ao esvaziar a lixeira.' });
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  if (authLoading || (isLoading && !user)) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Sun className="h-12 w-12 animate-spin text-primary" />
+        <p className="ml-3 text-muted-foreground">Carregando...</p>
+      </div>
+    );
+  }
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="h-[300px] flex items-center justify-center">
+          <Sun className="h-8 w-8 animate-spin text-primary" />
+          <p className="ml-2 text-muted-foreground">Carregando lixeira...</p>
+        </div>
+      );
+    }
+    if (error) {
+      return (
+        <div className="h-[300px] flex flex-col items-center justify-center text-destructive">
+          <AlertTriangleIcon className="h-8 w-8 mb-2" />
+          <p>{error}</p>
+        </div>
+      );
+    }
+    if (items.length === 0) {
+      return (
+        <div className="h-[200px] md:h-[300px] flex flex-col items-center justify-center space-y-2 text-center">
+          <SearchX className="h-10 w-10 text-muted-foreground" />
+          <p className="text-muted-foreground">A lixeira está vazia.</p>
+          <p className="text-xs text-muted-foreground">Itens excluídos aparecem aqui e podem ser restaurados.</p>
+        </div>
+      );
+    }
+    return (
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tipo</TableHead>
+              <TableHead>Descrição</TableHead>
+              <TableHead className="text-right">Valor</TableHead>
+              <TableHead>Excluído em</TableHead>
+              <TableHead>Remoção definitiva</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map(item => (
+              <TableRow key={`${item.entity}-${item.id}`}>
+                <TableCell><Badge variant="secondary" className="whitespace-nowrap">{entityLabels[item.entity]}</Badge></TableCell>
+                <TableCell className="font-medium max-w-[200px] truncate" title={item.description}>
+                  {item.description}
+                  {item.childCount > 0 && (
+                    <span className="block text-xs text-muted-foreground">+ {item.childCount} {item.childCount === 1 ? 'item associado' : 'itens associados'}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{item.amount !== null && item.amount !== undefined ? formatCurrency(item.amount) : '-'}</TableCell>
+                <TableCell className="whitespace-nowrap">{format(new Date(item.deletedAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}</TableCell>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  {item.purgeAt ? `em ${formatDistanceToNowStrict(new Date(item.purgeAt), { locale: ptBR })}` : 'Nunca'}
+                </TableCell>
+                <TableCell className="text-right space-x-1 whitespace-nowrap">
+                  <Button variant="outline" size="sm" onClick={() => runItemAction(item, 'POST')} disabled={!!busyItemId}>
+                    {busyItemId === item.id ? <Sun className="mr-1 h-4 w-4 animate-spin" /> : <Undo2 className="mr-1 h-4 w-4" />}
+                    Restaurar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setItemToDelete(item)}
+                    disabled={!!busyItemId}
+                    aria-label="Excluir definitivamente"
+                    className="h-8 w-8 text-destructive hover:text-destructive/90"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight font-headline flex items-center">
+            <Trash2 className="mr-3 h-8 w-8 text-primary" />
+            Lixeira
+          </h1>
+          <p className="text-muted-foreground">
+            Restaure itens excluídos por engano. Eles são removidos definitivamente após o período de retenção.
+          </p>
+        </div>
+        <Button variant="destructive" onClick={() => setShowEmptyConfirmDialog(true)} disabled={items.length === 0 || !!busyItemId}>
+          {busyItemId === 'all' ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+          Esvaziar Lixeira
+        </Button>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Itens Excluídos</CardTitle>
+          <CardDescription>Restaurar um cartão também restaura as compras excluídas junto com ele.</CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+
+      <AlertDialog open={!!itemToDelete} onOpenChange={(isOpen) => { if (!isOpen) setItemToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir Definitivamente</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tem certeza que deseja excluir "{itemToDelete?.description}" permanentemente? Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => itemToDelete && runItemAction(itemToDelete, 'DELETE')}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={showEmptyConfirmDialog} onOpenChange={setShowEmptyConfirmDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Esvaziar Lixeira</AlertDialogTitle>
+            <AlertDialogDescription>
+              Todos os {items.length} itens da lixeira serão excluídos permanentemente. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmEmptyTrash} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Esvaziar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
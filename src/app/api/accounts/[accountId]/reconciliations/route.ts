@@ -0,0 +1,50 @@
+// src/app/api/accounts/[accountId]/reconciliations/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getReconciliationsForUser, startReconciliation } from '@/lib/databaseService';
+import type { ReconciliationData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+interface RouteParams {
+  params: {
+    accountId: string;
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const reconciliations = await getReconciliationsForUser(userId, params.accountId);
+    return NextResponse.json({ success: true, reconciliations }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get reconciliations error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Opens a reconciliation of the account against a statement's closing date and balance.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as ReconciliationData;
+    const result = await startReconciliation(userId, params.accountId, { statementDate: data.statementDate, statementBalance: data.statementBalance });
+    if (result.success && result.reconciliation) {
+      return NextResponse.json({ success: true, reconciliation: result.reconciliation, message: 'Reconciliation started.' }, { status: 201 });
+    }
+    const status = result.error?.includes('not found') ? 404 : result.error?.includes('in progress') ? 409 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to start the reconciliation.' }, { status });
+  } catch (error: any) {
+    console.error('Start reconciliation error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
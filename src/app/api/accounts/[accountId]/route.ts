@@ -0,0 +1,95 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { updateAccount, deleteAccount, getRecordForUser } from '@/lib/databaseService';
+import type { UpdateAccountData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
+import { requestedVersion } from '@/lib/concurrency';
+import { isCurrencyCode } from '@/lib/currency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
+
+interface RouteParams {
+  params: {
+    accountId: string;
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { accountId } = params;
+  const account = await getRecordForUser(userId, 'accounts', accountId);
+  if (!account) {
+    return NextResponse.json({ success: false, message: 'Account not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, account }, { status: 200, headers: etagHeaders(account) });
+}
+
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { accountId } = params;
+  if (!accountId) {
+    return NextResponse.json({ success: false, message: 'Account ID is required.' }, { status: 400 });
+  }
+
+  try {
+    const updateData = await req.json() as UpdateAccountData;
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'account');
+    if (versionError) return versionError;
+
+    if (updateData.openingBalance !== undefined) {
+      const openingBalance = parseMoney(updateData.openingBalance);
+      if (openingBalance === null) {
+        return NextResponse.json({ success: false, message: 'Invalid opening balance.' }, { status: 400 });
+      }
+      updateData.openingBalance = openingBalance;
+    }
+    if (updateData.currency !== undefined && !isCurrencyCode(updateData.currency)) {
+      return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
+
+    const result = await updateAccount(userId, accountId, updateData, expectedVersionOf(requested));
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Account updated successfully.', account: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'account');
+    } else {
+      const status = result.error?.includes("not found") ? 404
+        : result.error?.startsWith('Invalid') || result.error?.startsWith('Cannot') || result.error?.endsWith('is required.') ? 400
+        : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to update account.' }, { status });
+    }
+  } catch (error: any) {
+    console.error('Update account error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Also moves the account's transactions to the trash.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { accountId } = params;
+  if (!accountId) {
+    return NextResponse.json({ success: false, message: 'Account ID is required.' }, { status: 400 });
+  }
+
+  try {
+    const result = await deleteAccount(userId, accountId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Account deleted successfully.' }, { status: 200 });
+    } else {
+      return NextResponse.json({ success: false, message: result.error || 'Failed to delete account.' }, { status: result.error?.includes("not found") ? 404 : 500 });
+    }
+  } catch (error: any) {
+    console.error('Delete account error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { addAccount, getAccountsForUser } from '@/lib/databaseService';
+import type { Account, NewAccountData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
+
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const accountData = await req.json() as NewAccountData;
+
+    if (!accountData.name || !accountData.type) {
+      return NextResponse.json({ success: false, message: 'Name and type are required.' }, { status: 400 });
+    }
+    if (accountData.openingBalance !== undefined) {
+      const openingBalance = parseMoney(accountData.openingBalance);
+      if (openingBalance === null) {
+        return NextResponse.json({ success: false, message: 'Invalid opening balance.' }, { status: 400 });
+      }
+      accountData.openingBalance = openingBalance;
+    }
+    if (accountData.currency !== undefined && !isCurrencyCode(accountData.currency)) {
+      return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
+
+    const result = await addAccount(userId, accountData);
+    if (result.success && result.accountId) {
+      return NextResponse.json({ success: true, accountId: result.accountId, message: 'Account added successfully.' }, { status: 201 });
+    } else {
+      const status = result.error?.startsWith('Invalid') || result.error?.endsWith('is required.') ? 400 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to add account.' }, { status });
+    }
+  } catch (error: any) {
+    console.error('Add account API error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const accounts: Account[] = await getAccountsForUser(userId);
+    return NextResponse.json({ success: true, accounts }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get accounts error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/attachments/[attachmentId]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { deleteAttachment, getAttachmentFile } from '@/lib/databaseService';
+import type { UpdateResult } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+interface RouteParams {
+  params: {
+    attachmentId: string;
+  };
+}
+
+// The file itself, shown inline; ?thumbnail=1 for the preview of an image, ?download=1 to save it.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const thumbnail = req.nextUrl.searchParams.get('thumbnail') === '1';
+
+  try {
+    const file = await getAttachmentFile(userId, params.attachmentId, thumbnail);
+    if (!file) {
+      return NextResponse.json({ success: false, message: 'Attachment not found.' }, { status: 404 });
+    }
+    const { attachment, data } = file;
+    const disposition = req.nextUrl.searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    // The plain name is for old clients; filename* carries accents and other non-ASCII characters.
+    const asciiName = attachment.fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return new NextResponse(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': thumbnail ? 'image/jpeg' : attachment.contentType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('Get attachment file error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Deletes the attachment and its file permanently.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const result: UpdateResult = await deleteAttachment(userId, params.attachmentId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Attachment deleted successfully.' }, { status: 200 });
+    }
+    return NextResponse.json({ success: false, message: result.error || 'Failed to delete attachment.' }, { status: result.error?.includes('not found') ? 404 : 500 });
+  } catch (error: any) {
+    console.error('Delete attachment error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+// src/app/api/attachments/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { addAttachment, getAttachmentsForUser } from '@/lib/databaseService';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { isAttachmentOwner } from '@/lib/attachments';
+
+// Lists the attachments of one record: ?ownerEntity=transactions&ownerId=...
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const ownerEntity = req.nextUrl.searchParams.get('ownerEntity');
+  const ownerId = req.nextUrl.searchParams.get('ownerId');
+  if (!isAttachmentOwner(ownerEntity) || !ownerId) {
+    return NextResponse.json({ success: false, message: 'A valid ownerEntity and an ownerId are required.' }, { status: 400 });
+  }
+
+  try {
+    const attachments = await getAttachmentsForUser(userId, { ownerEntity, ownerId });
+    return NextResponse.json({ success: true, attachments }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get attachments error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Uploads one file as multipart/form-data with the fields file, ownerEntity and ownerId.
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ success: false, message: 'Expected a multipart/form-data body.' }, { status: 400 });
+  }
+  const file = form.get('file');
+  const ownerEntity = form.get('ownerEntity');
+  const ownerId = form.get('ownerId');
+  if (!(file instanceof Blob) || !isAttachmentOwner(ownerEntity) || typeof ownerId !== 'string' || !ownerId) {
+    return NextResponse.json({ success: false, message: 'A file, a valid ownerEntity and an ownerId are required.' }, { status: 400 });
+  }
+
+  try {
+    const result = await addAttachment(userId, ownerEntity, ownerId, {
+      fileName: file instanceof File ? file.name : '',
+      contentType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    if (result.success) {
+      return NextResponse.json({ success: true, attachment: result.attachment, message: 'File attached successfully.' }, { status: 201 });
+    }
+    const error = result.error || '';
+    const status = error.includes('not found') ? 404
+      : error.includes('at most') ? 413
+      : error.includes('not configured correctly') ? 503
+      : error.startsWith('Database') || error.startsWith('Error') ? 500
+      : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to attach file.' }, { status });
+  } catch (error: any) {
+    console.error('Add attachment API error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
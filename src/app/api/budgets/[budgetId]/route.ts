@@ -0,0 +1,75 @@
+// src/app/api/budgets/[budgetId]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { deleteBudget, getRecordForUser, updateBudget } from '@/lib/databaseService';
+import type { UpdateBudgetData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
+
+interface RouteParams {
+  params: {
+    budgetId: string;
+  };
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const budget = await getRecordForUser(userId, 'budgets', params.budgetId);
+  if (!budget) {
+    return NextResponse.json({ success: false, message: 'Budget not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, budget }, { status: 200, headers: etagHeaders(budget) });
+}
+
+// Changes the amount, rollover or start month; a budget stays with its category.
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as UpdateBudgetData;
+    const requested = requestedVersion(req.headers, data);
+    const versionError = versionErrorResponse(requested, 'budget');
+    if (versionError) return versionError;
+
+    const result = await updateBudget(userId, params.budgetId, {
+      amount: data.amount,
+      rollover: data.rollover,
+      startMonth: data.startMonth,
+    }, expectedVersionOf(requested));
+    if (result.success) {
+      return NextResponse.json({ success: true, budget: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'budget');
+    }
+    const status = result.error?.includes('not found') ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to update budget.' }, { status });
+  } catch (error: any) {
+    console.error('Update budget error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const result = await deleteBudget(userId, params.budgetId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Budget deleted successfully.' }, { status: 200 });
+    }
+    const status = result.error?.includes('not found') ? 404 : 500;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to delete budget.' }, { status });
+  } catch (error: any) {
+    console.error('Delete budget error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/budgets/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { addBudget, getBudgetsForUser } from '@/lib/databaseService';
+import type { NewBudgetData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const budgets = await getBudgetsForUser(userId);
+    return NextResponse.json({ success: true, budgets }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get budgets error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as NewBudgetData;
+    const result = await addBudget(userId, {
+      categoryId: data.categoryId,
+      amount: data.amount,
+      rollover: data.rollover,
+      startMonth: data.startMonth,
+    });
+    if (result.success && result.budget) {
+      return NextResponse.json({ success: true, budget: result.budget, message: 'Budget added successfully.' }, { status: 201 });
+    }
+    const status = result.error?.includes('not found') ? 404 : result.error?.includes('already has') ? 409 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to add budget.' }, { status });
+  } catch (error: any) {
+    console.error('Add budget error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
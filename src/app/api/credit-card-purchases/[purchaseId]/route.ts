@@ -1,8 +1,12 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
-import { updateCreditCardPurchase, deleteCreditCardPurchase, getCreditCardPurchasesForUser } from '@/lib/databaseService'; // Assuming getCreditCardPurchaseById might be needed, or adapt getCreditCardPurchasesForUser
-import type { UpdateCreditCardPurchaseData, UpdateResult, CreditCardPurchase } from '@/types';
+import { updateCreditCardPurchase, deleteCreditCardPurchase, getCreditCardPurchasesForUser, getRecordForUser } from '@/lib/databaseService'; // Assuming getCreditCardPurchaseById might be needed, or adapt getCreditCardPurchasesForUser
+import type { UpdateCreditCardPurchaseData, UpdateResult, CreditCardPurchase, CategorySplit } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { multiplyMoney, parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 interface RouteParams {
   params: {
@@ -16,11 +20,30 @@ interface UpdateCreditCardPurchaseClientData {
     date?: string;
     description?: string;
     category?: string;
-    installmentAmount?: number; // Client sends installmentAmount
+    splits?: CategorySplit[] | null;
+    tagIds?: string[] | null;
+    payeeId?: string | null;
+    installmentAmount?: number; // Client sends installmentAmount...
+    totalAmount?: number; // ...or the exact total, which takes precedence
     installments?: number;
+    currency?: string;
+    version?: number;
 }
 
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { purchaseId } = params;
+  const purchase = await getRecordForUser(userId, 'creditCardPurchases', purchaseId);
+  if (!purchase) {
+    return NextResponse.json({ success: false, message: 'Purchase not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, purchase }, { status: 200, headers: etagHeaders(purchase) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -33,19 +56,29 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
   try {
     const clientUpdateData = await req.json() as UpdateCreditCardPurchaseClientData;
-    
+    const requested = requestedVersion(req.headers, clientUpdateData);
+    const versionError = versionErrorResponse(requested, 'credit card purchase');
+    if (versionError) return versionError;
+    if (clientUpdateData.currency !== undefined && !isCurrencyCode(clientUpdateData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
+
     // Prepare data for databaseService, which expects totalAmount
     const dataForDb: Partial<UpdateCreditCardPurchaseData> = {
         cardId: clientUpdateData.cardId,
         date: clientUpdateData.date,
         description: clientUpdateData.description,
         category: clientUpdateData.category,
+        splits: clientUpdateData.splits,
+        tagIds: clientUpdateData.tagIds,
+        payeeId: clientUpdateData.payeeId,
         // totalAmount will be calculated if installmentAmount or installments are provided
         installments: clientUpdateData.installments,
+        currency: clientUpdateData.currency,
     };
 
-    // If installmentAmount or installments are changing, recalculate totalAmount
-    if (clientUpdateData.installmentAmount !== undefined || clientUpdateData.installments !== undefined) {
+    // If the total, installmentAmount or installments are changing, recalculate totalAmount
+    if (clientUpdateData.totalAmount !== undefined || clientUpdateData.installmentAmount !== undefined || clientUpdateData.installments !== undefined) {
         // To correctly recalculate, we need the existing purchase data if not all parts are provided
         const allPurchases = await getCreditCardPurchasesForUser(userId); // Fetch all and find
         const existingPurchase = allPurchases.find(p => p.id === purchaseId);
@@ -54,22 +87,29 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
             return NextResponse.json({ success: false, message: 'Purchase not found for update.' }, { status: 404 });
         }
 
-        const newInstallmentAmount = clientUpdateData.installmentAmount !== undefined 
-            ? clientUpdateData.installmentAmount 
-            : (existingPurchase.totalAmount / existingPurchase.installments);
-        
         const newInstallments = clientUpdateData.installments !== undefined 
             ? clientUpdateData.installments 
             : existingPurchase.installments;
 
-        if (newInstallmentAmount <= 0) {
-            return NextResponse.json({ success: false, message: 'Installment amount must be positive.' }, { status: 400 });
-        }
         if (newInstallments <= 0 || !Number.isInteger(newInstallments)) {
             return NextResponse.json({ success: false, message: 'Installments must be a positive integer.' }, { status: 400 });
         }
+
+        // Without an explicit total or installment amount the total stays as it is
+        // and is re-split over the new number of installments.
+        let newTotalAmount: number | null = existingPurchase.totalAmount;
+        if (clientUpdateData.totalAmount !== undefined) {
+            newTotalAmount = parseMoney(clientUpdateData.totalAmount);
+        } else if (clientUpdateData.installmentAmount !== undefined) {
+            const newInstallmentAmount = parseMoney(clientUpdateData.installmentAmount);
+            newTotalAmount = newInstallmentAmount === null ? null : multiplyMoney(newInstallmentAmount, newInstallments);
+        }
+
+        if (newTotalAmount === null || newTotalAmount <= 0) {
+            return NextResponse.json({ success: false, message: 'Installment amount must be positive.' }, { status: 400 });
+        }
         
-        dataForDb.totalAmount = parseFloat((newInstallmentAmount * newInstallments).toFixed(2));
+        dataForDb.totalAmount = newTotalAmount;
         dataForDb.installments = newInstallments; // Ensure installments is set for DB
     }
 
@@ -85,11 +125,13 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
     }
 
 
-    const result: UpdateResult = await updateCreditCardPurchase(userId, purchaseId, dataForDb);
+    const result = await updateCreditCardPurchase(userId, purchaseId, dataForDb, expectedVersionOf(requested));
     if (result.success) {
-      return NextResponse.json({ success: true, message: 'Credit card purchase updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Credit card purchase updated successfully.', purchase: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'credit card purchase');
     } else {
-      return NextResponse.json({ success: false, message: result.error || 'Failed to update credit card purchase.' }, { status: result.error?.includes("not found") ? 404 : 500 });
+      return NextResponse.json({ success: false, message: result.error || 'Failed to update credit card purchase.' }, { status: /split|tag|payee/i.test(result.error || '') ? 400 : result.error?.includes("not found") ? 404 : 500 });
     }
   } catch (error: any) {
     console.error('Update credit card purchase error:', error);
@@ -0,0 +1,35 @@
+// src/app/api/credit-card-purchases/batch/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { applyCreditCardPurchaseBatch } from '@/lib/databaseService';
+import type { CreditCardPurchaseBatchRequest, BatchResult } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+// All-or-nothing { create, update, delete } for credit card purchases; see applyCreditCardPurchaseBatch.
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const batch = await req.json() as CreditCardPurchaseBatchRequest;
+    const result: BatchResult = await applyCreditCardPurchaseBatch(userId, batch);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Credit card purchases saved successfully.', created: result.created, updated: result.updated, deleted: result.deleted }, { status: 200 });
+    }
+    if (!result.errors) {
+      const status = result.error?.startsWith('Database') ? 500 : 400;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to save credit card purchases.' }, { status });
+    }
+    return NextResponse.json(
+      { success: false, message: result.error, errors: result.errors },
+      { status: result.versionRequired ? 428 : result.conflict ? 409 : 400 }
+    );
+  } catch (error: any) {
+    console.error('Credit card purchases batch API error:', error);
+    if (error instanceof SyntaxError) {
+        return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -2,17 +2,24 @@
 // src/app/api/credit-card-purchases/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
 import { addCreditCardPurchase, getCreditCardPurchasesForUser } from '@/lib/databaseService';
-import type { NewCreditCardPurchaseData, CreditCardPurchase, AddCreditCardPurchaseResult } from '@/types';
+import type { NewCreditCardPurchaseData, CreditCardPurchase, AddCreditCardPurchaseResult, CategorySplit } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { multiplyMoney, parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
 
 // Interface for the data expected from the client for POST
 interface NewCreditCardPurchaseClientData {
   cardId: string;
   date: string;
   description: string;
-  category: string;
-  installmentAmount: number; // Client sends installmentAmount
+  category?: string; // Optional when split
+  splits?: CategorySplit[] | null;
+  tagIds?: string[] | null;
+  payeeId?: string | null;
+  installmentAmount?: number; // Client sends installmentAmount...
+  totalAmount?: number; // ...or the exact total, which takes precedence
   installments: number;
+  currency?: string;
 }
 
 export async function POST(req: NextRequest) {
@@ -24,22 +31,33 @@ export async function POST(req: NextRequest) {
   try {
     const clientData = await req.json() as NewCreditCardPurchaseClientData;
 
+    const installmentAmount = parseMoney(clientData.installmentAmount);
+    const validInstallments = Number.isInteger(clientData.installments) && clientData.installments >= 1;
+    // Calculate totalAmount (in cents) unless the client sent it
+    const totalAmount = clientData.totalAmount !== undefined
+      ? parseMoney(clientData.totalAmount)
+      : installmentAmount !== null && validInstallments ? multiplyMoney(installmentAmount, clientData.installments) : null;
+
     // Basic validation for client data
-    if (!clientData.cardId || !clientData.date || !clientData.description || !clientData.category || typeof clientData.installmentAmount !== 'number' || clientData.installmentAmount <= 0 || typeof clientData.installments !== 'number' || clientData.installments < 1) {
+    if (!clientData.cardId || !clientData.date || !clientData.description || (!clientData.category && !clientData.splits?.length) || totalAmount === null || totalAmount <= 0 || !validInstallments) {
       return NextResponse.json({ success: false, message: 'Missing or invalid required fields for credit card purchase.' }, { status: 400 });
     }
-
-    // Calculate totalAmount
-    const totalAmount = parseFloat((clientData.installmentAmount * clientData.installments).toFixed(2));
+    if (clientData.currency !== undefined && !isCurrencyCode(clientData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
     // Prepare data for databaseService (which expects totalAmount)
     const purchaseDataForDb: NewCreditCardPurchaseData = {
       cardId: clientData.cardId,
       date: clientData.date,
       description: clientData.description,
-      category: clientData.category,
+      category: clientData.category ?? '',
+      splits: clientData.splits,
+      tagIds: clientData.tagIds,
+      payeeId: clientData.payeeId,
       totalAmount: totalAmount, // Use calculated totalAmount
       installments: clientData.installments,
+      currency: clientData.currency,
     };
 
     const result: AddCreditCardPurchaseResult = await addCreditCardPurchase(userId, purchaseDataForDb);
@@ -47,7 +65,8 @@ export async function POST(req: NextRequest) {
     if (result.success && result.purchaseId) {
       return NextResponse.json({ success: true, purchaseId: result.purchaseId, message: 'Credit card purchase added successfully.' }, { status: 201 });
     } else {
-      return NextResponse.json({ success: false, message: result.error || 'Failed to add credit card purchase.' }, { status: 500 });
+      const status = /split|tag|payee/i.test(result.error || '') ? 400 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to add credit card purchase.' }, { status });
     }
   } catch (error: any) {
     console.error('Add credit card purchase API error:', error);
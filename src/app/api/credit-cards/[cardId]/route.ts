@@ -1,8 +1,10 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
-import { updateCreditCard, deleteCreditCard } from '@/lib/databaseService';
+import { updateCreditCard, deleteCreditCard, getRecordForUser } from '@/lib/databaseService';
 import type { UpdateCreditCardData, UpdateResult } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 interface RouteParams {
   params: {
@@ -10,6 +12,19 @@ interface RouteParams {
   };
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { cardId } = params;
+  const creditCard = await getRecordForUser(userId, 'creditCards', cardId);
+  if (!creditCard) {
+    return NextResponse.json({ success: false, message: 'Credit card not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, creditCard }, { status: 200, headers: etagHeaders(creditCard) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -22,6 +37,9 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
   try {
     const updateData = await req.json() as UpdateCreditCardData;
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'credit card');
+    if (versionError) return versionError;
     
     // Basic validation for update data
     if (updateData.name !== undefined) {
@@ -46,9 +64,11 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
     }
 
 
-    const result: UpdateResult = await updateCreditCard(userId, cardId, updateData);
+    const result = await updateCreditCard(userId, cardId, updateData, expectedVersionOf(requested));
     if (result.success) {
-      return NextResponse.json({ success: true, message: 'Credit card updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Credit card updated successfully.', creditCard: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'credit card');
     } else {
       return NextResponse.json({ success: false, message: result.error || 'Failed to update credit card.' }, { status: result.error?.includes("not found") ? 404 : 500 });
     }
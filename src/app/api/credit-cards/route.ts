@@ -4,6 +4,7 @@ import { NextResponse, type NextRequest } from 'next/server';
 import { addCreditCard, getCreditCardsForUser } from '@/lib/databaseService';
 import type { NewCreditCardData, CreditCard, AddCreditCardResult } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
 
 export async function POST(req: NextRequest) {
   const userId = await getUserIdFromAuthHeader(req);
@@ -18,9 +19,11 @@ export async function POST(req: NextRequest) {
     if (!cardData.name || cardData.name.trim().length === 0 || cardData.name.length > 50) {
         return NextResponse.json({ success: false, message: 'Invalid card name.' }, { status: 400 });
     }
-    if (typeof cardData.limit !== 'number' || cardData.limit <= 0) {
+    const limit = parseMoney(cardData.limit);
+    if (limit === null || limit <= 0) {
         return NextResponse.json({ success: false, message: 'Limit must be a positive number.' }, { status: 400 });
     }
+    cardData.limit = limit;
     if (typeof cardData.dueDateDay !== 'number' || cardData.dueDateDay < 1 || cardData.dueDateDay > 31) {
         return NextResponse.json({ success: false, message: 'Due date day must be between 1 and 31.' }, { status: 400 });
     }
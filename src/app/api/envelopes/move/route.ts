@@ -0,0 +1,33 @@
+// src/app/api/envelopes/move/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { moveEnvelopeMoney } from '@/lib/databaseService';
+import type { EnvelopeMoveData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as EnvelopeMoveData;
+    const result = await moveEnvelopeMoney(userId, {
+      month: data.month,
+      fromCategoryId: data.fromCategoryId ?? null,
+      toCategoryId: data.toCategoryId ?? null,
+      amount: data.amount,
+    });
+    if (result.success && result.assignments) {
+      return NextResponse.json({ success: true, assignments: result.assignments, message: 'Money moved successfully.' }, { status: 200 });
+    }
+    const status = result.conflict ? 409 : result.error?.includes('not found') ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to move money.' }, { status });
+  } catch (error: any) {
+    console.error('Move envelope money error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
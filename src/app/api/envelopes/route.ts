@@ -0,0 +1,44 @@
+// src/app/api/envelopes/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { assignToEnvelope, getEnvelopeAssignmentsForUser } from '@/lib/databaseService';
+import type { EnvelopeAssignmentData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const assignments = await getEnvelopeAssignmentsForUser(userId);
+    return NextResponse.json({ success: true, assignments }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get envelope assignments error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+/** Sets the month's amount of one envelope. */
+export async function PUT(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as EnvelopeAssignmentData;
+    const result = await assignToEnvelope(userId, { categoryId: data.categoryId, month: data.month, amount: data.amount });
+    if (result.success && result.assignments) {
+      return NextResponse.json({ success: true, assignment: result.assignments[0] }, { status: 200 });
+    }
+    const status = result.conflict ? 409 : result.error?.includes('not found') ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to assign money.' }, { status });
+  } catch (error: any) {
+    console.error('Assign to envelope error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
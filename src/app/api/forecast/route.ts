@@ -0,0 +1,29 @@
+// src/app/api/forecast/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getCashFlowForecast } from '@/lib/databaseService';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { DEFAULT_FORECAST_MONTHS, isForecastMonths, MAX_FORECAST_MONTHS, MIN_FORECAST_MONTHS } from '@/lib/forecast';
+
+// Daily balance projected for the next ?months= months (3 to 24, 6 by default), in the base currency.
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const param = req.nextUrl.searchParams.get('months');
+  const months = param === null ? DEFAULT_FORECAST_MONTHS : Number(param);
+  if (!isForecastMonths(months)) {
+    return NextResponse.json({ success: false, message: `Months must be a whole number from ${MIN_FORECAST_MONTHS} to ${MAX_FORECAST_MONTHS}.` }, { status: 400 });
+  }
+
+  try {
+    const result = await getCashFlowForecast(userId, months);
+    if (result.success && result.forecast) {
+      return NextResponse.json({ success: true, forecast: result.forecast }, { status: 200 });
+    }
+    return NextResponse.json({ success: false, message: result.error || 'Failed to compute the forecast.' }, { status: result.error?.startsWith('Database') ? 500 : 400 });
+  } catch (error: any) {
+    console.error('Get forecast error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
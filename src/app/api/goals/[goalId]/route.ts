@@ -2,9 +2,12 @@
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
 // import { cookies } from 'next/headers'; // No longer using cookies
-import { updateFinancialGoal, deleteFinancialGoal } from '@/lib/databaseService';
+import { updateFinancialGoal, deleteFinancialGoal, getRecordForUser } from '@/lib/databaseService';
 import type { UpdateFinancialGoalData } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { isCurrencyCode } from '@/lib/currency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 // Removed authenticateUser function
 
@@ -14,6 +17,19 @@ interface RouteParams {
   };
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { goalId } = params;
+  const goal = await getRecordForUser(userId, 'financialGoals', goalId);
+  if (!goal) {
+    return NextResponse.json({ success: false, message: 'Financial goal not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, goal }, { status: 200, headers: etagHeaders(goal) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -26,16 +42,24 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
   try {
     const updateData = await req.json() as UpdateFinancialGoalData;
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'financial goal');
+    if (versionError) return versionError;
     if (updateData.targetAmount !== undefined && updateData.targetAmount <= 0) {
         return NextResponse.json({ success: false, message: 'Target amount must be positive.' }, { status: 400 });
     }
     if (updateData.currentAmount !== undefined && updateData.currentAmount < 0) {
         return NextResponse.json({ success: false, message: 'Current amount cannot be negative.' }, { status: 400 });
     }
+    if (updateData.currency !== undefined && !isCurrencyCode(updateData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
-    const result = await updateFinancialGoal(userId, goalId, updateData);
+    const result = await updateFinancialGoal(userId, goalId, updateData, expectedVersionOf(requested));
     if (result.success) {
-      return NextResponse.json({ success: true, message: 'Financial goal updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Financial goal updated successfully.', goal: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'financial goal');
     } else {
       return NextResponse.json({ success: false, message: result.error || 'Failed to update financial goal.' }, { status: result.error?.includes("not found") ? 404 : 500 });
     }
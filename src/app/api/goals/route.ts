@@ -1,6 +1,8 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
+import { parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
 // import { cookies } from 'next/headers'; // No longer using cookies
 import { addFinancialGoal, getFinancialGoalsForUser } from '@/lib/databaseService';
 import type { NewFinancialGoalData, FinancialGoal } from '@/types';
@@ -16,9 +18,14 @@ export async function POST(req: NextRequest) {
 
   try {
     const goalData = await req.json() as NewFinancialGoalData;
-    if (!goalData.name || typeof goalData.targetAmount !== 'number' || goalData.targetAmount <= 0) {
+    const targetAmount = parseMoney(goalData.targetAmount);
+    if (!goalData.name || targetAmount === null || targetAmount <= 0) {
         return NextResponse.json({ success: false, message: 'Name and positive target amount are required.' }, { status: 400 });
     }
+    goalData.targetAmount = targetAmount;
+    if (goalData.currency !== undefined && !isCurrencyCode(goalData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
     const result = await addFinancialGoal(userId, goalData);
     if (result.success && result.goalId) {
@@ -0,0 +1,29 @@
+// src/app/api/history/[entity]/[recordId]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRecordHistory } from '@/lib/databaseService';
+import type { UserEntityName } from '@/lib/storage';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+interface RouteParams {
+  params: {
+    entity: UserEntityName;
+    recordId: string;
+  };
+}
+
+// Change history of one record (including trashed and permanently deleted ones), oldest first.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { entity, recordId } = params;
+
+  try {
+    const events = await getRecordHistory(userId, entity, recordId);
+    return NextResponse.json({ success: true, events }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get record history error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
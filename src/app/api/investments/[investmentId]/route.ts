@@ -2,9 +2,12 @@
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
 // import { cookies } from 'next/headers'; // No longer using cookies
-import { updateInvestment, deleteInvestment } from '@/lib/databaseService';
+import { updateInvestment, deleteInvestment, getRecordForUser } from '@/lib/databaseService';
 import type { UpdateInvestmentData } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { isCurrencyCode } from '@/lib/currency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 // Removed authenticateUser function
 
@@ -14,6 +17,19 @@ interface RouteParams {
   };
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { investmentId } = params;
+  const investment = await getRecordForUser(userId, 'investments', investmentId);
+  if (!investment) {
+    return NextResponse.json({ success: false, message: 'Investment not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, investment }, { status: 200, headers: etagHeaders(investment) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -26,6 +42,9 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
   try {
     const updateData = await req.json() as UpdateInvestmentData;
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'investment');
+    if (versionError) return versionError;
     
     if (updateData.currentValue !== undefined && updateData.currentValue < 0) {
         return NextResponse.json({ success: false, message: 'Current value cannot be negative.' }, { status: 400 });
@@ -36,10 +55,15 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
     if (updateData.quantity !== undefined && updateData.quantity != null && updateData.quantity < 0) {
         return NextResponse.json({ success: false, message: 'Quantity cannot be negative.' }, { status: 400 });
     }
+    if (updateData.currency !== undefined && !isCurrencyCode(updateData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
-    const result = await updateInvestment(userId, investmentId, updateData);
+    const result = await updateInvestment(userId, investmentId, updateData, expectedVersionOf(requested));
     if (result.success) {
-      return NextResponse.json({ success: true, message: 'Investment updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Investment updated successfully.', investment: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'investment');
     } else {
       return NextResponse.json({ success: false, message: result.error || 'Failed to update investment.' }, { status: result.error?.includes("not found") ? 404 : 500 });
     }
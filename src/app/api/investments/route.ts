@@ -1,6 +1,8 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
+import { parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
 // import { cookies } from 'next/headers'; // No longer using cookies
 import { addInvestment, getInvestmentsForUser } from '@/lib/databaseService';
 import type { NewInvestmentData, Investment } from '@/types';
@@ -17,9 +19,11 @@ export async function POST(req: NextRequest) {
   try {
     const investmentData = await req.json() as NewInvestmentData;
     
-    if (!investmentData.name || typeof investmentData.currentValue !== 'number') {
+    const currentValue = parseMoney(investmentData.currentValue);
+    if (!investmentData.name || currentValue === null) {
         return NextResponse.json({ success: false, message: 'Name and current value are required.' }, { status: 400 });
     }
+    investmentData.currentValue = currentValue;
     if (investmentData.currentValue < 0) {
         return NextResponse.json({ success: false, message: 'Current value cannot be negative.' }, { status: 400 });
     }
@@ -29,6 +33,9 @@ export async function POST(req: NextRequest) {
      if (investmentData.quantity !== undefined && investmentData.quantity != null && investmentData.quantity < 0) {
         return NextResponse.json({ success: false, message: 'Quantity cannot be negative.' }, { status: 400 });
     }
+    if (investmentData.currency !== undefined && !isCurrencyCode(investmentData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
     const result = await addInvestment(userId, investmentData);
     if (result.success && result.investmentId) {
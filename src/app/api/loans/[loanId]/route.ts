@@ -3,6 +3,8 @@ import { NextResponse, type NextRequest } from 'next/server';
 import * as databaseService from '@/lib/databaseService';
 import type { UpdateLoanData, UpdateResult } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 interface RouteParams {
   params: {
@@ -10,6 +12,19 @@ interface RouteParams {
   };
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { loanId } = params;
+  const loan = await databaseService.getRecordForUser(userId, 'loans', loanId);
+  if (!loan) {
+    return NextResponse.json({ success: false, message: 'Loan not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, loan }, { status: 200, headers: etagHeaders(loan) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const handlerName = `[API PUT /api/loans/${params?.loanId || 'undefined_loanId'}]`;
   console.log(`${handlerName} Handler started. Request URL: ${req.url}`);
@@ -38,15 +53,22 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ success: false, message: `Invalid JSON payload: ${jsonError.message}` }, { status: 400 });
     }
     
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'loan');
+    if (versionError) return versionError;
+
     // Minimal server-side validation moved to databaseService or handled by client-side Zod
 
     console.log(`${handlerName} Calling databaseService.updateLoan with data:`, updateData);
-    const result = await databaseService.updateLoan(userId, loanId, updateData);
+    const result = await databaseService.updateLoan(userId, loanId, updateData, expectedVersionOf(requested));
     console.log(`${handlerName} databaseService.updateLoan result:`, JSON.stringify(result));
 
     if (result.success) {
       console.log(`${handlerName} Loan updated successfully.`);
-      return NextResponse.json({ success: true, message: 'Loan updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Loan updated successfully.', loan: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      console.warn(`${handlerName} Version conflict; the loan changed since it was loaded.`);
+      return conflictResponse(result.record, 'loan');
     } else {
       const errorMessage = result.error || 'Failed to update loan due to an unknown database error.';
       const statusCode = errorMessage.includes("not found") ? 404 : 
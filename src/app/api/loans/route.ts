@@ -3,6 +3,7 @@ import { NextResponse, type NextRequest } from 'next/server';
 import { addLoan, getLoansForUser } from '@/lib/databaseService';
 import type { NewLoanData, Loan, AddLoanResult } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
 
 export async function POST(req: NextRequest) {
   const userId = await getUserIdFromAuthHeader(req);
@@ -13,7 +14,9 @@ export async function POST(req: NextRequest) {
   try {
     const loanData = await req.json() as NewLoanData;
 
-    if (!loanData.bankName || !loanData.description || typeof loanData.installmentAmount !== 'number' || loanData.installmentAmount <= 0 || !loanData.startDate || typeof loanData.installmentsCount !== 'number' || loanData.installmentsCount < 1) {
+    const installmentAmount = parseMoney(loanData.installmentAmount);
+
+    if (!loanData.bankName || !loanData.description || installmentAmount === null || installmentAmount <= 0 || !loanData.startDate || typeof loanData.installmentsCount !== 'number' || loanData.installmentsCount < 1) {
       return NextResponse.json({ success: false, message: 'Missing or invalid required fields for loan.' }, { status: 400 });
     }
      if (isNaN(Date.parse(loanData.startDate))) {
@@ -21,7 +24,7 @@ export async function POST(req: NextRequest) {
     }
 
 
-    const result: AddLoanResult = await addLoan(userId, loanData);
+    const result: AddLoanResult = await addLoan(userId, { ...loanData, installmentAmount });
 
     if (result.success && result.loanId) {
       return NextResponse.json({ success: true, loanId: result.loanId, message: 'Loan added successfully.' }, { status: 201 });
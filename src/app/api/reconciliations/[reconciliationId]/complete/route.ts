@@ -0,0 +1,30 @@
+// src/app/api/reconciliations/[reconciliationId]/complete/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { completeReconciliation } from '@/lib/databaseService';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+interface RouteParams {
+  params: {
+    reconciliationId: string;
+  };
+}
+
+// Locks the cleared transactions as reconciled; refused while they differ from the statement balance.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const result = await completeReconciliation(userId, params.reconciliationId);
+    if (result.success) {
+      return NextResponse.json({ success: true, reconciliation: result.record, message: 'Reconciliation completed.' }, { status: 200 });
+    }
+    const status = result.error?.includes('not found') ? 404 : result.conflict ? 409 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to complete the reconciliation.', current: result.record }, { status });
+  } catch (error: any) {
+    console.error('Complete reconciliation error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/reconciliations/[reconciliationId]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { deleteReconciliation, updateReconciliation } from '@/lib/databaseService';
+import type { ReconciliationData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
+
+interface RouteParams {
+  params: {
+    reconciliationId: string;
+  };
+}
+
+// Changes the statement date or balance of an open reconciliation.
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as Partial<ReconciliationData>;
+    const requested = requestedVersion(req.headers, data);
+    const versionError = versionErrorResponse(requested, 'reconciliation');
+    if (versionError) return versionError;
+
+    const result = await updateReconciliation(userId, params.reconciliationId, {
+      statementDate: data.statementDate,
+      statementBalance: data.statementBalance,
+    }, expectedVersionOf(requested));
+    if (result.success) {
+      return NextResponse.json({ success: true, reconciliation: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'reconciliation');
+    }
+    const status = result.error?.includes('not found') ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to update the reconciliation.' }, { status });
+  } catch (error: any) {
+    console.error('Update reconciliation error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Cancels an open reconciliation; the transactions ticked in it stay cleared.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const result = await deleteReconciliation(userId, params.reconciliationId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Reconciliation cancelled.' }, { status: 200 });
+    }
+    const status = result.error?.includes('not found') ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to cancel the reconciliation.' }, { status });
+  } catch (error: any) {
+    console.error('Delete reconciliation error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -1,8 +1,9 @@
 
 import { NextResponse, type NextRequest } from 'next/server';
+import { getDatabaseMode } from '@/lib/storage';
 
 export async function GET(req: NextRequest) {
-  const databaseMode = process.env.DATABASE_MODE || 'local'; // Default to 'local' if not set
+  const databaseMode = getDatabaseMode(); // Defaults to 'local' if not set
 
   return NextResponse.json({ mode: databaseMode }, { status: 200 });
 }
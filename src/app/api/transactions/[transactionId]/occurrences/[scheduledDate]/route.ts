@@ -0,0 +1,46 @@
+// src/app/api/transactions/[transactionId]/occurrences/[scheduledDate]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { setRecurrenceOccurrence } from '@/lib/databaseService';
+import type { OccurrenceStateData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
+
+interface RouteParams {
+  params: {
+    transactionId: string;
+    scheduledDate: string;
+  };
+}
+
+// Records an occurrence as paid, skipped or pending, with its actual or rescheduled date and amount.
+export async function PUT(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const data = await req.json() as OccurrenceStateData;
+    if (data.amount !== undefined && data.amount !== null) {
+      const amount = parseMoney(data.amount);
+      if (amount === null || amount <= 0) {
+        return NextResponse.json({ success: false, message: 'Amount must be positive.' }, { status: 400 });
+      }
+      data.amount = amount;
+    }
+
+    const result = await setRecurrenceOccurrence(userId, params.transactionId, params.scheduledDate, {
+      status: data.status,
+      date: data.date,
+      amount: data.amount,
+    });
+    if (result.success) {
+      return NextResponse.json({ success: true, occurrence: result.record }, { status: 200 });
+    }
+    const status = result.error?.includes('not found') ? 404 : /status|format|positive|recurring|does not occur/i.test(result.error || '') ? 400 : 500;
+    return NextResponse.json({ success: false, message: result.error || 'Failed to update the occurrence.' }, { status });
+  } catch (error: any) {
+    console.error('Update occurrence error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// src/app/api/transactions/[transactionId]/occurrences/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+import { getRecordForUser, getRecurrenceOccurrencesForUser } from '@/lib/databaseService';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { projectOccurrences } from '@/lib/recurrence';
+
+interface RouteParams {
+  params: {
+    transactionId: string;
+  };
+}
+
+const MAX_RANGE_DAYS = 366;
+
+// Occurrences of a transaction from ?from= through ?to= (yyyy-MM-dd), with what was recorded about each.
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const from = parseISO(req.nextUrl.searchParams.get('from') || '');
+  const to = parseISO(req.nextUrl.searchParams.get('to') || '');
+  if (!isValid(from) || !isValid(to) || to < from) {
+    return NextResponse.json({ success: false, message: 'Valid from and to dates (yyyy-MM-dd) are required.' }, { status: 400 });
+  }
+  if (differenceInCalendarDays(to, from) > MAX_RANGE_DAYS) {
+    return NextResponse.json({ success: false, message: `The range cannot be longer than ${MAX_RANGE_DAYS} days.` }, { status: 400 });
+  }
+
+  try {
+    const transaction = await getRecordForUser(userId, 'transactions', params.transactionId);
+    if (!transaction) {
+      return NextResponse.json({ success: false, message: 'Transaction not found.' }, { status: 404 });
+    }
+    const states = await getRecurrenceOccurrencesForUser(userId, transaction.id);
+    const occurrences = projectOccurrences(transaction, states, from, to)
+      .map(occurrence => ({ ...occurrence, date: format(occurrence.date, 'yyyy-MM-dd') }));
+    return NextResponse.json({ success: true, occurrences }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get occurrences error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -1,9 +1,13 @@
 
 // src/app/api/transactions/[transactionId]/route.ts
 import { NextResponse, type NextRequest } from 'next/server';
-import { updateTransaction, deleteTransaction } from '@/lib/databaseService';
+import { updateTransaction, deleteTransaction, getRecordForUser } from '@/lib/databaseService';
 import type { UpdateTransactionData, UpdateResult } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
+import { requestedVersion } from '@/lib/concurrency';
+import { conflictResponse, etagHeaders, expectedVersionOf, versionErrorResponse } from '@/lib/concurrencyResponses';
 
 interface RouteParams {
   params: {
@@ -11,6 +15,19 @@ interface RouteParams {
   };
 }
 
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { transactionId } = params;
+  const transaction = await getRecordForUser(userId, 'transactions', transactionId);
+  if (!transaction) {
+    return NextResponse.json({ success: false, message: 'Transaction not found.' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, transaction }, { status: 200, headers: etagHeaders(transaction) });
+}
+
 export async function PUT(req: NextRequest, { params }: RouteParams) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -24,16 +41,29 @@ export async function PUT(req: NextRequest, { params }: RouteParams) {
 
   try {
     const updateData = await req.json() as UpdateTransactionData;
+    const requested = requestedVersion(req.headers, updateData);
+    const versionError = versionErrorResponse(requested, 'transaction');
+    if (versionError) return versionError;
     // Add more specific validation for updateData if needed
-    if (updateData.amount !== undefined && updateData.amount <= 0) {
-        return NextResponse.json({ success: false, message: 'Amount must be positive.' }, { status: 400 });
+    if (updateData.amount !== undefined) {
+        const amount = parseMoney(updateData.amount);
+        if (amount === null || amount <= 0) {
+            return NextResponse.json({ success: false, message: 'Amount must be positive.' }, { status: 400 });
+        }
+        updateData.amount = amount;
+    }
+    if (updateData.currency !== undefined && !isCurrencyCode(updateData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
     }
 
-    const result: UpdateResult = await updateTransaction(userId, transactionId, updateData);
+    const result = await updateTransaction(userId, transactionId, updateData, expectedVersionOf(requested));
     if (result.success) {
-      return NextResponse.json({ success: true, message: 'Transaction updated successfully.' }, { status: 200 });
+      return NextResponse.json({ success: true, message: 'Transaction updated successfully.', transaction: result.record }, { status: 200, headers: etagHeaders(result.record) });
+    } else if (result.conflict) {
+      return conflictResponse(result.record, 'transaction');
     } else {
-      return NextResponse.json({ success: false, message: result.error || 'Failed to update transaction.' }, { status: result.error?.includes("not found") ? 404 : 500 });
+      const status = /account|transfer|split|tag|payee|recurren|occurrence|cleared|reconcil/i.test(result.error || '') ? 400 : result.error?.includes("not found") ? 404 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to update transaction.' }, { status });
     }
   } catch (error: any) {
     console.error('Update transaction error:', error);
@@ -56,7 +86,7 @@ export async function DELETE(req: NextRequest, { params }: RouteParams) {
     if (result.success) {
       return NextResponse.json({ success: true, message: 'Transaction deleted successfully.' }, { status: 200 });
     } else {
-      return NextResponse.json({ success: false, message: result.error || 'Failed to delete transaction.' }, { status: result.error?.includes("not found") ? 404 : 500 });
+      return NextResponse.json({ success: false, message: result.error || 'Failed to delete transaction.' }, { status: result.error?.includes("not found") ? 404 : /reconcil/i.test(result.error || '') ? 400 : 500 });
     }
   } catch (error: any) {
     console.error('Delete transaction error:', error);
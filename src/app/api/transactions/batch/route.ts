@@ -0,0 +1,35 @@
+// src/app/api/transactions/batch/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { applyTransactionBatch } from '@/lib/databaseService';
+import type { TransactionBatchRequest, BatchResult } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+// All-or-nothing { create, update, delete } for transactions; see applyTransactionBatch.
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const batch = await req.json() as TransactionBatchRequest;
+    const result: BatchResult = await applyTransactionBatch(userId, batch);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Transactions saved successfully.', created: result.created, updated: result.updated, deleted: result.deleted }, { status: 200 });
+    }
+    if (!result.errors) {
+      const status = result.error?.startsWith('Database') ? 500 : 400;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to save transactions.' }, { status });
+    }
+    return NextResponse.json(
+      { success: false, message: result.error, errors: result.errors },
+      { status: result.versionRequired ? 428 : result.conflict ? 409 : 400 }
+    );
+  } catch (error: any) {
+    console.error('Transactions batch API error:', error);
+    if (error instanceof SyntaxError) {
+        return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -2,15 +2,91 @@
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // No longer using jwt directly here, moved to authUtils
 // import { cookies } from 'next/headers'; // No longer using cookies
-import { addTransaction } from '@/lib/databaseService';
-import type { NewTransactionData, AddTransactionResult } from '@/types';
+import { addTransaction, queryTransactionsForUser, type AddTransactionResult } from '@/lib/databaseService';
+import type { NewTransactionData, TransactionQuery } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils'; // Import new utility
+import { parseMoney } from '@/lib/money';
+import { isCurrencyCode } from '@/lib/currency';
+import { RECURRENCE_FREQUENCIES } from '@/lib/recurrence';
 
 // const JWT_SECRET = process.env.JWT_SECRET; // Moved to authUtils
 // const COOKIE_NAME = 'authToken'; // No longer using cookies
 
 // Removed authenticateUser function, will use getUserIdFromAuthHeader
 
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'];
+const RECURRENCE_FILTERS = [...RECURRENCE_FREQUENCIES, 'recurring'];
+const SORT_FIELDS = ['date', 'amount', 'createdAt'];
+const SORT_ORDERS = ['asc', 'desc'];
+
+// Reads the query string of GET /api/transactions; returns an error message for invalid values.
+function parseTransactionQuery(params: URLSearchParams): { query?: TransactionQuery; error?: string } {
+  const query: TransactionQuery = {};
+  const text = (name: string) => params.get(name)?.trim() || undefined;
+  const oneOf = (name: string, allowed: string[]) => {
+    const value = text(name);
+    if (value !== undefined && !allowed.includes(value)) throw new Error(`Invalid ${name}. Expected one of: ${allowed.join(', ')}.`);
+    return value as any;
+  };
+  const amount = (name: string) => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+    const parsed = parseMoney(value);
+    if (parsed === null) throw new Error(`Invalid ${name}.`);
+    return parsed;
+  };
+
+  try {
+    query.from = text('from');
+    query.to = text('to');
+    query.type = oneOf('type', TRANSACTION_TYPES);
+    query.category = text('category');
+    query.accountId = text('accountId');
+    query.tagId = text('tagId');
+    query.recurrence = oneOf('recurrence', RECURRENCE_FILTERS);
+    query.minAmount = amount('minAmount');
+    query.maxAmount = amount('maxAmount');
+    query.search = text('search');
+    query.sortBy = oneOf('sortBy', SORT_FIELDS);
+    query.sortOrder = oneOf('sortOrder', SORT_ORDERS);
+    query.cursor = text('cursor');
+    const limit = text('limit');
+    if (limit !== undefined) {
+      query.limit = Number(limit);
+      if (!Number.isInteger(query.limit) || query.limit <= 0) throw new Error('Invalid limit.');
+    }
+  } catch (error: any) {
+    return { error: error.message };
+  }
+  return { query };
+}
+
+// Lists the user's transactions one page at a time, filtered and sorted on the server.
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  const { query, error } = parseTransactionQuery(new URL(req.url).searchParams);
+  if (!query) {
+    return NextResponse.json({ success: false, message: error }, { status: 400 });
+  }
+
+  try {
+    const result = await queryTransactionsForUser(userId, query);
+    if (result.success && result.page) {
+      return NextResponse.json({ success: true, ...result.page }, { status: 200 });
+    } else {
+      const status = result.error?.startsWith('Invalid') || result.error?.startsWith('Minimum') ? 400 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to fetch transactions.' }, { status });
+    }
+  } catch (error: any) {
+    console.error('List transactions API error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
 export async function POST(req: NextRequest) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -20,19 +96,31 @@ export async function POST(req: NextRequest) {
   try {
     const transactionData = await req.json() as NewTransactionData;
 
-    if (!transactionData.type || !transactionData.amount || !transactionData.category || !transactionData.date) {
+    const amount = parseMoney(transactionData.amount);
+
+    // Transfers without a category are saved under 'Transferência'; split transactions take
+    // the category of their first line.
+    const missingCategory = !transactionData.category && transactionData.type !== 'transfer' && !transactionData.splits?.length;
+    if (!transactionData.type || amount === null || missingCategory || !transactionData.date) {
         return NextResponse.json({ success: false, message: 'Missing required transaction fields.' }, { status: 400 });
     }
-    if (transactionData.amount <= 0) {
+    if (amount <= 0) {
         return NextResponse.json({ success: false, message: 'Amount must be positive.' }, { status: 400 });
     }
+    if (transactionData.currency !== undefined && !isCurrencyCode(transactionData.currency)) {
+        return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
 
-    const result: AddTransactionResult = await addTransaction(userId, transactionData);
+    const result: AddTransactionResult = await addTransaction(userId, { ...transactionData, amount });
 
     if (result.success && result.transactionId) {
       return NextResponse.json({ success: true, transactionId: result.transactionId, message: 'Transaction added successfully.' }, { status: 201 });
     } else {
-      return NextResponse.json({ success: false, message: result.error || 'Failed to add transaction.' }, { status: 500 });
+      // Account, transfer, split, tag, payee and recurrence errors come from the request: an unknown
+      // account, destination, tag or payee, a currency other than theirs, split lines that do not
+      // add up, or an invalid recurrence rule.
+      const status = /account|transfer|split|tag|payee|recurren|occurrence/i.test(result.error || '') ? 400 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to add transaction.' }, { status });
     }
   } catch (error: any) {
     console.error('Add transaction API error:', error);
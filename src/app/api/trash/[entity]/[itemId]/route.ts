@@ -0,0 +1,55 @@
+// src/app/api/trash/[entity]/[itemId]/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { restoreFromTrash, deleteFromTrash } from '@/lib/databaseService';
+import type { TrashEntity, UpdateResult } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+interface RouteParams {
+  params: {
+    entity: TrashEntity;
+    itemId: string;
+  };
+}
+
+// Restores the item (and whatever was deleted along with it) from the trash.
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { entity, itemId } = params;
+
+  try {
+    const result: UpdateResult = await restoreFromTrash(userId, entity, itemId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Item restored successfully.' }, { status: 200 });
+    } else {
+      const status = result.error?.includes("not found") ? 404 : result.error?.includes("first") ? 409 : 400;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to restore item.' }, { status });
+    }
+  } catch (error: any) {
+    console.error('Restore from trash error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Deletes the item permanently.
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+  const { entity, itemId } = params;
+
+  try {
+    const result: UpdateResult = await deleteFromTrash(userId, entity, itemId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Item deleted permanently.' }, { status: 200 });
+    } else {
+      return NextResponse.json({ success: false, message: result.error || 'Failed to delete item.' }, { status: result.error?.includes("not found") ? 404 : 400 });
+    }
+  } catch (error: any) {
+    console.error('Delete from trash error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
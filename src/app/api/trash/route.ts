@@ -0,0 +1,40 @@
+// src/app/api/trash/route.ts
+import { NextResponse, type NextRequest } from 'next/server';
+import { getTrashForUser, emptyTrash } from '@/lib/databaseService';
+import type { TrashItem, UpdateResult } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const items: TrashItem[] = await getTrashForUser(userId);
+    return NextResponse.json({ success: true, items }, { status: 200 });
+  } catch (error: any) {
+    console.error('Get trash error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
+
+// Empties the trash, deleting every item in it permanently.
+export async function DELETE(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const result: UpdateResult = await emptyTrash(userId);
+    if (result.success) {
+      return NextResponse.json({ success: true, message: 'Trash emptied successfully.' }, { status: 200 });
+    } else {
+      return NextResponse.json({ success: false, message: result.error || 'Failed to empty trash.' }, { status: 500 });
+    }
+  } catch (error: any) {
+    console.error('Empty trash error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
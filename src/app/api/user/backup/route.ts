@@ -2,13 +2,14 @@
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
 // import { cookies } from 'next/headers'; // No longer using cookies
-import { getUserBackupData, findUserById } from '@/lib/databaseService'; // Added findUserById
+import { getUserBackupData, getUserBackupArchive, findUserById } from '@/lib/databaseService'; // Added findUserById
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
 import { format } from 'date-fns';
 
 // const JWT_SECRET = process.env.JWT_SECRET; // Moved to authUtils
 // const COOKIE_NAME = 'authToken'; // No longer using cookies
 
+// A .tar.gz archive with the data and the attached files; ?format=json for the data alone, as before attachments.
 export async function GET(req: NextRequest) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -22,19 +23,32 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ success: false, message: 'User profile or email not found.' }, { status: 404 });
     }
 
-    const backupData = await getUserBackupData(userId);
-
-    if (!backupData) {
-      return NextResponse.json({ success: false, message: 'Could not retrieve backup data.' }, { status: 500 });
-    }
-    
     const userEmailPrefix = userProfile.email.split('@')[0].replace(/[^a-zA-Z0-9]/g, '_');
     const timestamp = format(new Date(), 'yyyyMMdd_HHmmss');
-    const filename = `solar_fin_backup_${userEmailPrefix}_${timestamp}.json`;
+    const filename = `solar_fin_backup_${userEmailPrefix}_${timestamp}`;
+
+    if (req.nextUrl.searchParams.get('format') === 'json') {
+      const backupData = await getUserBackupData(userId);
+      if (!backupData) {
+        return NextResponse.json({ success: false, message: 'Could not retrieve backup data.' }, { status: 500 });
+      }
+      const response = NextResponse.json(backupData, { status: 200 });
+      response.headers.set('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return response;
+    }
 
-    const response = NextResponse.json(backupData, { status: 200 });
-    response.headers.set('Content-Disposition', `attachment; filename="${filename}"`);
-    return response;
+    const archive = await getUserBackupArchive(userId);
+    if (!archive) {
+      return NextResponse.json({ success: false, message: 'Could not retrieve backup data.' }, { status: 500 });
+    }
+    return new NextResponse(new Uint8Array(archive), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Length': String(archive.length),
+        'Content-Disposition': `attachment; filename="${filename}.tar.gz"`,
+      },
+    });
 
   } catch (error: any) {
     console.error('Backup error:', error);
@@ -2,13 +2,15 @@
 import { NextResponse, type NextRequest } from 'next/server';
 // import jwt from 'jsonwebtoken'; // Moved to authUtils
 // import { cookies } from 'next/headers'; // No longer using cookies
-import { restoreUserBackupData } from '@/lib/databaseService';
+import { restoreUserBackupArchive, restoreUserBackupData } from '@/lib/serverData';
 import type { UserBackupData } from '@/types';
 import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+import { isGzip } from '@/lib/archive';
 
 // const JWT_SECRET = process.env.JWT_SECRET; // Moved to authUtils
 // const COOKIE_NAME = 'authToken'; // No longer using cookies
 
+// Takes a JSON backup (Content-Type application/json) or a .tar.gz archive with the attached files.
 export async function POST(req: NextRequest) {
   const userId = await getUserIdFromAuthHeader(req);
   if (!userId) {
@@ -16,6 +18,19 @@ export async function POST(req: NextRequest) {
   }
 
   try {
+    if (!req.headers.get('content-type')?.includes('application/json')) {
+      const archive = Buffer.from(await req.arrayBuffer());
+      if (!isGzip(archive)) {
+        return NextResponse.json({ success: false, message: 'Invalid backup file format.' }, { status: 400 });
+      }
+      const result = await restoreUserBackupArchive(userId, archive);
+      if (result.success) {
+        return NextResponse.json({ success: true, message: 'Data restored successfully.' }, { status: 200 });
+      }
+      const status = result.error?.startsWith('Invalid backup') ? 400 : 500;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to restore data.' }, { status });
+    }
+
     const backupData = await req.json() as UserBackupData;
 
     if (
@@ -27,7 +42,13 @@ export async function POST(req: NextRequest) {
       !Array.isArray(backupData.creditCardPurchases) ||
       !Array.isArray(backupData.categories) ||
       !Array.isArray(backupData.financialGoals) || // Added check
-      !Array.isArray(backupData.investments)     // Added check
+      !Array.isArray(backupData.investments) ||   // Added check
+      (backupData.auditEvents !== undefined && !Array.isArray(backupData.auditEvents)) || // Absent in backups made before change history
+      (backupData.attachments !== undefined && !Array.isArray(backupData.attachments)) ||
+      (backupData.recurrenceOccurrences !== undefined && !Array.isArray(backupData.recurrenceOccurrences)) ||
+      (backupData.reconciliations !== undefined && !Array.isArray(backupData.reconciliations)) ||
+      (backupData.budgets !== undefined && !Array.isArray(backupData.budgets)) ||
+      (backupData.envelopeAssignments !== undefined && !Array.isArray(backupData.envelopeAssignments))
     ) {
       return NextResponse.json({ success: false, message: 'Invalid backup file format.' }, { status: 400 });
     }
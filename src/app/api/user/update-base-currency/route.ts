@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { updateUserBaseCurrency } from '@/lib/databaseService';
+import { isCurrencyCode } from '@/lib/currency';
+import type { UpdateBaseCurrencyData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const { baseCurrency } = await req.json() as UpdateBaseCurrencyData;
+
+    if (!isCurrencyCode(baseCurrency)) {
+      return NextResponse.json({ success: false, message: 'Unsupported currency.' }, { status: 400 });
+    }
+
+    const result = await updateUserBaseCurrency(userId, baseCurrency);
+
+    if (result.success && result.user) {
+      return NextResponse.json({ success: true, user: result.user }, { status: 200 });
+    } else {
+      return NextResponse.json({ success: false, message: result.error || 'Failed to update base currency.' }, { status: result.error === 'User not found.' ? 404 : 500 });
+    }
+
+  } catch (error: any) {
+    console.error('Update base currency error:', error);
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { updateUserEnvelopeMode } from '@/lib/databaseService';
+import type { UpdateEnvelopeModeData } from '@/types';
+import { getUserIdFromAuthHeader } from '@/lib/authUtils';
+
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromAuthHeader(req);
+  if (!userId) {
+    return NextResponse.json({ success: false, message: 'Not authenticated.' }, { status: 401 });
+  }
+
+  try {
+    const { enabled, startMonth } = await req.json() as UpdateEnvelopeModeData;
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ success: false, message: 'Enabled must be true or false.' }, { status: 400 });
+    }
+
+    const result = await updateUserEnvelopeMode(userId, enabled, startMonth);
+
+    if (result.success && result.user) {
+      return NextResponse.json({ success: true, user: result.user }, { status: 200 });
+    } else {
+      const status = result.error === 'User not found.' ? 404 : result.error?.startsWith('Database') ? 500 : 400;
+      return NextResponse.json({ success: false, message: result.error || 'Failed to update envelope mode.' }, { status });
+    }
+
+  } catch (error: any) {
+    console.error('Update envelope mode error:', error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, message: 'Invalid JSON payload.' }, { status: 400 });
+    }
+    return NextResponse.json({ success: false, message: 'An internal server error occurred.' }, { status: 500 });
+  }
+}
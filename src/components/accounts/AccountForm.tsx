@@ -0,0 +1,274 @@
+
+'use client';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
+import { Sun } from 'lucide-react';
+import { useState } from 'react';
+import type { Account, AccountType, NewAccountData, UpdateAccountData } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { accountTypeLabels } from '@/lib/accounts';
+
+const accountFormSchema = z.object({
+  name: z.string().min(1, 'O nome da conta é obrigatório.').max(100, 'Máximo de 100 caracteres.'),
+  type: z.enum(['checking', 'savings', 'cash', 'wallet'], { required_error: 'O tipo é obrigatório.' }),
+  institution: z.string().max(100, 'Nome da instituição muito longo.').optional().nullable(),
+  openingBalance: z.coerce.number({ invalid_type_error: 'Saldo inicial deve ser um número.' }),
+  currency: z.string().min(3, 'A moeda é obrigatória.'),
+});
+
+type AccountFormValues = z.infer<typeof accountFormSchema>;
+
+interface AccountFormProps {
+  userId: string;
+  existingAccount?: Account | null;
+  onSuccess: (account: Account) => void;
+  setOpen: (open: boolean) => void;
+}
+
+export function AccountForm({ userId, existingAccount, onSuccess, setOpen }: AccountFormProps) {
+  const { toast } = useToast();
+  const { getToken, user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('accounts');
+
+  const defaultValues: Partial<AccountFormValues> = existingAccount
+    ? {
+        name: existingAccount.name,
+        type: existingAccount.type,
+        institution: existingAccount.institution || '',
+        openingBalance: existingAccount.openingBalance,
+        currency: existingAccount.currency,
+      }
+    : {
+        name: '',
+        type: undefined,
+        institution: '',
+        openingBalance: 0,
+        currency: user?.baseCurrency || DEFAULT_CURRENCY,
+      };
+
+  const form = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues,
+  });
+
+  const onSubmit = async (values: AccountFormValues) => {
+    setIsSubmitting(true);
+    const token = getToken();
+    if (!token) {
+      toast({ variant: 'destructive', title: 'Erro de Autenticação', description: 'Sessão inválida.' });
+      setIsSubmitting(false);
+      return;
+    }
+
+    const apiData: NewAccountData | UpdateAccountData = {
+      ...values,
+      type: values.type as AccountType,
+      institution: values.institution || null,
+    };
+
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    };
+
+    try {
+      let response;
+      let result;
+
+      if (existingAccount) {
+        const outcome = await saveVersioned(`/api/accounts/${existingAccount.id}`, headers, existingAccount, apiData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          onSuccess(outcome.result.current as Account);
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
+        if (response.ok && result.success) {
+          onSuccess(result.account as Account);
+        }
+      } else {
+        response = await fetch('/api/accounts', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(apiData),
+        });
+        result = await response.json();
+        if (response.ok && result.success && result.accountId) {
+          const now = Date.now();
+          onSuccess({
+            id: result.accountId,
+            userId,
+            ...values,
+            institution: values.institution || null,
+            createdAt: now,
+            updatedAt: now,
+          } as Account);
+        }
+      }
+
+      if (response.ok && result.success) {
+        toast({
+          title: 'Sucesso!',
+          description: `Conta ${existingAccount ? 'atualizada' : 'adicionada'} com sucesso.`,
+        });
+        setOpen(false);
+      } else {
+        toast({
+          variant: 'destructive',
+          title: `Erro ao ${existingAccount ? 'atualizar' : 'adicionar'} conta`,
+          description: result.message || 'Ocorreu um erro.',
+        });
+      }
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Erro de comunicação',
+        description: error.message || 'Não foi possível conectar ao servidor.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nome da Conta</FormLabel>
+              <FormControl>
+                <Input placeholder="Ex: Conta Corrente Nubank, Carteira" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tipo de Conta</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione o tipo" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(accountTypeLabels) as AccountType[]).map(type => (
+                      <SelectItem key={type} value={type}>{accountTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="institution"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Instituição (Opcional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ex: Banco do Brasil, PicPay" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="openingBalance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Saldo Inicial</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    lang="pt-BR"
+                    placeholder="0,00"
+                    {...field}
+                    value={field.value === undefined ? '' : field.value}
+                    onChange={e => field.onChange(isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber)}
+                    disabled={isSubmitting}
+                  />
+                </FormControl>
+                <FormDescription>Saldo antes da primeira transação registrada na conta.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Moeda</FormLabel>
+                <FormControl>
+                  <CurrencySelect value={field.value} onValueChange={field.onChange} disabled={isSubmitting} />
+                </FormControl>
+                <FormDescription>As transações da conta usam esta moeda.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancelar
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Sun className="mr-2 h-4 w-4 animate-spin" />
+                Salvando...
+              </>
+            ) : (
+              existingAccount ? 'Salvar Alterações' : 'Adicionar Conta'
+            )}
+          </Button>
+        </div>
+      </form>
+      {conflictDialog}
+    </Form>
+  );
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Sun } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, cn } from '@/lib/utils';
+import { parseMoney } from '@/lib/money';
+import { addsToAccount, clearedBalance, reconciliationCandidates, reconciliationDifference } from '@/lib/accounts';
+import type { Account, ClearedStatus, Reconciliation, Transaction, TransactionBatchRequest } from '@/types';
+
+interface ReconciliationDialogProps {
+  account: Account | null;
+  transactions: Transaction[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after transactions were ticked, unticked or reconciled, to load them again. */
+  onChanged: () => void;
+}
+
+const formatDay = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+/**
+ * Checks an account against a bank statement: the statement's closing date and balance, the
+ * transactions up to that date ticked off as they show up in it, and the difference still left.
+ * Completing it locks the ticked transactions as reconciled.
+ */
+export function ReconciliationDialog({ account, transactions, open, onOpenChange, onChanged }: ReconciliationDialogProps) {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(null);
+  const [lastCompleted, setLastCompleted] = useState<Reconciliation | null>(null);
+  const [statementDate, setStatementDate] = useState<Date | undefined>(undefined);
+  const [statementBalance, setStatementBalance] = useState('');
+  // Ticks shown right away, until the transactions are loaded again.
+  const [pending, setPending] = useState<Map<string, ClearedStatus | null>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const authHeaders = useCallback((): Record<string, string> => {
+    const token = getToken();
+    return { 'Content-Type': 'application/json', ...(token ? { 'Authorization': `Bearer ${token}` } : {}) };
+  }, [getToken]);
+
+  const showReconciliation = useCallback((current: Reconciliation | null) => {
+    setReconciliation(current);
+    if (current) {
+      setStatementDate(parseISO(current.statementDate));
+      setStatementBalance(String(current.statementBalance));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open || !account) return;
+    let cancelled = false;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const response = await fetch(`/api/accounts/${account.id}/reconciliations`, { headers: authHeaders() });
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.message);
+        if (cancelled) return;
+        const reconciliations: Reconciliation[] = result.reconciliations;
+        setLastCompleted(reconciliations.find(r => r.status === 'completed') ?? null);
+        const current = reconciliations.find(r => r.status === 'open') ?? null;
+        showReconciliation(current);
+        if (!current) {
+          setStatementDate(new Date());
+          setStatementBalance('');
+        }
+      } catch (error: any) {
+        console.error('Error fetching reconciliations:', error?.message);
+        toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível carregar a conciliação.' });
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, account, authHeaders, showReconciliation, toast]);
+
+  useEffect(() => {
+    setPending(new Map());
+  }, [transactions]);
+
+  const shown = useMemo(
+    () => transactions.map(tx => pending.has(tx.id) ? { ...tx, clearedStatus: pending.get(tx.id) } : tx),
+    [transactions, pending]
+  );
+  const candidates = useMemo(
+    () => account && reconciliation ? reconciliationCandidates(account, shown, reconciliation.statementDate) : [],
+    [account, reconciliation, shown]
+  );
+
+  if (!account) return null;
+
+  const cleared = reconciliation ? clearedBalance(account, shown, reconciliation.statementDate) : 0;
+  const difference = reconciliation ? reconciliationDifference(account, shown, reconciliation.statementDate, reconciliation.statementBalance) : 0;
+
+  const statementData = () => {
+    const balance = parseMoney(statementBalance);
+    if (!statementDate || balance === null) {
+      toast({ variant: 'destructive', title: 'Extrato incompleto', description: 'Informe a data de fechamento e o saldo final do extrato.' });
+      return null;
+    }
+    return { statementDate: format(statementDate, 'yyyy-MM-dd'), statementBalance: balance };
+  };
+
+  const handleSaveStatement = async () => {
+    const data = statementData();
+    if (!data) return;
+    setIsSaving(true);
+    try {
+      const response = reconciliation
+        ? await fetch(`/api/reconciliations/${reconciliation.id}`, {
+            method: 'PUT',
+            headers: authHeaders(),
+            body: JSON.stringify({ ...data, version: reconciliation.updatedAt ?? reconciliation.createdAt }),
+          })
+        : await fetch(`/api/accounts/${account.id}/reconciliations`, { method: 'POST', headers: authHeaders(), body: JSON.stringify(data) });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      showReconciliation(result.reconciliation);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Erro ao salvar o extrato', description: error?.message || 'Não foi possível salvar.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setCleared = async (selected: Transaction[], clearedStatus: 'cleared' | null) => {
+    if (selected.length === 0) return;
+    setPending(current => new Map([...current, ...selected.map(tx => [tx.id, clearedStatus] as const)]));
+    const request: TransactionBatchRequest = {
+      update: selected.map(tx => ({ id: tx.id, changes: { clearedStatus }, version: tx.updatedAt ?? tx.createdAt })),
+    };
+    try {
+      const response = await fetch('/api/transactions/batch', { method: 'POST', headers: authHeaders(), body: JSON.stringify(request) });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(response.status === 409
+          ? 'Algumas transações foram alteradas em outra aba ou dispositivo. A lista foi atualizada; tente novamente.'
+          : result.errors?.[0]?.message || result.message);
+      }
+    } catch (error: any) {
+      setPending(current => new Map([...current].filter(([id]) => !selected.some(tx => tx.id === id))));
+      toast({ variant: 'destructive', title: 'Erro ao marcar transações', description: error?.message || 'Nenhuma transação foi alterada.' });
+    }
+    onChanged();
+  };
+
+  const handleComplete = async () => {
+    if (!reconciliation) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/reconciliations/${reconciliation.id}/complete`, { method: 'POST', headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      const count = result.reconciliation?.transactionIds?.length ?? 0;
+      toast({ title: 'Conciliação concluída', description: `${count} ${count === 1 ? 'transação foi conciliada' : 'transações foram conciliadas'} com o extrato de ${formatDay(reconciliation.statementDate)}.` });
+      onChanged();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Erro ao concluir a conciliação', description: error?.message || 'Não foi possível concluir.' });
+      onChanged();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!reconciliation) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/reconciliations/${reconciliation.id}`, { method: 'DELETE', headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      setReconciliation(null);
+      toast({ title: 'Conciliação cancelada', description: 'As transações marcadas continuam compensadas.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Erro ao cancelar a conciliação', description: error?.message || 'Não foi possível cancelar.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const unticked = candidates.filter(tx => !tx.clearedStatus);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conciliar {account.name}</DialogTitle>
+          <DialogDescription>
+            Marque as transações que aparecem no extrato do banco até a data de fechamento. Ao concluir, elas ficam travadas contra alterações.
+            {lastCompleted && ` Última conciliação: extrato de ${formatDay(lastCompleted.statementDate)}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32"><Sun className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+              <div className="flex flex-col space-y-2">
+                <Label>Fechamento do extrato</Label>
+                <DatePicker value={statementDate} onChange={setStatementDate} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statement-balance">Saldo final ({account.currency})</Label>
+                <Input id="statement-balance" inputMode="decimal" value={statementBalance} onChange={e => setStatementBalance(e.target.value)} />
+              </div>
+              <Button variant={reconciliation ? 'outline' : 'default'} onClick={handleSaveStatement} disabled={isSaving}>
+                {reconciliation ? 'Atualizar Extrato' : 'Iniciar Conciliação'}
+              </Button>
+            </div>
+
+            {reconciliation && (
+              <>
+                <div className="grid grid-cols-3 gap-3 rounded-md border p-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Saldo do extrato</p>
+                    <p className="font-semibold">{formatCurrency(reconciliation.statementBalance, account.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Saldo compensado</p>
+                    <p className="font-semibold">{formatCurrency(cleared, account.currency)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Diferença</p>
+                    <p className={cn('font-semibold', difference === 0 ? 'text-green-600' : 'text-red-600')}>{formatCurrency(difference, account.currency)}</p>
+                  </div>
+                </div>
+
+                {candidates.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma transação a conciliar até {formatDay(reconciliation.statementDate)}.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Data</TableHead>
+                        <TableHead>Descrição</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {candidates.map(tx => (
+                        <TableRow key={tx.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={!!tx.clearedStatus}
+                              onCheckedChange={checked => setCleared([tx], checked === true ? 'cleared' : null)}
+                              aria-label={`Marcar ${tx.description || tx.category} como compensada`}
+                              disabled={isSaving}
+                            />
+                          </TableCell>
+                          <TableCell>{formatDay(tx.date)}</TableCell>
+                          <TableCell>{tx.description || tx.category}</TableCell>
+                          <TableCell className={cn('text-right', addsToAccount(tx, account.id) ? 'text-green-600' : 'text-red-600')}>
+                            {addsToAccount(tx, account.id) ? '+' : '-'} {formatCurrency(tx.amount, account.currency)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {reconciliation && !isLoading && (
+          <DialogFooter className="gap-2 sm:justify-between">
+            <Button variant="ghost" className="text-destructive hover:text-destructive/90" onClick={handleCancel} disabled={isSaving}>Cancelar Conciliação</Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setCleared(unticked, 'cleared')} disabled={isSaving || unticked.length === 0}>Marcar Todas</Button>
+              <Button onClick={handleComplete} disabled={isSaving || difference !== 0}>
+                {isSaving && <Sun className="mr-2 h-4 w-4 animate-spin" />}
+                Concluir
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
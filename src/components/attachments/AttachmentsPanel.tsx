@@ -0,0 +1,167 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FileText, Paperclip, Sun, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ATTACHMENT_CONTENT_TYPES, formatFileSize } from '@/lib/attachments';
+import type { Attachment, AttachmentOwner } from '@/types';
+
+interface AttachmentsPanelProps {
+  ownerEntity: AttachmentOwner;
+  ownerId: string;
+  disabled?: boolean;
+}
+
+/** Files attached to a saved record: previews of images, upload of more, opening and removal. */
+export function AttachmentsPanel({ ownerEntity, ownerId, disabled }: AttachmentsPanelProps) {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const authHeaders = useCallback((): Record<string, string> => {
+    const token = getToken();
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+  }, [getToken]);
+
+  // Files need the auth header, so they are fetched and shown through object URLs.
+  const fetchFileUrl = useCallback(async (attachmentId: string, thumbnail: boolean): Promise<string | null> => {
+    const response = await fetch(`/api/attachments/${attachmentId}${thumbnail ? '?thumbnail=1' : ''}`, { headers: authHeaders() });
+    return response.ok ? URL.createObjectURL(await response.blob()) : null;
+  }, [authHeaders]);
+
+  const fetchAttachments = useCallback(async () => {
+    if (!getToken()) return;
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/attachments?ownerEntity=${ownerEntity}&ownerId=${ownerId}`, { headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      setAttachments(result.attachments);
+    } catch (error: any) {
+      console.error('Error fetching attachments:', error?.message);
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível carregar os anexos.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ownerEntity, ownerId, getToken, authHeaders, toast]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    (async () => {
+      const loaded: Record<string, string> = {};
+      for (const attachment of attachments.filter(a => a.hasThumbnail)) {
+        const url = await fetchFileUrl(attachment.id, true).catch(() => null);
+        if (url) {
+          urls.push(url);
+          loaded[attachment.id] = url;
+        }
+      }
+      if (!cancelled) setThumbnails(loaded);
+    })();
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [attachments, fetchFileUrl]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (files.length === 0) return;
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const body = new FormData();
+        body.append('file', file);
+        body.append('ownerEntity', ownerEntity);
+        body.append('ownerId', ownerId);
+        const response = await fetch('/api/attachments', { method: 'POST', headers: authHeaders(), body });
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          toast({ variant: 'destructive', title: `Erro ao anexar ${file.name}`, description: result.message || 'Não foi possível enviar o arquivo.' });
+        }
+      }
+    } catch (error: any) {
+      console.error('Error uploading attachments:', error?.message);
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível enviar os arquivos.' });
+    } finally {
+      setIsUploading(false);
+      fetchAttachments();
+    }
+  };
+
+  const handleOpen = async (attachment: Attachment) => {
+    const url = await fetchFileUrl(attachment.id, false).catch(() => null);
+    if (!url) {
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível abrir o arquivo.' });
+      return;
+    }
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    setDeletingId(attachment.id);
+    try {
+      const response = await fetch(`/api/attachments/${attachment.id}`, { method: 'DELETE', headers: authHeaders() });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      setAttachments(current => current.filter(a => a.id !== attachment.id));
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Erro ao excluir anexo', description: error?.message || 'Não foi possível excluir o arquivo.' });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Anexos</span>
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled || isUploading}>
+          {isUploading ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : <Paperclip className="mr-2 h-4 w-4" />}
+          Anexar arquivos
+        </Button>
+        <input type="file" multiple accept={ATTACHMENT_CONTENT_TYPES.join(',')} ref={fileInputRef} className="hidden" onChange={handleUpload} />
+      </div>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando anexos...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum arquivo anexado. Imagens e PDFs são aceitos.</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-3">
+              <button type="button" onClick={() => handleOpen(attachment)} className="flex min-w-0 flex-1 items-center gap-3 text-left hover:underline">
+                {thumbnails[attachment.id] ? (
+                  <img src={thumbnails[attachment.id]} alt={attachment.fileName} className="h-10 w-10 shrink-0 rounded border object-cover" />
+                ) : (
+                  <FileText className="h-10 w-10 shrink-0 p-2 text-muted-foreground" />
+                )}
+                <span className="min-w-0">
+                  <span className="block truncate text-sm">{attachment.fileName}</span>
+                  <span className="block text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                </span>
+              </button>
+              <Button type="button" variant="ghost" size="icon" aria-label={`Excluir ${attachment.fileName}`} onClick={() => handleDelete(attachment)} disabled={disabled || deletingId === attachment.id}>
+                {deletingId === attachment.id ? <Sun className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
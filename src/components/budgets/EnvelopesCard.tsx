@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Sun, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CurrencyCode, EnvelopeAssignment, ExchangeRate, UserCategory } from '@/types';
+import {
+  getCategoriesForUser, getCreditCardPurchasesForUser, getCreditCardsForUser, getEnvelopeAssignmentsForUser, getExchangeRatesForUser,
+  getLoansForUser, getRecurrenceOccurrencesForUser, getTransactionsForUser,
+} from '@/lib/databaseService';
+import { monthLookup, spendingLookup, type SpendingSources } from '@/lib/budgets';
+import { envelopeMonth, monthlyIncome } from '@/lib/envelopes';
+import { categoryPath, orderCategories } from '@/lib/categories';
+import { createCurrencyConverter } from '@/lib/currency';
+import { cn, formatCurrency } from '@/lib/utils';
+
+interface EnvelopesCardProps {
+  userId: string;
+  startMonth: string;
+  month: string;
+  baseCurrency: CurrencyCode;
+}
+
+interface EnvelopeData {
+  categories: UserCategory[];
+  assignments: EnvelopeAssignment[];
+  sources: SpendingSources;
+  exchangeRates: ExchangeRate[];
+}
+
+// Dashboard view of envelope budgeting: what is left to assign and available in each envelope used in the month.
+export function EnvelopesCard({ userId, startMonth, month, baseCurrency }: EnvelopesCardProps) {
+  const [data, setData] = useState<EnvelopeData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [categories, assignments, transactions, occurrenceStates, creditCards, creditCardPurchases, loans, exchangeRates] = await Promise.all([
+          getCategoriesForUser(userId),
+          getEnvelopeAssignmentsForUser(userId),
+          getTransactionsForUser(userId),
+          getRecurrenceOccurrencesForUser(userId),
+          getCreditCardsForUser(userId),
+          getCreditCardPurchasesForUser(userId),
+          getLoansForUser(userId),
+          getExchangeRatesForUser(userId),
+        ]);
+        if (!cancelled) setData({ categories, assignments, sources: { transactions, occurrenceStates, creditCards, creditCardPurchases, loans }, exchangeRates });
+      } catch (error) {
+        console.error('Failed to fetch envelope data:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const summary = useMemo(() => {
+    if (!data) return null;
+    const converter = createCurrencyConverter(baseCurrency, data.exchangeRates);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const spendingOf = spendingLookup(data.sources, converter.toBase, today, { cardPurchasesAt: 'purchase' });
+    const incomeOf = monthLookup(m => monthlyIncome(data.sources, m, converter.toBase), today);
+    const categories = orderCategories(data.categories).map(({ category }) => category);
+    return envelopeMonth(startMonth, month, categories, data.assignments, spendingOf, incomeOf);
+  }, [data, startMonth, month, baseCurrency]);
+
+  const used = summary?.envelopes.filter(envelope => envelope.assigned !== 0 || envelope.activity !== 0 || envelope.available !== 0) ?? [];
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center"><Wallet className="mr-2 h-5 w-5 text-primary" />Envelopes</CardTitle>
+        <CardDescription>Disponível em cada envelope até hoje, com as compras no cartão na data da compra. <Link href="/budgets" className="underline">Atribuir valores</Link></CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!data ? (
+          <div className="flex items-center justify-center h-24"><Sun className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : !summary ? (
+          <p className="text-sm text-muted-foreground">Os envelopes começam em {format(new Date(`${startMonth}-01T00:00:00`), 'MM/yyyy')}.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-baseline justify-between">
+              <span className="text-sm">A atribuir</span>
+              <span className={cn('text-xl font-bold', summary.toBeAssigned < 0 && 'text-destructive')}>{formatCurrency(summary.toBeAssigned, baseCurrency)}</span>
+            </div>
+            {used.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum valor atribuído aos envelopes ainda.</p>
+            ) : (
+              <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {used.map(envelope => (
+                  <li key={envelope.categoryId} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                    <span className="truncate mr-2">{categoryPath(data.categories.find(c => c.id === envelope.categoryId)?.name ?? '', data.categories)}</span>
+                    <span className={cn('font-medium whitespace-nowrap', envelope.available < 0 ? 'text-destructive' : 'text-green-600')}>
+                      {formatCurrency(envelope.available, baseCurrency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRightLeft, Sun, Wallet } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { CurrencyCode, EnvelopeAssignment, EnvelopeMoveData, ExchangeRate, UserCategory } from '@/types';
+import { monthLookup, spendingLookup, type SpendingSources } from '@/lib/budgets';
+import { envelopeMonth, monthlyIncome } from '@/lib/envelopes';
+import { orderCategories } from '@/lib/categories';
+import { createCurrencyConverter } from '@/lib/currency';
+import { parseMoney } from '@/lib/money';
+import { cn, formatCurrency } from '@/lib/utils';
+
+/** Select value standing for the "to be assigned" pool. */
+const POOL = 'pool';
+
+interface EnvelopesPanelProps {
+  startMonth: string;
+  month: string;
+  categories: UserCategory[];
+  assignments: EnvelopeAssignment[];
+  sources: SpendingSources;
+  exchangeRates: ExchangeRate[];
+  baseCurrency: CurrencyCode;
+  onChanged: () => void;
+}
+
+/**
+ * Envelope budgeting for a month: the "to be assigned" pool, and per category what was put in
+ * its envelope, spent from it (card purchases on the day bought) and is still available.
+ */
+export function EnvelopesPanel({ startMonth, month, categories, assignments, sources, exchangeRates, baseCurrency, onChanged }: EnvelopesPanelProps) {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [moveForm, setMoveForm] = useState<{ from: string; to: string; amount: string } | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+
+  const ordered = useMemo(() => orderCategories(categories), [categories]);
+
+  // Only what happened up to today counts; scheduled income cannot be assigned yet.
+  const summary = useMemo(() => {
+    const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const spendingOf = spendingLookup(sources, converter.toBase, today, { cardPurchasesAt: 'purchase' });
+    const incomeOf = monthLookup(m => monthlyIncome(sources, m, converter.toBase), today);
+    return envelopeMonth(startMonth, month, ordered.map(({ category }) => category), assignments, spendingOf, incomeOf);
+  }, [startMonth, month, ordered, assignments, sources, exchangeRates, baseCurrency]);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries((summary?.envelopes ?? []).map(envelope => [envelope.categoryId, String(envelope.assigned)])));
+  }, [summary]);
+
+  const authHeaders = () => {
+    const token = getToken();
+    return { 'Content-Type': 'application/json', ...(token ? { 'Authorization': `Bearer ${token}` } : {}) };
+  };
+
+  const handleAssign = async (categoryId: string, current: number) => {
+    const amount = parseMoney(drafts[categoryId] ?? '');
+    if (amount === null) {
+      toast({ variant: 'destructive', title: 'Valor inválido', description: 'Informe um valor numérico.' });
+      setDrafts(prev => ({ ...prev, [categoryId]: String(current) }));
+      return;
+    }
+    if (amount === current) return;
+    setSavingId(categoryId);
+    try {
+      const response = await fetch('/api/envelopes', { method: 'PUT', headers: authHeaders(), body: JSON.stringify({ categoryId, month, amount }) });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      onChanged();
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro ao Atribuir', description: e?.message || 'Não foi possível atribuir o valor.' });
+      setDrafts(prev => ({ ...prev, [categoryId]: String(current) }));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleMove = async () => {
+    if (!moveForm) return;
+    const amount = parseMoney(moveForm.amount);
+    if (amount === null || amount <= 0) {
+      toast({ variant: 'destructive', title: 'Valor inválido', description: 'Informe um valor maior que zero.' });
+      return;
+    }
+    const data: EnvelopeMoveData = {
+      month,
+      fromCategoryId: moveForm.from === POOL ? null : moveForm.from,
+      toCategoryId: moveForm.to === POOL ? null : moveForm.to,
+      amount,
+    };
+    setIsMoving(true);
+    try {
+      const response = await fetch('/api/envelopes/move', { method: 'POST', headers: authHeaders(), body: JSON.stringify(data) });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      toast({ title: 'Valor Movido', description: `${formatCurrency(amount, baseCurrency)} movidos entre envelopes.` });
+      setMoveForm(null);
+      onChanged();
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Erro ao Mover', description: e?.message || 'Não foi possível mover o valor.' });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const envelopeOptions = (
+    <>
+      <SelectItem value={POOL}>A atribuir</SelectItem>
+      {ordered.map(({ category, depth }) => (
+        <SelectItem key={category.id} value={category.id} className={cn(depth > 0 && 'pl-10')}>{category.name}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <CardTitle className="flex items-center"><Wallet className="mr-2 h-5 w-5 text-primary" />Envelopes</CardTitle>
+          <CardDescription>
+            Receitas entram no saldo a atribuir; distribua-o entre os envelopes das categorias. Compras no cartão saem do envelope na data da compra.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setMoveForm({ from: POOL, to: '', amount: '' })} disabled={!summary}>
+          <ArrowRightLeft className="mr-2 h-4 w-4" /> Mover
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!summary ? (
+          <p className="text-sm text-muted-foreground">Os envelopes começam em {format(new Date(`${startMonth}-01T00:00:00`), 'MM/yyyy')}.</p>
+        ) : (
+          <>
+            <div className={cn('rounded-md border p-4', summary.toBeAssigned < 0 ? 'border-destructive text-destructive' : 'bg-muted/40')}>
+              <p className="text-sm">A atribuir</p>
+              <p className="text-2xl font-bold">{formatCurrency(summary.toBeAssigned, baseCurrency)}</p>
+              <p className="text-xs text-muted-foreground">
+                Receitas no mês: {formatCurrency(summary.income, baseCurrency)}.
+                {summary.unassignedSpending > 0 && ` Gastos sem envelope (categorias não cadastradas): ${formatCurrency(summary.unassignedSpending, baseCurrency)}.`}
+                {summary.toBeAssigned < 0 && ' Foi atribuído mais do que foi recebido; retire valores de algum envelope.'}
+              </p>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Categoria</TableHead>
+                  <TableHead className="w-36 text-right">Atribuído</TableHead>
+                  <TableHead className="text-right">Gasto</TableHead>
+                  <TableHead className="text-right">Disponível</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.envelopes.map((envelope, index) => (
+                  <TableRow key={envelope.categoryId}>
+                    <TableCell className={cn(ordered[index].depth > 0 && 'pl-8')}>{ordered[index].category.name}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        inputMode="decimal"
+                        className="h-8 text-right"
+                        aria-label={`Atribuído a ${ordered[index].category.name}`}
+                        value={drafts[envelope.categoryId] ?? ''}
+                        onChange={e => setDrafts(prev => ({ ...prev, [envelope.categoryId]: e.target.value }))}
+                        onBlur={() => handleAssign(envelope.categoryId, envelope.assigned)}
+                        onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        disabled={savingId === envelope.categoryId}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(envelope.activity, baseCurrency)}</TableCell>
+                    <TableCell className={cn('text-right font-medium', envelope.available < 0 ? 'text-destructive' : envelope.available > 0 && 'text-green-600')}>
+                      {formatCurrency(envelope.available, baseCurrency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!moveForm} onOpenChange={isOpen => { if (!isOpen) setMoveForm(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Mover Entre Envelopes</DialogTitle>
+            <DialogDescription>O valor sai de um envelope, ou do saldo a atribuir, e entra no outro neste mês.</DialogDescription>
+          </DialogHeader>
+          {moveForm && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>De</Label>
+                <Select value={moveForm.from} onValueChange={from => setMoveForm({ ...moveForm, from })} disabled={isMoving}>
+                  <SelectTrigger><SelectValue placeholder="Selecione o envelope" /></SelectTrigger>
+                  <SelectContent>{envelopeOptions}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Para</Label>
+                <Select value={moveForm.to} onValueChange={to => setMoveForm({ ...moveForm, to })} disabled={isMoving}>
+                  <SelectTrigger><SelectValue placeholder="Selecione o envelope" /></SelectTrigger>
+                  <SelectContent>{envelopeOptions}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="envelope-move-amount">Valor ({baseCurrency})</Label>
+                <Input id="envelope-move-amount" inputMode="decimal" value={moveForm.amount} onChange={e => setMoveForm({ ...moveForm, amount: e.target.value })} disabled={isMoving} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMoveForm(null)} disabled={isMoving}>Cancelar</Button>
+            <Button onClick={handleMove} disabled={isMoving || !moveForm?.from || !moveForm?.to || moveForm.from === moveForm.to || !moveForm.amount.trim()}>
+              {isMoving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Mover
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
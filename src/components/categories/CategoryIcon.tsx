@@ -0,0 +1,53 @@
+'use client';
+
+import {
+  Baby, Briefcase, Bus, Car, Coffee, Dumbbell, Film, Gamepad2, Gift, GraduationCap, HeartPulse, House, Landmark,
+  PawPrint, PiggyBank, Plane, Receipt, Shirt, ShoppingCart, Smartphone, Tag, Utensils, Wallet, Zap, type LucideIcon,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { CategoryIconName } from '@/lib/categories';
+import type { UserCategory } from '@/types';
+
+export const categoryIconComponents: Record<CategoryIconName, LucideIcon> = {
+  'tag': Tag,
+  'shopping-cart': ShoppingCart,
+  'utensils': Utensils,
+  'coffee': Coffee,
+  'home': House,
+  'zap': Zap,
+  'car': Car,
+  'bus': Bus,
+  'plane': Plane,
+  'heart-pulse': HeartPulse,
+  'graduation-cap': GraduationCap,
+  'gamepad': Gamepad2,
+  'film': Film,
+  'shirt': Shirt,
+  'gift': Gift,
+  'paw-print': PawPrint,
+  'baby': Baby,
+  'dumbbell': Dumbbell,
+  'smartphone': Smartphone,
+  'briefcase': Briefcase,
+  'piggy-bank': PiggyBank,
+  'receipt': Receipt,
+  'landmark': Landmark,
+  'wallet': Wallet,
+};
+
+interface CategoryIconProps {
+  category?: Pick<UserCategory, 'icon' | 'color'> | null;
+  className?: string;
+}
+
+/** A category's icon in its color; categories without either get a muted tag icon. */
+export function CategoryIcon({ category, className }: CategoryIconProps) {
+  const Icon = categoryIconComponents[category?.icon as CategoryIconName] || Tag;
+  return (
+    <Icon
+      className={cn('h-4 w-4 shrink-0', !category?.color && 'text-muted-foreground', className)}
+      style={category?.color ? { color: category.color } : undefined}
+      aria-hidden
+    />
+  );
+}
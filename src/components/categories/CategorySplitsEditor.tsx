@@ -0,0 +1,90 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Combobox } from '@/components/ui/combobox';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import { cn, formatCurrency } from '@/lib/utils';
+import { subtractMoney, sumMoney } from '@/lib/money';
+import { MAX_SPLIT_LINES } from '@/lib/splits';
+import type { CategorySplit, CurrencyCode, Money, UserCategory } from '@/types';
+
+interface CategorySplitsEditorProps {
+  value: CategorySplit[];
+  onChange: (value: CategorySplit[]) => void;
+  total: Money | undefined;
+  currency: CurrencyCode;
+  categories: UserCategory[];
+  onAddNewCategory: (categoryName: string) => Promise<UserCategory | null>;
+  disabled?: boolean;
+}
+
+/** Category lines of a split transaction or purchase, with what is left to assign of the total. */
+export function CategorySplitsEditor({ value, onChange, total, currency, categories, onAddNewCategory, disabled }: CategorySplitsEditorProps) {
+  const remaining = subtractMoney(Number(total) || 0, sumMoney(value.map(line => line.amount || 0)));
+
+  const updateLine = (index: number, changes: Partial<CategorySplit>) =>
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  return (
+    <div className="space-y-2">
+      {value.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <div className="flex-1">
+            <Combobox
+              items={categories}
+              value={line.category}
+              onChange={category => updateLine(index, { category })}
+              onAddNewCategory={onAddNewCategory}
+              placeholder="Categoria"
+              searchPlaceholder="Buscar ou criar nova..."
+              emptyMessage="Nenhuma categoria. Digite para criar."
+              disabled={disabled}
+            />
+          </div>
+          <Input
+            type="number"
+            step="0.01"
+            lang="pt-BR"
+            placeholder="0,00"
+            className="w-32"
+            value={line.amount || ''}
+            onChange={e => updateLine(index, { amount: isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber })}
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled || value.length <= 2}
+            aria-label="Remover linha"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { category: '', amount: remaining > 0 ? remaining : 0 }])}
+          disabled={disabled || value.length >= MAX_SPLIT_LINES}
+        >
+          <PlusCircle className="mr-2 h-4 w-4" /> Adicionar Categoria
+        </Button>
+        <span className={cn('text-sm', remaining === 0 ? 'text-muted-foreground' : 'text-destructive')}>
+          Restante: {formatCurrency(remaining, currency)}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/** Why the split lines cannot be saved against `total`, in the form's words, or null. */
+export function splitFormError(splits: CategorySplit[], total: Money | undefined): string | null {
+  if (splits.some(line => !line.category.trim() || !(line.amount > 0))) return 'Cada linha precisa de uma categoria e de um valor positivo.';
+  if (subtractMoney(Number(total) || 0, sumMoney(splits.map(line => line.amount))) !== 0) return 'A soma das linhas deve ser igual ao valor total.';
+  return null;
+}
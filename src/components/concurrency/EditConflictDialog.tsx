@@ -0,0 +1,89 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangleIcon } from 'lucide-react';
+import type { UserEntityName } from '@/lib/storage/types';
+import { conflictingFields } from '@/lib/concurrency';
+import { formatFieldValue, recordFieldLabels } from '@/lib/recordFormatting';
+
+export type ConflictChoice = 'overwrite' | 'merge' | 'discard' | 'cancel';
+
+export interface EditConflict {
+  /** The values the user tried to save. */
+  mine: Record<string, any>;
+  /** The record as it is stored now. */
+  current: Record<string, any>;
+}
+
+interface EditConflictDialogProps {
+  entity: UserEntityName;
+  conflict: EditConflict | null;
+  onResolve: (choice: ConflictChoice) => void;
+}
+
+function displayValue(entity: UserEntityName, field: string, value: any, currency?: string): string {
+  if (typeof value === 'string' && value.startsWith('data:')) return 'Imagem anexada';
+  const text = formatFieldValue(entity, field, value, currency);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Shown when a save is rejected because the record was changed elsewhere (another tab or device).
+export function EditConflictDialog({ entity, conflict, onResolve }: EditConflictDialogProps) {
+  // Only stored fields can be compared; derived form values (e.g. a purchase's installment amount) are left out.
+  const fields = conflict ? conflictingFields(conflict.mine, conflict.current).filter(field => field in conflict.current) : [];
+
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={(isOpen) => { if (!isOpen) onResolve('cancel'); }}>
+      <AlertDialogContent className="sm:max-w-lg">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center">
+            <AlertTriangleIcon className="mr-2 h-5 w-5 text-destructive" />
+            Este item foi alterado
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Outra aba ou dispositivo salvou alterações neste item depois que você abriu o formulário.
+            Mesclar mantém os campos que você alterou e aceita as demais mudanças; sobrescrever salva exatamente a sua versão.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {fields.length > 0 && (
+          <div className="max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Sua versão</TableHead>
+                  <TableHead>Versão atual</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conflict && fields.map(field => (
+                  <TableRow key={field}>
+                    <TableCell className="font-medium">{recordFieldLabels[field] || field}</TableCell>
+                    <TableCell>{displayValue(entity, field, conflict.mine[field], conflict.mine.currency ?? conflict.current.currency)}</TableCell>
+                    <TableCell>{displayValue(entity, field, conflict.current[field], conflict.current.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <AlertDialogFooter className="flex-wrap gap-2 sm:space-x-0">
+          <AlertDialogCancel>Voltar ao formulário</AlertDialogCancel>
+          <Button variant="outline" onClick={() => onResolve('discard')}>Descartar as minhas</Button>
+          <Button variant="secondary" onClick={() => onResolve('merge')}>Mesclar</Button>
+          <Button variant="destructive" onClick={() => onResolve('overwrite')}>Sobrescrever</Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -14,6 +14,11 @@ import {
   Target, 
   Briefcase,
   Calculator,
+  Trash2,
+  Wallet,
+  Tag,
+  Store,
+  PiggyBank,
 } from 'lucide-react';
 import Logo from './Logo';
 import {
@@ -33,16 +38,21 @@ import * as React from "react";
 const navItems = [
   { href: '/dashboard', label: 'Painel', icon: LayoutDashboard },
   { href: '/transactions', label: 'Transações', icon: Repeat },
+  { href: '/accounts', label: 'Contas', icon: Wallet },
   { href: '/subscriptions', label: 'Assinaturas', icon: Repeat }, // Renomeado e ícone consistente
   { href: '/loans', label: 'Empréstimos', icon: Landmark },
   { href: '/credit-cards', label: 'Cartões', icon: CreditCard },
+  { href: '/budgets', label: 'Orçamentos', icon: PiggyBank },
   { href: '/goals', label: 'Metas', icon: Target },
   { href: '/investments', label: 'Investimentos', icon: Briefcase },
+  { href: '/tags', label: 'Tags', icon: Tag },
+  { href: '/payees', label: 'Favorecidos', icon: Store },
   { href: '/calculators', label: 'Calculadoras', icon: Calculator },
   { href: '/insights', label: 'Insights IA', icon: Sparkles },
 ];
 
 const secondaryNavItems = [
+  { href: '/trash', label: 'Lixeira', icon: Trash2 },
   { href: '/settings', label: 'Configurações', icon: Settings },
 ];
 
@@ -1,7 +1,7 @@
 
 'use client';
 
-import { Bell, CheckCheck, Sun, CalendarClock } from 'lucide-react';
+import { Bell, CheckCheck, Sun, CalendarClock, PiggyBank } from 'lucide-react';
 import { Button, buttonVariants } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -69,7 +69,7 @@ export function NotificationBell() {
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-80 md:w-96">
         <DropdownMenuLabel className="flex justify-between items-center">
-          <span>Notificações Agendadas</span>
+          <span>Notificações</span>
           {notifications.length > 0 && unreadCount > 0 && !isLoading && (
              <Button variant="link" size="sm" className="p-0 h-auto text-xs" onClick={(e) => { e.stopPropagation(); markAllAsRead();}}>
                 <CheckCheck className="mr-1 h-3 w-3" /> Marcar todas como lidas
@@ -84,7 +84,7 @@ export function NotificationBell() {
           </DropdownMenuItem>
         ) : !isLoading && notifications.length === 0 ? (
           <DropdownMenuItem disabled className="text-center text-muted-foreground py-4">
-            Nenhuma notificação agendada.
+            Nenhuma notificação.
           </DropdownMenuItem>
         ) : (
           <ScrollArea className="h-[300px] md:h-[400px]">
@@ -115,24 +115,45 @@ export function NotificationBell() {
                      <p className={cn("font-medium truncate", !notification.isRead && "text-foreground")} title={notification.message}>
                         {notification.message}
                      </p>
-                     {notification.isPast && (
+                     {notification.type === 'budget_alert' ? (
+                        <Badge
+                            variant="outline"
+                            className={cn(
+                                "ml-2 text-xs px-1.5 py-0.5",
+                                (notification.budgetThreshold ?? 0) >= 100
+                                    ? "border-destructive text-destructive"
+                                    : "border-yellow-500 text-yellow-600 bg-yellow-50 dark:text-yellow-400 dark:bg-yellow-900/30"
+                            )}
+                        >
+                            Orçamento
+                        </Badge>
+                     ) : notification.isPast && (
                         <Badge variant="outline" className="ml-2 text-xs px-1.5 py-0.5 border-yellow-500 text-yellow-600 bg-yellow-50 dark:text-yellow-400 dark:bg-yellow-900/30">
                             Ocorrida
                         </Badge>
                      )}
-                     {!notification.isPast && (
+                     {notification.type === 'scheduled_transaction' && !notification.isPast && (
                         <Badge variant="default" className="ml-2 text-xs px-1.5 py-0.5 bg-blue-500 text-white">
                             Agendada
                         </Badge>
                      )}
                   </div>
-                  <p className="text-xs text-muted-foreground flex items-center">
-                    <CalendarClock className="mr-1 h-3.5 w-3.5" />
-                    Data Agendada: {formatProjectedDate(notification.projectedDate)}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                     Original: {notification.originalTransaction.category} ({format(parseISO(notification.originalTransaction.date), 'dd/MM/yy', { locale: ptBR})})
-                  </p>
+                  {notification.originalTransaction ? (
+                    <>
+                      <p className="text-xs text-muted-foreground flex items-center">
+                        <CalendarClock className="mr-1 h-3.5 w-3.5" />
+                        Data Agendada: {formatProjectedDate(notification.projectedDate)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                         Original: {notification.originalTransaction.category} ({format(parseISO(notification.originalTransaction.date), 'dd/MM/yy', { locale: ptBR})})
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      <PiggyBank className="mr-1 h-3.5 w-3.5" />
+                      Atingido em: {formatProjectedDate(notification.projectedDate)}
+                    </p>
+                  )}
                 </div>
               </DropdownMenuItem>
             ))}
@@ -15,6 +15,7 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun, Camera, Paperclip, ScanLine, Trash2, AlertTriangle, CreditCard as CreditCardIconLucide } from 'lucide-react';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { type NewCreditCardData, type CreditCard, type UpdateCreditCardData } from '@/lib/databaseService'; // Adjusted imports
@@ -56,6 +57,7 @@ export function CreditCardForm({ onSuccess, setOpen, userId, existingCard }: Cre
   const { toast } = useToast();
   const { getToken } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('creditCards');
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
   const [isProcessingImage, setIsProcessingImage] = useState(false);
   const [isCameraMode, setIsCameraMode] = useState(false);
@@ -226,14 +228,16 @@ export function CreditCardForm({ onSuccess, setOpen, userId, existingCard }: Cre
 
     try {
       if (existingCard) {
-        response = await fetch(`/api/credit-cards/${existingCard.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify(apiData),
-        });
+        const headers = { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` };
+        const outcome = await saveVersioned(`/api/credit-cards/${existingCard.id}`, headers, existingCard, apiData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          if (onSuccess) onSuccess();
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
       } else {
         response = await fetch('/api/credit-cards', {
           method: 'POST',
@@ -243,10 +247,9 @@ export function CreditCardForm({ onSuccess, setOpen, userId, existingCard }: Cre
           },
           body: JSON.stringify(apiData),
         });
+        result = await response.json();
       }
 
-      result = await response.json();
-
       if (response.ok && result.success) {
         toast({
           title: 'Sucesso!',
@@ -418,6 +421,7 @@ export function CreditCardForm({ onSuccess, setOpen, userId, existingCard }: Cre
           </Button>
         </div>
       </form>
+      {conflictDialog}
     </Form>
   );
 }
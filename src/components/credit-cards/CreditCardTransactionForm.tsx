@@ -23,19 +23,31 @@ import {
 } from '@/components/ui/select';
 import { DatePicker } from '@/components/ui/date-picker';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun } from 'lucide-react';
 import { useState, useEffect, useCallback } from 'react';
-import { getCategoriesForUser, addCategoryForUser } from '@/lib/databaseService'; // Removed addCreditCardPurchase as it's called via API
-import type { CreditCard, NewCreditCardPurchaseData, UserCategory, CreditCardPurchase, UpdateCreditCardPurchaseData } from '@/types';
+import { getCategoriesForUser, addCategoryForUser, getTagsForUser, addTag, getPayeesForUser, addPayee } from '@/lib/databaseService'; // Removed addCreditCardPurchase as it's called via API
+import type { CreditCard, NewCreditCardPurchaseData, Payee, Tag, UserCategory, CreditCardPurchase, UpdateCreditCardPurchaseData } from '@/types';
 import { format, parseISO } from 'date-fns';
+import { multiplyMoney, roundMoney, splitMoney } from '@/lib/money';
 import { Combobox } from '@/components/ui/combobox';
 import { useAuth } from '@/contexts/AuthContext';
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { CategorySplitsEditor, splitFormError } from '@/components/categories/CategorySplitsEditor';
+import { TagPicker } from '@/components/tags/TagPicker';
+import { PayeePicker } from '@/components/payees/PayeePicker';
+import { matchPayee } from '@/lib/payees';
+import { AttachmentsPanel } from '@/components/attachments/AttachmentsPanel';
 
 const purchaseSchema = z.object({
   cardId: z.string().min(1, { message: 'Selecione um cartão de crédito.' }),
   date: z.date({ required_error: 'A data da compra é obrigatória.' }),
   description: z.string().min(1, { message: 'A descrição é obrigatória.' }).max(100, { message: 'Máximo de 100 caracteres.'}),
-  category: z.string().min(1, { message: 'A categoria é obrigatória.' }).max(50, { message: 'A categoria deve ter no máximo 50 caracteres.'}),
+  category: z.string().max(50, { message: 'A categoria deve ter no máximo 50 caracteres.'}),
+  splits: z.array(z.object({ category: z.string(), amount: z.number() })),
+  tagIds: z.array(z.string()),
+  payeeId: z.string().nullable(),
   installmentAmount: z.coerce // Changed from totalAmount
     .number({ invalid_type_error: 'O valor da parcela deve ser um número.', required_error: 'O valor da parcela é obrigatório.' })
     .positive({ message: 'O valor da parcela deve ser positivo.' })
@@ -45,6 +57,10 @@ const purchaseSchema = z.object({
     .int({ message: 'O número de parcelas deve ser inteiro.' })
     .min(1, { message: 'Mínimo de 1 parcela.' })
     .max(24, { message: 'Máximo de 24 parcelas.' }), 
+  currency: z.string().min(3, { message: 'A moeda é obrigatória.' }),
+}).refine(values => values.splits.length > 0 || values.category.length > 0, {
+  message: 'A categoria é obrigatória.',
+  path: ['category'],
 });
 
 type PurchaseFormValues = z.infer<typeof purchaseSchema>;
@@ -65,10 +81,14 @@ export function CreditCardTransactionForm({
   existingPurchase,
 }: CreditCardTransactionFormProps) {
   const { toast } = useToast();
-  const { getToken } = useAuth();
+  const { getToken, user } = useAuth();
+  const defaultCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('creditCardPurchases');
   const [categories, setCategories] = useState<UserCategory[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
 
   const fetchCategories = useCallback(async () => {
     if (!userId) return;
@@ -88,6 +108,16 @@ export function CreditCardTransactionForm({
     fetchCategories();
   }, [fetchCategories]);
 
+  useEffect(() => {
+    if (!userId) return;
+    getTagsForUser(userId)
+      .then(setTags)
+      .catch(error => console.error("Failed to fetch tags:", error));
+    getPayeesForUser(userId)
+      .then(setPayees)
+      .catch(error => console.error("Failed to fetch payees:", error));
+  }, [userId]);
+
   const form = useForm<PurchaseFormValues>({
     resolver: zodResolver(purchaseSchema),
     defaultValues: {
@@ -95,21 +125,29 @@ export function CreditCardTransactionForm({
       date: new Date(),
       description: '',
       category: '',
+      splits: [],
+      tagIds: [],
+      payeeId: null,
       installmentAmount: undefined, // Changed from totalAmount
       installments: 1,
+      currency: defaultCurrency,
     },
   });
 
   useEffect(() => {
     if (existingPurchase) {
-      const installmentAmount = existingPurchase.totalAmount / existingPurchase.installments;
+      const [installmentAmount] = splitMoney(existingPurchase.totalAmount, existingPurchase.installments);
       form.reset({
         cardId: existingPurchase.cardId,
         date: parseISO(existingPurchase.date),
         description: existingPurchase.description,
         category: existingPurchase.category,
-        installmentAmount: parseFloat(installmentAmount.toFixed(2)), // Calculate and set installmentAmount
+        splits: existingPurchase.splits || [],
+        tagIds: existingPurchase.tagIds || [],
+        payeeId: existingPurchase.payeeId ?? null,
+        installmentAmount, // First installment, which carries any leftover cents
         installments: existingPurchase.installments,
+        currency: existingPurchase.currency || DEFAULT_CURRENCY,
       });
     } else {
       form.reset({ 
@@ -117,11 +155,15 @@ export function CreditCardTransactionForm({
         date: new Date(),
         description: '',
         category: '',
+        splits: [],
+        tagIds: [],
+        payeeId: null,
         installmentAmount: undefined,
         installments: 1,
+        currency: defaultCurrency,
       });
     }
-  }, [existingPurchase, form, userCreditCards]);
+  }, [existingPurchase, form, userCreditCards, defaultCurrency]);
   
   const handleAddNewCategory = async (categoryName: string): Promise<UserCategory | null> => {
     if (!userId) {
@@ -140,7 +182,51 @@ export function CreditCardTransactionForm({
     }
   };
 
+  const handleAddNewTag = async (name: string): Promise<Tag | null> => {
+    const result = await addTag(userId, { name });
+    if (result.success && result.tag) {
+      setTags(prev => [...prev, result.tag!].sort((a, b) => a.name.localeCompare(b.name)));
+      return result.tag;
+    }
+    toast({ variant: "destructive", title: "Erro ao Criar Tag", description: result.error || "Não foi possível criar a tag." });
+    return null;
+  };
+
+  const handleAddNewPayee = async (name: string): Promise<Payee | null> => {
+    const result = await addPayee(userId, { name });
+    if (result.success && result.payee) {
+      setPayees(prev => [...prev, result.payee!]);
+      return result.payee;
+    }
+    toast({ variant: "destructive", title: "Erro ao Criar Favorecido", description: result.error || "Não foi possível criar o favorecido." });
+    return null;
+  };
+
+  // A payee's default category fills the category while none is chosen.
+  const selectPayee = (payeeId: string | null) => {
+    form.setValue('payeeId', payeeId);
+    const payee = payees.find(p => p.id === payeeId);
+    if (payee?.defaultCategory && !form.getValues('category') && !form.getValues('splits').length) {
+      form.setValue('category', payee.defaultCategory, { shouldValidate: true });
+    }
+  };
+
+  // An untouched amount keeps the stored total, so re-saving never drifts it by the split's leftover cents
+  const totalOf = (installmentAmount: number, installments: number) => {
+    const amount = roundMoney(Number(installmentAmount) || 0);
+    const keepsExistingTotal = existingPurchase
+      && installments === existingPurchase.installments
+      && amount === splitMoney(existingPurchase.totalAmount, existingPurchase.installments)[0];
+    return keepsExistingTotal ? existingPurchase.totalAmount : multiplyMoney(amount, installments);
+  };
+
   const onSubmit = async (values: PurchaseFormValues) => {
+    // Split lines are checked here rather than in the schema: the total depends on the purchase being edited
+    const splitError = values.splits.length > 0 ? splitFormError(values.splits, totalOf(values.installmentAmount, Number(values.installments))) : null;
+    if (splitError) {
+      form.setError('splits', { message: splitError });
+      return;
+    }
     setIsSubmitting(true);
     const token = getToken();
     if (!token) {
@@ -154,14 +240,22 @@ export function CreditCardTransactionForm({
       'Authorization': `Bearer ${token}`,
     };
     
-    // Data sent to the API now includes installmentAmount
+    const installmentAmount = roundMoney(Number(values.installmentAmount));
+    const installments = Number(values.installments);
+
     const dataToSendToApi = {
       cardId: values.cardId,
       date: format(values.date, 'yyyy-MM-dd'),
       description: values.description,
       category: values.category,
-      installmentAmount: Number(values.installmentAmount),
-      installments: Number(values.installments),
+      splits: values.splits.length > 0 ? values.splits : null,
+      tagIds: values.tagIds,
+      // Left out on a new purchase, the server links the payee matching the description
+      payeeId: existingPurchase ? values.payeeId : values.payeeId ?? undefined,
+      installmentAmount,
+      totalAmount: totalOf(installmentAmount, installments),
+      installments,
+      currency: values.currency,
     };
 
     let response;
@@ -169,19 +263,23 @@ export function CreditCardTransactionForm({
 
     try {
       if (existingPurchase) {
-        response = await fetch(`/api/credit-card-purchases/${existingPurchase.id}`, {
-            method: 'PUT',
-            headers,
-            body: JSON.stringify(dataToSendToApi),
-        });
+        const outcome = await saveVersioned(`/api/credit-card-purchases/${existingPurchase.id}`, headers, existingPurchase, dataToSendToApi);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          if (onSuccess) onSuccess();
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
       } else {
          response = await fetch(`/api/credit-card-purchases`, { 
             method: 'POST',
             headers,
             body: JSON.stringify(dataToSendToApi),
         });
+        result = await response.json();
       }
-      result = await response.json();
 
       if (response.ok && result.success) {
         toast({
@@ -193,8 +291,12 @@ export function CreditCardTransactionForm({
             date: new Date(),
             description: '',
             category: '',
+            splits: [],
+            tagIds: [],
+            payeeId: null,
             installmentAmount: undefined,
             installments: 1,
+            currency: defaultCurrency,
         });
         if (onSuccess) onSuccess();
         setOpen(false);
@@ -218,6 +320,8 @@ export function CreditCardTransactionForm({
     }
   };
 
+  const isSplit = form.watch('splits').length > 0;
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -265,7 +369,16 @@ export function CreditCardTransactionForm({
             <FormItem>
               <FormLabel>Descrição</FormLabel>
               <FormControl>
-                <Input placeholder="Ex: Compra Online Amazon" {...field} disabled={isSubmitting} />
+                <Input
+                  placeholder="Ex: Compra Online Amazon"
+                  {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    const payee = !form.getValues('payeeId') && field.value ? matchPayee(field.value, payees) : undefined;
+                    if (payee) selectPayee(payee.id);
+                  }}
+                  disabled={isSubmitting}
+                />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -273,6 +386,24 @@ export function CreditCardTransactionForm({
         />
 
         <FormField
+          control={form.control}
+          name="payeeId"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Favorecido (Opcional)</FormLabel>
+              <PayeePicker
+                payees={payees}
+                value={field.value}
+                onChange={selectPayee}
+                onAddNewPayee={handleAddNewPayee}
+                disabled={isSubmitting || !userId}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {!isSplit && <FormField
           control={form.control}
           name="category"
           render={({ field }) => (
@@ -288,18 +419,80 @@ export function CreditCardTransactionForm({
                     emptyMessage={isLoadingCategories ? "Carregando categorias..." : "Nenhuma categoria. Digite para criar."}
                     disabled={isSubmitting || isLoadingCategories || !userId}
                 />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto self-start p-0"
+                onClick={() => form.setValue('splits', [
+                  { category: field.value, amount: totalOf(form.getValues('installmentAmount'), Number(form.getValues('installments'))) },
+                  { category: '', amount: 0 },
+                ])}
+                disabled={isSubmitting}
+              >
+                Dividir entre categorias
+              </Button>
               <FormMessage />
             </FormItem>
           )}
-        />
+        />}
+
+        {isSplit && <FormField
+          control={form.control}
+          name="splits"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Categorias</FormLabel>
+              <CategorySplitsEditor
+                value={field.value}
+                onChange={field.onChange}
+                total={totalOf(form.watch('installmentAmount'), Number(form.watch('installments')))}
+                currency={form.watch('currency')}
+                categories={categories}
+                onAddNewCategory={handleAddNewCategory}
+                disabled={isSubmitting || isLoadingCategories || !userId}
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto self-start p-0"
+                onClick={() => {
+                  form.setValue('category', field.value[0]?.category || '');
+                  field.onChange([]);
+                }}
+                disabled={isSubmitting}
+              >
+                Usar uma única categoria
+              </Button>
+              <FormMessage />
+            </FormItem>
+          )}
+        />}
         
+        <FormField
+          control={form.control}
+          name="tagIds"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Tags (Opcional)</FormLabel>
+              <TagPicker
+                tags={tags}
+                value={field.value}
+                onChange={field.onChange}
+                onAddNewTag={handleAddNewTag}
+                disabled={isSubmitting || !userId}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
             name="installmentAmount" // Changed from totalAmount
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Valor da Parcela (R$)</FormLabel> {/* Changed label */}
+                <FormLabel>Valor da Parcela</FormLabel> {/* Changed label */}
                 <FormControl>
                   <Input
                     type="number"
@@ -332,6 +525,22 @@ export function CreditCardTransactionForm({
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Moeda</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value} onValueChange={field.onChange} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {existingPurchase && <AttachmentsPanel ownerEntity="creditCardPurchases" ownerId={existingPurchase.id} disabled={isSubmitting} />}
+
         <div className="flex justify-end space-x-2 pt-4">
           <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
             Cancelar
@@ -351,6 +560,7 @@ export function CreditCardTransactionForm({
           <p className="text-sm text-destructive text-center pt-2">Adicione um cartão de crédito antes de registrar uma compra.</p>
         )}
       </form>
+      {conflictDialog}
     </Form>
   );
 }
@@ -19,11 +19,14 @@ import {
 } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { Sun, Upload, AlertTriangle, FileImage, Trash2, ScanLine } from 'lucide-react';
 import { extractCardInvoiceItemsFromImage } from '@/ai/flows/extract-card-invoice-items-flow';
-import type { ExtractCardInvoiceOutput, UserCategory, NewCreditCardPurchaseData, CreditCard, CreditCardPurchase } from '@/types';
-import { addCreditCardPurchase, getCategoriesForUser, addCategoryForUser, getCreditCardPurchasesForUser } from '@/lib/databaseService';
+import type { ExtractCardInvoiceOutput, Payee, UserCategory, NewCreditCardPurchaseData, CreditCard, CreditCardPurchase } from '@/types';
+import { getCategoriesForUser, addCategoryForUser, getCreditCardPurchasesForUser, getPayeesForUser } from '@/lib/databaseService';
+import { matchPayee } from '@/lib/payees';
 import { format, parseISO, isValid as isValidDate, getYear, getMonth } from 'date-fns';
+import { roundMoney } from '@/lib/money';
 
 const IMPORTED_CARD_CATEGORY_NAME = "Fatura Cartão";
 
@@ -48,6 +51,7 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { getToken } = useAuth();
 
   const fetchAndEnsureImportedCardCategory = useCallback(async () => {
     if (!userId) return;
@@ -123,6 +127,7 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
 
     let extractionResult: ExtractCardInvoiceOutput | null = null;
     let existingCardPurchases: CreditCardPurchase[] = [];
+    let payees: Payee[] = [];
 
     let defaultMonthYearForAI: string | undefined = undefined;
     const selectedCard = userCreditCards.find(c => c.id === selectedCardId);
@@ -137,7 +142,8 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
         imageDataUri: imagePreviewUrl,
         defaultMonthYear: defaultMonthYearForAI,
       });
-      existingCardPurchases = await getCreditCardPurchasesForUser(userId); // Fetch all purchases for the user
+      // Fetch all purchases for the user
+      [existingCardPurchases, payees] = await Promise.all([getCreditCardPurchasesForUser(userId), getPayeesForUser(userId)]);
     } catch (error: any) {
       console.error('Error extracting items from invoice or fetching existing purchases:', error);
       toast({ variant: 'destructive', title: 'Erro na Extração/Preparação', description: error.message || 'Não foi possível processar a imagem ou buscar compras existentes.' });
@@ -154,6 +160,7 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
     let successCount = 0;
     let errorCount = 0;
     let skippedDuplicateCount = 0;
+    const purchasesToCreate: NewCreditCardPurchaseData[] = [];
 
     const purchasesForSelectedCard = existingCardPurchases.filter(p => p.cardId === selectedCardId);
 
@@ -173,13 +180,17 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
         continue;
       }
 
-      const currentDescription = (item.description || item.rawText || 'Compra Importada Fatura').toLowerCase().trim();
-      const currentAmount = parseFloat(amount.toFixed(2));
-      const currentCategory = IMPORTED_CARD_CATEGORY_NAME.toLowerCase();
+      const description = item.description || item.rawText || 'Compra Importada Fatura';
+      // A recognized payee's default category takes the place of the import category
+      const payee = matchPayee(description, payees);
+      const category = payee?.defaultCategory || IMPORTED_CARD_CATEGORY_NAME;
+      const currentDescription = description.toLowerCase().trim();
+      const currentAmount = roundMoney(amount);
+      const currentCategory = category.toLowerCase();
 
       const isDuplicate = purchasesForSelectedCard.some(existingPurchase => {
         const existingDescription = (existingPurchase.description || '').toLowerCase().trim();
-        const existingAmount = parseFloat(existingPurchase.totalAmount.toFixed(2)); // Compare total amount, not installment
+        const existingAmount = roundMoney(existingPurchase.totalAmount); // Compare total amount, not installment
         const existingCategory = (existingPurchase.category || '').toLowerCase();
         
         return existingDescription === currentDescription &&
@@ -197,31 +208,44 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
       const newPurchaseData: NewCreditCardPurchaseData = {
         cardId: selectedCardId,
         date: format(purchaseDate, 'yyyy-MM-dd'),
-        description: item.description || item.rawText || 'Compra Importada Fatura',
-        category: IMPORTED_CARD_CATEGORY_NAME,
+        description,
+        category,
+        payeeId: payee?.id ?? null,
         totalAmount: amount,
         installments: 1, // Default to 1 installment for simplicity
       };
 
+      purchasesToCreate.push(newPurchaseData);
+      // Add to temp list to avoid re-importing within the same batch
+      purchasesForSelectedCard.push({ id: '', userId, ...newPurchaseData, createdAt: Date.now(), updatedAt: Date.now() });
+    }
+
+    // One all-or-nothing request: a failure leaves nothing half-imported.
+    if (purchasesToCreate.length > 0) {
       try {
-        const result = await addCreditCardPurchase(userId, newPurchaseData);
-        if (result.success && result.purchaseId) {
-          successCount++;
-          // Add to temp list to avoid re-importing within the same batch
-          purchasesForSelectedCard.push({
-            id: result.purchaseId,
-            userId,
-            ...newPurchaseData,
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          });
+        const response = await fetch('/api/credit-card-purchases/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+          body: JSON.stringify({ create: purchasesToCreate }),
+        });
+        const result = await response.json();
+        if (response.ok && result.success) {
+          successCount = result.created.length;
         } else {
-          errorCount++;
-          console.error(`Failed to save card purchase "${newPurchaseData.description}": ${result.error}`);
+          errorCount += purchasesToCreate.length;
+          const firstError = result.errors?.[0];
+          console.error('Failed to import card purchases:', result.message, result.errors);
+          toast({
+            variant: 'destructive',
+            title: 'Importação Não Realizada',
+            description: firstError
+              ? `O item "${purchasesToCreate[firstError.index]?.description}" é inválido (${firstError.message}). Nenhuma compra foi salva.`
+              : result.message || 'Nenhuma compra foi salva.',
+          });
         }
       } catch (e) {
-        errorCount++;
-        console.error(`Exception saving card purchase "${newPurchaseData.description}":`, e);
+        errorCount += purchasesToCreate.length;
+        console.error('Exception importing card purchases:', e);
       }
     }
 
@@ -229,7 +253,7 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
 
     let summaryMessages: string[] = [];
     if (successCount > 0) {
-      summaryMessages.push(`${successCount} compras salvas com sucesso na categoria "${IMPORTED_CARD_CATEGORY_NAME}" (com 1 parcela).`);
+      summaryMessages.push(`${successCount} compras salvas com sucesso (com 1 parcela).`);
     }
     if (skippedDuplicateCount > 0) {
       summaryMessages.push(`${skippedDuplicateCount} compras foram puladas por serem duplicadas.`);
@@ -324,7 +348,8 @@ export function ImportCardInvoiceDialog({ userId, userCreditCards, setOpen, onSu
             <AlertTriangle className="h-4 w-4" />
             <AlertTitle>Importação Automática de Fatura</AlertTitle>
             <AlertDescription>
-                Os itens extraídos serão salvos automaticamente com a categoria "{IMPORTED_CARD_CATEGORY_NAME}" e com 1 parcela.
+                Os itens extraídos serão salvos automaticamente com a categoria "{IMPORTED_CARD_CATEGORY_NAME}" e com 1 parcela,
+                ou com a categoria padrão do favorecido reconhecido pela descrição.
                 Compras com dados insuficientes ou duplicadas (mesma descrição, categoria, valor e 1 parcela no cartão selecionado) serão puladas.
             </AlertDescription>
         </Alert>
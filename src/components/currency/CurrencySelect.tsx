@@ -0,0 +1,29 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import type { CurrencyCode } from '@/types';
+
+interface CurrencySelectProps {
+  value: CurrencyCode;
+  onValueChange: (value: CurrencyCode) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+export function CurrencySelect({ value, onValueChange, disabled, id }: CurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Selecione a moeda" />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CURRENCIES.map(currency => (
+          <SelectItem key={currency.code} value={currency.code}>
+            {currency.code} - {currency.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
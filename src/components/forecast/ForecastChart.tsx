@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { AlertTriangleIcon, Info, LineChart, Sun } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_FORECAST_MONTHS, type CashFlowForecast, type ForecastEventSource } from '@/lib/forecast';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { CurrencyCode } from '@/types';
+
+type Forecast = CashFlowForecast & { currency: CurrencyCode; missingCurrencies: CurrencyCode[] };
+
+const MONTH_OPTIONS = [3, 6, 12, 24];
+
+const sourceLabels: Record<ForecastEventSource, string> = {
+  transaction: 'Transação',
+  cardInvoice: 'Fatura',
+  loan: 'Empréstimo',
+  goal: 'Meta',
+};
+
+const chartConfig = {
+  balance: { label: 'Saldo previsto', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const shortDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+interface ForecastChartProps {
+  /** Changes whenever the user's records do, to fetch the forecast again. */
+  refreshKey?: unknown;
+}
+
+/**
+ * The daily balance projected by /api/forecast, with a warning for the lowest point and for
+ * the first day it goes below zero.
+ */
+export function ForecastChart({ refreshKey }: ForecastChartProps) {
+  const { getToken } = useAuth();
+  const [months, setMonths] = useState(DEFAULT_FORECAST_MONTHS);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const token = getToken();
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/forecast?months=${months}`, { headers: token ? { 'Authorization': `Bearer ${token}` } : {} })
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok || !result.success) throw new Error(result.message);
+        if (!cancelled) setForecast(result.forecast);
+      })
+      .catch((e: any) => {
+        console.error('Failed to fetch forecast:', e?.message);
+        if (!cancelled) setError('Não foi possível calcular a previsão.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [months, getToken, refreshKey]);
+
+  const currency = forecast?.currency;
+  const upcoming = forecast?.events.filter(event => event.amount < 0).slice(0, 5) ?? [];
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <CardTitle className="font-headline flex items-center"><LineChart className="mr-2 h-5 w-5 text-primary" />Previsão de Saldo</CardTitle>
+          <CardDescription>
+            Saldo diário com as transações recorrentes e futuras, as faturas dos cartões no vencimento, as parcelas de empréstimos e os aportes mensais das metas com data alvo.
+          </CardDescription>
+        </div>
+        <Select value={String(months)} onValueChange={value => setMonths(Number(value))}>
+          <SelectTrigger className="w-[140px]" aria-label="Período da previsão"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {MONTH_OPTIONS.map(option => <SelectItem key={option} value={String(option)}>{option} meses</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && !forecast ? (
+          <div className="flex items-center justify-center h-64"><Sun className="h-10 w-10 animate-spin text-primary" /></div>
+        ) : error || !forecast ? (
+          <div className="flex flex-col items-center justify-center h-40 text-destructive"><AlertTriangleIcon className="h-10 w-10 mb-3" /><p>{error}</p></div>
+        ) : (
+          <>
+            {forecast.firstNegativeDate ? (
+              <Alert variant="destructive">
+                <AlertTriangleIcon className="h-4 w-4" />
+                <AlertTitle>Saldo negativo previsto</AlertTitle>
+                <AlertDescription>
+                  O saldo fica negativo em {shortDate(forecast.firstNegativeDate)} e chega a {formatCurrency(forecast.lowest.balance, currency)} em {shortDate(forecast.lowest.date)}.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertTitle>Menor saldo previsto</AlertTitle>
+                <AlertDescription>
+                  {formatCurrency(forecast.lowest.balance, currency)} em {shortDate(forecast.lowest.date)}.
+                </AlertDescription>
+              </Alert>
+            )}
+            <ChartContainer config={chartConfig} className={cn('h-[300px] w-full aspect-auto', isLoading && 'opacity-60')}>
+              <AreaChart data={forecast.days} margin={{ left: 12, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={date => format(parseISO(date), 'dd MMM', { locale: ptBR })} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={value => formatCurrency(value, currency)} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => shortDate(payload[0]?.payload.date)} formatter={value => formatCurrency(Number(value), currency)} />}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--negative))" strokeDasharray="4 4" />
+                <Area dataKey="balance" type="stepAfter" stroke="var(--color-balance)" fill="var(--color-balance)" fillOpacity={0.2} />
+                <ReferenceDot x={forecast.lowest.date} y={forecast.lowest.balance} r={5} fill="hsl(var(--negative))" stroke="none" />
+              </AreaChart>
+            </ChartContainer>
+            {upcoming.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Próximas saídas</p>
+                <ul className="text-sm divide-y">
+                  {upcoming.map(event => (
+                    <li key={`${event.source}-${event.sourceId}-${event.date}`} className="flex justify-between gap-2 py-1">
+                      <span className="truncate">{shortDate(event.date)} · {sourceLabels[event.source]}: {event.description}</span>
+                      <span className="text-negative whitespace-nowrap">{formatCurrency(-event.amount, currency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {forecast.missingCurrencies.length > 0 && (
+              <p className="text-xs text-muted-foreground">Valores em {forecast.missingCurrencies.join(', ')} ficaram de fora por falta de cotação.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -24,11 +24,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun, PiggyBank, Target, TrendingUp, Flag, XCircle } from 'lucide-react'; 
 import { useState } from 'react';
 import type { FinancialGoal, NewFinancialGoalData, UpdateFinancialGoalData, FinancialGoalStatus } from '@/types';
 import { format, parseISO } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext'; 
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
 // CurrencyInput is no longer used
 
 const goalFormSchema = z.object({
@@ -44,6 +47,7 @@ const goalFormSchema = z.object({
   description: z.string().max(250, 'Máximo de 250 caracteres.').optional().nullable(),
   icon: z.string().optional().nullable(),
   status: z.enum(['active', 'achieved', 'abandoned']).optional(),
+  currency: z.string().min(3, 'A moeda é obrigatória.'),
 });
 
 type GoalFormValues = z.infer<typeof goalFormSchema>;
@@ -71,14 +75,16 @@ const iconOptions = [
 
 export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }: FinancialGoalFormProps) {
   const { toast } = useToast();
-  const { getToken } = useAuth(); 
+  const { getToken, user } = useAuth(); 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('financialGoals');
 
   const defaultValues: Partial<GoalFormValues> = existingGoal
     ? {
         ...existingGoal,
         targetDate: existingGoal.targetDate ? parseISO(existingGoal.targetDate) : null,
         currentAmount: existingGoal.currentAmount || 0,
+        currency: existingGoal.currency || DEFAULT_CURRENCY,
       }
     : {
         name: '',
@@ -88,6 +94,7 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
         description: '',
         icon: 'PiggyBank', 
         status: 'active',
+        currency: user?.baseCurrency || DEFAULT_CURRENCY,
       };
 
   const form = useForm<GoalFormValues>({
@@ -117,22 +124,26 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
 
     try {
       let response;
+      let result;
       if (existingGoal) {
-        response = await fetch(`/api/goals/${existingGoal.id}`, {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify(goalData),
-        });
+        const outcome = await saveVersioned(`/api/goals/${existingGoal.id}`, headers, existingGoal, goalData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          onSuccess(outcome.result.current as FinancialGoal);
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
       } else {
         response = await fetch('/api/goals', {
           method: 'POST',
           headers,
           body: JSON.stringify(goalData),
         });
+        result = await response.json();
       }
 
-      const result = await response.json();
-
       if (response.ok && result.success) {
         toast({
           title: 'Sucesso!',
@@ -141,7 +152,7 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
         
         const mockId = existingGoal ? existingGoal.id : result.goalId || 'temp-id';
         const now = Date.now();
-        onSuccess({
+        onSuccess(result.goal || {
           id: mockId,
           userId,
           ...values,
@@ -194,13 +205,13 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
             name="targetAmount"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Valor Alvo (R$)</FormLabel>
+                <FormLabel>Valor Alvo</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
                     step="0.01"
                     lang="pt-BR"
-                    placeholder="R$ 10.000,00"
+                    placeholder="10.000,00"
                     {...field}
                     value={field.value === undefined ? '' : field.value}
                     onChange={e => field.onChange(e.target.valueAsNumber === undefined || isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
@@ -216,13 +227,13 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
             name="currentAmount"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Valor Atual (R$)</FormLabel>
+                <FormLabel>Valor Atual</FormLabel>
                 <FormControl>
                   <Input
                     type="number"
                     step="0.01"
                     lang="pt-BR"
-                    placeholder="R$ 500,00"
+                    placeholder="500,00"
                     {...field}
                     value={field.value === undefined ? '' : field.value}
                     onChange={e => field.onChange(e.target.valueAsNumber === undefined || isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
@@ -235,6 +246,20 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Moeda</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value} onValueChange={field.onChange} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="targetDate"
@@ -333,6 +358,7 @@ export function FinancialGoalForm({ userId, existingGoal, onSuccess, setOpen }:
           </Button>
         </div>
       </form>
+      {conflictDialog}
     </Form>
   );
 }
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Sun, AlertTriangleIcon, History } from 'lucide-react';
+import type { AuditAction, AuditEvent, CurrencyCode } from '@/types';
+import type { UserEntityName } from '@/lib/storage/types';
+import { formatFieldValue, recordFieldLabels } from '@/lib/recordFormatting';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { useAuth } from '@/contexts/AuthContext';
+
+const actionLabels: Record<AuditAction, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  create: { label: 'Criado', variant: 'default' },
+  update: { label: 'Alterado', variant: 'secondary' },
+  delete: { label: 'Movido para a Lixeira', variant: 'destructive' },
+  restore: { label: 'Restaurado', variant: 'outline' },
+  purge: { label: 'Excluído definitivamente', variant: 'destructive' },
+};
+
+interface RecordHistorySheetProps {
+  entity: UserEntityName;
+  recordId: string | null;
+  title?: string;
+  /** Currency of the record's amounts (reais if not given). */
+  currency?: CurrencyCode;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Side panel listing who changed a record, when, and which fields.
+export function RecordHistorySheet({ entity, recordId, title, currency, open, onOpenChange }: RecordHistorySheetProps) {
+  const { user, getToken } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    const token = getToken();
+    if (!recordId || !token) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/history/${entity}/${recordId}`, { headers: { 'Authorization': `Bearer ${token}` } });
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setEvents(result.events);
+      } else {
+        setError(result.message || 'Não foi possível carregar o histórico.');
+      }
+    } catch (e: any) {
+      console.error('Error fetching record history:', e?.message);
+      setError('Não foi possível carregar o histórico.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entity, recordId, getToken]);
+
+  useEffect(() => {
+    if (open) fetchHistory();
+  }, [open, fetchHistory]);
+
+  const actorName = (actorId?: string | null) => {
+    if (!actorId) return 'Sistema';
+    return actorId === user?.id ? 'Você' : 'Outro usuário';
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="h-[200px] flex items-center justify-center">
+          <Sun className="h-8 w-8 animate-spin text-primary" />
+          <p className="ml-2 text-muted-foreground">Carregando histórico...</p>
+        </div>
+      );
+    }
+    if (error) {
+      return (
+        <div className="h-[200px] flex flex-col items-center justify-center text-destructive">
+          <AlertTriangleIcon className="h-8 w-8 mb-2" />
+          <p>{error}</p>
+        </div>
+      );
+    }
+    if (events.length === 0) {
+      return <p className="text-sm text-muted-foreground text-center py-8">Nenhuma alteração registrada para este item.</p>;
+    }
+    return (
+      <ol className="space-y-4">
+        {[...events].reverse().map(event => (
+          <li key={event.id} className="border-l-2 border-primary/40 pl-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={actionLabels[event.action].variant}>{actionLabels[event.action].label}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(event.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} · {actorName(event.actorId)}
+              </span>
+            </div>
+            {event.changes.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {event.changes.map(change => (
+                  <li key={change.field}>
+                    <span className="font-medium">{recordFieldLabels[change.field] || change.field}:</span>{' '}
+                    {event.action === 'create' ? (
+                      formatFieldValue(entity, change.field, change.to, currency)
+                    ) : (
+                      <>
+                        <span className="text-muted-foreground line-through">{formatFieldValue(entity, change.field, change.from, currency)}</span>
+                        {' → '}
+                        {formatFieldValue(entity, change.field, change.to, currency)}
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5 text-primary" />
+            Histórico
+          </SheetTitle>
+          <SheetDescription>{title || 'Alterações registradas para este item.'}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="flex-1 pr-3 mt-4">{renderContent()}</ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -24,11 +24,15 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun } from 'lucide-react';
 import { useState } from 'react';
 import type { Investment, NewInvestmentData, UpdateInvestmentData, InvestmentType } from '@/types';
 import { format, parseISO } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { AttachmentsPanel } from '@/components/attachments/AttachmentsPanel';
 // CurrencyInput is no longer used
 
 const investmentTypes: { value: InvestmentType; label: string }[] = [
@@ -56,6 +60,7 @@ const investmentFormSchema = z.object({
   institution: z.string().max(100, 'Nome da instituição muito longo.').optional().nullable(),
   acquisitionDate: z.date().optional().nullable(),
   notes: z.string().max(500, 'Observações muito longas.').optional().nullable(),
+  currency: z.string().min(3, 'A moeda é obrigatória.'),
 });
 
 type InvestmentFormValues = z.infer<typeof investmentFormSchema>;
@@ -69,8 +74,9 @@ interface InvestmentFormProps {
 
 export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen }: InvestmentFormProps) {
   const { toast } = useToast();
-  const { getToken } = useAuth(); 
+  const { getToken, user } = useAuth(); 
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('investments');
 
   const defaultValues: Partial<InvestmentFormValues> = existingInvestment
     ? {
@@ -79,6 +85,7 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
         currentValue: existingInvestment.currentValue || 0,
         initialAmount: existingInvestment.initialAmount || undefined, 
         quantity: existingInvestment.quantity || undefined,
+        currency: existingInvestment.currency || DEFAULT_CURRENCY,
       }
     : {
         name: '',
@@ -90,6 +97,7 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
         symbol: '',
         institution: '',
         notes: '',
+        currency: user?.baseCurrency || DEFAULT_CURRENCY,
       };
 
   const form = useForm<InvestmentFormValues>({
@@ -124,14 +132,17 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
       let result;
 
       if (existingInvestment) {
-        response = await fetch(`/api/investments/${existingInvestment.id}`, {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify(apiData),
-        });
-        result = await response.json();
+        const outcome = await saveVersioned(`/api/investments/${existingInvestment.id}`, headers, existingInvestment, apiData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          onSuccess(outcome.result.current as Investment);
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
         if (response.ok && result.success) {
-            onSuccess({ ...existingInvestment, ...values, acquisitionDate: apiData.acquisitionDate, updatedAt: Date.now() } as Investment);
+            onSuccess(result.investment as Investment);
         }
       } else {
         response = await fetch('/api/investments', {
@@ -223,13 +234,13 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
           name="currentValue"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Valor Atual (R$)</FormLabel>
+              <FormLabel>Valor Atual</FormLabel>
               <FormControl>
                  <Input
                   type="number"
                   step="0.01"
                   lang="pt-BR"
-                  placeholder="R$ 1.500,00"
+                  placeholder="1.500,00"
                   {...field}
                   value={field.value === undefined ? '' : field.value}
                   onChange={e => field.onChange(e.target.valueAsNumber === undefined || isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
@@ -247,13 +258,13 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
             name="initialAmount"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Valor Inicial Investido (R$, Opcional)</FormLabel>
+                <FormLabel>Valor Inicial Investido (Opcional)</FormLabel>
                 <FormControl>
                    <Input
                     type="number"
                     step="0.01"
                     lang="pt-BR"
-                    placeholder="R$ 1.000,00"
+                    placeholder="1.000,00"
                     {...field}
                     value={field.value === undefined || field.value === null ? '' : field.value}
                     onChange={e => field.onChange(e.target.valueAsNumber === undefined || isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
@@ -308,6 +319,20 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Moeda</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value} onValueChange={field.onChange} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="acquisitionDate"
@@ -334,6 +359,8 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
           )}
         />
 
+        {existingInvestment && <AttachmentsPanel ownerEntity="investments" ownerId={existingInvestment.id} disabled={isSubmitting} />}
+
         <div className="flex justify-end space-x-2 pt-4">
           <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
             Cancelar
@@ -350,6 +377,7 @@ export function InvestmentForm({ userId, existingInvestment, onSuccess, setOpen
           </Button>
         </div>
       </form>
+      {conflictDialog}
     </Form>
   );
 }
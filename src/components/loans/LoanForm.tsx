@@ -17,12 +17,14 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { DatePicker } from '@/components/ui/date-picker';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun } from 'lucide-react';
 import { useState, useEffect, useCallback, useMemo } from 'react'; // Added useCallback, useMemo
 import { addLoan, type NewLoanData, type UpdateLoanData } from '@/lib/databaseService';
 import type { Loan } from '@/types';
 import { format, parseISO, isValid as isValidDate } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
+import { AttachmentsPanel } from '@/components/attachments/AttachmentsPanel';
 
 const loanFormSchema = z.object({
   bankName: z.string().min(1, { message: 'O nome do banco é obrigatório.' }).max(50, { message: 'Máximo de 50 caracteres.'}),
@@ -52,6 +54,7 @@ export function LoanForm({ onSuccess, setOpen, existingLoan, userId }: LoanFormP
   const { toast } = useToast();
   const { getToken } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('loans');
 
   const form = useForm<LoanFormValues>({
     resolver: zodResolver(loanFormSchema),
@@ -121,20 +124,23 @@ export function LoanForm({ onSuccess, setOpen, existingLoan, userId }: LoanFormP
 
     try {
       if (existingLoan) {
-        response = await fetch(`/api/loans/${existingLoan.id}`, {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify(apiData),
-        });
+        const outcome = await saveVersioned(`/api/loans/${existingLoan.id}`, headers, existingLoan, apiData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          if (onSuccess) onSuccess();
+          setOpen(false);
+          return;
+        }
+        ({ response, result } = outcome);
       } else {
         response = await fetch('/api/loans', {
           method: 'POST',
           headers,
           body: JSON.stringify(apiData),
         });
+        result = await response.json();
       }
-      
-      result = await response.json();
 
       if (response.ok && result.success) {
         toast({
@@ -272,6 +278,8 @@ export function LoanForm({ onSuccess, setOpen, existingLoan, userId }: LoanFormP
           />
         </div>
 
+        {existingLoan && <AttachmentsPanel ownerEntity="loans" ownerId={existingLoan.id} disabled={isSubmitting} />}
+
         <div className="flex justify-end space-x-2 pt-4">
           <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
             Cancelar
@@ -288,6 +296,7 @@ export function LoanForm({ onSuccess, setOpen, existingLoan, userId }: LoanFormP
           </Button>
         </div>
       </form>
+      {conflictDialog}
     </Form>
   );
 }
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronsUpDown, PlusCircle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { Payee } from '@/types';
+
+interface PayeePickerProps {
+  payees: Payee[];
+  value: string | null; // Selected payee id
+  onChange: (value: string | null) => void;
+  onAddNewPayee: (name: string) => Promise<Payee | null>;
+  disabled?: boolean;
+}
+
+/** Picks one of the user's payees, or none; typing a name that does not exist offers to create it. */
+export function PayeePicker({ payees, value, onChange, onAddNewPayee, disabled }: PayeePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const selected = payees.find(payee => payee.id === value);
+  const search = inputValue.toLowerCase();
+  const filteredPayees = payees
+    .filter(payee => [payee.name, ...payee.aliases].some(name => name.toLowerCase().includes(search)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const showAddNewOption = inputValue.trim() !== '' && !payees.some(payee => payee.name.toLowerCase() === inputValue.trim().toLowerCase());
+
+  const select = (payeeId: string | null) => {
+    onChange(payeeId);
+    setInputValue('');
+    setOpen(false);
+  };
+
+  const handleAddNew = async () => {
+    setIsAdding(true);
+    try {
+      const payee = await onAddNewPayee(inputValue.trim());
+      if (payee) select(payee.id);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal" disabled={disabled}>
+          {selected ? selected.name : <span className="text-muted-foreground">Nenhum favorecido</span>}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar ou criar favorecido..." value={inputValue} onValueChange={setInputValue} />
+          <CommandList>
+            {filteredPayees.length === 0 && !showAddNewOption && <CommandEmpty>Nenhum favorecido. Digite para criar.</CommandEmpty>}
+            {value && (
+              <CommandGroup>
+                <CommandItem value="none" onSelect={() => select(null)}>
+                  <X className="mr-2 h-4 w-4" />
+                  Sem favorecido
+                </CommandItem>
+              </CommandGroup>
+            )}
+            {filteredPayees.length > 0 && (
+              <CommandGroup>
+                {filteredPayees.map(payee => (
+                  <CommandItem key={payee.id} value={payee.id} onSelect={() => select(payee.id)}>
+                    <Check className={cn('mr-2 h-4 w-4', value === payee.id ? 'opacity-100' : 'opacity-0')} />
+                    {payee.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {showAddNewOption && (
+              <CommandGroup>
+                <CommandItem value={`create-${inputValue}`} onSelect={handleAddNew} disabled={isAdding}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Criar favorecido &quot;{inputValue.trim()}&quot;
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { addCategoryForUser, deleteCategory, getCategoriesForUser, getCategoryUsageForUser, mergeCategories, updateCategory } from '@/lib/databaseService';
+import { CATEGORY_COLORS, CATEGORY_ICONS, orderCategories } from '@/lib/categories';
+import { CategoryIcon, categoryIconComponents } from '@/components/categories/CategoryIcon';
+import { cn } from '@/lib/utils';
+import { Edit3, GitMerge, PlusCircle, Sun, Trash2 } from 'lucide-react';
+import type { UserCategory } from '@/types';
+
+interface CategoriesManagerProps {
+  userId: string;
+}
+
+interface CategoryFormValues {
+  name: string;
+  parentId: string; // 'none' for a top-level category
+  icon: string | null;
+  color: string | null;
+}
+
+const emptyForm: CategoryFormValues = { name: '', parentId: 'none', icon: null, color: null };
+
+type PendingAction =
+  | { type: 'edit'; category: UserCategory | null } // null creates a new category
+  | { type: 'merge' | 'delete'; category: UserCategory };
+
+/**
+ * Create, edit, merge and delete categories. Renames and merges carry over to every
+ * transaction and purchase; deleting a category in use moves its records to another one.
+ */
+export function CategoriesManager({ userId }: CategoriesManagerProps) {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<UserCategory[]>([]);
+  const [usage, setUsage] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [form, setForm] = useState<CategoryFormValues>(emptyForm);
+  const [targetId, setTargetId] = useState('');
+
+  const fetchCategories = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [userCategories, categoryUsage] = await Promise.all([getCategoriesForUser(userId), getCategoryUsageForUser(userId)]);
+      setCategories(userCategories);
+      setUsage(categoryUsage);
+    } catch (error) {
+      console.error('Failed to fetch categories:', error);
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível carregar as categorias.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  const openEditor = (category: UserCategory | null) => {
+    setForm(category
+      ? { name: category.name, parentId: category.parentId || 'none', icon: category.icon ?? null, color: category.color ?? null }
+      : emptyForm);
+    setPending({ type: 'edit', category });
+  };
+
+  const openMoveDialog = (type: 'merge' | 'delete', category: UserCategory) => {
+    setTargetId('');
+    setPending({ type, category });
+  };
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, errorTitle: string) => {
+    setIsSaving(true);
+    const result = await action();
+    setIsSaving(false);
+    if (result.success) {
+      setPending(null);
+      fetchCategories();
+    } else {
+      toast({ variant: 'destructive', title: errorTitle, description: result.error || 'Não foi possível salvar a categoria.' });
+    }
+  };
+
+  const handleSave = () => {
+    if (pending?.type !== 'edit') return;
+    const details = { parentId: form.parentId === 'none' ? null : form.parentId, icon: form.icon, color: form.color };
+    run(
+      pending.category
+        ? () => updateCategory(userId, pending.category!.id, { name: form.name, ...details })
+        : () => addCategoryForUser(userId, form.name, false, details),
+      pending.category ? 'Erro ao Salvar Categoria' : 'Erro ao Criar Categoria'
+    );
+  };
+
+  const handleMove = () => {
+    if (pending?.type === 'merge') run(() => mergeCategories(userId, pending.category.id, targetId), 'Erro ao Mesclar Categorias');
+    if (pending?.type === 'delete') run(() => deleteCategory(userId, pending.category.id, targetId || undefined), 'Erro ao Excluir Categoria');
+  };
+
+  const editing = pending?.type === 'edit' ? pending.category : null;
+  const hasChildren = (category: UserCategory | null) => !!category && categories.some(c => c.parentId === category.id);
+  // Subcategories are one level deep, so only top-level categories can be parents.
+  const parentOptions = categories.filter(c => !c.parentId && c.id !== editing?.id);
+  const moving = pending && pending.type !== 'edit' ? pending.category : null;
+  const movingUsage = moving ? usage[moving.id] || 0 : 0;
+  const moveTargets = orderCategories(categories).filter(({ category }) => category.id !== moving?.id);
+
+  return (
+    <div className="space-y-4">
+      <Button onClick={() => openEditor(null)}>
+        <PlusCircle className="mr-2 h-4 w-4" /> Nova Categoria
+      </Button>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando categorias...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead className="text-right">Lançamentos</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orderCategories(categories).map(({ category, depth }) => (
+              <TableRow key={category.id}>
+                <TableCell>
+                  <span className={cn('flex items-center gap-2', depth > 0 && 'pl-6')}>
+                    <CategoryIcon category={category} />
+                    {category.name}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{usage[category.id] || 0}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" onClick={() => openEditor(category)} aria-label="Editar categoria">
+                    <Edit3 className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openMoveDialog('merge', category)} disabled={categories.length < 2} aria-label="Mesclar categoria">
+                    <GitMerge className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => openMoveDialog('delete', category)} aria-label="Excluir categoria">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={pending?.type === 'edit'} onOpenChange={isOpen => { if (!isOpen) setPending(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar Categoria' : 'Nova Categoria'}</DialogTitle>
+            <DialogDescription>
+              {editing ? 'Um novo nome é aplicado a todas as transações e compras desta categoria.' : 'Crie uma categoria ou uma subcategoria.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Nome</Label>
+              <Input id="category-name" value={form.name} maxLength={100} onChange={e => setForm({ ...form, name: e.target.value })} disabled={isSaving} />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria Pai</Label>
+              <Select value={form.parentId} onValueChange={parentId => setForm({ ...form, parentId })} disabled={isSaving || hasChildren(editing)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Nenhuma (categoria principal)</SelectItem>
+                  {parentOptions.map(parent => <SelectItem key={parent.id} value={parent.id}>{parent.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {hasChildren(editing) && <p className="text-xs text-muted-foreground">Categorias com subcategorias não podem virar subcategorias.</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Ícone</Label>
+              <div className="flex flex-wrap gap-1">
+                {CATEGORY_ICONS.map(icon => {
+                  const Icon = categoryIconComponents[icon];
+                  return (
+                    <Button key={icon} type="button" variant={form.icon === icon ? 'secondary' : 'ghost'} size="icon" className="h-8 w-8"
+                      onClick={() => setForm({ ...form, icon: form.icon === icon ? null : icon })} aria-label={icon} aria-pressed={form.icon === icon}>
+                      <Icon className="h-4 w-4" style={form.color ? { color: form.color } : undefined} />
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Cor</Label>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLORS.map(color => (
+                  <button key={color} type="button" className={cn('h-6 w-6 rounded-full border-2', form.color === color ? 'border-foreground' : 'border-transparent')}
+                    style={{ backgroundColor: color }} onClick={() => setForm({ ...form, color: form.color === color ? null : color })} aria-label={color} aria-pressed={form.color === color} />
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isSaving}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+              {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!moving} onOpenChange={isOpen => { if (!isOpen) setPending(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pending?.type === 'merge' ? `Mesclar "${moving?.name}"` : `Excluir "${moving?.name}"`}</DialogTitle>
+            <DialogDescription>
+              {pending?.type === 'merge'
+                ? `As ${movingUsage} transações e compras desta categoria passam para a categoria escolhida, e esta categoria é excluída.`
+                : movingUsage > 0
+                  ? `Esta categoria tem ${movingUsage} transações e compras. Escolha para qual categoria elas serão movidas.`
+                  : 'Esta categoria não tem transações nem compras e será excluída.'}
+              {hasChildren(moving) && ' Suas subcategorias passam para a categoria escolhida, ou viram categorias principais.'}
+            </DialogDescription>
+          </DialogHeader>
+          {(pending?.type === 'merge' || movingUsage > 0) && (
+            <Select value={targetId} onValueChange={setTargetId} disabled={isSaving}>
+              <SelectTrigger aria-label="Categoria de destino"><SelectValue placeholder="Escolha a categoria de destino" /></SelectTrigger>
+              <SelectContent>
+                {moveTargets.map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.id} className={cn(depth > 0 && 'pl-10')}>
+                    <span className="flex items-center gap-2"><CategoryIcon category={category} />{category.name}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isSaving}>Cancelar</Button>
+            <Button
+              variant={pending?.type === 'delete' ? 'destructive' : 'default'}
+              onClick={handleMove}
+              disabled={isSaving || ((pending?.type === 'merge' || movingUsage > 0) && !targetId)}
+            >
+              {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {pending?.type === 'merge' ? 'Mesclar' : 'Excluir'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
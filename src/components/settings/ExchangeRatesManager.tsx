@@ -0,0 +1,140 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { useToast } from '@/hooks/use-toast';
+import { deleteExchangeRate, getExchangeRatesForUser, saveExchangeRate } from '@/lib/databaseService';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { Sun, Trash2 } from 'lucide-react';
+import type { CurrencyCode, ExchangeRate } from '@/types';
+
+interface ExchangeRatesManagerProps {
+  userId: string;
+  baseCurrency: CurrencyCode;
+}
+
+// The rates used to convert records into the base currency. Each record uses the latest rate on or before its date.
+export function ExchangeRatesManager({ userId, baseCurrency }: ExchangeRatesManagerProps) {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency === 'USD' ? DEFAULT_CURRENCY : 'USD');
+  const [quoteCurrency, setQuoteCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState<Date | undefined>(new Date());
+
+  const fetchRates = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRates(await getExchangeRatesForUser(userId));
+    } catch (error) {
+      console.error('Failed to fetch exchange rates:', error);
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível carregar as cotações.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  useEffect(() => {
+    setQuoteCurrency(baseCurrency);
+  }, [baseCurrency]);
+
+  const handleSave = async () => {
+    const parsedRate = Number(rate.replace(',', '.'));
+    if (!date || !(parsedRate > 0)) {
+      toast({ variant: 'destructive', title: 'Cotação Inválida', description: 'Informe uma data e uma cotação maior que zero.' });
+      return;
+    }
+    if (currency === quoteCurrency) {
+      toast({ variant: 'destructive', title: 'Cotação Inválida', description: 'Escolha duas moedas diferentes.' });
+      return;
+    }
+    setIsSaving(true);
+    const result = await saveExchangeRate(userId, { currency, quoteCurrency, rate: parsedRate, date: format(date, 'yyyy-MM-dd') });
+    setIsSaving(false);
+    if (result.success) {
+      toast({ title: 'Cotação Salva', description: `1 ${currency} = ${parsedRate} ${quoteCurrency}` });
+      setRate('');
+      fetchRates();
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Salvar Cotação', description: result.error || 'Não foi possível salvar a cotação.' });
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    const result = await deleteExchangeRate(userId, rateId);
+    if (result.success) {
+      setRates(prev => prev.filter(r => r.id !== rateId));
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Excluir Cotação', description: result.error || 'Não foi possível excluir a cotação.' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="rate-currency">1 unidade de</Label>
+          <CurrencySelect id="rate-currency" value={currency} onValueChange={setCurrency} disabled={isSaving} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-value">Vale</Label>
+          <Input id="rate-value" type="number" step="0.0001" min="0" placeholder="5,4321" value={rate} onChange={e => setRate(e.target.value)} disabled={isSaving} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rate-quote-currency">Em</Label>
+          <CurrencySelect id="rate-quote-currency" value={quoteCurrency} onValueChange={setQuoteCurrency} disabled={isSaving} />
+        </div>
+        <div className="space-y-2">
+          <Label>Data</Label>
+          <DatePicker value={date} onChange={setDate} />
+        </div>
+      </div>
+      <Button onClick={handleSave} disabled={isSaving || !rate}>
+        {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+        Salvar Cotação
+      </Button>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando cotações...</p>
+      ) : rates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma cotação cadastrada. Registros em outras moedas ficam fora dos totais até que haja uma cotação.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Cotação</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map(r => (
+              <TableRow key={r.id}>
+                <TableCell>{format(parseISO(r.date), 'dd/MM/yyyy', { locale: ptBR })}</TableCell>
+                <TableCell>1 {r.currency} = {r.rate.toLocaleString('pt-BR', { maximumFractionDigits: 6 })} {r.quoteCurrency}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(r.id)} aria-label="Excluir cotação">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { addTag, deleteTag, getTagsForUser, updateTag } from '@/lib/databaseService';
+import { Check, Edit3, Sun, Trash2, X } from 'lucide-react';
+import type { Tag } from '@/types';
+
+interface TagsManagerProps {
+  userId: string;
+}
+
+// Create, rename and delete tags. Deleted tags go to the trash; restoring one tags its records again.
+export function TagsManager({ userId }: TagsManagerProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const fetchTags = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTags(await getTagsForUser(userId));
+    } catch (error) {
+      console.error('Failed to fetch tags:', error);
+      toast({ variant: 'destructive', title: 'Erro', description: 'Não foi possível carregar as tags.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    const result = await addTag(userId, { name: newName });
+    setIsSaving(false);
+    if (result.success) {
+      setNewName('');
+      fetchTags();
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Criar Tag', description: result.error || 'Não foi possível criar a tag.' });
+    }
+  };
+
+  const handleRename = async (tagId: string) => {
+    setIsSaving(true);
+    const result = await updateTag(userId, tagId, { name: editingName });
+    setIsSaving(false);
+    if (result.success) {
+      setEditingId(null);
+      fetchTags();
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Renomear Tag', description: result.error || 'Não foi possível renomear a tag.' });
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    const result = await deleteTag(userId, tag.id);
+    if (result.success) {
+      setTags(prev => prev.filter(t => t.id !== tag.id));
+      toast({ title: 'Tag Movida para a Lixeira', description: `"${tag.name}" pode ser restaurada pela Lixeira.` });
+    } else {
+      toast({ variant: 'destructive', title: 'Erro ao Excluir Tag', description: result.error || 'Não foi possível excluir a tag.' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 max-w-md">
+        <Input
+          placeholder="Ex: Viagem Chile 2026, Reembolsável"
+          value={newName}
+          maxLength={50}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && newName.trim()) handleAdd(); }}
+          disabled={isSaving}
+        />
+        <Button onClick={handleAdd} disabled={isSaving || !newName.trim()}>
+          {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+          Criar Tag
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando tags...</p>
+      ) : tags.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma tag criada. Tags também podem ser criadas ao lançar uma transação ou compra.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tags.map(tag => (
+              <TableRow key={tag.id}>
+                <TableCell>
+                  {editingId === tag.id ? (
+                    <Input
+                      value={editingName}
+                      maxLength={50}
+                      onChange={e => setEditingName(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') handleRename(tag.id); }}
+                      disabled={isSaving}
+                      autoFocus
+                    />
+                  ) : tag.name}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {editingId === tag.id ? (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => handleRename(tag.id)} disabled={isSaving || !editingName.trim()} aria-label="Salvar nome">
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setEditingId(null)} disabled={isSaving} aria-label="Cancelar">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => { setEditingId(tag.id); setEditingName(tag.name); }} aria-label="Renomear tag">
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(tag)} aria-label="Excluir tag">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronsUpDown, PlusCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { Tag } from '@/types';
+
+interface TagPickerProps {
+  tags: Tag[];
+  value: string[]; // Selected tag ids
+  onChange: (value: string[]) => void;
+  onAddNewTag: (name: string) => Promise<Tag | null>;
+  disabled?: boolean;
+}
+
+/** Picks any number of the user's tags; typing a name that does not exist offers to create it. */
+export function TagPicker({ tags, value, onChange, onAddNewTag, disabled }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [inputValue, setInputValue] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  const selected = tags.filter(tag => value.includes(tag.id));
+  const filteredTags = tags.filter(tag => tag.name.toLowerCase().includes(inputValue.toLowerCase()));
+  const showAddNewOption = inputValue.trim() !== '' && !tags.some(tag => tag.name.toLowerCase() === inputValue.trim().toLowerCase());
+
+  const toggle = (tagId: string) => onChange(value.includes(tagId) ? value.filter(id => id !== tagId) : [...value, tagId]);
+
+  const handleAddNew = async () => {
+    setIsAdding(true);
+    try {
+      const tag = await onAddNewTag(inputValue.trim());
+      if (tag) {
+        onChange([...value, tag.id]);
+        setInputValue('');
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="h-auto min-h-10 w-full justify-between" disabled={disabled}>
+          <span className="flex flex-wrap gap-1">
+            {selected.length > 0
+              ? selected.map(tag => <Badge key={tag.id} variant="secondary">{tag.name}</Badge>)
+              : <span className="font-normal text-muted-foreground">Nenhuma tag</span>}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar ou criar tag..." value={inputValue} onValueChange={setInputValue} />
+          <CommandList>
+            {filteredTags.length === 0 && !showAddNewOption && <CommandEmpty>Nenhuma tag. Digite para criar.</CommandEmpty>}
+            {filteredTags.length > 0 && (
+              <CommandGroup>
+                {filteredTags.map(tag => (
+                  <CommandItem key={tag.id} value={tag.id} onSelect={() => toggle(tag.id)}>
+                    <Check className={cn('mr-2 h-4 w-4', value.includes(tag.id) ? 'opacity-100' : 'opacity-0')} />
+                    {tag.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {showAddNewOption && (
+              <CommandGroup>
+                <CommandItem value={`create-${inputValue}`} onSelect={handleAddNew} disabled={isAdding}>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Criar tag &quot;{inputValue.trim()}&quot;
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sun } from 'lucide-react';
+import type { Account, RecurrenceFrequency, TransactionType, UpdateTransactionData } from '@/types';
+import { recurrenceFrequencyLabels, RECURRENCE_FREQUENCIES } from '@/lib/recurrence';
+
+const KEEP = 'keep';
+const NO_ACCOUNT = 'none';
+
+interface BulkEditTransactionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  categoryNames: string[];
+  accounts: Account[];
+  isSaving: boolean;
+  onApply: (changes: UpdateTransactionData) => void;
+}
+
+// Sets the same category, type, recurrence or account on every selected transaction; fields left as "Manter" are not touched.
+export function BulkEditTransactionsDialog({ open, onOpenChange, selectedCount, categoryNames, accounts, isSaving, onApply }: BulkEditTransactionsDialogProps) {
+  const [category, setCategory] = useState(KEEP);
+  const [type, setType] = useState(KEEP);
+  const [recurrence, setRecurrence] = useState(KEEP);
+  const [accountId, setAccountId] = useState(KEEP);
+
+  useEffect(() => {
+    if (open) {
+      setCategory(KEEP);
+      setType(KEEP);
+      setRecurrence(KEEP);
+      setAccountId(KEEP);
+    }
+  }, [open]);
+
+  const changes: UpdateTransactionData = {};
+  if (category !== KEEP) changes.category = category;
+  if (type !== KEEP) changes.type = type as TransactionType;
+  if (recurrence !== KEEP) changes.recurrenceFrequency = recurrence as RecurrenceFrequency;
+  if (accountId !== KEEP) changes.accountId = accountId === NO_ACCOUNT ? null : accountId;
+  const hasChanges = Object.keys(changes).length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Editar {selectedCount} {selectedCount === 1 ? 'transação' : 'transações'}</DialogTitle>
+          <DialogDescription>
+            As alterações são aplicadas a todas as selecionadas de uma vez. Se alguma não puder ser alterada, nenhuma é.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-category">Categoria</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger id="bulk-category"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Manter</SelectItem>
+                {categoryNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-type">Tipo</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger id="bulk-type"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Manter</SelectItem>
+                <SelectItem value="income">Receita</SelectItem>
+                <SelectItem value="expense">Despesa</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-recurrence">Recorrência</Label>
+            <Select value={recurrence} onValueChange={setRecurrence}>
+              <SelectTrigger id="bulk-recurrence"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Manter</SelectItem>
+                {RECURRENCE_FREQUENCIES.map(frequency => (
+                  <SelectItem key={frequency} value={frequency}>{recurrenceFrequencyLabels[frequency]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-account">Conta</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger id="bulk-account"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Manter</SelectItem>
+                  <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                  {accounts.map(account => <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancelar</Button>
+          <Button onClick={() => onApply(changes)} disabled={!hasChanges || isSaving}>
+            {isSaving ? <Sun className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Aplicar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
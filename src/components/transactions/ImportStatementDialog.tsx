@@ -10,15 +10,20 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 import { Sun, Upload, AlertTriangle, FileImage, Trash2, ScanLine } from 'lucide-react';
 import { extractStatementTransactionsFromImage } from '@/ai/flows/extract-statement-transactions-flow';
-import type { ExtractStatementTransactionsOutput, UserCategory, NewTransactionData, TransactionType, Transaction } from '@/types';
-import { addTransaction, getCategoriesForUser, addCategoryForUser, getTransactionsForUser } from '@/lib/databaseService';
+import type { Account, ExtractStatementTransactionsOutput, Payee, UserCategory, NewTransactionData, TransactionType, Transaction } from '@/types';
+import { getCategoriesForUser, addCategoryForUser, getTransactionsForUser, getAccountsForUser, getPayeesForUser } from '@/lib/databaseService';
+import { matchPayee } from '@/lib/payees';
 import { format, parseISO, isValid as isValidDate } from 'date-fns';
+import { roundMoney } from '@/lib/money';
 
 const IMPORTED_CATEGORY_NAME = "Importado";
+const NO_ACCOUNT = 'none';
 
 interface ImportStatementDialogProps {
   userId: string;
@@ -36,9 +41,12 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
   const [importedCategoryId, setImportedCategoryId] = useState<string | null>(null); // Still used to ensure category exists
   const [isLoadingPrerequisites, setIsLoadingPrerequisites] = useState(true);
   const [extractionAttemptId, setExtractionAttemptId] = useState(0);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [destinationAccountId, setDestinationAccountId] = useState<string>(NO_ACCOUNT);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { getToken } = useAuth();
 
   const fetchAndEnsureImportedCategory = useCallback(async () => {
     if (!userId) return;
@@ -72,6 +80,13 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
     fetchAndEnsureImportedCategory();
   }, [fetchAndEnsureImportedCategory]);
 
+  useEffect(() => {
+    if (!userId) return;
+    getAccountsForUser(userId)
+      .then(setAccounts)
+      .catch(error => console.error('Failed to fetch accounts:', error));
+  }, [userId]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -106,13 +121,14 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
 
     let extractionResult: ExtractStatementTransactionsOutput | null = null;
     let existingUserTransactions: Transaction[] = [];
+    let payees: Payee[] = [];
 
     try {
       extractionResult = await extractStatementTransactionsFromImage({
         imageDataUri: imagePreviewUrl,
         defaultYear: defaultDate ? defaultDate.getFullYear() : new Date().getFullYear(),
       });
-      existingUserTransactions = await getTransactionsForUser(userId);
+      [existingUserTransactions, payees] = await Promise.all([getTransactionsForUser(userId), getPayeesForUser(userId)]);
     } catch (error: any) {
       console.error('Error extracting transactions from image or fetching existing transactions:', error);
       toast({ variant: 'destructive', title: 'Erro na Extração/Preparação', description: error.message || 'Não foi possível processar a imagem ou buscar transações existentes.' });
@@ -129,6 +145,7 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
     let successCount = 0;
     let errorCount = 0;
     let skippedDuplicateCount = 0;
+    const transactionsToCreate: NewTransactionData[] = [];
 
     for (const tx of extractionResult.transactions) {
       let transactionDate: Date | null = null;
@@ -160,18 +177,24 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
          continue;
       }
       
-      const currentDescription = (tx.description || tx.rawText || 'Transação Importada Automaticamente').toLowerCase().trim();
-      const currentAmount = parseFloat(amount.toFixed(2)); // Ensure consistent precision for comparison
-      const currentCategory = IMPORTED_CATEGORY_NAME.toLowerCase();
+      const description = tx.description || tx.rawText || 'Transação Importada Automaticamente';
+      // A recognized payee's default category takes the place of the import category
+      const payee = matchPayee(description, payees);
+      const category = payee?.defaultCategory || IMPORTED_CATEGORY_NAME;
+      const currentDescription = description.toLowerCase().trim();
+      const currentAmount = roundMoney(amount); // Ensure consistent precision for comparison
+      const currentCategory = category.toLowerCase();
+      const accountId = destinationAccountId === NO_ACCOUNT ? null : destinationAccountId;
 
       const isDuplicate = existingUserTransactions.some(existingTx => {
         const existingDescription = (existingTx.description || '').toLowerCase().trim();
-        const existingAmount = parseFloat(existingTx.amount.toFixed(2));
+        const existingAmount = roundMoney(existingTx.amount);
         const existingCategory = (existingTx.category || '').toLowerCase();
         
         return existingDescription === currentDescription &&
                existingCategory === currentCategory &&
-               existingAmount === currentAmount;
+               existingAmount === currentAmount &&
+               (existingTx.accountId || null) === accountId;
       });
 
       if (isDuplicate) {
@@ -184,32 +207,43 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
         amount: amount,
         date: format(transactionDate, 'yyyy-MM-dd'),
         type: type as TransactionType,
-        category: IMPORTED_CATEGORY_NAME,
-        description: tx.description || tx.rawText || 'Transação Importada Automaticamente',
+        category,
+        payeeId: payee?.id ?? null,
+        description,
         recurrenceFrequency: 'none',
+        accountId,
       };
+      transactionsToCreate.push(newTxData);
+      // Also counts as existing, so a line repeated in the same statement is imported once
+      existingUserTransactions.push({ id: '', userId, ...newTxData, createdAt: Date.now(), updatedAt: Date.now() });
+    }
 
+    // One all-or-nothing request: a failure leaves nothing half-imported.
+    if (transactionsToCreate.length > 0) {
       try {
-        const result = await addTransaction(userId, newTxData);
-        if (result.success) {
-          successCount++;
-          // Add to existingUserTransactions to prevent importing same item twice in same batch if statement has duplicates
-          if (result.transactionId) {
-            existingUserTransactions.push({
-              id: result.transactionId,
-              userId,
-              ...newTxData,
-              createdAt: Date.now(),
-              updatedAt: Date.now(),
-            });
-          }
+        const response = await fetch('/api/transactions/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${getToken()}` },
+          body: JSON.stringify({ create: transactionsToCreate }),
+        });
+        const result = await response.json();
+        if (response.ok && result.success) {
+          successCount = result.created.length;
         } else {
-          errorCount++;
-          console.error(`Failed to save transaction "${newTxData.description}": ${result.error}`);
+          errorCount += transactionsToCreate.length;
+          const firstError = result.errors?.[0];
+          console.error('Failed to import statement transactions:', result.message, result.errors);
+          toast({
+            variant: 'destructive',
+            title: 'Importação Não Realizada',
+            description: firstError
+              ? `A linha "${transactionsToCreate[firstError.index]?.description}" é inválida (${firstError.message}). Nenhuma transação foi salva.`
+              : result.message || 'Nenhuma transação foi salva.',
+          });
         }
       } catch (e) {
-        errorCount++;
-        console.error(`Exception saving transaction "${newTxData.description}":`, e);
+        errorCount += transactionsToCreate.length;
+        console.error('Exception importing statement transactions:', e);
       }
     }
 
@@ -217,7 +251,7 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
 
     let summaryMessages: string[] = [];
     if (successCount > 0) {
-      summaryMessages.push(`${successCount} transações salvas com sucesso na categoria "${IMPORTED_CATEGORY_NAME}".`);
+      summaryMessages.push(`${successCount} transações salvas com sucesso.`);
     }
     if (skippedDuplicateCount > 0) {
       summaryMessages.push(`${skippedDuplicateCount} transações foram puladas por serem duplicadas.`);
@@ -275,6 +309,23 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
           )}
         </div>
 
+        {imageFile && accounts.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="destination-account-import">Conta de Destino</Label>
+            <Select value={destinationAccountId} onValueChange={setDestinationAccountId} disabled={isProcessing || isLoadingPrerequisites}>
+              <SelectTrigger id="destination-account-import">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                {accounts.map(account => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {imageFile && (
           <div className="space-y-2">
             <Label htmlFor="default-date-import">Data Padrão para Importação (se não identificada na transação)</Label>
@@ -297,7 +348,8 @@ export function ImportStatementDialog({ userId, setOpen, onSuccess }: ImportStat
             <AlertTriangle className="h-4 w-4" />
             <AlertTitle>Importação Automática</AlertTitle>
             <AlertDescription>
-                As transações extraídas serão salvas automaticamente com a categoria "{IMPORTED_CATEGORY_NAME}".
+                As transações extraídas serão salvas automaticamente com a categoria "{IMPORTED_CATEGORY_NAME}",
+                ou com a categoria padrão do favorecido reconhecido pela descrição.
                 O tipo (receita/despesa) será inferido e os valores salvos como positivos.
                 Transações com dados insuficientes ou duplicadas (mesma descrição, categoria e valor) serão puladas.
             </AlertDescription>
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Sun } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { parseMoney } from '@/lib/money';
+import { occurrenceStatusLabels, type ProjectedOccurrence } from '@/lib/recurrence';
+import type { OccurrenceStateData, OccurrenceStatus, Transaction } from '@/types';
+
+const STATUSES: OccurrenceStatus[] = ['paid', 'skipped', 'pending'];
+
+interface OccurrenceStateDialogProps {
+  transaction: Transaction | null;
+  occurrence: ProjectedOccurrence | null;
+  /** Status selected when the dialog opens; the occurrence's own when not given. */
+  initialStatus?: OccurrenceStatus;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+/**
+ * Records what became of one occurrence of a recurring transaction: paid on a date for the
+ * actual amount, skipped, or still pending, possibly moved to another date or adjusted.
+ */
+export function OccurrenceStateDialog({ transaction, occurrence, initialStatus, open, onOpenChange, onSaved }: OccurrenceStateDialogProps) {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<OccurrenceStatus>('paid');
+  const [date, setDate] = useState<Date | undefined>(undefined);
+  const [amount, setAmount] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && occurrence) {
+      setStatus(initialStatus ?? occurrence.status);
+      setDate(occurrence.date);
+      setAmount(String(occurrence.amount));
+    }
+  }, [open, occurrence, initialStatus]);
+
+  if (!transaction || !occurrence) return null;
+
+  const handleSave = async () => {
+    const parsedAmount = parseMoney(amount);
+    if (status !== 'skipped' && (parsedAmount === null || parsedAmount <= 0)) {
+      toast({ variant: 'destructive', title: 'Valor inválido', description: 'Informe um valor maior que zero.' });
+      return;
+    }
+    const dateString = date ? format(date, 'yyyy-MM-dd') : null;
+    // The scheduled date and the transaction's amount are stored as unset, so later edits of the transaction still apply.
+    const data: OccurrenceStateData = status === 'skipped' ? { status } : {
+      status,
+      date: dateString === occurrence.scheduledDate ? null : dateString,
+      amount: parsedAmount === transaction.amount && status === 'pending' ? null : parsedAmount,
+    };
+    const token = getToken();
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/transactions/${transaction.id}/occurrences/${occurrence.scheduledDate}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(token ? { 'Authorization': `Bearer ${token}` } : {}) },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) throw new Error(result.message);
+      toast({ title: 'Ocorrência atualizada', description: `${transaction.description || transaction.category}: ${occurrenceStatusLabels[status].toLowerCase()}.` });
+      onSaved();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Erro ao atualizar ocorrência', description: error?.message || 'Não foi possível salvar.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>{transaction.description || transaction.category}</DialogTitle>
+          <DialogDescription>
+            Ocorrência prevista para {format(parseISO(occurrence.scheduledDate), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}, no valor de {formatCurrency(transaction.amount, transaction.currency)}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-status">Situação</Label>
+            <Select value={status} onValueChange={value => setStatus(value as OccurrenceStatus)}>
+              <SelectTrigger id="occurrence-status"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {STATUSES.map(option => <SelectItem key={option} value={option}>{occurrenceStatusLabels[option]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {status !== 'skipped' && (
+            <>
+              <div className="flex flex-col space-y-2">
+                <Label>{status === 'paid' ? 'Data do pagamento' : 'Nova data prevista'}</Label>
+                <DatePicker value={date} onChange={setDate} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="occurrence-amount">{status === 'paid' ? 'Valor pago' : 'Valor previsto'}</Label>
+                <Input id="occurrence-amount" inputMode="decimal" value={amount} onChange={e => setAmount(e.target.value)} />
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Sun className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
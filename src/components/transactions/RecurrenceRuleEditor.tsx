@@ -0,0 +1,183 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  MAX_RECURRENCE_COUNT,
+  MAX_RECURRENCE_INTERVAL,
+  RECURRENCE_DAY_RULES,
+  RECURRENCE_FREQUENCIES,
+  WEEKEND_SHIFTS,
+  recurrenceDayRuleLabels,
+  recurrenceFrequencyLabels,
+  weekendShiftLabels,
+} from '@/lib/recurrence';
+import type { NewTransactionData, RecurrenceDayRule, RecurrenceFrequency, Transaction, WeekendShift } from '@/types';
+
+/** A recurrence rule as edited: how it ends is chosen first, then its date or count. */
+export interface RecurrenceFormValue {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  end: 'never' | 'date' | 'count';
+  endDate: Date | null;
+  count: number;
+  dayRule: RecurrenceDayRule;
+  weekendShift: WeekendShift;
+}
+
+const intervalUnits: Record<RecurrenceFrequency, string> = {
+  none: '',
+  daily: 'dia(s)',
+  weekly: 'semana(s)',
+  biweekly: 'quinzena(s)',
+  monthly: 'mês(es)',
+  annually: 'ano(s)',
+};
+
+export function recurrenceFormValueOf(transaction?: Transaction | null): RecurrenceFormValue {
+  return {
+    frequency: transaction?.recurrenceFrequency || 'none',
+    interval: transaction?.recurrenceInterval || 1,
+    end: transaction?.recurrenceEndDate ? 'date' : transaction?.recurrenceCount ? 'count' : 'never',
+    endDate: transaction?.recurrenceEndDate ? parseISO(transaction.recurrenceEndDate) : null,
+    count: transaction?.recurrenceCount || 12,
+    dayRule: transaction?.recurrenceDayRule || 'sameDay',
+    weekendShift: transaction?.recurrenceWeekendShift || 'none',
+  };
+}
+
+/** The rule fields sent to the server; options that do not apply to the frequency are left out. */
+export function recurrenceDataOf(value: RecurrenceFormValue): Pick<NewTransactionData, 'recurrenceFrequency' | 'recurrenceInterval' | 'recurrenceEndDate' | 'recurrenceCount' | 'recurrenceDayRule' | 'recurrenceWeekendShift'> {
+  const recurring = value.frequency !== 'none';
+  return {
+    recurrenceFrequency: value.frequency,
+    recurrenceInterval: recurring ? value.interval : null,
+    recurrenceEndDate: recurring && value.end === 'date' && value.endDate ? format(value.endDate, 'yyyy-MM-dd') : null,
+    recurrenceCount: recurring && value.end === 'count' ? value.count : null,
+    recurrenceDayRule: value.frequency === 'monthly' || value.frequency === 'annually' ? value.dayRule : null,
+    recurrenceWeekendShift: recurring && value.frequency !== 'daily' ? value.weekendShift : null,
+  };
+}
+
+/** Why the rule cannot be saved for a transaction dated `startDate`, in the form's words, or null. */
+export function recurrenceFormError(value: RecurrenceFormValue, startDate: Date | undefined): string | null {
+  if (value.frequency === 'none') return null;
+  if (!Number.isInteger(value.interval) || value.interval < 1 || value.interval > MAX_RECURRENCE_INTERVAL) {
+    return `O intervalo deve ser um número inteiro de 1 a ${MAX_RECURRENCE_INTERVAL}.`;
+  }
+  if (value.end === 'date' && !value.endDate) return 'Informe a data final da recorrência.';
+  if (value.end === 'date' && startDate && format(value.endDate!, 'yyyy-MM-dd') < format(startDate, 'yyyy-MM-dd')) {
+    return 'A data final não pode ser anterior à data da transação.';
+  }
+  if (value.end === 'count' && (!Number.isInteger(value.count) || value.count < 1 || value.count > MAX_RECURRENCE_COUNT)) {
+    return `O número de ocorrências deve ser um número inteiro de 1 a ${MAX_RECURRENCE_COUNT}.`;
+  }
+  return null;
+}
+
+interface RecurrenceRuleEditorProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  disabled?: boolean;
+}
+
+/** Frequency of a recurring transaction and, once it recurs, its interval, day rules and end. */
+export function RecurrenceRuleEditor({ value, onChange, disabled }: RecurrenceRuleEditorProps) {
+  const update = (changes: Partial<RecurrenceFormValue>) => onChange({ ...value, ...changes });
+  const recurring = value.frequency !== 'none';
+
+  return (
+    <div className="space-y-3">
+      <Select value={value.frequency} onValueChange={frequency => update({ frequency: frequency as RecurrenceFrequency })} disabled={disabled}>
+        <SelectTrigger aria-label="Frequência da recorrência"><SelectValue placeholder="Selecione a frequência" /></SelectTrigger>
+        <SelectContent>
+          {RECURRENCE_FREQUENCIES.map(frequency => (
+            <SelectItem key={frequency} value={frequency}>{recurrenceFrequencyLabels[frequency]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {recurring && (
+        <div className="grid grid-cols-1 gap-3 rounded-md border p-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="recurrence-interval">Repetir a cada</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min={1}
+                max={MAX_RECURRENCE_INTERVAL}
+                className="w-20"
+                value={Number.isNaN(value.interval) ? '' : value.interval}
+                onChange={e => update({ interval: e.target.valueAsNumber })}
+                disabled={disabled}
+              />
+              <span className="text-sm text-muted-foreground">{intervalUnits[value.frequency]}</span>
+            </div>
+          </div>
+
+          {(value.frequency === 'monthly' || value.frequency === 'annually') && (
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-day-rule">Dia</Label>
+              <Select value={value.dayRule} onValueChange={dayRule => update({ dayRule: dayRule as RecurrenceDayRule })} disabled={disabled}>
+                <SelectTrigger id="recurrence-day-rule"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {RECURRENCE_DAY_RULES.map(rule => <SelectItem key={rule} value={rule}>{recurrenceDayRuleLabels[rule]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {value.frequency !== 'daily' && (
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-weekend-shift">Se cair no fim de semana</Label>
+              <Select value={value.weekendShift} onValueChange={shift => update({ weekendShift: shift as WeekendShift })} disabled={disabled}>
+                <SelectTrigger id="recurrence-weekend-shift"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {WEEKEND_SHIFTS.map(shift => <SelectItem key={shift} value={shift}>{weekendShiftLabels[shift]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="recurrence-end">Termina</Label>
+            <Select value={value.end} onValueChange={end => update({ end: end as RecurrenceFormValue['end'] })} disabled={disabled}>
+              <SelectTrigger id="recurrence-end"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Nunca</SelectItem>
+                <SelectItem value="date">Em uma data</SelectItem>
+                <SelectItem value="count">Após um número de vezes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {value.end === 'date' && (
+            <div className="flex flex-col space-y-1">
+              <Label>Data final</Label>
+              <DatePicker value={value.endDate ?? undefined} onChange={endDate => update({ endDate: endDate ?? null })} />
+            </div>
+          )}
+
+          {value.end === 'count' && (
+            <div className="space-y-1">
+              <Label htmlFor="recurrence-count">Número de ocorrências</Label>
+              <Input
+                id="recurrence-count"
+                type="number"
+                min={1}
+                max={MAX_RECURRENCE_COUNT}
+                value={Number.isNaN(value.count) ? '' : value.count}
+                onChange={e => update({ count: e.target.valueAsNumber })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -16,24 +17,35 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input'; // Import Input
 import { Textarea } from '@/components/ui/textarea';
 import { DatePicker } from '@/components/ui/date-picker';
-import { getCategoriesForUser, addCategoryForUser } from '@/lib/databaseService';
+import { getCategoriesForUser, addCategoryForUser, getAccountsForUser, getInvestmentsForUser, getFinancialGoalsForUser, getTagsForUser, addTag, getPayeesForUser, addPayee } from '@/lib/databaseService';
 import { useToast } from '@/hooks/use-toast';
+import { useVersionedSave } from '@/hooks/use-versioned-save';
 import { Sun, Camera, Paperclip, ScanLine, Trash2, AlertTriangle } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { UserCategory, RecurrenceFrequency, Transaction, NewTransactionData, UpdateTransactionData } from '@/types';
+import type { Account, FinancialGoal, Investment, Payee, Tag, UserCategory, Transaction, TransferDestination, NewTransactionData, UpdateTransactionData } from '@/types';
 import { Combobox } from '@/components/ui/combobox';
 import { useAuth } from '@/contexts/AuthContext';
 import { extractTransactionDetailsFromImage } from '@/ai/flows/extract-transaction-details-flow';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CurrencySelect } from '@/components/currency/CurrencySelect';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { CategorySplitsEditor, splitFormError } from '@/components/categories/CategorySplitsEditor';
+import { TagPicker } from '@/components/tags/TagPicker';
+import { PayeePicker } from '@/components/payees/PayeePicker';
+import { matchPayee } from '@/lib/payees';
+import { AttachmentsPanel } from '@/components/attachments/AttachmentsPanel';
+import { RecurrenceRuleEditor, recurrenceDataOf, recurrenceFormError, recurrenceFormValueOf, type RecurrenceFormValue } from '@/components/transactions/RecurrenceRuleEditor';
 
 const amountSchema = z.preprocess(
   (val) => {
@@ -62,21 +74,55 @@ const amountSchema = z.preprocess(
 
 
 const transactionFormSchema = z.object({
-  type: z.enum(['income', 'expense'], {
+  type: z.enum(['income', 'expense', 'transfer'], {
     required_error: 'O tipo da transação é obrigatório.',
   }),
   amount: amountSchema,
-  category: z.string().min(1, { message: 'A categoria é obrigatória.' }).max(50, { message: 'A categoria deve ter no máximo 50 caracteres.'}),
+  category: z.string().max(50, { message: 'A categoria deve ter no máximo 50 caracteres.'}),
+  splits: z.array(z.object({ category: z.string(), amount: z.number() })),
+  tagIds: z.array(z.string()),
+  payeeId: z.string().nullable(),
   date: z.date({
     required_error: 'A data da transação é obrigatória.',
   }),
   description: z.string().max(200, { message: 'A descrição deve ter no máximo 200 caracteres.'}).optional(),
-  recurrenceFrequency: z.enum(['none', 'monthly', 'weekly', 'annually']).default('none'),
+  recurrence: z.custom<RecurrenceFormValue>(),
   receiptImageUri: z.string().nullable().optional(),
+  currency: z.string().min(3, { message: 'A moeda é obrigatória.' }),
+  accountId: z.string(),
+  transferTarget: z.string(),
+}).refine(values => values.type !== 'transfer' || values.transferTarget !== NO_DESTINATION, {
+  message: 'O destino da transferência é obrigatório.',
+  path: ['transferTarget'],
+}).refine(values => values.splits.length > 0 || values.category.length > 0, {
+  message: 'A categoria é obrigatória.',
+  path: ['category'],
+}).superRefine((values, ctx) => {
+  const error = values.splits.length > 0 ? splitFormError(values.splits, values.amount) : null;
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['splits'] });
+  const recurrenceError = recurrenceFormError(values.recurrence, values.date);
+  if (recurrenceError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: recurrenceError, path: ['recurrence'] });
 });
 
+// Select value for a transaction that is not tied to an account.
+const NO_ACCOUNT = 'none';
+// Select value while a transfer has no destination; destinations are `${TransferDestination}:${id}`.
+const NO_DESTINATION = '';
+const TRANSFER_CATEGORY = 'Transferência';
+
+const transferTargetOf = (transaction: Transaction) =>
+  transaction.type === 'transfer' && transaction.transferTo && transaction.transferToId ? `${transaction.transferTo}:${transaction.transferToId}` : NO_DESTINATION;
+
+function parseTransferTarget(target: string): { transferTo: TransferDestination | null; transferToId: string | null } {
+  const [transferTo, transferToId] = target.split(':');
+  return transferToId ? { transferTo: transferTo as TransferDestination, transferToId } : { transferTo: null, transferToId: null };
+}
+
 type TransactionFormValues = z.infer<typeof transactionFormSchema>;
 
+// Transfers are never split; an empty list means a single category.
+const splitsOf = (values: TransactionFormValues) => (values.type !== 'transfer' && values.splits.length > 0 ? values.splits : null);
+
 interface TransactionFormProps {
   onSuccess?: () => void;
   setOpen: (open: boolean) => void;
@@ -86,10 +132,17 @@ interface TransactionFormProps {
 
 export function TransactionForm({ onSuccess, setOpen, userId, existingTransaction }: TransactionFormProps) {
   const { toast } = useToast();
-  const { getToken } = useAuth(); 
+  const { getToken, user } = useAuth(); 
+  const defaultCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { saveVersioned, conflictDialog } = useVersionedSave('transactions');
   const [categories, setCategories] = useState<UserCategory[]>([]);
   const [isLoadingCategories, setIsLoadingCategories] = useState(true);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [investments, setInvestments] = useState<Investment[]>([]);
+  const [goals, setGoals] = useState<FinancialGoal[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
 
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
   const [isProcessingImage, setIsProcessingImage] = useState(false);
@@ -114,6 +167,32 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
     }
   }, [userId, toast]);
 
+  useEffect(() => {
+    if (!userId) return;
+    getAccountsForUser(userId)
+      .then(setAccounts)
+      .catch(error => console.error("Failed to fetch accounts:", error));
+    getInvestmentsForUser(userId)
+      .then(setInvestments)
+      .catch(error => console.error("Failed to fetch investments:", error));
+    getFinancialGoalsForUser(userId)
+      .then(setGoals)
+      .catch(error => console.error("Failed to fetch goals:", error));
+    getTagsForUser(userId)
+      .then(setTags)
+      .catch(error => console.error("Failed to fetch tags:", error));
+    getPayeesForUser(userId)
+      .then(setPayees)
+      .catch(error => console.error("Failed to fetch payees:", error));
+  }, [userId]);
+
+  // Currency of each transfer destination; a transfer is in its destination's currency.
+  const destinationCurrencies = new Map<string, string>([
+    ...accounts.map(account => [`account:${account.id}`, account.currency] as [string, string]),
+    ...investments.map(investment => [`investment:${investment.id}`, investment.currency || DEFAULT_CURRENCY] as [string, string]),
+    ...goals.map(goal => [`goal:${goal.id}`, goal.currency || DEFAULT_CURRENCY] as [string, string]),
+  ]);
+
   useEffect(() => {
     fetchCategories();
     return () => {
@@ -224,10 +303,16 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
         type: undefined,
         amount: undefined,
         category: '',
+        splits: [],
+        tagIds: [],
+        payeeId: null,
         date: new Date(),
         description: '',
-        recurrenceFrequency: 'none',
+        recurrence: recurrenceFormValueOf(null),
         receiptImageUri: null,
+        currency: defaultCurrency,
+        accountId: NO_ACCOUNT,
+        transferTarget: NO_DESTINATION,
       },
   });
 
@@ -237,10 +322,16 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
         type: existingTransaction.type,
         amount: existingTransaction.amount,
         category: existingTransaction.category,
+        splits: existingTransaction.splits || [],
+        tagIds: existingTransaction.tagIds || [],
+        payeeId: existingTransaction.payeeId ?? null,
         date: existingTransaction.date ? parseISO(existingTransaction.date) : new Date(),
         description: existingTransaction.description || '',
-        recurrenceFrequency: existingTransaction.recurrenceFrequency || 'none',
+        recurrence: recurrenceFormValueOf(existingTransaction),
         receiptImageUri: existingTransaction.receiptImageUri || null,
+        currency: existingTransaction.currency || DEFAULT_CURRENCY,
+        accountId: existingTransaction.accountId || NO_ACCOUNT,
+        transferTarget: transferTargetOf(existingTransaction),
       });
       if (existingTransaction.receiptImageUri) {
         setImagePreviewUrl(existingTransaction.receiptImageUri);
@@ -252,14 +343,20 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
         type: undefined,
         amount: undefined,
         category: '',
+        splits: [],
+        tagIds: [],
+        payeeId: null,
         date: new Date(),
         description: '',
-        recurrenceFrequency: 'none',
+        recurrence: recurrenceFormValueOf(null),
         receiptImageUri: null,
+        currency: defaultCurrency,
+        accountId: NO_ACCOUNT,
+        transferTarget: NO_DESTINATION,
       });
       setImagePreviewUrl(null);
     }
-  }, [existingTransaction, form]);
+  }, [existingTransaction, form, defaultCurrency]);
 
   const handleAddNewCategory = async (categoryName: string): Promise<UserCategory | null> => {
     if (!userId) {
@@ -276,6 +373,35 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
     }
   };
 
+  const handleAddNewTag = async (name: string): Promise<Tag | null> => {
+    const result = await addTag(userId, { name });
+    if (result.success && result.tag) {
+      setTags(prev => [...prev, result.tag!].sort((a, b) => a.name.localeCompare(b.name)));
+      return result.tag;
+    }
+    toast({ variant: "destructive", title: "Erro ao Criar Tag", description: result.error || "Não foi possível criar a tag." });
+    return null;
+  };
+
+  const handleAddNewPayee = async (name: string): Promise<Payee | null> => {
+    const result = await addPayee(userId, { name });
+    if (result.success && result.payee) {
+      setPayees(prev => [...prev, result.payee!]);
+      return result.payee;
+    }
+    toast({ variant: "destructive", title: "Erro ao Criar Favorecido", description: result.error || "Não foi possível criar o favorecido." });
+    return null;
+  };
+
+  // A payee's default category fills the category while none is chosen.
+  const selectPayee = (payeeId: string | null) => {
+    form.setValue('payeeId', payeeId);
+    const payee = payees.find(p => p.id === payeeId);
+    if (payee?.defaultCategory && !form.getValues('category') && !form.getValues('splits').length && form.getValues('type') !== 'transfer') {
+      form.setValue('category', payee.defaultCategory, { shouldValidate: true });
+    }
+  };
+
   const onSubmit = async (values: TransactionFormValues) => {
     setIsSubmitting(true);
     const token = getToken();
@@ -299,26 +425,41 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
             type: values.type,
             amount: amountAsNumber,
             category: values.category,
+            splits: splitsOf(values),
+            tagIds: values.tagIds,
+            payeeId: values.payeeId,
             date: format(values.date, 'yyyy-MM-dd'),
             description: values.description || undefined,
-            recurrenceFrequency: values.recurrenceFrequency || 'none',
+            ...recurrenceDataOf(values.recurrence),
             receiptImageUri: imagePreviewUrl,
+            currency: values.currency,
+            accountId: values.accountId === NO_ACCOUNT ? null : values.accountId,
+            ...parseTransferTarget(values.type === 'transfer' ? values.transferTarget : NO_DESTINATION),
         };
-        const response = await fetch(`/api/transactions/${existingTransaction.id}`, {
-            method: 'PUT',
-            headers,
-            body: JSON.stringify(updateData),
-        });
-        result = await response.json();
+        const outcome = await saveVersioned(`/api/transactions/${existingTransaction.id}`, headers, existingTransaction, updateData);
+        if (outcome.cancelled) return;
+        if (outcome.discarded) {
+          toast({ title: 'Alterações descartadas', description: 'A versão salva em outro lugar foi mantida.' });
+          if (onSuccess) onSuccess();
+          setOpen(false);
+          return;
+        }
+        result = outcome.result;
       } else {
         const transactionData: NewTransactionData = {
           type: values.type,
           amount: amountAsNumber,
           category: values.category,
+          splits: splitsOf(values),
+          tagIds: values.tagIds,
+          payeeId: values.payeeId ?? undefined, // Left out, the server links the payee matching the description
           date: format(values.date, 'yyyy-MM-dd'),
           description: values.description || undefined,
-          recurrenceFrequency: values.recurrenceFrequency || 'none',
+          ...recurrenceDataOf(values.recurrence),
           receiptImageUri: imagePreviewUrl,
+          currency: values.currency,
+          accountId: values.accountId === NO_ACCOUNT ? null : values.accountId,
+          ...parseTransferTarget(values.type === 'transfer' ? values.transferTarget : NO_DESTINATION),
         };
         const response = await fetch('/api/transactions', {
             method: 'POST',
@@ -337,10 +478,16 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
             type: undefined, 
             amount: undefined, 
             category: '', 
+            splits: [],
+            tagIds: [],
+            payeeId: null,
             date: new Date(), 
             description: '', 
-            recurrenceFrequency: 'none',
+            recurrence: recurrenceFormValueOf(null),
             receiptImageUri: null,
+            currency: defaultCurrency,
+            accountId: NO_ACCOUNT,
+            transferTarget: NO_DESTINATION,
         });
         handleClearImage(); 
         if (onSuccess) onSuccess();
@@ -366,6 +513,10 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
     }
   };
 
+  const isTransfer = form.watch('type') === 'transfer';
+  const hasDestination = isTransfer && form.watch('transferTarget') !== NO_DESTINATION;
+  const isSplit = form.watch('splits').length > 0;
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -375,7 +526,21 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
           render={({ field }) => (
             <FormItem>
               <FormLabel>Tipo</FormLabel>
-              <Select onValueChange={field.onChange} value={field.value || ''} disabled={isSubmitting || isProcessingImage}>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  // Transfers are not income or expenses: no category of their own and no recurrence.
+                  if (value === 'transfer') {
+                    form.setValue('category', TRANSFER_CATEGORY);
+                    form.setValue('splits', []);
+                    form.setValue('recurrence', recurrenceFormValueOf(null));
+                  } else if (form.getValues('category') === TRANSFER_CATEGORY) {
+                    form.setValue('category', '');
+                  }
+                }}
+                value={field.value || ''}
+                disabled={isSubmitting || isProcessingImage}
+              >
                 <FormControl>
                   <SelectTrigger>
                     <SelectValue placeholder="Selecione o tipo da transação" />
@@ -384,6 +549,7 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
                 <SelectContent>
                   <SelectItem value="income">Receita</SelectItem>
                   <SelectItem value="expense">Despesa</SelectItem>
+                  <SelectItem value="transfer">Transferência</SelectItem>
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -450,13 +616,13 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
           name="amount"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Valor (R$)</FormLabel>
+              <FormLabel>Valor</FormLabel>
               <FormControl>
                 <Input
                   type="number"
                   step="0.01"
                   lang="pt-BR"
-                  placeholder="R$ 1.234,56"
+                  placeholder="1.234,56"
                   {...field}
                   value={field.value === undefined ? '' : field.value} 
                   onChange={e => field.onChange(e.target.valueAsNumber === undefined || isNaN(e.target.valueAsNumber) ? null : e.target.valueAsNumber)}
@@ -468,7 +634,111 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
           )}
         />
 
+        {accounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="accountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{isTransfer ? 'Conta de Origem' : 'Conta'}</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // An account's transactions are in the account's currency.
+                    const account = accounts.find(a => a.id === value);
+                    if (account) form.setValue('currency', account.currency);
+                  }}
+                  disabled={isSubmitting || isProcessingImage}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a conta" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT}>Sem conta</SelectItem>
+                    {accounts.map(account => (
+                      <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {isTransfer && (
+          <FormField
+            control={form.control}
+            name="transferTarget"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Destino</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    const currency = destinationCurrencies.get(value);
+                    if (currency) form.setValue('currency', currency);
+                  }}
+                  disabled={isSubmitting || isProcessingImage}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a conta, o investimento ou a meta" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {accounts.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Contas</SelectLabel>
+                        {accounts.map(account => (
+                          <SelectItem key={account.id} value={`account:${account.id}`}>{account.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {investments.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Investimentos</SelectLabel>
+                        {investments.map(investment => (
+                          <SelectItem key={investment.id} value={`investment:${investment.id}`}>{investment.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {goals.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Metas</SelectLabel>
+                        {goals.map(goal => (
+                          <SelectItem key={goal.id} value={`goal:${goal.id}`}>{goal.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Investimentos e metas têm o valor atualizado com a transferência.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Moeda</FormLabel>
+              <FormControl>
+                <CurrencySelect value={field.value} onValueChange={field.onChange} disabled={isSubmitting || isProcessingImage || form.watch('accountId') !== NO_ACCOUNT || hasDestination} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {!isTransfer && !isSplit && <FormField
           control={form.control}
           name="category"
           render={({ field }) => (
@@ -484,6 +754,65 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
                     emptyMessage={isLoadingCategories ? "Carregando categorias..." : "Nenhuma categoria. Digite para criar."}
                     disabled={isSubmitting || isLoadingCategories || !userId || isProcessingImage}
                 />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto self-start p-0"
+                onClick={() => form.setValue('splits', [{ category: field.value, amount: Number(form.getValues('amount')) || 0 }, { category: '', amount: 0 }])}
+                disabled={isSubmitting || isProcessingImage}
+              >
+                Dividir entre categorias
+              </Button>
+              <FormMessage />
+            </FormItem>
+          )}
+        />}
+
+        {!isTransfer && isSplit && <FormField
+          control={form.control}
+          name="splits"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Categorias</FormLabel>
+              <CategorySplitsEditor
+                value={field.value}
+                onChange={field.onChange}
+                total={form.watch('amount')}
+                currency={form.watch('currency')}
+                categories={categories}
+                onAddNewCategory={handleAddNewCategory}
+                disabled={isSubmitting || isLoadingCategories || !userId || isProcessingImage}
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto self-start p-0"
+                onClick={() => {
+                  form.setValue('category', field.value[0]?.category || '');
+                  field.onChange([]);
+                }}
+                disabled={isSubmitting || isProcessingImage}
+              >
+                Usar uma única categoria
+              </Button>
+              <FormMessage />
+            </FormItem>
+          )}
+        />}
+
+        <FormField
+          control={form.control}
+          name="tagIds"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Tags (Opcional)</FormLabel>
+              <TagPicker
+                tags={tags}
+                value={field.value}
+                onChange={field.onChange}
+                onAddNewTag={handleAddNewTag}
+                disabled={isSubmitting || !userId || isProcessingImage}
+              />
               <FormMessage />
             </FormItem>
           )}
@@ -512,6 +841,11 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
                   placeholder="Adicione uma breve descrição..."
                   className="resize-none"
                   {...field}
+                  onBlur={() => {
+                    field.onBlur();
+                    const payee = !form.getValues('payeeId') && field.value ? matchPayee(field.value, payees) : undefined;
+                    if (payee) selectPayee(payee.id);
+                  }}
                   disabled={isSubmitting || isProcessingImage}
                   value={field.value || ''} 
                 />
@@ -523,27 +857,35 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
 
         <FormField
           control={form.control}
-          name="recurrenceFrequency"
+          name="payeeId"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Favorecido (Opcional)</FormLabel>
+              <PayeePicker
+                payees={payees}
+                value={field.value}
+                onChange={selectPayee}
+                onAddNewPayee={handleAddNewPayee}
+                disabled={isSubmitting || !userId || isProcessingImage}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {!isTransfer && <FormField
+          control={form.control}
+          name="recurrence"
           render={({ field }) => (
             <FormItem>
               <FormLabel>Frequência da Recorrência</FormLabel>
-              <Select onValueChange={field.onChange} value={field.value || 'none'} disabled={isSubmitting || isProcessingImage}>
-                <FormControl>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione a frequência" />
-                  </SelectTrigger>
-                </FormControl>
-                <SelectContent>
-                  <SelectItem value="none">Não Recorrente</SelectItem>
-                  <SelectItem value="monthly">Mensal</SelectItem>
-                  <SelectItem value="weekly">Semanal</SelectItem>
-                  <SelectItem value="annually">Anual</SelectItem>
-                </SelectContent>
-              </Select>
+              <RecurrenceRuleEditor value={field.value} onChange={field.onChange} disabled={isSubmitting || isProcessingImage} />
               <FormMessage />
             </FormItem>
           )}
-        />
+        />}
+
+        {existingTransaction && <AttachmentsPanel ownerEntity="transactions" ownerId={existingTransaction.id} disabled={isSubmitting} />}
 
         <div className="flex justify-end space-x-2 pt-2">
           <Button type="button" variant="outline" onClick={() => { stopCamera(); setOpen(false); }} disabled={isSubmitting || isProcessingImage}>
@@ -561,6 +903,7 @@ export function TransactionForm({ onSuccess, setOpen, userId, existingTransactio
           </Button>
         </div>
       </form>
+      {conflictDialog}
     </Form>
   );
 }
@@ -0,0 +1,37 @@
+'use client';
+
+import { ToastAction } from '@/components/ui/toast';
+import { toast } from '@/hooks/use-toast';
+import { restoreFromTrash } from '@/lib/databaseService';
+import type { TrashEntity } from '@/types';
+
+interface UndoDeleteActionProps {
+  userId: string;
+  entity: TrashEntity;
+  itemId: string;
+  onRestored?: () => void;
+}
+
+// "Desfazer" button for the toast shown after a deletion: takes the item back out of the Lixeira.
+export function UndoDeleteAction({ userId, entity, itemId, onRestored }: UndoDeleteActionProps) {
+  const handleUndo = async () => {
+    try {
+      const result = await restoreFromTrash(userId, entity, itemId);
+      if (result.success) {
+        toast({ title: 'Exclusão desfeita', description: 'O item foi restaurado.' });
+        if (onRestored) onRestored();
+      } else {
+        toast({ variant: 'destructive', title: 'Erro ao Desfazer', description: result.error || 'Não foi possível restaurar o item.' });
+      }
+    } catch (e: any) {
+      console.error('Error undoing deletion:', e?.message);
+      toast({ variant: 'destructive', title: 'Erro ao Desfazer', description: 'Ocorreu um erro ao restaurar o item.' });
+    }
+  };
+
+  return (
+    <ToastAction altText="Desfazer exclusão" onClick={handleUndo}>
+      Desfazer
+    </ToastAction>
+  );
+}
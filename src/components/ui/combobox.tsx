@@ -21,6 +21,8 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover"
 import { useToast } from "@/hooks/use-toast"
+import { orderCategories } from "@/lib/categories"
+import { CategoryIcon } from "@/components/categories/CategoryIcon"
 import type { UserCategory } from "@/types" // Assuming UserCategory has { id: string, name: string }
 
 interface ComboboxProps {
@@ -87,9 +89,11 @@ export function Combobox({
     }
   };
 
-  const filteredItems = items.filter(item => 
+  // Subcategories are listed, indented, under their parent.
+  const filteredItems = orderCategories(items).filter(({ category: item }) =>
     item.name.toLowerCase().includes(inputValue.toLowerCase())
   );
+  const selectedItem = value ? items.find((item) => item.name.toLowerCase() === value.toLowerCase()) : undefined;
 
   const showAddNewOption = inputValue.trim() !== "" && !items.some(item => item.name.toLowerCase() === inputValue.trim().toLowerCase());
 
@@ -103,9 +107,10 @@ export function Combobox({
           className="w-full justify-between"
           disabled={disabled}
         >
-          {value
-            ? items.find((item) => item.name.toLowerCase() === value.toLowerCase())?.name || value
-            : placeholder}
+          <span className="flex items-center gap-2 truncate">
+            {selectedItem && <CategoryIcon category={selectedItem} />}
+            {value ? selectedItem?.name || value : placeholder}
+          </span>
           <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
         </Button>
       </PopoverTrigger>
@@ -122,11 +127,12 @@ export function Combobox({
             )}
             {filteredItems.length > 0 && (
                 <CommandGroup>
-                {filteredItems.map((item) => (
+                {filteredItems.map(({ category: item, depth }) => (
                     <CommandItem
                     key={item.id}
                     value={item.name}
                     onSelect={handleSelect}
+                    className={cn(depth > 0 && "pl-6")}
                     >
                     <Check
                         className={cn(
@@ -136,6 +142,7 @@ export function Combobox({
                             : "opacity-0"
                         )}
                     />
+                    <CategoryIcon category={item} className="mr-2" />
                     {item.name}
                     </CommandItem>
                 ))}
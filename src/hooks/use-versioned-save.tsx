@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { EditConflictDialog, type ConflictChoice, type EditConflict } from '@/components/concurrency/EditConflictDialog';
+import { etagOf, mergeEdits, type VersionedRecord } from '@/lib/concurrency';
+import type { UserEntityName } from '@/lib/storage/types';
+
+export interface VersionedSaveOutcome {
+  response: Response;
+  result: any;
+  /** The user dropped their edits in favour of the stored record (`result.current`). */
+  discarded?: boolean;
+  /** The user went back to the form without saving. */
+  cancelled?: boolean;
+}
+
+/**
+ * PUT with `If-Match` for edit forms. On a 409 it asks the user, through the
+ * returned `conflictDialog`, whether to overwrite, merge or discard, and retries
+ * against the newer version until the save goes through or the user gives up.
+ */
+export function useVersionedSave(entity: UserEntityName) {
+  const [pending, setPending] = useState<(EditConflict & { resolve: (choice: ConflictChoice) => void }) | null>(null);
+
+  const saveVersioned = useCallback(async (url: string, headers: Record<string, string>, base: VersionedRecord & Record<string, any>, data: Record<string, any>): Promise<VersionedSaveOutcome> => {
+    let mergeBase: Record<string, any> = base;
+    let body = data;
+    let etag = etagOf(base);
+    for (;;) {
+      const response = await fetch(url, { method: 'PUT', headers: { ...headers, 'If-Match': etag }, body: JSON.stringify(body) });
+      const result = await response.json();
+      if (response.status !== 409 || !result.current) return { response, result };
+
+      const current = result.current;
+      const choice = await new Promise<ConflictChoice>(resolve => setPending({ mine: body, current, resolve }));
+      setPending(null);
+      if (choice === 'discard') return { response, result, discarded: true };
+      if (choice === 'cancel') return { response, result, cancelled: true };
+      if (choice === 'merge') body = mergeEdits(mergeBase, body, current);
+      mergeBase = current;
+      etag = etagOf(current);
+    }
+  }, []);
+
+  const conflictDialog = (
+    <EditConflictDialog entity={entity} conflict={pending} onResolve={(choice) => pending?.resolve(choice)} />
+  );
+
+  return { saveVersioned, conflictDialog };
+}
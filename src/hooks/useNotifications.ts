@@ -3,109 +3,22 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { getTransactionsForUser } from '@/lib/databaseService';
-import type { Transaction, NotificationItem, RecurrenceFrequency } from '@/types';
-import { 
-  startOfDay, 
-  addDays, 
-  isWithinInterval, 
-  parseISO, 
-  format as formatDateFns, 
-  isBefore, 
-  isSameDay,
-  addWeeks,
-  addMonths,
-  addYears,
-  getMonth,
-  getYear,
-  getDate,
-  lastDayOfMonth
-} from 'date-fns';
+import {
+  getBudgetsForUser, getCategoriesForUser, getCreditCardPurchasesForUser, getCreditCardsForUser, getExchangeRatesForUser,
+  getLoansForUser, getRecurrenceOccurrencesForUser, getTransactionsForUser,
+} from '@/lib/databaseService';
+import { projectOccurrences } from '@/lib/recurrence';
+import { budgetAlerts, budgetEntries, budgetMonth, monthOf, spendingLookup } from '@/lib/budgets';
+import { createCurrencyConverter, DEFAULT_CURRENCY } from '@/lib/currency';
+import { formatCurrency } from '@/lib/utils';
+import type { NotificationItem } from '@/types';
+import { startOfDay, addDays, parseISO, format as formatDateFns, isBefore } from 'date-fns';
 
 const NOTIFICATION_WINDOW_DAYS_BEFORE = 7; // Show past due scheduled items up to 7 days ago
 const NOTIFICATION_WINDOW_DAYS_AFTER = 14; // Show upcoming scheduled items up to 14 days in future
 const NOTIFICATION_STORAGE_KEY_PREFIX = 'readScheduledNotifications_';
 
 
-// Helper function to get projected occurrences (similar to dashboard but adapted for notifications)
-const getProjectedOccurrencesForNotifications = (
-  transaction: Transaction,
-  periodStart: Date, // Notification window start
-  periodEnd: Date    // Notification window end
-): { projectedDate: Date; isPast: boolean }[] => {
-  const occurrences: { projectedDate: Date; isPast: boolean }[] = [];
-  if (!transaction.recurrenceFrequency || transaction.recurrenceFrequency === 'none') {
-    return occurrences;
-  }
-
-  const originalDate = parseISO(transaction.date);
-  let currentDate = originalDate;
-  const today = startOfDay(new Date());
-
-  // Determine a safe starting point for iteration, no earlier than originalDate
-  // and not excessively far in the past if periodStart is very old.
-  let iterDate = originalDate;
-  if (isBefore(iterDate, addYears(periodStart, -2))) { // Limit how far back we search
-    iterDate = addYears(periodStart, -2);
-     // Align iterDate to match originalDate's day/week characteristics for consistency
-    if (transaction.recurrenceFrequency === 'monthly') {
-      iterDate = new Date(getYear(iterDate), getMonth(iterDate), getDate(originalDate));
-    } else if (transaction.recurrenceFrequency === 'annually') {
-      iterDate = new Date(getYear(iterDate), getMonth(originalDate), getDate(originalDate));
-    }
-    // For weekly, alignment happens naturally in the loop.
-  }
-
-
-  for (let i = 0; i < 200; i++) { // Safety break after 200 iterations
-    if (isAfter(iterDate, periodEnd)) break; // Stop if we've passed the notification window
-
-    if (isWithinInterval(iterDate, { start: periodStart, end: periodEnd })) {
-       occurrences.push({
-        projectedDate: startOfDay(new Date(iterDate)), // Ensure it's start of day for comparison
-        isPast: isBefore(iterDate, today) && !isSameDay(iterDate, today),
-      });
-    }
-    
-    // Advance iterDate to the next occurrence
-    let advanced = false;
-    switch (transaction.recurrenceFrequency) {
-      case 'monthly':
-        iterDate = addMonths(iterDate, 1);
-        const dayOfMonth = getDate(originalDate);
-        const lastDay = getDate(lastDayOfMonth(iterDate));
-        iterDate = new Date(getYear(iterDate), getMonth(iterDate), Math.min(dayOfMonth, lastDay));
-        advanced = true;
-        break;
-      case 'weekly':
-        iterDate = addWeeks(iterDate, 1);
-        advanced = true;
-        break;
-      case 'annually':
-        iterDate = addYears(iterDate, 1);
-        const annualDay = getDate(originalDate);
-        const annualMonth = getMonth(originalDate);
-        iterDate = new Date(getYear(iterDate), annualMonth, Math.min(annualDay, getDate(lastDayOfMonth(iterDate))));
-        advanced = true;
-        break;
-      default: // Should not happen if pre-filtered
-        return occurrences;
-    }
-    if (!advanced) break; // Safety for unknown frequency
-    if (iterDate <= originalDate && i > 0 && transaction.recurrenceFrequency !== 'none') { 
-        // If we somehow went back or stuck, break to prevent infinite loop, unless it's the first iteration.
-        break;
-    }
-  }
-  return occurrences;
-};
-
-// Helper to check if date b is after date a
-function isAfter(dateA: Date, dateB: Date): boolean {
-    return dateA.getTime() > dateB.getTime();
-}
-
-
 export function useNotifications() {
   const { user } = useAuth();
   const [allNotifications, setAllNotifications] = useState<NotificationItem[]>([]);
@@ -148,7 +61,16 @@ export function useNotifications() {
 
     setIsLoading(true);
     try {
-      const transactions = await getTransactionsForUser(user.id);
+      const [transactions, occurrenceStates, budgets, categories, creditCards, creditCardPurchases, loans, exchangeRates] = await Promise.all([
+        getTransactionsForUser(user.id),
+        getRecurrenceOccurrencesForUser(user.id),
+        getBudgetsForUser(user.id),
+        getCategoriesForUser(user.id),
+        getCreditCardsForUser(user.id),
+        getCreditCardPurchasesForUser(user.id),
+        getLoansForUser(user.id),
+        getExchangeRatesForUser(user.id),
+      ]);
       const readIds = loadReadStatuses();
       
       const today = startOfDay(new Date());
@@ -162,29 +84,51 @@ export function useNotifications() {
       );
 
       recurringTransactions.forEach(tx => {
-        const projectedOccurrences = getProjectedOccurrencesForNotifications(
-          tx,
-          notificationWindowStart,
-          notificationWindowEnd
-        );
+        projectOccurrences(tx, occurrenceStates, notificationWindowStart, notificationWindowEnd).forEach(occurrence => {
+          if (occurrence.status === 'skipped') return;
+          const projectedDate = occurrence.date;
+          // Keyed by the scheduled date, so a rescheduled occurrence keeps its read status.
+          const notificationId = `tx-${tx.id}-${occurrence.scheduledDate}`;
+          const isPast = isBefore(projectedDate, today);
 
-        projectedOccurrences.forEach(occurrence => {
-          const projectedDateString = formatDateFns(occurrence.projectedDate, 'yyyy-MM-dd');
-          const notificationId = `tx-${tx.id}-${projectedDateString}`;
-          
           relevantNotifications.push({
             id: notificationId,
             type: 'scheduled_transaction',
             relatedId: tx.id,
-            message: `${tx.description || tx.category} (${new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(tx.amount)})`,
-            projectedDate: projectedDateString,
-            isRead: occurrence.isPast ? readIds.includes(notificationId) : false, // Upcoming transactions always start as "unread" for the logic
-            isPast: occurrence.isPast,
+            message: `${tx.description || tx.category} (${formatCurrency(occurrence.amount, tx.currency)})${occurrence.status === 'paid' ? ' - pago' : ''}`,
+            projectedDate: formatDateFns(projectedDate, 'yyyy-MM-dd'),
+            // Paid ones need no attention; upcoming ones always start as "unread" for the logic.
+            isRead: occurrence.status === 'paid' || (isPast && readIds.includes(notificationId)),
+            isPast,
             originalTransaction: tx,
           });
         });
       });
 
+      // Budgets of the current month: the highest alert threshold each reached so far, on the day it did.
+      // A new month, or the next threshold, is a new notification to read.
+      const baseCurrency = user.baseCurrency || DEFAULT_CURRENCY;
+      const converter = createCurrencyConverter(baseCurrency, exchangeRates);
+      const spendingOf = spendingLookup({ transactions, occurrenceStates, creditCards, creditCardPurchases, loans }, converter.toBase, formatDateFns(today, 'yyyy-MM-dd'));
+      const currentMonth = monthOf(today);
+      budgets.forEach(budget => {
+        const status = budgetMonth(budget, categories, spendingOf, currentMonth);
+        const alert = status ? budgetAlerts(status.available, budgetEntries(budget, categories, spendingOf(currentMonth))).pop() : undefined;
+        if (!status || !alert) return;
+        const notificationId = `budget-${budget.id}-${currentMonth}-${alert.threshold}`;
+        const categoryName = categories.find(category => category.id === budget.categoryId)?.name;
+        relevantNotifications.push({
+          id: notificationId,
+          type: 'budget_alert',
+          relatedId: budget.id,
+          message: `Orçamento de ${categoryName}: ${alert.threshold >= 100 ? 'limite atingido' : `${alert.threshold}% usado`} (${formatCurrency(status.spent, baseCurrency)} de ${formatCurrency(status.available, baseCurrency)})`,
+          projectedDate: alert.date,
+          isRead: readIds.includes(notificationId),
+          isPast: true,
+          budgetThreshold: alert.threshold,
+        });
+      });
+
       // Sort by projected date (most recent first), then by original creation date as a fallback
       relevantNotifications.sort((a, b) => {
         const dateA = parseISO(a.projectedDate).getTime();
@@ -192,7 +136,7 @@ export function useNotifications() {
         if (dateA !== dateB) {
           return dateB - dateA; 
         }
-        return b.originalTransaction.createdAt - a.originalTransaction.createdAt;
+        return (b.originalTransaction?.createdAt ?? 0) - (a.originalTransaction?.createdAt ?? 0);
       });
       
       setAllNotifications(relevantNotifications);
@@ -0,0 +1,26 @@
+const TRASH_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Runs once when the Next.js server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.MIGRATE_ON_STARTUP !== 'false') {
+    const { migrateDatabase } = await import('@/lib/storage');
+    try {
+      const applied = await migrateDatabase();
+      if (applied.length) console.log(`Database schema updated (${applied.length} migration(s) applied).`);
+    } catch (error: any) {
+      console.error('Database migration failed on startup:', error.message);
+      throw error;
+    }
+  }
+
+  // Items also get purged whenever their owner opens the trash; this covers users who never do.
+  const { purgeExpiredTrash } = await import('@/lib/serverData');
+  const purge = async () => {
+    const purged = await purgeExpiredTrash();
+    if (purged) console.log(`Purged ${purged} expired item(s) from the trash.`);
+  };
+  void purge();
+  setInterval(purge, TRASH_PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,87 @@
+// src/lib/accounts.ts
+import type { Account, AccountType, ClearedStatus, Money, Transaction } from '@/types';
+import { addMoney, subtractMoney } from '@/lib/money';
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: 'Conta Corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  wallet: 'Carteira Digital',
+};
+
+/** Whether `tx` is a transfer into the account `accountId`. */
+const isTransferInto = (tx: Transaction, accountId: string) =>
+  tx.type === 'transfer' && tx.transferTo === 'account' && tx.transferToId === accountId;
+
+/** Income and transfers into the account add to it; expenses and transfers out of it take from it. */
+export const addsToAccount = (tx: Transaction, accountId: string) => tx.type === 'income' || isTransferInto(tx, accountId);
+
+function applyTransaction(balance: Money, tx: Transaction, accountId: string): Money {
+  return addsToAccount(tx, accountId) ? addMoney(balance, tx.amount) : subtractMoney(balance, tx.amount);
+}
+
+/** Current balance of each account by id: its opening balance plus every transaction assigned to or transferred into it. */
+export function accountBalances(accounts: Account[], transactions: Transaction[]): Map<string, Money> {
+  const balances = new Map(accounts.map(account => [account.id, account.openingBalance]));
+  for (const tx of transactions) {
+    const touched = [tx.accountId, tx.type === 'transfer' && tx.transferTo === 'account' ? tx.transferToId : null];
+    for (const accountId of touched) {
+      const balance = accountId ? balances.get(accountId) : undefined;
+      if (balance !== undefined) balances.set(accountId!, applyTransaction(balance, tx, accountId!));
+    }
+  }
+  return balances;
+}
+
+export interface RunningBalanceEntry {
+  transaction: Transaction;
+  balance: Money; // Account balance right after this transaction
+}
+
+/**
+ * The account's transactions (including transfers into it) oldest first, each with the
+ * balance after it. Same-day transactions are ordered by when they were recorded.
+ */
+export function runningBalances(account: Account, transactions: Transaction[]): RunningBalanceEntry[] {
+  let balance = account.openingBalance;
+  return transactionsOf(account, transactions).map(transaction => {
+    balance = applyTransaction(balance, transaction, account.id);
+    return { transaction, balance };
+  });
+}
+
+/** The transactions assigned to or transferred into the account, oldest first. */
+function transactionsOf(account: Account, transactions: Transaction[]): Transaction[] {
+  return transactions
+    .filter(tx => tx.accountId === account.id || isTransferInto(tx, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+}
+
+export const clearedStatusLabels: Record<ClearedStatus, string> = {
+  cleared: 'Compensada',
+  reconciled: 'Conciliada',
+};
+
+/**
+ * The account's transactions a statement closing on `statementDate` can include: those up to
+ * that date that no reconciliation has locked yet, oldest first.
+ */
+export function reconciliationCandidates(account: Account, transactions: Transaction[], statementDate: string): Transaction[] {
+  return transactionsOf(account, transactions).filter(tx => tx.date <= statementDate && tx.clearedStatus !== 'reconciled');
+}
+
+/**
+ * The account's balance as the bank sees it on `statementDate`: its opening balance plus the
+ * cleared and reconciled transactions up to that date. A transfer between two accounts has a
+ * single status, so clearing it in one account clears it in the other.
+ */
+export function clearedBalance(account: Account, transactions: Transaction[], statementDate: string): Money {
+  return transactionsOf(account, transactions)
+    .filter(tx => tx.date <= statementDate && tx.clearedStatus)
+    .reduce((balance, tx) => applyTransaction(balance, tx, account.id), account.openingBalance);
+}
+
+/** What is still missing for the cleared balance to match the statement; zero when they agree. */
+export function reconciliationDifference(account: Account, transactions: Transaction[], statementDate: string, statementBalance: Money): Money {
+  return subtractMoney(statementBalance, clearedBalance(account, transactions, statementDate));
+}
@@ -0,0 +1,85 @@
+// src/lib/archive.ts
+import { gunzipSync, gzipSync } from 'zlib';
+
+/**
+ * Backups with files are gzipped tar archives (.tar.gz), which any archive tool opens.
+ * Only what backups need is supported: regular files with names of up to 100 bytes.
+ */
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer;
+}
+
+const BLOCK = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8');
+}
+
+// Numeric tar fields are zero-padded octal followed by a NUL.
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+}
+
+/** Sum of the header bytes with the checksum field itself counted as spaces. */
+function checksumOf(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  return sum;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+}
+
+const readOctal = (header: Buffer, offset: number, length: number) => parseInt(readString(header, offset, length).trim() || '0', 8);
+
+export function createArchive(entries: ArchiveEntry[], mtime: Date = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { name, data } of entries) {
+    if (!name || Buffer.byteLength(name) > 100) throw new Error(`Archive entry name must have 1 to 100 bytes: ${name}`);
+    const header = Buffer.alloc(BLOCK);
+    writeString(header, name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, data.length, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write('0', 156); // Regular file
+    writeString(header, 'ustar\u000000', 257, 8);
+    writeOctal(header, checksumOf(header), 148, 7);
+    header[155] = 0x20;
+    blocks.push(header, data, Buffer.alloc((BLOCK - (data.length % BLOCK)) % BLOCK));
+  }
+  blocks.push(Buffer.alloc(BLOCK * 2)); // End of archive
+  return gzipSync(Buffer.concat(blocks));
+}
+
+/** The regular files in a .tar.gz archive. Throws on anything that is not a valid one. */
+export function readArchive(archive: Buffer): ArchiveEntry[] {
+  const tar = gunzipSync(archive);
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  while (offset + BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK);
+    if (header.every(byte => byte === 0)) return entries;
+    if (readOctal(header, 148, 8) !== checksumOf(header)) throw new Error('Invalid archive: bad header checksum.');
+
+    const size = readOctal(header, 124, 12);
+    const start = offset + BLOCK;
+    if (start + size > tar.length) throw new Error('Invalid archive: truncated entry.');
+    const type = String.fromCharCode(header[156]);
+    if (type === '0' || type === '\0') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      entries.push({ name: prefix ? `${prefix}/${name}` : name, data: Buffer.from(tar.subarray(start, start + size)) });
+    }
+    offset = start + Math.ceil(size / BLOCK) * BLOCK;
+  }
+  throw new Error('Invalid archive: missing end marker.');
+}
+
+/** Whether `data` starts like a gzip stream, as .tar.gz backups do and JSON ones cannot. */
+export const isGzip = (data: Buffer) => data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
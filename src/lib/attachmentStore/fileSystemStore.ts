@@ -0,0 +1,43 @@
+// src/lib/attachmentStore/fileSystemStore.ts
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { assertValidKey, type AttachmentStore } from './types';
+
+export interface FileSystemStoreOptions {
+  /** Directory holding one folder per user. Created on first write. */
+  rootDir: string;
+}
+
+export function createFileSystemStore({ rootDir }: FileSystemStoreOptions): AttachmentStore {
+  const filePath = (key: string) => {
+    assertValidKey(key);
+    return path.join(rootDir, ...key.split('/'));
+  };
+
+  return {
+    kind: 'local',
+
+    async put(key, data) {
+      const target = filePath(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Written aside and renamed, so a reader never sees half a file.
+      const temporary = `${target}.${randomUUID()}.tmp`;
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, target);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(filePath(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(filePath(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// src/lib/attachmentStore/index.ts
+import path from 'path';
+import { StorageError } from '@/lib/storage/types';
+import { createFileSystemStore } from './fileSystemStore';
+import { createS3Store } from './s3Store';
+import type { AttachmentStore } from './types';
+
+export * from './types';
+export { createFileSystemStore } from './fileSystemStore';
+export { createS3Store, signS3Request } from './s3Store';
+export { createThumbnail } from './thumbnails';
+
+export const DEFAULT_ATTACHMENTS_DIR = path.join(process.cwd(), 'src', 'data', 'attachments');
+
+/** 'local' (a directory, ATTACHMENTS_DIR) or 's3' (an S3-compatible bucket, S3_*). */
+export function getAttachmentStorageMode(): string {
+  return process.env.ATTACHMENT_STORAGE || 'local';
+}
+
+/** Key of an attachment's file; see assertValidKey. */
+export const attachmentKey = (userId: string, attachmentId: string) => `${userId}/${attachmentId}`;
+export const thumbnailKey = (userId: string, attachmentId: string) => `${userId}/${attachmentId}.thumb`;
+
+/**
+ * Builds a store for the given ATTACHMENT_STORAGE from the environment. Throws an
+ * `unavailable` StorageError when S3 is chosen but not configured.
+ */
+export function createAttachmentStore(mode: string): AttachmentStore {
+  if (mode === 's3') {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PATH_STYLE } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      console.warn("ATTACHMENT_STORAGE is 's3' but S3_BUCKET, S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set.");
+      throw new StorageError('Attachment storage (S3) not configured correctly.', 'unavailable');
+    }
+    const region = S3_REGION || 'us-east-1';
+    return createS3Store({
+      endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      // A custom endpoint is usually MinIO or similar, which only serve path-style URLs.
+      pathStyle: S3_PATH_STYLE ? S3_PATH_STYLE === 'true' : !!S3_ENDPOINT,
+    });
+  }
+  return createFileSystemStore({ rootDir: process.env.ATTACHMENTS_DIR || DEFAULT_ATTACHMENTS_DIR });
+}
+
+let store: AttachmentStore | null = null;
+
+/** Returns the process-wide store for the configured ATTACHMENT_STORAGE. */
+export function getAttachmentStore(): AttachmentStore {
+  if (!store) store = createAttachmentStore(getAttachmentStorageMode());
+  return store;
+}
@@ -0,0 +1,107 @@
+// src/lib/attachmentStore/s3Store.ts
+import { createHash, createHmac } from 'crypto';
+import { assertValidKey, type AttachmentStore } from './types';
+
+export interface S3StoreOptions {
+  /** e.g. 'https://s3.us-east-1.amazonaws.com' or 'http://localhost:9000' for MinIO. */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Addresses the bucket as `endpoint/bucket/key` rather than `bucket.endpoint/key`; most S3-compatible servers need it. */
+  pathStyle?: boolean;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  /** Lower-case names; all of them are signed. `host` is added. */
+  headers: Record<string, string>;
+  body?: Buffer;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// S3 paths are signed with every character but unreserved ones and '/' percent-encoded.
+const encodePath = (pathname: string) =>
+  pathname.split('/').map(segment => encodeURIComponent(decodeURIComponent(segment)).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join('/');
+
+/**
+ * The headers for an AWS Signature Version 4 request to S3: the given ones plus `host`,
+ * `x-amz-date`, `x-amz-content-sha256` and `authorization`. Query strings are not signed.
+ */
+export function signS3Request(
+  request: SignableRequest,
+  credentials: Pick<S3StoreOptions, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const day = amzDate.slice(0, 8);
+  const payloadHash = sha256(request.body ?? '');
+  const headers: Record<string, string> = { ...request.headers, host: request.url.host, 'x-amz-date': amzDate, 'x-amz-content-sha256': payloadHash };
+
+  const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+  const canonicalHeaders = names.map(name => `${name}:${String(headers[name]).trim()}\n`).join('');
+  const signedHeaders = names.join(';');
+  const canonicalRequest = [request.method, encodePath(request.url.pathname), '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+
+  const scope = `${day}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = ['s3', 'aws4_request'].reduce(hmac, hmac(hmac(`AWS4${credentials.secretAccessKey}`, day), credentials.region));
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/** A store on any S3-compatible object storage, spoken to directly over HTTP. */
+export function createS3Store(options: S3StoreOptions): AttachmentStore {
+  const endpoint = new URL(options.endpoint);
+
+  const objectUrl = (key: string) => {
+    assertValidKey(key);
+    const url = new URL(endpoint.toString());
+    if (options.pathStyle) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${options.bucket}/${key}`;
+    } else {
+      url.hostname = `${options.bucket}.${url.hostname}`;
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${key}`;
+    }
+    return url;
+  };
+
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string) => {
+    const url = objectUrl(key);
+    const headers = signS3Request({ method, url, headers: contentType ? { 'content-type': contentType } : {}, body }, options);
+    delete headers.host; // Set by fetch itself
+    return fetch(url, { method, headers, body });
+  };
+
+  const failure = async (response: Response, action: string) =>
+    new Error(`S3 ${action} failed with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+
+  return {
+    kind: 's3',
+
+    async put(key, data, contentType) {
+      const response = await send('PUT', key, data, contentType);
+      if (!response.ok) throw await failure(response, `upload of ${key}`);
+    },
+
+    async get(key) {
+      const response = await send('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) throw await failure(response, `download of ${key}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async remove(key) {
+      const response = await send('DELETE', key);
+      if (!response.ok && response.status !== 404) throw await failure(response, `removal of ${key}`);
+    },
+  };
+}
@@ -0,0 +1,23 @@
+// src/lib/attachmentStore/thumbnails.ts
+
+/** Longest side of a thumbnail, in pixels. */
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * A small JPEG preview of an image, turned upright by its EXIF orientation, or null for
+ * other files and images sharp cannot read. PDFs get no thumbnail.
+ */
+export async function createThumbnail(data: Buffer, contentType: string): Promise<Buffer | null> {
+  if (!contentType.startsWith('image/')) return null;
+  try {
+    const { default: sharp } = await import('sharp');
+    return await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 75 })
+      .toBuffer();
+  } catch (error: any) {
+    console.error('Could not create attachment thumbnail:', error.message);
+    return null;
+  }
+}
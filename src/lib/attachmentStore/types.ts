@@ -0,0 +1,25 @@
+// src/lib/attachmentStore/types.ts
+
+/**
+ * Where attachment files are kept, by key. Their metadata (name, type, owner) is an
+ * `attachments` record in the database; see databaseService.
+ *
+ * Every store must pass the suite in __tests__/lib/attachmentStore.
+ */
+export interface AttachmentStore {
+  readonly kind: string;
+
+  /** Saves `data` under `key`, replacing any file already there. */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** The file under `key`, or null when there is none. */
+  get(key: string): Promise<Buffer | null>;
+  /** Removes the file under `key`; a missing file is not an error. */
+  remove(key: string): Promise<void>;
+}
+
+/** `userId/attachmentId`, optionally with a `.thumb` suffix; anything else could escape the store's root. */
+const KEY_PATTERN = /^[A-Za-z0-9-]+\/[A-Za-z0-9-]+(\.thumb)?$/;
+
+export function assertValidKey(key: string): void {
+  if (!KEY_PATTERN.test(key)) throw new Error(`Invalid attachment key: ${key}`);
+}
@@ -0,0 +1,20 @@
+// src/lib/attachments.ts
+import type { AttachmentOwner } from '@/types';
+
+export const ATTACHMENT_OWNERS: AttachmentOwner[] = ['transactions', 'creditCardPurchases', 'loans', 'investments'];
+
+/** Files that can be attached: photos of receipts and PDF documents. */
+export const ATTACHMENT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/gif', 'application/pdf'];
+
+/** Default for ATTACHMENT_MAX_MB. */
+export const DEFAULT_MAX_ATTACHMENT_MB = 10;
+
+export const isAttachmentOwner = (value: unknown): value is AttachmentOwner => ATTACHMENT_OWNERS.includes(value as AttachmentOwner);
+export const isAttachmentContentType = (value: unknown): value is string => ATTACHMENT_CONTENT_TYPES.includes(value as string);
+
+/** '2,4 MB', '512 KB' or '80 B'. */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1).replace('.', ',')} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
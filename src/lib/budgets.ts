@@ -0,0 +1,178 @@
+// src/lib/budgets.ts
+import { addMonths, endOfMonth, format, getDate, lastDayOfMonth, parseISO, setDate, startOfMonth } from 'date-fns';
+import type { Budget, CreditCard, CreditCardPurchase, CurrencyCode, Loan, Money, RecurrenceOccurrence, Transaction, UserCategory } from '@/types';
+import { addMoney, splitMoney, subtractMoney } from '@/lib/money';
+import { categoryLines } from '@/lib/splits';
+import { projectOccurrences } from '@/lib/recurrence';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+
+/** Percentages of a month's available amount that, once spent, raise an alert. */
+export const BUDGET_ALERT_THRESHOLDS = [80, 100] as const;
+export type BudgetAlertThreshold = typeof BUDGET_ALERT_THRESHOLDS[number];
+
+/** Category that loan installments are spent under, as on the dashboard. */
+export const LOAN_CATEGORY = 'Empréstimo';
+
+export const isMonthString = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+/** 'yyyy-MM' of `date`. */
+export const monthOf = (date: Date) => format(date, 'yyyy-MM');
+
+/** The month `count` months after `month` (before it when negative). */
+export const shiftMonth = (month: string, count: number) => monthOf(addMonths(parseISO(`${month}-01`), count));
+
+/** One category line of an expense, in the base currency, on the day it counts against a budget. */
+export interface SpendingEntry {
+  category: string;
+  date: string; // 'yyyy-MM-dd'
+  amount: Money;
+}
+
+export interface SpendingSources {
+  transactions: Transaction[];
+  occurrenceStates: RecurrenceOccurrence[];
+  creditCards: CreditCard[];
+  creditCardPurchases: CreditCardPurchase[];
+  loans: Loan[];
+}
+
+export type ToBase = (amount: Money, currency: CurrencyCode | undefined, date?: string) => Money;
+
+export interface SpendingOptions {
+  /** 'invoice' (the default) spreads card purchases over their installments' invoices; 'purchase' counts them in full on the day bought. */
+  cardPurchasesAt?: 'invoice' | 'purchase';
+}
+
+/**
+ * The month's spending, converted with `toBase`: expense transactions on each occurrence that
+ * was not skipped, card purchase installments in the month their invoice closes, and loan
+ * installments in the month they are paid, under LOAN_CATEGORY. An installment dated before
+ * its invoice's month counts from the first day of it. Splits spread over their categories.
+ */
+export function monthlySpending(sources: SpendingSources, month: string, toBase: ToBase, options: SpendingOptions = {}): SpendingEntry[] {
+  const from = parseISO(`${month}-01`);
+  const to = endOfMonth(from);
+  const monthStart = format(from, 'yyyy-MM-dd');
+  const entries: SpendingEntry[] = [];
+  const add = (record: Pick<Transaction, 'category' | 'splits'>, amount: Money, date: string) => {
+    for (const line of categoryLines(record, amount)) entries.push({ category: line.category, date, amount: line.amount });
+  };
+
+  for (const tx of sources.transactions) {
+    if (tx.type !== 'expense') continue;
+    for (const occurrence of projectOccurrences(tx, sources.occurrenceStates, from, to)) {
+      if (occurrence.status === 'skipped') continue;
+      add(tx, toBase(occurrence.amount, tx.currency, tx.date), format(occurrence.date, 'yyyy-MM-dd'));
+    }
+  }
+
+  const cards = new Map(sources.creditCards.map(card => [card.id, card]));
+  for (const purchase of sources.creditCardPurchases) {
+    const card = cards.get(purchase.cardId);
+    if (!card) continue;
+    if (options.cardPurchasesAt === 'purchase') {
+      if (purchase.date.startsWith(month)) add(purchase, toBase(purchase.totalAmount, purchase.currency, purchase.date), purchase.date);
+      continue;
+    }
+    const purchaseDate = parseISO(purchase.date);
+    // The first invoice is the one closing in the purchase's month, or the next one when bought after the closing day.
+    const firstInvoice = startOfMonth(addMonths(purchaseDate, getDate(purchaseDate) > card.closingDateDay ? 1 : 0));
+    const index = (from.getFullYear() - firstInvoice.getFullYear()) * 12 + from.getMonth() - firstInvoice.getMonth();
+    if (index < 0 || index >= purchase.installments) continue;
+    const installment = splitMoney(toBase(purchase.totalAmount, purchase.currency, purchase.date), purchase.installments)[index];
+    add(purchase, installment, purchase.date > monthStart ? purchase.date : monthStart);
+  }
+
+  for (const loan of sources.loans) {
+    const start = parseISO(loan.startDate);
+    const index = (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth();
+    if (index < 0 || index >= loan.installmentsCount) continue;
+    const paymentDate = setDate(from, Math.min(getDate(start), getDate(lastDayOfMonth(from))));
+    const date = format(paymentDate, 'yyyy-MM-dd');
+    add({ category: LOAN_CATEGORY }, toBase(loan.installmentAmount, DEFAULT_CURRENCY, date), date);
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** `monthlySpending` of any month, through monthLookup. */
+export function spendingLookup(sources: SpendingSources, toBase: ToBase, upTo?: string, options: SpendingOptions = {}): (month: string) => SpendingEntry[] {
+  return monthLookup(month => monthlySpending(sources, month, toBase, options), upTo);
+}
+
+/** `entriesOf` of any month, each computed once; `upTo` ('yyyy-MM-dd') leaves out what falls after it. */
+export function monthLookup(entriesOf: (month: string) => SpendingEntry[], upTo?: string): (month: string) => SpendingEntry[] {
+  const months = new Map<string, SpendingEntry[]>();
+  return month => {
+    if (!months.has(month)) {
+      const entries = entriesOf(month);
+      months.set(month, upTo ? entries.filter(entry => entry.date <= upTo) : entries);
+    }
+    return months.get(month)!;
+  };
+}
+
+/** Names, lowercased, that spending under the budget's category goes by: its own and its subcategories'. */
+function budgetCategoryNames(budget: Budget, categories: UserCategory[]): Set<string> {
+  return new Set(categories
+    .filter(category => category.id === budget.categoryId || category.parentId === budget.categoryId)
+    .map(category => category.name.trim().toLowerCase()));
+}
+
+/** The entries of `spending` that count against the budget. */
+export function budgetEntries(budget: Budget, categories: UserCategory[], spending: SpendingEntry[]): SpendingEntry[] {
+  const names = budgetCategoryNames(budget, categories);
+  return spending.filter(entry => names.has(entry.category.trim().toLowerCase()));
+}
+
+export interface BudgetMonth {
+  month: string; // 'yyyy-MM'
+  budgeted: Money; // The budget's amount
+  carriedOver: Money; // Left over from earlier months with rollover; negative when they were overspent
+  available: Money; // budgeted + carriedOver
+  spent: Money;
+  remaining: Money; // available - spent; negative when overspent
+}
+
+/**
+ * How the budget stands in `month`, or null before its start month. `spendingOf` gives a
+ * month's spending; with rollover it is also asked for each month since the start, whose
+ * leftover, positive or negative, adds to the next month's available amount.
+ */
+export function budgetMonth(budget: Budget, categories: UserCategory[], spendingOf: (month: string) => SpendingEntry[], month: string): BudgetMonth | null {
+  if (month < budget.startMonth) return null;
+  const spentIn = (m: string) => addMoney(...budgetEntries(budget, categories, spendingOf(m)).map(entry => entry.amount));
+  let carriedOver = 0;
+  if (budget.rollover) {
+    for (let m = budget.startMonth; m < month; m = shiftMonth(m, 1)) {
+      carriedOver = subtractMoney(addMoney(budget.amount, carriedOver), spentIn(m));
+    }
+  }
+  const available = addMoney(budget.amount, carriedOver);
+  const spent = spentIn(month);
+  return { month, budgeted: budget.amount, carriedOver, available, spent, remaining: subtractMoney(available, spent) };
+}
+
+/** Share of the available amount spent, in percent; anything spent against nothing available is 100% or more. */
+export function budgetUsage(status: Pick<BudgetMonth, 'available' | 'spent'>): number {
+  if (status.available > 0) return (status.spent * 100) / status.available;
+  return status.spent > 0 || status.available < 0 ? 100 : 0;
+}
+
+/**
+ * The alert thresholds the budget's `entries` for a month crossed, each with the day spending
+ * reached it. Nothing is raised before something is spent in the month.
+ */
+export function budgetAlerts(available: Money, entries: SpendingEntry[]): Array<{ threshold: BudgetAlertThreshold; date: string }> {
+  const alerts: Array<{ threshold: BudgetAlertThreshold; date: string }> = [];
+  let spent = 0;
+  for (const entry of [...entries].sort((a, b) => a.date.localeCompare(b.date))) {
+    spent = addMoney(spent, entry.amount);
+    for (const threshold of BUDGET_ALERT_THRESHOLDS) {
+      if (spent > 0 && spent * 100 >= available * threshold && !alerts.some(alert => alert.threshold === threshold)) {
+        alerts.push({ threshold, date: entry.date });
+      }
+    }
+  }
+  return alerts;
+}
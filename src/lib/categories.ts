@@ -0,0 +1,73 @@
+// src/lib/categories.ts
+import type { CategorySplit, UserCategory } from '@/types';
+import { addMoney } from '@/lib/money';
+
+/** Icons a category can have; components/categories/CategoryIcon maps each one to a lucide icon. */
+export const CATEGORY_ICONS = [
+  'tag', 'shopping-cart', 'utensils', 'coffee', 'home', 'zap', 'car', 'bus', 'plane', 'heart-pulse',
+  'graduation-cap', 'gamepad', 'film', 'shirt', 'gift', 'paw-print', 'baby', 'dumbbell', 'smartphone',
+  'briefcase', 'piggy-bank', 'receipt', 'landmark', 'wallet',
+] as const;
+export type CategoryIconName = typeof CATEGORY_ICONS[number];
+
+/** Colors offered when editing a category; any '#rrggbb' color is accepted. */
+export const CATEGORY_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#64748b'];
+
+export const isCategoryIcon = (value: unknown): value is CategoryIconName => CATEGORY_ICONS.includes(value as CategoryIconName);
+export const isCategoryColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** The category records refer to by `name`, ignoring case as the category pickers do. */
+export function findCategory(categories: UserCategory[], name: string): UserCategory | undefined {
+  return categories.find(category => sameName(category.name, name));
+}
+
+/**
+ * Categories in picker order: each top-level category followed by its subcategories, both
+ * alphabetically. Subcategories whose parent is missing are listed as top-level.
+ */
+export function orderCategories(categories: UserCategory[]): Array<{ category: UserCategory; depth: 0 | 1 }> {
+  const ids = new Set(categories.map(category => category.id));
+  const byName = (a: UserCategory, b: UserCategory) => a.name.localeCompare(b.name);
+  const isTopLevel = (category: UserCategory) => !category.parentId || !ids.has(category.parentId);
+  const ordered: Array<{ category: UserCategory; depth: 0 | 1 }> = [];
+  for (const parent of categories.filter(isTopLevel).sort(byName)) {
+    ordered.push({ category: parent, depth: 0 });
+    for (const child of categories.filter(category => category.parentId === parent.id).sort(byName)) {
+      ordered.push({ category: child, depth: 1 });
+    }
+  }
+  return ordered;
+}
+
+/** 'Parent › Child' for a subcategory's name; any other name as it is. */
+export function categoryPath(name: string, categories: UserCategory[]): string {
+  const category = findCategory(categories, name);
+  const parent = category?.parentId ? categories.find(c => c.id === category.parentId) : undefined;
+  return parent ? `${parent.name} › ${category!.name}` : name;
+}
+
+/** Whether a transaction or purchase is under category `name`, on its own or in a split line. */
+export function usesCategory(record: { category: string; splits?: CategorySplit[] | null }, name: string): boolean {
+  return sameName(record.category, name) || !!record.splits?.some(line => sameName(line.category, name));
+}
+
+/**
+ * A record's category fields after moving it from category `from` to `to`, or null when
+ * it does not use `from`. Split lines that end up under the same category are combined,
+ * and a split left with a single line is no longer a split.
+ */
+export function renameCategoryIn(record: { category: string; splits?: CategorySplit[] | null }, from: string, to: string): { category: string; splits: CategorySplit[] | null } | null {
+  if (!usesCategory(record, from)) return null;
+  if (!record.splits?.length) return { category: to, splits: null };
+
+  const lines: CategorySplit[] = [];
+  for (const line of record.splits) {
+    const category = sameName(line.category, from) ? to : line.category;
+    const existing = lines.find(l => sameName(l.category, category));
+    if (existing) existing.amount = addMoney(existing.amount, line.amount);
+    else lines.push({ category, amount: line.amount });
+  }
+  return lines.length > 1 ? { category: lines[0].category, splits: lines } : { category: lines[0].category, splits: null };
+}
@@ -0,0 +1,65 @@
+// src/lib/concurrency.ts
+
+/*
+ * Optimistic concurrency for edits. A record's version is its `updatedAt` (or
+ * `createdAt` if it was never updated), sent to clients as an ETag. Updates carry
+ * the version they were based on in `If-Match` (or a `version` body field) and
+ * are rejected with 409 if the record changed in the meantime.
+ */
+
+export interface VersionedRecord {
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export function versionOf(record: VersionedRecord): number | undefined {
+  return record.updatedAt ?? record.createdAt;
+}
+
+export function etagOf(record: VersionedRecord): string {
+  return `"${versionOf(record) ?? 0}"`;
+}
+
+export type RequestedVersion =
+  | { status: 'ok'; version: number }
+  /** `If-Match: *`: the client explicitly overwrites whatever is stored. */
+  | { status: 'any' }
+  | { status: 'missing' }
+  | { status: 'invalid' };
+
+/** Reads the version an update was based on from `If-Match`, falling back to the body's `version` field. */
+export function requestedVersion(headers: Headers, body?: unknown): RequestedVersion {
+  const ifMatch = headers.get('if-match')?.trim();
+  if (ifMatch) {
+    if (ifMatch === '*') return { status: 'any' };
+    const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch);
+    return match ? { status: 'ok', version: Number(match[1]) } : { status: 'invalid' };
+  }
+  const bodyVersion = (body as { version?: unknown } | null | undefined)?.version;
+  if (bodyVersion === undefined || bodyVersion === null) return { status: 'missing' };
+  const version = Number(bodyVersion);
+  return Number.isSafeInteger(version) && version >= 0 ? { status: 'ok', version } : { status: 'invalid' };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if ((a === undefined || a === null || a === '') && (b === undefined || b === null || b === '')) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Fields of `mine` whose value differs from `current`. */
+export function conflictingFields(mine: Record<string, any>, current: Record<string, any>): string[] {
+  return Object.keys(mine).filter(key => !sameValue(mine[key], current[key]));
+}
+
+/**
+ * Three-way merge of an edit: fields the user left as they were in `base` take the
+ * value from `current`, fields the user changed keep the user's value.
+ */
+export function mergeEdits<T extends Record<string, any>>(base: Record<string, any>, mine: T, current: Record<string, any>): T {
+  const merged: Record<string, any> = { ...mine };
+  for (const key of Object.keys(mine)) {
+    if (sameValue(mine[key], base[key]) && key in current) merged[key] = current[key];
+  }
+  return merged as T;
+}
@@ -0,0 +1,32 @@
+// src/lib/concurrencyResponses.ts
+import { NextResponse } from 'next/server';
+import { etagOf, type RequestedVersion, type VersionedRecord } from '@/lib/concurrency';
+
+/** Response headers carrying the record's version, for reads and successful updates. */
+export function etagHeaders(record?: VersionedRecord | null): Record<string, string> | undefined {
+  return record ? { ETag: etagOf(record) } : undefined;
+}
+
+/** 428 when an update does not say which version it is based on, 400 when that version is malformed. */
+export function versionErrorResponse(requested: RequestedVersion, label: string): NextResponse | null {
+  if (requested.status === 'missing') {
+    return NextResponse.json({ success: false, message: `Updating a ${label} requires an If-Match header or a version field.` }, { status: 428 });
+  }
+  if (requested.status === 'invalid') {
+    return NextResponse.json({ success: false, message: 'Invalid If-Match header or version.' }, { status: 400 });
+  }
+  return null;
+}
+
+/** The version the storage has to match, or undefined for `If-Match: *`. */
+export function expectedVersionOf(requested: RequestedVersion): number | undefined {
+  return requested.status === 'ok' ? requested.version : undefined;
+}
+
+/** 409 with the record as it is now, so the client can merge or overwrite. */
+export function conflictResponse(current: VersionedRecord | undefined, label: string): NextResponse {
+  return NextResponse.json(
+    { success: false, message: `The ${label} was changed since it was loaded.`, current },
+    { status: 409, headers: etagHeaders(current) }
+  );
+}
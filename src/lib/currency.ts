@@ -0,0 +1,109 @@
+// src/lib/currency.ts
+import type { CurrencyCode, Money } from '@/types';
+import { multiplyMoney } from '@/lib/money';
+
+/*
+ * Records keep the currency they were entered in; totals are converted into the
+ * user's base currency with the exchange rates the user maintains (Configurações).
+ * A rate says that 1 `currency` is worth `rate` of `quoteCurrency` on `date`.
+ */
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'BRL';
+
+// Currencies with two decimal places, the precision Money is stored with.
+export const SUPPORTED_CURRENCIES: Array<{ code: CurrencyCode; name: string }> = [
+  { code: 'BRL', name: 'Real Brasileiro' },
+  { code: 'USD', name: 'Dólar Americano' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'Libra Esterlina' },
+  { code: 'CAD', name: 'Dólar Canadense' },
+  { code: 'CHF', name: 'Franco Suíço' },
+  { code: 'ARS', name: 'Peso Argentino' },
+  { code: 'MXN', name: 'Peso Mexicano' },
+];
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && SUPPORTED_CURRENCIES.some(currency => currency.code === value);
+}
+
+/** The record's currency; records saved before currencies existed are in reais. */
+export function currencyOf(record: { currency?: CurrencyCode | null }): CurrencyCode {
+  return record.currency || DEFAULT_CURRENCY;
+}
+
+export interface RateQuote {
+  currency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  /** 'yyyy-MM-dd' */
+  date: string;
+}
+
+/**
+ * The rate quoted for `from` in `to` that applies on `date`: the latest one on or
+ * before it, else the earliest one after it. Without a date, the latest rate.
+ */
+function directRate(rates: RateQuote[], from: CurrencyCode, to: CurrencyCode, date?: string): number | null {
+  let before: RateQuote | null = null;
+  let after: RateQuote | null = null;
+  for (const quote of rates) {
+    if (!(quote.rate > 0)) continue;
+    let rate: number;
+    if (quote.currency === from && quote.quoteCurrency === to) rate = quote.rate;
+    else if (quote.currency === to && quote.quoteCurrency === from) rate = 1 / quote.rate;
+    else continue;
+    const candidate = { ...quote, rate };
+    if (!date || quote.date <= date) {
+      if (!before || quote.date >= before.date) before = candidate;
+    } else if (!after || quote.date < after.date) {
+      after = candidate;
+    }
+  }
+  return (before ?? after)?.rate ?? null;
+}
+
+/** Rate to convert `from` into `to` on `date`, directly or through one intermediate currency; null if there is none. */
+export function exchangeRateOn(rates: RateQuote[], from: CurrencyCode, to: CurrencyCode, date?: string): number | null {
+  if (from === to) return 1;
+  const direct = directRate(rates, from, to, date);
+  if (direct !== null) return direct;
+  const intermediates = new Set(rates.flatMap(quote => [quote.currency, quote.quoteCurrency]));
+  for (const via of intermediates) {
+    if (via === from || via === to) continue;
+    const first = directRate(rates, from, via, date);
+    const second = first === null ? null : directRate(rates, via, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+/** Converts an amount between currencies, rounded to cents; null if no rate is known. */
+export function convertMoney(amount: Money, from: CurrencyCode, to: CurrencyCode, rates: RateQuote[], date?: string): Money | null {
+  const rate = exchangeRateOn(rates, from, to, date);
+  return rate === null ? null : multiplyMoney(amount, rate);
+}
+
+export interface CurrencyConverter {
+  baseCurrency: CurrencyCode;
+  /** The amount in the base currency, or 0 when no rate is known (its currency is then added to `missing`). */
+  toBase(amount: Money, currency: CurrencyCode | null | undefined, date?: string): Money;
+  /** Currencies met without any rate to the base currency. */
+  missing: Set<CurrencyCode>;
+}
+
+export function createCurrencyConverter(baseCurrency: CurrencyCode, rates: RateQuote[]): CurrencyConverter {
+  const missing = new Set<CurrencyCode>();
+  return {
+    baseCurrency,
+    missing,
+    toBase(amount, currency, date) {
+      const from = currency || DEFAULT_CURRENCY;
+      const converted = convertMoney(amount, from, baseCurrency, rates, date);
+      if (converted === null) {
+        missing.add(from);
+        return 0;
+      }
+      return converted;
+    },
+  };
+}
@@ -1,97 +1,202 @@
-
 'use server';
 
-import fs from 'fs/promises';
-import path from 'path';
-import type { UserProfile, Transaction, NewTransactionData, FinancialDataInput, CreditCard, NewCreditCardData, CreditCardPurchase, NewCreditCardPurchaseData, Loan, NewLoanData, UpdateLoanData, UserCategory, NewUserCategoryData, UserBackupData, FinancialGoal, NewFinancialGoalData, UpdateFinancialGoalData, RecurrenceFrequency, Investment, NewInvestmentData, UpdateInvestmentData, InvestmentType, UpdateTransactionData, UpdateResult, UpdateCreditCardPurchaseData, UpdateCreditCardData } from '@/types';
+import type { UserProfile, Transaction, NewTransactionData, TransferDestination, Money, CategorySplit, Account, AccountType, NewAccountData, UpdateAccountData, FinancialDataInput, CreditCard, NewCreditCardData, CreditCardPurchase, NewCreditCardPurchaseData, Loan, NewLoanData, UpdateLoanData, UserCategory, CategoryDetails, UpdateCategoryData, Budget, NewBudgetData, UpdateBudgetData, EnvelopeAssignment, EnvelopeAssignmentData, EnvelopeMoveData, Tag, NewTagData, UpdateTagData, Payee, NewPayeeData, UpdatePayeeData, Attachment, AttachmentOwner, RecurrenceOccurrence, OccurrenceStateData, Reconciliation, ReconciliationData, UserBackupData, FinancialGoal, NewFinancialGoalData, UpdateFinancialGoalData, Investment, NewInvestmentData, UpdateInvestmentData, UpdateTransactionData, TransactionQuery, TransactionPageResult, UpdateResult, VersionedUpdateResult, BatchRequest, BatchResult, BatchItemError, TransactionBatchRequest, CreditCardPurchaseBatchRequest, UpdateCreditCardPurchaseData, UpdateCreditCardData, CurrencyCode, ExchangeRate, NewExchangeRateData, TrashEntity, TrashItem, AuditEvent, AuditFieldChange } from '@/types';
 import { randomUUID } from 'crypto';
-import { parseISO, addMonths, format as formatDateFns } from 'date-fns';
-import { Pool, type QueryResult } from 'pg';
+import { parseISO, addMonths, isValid, format as formatDateFns } from 'date-fns';
 import bcrypt from 'bcryptjs';
+import { addMoney, multiplyMoney, parseMoney, subtractMoney } from '@/lib/money';
+import { versionOf } from '@/lib/concurrency';
+import { categoryLines, normalizeSplits, splitsError } from '@/lib/splits';
+import { findCategory, isCategoryColor, isCategoryIcon, renameCategoryIn, usesCategory } from '@/lib/categories';
+import { matchPayee } from '@/lib/payees';
+import { reconciliationCandidates, reconciliationDifference } from '@/lib/accounts';
+import { isMonthString } from '@/lib/budgets';
+import { cashFlowForecast, isForecastMonths, DEFAULT_FORECAST_MONTHS, MIN_FORECAST_MONTHS, MAX_FORECAST_MONTHS, type CashFlowForecast } from '@/lib/forecast';
+import { isOccurrenceOf, normalizeRecurrenceRule, recurrenceRuleError, RECURRENCE_FREQUENCIES, type RecurrenceRule } from '@/lib/recurrence';
+import { DEFAULT_MAX_ATTACHMENT_MB, isAttachmentContentType, isAttachmentOwner } from '@/lib/attachments';
+import { attachmentKey, createThumbnail, getAttachmentStore, thumbnailKey } from '@/lib/attachmentStore';
+import { createArchive, type ArchiveEntry } from '@/lib/archive';
+import { createCurrencyConverter, DEFAULT_CURRENCY, isCurrencyCode } from '@/lib/currency';
+import { getStorageAdapter, getTrashRetentionDays, StorageError, DEFAULT_CATEGORY_NAMES, buildCollections, decodeCursor, entityDefinitions, entityNames, roundMoneyFields, type StorageAdapter, type EntityName, type UserEntityName, type EntityRecord, type EntityPatch, type EntityBatchOperation, type EntityBatchResult, type TaggedBatchOperation } from '@/lib/storage';
+import { BACKUP_ATTACHMENTS_DIR, BACKUP_DATA_ENTRY, cascadeChildrenOf, DAY_MS, listTrashed, purgeExpiredTrash, purgeRecord, recordHistory, removeAttachmentFiles, storageErrorMessage, TRASH_ENTITIES } from '@/lib/serverData';
+
+const storage = (): StorageAdapter => getStorageAdapter();
+
+/** Active records only; trashed ones are listed through getTrashForUser. */
+async function listEntity<K extends UserEntityName>(entity: K, userId: string): Promise<EntityRecord<K>[]> {
+  if (!userId) return [];
+  try {
+    return (await storage().list(entity, userId)).filter(record => !record.deletedAt);
+  } catch (error: any) {
+    console.error(`Error fetching ${entity} for user ${userId}:`, error.message);
+    return [];
+  }
+}
 
-const DB_PATH = path.join(process.cwd(), 'src', 'data', 'db.json');
-
-interface UserRecord extends UserProfile {
-  hashedPassword?: string;
-  transactions: Transaction[];
-  loans: Loan[];
-  creditCards: CreditCard[];
-  creditCardPurchases: CreditCardPurchase[];
-  categories: UserCategory[];
-  financialGoals: FinancialGoal[];
-  investments: Investment[];
-}
-interface LocalDB {
-  users: {
-    [userId: string]: UserRecord;
-  };
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+const UNSUPPORTED_CURRENCY = "Unsupported currency.";
+const hasInvalidCurrency = (data: { currency?: unknown }) => data.currency !== undefined && !isCurrencyCode(data.currency);
+
+/** The currency records are saved in when none is given. */
+async function baseCurrencyOf(userId: string): Promise<CurrencyCode> {
+  try {
+    return (await storage().findUserById(userId))?.profile.baseCurrency || DEFAULT_CURRENCY;
+  } catch (error: any) {
+    console.error(`Error reading base currency for user ${userId}:`, error.message);
+    return DEFAULT_CURRENCY;
+  }
 }
 
-const defaultCategories: Omit<NewUserCategoryData, 'userId'>[] = [
-  { name: 'Alimentação', isSystemDefined: true },
-  { name: 'Transporte', isSystemDefined: true },
-  { name: 'Moradia', isSystemDefined: true },
-  { name: 'Saúde', isSystemDefined: true },
-  { name: 'Educação', isSystemDefined: true },
-  { name: 'Lazer', isSystemDefined: true },
-  { name: 'Vestuário', isSystemDefined: true },
-  { name: 'Contas Fixas', isSystemDefined: true },
-  { name: 'Compras Online', isSystemDefined: true },
-  { name: 'Salário', isSystemDefined: true },
-  { name: 'Investimentos', isSystemDefined: true },
-  { name: 'Presentes', isSystemDefined: true },
-  { name: 'Cuidados Pessoais', isSystemDefined: true },
-  { name: 'Viagens', isSystemDefined: true },
-  { name: 'Serviços (Assinaturas)', isSystemDefined: true },
-  { name: 'Impostos', isSystemDefined: true },
-  { name: 'Outras Receitas', isSystemDefined: true },
-  { name: 'Outras Despesas', isSystemDefined: true },
-];
-
-
-const DATABASE_MODE = process.env.DATABASE_MODE || 'local';
-const DATABASE_URL = process.env.DATABASE_URL;
-
-let pool: Pool | null = null;
-
-if (DATABASE_MODE === 'postgres' && DATABASE_URL) {
-  pool = new Pool({ connectionString: DATABASE_URL });
-  pool.on('connect', () => console.log('Connected to PostgreSQL'));
-  pool.on('error', (err) => console.error('PostgreSQL client error', err));
-} else if (DATABASE_MODE === 'postgres' && !DATABASE_URL) {
-  console.warn("DATABASE_MODE is 'postgres' but DATABASE_URL is not set. PostgreSQL will not be available.");
-} else {
-  console.log('Using local db.json for data storage.');
-}
-
-async function readDB(): Promise<LocalDB> {
+/** A single active record, or null if it does not exist or is in the trash. */
+export async function getRecordForUser<K extends UserEntityName>(userId: string, entity: K, id: string): Promise<EntityRecord<K> | null> {
+  if (!userId || !id) return null;
   try {
-    const data = await fs.readFile(DB_PATH, 'utf-8');
-    return JSON.parse(data) as LocalDB;
+    const record = await storage().get(entity, userId, id);
+    return record && !record.deletedAt ? record : null;
   } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      const initialDb: LocalDB = { users: {} };
-      await writeDB(initialDb);
-      console.log('Created empty db.json.');
-      return initialDb;
+    console.error(`Error fetching ${entity} ${id} for user ${userId}:`, error.message);
+    return null;
+  }
+}
+
+// --- Change history ---
+
+const UNAUDITED_FIELDS = new Set(['id', 'userId', 'createdAt', 'updatedAt', 'deletedAt']);
+
+/** Field-level diff between two versions of a record; `before` is null for a newly created one. */
+function diffRecords(before: Record<string, any> | null, after: Record<string, any>): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after)]);
+  const changes: AuditFieldChange[] = [];
+  for (const field of fields) {
+    if (UNAUDITED_FIELDS.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes.push({ field, from, to });
+  }
+  return changes;
+}
+
+/** Linked updates for moving records (a record and its cascade children) to the trash, or back out of it when `restoring`. */
+async function trashLinkedUpdates(userId: string, items: Array<{ entity: EntityName; record: any }>, restoring: boolean): Promise<LinkedUpdate[]> {
+  const updates: LinkedUpdate[] = [];
+  for (const entity of new Set(items.map(item => item.entity))) {
+    const records = items.filter(item => item.entity === entity).map(item => item.record);
+    updates.push(...await linkedUpdates(entity, userId, restoring ? [] : records, restoring ? records : []));
+  }
+  return updates;
+}
+
+/** A change to another record implied by a write (a transfer's destination), with that record as it was before. */
+interface LinkedUpdate {
+  operation: TaggedBatchOperation;
+  before: Record<string, any>;
+}
+
+/** `record` with the fields `patch` sets; undefined ones leave the field as it is, as in storage updates. */
+const withChanges = <T extends object>(record: T, patch: object): T =>
+  ({ ...record, ...Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined)) });
+
+/** Updates implied by writing records of `entity`; see transferDestinationUpdates and categoryRenameUpdates. */
+function linkedUpdates(entity: EntityName, userId: string, removed: any[], added: any[]): Promise<LinkedUpdate[]> {
+  if (entity === 'transactions') return transferDestinationUpdates(userId, removed, added);
+  if (entity === 'categories') return categoryRenameUpdates(userId, removed, added);
+  return Promise.resolve([]);
+}
+
+/**
+ * Applies `operations` together with their linked updates, all or nothing, and records the
+ * history of the linked records. The result's records are those of `operations` only; a
+ * `failedIndex` past them means a linked record changed concurrently.
+ */
+async function applyWithLinked(userId: string, operations: TaggedBatchOperation[], linked: LinkedUpdate[]): Promise<EntityBatchResult<EntityName>> {
+  const result = await storage().applyChanges(userId, [...operations, ...linked.map(update => update.operation)]);
+  if (!result.applied) return result;
+  for (const [index, update] of linked.entries()) {
+    const record = result.records[operations.length + index];
+    const changed = diffRecords(update.before, record);
+    if (changed.length) await recordHistory(userId, update.operation.entity, record.id, 'update', changed);
+  }
+  return { applied: true, records: result.records.slice(0, operations.length) };
+}
+
+async function insertEntity<K extends EntityName>(entity: K, record: EntityRecord<K>, label: string): Promise<{ success: boolean; id?: string; error?: string }> {
+  try {
+    const rounded = roundMoneyFields(entity, record);
+    const linked = await linkedUpdates(entity, record.userId, [], [rounded]);
+    let created: EntityRecord<K>;
+    if (linked.length) {
+      const result = await applyWithLinked(record.userId, [{ entity, type: 'insert', record: rounded } as TaggedBatchOperation], linked);
+      if (!result.applied) return { success: false, error: `A record linked to the ${label} changed while saving. Try again.` };
+      created = result.records[0] as EntityRecord<K>;
+    } else {
+      created = await storage().insert(entity, rounded);
     }
-    console.error('Error reading database file:', error.message, error);
-    throw new Error('Could not read database.');
+    await recordHistory(created.userId, entity, created.id, 'create', diffRecords(null, created));
+    return { success: true, id: created.id };
+  } catch (error: any) {
+    console.error(`Error adding ${label}:`, error.message);
+    return { success: false, error: storageErrorMessage(error, `Database error adding ${label}.`) };
   }
 }
 
-async function writeDB(data: LocalDB): Promise<void> {
+/**
+ * Applies `changes` to an active record. With `expectedVersion` (see lib/concurrency)
+ * nothing is written if the record changed since that version; the result then has
+ * `conflict` set and carries the current record instead.
+ */
+async function updateEntity<K extends UserEntityName>(entity: K, userId: string, id: string, changes: Omit<EntityPatch<K>, 'updatedAt'>, label: string, expectedVersion?: number): Promise<VersionedUpdateResult<EntityRecord<K>>> {
+  if (Object.values(changes).every(value => value === undefined)) return { success: true, error: 'No fields to update.' };
+  const notFound = `${label.charAt(0).toUpperCase()}${label.slice(1)} not found.`;
+  const conflict = (record: EntityRecord<K>) => ({ success: false, conflict: true, record, error: `The ${label} was changed since it was loaded.` });
   try {
-    await fs.writeFile(DB_PATH, JSON.stringify(data, null, 2), 'utf-8');
+    const current = await storage().get(entity, userId, id);
+    if (!current || current.deletedAt) return { success: false, error: notFound };
+    const currentVersion = versionOf(current) ?? 0;
+    if (expectedVersion !== undefined && currentVersion !== expectedVersion) return conflict(current);
+    // Strictly increasing, so two saves within the same millisecond still get different versions.
+    const updatedAt = Math.max(Date.now(), currentVersion + 1);
+    const patch = roundMoneyFields(entity, { ...changes, updatedAt }) as EntityPatch<K>;
+    const linked = await linkedUpdates(entity, userId, [current], [withChanges(current, patch)]);
+    let updated: EntityRecord<K> | null;
+    if (linked.length) {
+      // Linked updates are computed from `current`, so it must still be the stored version.
+      const result = await applyWithLinked(userId, [{ entity, type: 'update', id, patch, expectedUpdatedAt: currentVersion } as TaggedBatchOperation], linked);
+      updated = result.applied ? result.records[0] as EntityRecord<K> : null;
+    } else {
+      updated = await storage().update(entity, userId, id, patch, expectedVersion);
+    }
+    if (!updated) {
+      // Either removed or, with a version check, changed by a concurrent save after the read above.
+      const latest = expectedVersion !== undefined || linked.length ? await storage().get(entity, userId, id) : null;
+      return latest && !latest.deletedAt ? conflict(latest) : { success: false, error: notFound };
+    }
+    const changed = diffRecords(current, updated);
+    if (changed.length) await recordHistory(userId, entity, id, 'update', changed);
+    return { success: true, record: updated };
   } catch (error: any) {
-    console.error('Error writing to database file:', error.message, error);
-    throw new Error('Could not write to database.');
+    console.error(`Error updating ${label}:`, error.message);
+    return { success: false, error: storageErrorMessage(error, `Database error updating ${label}.`) };
   }
 }
 
-async function addDefaultCategoriesForUser(userId: string) {
-  for (const catData of defaultCategories) {
-    await addCategoryForUser(userId, catData.name, true);
+/** Moves the record (and its cascade children) to the trash; see restoreFromTrash and purgeExpiredTrash. */
+async function deleteEntity(entity: UserEntityName, userId: string, id: string, label: string): Promise<UpdateResult> {
+  try {
+    const record = await storage().get(entity, userId, id);
+    const cascaded = await cascadeChildrenOf(entity, userId, id, child => !child.deletedAt);
+    const linked = record && !record.deletedAt ? await trashLinkedUpdates(userId, [{ entity, record }, ...cascaded], false) : [];
+    const deletedAt = Date.now();
+    const removed = linked.length
+      ? (await applyWithLinked(userId, [{ entity, type: 'trash', id, deletedAt } as TaggedBatchOperation], linked)).applied
+      : await storage().trash(entity, userId, id, deletedAt);
+    if (!removed) return { success: false, error: `${label.charAt(0).toUpperCase()}${label.slice(1)} not found.` };
+    for (const item of [{ entity, id }, ...cascaded]) await recordHistory(userId, item.entity, item.id, 'delete');
+    return { success: true };
+  } catch (error: any) {
+    console.error(`Error deleting ${label}:`, error.message);
+    return { success: false, error: storageErrorMessage(error, `Database error deleting ${label}.`) };
   }
 }
 
@@ -109,142 +214,49 @@ export async function createUser(email: string, password_plain: string, displayN
     lastLoginAt: now,
     notifyByEmail: notifyByEmailDefault,
   };
+  const categories: UserCategory[] = DEFAULT_CATEGORY_NAMES.map(name => ({
+    id: randomUUID(), userId, name, isSystemDefined: true, createdAt: now, updatedAt: now,
+  }));
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-      console.error("DATABASE_MODE is postgres but pool is not initialized. Cannot create user.");
-      throw new Error("Database service (PostgreSQL) not configured correctly.");
-    }
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
-      const res = await client.query(
-        'INSERT INTO app_users (id, email, hashed_password, display_name, created_at, last_login_at, notify_by_email) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id, email, display_name, created_at, last_login_at, notify_by_email',
-        [userId, email, hashedPassword, displayName || null, new Date(now), new Date(now), notifyByEmailDefault]
-      );
-      const dbUser = res.rows[0];
-
-      for (const catData of defaultCategories) {
-          const categoryId = randomUUID();
-          await client.query(
-              'INSERT INTO user_categories (id, user_id, name, is_system_defined, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $5)', 
-              [categoryId, userId, catData.name, catData.isSystemDefined || false, new Date()]
-          );
-      }
-      await client.query('COMMIT');
-      return {
-        id: dbUser.id,
-        email: dbUser.email,
-        displayName: dbUser.display_name,
-        createdAt: new Date(dbUser.created_at).getTime(),
-        lastLoginAt: new Date(dbUser.last_login_at).getTime(),
-        notifyByEmail: dbUser.notify_by_email,
-      };
-    } catch (error: any) {
-      await client.query('ROLLBACK');
-      console.error('Error creating user in PostgreSQL:', error.message);
-      if (error.code === '23505' && error.constraint === 'app_users_email_key') {
-        throw new Error('User with this email already exists.');
-      }
-      throw new Error('Could not create user in PostgreSQL.');
-    } finally {
-      client.release();
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (Object.values(db.users).find(u => u.profile.email === email)) {
+  try {
+    const created = await storage().createUser({ profile: newUserProfile, hashedPassword }, categories);
+    return created.profile;
+  } catch (error: any) {
+    console.error('Error creating user:', error.message);
+    if (error instanceof StorageError && error.code === 'conflict') {
       throw new Error('User with this email already exists.');
     }
-    db.users[userId] = {
-      profile: newUserProfile,
-      hashedPassword,
-      transactions: [],
-      loans: [],
-      creditCards: [],
-      creditCardPurchases: [],
-      categories: [],
-      financialGoals: [],
-      investments: [],
-    };
-    await writeDB(db);
-    await addDefaultCategoriesForUser(userId); // Add default categories for local DB user
-    return newUserProfile;
+    throw new Error('Could not create user.');
   }
 }
 
 export async function findUserByEmail(email: string): Promise<(UserProfile & { hashedPassword?: string }) | null> {
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-      console.error("DATABASE_MODE is postgres but pool is not initialized. Cannot find user by email.");
-      throw new Error("Database service (PostgreSQL) not configured correctly.");
-    }
-    try {
-      const res = await pool.query('SELECT id, email, display_name as "displayName", hashed_password as "hashedPassword", created_at as "createdAt", last_login_at as "lastLoginAt", notify_by_email as "notifyByEmail" FROM app_users WHERE email = $1', [email]);
-      if (res.rows.length === 0) return null;
-      const user = res.rows[0];
-      return {
-        ...user,
-        createdAt: new Date(user.createdAt).getTime(),
-        lastLoginAt: new Date(user.lastLoginAt).getTime(),
-      };
-    } catch (error: any) {
-      console.error('Error finding user by email in PostgreSQL:', error.message);
-      throw error;
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const foundUserEntry = Object.values(db.users).find(u => u.profile.email === email);
-    if (!foundUserEntry) return null;
-    return { ...foundUserEntry.profile, hashedPassword: foundUserEntry.hashedPassword };
+  try {
+    const user = await storage().findUserByEmail(email);
+    if (!user) return null;
+    return { ...user.profile, hashedPassword: user.hashedPassword };
+  } catch (error: any) {
+    console.error('Error finding user by email:', error.message);
+    throw error;
   }
 }
 
 export async function findUserById(userId: string): Promise<UserProfile | null> {
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-      console.error("DATABASE_MODE is postgres but pool is not initialized. Cannot find user by ID.");
-      throw new Error("Database service (PostgreSQL) not configured correctly.");
-    }
-    try {
-      const res = await pool.query('SELECT id, email, display_name as "displayName", created_at as "createdAt", last_login_at as "lastLoginAt", notify_by_email as "notifyByEmail" FROM app_users WHERE id = $1', [userId]);
-      if (res.rows.length === 0) return null;
-      const user = res.rows[0];
-      return {
-        ...user,
-        createdAt: new Date(user.createdAt).getTime(),
-        lastLoginAt: new Date(user.lastLoginAt).getTime(),
-      };
-    } catch (error: any) {
-      console.error('Error finding user by ID in PostgreSQL:', error.message);
-      throw error;
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userData = db.users[userId];
-    if (!userData) return null;
-    return userData.profile;
+  try {
+    const user = await storage().findUserById(userId);
+    return user ? user.profile : null;
+  } catch (error: any) {
+    console.error('Error finding user by ID:', error.message);
+    throw error;
   }
 }
 
 export async function updateUserLastLogin(userId: string): Promise<void> {
-    const now = new Date();
-    if (DATABASE_MODE === 'postgres') {
-      if (!pool) {
-        console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot update last login.");
-        return; 
-      }
-      try {
-          await pool.query('UPDATE app_users SET last_login_at = $1, updated_at = $1 WHERE id = $2', [now, userId]);
-      } catch (error: any) {
-          console.error('Error updating last login in PostgreSQL:', error.message);
-      }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (db.users[userId] && db.users[userId].profile) {
-            db.users[userId].profile.lastLoginAt = now.getTime();
-            await writeDB(db);
-        }
-    }
+  try {
+    await storage().updateUser(userId, { lastLoginAt: Date.now() });
+  } catch (error: any) {
+    console.error('Error updating last login:', error.message);
+  }
 }
 
 export interface UpdateUserDisplayNameResult { success: boolean; user?: UserProfile; error?: string; }
@@ -252,38 +264,13 @@ export async function updateUserDisplayName(userId: string, newDisplayName: stri
   if (!userId) return { success: false, error: "User ID is required." };
   if (!newDisplayName.trim()) return { success: false, error: "Display name cannot be empty." };
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query(
-        'UPDATE app_users SET display_name = $1, updated_at = NOW() WHERE id = $2 RETURNING id, email, display_name, created_at, last_login_at, notify_by_email',
-        [newDisplayName.trim(), userId]
-      );
-      if (res.rowCount === 0) return { success: false, error: "User not found." };
-      const dbUser = res.rows[0];
-      return {
-        success: true,
-        user: {
-          id: dbUser.id,
-          email: dbUser.email,
-          displayName: dbUser.display_name,
-          createdAt: new Date(dbUser.created_at).getTime(),
-          lastLoginAt: new Date(dbUser.last_login_at).getTime(),
-          notifyByEmail: dbUser.notify_by_email,
-        }
-      };
-    } catch (error: any) {
-      console.error("Error updating display name in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating display name." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId] || !db.users[userId].profile) {
-      return { success: false, error: "User not found." };
-    }
-    db.users[userId].profile.displayName = newDisplayName.trim();
-    await writeDB(db);
-    return { success: true, user: db.users[userId].profile };
+  try {
+    const user = await storage().updateUser(userId, { displayName: newDisplayName.trim() });
+    if (!user) return { success: false, error: "User not found." };
+    return { success: true, user: user.profile };
+  } catch (error: any) {
+    console.error("Error updating display name:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating display name.") };
   }
 }
 
@@ -291,36 +278,18 @@ export interface UpdateUserPasswordResult { success: boolean; error?: string; }
 export async function updateUserPassword(userId: string, currentPasswordPlain: string, newPasswordPlain: string): Promise<UpdateUserPasswordResult> {
   if (!userId) return { success: false, error: "User ID is required." };
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const userRes = await pool.query('SELECT hashed_password FROM app_users WHERE id = $1', [userId]);
-      if (userRes.rowCount === 0) return { success: false, error: "User not found." };
-
-      const hashedPasswordFromDb = userRes.rows[0].hashed_password;
-      const isCurrentPasswordValid = await bcrypt.compare(currentPasswordPlain, hashedPasswordFromDb);
-      if (!isCurrentPasswordValid) return { success: false, error: "Invalid current password." };
-
-      const newHashedPassword = await bcrypt.hash(newPasswordPlain, 10);
-      await pool.query('UPDATE app_users SET hashed_password = $1, updated_at = NOW() WHERE id = $2', [newHashedPassword, userId]);
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating password in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating password." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userRecord = db.users[userId];
-    if (!userRecord || !userRecord.profile || !userRecord.hashedPassword) {
-      return { success: false, error: "User not found or no password set." };
-    }
+  try {
+    const user = await storage().findUserById(userId);
+    if (!user || !user.hashedPassword) return { success: false, error: "User not found or no password set." };
 
-    const isCurrentPasswordValid = await bcrypt.compare(currentPasswordPlain, userRecord.hashedPassword);
+    const isCurrentPasswordValid = await bcrypt.compare(currentPasswordPlain, user.hashedPassword);
     if (!isCurrentPasswordValid) return { success: false, error: "Invalid current password." };
 
-    userRecord.hashedPassword = await bcrypt.hash(newPasswordPlain, 10);
-    await writeDB(db);
+    await storage().updateUser(userId, { hashedPassword: await bcrypt.hash(newPasswordPlain, 10) });
     return { success: true };
+  } catch (error: any) {
+    console.error("Error updating password:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating password.") };
   }
 }
 
@@ -328,239 +297,545 @@ export interface UpdateEmailNotificationPrefsResult { success: boolean; user?: U
 export async function updateUserEmailNotificationPreference(userId: string, notifyByEmail: boolean): Promise<UpdateEmailNotificationPrefsResult> {
   if (!userId) return { success: false, error: "User ID is required." };
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query(
-        'UPDATE app_users SET notify_by_email = $1, updated_at = NOW() WHERE id = $2 RETURNING id, email, display_name, created_at, last_login_at, notify_by_email',
-        [notifyByEmail, userId]
-      );
-      if (res.rowCount === 0) return { success: false, error: "User not found." };
-      const dbUser = res.rows[0];
-      return {
-        success: true,
-        user: {
-          id: dbUser.id,
-          email: dbUser.email,
-          displayName: dbUser.display_name,
-          createdAt: new Date(dbUser.created_at).getTime(),
-          lastLoginAt: new Date(dbUser.last_login_at).getTime(),
-          notifyByEmail: dbUser.notify_by_email,
-        }
-      };
-    } catch (error: any) {
-      console.error("Error updating email notification preference in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating email notification preference." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId] || !db.users[userId].profile) {
-      return { success: false, error: "User not found." };
-    }
-    db.users[userId].profile.notifyByEmail = notifyByEmail;
-    await writeDB(db);
-    return { success: true, user: db.users[userId].profile };
+  try {
+    const user = await storage().updateUser(userId, { notifyByEmail });
+    if (!user) return { success: false, error: "User not found." };
+    return { success: true, user: user.profile };
+  } catch (error: any) {
+    console.error("Error updating email notification preference:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating email notification preference.") };
   }
 }
 
+export interface UpdateBaseCurrencyResult { success: boolean; user?: UserProfile; error?: string; }
+/** Changes the currency totals are converted into; existing records keep their own currency. */
+export async function updateUserBaseCurrency(userId: string, baseCurrency: CurrencyCode): Promise<UpdateBaseCurrencyResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!isCurrencyCode(baseCurrency)) return { success: false, error: UNSUPPORTED_CURRENCY };
 
-export interface AddTransactionResult {
-  success: boolean;
-  transactionId?: string;
-  error?: string;
+  try {
+    const user = await storage().updateUser(userId, { baseCurrency });
+    if (!user) return { success: false, error: "User not found." };
+    return { success: true, user: user.profile };
+  } catch (error: any) {
+    console.error("Error updating base currency:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating base currency.") };
+  }
 }
-export const addTransaction = async (userId: string, transactionData: NewTransactionData): Promise<AddTransactionResult> => {
+
+export interface UpdateEnvelopeModeResult { success: boolean; user?: UserProfile; error?: string; }
+/**
+ * Turns envelope budgeting on, counting from `startMonth` (the current month by default), or
+ * off. Assignments are kept while it is off and count again once it is back on.
+ */
+export async function updateUserEnvelopeMode(userId: string, enabled: boolean, startMonth?: string): Promise<UpdateEnvelopeModeResult> {
   if (!userId) return { success: false, error: "User ID is required." };
+  if (typeof enabled !== 'boolean') return { success: false, error: "Enabled must be true or false." };
+  if (startMonth !== undefined && !isMonthString(startMonth)) return { success: false, error: "Start month must be in yyyy-MM format." };
+
+  try {
+    const envelopeStartMonth = enabled ? startMonth ?? formatDateFns(Date.now(), 'yyyy-MM') : null;
+    const user = await storage().updateUser(userId, { envelopeStartMonth });
+    if (!user) return { success: false, error: "User not found." };
+    return { success: true, user: user.profile };
+  } catch (error: any) {
+    console.error("Error updating envelope mode:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating envelope mode.") };
+  }
+}
 
-  const newTransactionId = randomUUID();
-  const now = new Date();
-  const recurrenceFrequency = transactionData.recurrenceFrequency || 'none';
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query(
-        'INSERT INTO transactions (id, user_id, type, amount, category, date, description, recurrence_frequency, receipt_image_uri, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10) RETURNING id', 
-        [
-          newTransactionId, userId, transactionData.type, transactionData.amount,
-          transactionData.category, transactionData.date, transactionData.description || null,
-          recurrenceFrequency, transactionData.receiptImageUri || null, now
-        ]
-      );
-      return { success: true, transactionId: res.rows[0].id };
-    } catch (error: any) {
-      console.error("Error adding transaction to PostgreSQL:", error.message);
-      return { success: false, error: "Database error adding transaction." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]) {
-        console.error(`User ${userId} not found in local DB for addTransaction.`);
-        return { success: false, error: "User not found." };
-    }
-    if (!db.users[userId].transactions) db.users[userId].transactions = [];
-    const nowTs = now.getTime();
-    const newTransaction: Transaction = {
-      id: newTransactionId,
-      userId,
-      type: transactionData.type,
-      amount: transactionData.amount,
-      category: transactionData.category,
-      date: transactionData.date,
-      description: transactionData.description,
-      recurrenceFrequency: recurrenceFrequency,
-      receiptImageUri: transactionData.receiptImageUri,
-      createdAt: nowTs,
-      updatedAt: nowTs,
-    };
-    db.users[userId].transactions.push(newTransaction);
-    await writeDB(db);
-    return { success: true, transactionId: newTransaction.id };
+// --- Accounts ---
+
+const ACCOUNT_TYPES: AccountType[] = ['checking', 'savings', 'cash', 'wallet'];
+
+export interface AddAccountResult { success: boolean; accountId?: string; error?: string; }
+export const addAccount = async (userId: string, accountData: NewAccountData): Promise<AddAccountResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!accountData.name?.trim()) return { success: false, error: "Account name is required." };
+  if (!ACCOUNT_TYPES.includes(accountData.type)) return { success: false, error: "Invalid account type." };
+  if (hasInvalidCurrency(accountData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+
+  const nowTs = Date.now();
+  const newAccount: Account = {
+    id: randomUUID(), userId,
+    name: accountData.name.trim(),
+    type: accountData.type,
+    institution: accountData.institution || null,
+    openingBalance: accountData.openingBalance ?? 0,
+    currency: accountData.currency || await baseCurrencyOf(userId),
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('accounts', newAccount, 'account');
+  return { success: result.success, accountId: result.id, error: result.error };
+};
+
+export async function getAccountsForUser(userId: string): Promise<Account[]> {
+  return listEntity('accounts', userId);
+}
+
+export const updateAccount = async (userId: string, accountId: string, data: UpdateAccountData, expectedVersion?: number): Promise<VersionedUpdateResult<Account>> => {
+  if (!userId || !accountId) return { success: false, error: "User ID and Account ID are required." };
+  if (data.name !== undefined && !data.name.trim()) return { success: false, error: "Account name is required." };
+  if (data.type !== undefined && !ACCOUNT_TYPES.includes(data.type)) return { success: false, error: "Invalid account type." };
+  if (hasInvalidCurrency(data)) return { success: false, error: UNSUPPORTED_CURRENCY };
+
+  if (data.currency) {
+    // The account's transactions were recorded in its current currency.
+    const hasOtherCurrencyTransactions = (await listEntity('transactions', userId))
+      .some(tx => (tx.accountId === accountId || (tx.transferTo === 'account' && tx.transferToId === accountId)) && tx.currency !== data.currency);
+    if (hasOtherCurrencyTransactions) return { success: false, error: "Cannot change the currency of an account that has transactions." };
   }
+
+  return updateEntity('accounts', userId, accountId, {
+    name: data.name?.trim(), type: data.type, institution: data.institution, openingBalance: data.openingBalance, currency: data.currency,
+  }, 'account', expectedVersion);
 };
 
-export async function getTransactionsForUser(userId: string): Promise<Transaction[]> {
-  if (!userId) return [];
+/** Also moves the account's transactions to the trash; restoring the account brings them back. */
+export const deleteAccount = async (userId: string, accountId: string): Promise<UpdateResult> => {
+  if (!userId || !accountId) return { success: false, error: "User ID and Account ID are required." };
+  return deleteEntity('accounts', userId, accountId, 'account');
+};
+
+// --- Reconciliations ---
+
+const COMPLETED_RECONCILIATION = "Completed reconciliations cannot be changed.";
+
+/** The user's reconciliations, latest statement first; with `accountId`, of that account only. */
+export async function getReconciliationsForUser(userId: string, accountId?: string): Promise<Reconciliation[]> {
+  const reconciliations = await listEntity('reconciliations', userId);
+  return accountId ? reconciliations.filter(reconciliation => reconciliation.accountId === accountId) : reconciliations;
+}
+
+/** Checks the statement fields present in `data` and normalizes the balance. */
+function parseReconciliationData(data: Partial<ReconciliationData>): Partial<ReconciliationData> | { error: string } {
+  if (data.statementDate !== undefined && !isDateString(data.statementDate)) return { error: "Statement date must be in yyyy-MM-dd format." };
+  const statementBalance = data.statementBalance === undefined ? undefined : parseMoney(data.statementBalance);
+  if (statementBalance === null) return { error: "Invalid statement balance." };
+  return { statementDate: data.statementDate, statementBalance };
+}
+
+export interface StartReconciliationResult { success: boolean; reconciliation?: Reconciliation; error?: string; }
+
+/** Opens a reconciliation of the account against a statement; an account has at most one open. */
+export async function startReconciliation(userId: string, accountId: string, data: ReconciliationData): Promise<StartReconciliationResult> {
+  if (!userId || !accountId) return { success: false, error: "User ID and Account ID are required." };
+  if (data?.statementDate === undefined || data.statementBalance === undefined) return { success: false, error: "Statement date and balance are required." };
+  const parsed = parseReconciliationData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+  if (!await getRecordForUser(userId, 'accounts', accountId)) return { success: false, error: "Account not found." };
+  if ((await getReconciliationsForUser(userId, accountId)).some(reconciliation => reconciliation.status === 'open')) {
+    return { success: false, error: "The account already has a reconciliation in progress." };
+  }
+
+  const nowTs = Date.now();
+  const reconciliation: Reconciliation = {
+    id: randomUUID(), userId, accountId,
+    statementDate: data.statementDate,
+    statementBalance: parsed.statementBalance as Money,
+    status: 'open',
+    transactionIds: null,
+    completedAt: null,
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('reconciliations', reconciliation, 'reconciliation');
+  return { success: result.success, reconciliation: result.success ? reconciliation : undefined, error: result.error };
+}
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) { 
-      console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get transactions.");
-      return []; 
+/** Changes the statement date or balance of an open reconciliation. */
+export async function updateReconciliation(userId: string, reconciliationId: string, data: Partial<ReconciliationData>, expectedVersion?: number): Promise<VersionedUpdateResult<Reconciliation>> {
+  if (!userId || !reconciliationId) return { success: false, error: "User ID and Reconciliation ID are required." };
+  const parsed = parseReconciliationData(data || {});
+  if ('error' in parsed) return { success: false, error: parsed.error };
+  const current = await getRecordForUser(userId, 'reconciliations', reconciliationId);
+  if (!current) return { success: false, error: "Reconciliation not found." };
+  if (current.status !== 'open') return { success: false, error: COMPLETED_RECONCILIATION };
+  return updateEntity('reconciliations', userId, reconciliationId, parsed, 'reconciliation', expectedVersion);
+}
+
+/**
+ * Locks the account's cleared transactions up to the statement date as reconciled and closes
+ * the reconciliation, all or nothing. Refused while they do not add up to the statement balance.
+ */
+export async function completeReconciliation(userId: string, reconciliationId: string): Promise<VersionedUpdateResult<Reconciliation>> {
+  if (!userId || !reconciliationId) return { success: false, error: "User ID and Reconciliation ID are required." };
+  const reconciliation = await getRecordForUser(userId, 'reconciliations', reconciliationId);
+  if (!reconciliation) return { success: false, error: "Reconciliation not found." };
+  if (reconciliation.status !== 'open') return { success: false, error: COMPLETED_RECONCILIATION };
+  const account = await getRecordForUser(userId, 'accounts', reconciliation.accountId);
+  if (!account) return { success: false, error: "Account not found." };
+
+  try {
+    const transactions = await listEntity('transactions', userId);
+    const { statementDate, statementBalance } = reconciliation;
+    if (reconciliationDifference(account, transactions, statementDate, statementBalance) !== 0) {
+      return { success: false, error: "The cleared transactions do not add up to the statement balance." };
     }
-    try {
-      const res = await pool.query<Transaction>(
-        'SELECT id, user_id as "userId", type, amount, category, date, description, recurrence_frequency as "recurrenceFrequency", created_at as "createdAt", updated_at, receipt_image_uri as "receiptImageUri" FROM transactions WHERE user_id = $1 ORDER BY date DESC, created_at DESC',
-        [userId]
-      );
-      return res.rows.map(tx => ({
-        ...tx,
-        date: formatDateFns(new Date(tx.date), 'yyyy-MM-dd'),
-        amount: Number(tx.amount),
-        recurrenceFrequency: (tx.recurrenceFrequency || 'none') as RecurrenceFrequency,
-        createdAt: new Date(tx.createdAt).getTime(),
-        updatedAt: tx.updatedAt ? new Date(tx.updatedAt).getTime() : new Date(tx.createdAt).getTime(),
-      }));
-    } catch (error: any) {
-      console.error(`Error fetching transactions for user ${userId} from PostgreSQL:`, error.message);
-      return [];
+    const cleared = reconciliationCandidates(account, transactions, statementDate).filter(tx => tx.clearedStatus === 'cleared');
+    const now = Date.now();
+    const before = [...cleared, reconciliation];
+    // Any of them changed since the read above (say, unticked) makes the whole completion a conflict.
+    const update = (entity: 'transactions' | 'reconciliations', record: Transaction | Reconciliation, patch: object): TaggedBatchOperation => {
+      const version = versionOf(record) ?? 0;
+      return { entity, type: 'update', id: record.id, patch: { ...patch, updatedAt: Math.max(now, version + 1) }, expectedUpdatedAt: version } as TaggedBatchOperation;
+    };
+    const result = await storage().applyChanges(userId, [
+      ...cleared.map(tx => update('transactions', tx, { clearedStatus: 'reconciled' })),
+      update('reconciliations', reconciliation, { status: 'completed', transactionIds: cleared.map(tx => tx.id), completedAt: now }),
+    ]);
+    if (!result.applied) {
+      const latest = await getRecordForUser(userId, 'reconciliations', reconciliationId);
+      return { success: false, conflict: !!latest, record: latest ?? undefined, error: "Some transactions were changed during the reconciliation; review it and try again." };
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userData = db.users[userId];
-    if (!userData || !userData.transactions) return [];
-
-    const migratedTransactions = userData.transactions.map(tx => {
-      let frequency = tx.recurrenceFrequency || 'none';
-      const txAsAny = tx as any;
-      if (txAsAny.hasOwnProperty('isRecurring') && typeof txAsAny.isRecurring === 'boolean') {
-          if (txAsAny.isRecurring && frequency === 'none') {
-              frequency = 'monthly';
-          }
-          delete txAsAny.isRecurring;
-      }
-      return { ...tx, recurrenceFrequency: frequency as RecurrenceFrequency, updatedAt: tx.updatedAt || tx.createdAt };
-    });
+    for (const [index, record] of result.records.entries()) {
+      const changed = diffRecords(before[index], record);
+      if (changed.length) await recordHistory(userId, index < cleared.length ? 'transactions' : 'reconciliations', record.id, 'update', changed);
+    }
+    return { success: true, record: result.records[cleared.length] as Reconciliation };
+  } catch (error: any) {
+    console.error("Error completing reconciliation:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error completing reconciliation.") };
+  }
+}
 
-    return migratedTransactions.sort((a, b) => {
-      const dateComparison = new Date(b.date).getTime() - new Date(a.date).getTime();
-      return dateComparison !== 0 ? dateComparison : (b.createdAt || 0) - (a.createdAt || 0);
-    });
+/** Cancels an open reconciliation, removed outright; the transactions ticked in it stay cleared. */
+export async function deleteReconciliation(userId: string, reconciliationId: string): Promise<UpdateResult> {
+  if (!userId || !reconciliationId) return { success: false, error: "User ID and Reconciliation ID are required." };
+  const current = await getRecordForUser(userId, 'reconciliations', reconciliationId);
+  if (!current) return { success: false, error: "Reconciliation not found." };
+  if (current.status !== 'open') return { success: false, error: "Completed reconciliations cannot be removed." };
+  try {
+    const removed = await storage().remove('reconciliations', userId, reconciliationId);
+    if (!removed) return { success: false, error: "Reconciliation not found." };
+    await recordHistory(userId, 'reconciliations', reconciliationId, 'purge');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting reconciliation:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error deleting reconciliation.") };
   }
 }
 
-export const deleteTransaction = async (userId: string, transactionId: string): Promise<UpdateResult> => {
-  if (!userId) return { success: false, error: "User ID is required." };
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query('DELETE FROM transactions WHERE id = $1 AND user_id = $2', [transactionId, userId]);
-      if (res.rowCount === 0) return { success: false, error: "Transaction not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error deleting transaction from PostgreSQL:", error.message);
-      return { success: false, error: "Database error deleting transaction." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId] || !db.users[userId].transactions) return { success: false, error: "User or transactions not found." };
+// --- Transfers ---
 
-    const initialLength = db.users[userId].transactions.length;
-    db.users[userId].transactions = db.users[userId].transactions.filter(tx => tx.id !== transactionId);
-    if (db.users[userId].transactions.length === initialLength) return { success: false, error: "Transaction not found." };
+/** Category given to transfers saved without one; transfers are left out of category reports anyway. */
+const TRANSFER_CATEGORY = 'Transferência';
+const TRANSFER_DESTINATIONS: TransferDestination[] = ['account', 'investment', 'goal'];
 
-    await writeDB(db);
-    return { success: true };
+/** The records a transaction can point at: its account and, for a transfer, its destination. */
+interface TransactionLinks {
+  accounts: Map<string, Account>;
+  investments: Map<string, Investment>;
+  goals: Map<string, FinancialGoal>;
+}
+
+async function transactionLinksOf(userId: string): Promise<TransactionLinks> {
+  const byId = <T extends { id: string }>(records: T[]) => new Map(records.map(record => [record.id, record]));
+  return {
+    accounts: byId(await listEntity('accounts', userId)),
+    investments: byId(await listEntity('investments', userId)),
+    goals: byId(await listEntity('financialGoals', userId)),
+  };
+}
+
+const TRANSACTION_LINK_FIELDS = ['type', 'accountId', 'currency', 'transferTo', 'transferToId', 'recurrenceFrequency'] as const;
+type TransactionLinkFields = Pick<Transaction, typeof TRANSACTION_LINK_FIELDS[number]>;
+
+/**
+ * Checks the account and transfer destination a transaction ends up with and returns the
+ * currency and destination it is saved with: an account's transactions are in the account's
+ * currency (also the default), a transfer is in its destination's currency, and only
+ * transfers keep a destination.
+ */
+function checkTransactionLinks(links: TransactionLinks, tx: TransactionLinkFields): { currency?: CurrencyCode; transferTo: Transaction['transferTo']; transferToId: string | null } | { error: string } {
+  let currency = tx.currency;
+  if (tx.accountId) {
+    const account = links.accounts.get(tx.accountId);
+    if (!account) return { error: "Account not found." };
+    if (currency && currency !== account.currency) return { error: "Transaction currency must match its account's currency." };
+    currency = account.currency;
+  }
+  if (tx.type !== 'transfer') return { currency, transferTo: null, transferToId: null };
+
+  const destinations = { account: links.accounts, investment: links.investments, goal: links.goals };
+  const destination = tx.transferTo && tx.transferToId && TRANSFER_DESTINATIONS.includes(tx.transferTo)
+    ? destinations[tx.transferTo].get(tx.transferToId)
+    : undefined;
+  if (!destination) return { error: "Transfer destination not found." };
+  if (tx.transferTo === 'account' && tx.transferToId === tx.accountId) return { error: "A transfer needs different source and destination accounts." };
+  const destinationCurrency = destination.currency || DEFAULT_CURRENCY;
+  if (currency && currency !== destinationCurrency) return { error: "Transfer currency must match its destination's currency." };
+  if (tx.recurrenceFrequency && tx.recurrenceFrequency !== 'none') return { error: "Transfers cannot be recurring." };
+  return { currency: destinationCurrency, transferTo: tx.transferTo, transferToId: tx.transferToId! };
+}
+
+/** What a transfer into an investment or goal adds to. */
+const destinationField = { investment: { entity: 'investments', field: 'currentValue' }, goal: { entity: 'financialGoals', field: 'currentAmount' } } as const;
+
+/**
+ * Updates that keep investments and goals in step with the transfers into them: `removed`
+ * are transactions as they were before a write (or being trashed), `added` as they are
+ * after it (or being created or restored). Accounts need none, as their balance is
+ * derived from transactions; destinations in the trash keep their value.
+ */
+async function transferDestinationUpdates(userId: string, removed: Transaction[], added: Transaction[]): Promise<LinkedUpdate[]> {
+  const deltas = new Map<string, { to: keyof typeof destinationField; id: string; delta: Money }>();
+  const collect = (tx: Transaction, add: boolean) => {
+    if (tx.type !== 'transfer' || !tx.transferToId || (tx.transferTo !== 'investment' && tx.transferTo !== 'goal')) return;
+    const key = `${tx.transferTo}:${tx.transferToId}`;
+    const entry = deltas.get(key) || { to: tx.transferTo, id: tx.transferToId, delta: 0 };
+    entry.delta = add ? addMoney(entry.delta, tx.amount) : subtractMoney(entry.delta, tx.amount);
+    deltas.set(key, entry);
+  };
+  removed.forEach(tx => collect(tx, false));
+  added.forEach(tx => collect(tx, true));
+
+  const now = Date.now();
+  const updates: LinkedUpdate[] = [];
+  for (const { to, id, delta } of deltas.values()) {
+    if (delta === 0) continue;
+    const { entity, field } = destinationField[to];
+    const before: any = await storage().get(entity, userId, id);
+    if (!before || before.deletedAt) continue;
+    const version = versionOf(before) ?? 0;
+    const patch = { [field]: addMoney(before[field] ?? 0, delta), updatedAt: Math.max(now, version + 1) };
+    updates.push({ before, operation: { entity, type: 'update', id, patch, expectedUpdatedAt: version } as TaggedBatchOperation });
+  }
+  return updates;
+}
+
+// --- Category splits ---
+
+/**
+ * The category and splits a transaction or purchase is saved with. Splits set the category to
+ * their first line's; a category given without splits replaces any split; kept splits must
+ * still add up to a changed `total`. `current` is null for new records.
+ */
+function resolveSplits(current: { category: string; splits?: CategorySplit[] | null } | null, changes: { category?: string; splits?: CategorySplit[] | null }, total: Money): { category: string; splits: CategorySplit[] | null } | { error: string } {
+  const splits = changes.splits !== undefined ? changes.splits
+    : changes.category !== undefined ? null
+    : current?.splits ?? null;
+  if (!splits?.length) return { category: (changes.category ?? current?.category)!, splits: null };
+  const error = splitsError(splits, total);
+  if (error) return { error };
+  const lines = normalizeSplits(splits);
+  return { category: lines[0].category, splits: lines };
+}
+
+/** resolveSplits for a transaction; transfers cannot be split. */
+function resolveTransactionSplits(current: Transaction | null, changes: UpdateTransactionData): ReturnType<typeof resolveSplits> {
+  const resolved = resolveSplits(current, changes, changes.amount ?? current?.amount ?? 0);
+  if (!('error' in resolved) && resolved.splits && (changes.type ?? current?.type) === 'transfer') return { error: "Transfers cannot be split." };
+  return resolved;
+}
+
+const SPLIT_FIELDS = ['category', 'splits'] as const;
+
+const RECURRENCE_FIELDS = ['recurrenceFrequency', 'recurrenceInterval', 'recurrenceEndDate', 'recurrenceCount', 'recurrenceDayRule', 'recurrenceWeekendShift'] as const;
+
+const INVALID_CLEARED_STATUS = "Transactions can only be marked as cleared; completing a reconciliation reconciles them.";
+const RECONCILED_LOCKED = "Reconciled transactions are locked; mark them as not reconciled first.";
+/** Every field of a transaction update but clearedStatus, which alone can unlock a reconciled transaction. */
+const RECONCILED_LOCKED_FIELDS = [
+  'type', 'amount', 'currency', 'accountId', 'transferTo', 'transferToId', 'category', 'splits', 'tagIds', 'payeeId', 'date', 'description', ...RECURRENCE_FIELDS, 'receiptImageUri',
+] as const;
+
+const isClearedStatusInput = (value: unknown) => value === undefined || value === null || value === 'cleared';
+
+/** Why `changes` cannot be applied to `current`, locked by a completed reconciliation, or null. */
+function reconciledLockError(current: Transaction, changes: UpdateTransactionData): string | null {
+  if (current.clearedStatus !== 'reconciled') return null;
+  return RECONCILED_LOCKED_FIELDS.some(field => changes[field] !== undefined) ? RECONCILED_LOCKED : null;
+}
+
+/** The recurrence rule a transaction is saved with: `changes` over `current`, checked and normalized. */
+function resolveRecurrence(current: Transaction | null, changes: UpdateTransactionData): ReturnType<typeof normalizeRecurrenceRule> | { error: string } {
+  const rule = withChanges<RecurrenceRule>({ date: current?.date ?? '', ...(current && normalizeRecurrenceRule(current)) }, changes);
+  const error = recurrenceRuleError(rule);
+  return error ? { error } : normalizeRecurrenceRule(rule);
+}
+
+export interface AddTransactionResult {
+  success: boolean;
+  transactionId?: string;
+  error?: string;
+}
+export const addTransaction = async (userId: string, transactionData: NewTransactionData): Promise<AddTransactionResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (hasInvalidCurrency(transactionData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  if (!isClearedStatusInput(transactionData.clearedStatus)) return { success: false, error: INVALID_CLEARED_STATUS };
+  const links = checkTransactionLinks(await transactionLinksOf(userId), transactionData);
+  if ('error' in links) return { success: false, error: links.error };
+  const split = resolveTransactionSplits(null, {
+    ...transactionData, category: transactionData.type === 'transfer' ? transactionData.category || TRANSFER_CATEGORY : transactionData.category,
+  });
+  if ('error' in split) return { success: false, error: split.error };
+  const tags = checkTagIds(transactionData.tagIds ?? null, await tagIdsOf(userId));
+  if ('error' in tags) return { success: false, error: tags.error };
+  const payee = resolvePayee(transactionData.payeeId, transactionData.description, await listEntity('payees', userId));
+  if ('error' in payee) return { success: false, error: payee.error };
+  const recurrence = resolveRecurrence(null, transactionData);
+  if ('error' in recurrence) return { success: false, error: recurrence.error };
+  const id = randomUUID();
+  const receipt = await moveInlineReceipt(userId, id, transactionData.receiptImageUri);
+  if ('error' in receipt) return { success: false, error: receipt.error };
+
+  const nowTs = Date.now();
+  const newTransaction: Transaction = {
+    id,
+    userId,
+    type: transactionData.type,
+    amount: transactionData.amount,
+    currency: links.currency || await baseCurrencyOf(userId),
+    accountId: transactionData.accountId || null,
+    transferTo: links.transferTo,
+    transferToId: links.transferToId,
+    category: split.category,
+    splits: split.splits,
+    tagIds: tags.tagIds,
+    payeeId: payee.payeeId,
+    date: transactionData.date,
+    description: transactionData.description,
+    ...recurrence,
+    clearedStatus: transactionData.clearedStatus || null,
+    receiptImageUri: receipt.receiptImageUri,
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('transactions', newTransaction, 'transaction');
+  if (!result.success && receipt.attachmentId) await deleteAttachment(userId, receipt.attachmentId);
+  return { success: result.success, transactionId: result.id, error: result.error };
+};
+
+export async function getTransactionsForUser(userId: string): Promise<Transaction[]> {
+  return listEntity('transactions', userId);
+}
+
+/** One page of the user's transactions; pass the returned nextCursor back to get the next one. */
+export async function queryTransactionsForUser(userId: string, query: TransactionQuery = {}): Promise<TransactionPageResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  const invalidDate = [query.from, query.to].some(date => date !== undefined && !isDateString(date));
+  if (invalidDate) return { success: false, error: "Invalid date filter. Use yyyy-MM-dd." };
+  if (query.minAmount !== undefined && query.maxAmount !== undefined && query.minAmount > query.maxAmount) {
+    return { success: false, error: "Minimum amount cannot be greater than maximum amount." };
+  }
+  if (query.cursor && !decodeCursor(query.cursor, query.sortBy)) return { success: false, error: "Invalid cursor." };
+  try {
+    return { success: true, page: await storage().queryTransactions(userId, { ...query, search: query.search?.trim() || undefined }) };
+  } catch (error: any) {
+    console.error(`Error querying transactions for user ${userId}:`, error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error fetching transactions.") };
   }
+}
+
+/** Reconciled transactions are refused until marked as not reconciled. */
+export const deleteTransaction = async (userId: string, transactionId: string): Promise<UpdateResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if ((await getRecordForUser(userId, 'transactions', transactionId))?.clearedStatus === 'reconciled') return { success: false, error: RECONCILED_LOCKED };
+  return deleteEntity('transactions', userId, transactionId, 'transaction');
 };
 
-export const updateTransaction = async (userId: string, transactionId: string, data: UpdateTransactionData): Promise<UpdateResult> => {
+export const updateTransaction = async (userId: string, transactionId: string, data: UpdateTransactionData, expectedVersion?: number): Promise<VersionedUpdateResult<Transaction>> => {
   if (!userId || !transactionId) return { success: false, error: "User ID and Transaction ID are required." };
-
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(data) as Array<keyof UpdateTransactionData>).forEach(key => {
-        if (data[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateTransactionData, string> = {
-            type: 'type', amount: 'amount', category: 'category', date: 'date',
-            description: 'description', recurrenceFrequency: 'recurrence_frequency', receiptImageUri: 'receipt_image_uri',
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(data[key] === null ? null : data[key]); // Handle explicit nulls
-        }
-      });
-      
-      if (fields.length === 0) return { success: true, error: 'No fields to update.' };
-
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
-      
-      values.push(transactionId); 
-      values.push(userId); 
-
-      const query = `UPDATE transactions SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      
-      const res = await pool.query(query, values);
-
-      if (res.rowCount === 0) return { success: false, error: "Transaction not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating transaction in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating transaction." };
+  if (hasInvalidCurrency(data)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  if (!isClearedStatusInput(data.clearedStatus)) return { success: false, error: INVALID_CLEARED_STATUS };
+  const current = await getRecordForUser(userId, 'transactions', transactionId);
+  if (!current) return { success: false, error: "Transaction not found." };
+  const locked = reconciledLockError(current, data);
+  if (locked) return { success: false, error: locked };
+
+  let { currency, transferTo, transferToId, category, splits } = data;
+  let recurrence: Partial<ReturnType<typeof normalizeRecurrenceRule>> = {};
+  const linksChanged = TRANSACTION_LINK_FIELDS.some(field => data[field] !== undefined);
+  const splitsChanged = [...SPLIT_FIELDS, 'amount', 'type'].some(field => data[field as keyof UpdateTransactionData] !== undefined);
+  const recurrenceChanged = [...RECURRENCE_FIELDS, 'date'].some(field => data[field as keyof UpdateTransactionData] !== undefined);
+  if (linksChanged || splitsChanged || recurrenceChanged) {
+    if (linksChanged) {
+      const links = checkTransactionLinks(await transactionLinksOf(userId), withChanges(current, data));
+      if ('error' in links) return { success: false, error: links.error };
+      ({ currency, transferTo, transferToId } = links);
+    }
+    const split = resolveTransactionSplits(current, data);
+    if ('error' in split) return { success: false, error: split.error };
+    ({ category, splits } = split);
+    if (recurrenceChanged) {
+      const resolved = resolveRecurrence(current, data);
+      if ('error' in resolved) return { success: false, error: resolved.error };
+      recurrence = resolved;
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.transactions) return { success: false, error: "User or transactions not found." };
-
-    const txIndex = db.users[userId].transactions.findIndex(tx => tx.id === transactionId);
-    if (txIndex === -1) return { success: false, error: "Transaction not found." };
-
-    const existingTx = db.users[userId].transactions[txIndex];
-    const updatedTx: Transaction = {
-      ...existingTx,
-      ...data, 
-      date: data.date ? data.date : existingTx.date, 
-      amount: data.amount !== undefined ? data.amount : existingTx.amount,
-      type: data.type !== undefined ? data.type : existingTx.type,
-      category: data.category !== undefined ? data.category : existingTx.category,
-      recurrenceFrequency: data.recurrenceFrequency !== undefined ? data.recurrenceFrequency : (existingTx.recurrenceFrequency || 'none'),
-      description: data.description !== undefined ? (data.description === null ? undefined : data.description) : existingTx.description,
-      receiptImageUri: data.receiptImageUri !== undefined ? data.receiptImageUri : existingTx.receiptImageUri,
-      updatedAt: Date.now(),
-    };
-    
-    db.users[userId].transactions[txIndex] = updatedTx;
-    await writeDB(db);
-    return { success: true };
   }
+  const tags = data.tagIds === undefined ? null
+    : checkTagIds(data.tagIds, await tagIdsOf(userId), current.tagIds);
+  if (tags && 'error' in tags) return { success: false, error: tags.error };
+  const payee = data.payeeId === undefined ? null
+    : resolvePayee(data.payeeId, undefined, await listEntity('payees', userId), current.payeeId);
+  if (payee && 'error' in payee) return { success: false, error: payee.error };
+  const receipt = await moveInlineReceipt(userId, transactionId, data.receiptImageUri);
+  if ('error' in receipt) return { success: false, error: receipt.error };
+
+  const result = await updateEntity('transactions', userId, transactionId, {
+    type: data.type,
+    amount: data.amount,
+    currency,
+    accountId: data.accountId === undefined ? undefined : data.accountId || null,
+    transferTo,
+    transferToId,
+    category,
+    splits,
+    tagIds: tags?.tagIds,
+    payeeId: payee?.payeeId,
+    date: data.date,
+    description: data.description as string | undefined,
+    ...recurrence,
+    clearedStatus: data.clearedStatus === undefined ? undefined : data.clearedStatus || null,
+    receiptImageUri: receipt.receiptImageUri,
+  }, 'transaction', expectedVersion);
+  if (!result.success && receipt.attachmentId) await deleteAttachment(userId, receipt.attachmentId);
+  return result;
 };
 
+// --- Occurrences of recurring transactions ---
+
+const OCCURRENCE_STATUSES = ['pending', 'paid', 'skipped'];
+
+/** What was recorded about occurrences of the user's recurring transactions; with `transactionId`, of that one only. */
+export async function getRecurrenceOccurrencesForUser(userId: string, transactionId?: string): Promise<RecurrenceOccurrence[]> {
+  const occurrences = await listEntity('recurrenceOccurrences', userId);
+  return transactionId ? occurrences.filter(occurrence => occurrence.transactionId === transactionId) : occurrences;
+}
+
+/**
+ * Records what became of the occurrence of a recurring transaction the rule puts on
+ * `scheduledDate`: paid (on `date`, for `amount`), skipped, or pending, when it can still be
+ * rescheduled to `date` or adjusted to `amount`. Replaces what was recorded for it before.
+ * Unset `date` and `amount` mean the scheduled date and the transaction's amount.
+ */
+export async function setRecurrenceOccurrence(userId: string, transactionId: string, scheduledDate: string, data: OccurrenceStateData, expectedVersion?: number): Promise<VersionedUpdateResult<RecurrenceOccurrence>> {
+  if (!userId || !transactionId) return { success: false, error: "User ID and Transaction ID are required." };
+  if (!OCCURRENCE_STATUSES.includes(data.status)) return { success: false, error: "Invalid occurrence status." };
+  const skipped = data.status === 'skipped';
+  const date = skipped ? null : data.date || null;
+  const amount = skipped || data.amount == null ? null : parseMoney(data.amount);
+  if (date !== null && !isDateString(date)) return { success: false, error: "Date must be in yyyy-MM-dd format." };
+  if (!skipped && data.amount != null && (amount === null || amount <= 0)) return { success: false, error: "Amount must be a positive number." };
+
+  const transaction = await getRecordForUser(userId, 'transactions', transactionId);
+  if (!transaction) return { success: false, error: "Transaction not found." };
+  if (!transaction.recurrenceFrequency || transaction.recurrenceFrequency === 'none') return { success: false, error: "Only recurring transactions have occurrences." };
+  if (!isOccurrenceOf(transaction, scheduledDate)) return { success: false, error: "The transaction does not occur on this date." };
+
+  const existing = (await getRecurrenceOccurrencesForUser(userId, transactionId)).find(occurrence => occurrence.scheduledDate === scheduledDate);
+  if (existing) return updateEntity('recurrenceOccurrences', userId, existing.id, { status: data.status, date, amount }, 'occurrence', expectedVersion);
+
+  const nowTs = Date.now();
+  const newOccurrence: RecurrenceOccurrence = { id: randomUUID(), userId, transactionId, scheduledDate, status: data.status, date, amount, createdAt: nowTs, updatedAt: nowTs };
+  const result = await insertEntity('recurrenceOccurrences', newOccurrence, 'occurrence');
+  return { success: result.success, record: result.success ? newOccurrence : undefined, error: result.error };
+}
+
 
 export async function getFinancialDataForUser(userId: string): Promise<FinancialDataInput | null> {
   if (!userId) return null;
@@ -569,16 +844,22 @@ export async function getFinancialDataForUser(userId: string): Promise<Financial
   const userLoans = await getLoansForUser(userId);
   const userCreditCards = await getCreditCardsForUser(userId);
   const userInvestments = await getInvestmentsForUser(userId);
+  const baseCurrency = await baseCurrencyOf(userId);
+  // Amounts without a rate to the base currency count as zero rather than being added as if they were in it.
+  const converter = createCurrencyConverter(baseCurrency, await getExchangeRatesForUser(userId));
 
   try {
     const expensesByCategory: { [category: string]: number } = {};
     let totalIncomeThisMonth = 0;
 
     userTransactions.forEach(tx => {
+      const amount = converter.toBase(tx.amount, tx.currency, tx.date);
       if (tx.type === 'expense') {
-        expensesByCategory[tx.category] = (expensesByCategory[tx.category] || 0) + tx.amount;
+        for (const line of categoryLines(tx, amount)) {
+          expensesByCategory[line.category] = addMoney(expensesByCategory[line.category] || 0, line.amount);
+        }
       } else if (tx.type === 'income') {
-        totalIncomeThisMonth += tx.amount;
+        totalIncomeThisMonth = addMoney(totalIncomeThisMonth, amount);
       }
     });
 
@@ -589,28 +870,30 @@ export async function getFinancialDataForUser(userId: string): Promise<Financial
 
     const incomeForAI = totalIncomeThisMonth > 0 ? totalIncomeThisMonth : 5000; // Default if no income
 
+    // Loans and cards have no currency of their own; they are in reais.
     const loansForAI = userLoans.map(loan => ({
       description: `${loan.bankName} - ${loan.description}`,
-      amount: loan.installmentAmount * loan.installmentsCount, // Total loan amount
+      amount: converter.toBase(multiplyMoney(loan.installmentAmount, loan.installmentsCount), DEFAULT_CURRENCY), // Total loan amount
       interestRate: 0, // Assuming not tracked, provide 0 or a default
-      monthlyPayment: loan.installmentAmount,
+      monthlyPayment: converter.toBase(loan.installmentAmount, DEFAULT_CURRENCY),
     }));
 
     const investmentsForAI = userInvestments.map(inv => ({
         name: inv.name,
         type: inv.type as string, 
-        currentValue: inv.currentValue,
-        initialAmount: inv.initialAmount,
+        currentValue: converter.toBase(inv.currentValue, inv.currency),
+        initialAmount: inv.initialAmount == null ? inv.initialAmount : converter.toBase(inv.initialAmount, inv.currency, inv.acquisitionDate || undefined),
         symbol: inv.symbol,
     }));
 
     return {
+      currency: baseCurrency,
       income: incomeForAI,
       expenses: expensesArray,
       loans: loansForAI,
       creditCards: userCreditCards.map(cc => ({
         name: cc.name,
-        limit: cc.limit,
+        limit: converter.toBase(cc.limit, DEFAULT_CURRENCY),
         balance: 0, 
         dueDate: `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}-${String(cc.dueDateDay).padStart(2, '0')}`
       })),
@@ -622,6 +905,41 @@ export async function getFinancialDataForUser(userId: string): Promise<Financial
   }
 }
 
+export interface CashFlowForecastResult {
+  success: boolean;
+  forecast?: CashFlowForecast & { currency: CurrencyCode; missingCurrencies: CurrencyCode[] };
+  error?: string;
+}
+
+/**
+ * The user's daily balance for the next `months` months, in the base currency (see
+ * cashFlowForecast). `missingCurrencies` lists those left out for lack of a rate.
+ */
+export async function getCashFlowForecast(userId: string, months: number = DEFAULT_FORECAST_MONTHS): Promise<CashFlowForecastResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!isForecastMonths(months)) return { success: false, error: `Months must be a whole number from ${MIN_FORECAST_MONTHS} to ${MAX_FORECAST_MONTHS}.` };
+
+  try {
+    const [accounts, transactions, occurrenceStates, creditCards, creditCardPurchases, loans, goals, rates] = await Promise.all([
+      getAccountsForUser(userId),
+      getTransactionsForUser(userId),
+      getRecurrenceOccurrencesForUser(userId),
+      getCreditCardsForUser(userId),
+      getCreditCardPurchasesForUser(userId),
+      getLoansForUser(userId),
+      getFinancialGoalsForUser(userId),
+      getExchangeRatesForUser(userId),
+    ]);
+    const baseCurrency = await baseCurrencyOf(userId);
+    const converter = createCurrencyConverter(baseCurrency, rates);
+    const forecast = cashFlowForecast({ accounts, transactions, occurrenceStates, creditCards, creditCardPurchases, loans, goals }, converter.toBase, new Date(), months);
+    return { success: true, forecast: { ...forecast, currency: baseCurrency, missingCurrencies: [...converter.missing] } };
+  } catch (error: any) {
+    console.error("Error computing cash-flow forecast:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error computing cash-flow forecast.") };
+  }
+}
+
 export interface AddLoanResult { success: boolean; loanId?: string; error?: string; }
 export const addLoan = async (userId: string, loanData: NewLoanData): Promise<AddLoanResult> => {
    if (!userId) return { success: false, error: "User ID is required." };
@@ -629,1171 +947,1390 @@ export const addLoan = async (userId: string, loanData: NewLoanData): Promise<Ad
     const endDateObj = addMonths(startDateObj, loanData.installmentsCount -1);
     const calculatedEndDate = formatDateFns(endDateObj, 'yyyy-MM-dd');
 
-    const newLoanId = randomUUID();
-    const now = new Date();
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-        try {
-            const res = await pool.query(
-                'INSERT INTO loans (id, user_id, bank_name, description, installment_amount, installments_count, start_date, end_date, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9) RETURNING id', 
-                [newLoanId, userId, loanData.bankName, loanData.description, loanData.installmentAmount, loanData.installmentsCount, loanData.startDate, calculatedEndDate, now]
-            );
-            return { success: true, loanId: res.rows[0].id };
-        } catch (error: any) {
-            console.error("Error adding loan to PostgreSQL:", error.message);
-            return { success: false, error: "Database error adding loan." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId]) {
-             console.error(`User ${userId} not found in local DB for addLoan.`);
-             return { success: false, error: "User not found." };
-        }
-        if (!db.users[userId].loans) db.users[userId].loans = [];
-        const nowTs = now.getTime();
-        const newLoan: Loan = {
-            id: newLoanId, userId, ...loanData, endDate: calculatedEndDate, createdAt: nowTs, updatedAt: nowTs,
-        };
-        db.users[userId].loans.push(newLoan);
-        await writeDB(db);
-        return { success: true, loanId: newLoan.id };
-    }
+    const nowTs = Date.now();
+    const newLoan: Loan = {
+        id: randomUUID(), userId, ...loanData, endDate: calculatedEndDate, createdAt: nowTs, updatedAt: nowTs,
+    };
+    const result = await insertEntity('loans', newLoan, 'loan');
+    return { success: result.success, loanId: result.id, error: result.error };
 };
 
 export async function getLoansForUser(userId: string): Promise<Loan[]> {
-    if (!userId) return [];
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) {
-            console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get loans.");
-            return []; 
-        }
-        try {
-            const res = await pool.query<Loan>(
-                'SELECT id, user_id as "userId", bank_name as "bankName", description, installment_amount as "installmentAmount", installments_count as "installmentsCount", start_date as "startDate", end_date as "endDate", created_at as "createdAt", updated_at FROM loans WHERE user_id = $1 ORDER BY start_date ASC, created_at DESC',
-                [userId]
-            );
-            return res.rows.map(loan => ({
-                ...loan,
-                startDate: formatDateFns(new Date(loan.startDate), 'yyyy-MM-dd'),
-                endDate: formatDateFns(new Date(loan.endDate), 'yyyy-MM-dd'),
-                installmentAmount: Number(loan.installmentAmount),
-                installmentsCount: Number(loan.installmentsCount),
-                createdAt: new Date(loan.createdAt).getTime(),
-                updatedAt: loan.updatedAt ? new Date(loan.updatedAt).getTime() : new Date(loan.createdAt).getTime(),
-            }));
-        } catch (error:any) {
-            console.error(`Error fetching loans for user ${userId} from PG:`, error.message); return [];
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        const userData = db.users[userId];
-        if (!userData || !userData.loans) return [];
-        return userData.loans.map(l => ({...l, updatedAt: l.updatedAt || l.createdAt})).sort((a,b) => parseISO(a.startDate).getTime() - parseISO(b.startDate).getTime());
-    }
+    return listEntity('loans', userId);
 }
 
-export const updateLoan = async (userId: string, loanId: string, data: UpdateLoanData): Promise<UpdateResult> => {
+export const updateLoan = async (userId: string, loanId: string, data: UpdateLoanData, expectedVersion?: number): Promise<VersionedUpdateResult<Loan>> => {
   if (!userId || !loanId) return { success: false, error: "User ID and Loan ID are required." };
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const currentLoanRes = await pool.query(
-        'SELECT start_date, installments_count FROM loans WHERE id = $1 AND user_id = $2',
-        [loanId, userId]
-      );
-      if (currentLoanRes.rowCount === 0) {
-        return { success: false, error: "Loan not found or not owned by user." };
-      }
-      const currentLoan = {
-        startDate: formatDateFns(new Date(currentLoanRes.rows[0].start_date), 'yyyy-MM-dd'),
-        installmentsCount: parseInt(currentLoanRes.rows[0].installments_count)
-      };
-      
-      let newEndDate = currentLoan.startDate; // Will be recalculated based on potentially new startDate/installmentsCount
-      if (data.startDate || data.installmentsCount !== undefined) {
-        const newStartDateForCalc = data.startDate || currentLoan.startDate;
-        const newInstallmentsCountForCalc = data.installmentsCount !== undefined ? data.installmentsCount : currentLoan.installmentsCount;
-        if (newInstallmentsCountForCalc < 1) return { success: false, error: "Installments count must be positive." };
-        newEndDate = formatDateFns(addMonths(parseISO(newStartDateForCalc), newInstallmentsCountForCalc - 1), 'yyyy-MM-dd');
-      } else {
-        // If neither startDate nor installmentsCount is being updated, endDate remains derived from current values in DB
-         newEndDate = formatDateFns(addMonths(parseISO(currentLoan.startDate), currentLoan.installmentsCount - 1), 'yyyy-MM-dd');
-      }
+  let currentLoan: Loan | null;
+  try {
+    currentLoan = await storage().get('loans', userId, loanId);
+  } catch (error: any) {
+    console.error("Error loading loan for update:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error updating loan.") };
+  }
+  if (!currentLoan) return { success: false, error: "Loan not found." };
 
-
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(data) as Array<keyof UpdateLoanData>).forEach(key => {
-        if (data[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateLoanData, string> = {
-            bankName: 'bank_name', description: 'description', installmentAmount: 'installment_amount',
-            installmentsCount: 'installments_count', startDate: 'start_date'
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(data[key]);
-        }
-      });
-      
-      fields.push(`end_date = $${queryIndex++}`); // Always set endDate, recalculated or from current
-      values.push(newEndDate);
-      
-      if (fields.length === 1 && fields[0].startsWith('end_date')) { // Only endDate was added (no actual data change other than calculated)
-           // This can happen if only non-data fields or no fields were passed, but endDate is always set.
-           // If only end_date is set (meaning no actual data fields changed, and startDate/installmentsCount weren't in `data`),
-           // we still need to update `updated_at`.
-      } else if (fields.length === 0){
-           return { success: true, error: 'No fields to update.' }; // Should not happen if endDate is always added
-      }
-
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
-      
-      values.push(loanId); 
-      values.push(userId); 
-
-      const query = `UPDATE loans SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      const res = await pool.query(query, values);
-
-      if (res.rowCount === 0) return { success: false, error: "Loan not found or not owned by user (after field prep)." }; // Should be caught earlier
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating loan in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating loan." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.loans) return { success: false, error: "User or loans not found." };
-    const loanIndex = db.users[userId].loans.findIndex(l => l.id === loanId);
-    if (loanIndex === -1) return { success: false, error: "Loan not found." };
-
-    const currentLoan = db.users[userId].loans[loanIndex];
-    
-    // Prepare an object with only the fields that are actually being updated from `data`
-    const loanUpdates: Partial<Loan> = {};
-    if (data.bankName !== undefined) loanUpdates.bankName = data.bankName;
-    if (data.description !== undefined) loanUpdates.description = data.description;
-    if (data.installmentAmount !== undefined) loanUpdates.installmentAmount = data.installmentAmount;
-    if (data.startDate !== undefined) loanUpdates.startDate = data.startDate;
-    if (data.installmentsCount !== undefined) loanUpdates.installmentsCount = data.installmentsCount;
-
-    // Determine the final startDate and installmentsCount for endDate calculation
-    const finalStartDate = loanUpdates.startDate || currentLoan.startDate;
-    const finalInstallmentsCount = loanUpdates.installmentsCount !== undefined ? loanUpdates.installmentsCount : currentLoan.installmentsCount;
-
-    // Recalculate endDate if startDate or installmentsCount changed or were part of the update
-    if (data.startDate || data.installmentsCount !== undefined) {
-        if (finalInstallmentsCount < 1) {
-            return { success: false, error: "Installments count must be positive." };
-        }
-        loanUpdates.endDate = formatDateFns(addMonths(parseISO(finalStartDate), finalInstallmentsCount - 1), 'yyyy-MM-dd');
-    } else {
-        // If neither startDate nor installmentsCount are in `data`, endDate does not change unless it was never set correctly
-        loanUpdates.endDate = currentLoan.endDate; 
-    }
-
-    loanUpdates.updatedAt = Date.now();
-
-    // Merge existing loan with the specific updates
-    db.users[userId].loans[loanIndex] = {
-      ...currentLoan,
-      ...loanUpdates,
-    };
-    
-    await writeDB(db);
-    return { success: true };
+  // endDate is derived from the final startDate and installmentsCount, whichever of them changed.
+  const finalStartDate = data.startDate || currentLoan.startDate;
+  const finalInstallmentsCount = data.installmentsCount !== undefined ? data.installmentsCount : currentLoan.installmentsCount;
+  if (finalInstallmentsCount < 1) {
+    return { success: false, error: "Installments count must be positive." };
   }
+
+  return updateEntity('loans', userId, loanId, {
+    bankName: data.bankName,
+    description: data.description,
+    installmentAmount: data.installmentAmount,
+    installmentsCount: data.installmentsCount,
+    startDate: data.startDate,
+    endDate: formatDateFns(addMonths(parseISO(finalStartDate), finalInstallmentsCount - 1), 'yyyy-MM-dd'),
+  }, 'loan', expectedVersion);
 };
 
 
 export const deleteLoan = async (userId: string, loanId: string): Promise<UpdateResult> => {
     if (!userId) return { success: false, error: "User ID required." };
-    if (DATABASE_MODE === 'postgres') {
-       if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-       try {
-            const res = await pool.query('DELETE FROM loans WHERE id = $1 AND user_id = $2', [loanId, userId]);
-            if (res.rowCount === 0) return { success: false, error: "Loan not found or not owned by user." };
-            return { success: true };
-        } catch (error: any) {
-            console.error("Error deleting loan from PostgreSQL:", error.message);
-            return { success: false, error: "Database error deleting loan." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId] || !db.users[userId].loans) return { success: false, error: "User loans not found."};
-        const initialLength = db.users[userId].loans.length;
-        db.users[userId].loans = db.users[userId].loans.filter(l => l.id !== loanId);
-        if (db.users[userId].loans.length === initialLength) return { success: false, error: "Loan not found."};
-        await writeDB(db);
-        return { success: true };
-    }
+    return deleteEntity('loans', userId, loanId, 'loan');
 };
 
 export interface AddCreditCardResult { success: boolean; creditCardId?: string; error?: string; }
 export const addCreditCard = async (userId: string, cardData: NewCreditCardData): Promise<AddCreditCardResult> => {
     if (!userId) return { success: false, error: "User ID required." };
-    const newCardId = randomUUID();
-    const now = new Date();
-    if (DATABASE_MODE === 'postgres') {
-       if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-       try {
-            const res = await pool.query(
-                'INSERT INTO credit_cards (id, user_id, name, limit_amount, due_date_day, closing_date_day, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $7) RETURNING id', 
-                [newCardId, userId, cardData.name, cardData.limit, cardData.dueDateDay, cardData.closingDateDay, now]
-            );
-            return { success: true, creditCardId: res.rows[0].id };
-        } catch (error: any) {
-            console.error("Error adding credit card to PostgreSQL:", error.message);
-            return { success: false, error: "Database error adding credit card." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId]) {
-            console.error(`User ${userId} not found in local DB for addCreditCard.`);
-            return { success: false, error: "User not found." };
-        }
-        if (!db.users[userId].creditCards) db.users[userId].creditCards = [];
-        const nowTs = now.getTime();
-        const newCard: CreditCard = { id: newCardId, userId, ...cardData, createdAt: nowTs, updatedAt: nowTs };
-        db.users[userId].creditCards.push(newCard);
-        await writeDB(db);
-        return { success: true, creditCardId: newCardId };
-    }
+    const nowTs = Date.now();
+    const newCard: CreditCard = { id: randomUUID(), userId, ...cardData, createdAt: nowTs, updatedAt: nowTs };
+    const result = await insertEntity('creditCards', newCard, 'credit card');
+    return { success: result.success, creditCardId: result.id, error: result.error };
 };
 
 export async function getCreditCardsForUser(userId: string): Promise<CreditCard[]> {
-     if (!userId) return [];
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) {
-            console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get credit cards.");
-            return []; 
-        }
-        try {
-            const res = await pool.query<CreditCard>('SELECT id, user_id as "userId", name, limit_amount as "limit", due_date_day as "dueDateDay", closing_date_day as "closingDateDay", created_at as "createdAt", updated_at FROM credit_cards WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
-            return res.rows.map(cc => ({ ...cc, limit: Number(cc.limit), createdAt: new Date(cc.createdAt).getTime(), updatedAt: cc.updatedAt ? new Date(cc.updatedAt).getTime() : new Date(cc.createdAt).getTime() }));
-        } catch (error: any) {
-            console.error(`Error fetching credit cards for user ${userId} from PG:`, error.message); return [];
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        const userData = db.users[userId];
-        if (!userData || !userData.creditCards) return [];
-        return userData.creditCards.map(cc => ({...cc, updatedAt: cc.updatedAt || cc.createdAt})).sort((a,b) => (b.createdAt || 0) - (a.createdAt || 0));
-    }
+    return listEntity('creditCards', userId);
 }
 
-export const updateCreditCard = async (userId: string, cardId: string, data: UpdateCreditCardData): Promise<UpdateResult> => {
+export const updateCreditCard = async (userId: string, cardId: string, data: UpdateCreditCardData, expectedVersion?: number): Promise<VersionedUpdateResult<CreditCard>> => {
   if (!userId || !cardId) return { success: false, error: "User ID and Card ID are required." };
-
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(data) as Array<keyof UpdateCreditCardData>).forEach(key => {
-        if (data[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateCreditCardData, string> = {
-            name: 'name', limit: 'limit_amount', dueDateDay: 'due_date_day', closingDateDay: 'closing_date_day'
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(data[key]);
-        }
-      });
-
-      if (fields.length === 0) return { success: true, error: 'No fields to update.' };
-
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
-      
-      values.push(cardId); 
-      values.push(userId); 
-
-      const query = `UPDATE credit_cards SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      const res = await pool.query(query, values);
-
-      if (res.rowCount === 0) return { success: false, error: "Credit card not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating credit card in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating credit card." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.creditCards) return { success: false, error: "User or credit cards not found." };
-    const cardIndex = db.users[userId].creditCards.findIndex(cc => cc.id === cardId);
-    if (cardIndex === -1) return { success: false, error: "Credit card not found." };
-
-    db.users[userId].creditCards[cardIndex] = {
-      ...db.users[userId].creditCards[cardIndex],
-      ...data,
-      updatedAt: Date.now(),
-    };
-    await writeDB(db);
-    return { success: true };
-  }
+  return updateEntity('creditCards', userId, cardId, {
+    name: data.name, limit: data.limit, dueDateDay: data.dueDateDay, closingDateDay: data.closingDateDay,
+  }, 'credit card', expectedVersion);
 };
 
+/** Also moves the card's purchases to the trash; restoring the card brings them back. */
 export const deleteCreditCard = async (userId: string, cardId: string): Promise<UpdateResult> => {
   if (!userId || !cardId) return { success: false, error: "User ID and Card ID are required." };
-
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
-      
-      await client.query('DELETE FROM credit_card_purchases WHERE card_id = $1 AND user_id = $2', [cardId, userId]);
-      
-      const res = await client.query('DELETE FROM credit_cards WHERE id = $1 AND user_id = $2', [cardId, userId]);
-      await client.query('COMMIT');
-      if (res.rowCount === 0) return { success: false, error: "Credit card not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      await client.query('ROLLBACK');
-      console.error("Error deleting credit card and its purchases from PostgreSQL:", error.message);
-      return { success: false, error: "Database error deleting credit card." };
-    } finally {
-      client.release();
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.creditCards) return { success: false, error: "User or credit cards not found." };
-    const initialLength = db.users[userId].creditCards.length;
-    db.users[userId].creditCards = db.users[userId].creditCards.filter(cc => cc.id !== cardId);
-    if (db.users[userId].creditCards.length === initialLength) return { success: false, error: "Credit card not found." };
-
-    
-    if (db.users[userId].creditCardPurchases) {
-      db.users[userId].creditCardPurchases = db.users[userId].creditCardPurchases.filter(p => p.cardId !== cardId);
-    }
-
-    await writeDB(db);
-    return { success: true };
-  }
+  return deleteEntity('creditCards', userId, cardId, 'credit card');
 };
 
 
 export interface AddCreditCardPurchaseResult { success: boolean; purchaseId?: string; error?: string; }
 export const addCreditCardPurchase = async (userId: string, purchaseData: NewCreditCardPurchaseData): Promise<AddCreditCardPurchaseResult> => {
     if (!userId) return { success: false, error: "User ID required." };
-    const newPurchaseId = randomUUID();
-    const now = new Date();
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-        try {
-            const res = await pool.query(
-                'INSERT INTO credit_card_purchases (id, user_id, card_id, purchase_date, description, category, total_amount, installments, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9) RETURNING id', 
-                [newPurchaseId, userId, purchaseData.cardId, purchaseData.date, purchaseData.description, purchaseData.category, purchaseData.totalAmount, purchaseData.installments, now]
-            );
-            return { success: true, purchaseId: res.rows[0].id };
-        } catch (error: any) {
-            console.error("Error adding credit card purchase to PostgreSQL:", error.message);
-            return { success: false, error: "Database error adding credit card purchase." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId]) {
-            console.error(`User ${userId} not found in local DB for addCreditCardPurchase.`);
-            return { success: false, error: "User not found." };
-        }
-        if (!db.users[userId].creditCardPurchases) db.users[userId].creditCardPurchases = [];
-        const nowTs = now.getTime();
-        const newPurchase: CreditCardPurchase = { id: newPurchaseId, userId, ...purchaseData, createdAt: nowTs, updatedAt: nowTs };
-        db.users[userId].creditCardPurchases.push(newPurchase);
-        await writeDB(db);
-        return { success: true, purchaseId: newPurchaseId };
-    }
+    if (hasInvalidCurrency(purchaseData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+    const split = resolveSplits(null, purchaseData, purchaseData.totalAmount);
+    if ('error' in split) return { success: false, error: split.error };
+    const tags = checkTagIds(purchaseData.tagIds ?? null, await tagIdsOf(userId));
+    if ('error' in tags) return { success: false, error: tags.error };
+    const payee = resolvePayee(purchaseData.payeeId, purchaseData.description, await listEntity('payees', userId));
+    if ('error' in payee) return { success: false, error: payee.error };
+    const nowTs = Date.now();
+    const newPurchase: CreditCardPurchase = {
+      id: randomUUID(), userId, ...purchaseData, ...split, ...tags, ...payee, currency: purchaseData.currency || await baseCurrencyOf(userId), createdAt: nowTs, updatedAt: nowTs,
+    };
+    const result = await insertEntity('creditCardPurchases', newPurchase, 'credit card purchase');
+    return { success: result.success, purchaseId: result.id, error: result.error };
 };
 
 export async function getCreditCardPurchasesForUser(userId: string): Promise<CreditCardPurchase[]> {
-    if (!userId) return [];
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) {
-            console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get credit card purchases.");
-            return []; 
-        }
-        try {
-            const res = await pool.query<CreditCardPurchase>('SELECT id, user_id as "userId", card_id as "cardId", purchase_date as "date", description, category, total_amount as "totalAmount", installments, created_at as "createdAt", updated_at FROM credit_card_purchases WHERE user_id = $1 ORDER BY purchase_date DESC, created_at DESC', [userId]);
-            return res.rows.map(p => ({...p, date: formatDateFns(new Date(p.date), 'yyyy-MM-dd'), totalAmount: Number(p.totalAmount), createdAt: new Date(p.createdAt).getTime(), updatedAt: p.updatedAt ? new Date(p.updatedAt).getTime() : new Date(p.createdAt).getTime()}));
-        } catch (error: any) {
-            console.error(`Error fetching credit card purchases for user ${userId} from PG:`, error.message); return [];
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        const userData = db.users[userId];
-        if (!userData || !userData.creditCardPurchases) return [];
-        return userData.creditCardPurchases.map(p => ({...p, updatedAt: p.updatedAt || p.createdAt})).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    }
+    return listEntity('creditCardPurchases', userId);
 }
 
-export const updateCreditCardPurchase = async (userId: string, purchaseId: string, data: UpdateCreditCardPurchaseData): Promise<UpdateResult> => {
+export const updateCreditCardPurchase = async (userId: string, purchaseId: string, data: UpdateCreditCardPurchaseData, expectedVersion?: number): Promise<VersionedUpdateResult<CreditCardPurchase>> => {
   if (!userId || !purchaseId) return { success: false, error: "User ID and Purchase ID are required." };
+  if (hasInvalidCurrency(data)) return { success: false, error: UNSUPPORTED_CURRENCY };
+
+  let { category, splits } = data;
+  if (data.category !== undefined || data.splits !== undefined || data.totalAmount !== undefined) {
+    const current = await getRecordForUser(userId, 'creditCardPurchases', purchaseId);
+    if (!current) return { success: false, error: "Credit card purchase not found." };
+    const split = resolveSplits(current, data, data.totalAmount ?? current.totalAmount);
+    if ('error' in split) return { success: false, error: split.error };
+    ({ category, splits } = split);
+  }
+  const tags = data.tagIds === undefined ? null
+    : checkTagIds(data.tagIds, await tagIdsOf(userId), (await getRecordForUser(userId, 'creditCardPurchases', purchaseId))?.tagIds);
+  if (tags && 'error' in tags) return { success: false, error: tags.error };
+  const payee = data.payeeId === undefined ? null
+    : resolvePayee(data.payeeId, undefined, await listEntity('payees', userId), (await getRecordForUser(userId, 'creditCardPurchases', purchaseId))?.payeeId);
+  if (payee && 'error' in payee) return { success: false, error: payee.error };
+
+  return updateEntity('creditCardPurchases', userId, purchaseId, {
+    cardId: data.cardId, date: data.date, description: data.description, category, splits, tagIds: tags?.tagIds, payeeId: payee?.payeeId,
+    totalAmount: data.totalAmount, currency: data.currency, installments: data.installments,
+  }, 'credit card purchase', expectedVersion);
+};
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(data) as Array<keyof UpdateCreditCardPurchaseData>).forEach(key => {
-        if (data[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateCreditCardPurchaseData, string> = {
-            cardId: 'card_id', date: 'purchase_date', description: 'description', category: 'category',
-            totalAmount: 'total_amount', installments: 'installments'
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(data[key]);
-        }
-      });
 
-      if (fields.length === 0) return { success: true, error: 'No fields to update.' };
+export const deleteCreditCardPurchase = async (userId: string, purchaseId: string): Promise<UpdateResult> => {
+    if (!userId) return { success: false, error: "User ID required." };
+    return deleteEntity('creditCardPurchases', userId, purchaseId, 'purchase');
+};
 
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
-      
-      values.push(purchaseId); 
-      values.push(userId); 
 
-      const query = `UPDATE credit_card_purchases SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      const res = await pool.query(query, values);
+// --- Batches ---
 
-      if (res.rowCount === 0) return { success: false, error: "Credit card purchase not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating credit card purchase in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating credit card purchase." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.creditCardPurchases) return { success: false, error: "User or credit card purchases not found." };
-    const purchaseIndex = db.users[userId].creditCardPurchases.findIndex(p => p.id === purchaseId);
-    if (purchaseIndex === -1) return { success: false, error: "Credit card purchase not found." };
-
-    db.users[userId].creditCardPurchases[purchaseIndex] = {
-      ...db.users[userId].creditCardPurchases[purchaseIndex],
-      ...data,
-      updatedAt: Date.now(),
-    };
-    await writeDB(db);
-    return { success: true };
+const MAX_BATCH_SIZE = 500;
+
+/** A request item turned into what is stored, or the reason it is invalid. */
+type BatchItemParse<T> = { value: T } | { error: string };
+
+/**
+ * Validates every item of a batch and, only if all are valid, applies them to one
+ * entity (with their linked updates) in a single storage transaction. Every update carries the version it
+ * is based on; updates and deletes of records changed since they were read fail the whole batch as a conflict.
+ */
+async function applyEntityBatch<K extends UserEntityName>(
+  entity: K, userId: string, request: BatchRequest<unknown, unknown>, label: string,
+  parseNew: (item: any, now: number) => BatchItemParse<EntityRecord<K>>,
+  parseChanges: (changes: any, current: EntityRecord<K>) => BatchItemParse<Omit<EntityPatch<K>, 'updatedAt'>>,
+  deleteError: (current: EntityRecord<K>) => string | null = () => null,
+): Promise<BatchResult> {
+  const { create = [], update = [], delete: remove = [] } = request || {};
+  if (![create, update, remove].every(Array.isArray)) return { success: false, error: "Batch create, update and delete must be lists." };
+  const size = create.length + update.length + remove.length;
+  if (size === 0) return { success: false, error: "The batch is empty." };
+  if (size > MAX_BATCH_SIZE) return { success: false, error: `A batch can have at most ${MAX_BATCH_SIZE} items.` };
+
+  let existing: Map<string, EntityRecord<K>>;
+  try {
+    existing = new Map((await storage().list(entity, userId)).map(record => [record.id, record]));
+  } catch (error: any) {
+    console.error(`Error loading ${entity} for batch:`, error.message);
+    return { success: false, error: storageErrorMessage(error, `Database error saving ${label}s.`) };
   }
-};
 
+  const Label = `${label.charAt(0).toUpperCase()}${label.slice(1)}`;
+  const changedMessage = `The ${label} was changed since it was loaded.`;
+  const now = Date.now();
+  const errors: BatchItemError[] = [];
+  const operations: EntityBatchOperation<K>[] = [];
+  const origins: Array<Omit<BatchItemError, 'message'>> = [];
+  const before: EntityRecord<K>[] = [];
+  const after: EntityRecord<K>[] = [];
+  const seen = new Set<string>();
+  let conflict = false;
+  let versionRequired = false;
+
+  // Updates and deletes must target distinct active records.
+  const targetOf = (id: unknown, error: (message: string) => void): EntityRecord<K> | null => {
+    const current = typeof id === 'string' ? existing.get(id) : undefined;
+    if (!current || current.deletedAt) {
+      error(`${Label} not found.`);
+      return null;
+    }
+    if (seen.has(current.id)) {
+      error("The same item appears more than once in the batch.");
+      return null;
+    }
+    seen.add(current.id);
+    return current;
+  };
 
-export const deleteCreditCardPurchase = async (userId: string, purchaseId: string): Promise<UpdateResult> => {
-    if (!userId) return { success: false, error: "User ID required." };
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-        try {
-            const res = await pool.query('DELETE FROM credit_card_purchases WHERE id = $1 AND user_id = $2', [purchaseId, userId]);
-            if (res.rowCount === 0) return { success: false, error: "Purchase not found or not owned by user." };
-            return { success: true };
-        } catch (error: any) {
-            console.error("Error deleting credit card purchase from PostgreSQL:", error.message);
-            return { success: false, error: "Database error deleting credit card purchase." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId] || !db.users[userId].creditCardPurchases) return { success: false, error: "User purchases not found."};
-        const initialLength = db.users[userId].creditCardPurchases.length;
-        db.users[userId].creditCardPurchases = db.users[userId].creditCardPurchases.filter(p => p.id !== purchaseId);
-        if (db.users[userId].creditCardPurchases.length === initialLength) return { success: false, error: "Purchase not found."};
-        await writeDB(db);
-        return { success: true };
+  create.forEach((item, index) => {
+    const parsed = parseNew(item || {}, now);
+    if ('error' in parsed) return errors.push({ operation: 'create', index, message: parsed.error });
+    const record = roundMoneyFields(entity, parsed.value);
+    operations.push({ type: 'insert', record });
+    origins.push({ operation: 'create', index });
+    after.push(record);
+  });
+  update.forEach((item, index) => {
+    const id = item?.id;
+    const error = (message: string) => errors.push({ operation: 'update', index, id, message });
+    if (item?.version === undefined || item.version === null) {
+      versionRequired = true;
+      return error(`Updating a ${label} requires a version.`);
     }
-};
+    if (!Number.isSafeInteger(item.version) || item.version < 0) return error("Invalid version.");
+    const current = targetOf(id, error);
+    if (!current) return;
+    const version = versionOf(current) ?? 0;
+    if (item.version !== version) {
+      conflict = true;
+      return error(changedMessage);
+    }
+    const parsed = parseChanges(item.changes || {}, current);
+    if ('error' in parsed) return error(parsed.error);
+    const patch = roundMoneyFields(entity, { ...parsed.value, updatedAt: Math.max(now, version + 1) } as EntityPatch<K>);
+    operations.push({ type: 'update', id: current.id, patch, expectedUpdatedAt: version });
+    origins.push({ operation: 'update', index, id: current.id });
+    before.push(current);
+    after.push(withChanges(current, patch));
+  });
+  remove.forEach((id, index) => {
+    const error = (message: string) => errors.push({ operation: 'delete', index, id, message });
+    const current = targetOf(id, error);
+    if (!current) return;
+    const refused = deleteError(current);
+    if (refused) return error(refused);
+    operations.push({ type: 'trash', id: current.id, deletedAt: now });
+    origins.push({ operation: 'delete', index, id: current.id });
+    before.push(current);
+  });
+
+  if (errors.length) {
+    const error = versionRequired ? `Updating ${label}s in a batch requires the version of each one.`
+      : conflict ? `Some ${label}s were changed since they were loaded.` : `Some ${label}s are invalid.`;
+    return { success: false, errors, conflict, versionRequired, error };
+  }
+
+  try {
+    const linked = await linkedUpdates(entity, userId, before, after);
+    const result = await applyWithLinked(userId, operations.map(operation => ({ ...operation, entity }) as TaggedBatchOperation), linked);
+    if (!result.applied) {
+      // Changed or removed by someone else between the read above and the write; past the
+      // batch's own operations it was a linked record (a transfer's destination).
+      const origin = origins[result.failedIndex];
+      return { success: false, conflict: true, errors: origin ? [{ ...origin, message: changedMessage }] : [], error: `Some ${label}s were changed since they were loaded.` };
+    }
+    const created: string[] = [];
+    for (const [position, record] of result.records.entries()) {
+      const { operation } = origins[position];
+      if (operation === 'create') {
+        created.push(record.id);
+        await recordHistory(userId, entity, record.id, 'create', diffRecords(null, record));
+      } else if (operation === 'update') {
+        const changed = diffRecords(existing.get(record.id)!, record);
+        if (changed.length) await recordHistory(userId, entity, record.id, 'update', changed);
+      } else {
+        await recordHistory(userId, entity, record.id, 'delete');
+      }
+    }
+    return { success: true, created, updated: update.length, deleted: remove.length };
+  } catch (error: any) {
+    console.error(`Error applying ${label} batch:`, error.message);
+    return { success: false, error: storageErrorMessage(error, `Database error saving ${label}s.`) };
+  }
+}
+
+const TRANSACTION_TYPES = ['income', 'expense', 'transfer'];
+
+/** Checks the transaction fields present in `data` (all required ones unless `partial`) and normalizes the amount. */
+function parseTransactionFields(data: any, partial: boolean): BatchItemParse<UpdateTransactionData> {
+  const has = (key: string) => !partial || data[key] !== undefined;
+  if (has('type') && !TRANSACTION_TYPES.includes(data.type)) return { error: "Type must be income, expense or transfer." };
+  const amount = has('amount') ? parseMoney(data.amount) : undefined;
+  if (amount === null || (amount !== undefined && amount <= 0)) return { error: "Amount must be positive." };
+  const category = typeof data.category === 'string' && data.category.trim() ? data.category.trim()
+    : !partial && data.type === 'transfer' ? TRANSFER_CATEGORY : undefined;
+  // Split transactions take the category of their first line.
+  if (has('category') && !category && !data.splits?.length) return { error: "Category is required." };
+  if (has('date') && !isDateString(data.date)) return { error: "Date must be in yyyy-MM-dd format." };
+  if (data.recurrenceFrequency !== undefined && !RECURRENCE_FREQUENCIES.includes(data.recurrenceFrequency)) return { error: "Invalid recurrence frequency." };
+  if (hasInvalidCurrency(data)) return { error: UNSUPPORTED_CURRENCY };
+  if (typeof data.receiptImageUri === 'string' && data.receiptImageUri.startsWith('data:')) return { error: "Receipts must be uploaded as attachments." };
+  if (!isClearedStatusInput(data.clearedStatus)) return { error: INVALID_CLEARED_STATUS };
+  return {
+    value: {
+      type: data.type, amount, currency: data.currency, accountId: data.accountId, transferTo: data.transferTo, transferToId: data.transferToId,
+      category, splits: data.splits, tagIds: data.tagIds, payeeId: data.payeeId, date: data.date,
+      description: data.description, receiptImageUri: data.receiptImageUri,
+      ...Object.fromEntries(RECURRENCE_FIELDS.map(field => [field, data[field]])),
+      clearedStatus: data.clearedStatus === undefined ? undefined : data.clearedStatus || null,
+    },
+  };
+}
+
+/** Creates, updates and trashes transactions all-or-nothing (statement import, bulk edit and delete); reconciled ones stay locked. */
+export async function applyTransactionBatch(userId: string, request: TransactionBatchRequest): Promise<BatchResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  const baseCurrency = await baseCurrencyOf(userId);
+  const links = await transactionLinksOf(userId);
+  const tagIds = await tagIdsOf(userId);
+  const payees = await listEntity('payees', userId);
+  return applyEntityBatch('transactions', userId, request, 'transaction',
+    (item, now) => {
+      const parsed = parseTransactionFields(item, false);
+      if ('error' in parsed) return parsed;
+      const fields = parsed.value as NewTransactionData;
+      const checked = checkTransactionLinks(links, fields);
+      if ('error' in checked) return checked;
+      const split = resolveTransactionSplits(null, fields);
+      if ('error' in split) return split;
+      const tags = checkTagIds(fields.tagIds ?? null, tagIds);
+      if ('error' in tags) return tags;
+      const payee = resolvePayee(fields.payeeId, fields.description, payees);
+      if ('error' in payee) return payee;
+      const recurrence = resolveRecurrence(null, fields);
+      if ('error' in recurrence) return recurrence;
+      return {
+        value: {
+          ...fields, ...split, ...tags, ...payee, ...recurrence, id: randomUUID(), userId, currency: checked.currency || baseCurrency, accountId: fields.accountId || null,
+          transferTo: checked.transferTo, transferToId: checked.transferToId, createdAt: now, updatedAt: now,
+        },
+      };
+    },
+    (changes, current) => {
+      const parsed = parseTransactionFields(changes, true);
+      if ('error' in parsed) return parsed;
+      const locked = reconciledLockError(current, parsed.value);
+      if (locked) return { error: locked };
+      const { accountId } = parsed.value;
+      const linksChanged = TRANSACTION_LINK_FIELDS.some(field => parsed.value[field] !== undefined);
+      const checked = linksChanged ? checkTransactionLinks(links, withChanges(current, parsed.value)) : null;
+      if (checked && 'error' in checked) return checked;
+      const splitsChanged = [...SPLIT_FIELDS, 'amount', 'type'].some(field => parsed.value[field as keyof UpdateTransactionData] !== undefined);
+      const split = splitsChanged ? resolveTransactionSplits(current, parsed.value) : null;
+      if (split && 'error' in split) return split;
+      const tags = parsed.value.tagIds === undefined ? null : checkTagIds(parsed.value.tagIds, tagIds, current.tagIds);
+      if (tags && 'error' in tags) return tags;
+      const payee = parsed.value.payeeId === undefined ? null : resolvePayee(parsed.value.payeeId, undefined, payees, current.payeeId);
+      if (payee && 'error' in payee) return payee;
+      const recurrenceChanged = [...RECURRENCE_FIELDS, 'date'].some(field => parsed.value[field as keyof UpdateTransactionData] !== undefined);
+      const recurrence = recurrenceChanged ? resolveRecurrence(current, parsed.value) : null;
+      if (recurrence && 'error' in recurrence) return recurrence;
+      return {
+        value: {
+          ...parsed.value, ...checked, ...split, ...tags, ...payee, ...recurrence, description: parsed.value.description as string | undefined,
+          accountId: accountId === undefined ? undefined : accountId || null,
+        },
+      };
+    },
+    current => current.clearedStatus === 'reconciled' ? RECONCILED_LOCKED : null);
+}
+
+/** Checks the purchase fields present in `data` (all required ones unless `partial`) against the user's active cards. */
+function parsePurchaseFields(data: any, partial: boolean, cardIds: Set<string>): BatchItemParse<UpdateCreditCardPurchaseData> {
+  const has = (key: string) => !partial || data[key] !== undefined;
+  if (has('cardId') && !cardIds.has(data.cardId)) return { error: "Credit card not found." };
+  if (has('date') && !isDateString(data.date)) return { error: "Date must be in yyyy-MM-dd format." };
+  if (has('description') && (typeof data.description !== 'string' || !data.description.trim())) return { error: "Description is required." };
+  // Split purchases take the category of their first line.
+  if (has('category') && (typeof data.category !== 'string' || !data.category.trim()) && !data.splits?.length) return { error: "Category is required." };
+  const totalAmount = has('totalAmount') ? parseMoney(data.totalAmount) : undefined;
+  if (totalAmount === null || (totalAmount !== undefined && totalAmount <= 0)) return { error: "Total amount must be positive." };
+  if (has('installments') && !(Number.isInteger(data.installments) && data.installments >= 1)) return { error: "Installments must be a positive integer." };
+  if (hasInvalidCurrency(data)) return { error: UNSUPPORTED_CURRENCY };
+  return {
+    value: {
+      cardId: data.cardId, date: data.date, description: data.description?.trim(), category: data.category?.trim(), splits: data.splits, tagIds: data.tagIds, payeeId: data.payeeId,
+      totalAmount, currency: data.currency, installments: data.installments,
+    },
+  };
+}
+
+/** Creates, updates and trashes card purchases all-or-nothing (invoice import). */
+export async function applyCreditCardPurchaseBatch(userId: string, request: CreditCardPurchaseBatchRequest): Promise<BatchResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  const cardIds = new Set((await listEntity('creditCards', userId)).map(card => card.id));
+  const tagIds = await tagIdsOf(userId);
+  const payees = await listEntity('payees', userId);
+  const baseCurrency = await baseCurrencyOf(userId);
+  return applyEntityBatch('creditCardPurchases', userId, request, 'credit card purchase',
+    (item, now) => {
+      const parsed = parsePurchaseFields(item, false, cardIds);
+      if ('error' in parsed) return parsed;
+      const fields = parsed.value as NewCreditCardPurchaseData;
+      const split = resolveSplits(null, fields, fields.totalAmount);
+      if ('error' in split) return split;
+      const tags = checkTagIds(fields.tagIds ?? null, tagIds);
+      if ('error' in tags) return tags;
+      const payee = resolvePayee(fields.payeeId, fields.description, payees);
+      if ('error' in payee) return payee;
+      return { value: { ...fields, ...split, ...tags, ...payee, id: randomUUID(), userId, currency: fields.currency || baseCurrency, createdAt: now, updatedAt: now } };
+    },
+    (changes, current) => {
+      const parsed = parsePurchaseFields(changes, true, cardIds);
+      if ('error' in parsed) return parsed;
+      const { category, splits, totalAmount } = parsed.value;
+      const split = category === undefined && splits === undefined && totalAmount === undefined ? null
+        : resolveSplits(current, parsed.value, totalAmount ?? current.totalAmount);
+      if (split && 'error' in split) return split;
+      const tags = parsed.value.tagIds === undefined ? null : checkTagIds(parsed.value.tagIds, tagIds, current.tagIds);
+      if (tags && 'error' in tags) return tags;
+      const payee = parsed.value.payeeId === undefined ? null : resolvePayee(parsed.value.payeeId, undefined, payees, current.payeeId);
+      if (payee && 'error' in payee) return payee;
+      return { value: { ...parsed.value, ...split, ...tags, ...payee } };
+    });
+}
 
 
 export async function getCategoriesForUser(userId: string): Promise<UserCategory[]> {
-    if (!userId) return [];
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) {
-            console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get categories.");
-            return []; 
-        }
-        try {
-            const res = await pool.query<UserCategory>(
-                'SELECT id, user_id as "userId", name, is_system_defined as "isSystemDefined", created_at as "createdAt", updated_at FROM user_categories WHERE user_id = $1 ORDER BY name ASC',
-                [userId]
-            );
-            return res.rows.map(cat => ({...cat, createdAt: new Date(cat.createdAt).getTime(), updatedAt: cat.updatedAt ? new Date(cat.updatedAt).getTime() : new Date(cat.createdAt).getTime() }));
-        } catch (error: any) {
-            console.error(`Error fetching categories for user ${userId} from PostgreSQL:`, error.message);
-            return [];
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        const userData = db.users[userId];
-        if (!userData || !userData.categories) return [];
-        return [...userData.categories].map(cat => ({...cat, updatedAt: cat.updatedAt || cat.createdAt})).sort((a, b) => a.name.localeCompare(b.name));
-    }
+    return listEntity('categories', userId);
+}
+
+const MAX_CATEGORY_NAME_LENGTH = 100;
+
+function categoryNameError(name: string | undefined): string | null {
+  if (!name?.trim()) return "Category name cannot be empty.";
+  if (name.trim().length > MAX_CATEGORY_NAME_LENGTH) return `Category name must be at most ${MAX_CATEGORY_NAME_LENGTH} characters.`;
+  return null;
+}
+
+/**
+ * Checks the parent, icon and color a category is saved with against the user's active
+ * `categories`; `category` is null for a new one. Subcategories are one level deep.
+ */
+function categoryDetailsError(categories: UserCategory[], details: CategoryDetails, category: UserCategory | null): string | null {
+  if (details.icon != null && !isCategoryIcon(details.icon)) return "Unknown category icon.";
+  if (details.color != null && !isCategoryColor(details.color)) return "Category color must be a '#rrggbb' color.";
+  if (details.parentId) {
+    const parent = categories.find(c => c.id === details.parentId);
+    if (!parent) return "Parent category not found.";
+    if (parent.id === category?.id) return "A category cannot be its own parent.";
+    if (parent.parentId) return "Subcategories cannot have subcategories.";
+    if (category && categories.some(c => c.parentId === category.id)) return "A category with subcategories cannot become a subcategory.";
+  }
+  return null;
 }
 
 export interface AddCategoryResult { success: boolean; category?: UserCategory; error?: string; }
-export const addCategoryForUser = async (userId: string, categoryName: string, isSystemDefined: boolean = false): Promise<AddCategoryResult> => {
+export const addCategoryForUser = async (userId: string, categoryName: string, isSystemDefined: boolean = false, details: CategoryDetails = {}): Promise<AddCategoryResult> => {
     if (!userId) return { success: false, error: "User ID is required." };
-    if (!categoryName.trim()) return { success: false, error: "Category name cannot be empty." };
-
-    const newCategoryId = randomUUID();
-    const now = new Date();
-
-    if (DATABASE_MODE === 'postgres') {
-        if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-        try {
-            const res = await pool.query(
-                'INSERT INTO user_categories (id, user_id, name, is_system_defined, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $5) ON CONFLICT (user_id, name) DO NOTHING RETURNING id, user_id as "userId", name, is_system_defined as "isSystemDefined", created_at as "createdAt", updated_at', 
-                [newCategoryId, userId, categoryName.trim(), isSystemDefined, now]
-            );
-            if (res.rows.length > 0) {
-                 const cat = res.rows[0];
-                 return { success: true, category: {...cat, createdAt: new Date(cat.createdAt).getTime(), updatedAt: new Date(cat.updatedAt).getTime()} };
-            } else { 
-                const existingRes = await pool.query('SELECT id, user_id as "userId", name, is_system_defined as "isSystemDefined", created_at as "createdAt", updated_at FROM user_categories WHERE user_id = $1 AND name = $2', [userId, categoryName.trim()]);
-                if (existingRes.rows.length > 0) {
-                    const cat = existingRes.rows[0];
-                    return { success: true, category: {...cat, createdAt: new Date(cat.createdAt).getTime(), updatedAt: new Date(cat.updatedAt).getTime()}, error: "Category already exists." }; 
-                }
-                return { success: false, error: "Category already exists, but failed to retrieve." };
-            }
-        } catch (error: any) {
-            console.error("Error adding category to PostgreSQL:", error.message);
-            if (error.code === '23505') { 
-                const existingRes = await pool.query('SELECT id, user_id as "userId", name, is_system_defined as "isSystemDefined", created_at as "createdAt", updated_at FROM user_categories WHERE user_id = $1 AND name = $2', [userId, categoryName.trim()]);
-                 if (existingRes.rows.length > 0) {
-                    const cat = existingRes.rows[0];
-                    return { success: true, category: {...cat, createdAt: new Date(cat.createdAt).getTime(), updatedAt: new Date(cat.updatedAt).getTime()}, error: "Category already exists (unique violation)." };
-                }
-                return { success: false, error: "Category already exists (unique violation, fetch failed)." };
-            }
-            return { success: false, error: "Database error adding category." };
-        }
-    } else { // Local JSON mode
-        const db = await readDB();
-        if (!db.users[userId]) {
-            console.error(`User ${userId} not found in local DB for addCategoryForUser.`);
-            return { success: false, error: "User not found." };
-        }
-        if (!db.users[userId].categories) db.users[userId].categories = [];
+    const nameError = categoryNameError(categoryName);
+    if (nameError) return { success: false, error: nameError };
 
-        const existingCategory = db.users[userId].categories.find(c => c.name.toLowerCase() === categoryName.trim().toLowerCase());
+    const name = categoryName.trim();
+    const findExisting = async () => (await storage().list('categories', userId)).find(c => c.name.toLowerCase() === name.toLowerCase());
+
+    try {
+        const existingCategory = await findExisting();
         if (existingCategory) {
             return { success: true, category: existingCategory, error: "Category already exists." };
         }
-        const nowTs = now.getTime();
+        const detailsError = categoryDetailsError(await listEntity('categories', userId), details, null);
+        if (detailsError) return { success: false, error: detailsError };
+        const nowTs = Date.now();
         const newCategory: UserCategory = {
-            id: newCategoryId,
+            id: randomUUID(),
             userId,
-            name: categoryName.trim(),
+            name,
             isSystemDefined,
+            parentId: details.parentId || null,
+            icon: details.icon || null,
+            color: details.color || null,
             createdAt: nowTs,
             updatedAt: nowTs,
         };
-        db.users[userId].categories.push(newCategory);
-        await writeDB(db);
-        return { success: true, category: newCategory };
+        const category = await storage().insert('categories', newCategory);
+        await recordHistory(userId, 'categories', category.id, 'create', diffRecords(null, category));
+        return { success: true, category };
+    } catch (error: any) {
+        console.error("Error adding category:", error.message);
+        if (error instanceof StorageError && error.code === 'conflict') {
+            // Created concurrently by another request.
+            const existingCategory = await findExisting().catch(() => undefined);
+            if (existingCategory) return { success: true, category: existingCategory, error: "Category already exists." };
+        }
+        return { success: false, error: storageErrorMessage(error, "Database error adding category.") };
     }
 };
 
-export interface AddFinancialGoalResult { success: boolean; goalId?: string; error?: string; }
-export const addFinancialGoal = async (userId: string, goalData: NewFinancialGoalData): Promise<AddFinancialGoalResult> => {
-  if (!userId) return { success: false, error: "User ID is required." };
-  const newGoalId = randomUUID();
-  const now = new Date();
-
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query(
-        'INSERT INTO financial_goals (id, user_id, name, target_amount, current_amount, target_date, description, icon, status, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10) RETURNING id', 
-        [
-          newGoalId, userId, goalData.name, goalData.targetAmount,
-          goalData.currentAmount || 0, goalData.targetDate || null,
-          goalData.description || null, goalData.icon || null,
-          goalData.status || 'active', now
-        ]
-      );
-      return { success: true, goalId: res.rows[0].id };
-    } catch (error: any) {
-      console.error("Error adding financial goal to PostgreSQL:", error.message);
-      return { success: false, error: "Database error adding financial goal." };
+/** A new name is carried over to every transaction and purchase under the category, in the same write. */
+export const updateCategory = async (userId: string, categoryId: string, data: UpdateCategoryData, expectedVersion?: number): Promise<VersionedUpdateResult<UserCategory>> => {
+  if (!userId || !categoryId) return { success: false, error: "User ID and Category ID are required." };
+  const categories = await listEntity('categories', userId);
+  const category = categories.find(c => c.id === categoryId);
+  if (!category) return { success: false, error: "Category not found." };
+  if (data.name !== undefined) {
+    const nameError = categoryNameError(data.name);
+    if (nameError) return { success: false, error: nameError };
+    if (categories.some(c => c.id !== categoryId && c.name.toLowerCase() === data.name!.trim().toLowerCase())) {
+      return { success: false, error: "A category with this name already exists. Merge the categories instead." };
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]) return { success: false, error: "User not found." };
-    if (!db.users[userId].financialGoals) db.users[userId].financialGoals = [];
-    const nowTs = now.getTime();
-    const newGoal: FinancialGoal = {
-      id: newGoalId, userId,
-      name: goalData.name,
-      targetAmount: goalData.targetAmount,
-      currentAmount: goalData.currentAmount || 0,
-      targetDate: goalData.targetDate || null,
-      description: goalData.description || null,
-      icon: goalData.icon || null,
-      status: goalData.status || 'active',
-      createdAt: nowTs,
-      updatedAt: nowTs,
-    };
-    db.users[userId].financialGoals.push(newGoal);
-    await writeDB(db);
-    return { success: true, goalId: newGoalId };
   }
+  const detailsError = categoryDetailsError(categories, data, category);
+  if (detailsError) return { success: false, error: detailsError };
+  return updateEntity('categories', userId, categoryId, { name: data.name?.trim(), parentId: data.parentId, icon: data.icon, color: data.color }, 'category', expectedVersion);
 };
 
-export async function getFinancialGoalsForUser(userId: string): Promise<FinancialGoal[]> {
-  if (!userId) return [];
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-        console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get financial goals.");
-        return []; 
+/** Moves the transactions and purchases of `sourceId` to `targetId` and removes `sourceId`; see removeCategory. */
+export const mergeCategories = async (userId: string, sourceId: string, targetId: string): Promise<UpdateResult> => {
+  if (!userId || !sourceId || !targetId) return { success: false, error: "User ID, source and target category IDs are required." };
+  return removeCategory(userId, sourceId, targetId);
+};
+
+/** A category still used by transactions or purchases can only be deleted by moving them to `reassignTo`. */
+export const deleteCategory = async (userId: string, categoryId: string, reassignTo?: string): Promise<UpdateResult> => {
+  if (!userId || !categoryId) return { success: false, error: "User ID and Category ID are required." };
+  return removeCategory(userId, categoryId, reassignTo || null);
+};
+
+/** Transactions and purchases under each active category, trashed ones included, by category id. */
+export async function getCategoryUsageForUser(userId: string): Promise<Record<string, number>> {
+  const usage: Record<string, number> = {};
+  if (!userId) return usage;
+  try {
+    const records = [...await storage().list('transactions', userId), ...await storage().list('creditCardPurchases', userId)];
+    for (const category of await listEntity('categories', userId)) {
+      usage[category.id] = records.filter(record => usesCategory(record, category.name)).length;
     }
-    try {
-      const res = await pool.query<FinancialGoal>(
-        'SELECT id, user_id AS "userId", name, target_amount AS "targetAmount", current_amount AS "currentAmount", target_date AS "targetDate", description, icon, status, created_at AS "createdAt", updated_at FROM financial_goals WHERE user_id = $1 ORDER BY created_at DESC',
-        [userId]
-      );
-      return res.rows.map(g => ({
-        ...g,
-        targetAmount: Number(g.targetAmount),
-        currentAmount: Number(g.currentAmount),
-        createdAt: new Date(g.createdAt).getTime(),
-        updatedAt: g.updatedAt ? new Date(g.updatedAt).getTime() : new Date(g.createdAt).getTime(),
-        targetDate: g.targetDate ? formatDateFns(new Date(g.targetDate), 'yyyy-MM-dd') : null,
-      }));
-    } catch (error: any) {
-      console.error("Error fetching financial goals from PostgreSQL:", error.message);
-      return [];
+  } catch (error: any) {
+    console.error(`Error counting category usage for user ${userId}:`, error.message);
+  }
+  return usage;
+}
+
+/**
+ * Removes a category, first moving its transactions and purchases (trashed ones included,
+ * so restoring them does not bring the name back) to `targetId`, all or nothing. Its
+ * subcategories move under the target when that is top-level, and become top-level otherwise.
+ * Nothing is left to restore, so the category is deleted for good rather than trashed.
+ */
+async function removeCategory(userId: string, categoryId: string, targetId: string | null): Promise<UpdateResult> {
+  const categories = await listEntity('categories', userId);
+  const source = categories.find(c => c.id === categoryId);
+  if (!source) return { success: false, error: "Category not found." };
+  const target = targetId ? categories.find(c => c.id === targetId) : null;
+  if (targetId && !target) return { success: false, error: "Target category not found." };
+  if (target?.id === source.id) return { success: false, error: "A category cannot be merged into itself." };
+
+  try {
+    const moved = target ? await categoryMoveUpdates(userId, source.name, target.name) : await payeeCategoryUpdates(userId, source.name, null);
+    if (!target && (await getCategoryUsageForUser(userId))[source.id]) {
+      return { success: false, error: "Category is in use. Choose a category to move its transactions and purchases to." };
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userData = db.users[userId];
-    return userData?.financialGoals?.map(g => ({...g, updatedAt: g.updatedAt || g.createdAt})).sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)) || [];
+    const now = Date.now();
+    const parentId = target && !target.parentId ? target.id : null;
+    const children: LinkedUpdate[] = categories.filter(c => c.parentId === source.id).map(child => {
+      const version = versionOf(child) ?? 0;
+      const patch = { parentId, updatedAt: Math.max(now, version + 1) };
+      return { before: child, operation: { entity: 'categories', type: 'update', id: child.id, patch, expectedUpdatedAt: version } as TaggedBatchOperation };
+    });
+    const result = await applyWithLinked(userId, [{ entity: 'categories', type: 'trash', id: source.id, deletedAt: now } as TaggedBatchOperation], [...moved, ...children]);
+    if (!result.applied) return { success: false, error: "Records under the category changed while saving. Try again." };
+    await storage().remove('categories', userId, source.id);
+    await recordHistory(userId, 'categories', source.id, 'delete');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error removing category:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error removing category.") };
   }
 }
 
-export const updateFinancialGoal = async (userId: string, goalId: string, updateData: UpdateFinancialGoalData): Promise<UpdateResult> => {
-  if (!userId || !goalId) return { success: false, error: "User ID and Goal ID are required." };
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(updateData) as Array<keyof UpdateFinancialGoalData>).forEach(key => {
-        if (updateData[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateFinancialGoalData, string> = { 
-             name: 'name', targetAmount: 'target_amount', currentAmount: 'current_amount',
-             targetDate: 'target_date', description: 'description', icon: 'icon', status: 'status',
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(updateData[key]);
-        }
-      });
+/**
+ * Updates that carry a category's new name over to its records: `removed` are categories
+ * as they were before a write, `added` as they are after it.
+ */
+async function categoryRenameUpdates(userId: string, removed: UserCategory[], added: UserCategory[]): Promise<LinkedUpdate[]> {
+  const updates: LinkedUpdate[] = [];
+  for (const before of removed) {
+    const after = added.find(category => category.id === before.id);
+    if (after && after.name !== before.name) updates.push(...await categoryMoveUpdates(userId, before.name, after.name));
+  }
+  return updates;
+}
 
-      if (fields.length === 0) return { success: true, error: 'No fields to update.' };
+/** Updates that move every transaction, purchase and payee default, trashed ones included, from category `from` to `to`. */
+async function categoryMoveUpdates(userId: string, from: string, to: string): Promise<LinkedUpdate[]> {
+  const now = Date.now();
+  const updates: LinkedUpdate[] = [];
+  for (const entity of ['transactions', 'creditCardPurchases'] as const) {
+    for (const before of await storage().list(entity, userId)) {
+      const moved = renameCategoryIn(before, from, to);
+      if (!moved) continue;
+      const version = versionOf(before) ?? 0;
+      const patch = { ...moved, updatedAt: Math.max(now, version + 1) };
+      updates.push({ before, operation: { entity, type: 'update', id: before.id, patch, expectedUpdatedAt: version } as TaggedBatchOperation });
+    }
+  }
+  return [...updates, ...await payeeCategoryUpdates(userId, from, to)];
+}
 
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
 
-      values.push(goalId); 
-      values.push(userId); 
+// --- Budgets ---
 
-      const query = `UPDATE financial_goals SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      const res = await pool.query(query, values);
+/** The user's budgets, oldest start month first. */
+export async function getBudgetsForUser(userId: string): Promise<Budget[]> {
+  return listEntity('budgets', userId);
+}
 
-      if (res.rowCount === 0) return { success: false, error: "Goal not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating financial goal in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating financial goal." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.financialGoals) return { success: false, error: "User or goals not found." };
-    const goalIndex = db.users[userId].financialGoals.findIndex(g => g.id === goalId);
-    if (goalIndex === -1) return { success: false, error: "Goal not found." };
-
-    db.users[userId].financialGoals[goalIndex] = {
-      ...db.users[userId].financialGoals[goalIndex],
-      ...updateData,
-      updatedAt: Date.now(),
-    };
-    await writeDB(db);
+/** Checks the budget fields present in `data` and normalizes the amount. */
+function parseBudgetData(data: UpdateBudgetData): UpdateBudgetData | { error: string } {
+  const amount = data.amount === undefined ? undefined : parseMoney(data.amount);
+  if (amount === null || (amount !== undefined && amount <= 0)) return { error: "Budget amount must be a positive number." };
+  if (data.rollover !== undefined && typeof data.rollover !== 'boolean') return { error: "Rollover must be true or false." };
+  if (data.startMonth !== undefined && !isMonthString(data.startMonth)) return { error: "Start month must be in yyyy-MM format." };
+  return { amount, rollover: data.rollover, startMonth: data.startMonth };
+}
+
+export interface AddBudgetResult { success: boolean; budget?: Budget; error?: string; }
+
+/** A category has at most one budget, which goes away with the category. */
+export async function addBudget(userId: string, data: NewBudgetData): Promise<AddBudgetResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!data?.categoryId || data.amount === undefined) return { success: false, error: "Category and amount are required." };
+  const parsed = parseBudgetData(data);
+  if ('error' in parsed) return { success: false, error: parsed.error };
+  if (!await getRecordForUser(userId, 'categories', data.categoryId)) return { success: false, error: "Category not found." };
+  if ((await getBudgetsForUser(userId)).some(budget => budget.categoryId === data.categoryId)) {
+    return { success: false, error: "The category already has a budget." };
+  }
+
+  const nowTs = Date.now();
+  const budget: Budget = {
+    id: randomUUID(), userId,
+    categoryId: data.categoryId,
+    amount: parsed.amount as Money,
+    rollover: parsed.rollover ?? false,
+    startMonth: parsed.startMonth ?? formatDateFns(nowTs, 'yyyy-MM'),
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('budgets', budget, 'budget');
+  return { success: result.success, budget: result.success ? budget : undefined, error: result.error };
+}
+
+export async function updateBudget(userId: string, budgetId: string, data: UpdateBudgetData, expectedVersion?: number): Promise<VersionedUpdateResult<Budget>> {
+  if (!userId || !budgetId) return { success: false, error: "User ID and Budget ID are required." };
+  const parsed = parseBudgetData(data || {});
+  if ('error' in parsed) return { success: false, error: parsed.error };
+  return updateEntity('budgets', userId, budgetId, parsed, 'budget', expectedVersion);
+}
+
+/** Budgets have no place in the trash; deleting one removes it outright. */
+export async function deleteBudget(userId: string, budgetId: string): Promise<UpdateResult> {
+  if (!userId || !budgetId) return { success: false, error: "User ID and Budget ID are required." };
+  try {
+    const removed = await storage().remove('budgets', userId, budgetId);
+    if (!removed) return { success: false, error: "Budget not found." };
+    await recordHistory(userId, 'budgets', budgetId, 'purge');
     return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting budget:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error deleting budget.") };
   }
-};
+}
 
-export const deleteFinancialGoal = async (userId: string, goalId: string): Promise<UpdateResult> => {
-  if (!userId || !goalId) return { success: false, error: "User ID and Goal ID are required." };
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query('DELETE FROM financial_goals WHERE id = $1 AND user_id = $2', [goalId, userId]);
-      if (res.rowCount === 0) return { success: false, error: "Goal not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error deleting financial goal from PostgreSQL:", error.message);
-      return { success: false, error: "Database error deleting financial goal." };
+// --- Envelopes ---
+
+/** What the user put in each envelope, oldest month first. */
+export async function getEnvelopeAssignmentsForUser(userId: string): Promise<EnvelopeAssignment[]> {
+  return listEntity('envelopeAssignments', userId);
+}
+
+export interface EnvelopeChangeResult { success: boolean; assignments?: EnvelopeAssignment[]; conflict?: boolean; error?: string; }
+
+/**
+ * Sets the month's amount of each category's envelope to what `amountOf` gives for its current
+ * one, all or nothing, creating the records of envelopes nothing was put in yet. The resulting
+ * assignments come back in the order of `categoryIds`.
+ */
+async function changeEnvelopes(userId: string, month: string, categoryIds: string[], amountOf: (categoryId: string, current: Money) => Money): Promise<EnvelopeChangeResult> {
+  if (!isMonthString(month)) return { success: false, error: "Month must be in yyyy-MM format." };
+  const user = await storage().findUserById(userId);
+  if (!user) return { success: false, error: "User not found." };
+  const startMonth = user.profile.envelopeStartMonth;
+  if (!startMonth) return { success: false, error: "Envelope budgeting is turned off." };
+  if (month < startMonth) return { success: false, error: `Envelope budgeting starts in ${startMonth}.` };
+  for (const categoryId of categoryIds) {
+    if (!await getRecordForUser(userId, 'categories', categoryId)) return { success: false, error: "Category not found." };
+  }
+
+  try {
+    const assignments = await getEnvelopeAssignmentsForUser(userId);
+    const now = Date.now();
+    const before = categoryIds.map(categoryId => assignments.find(a => a.categoryId === categoryId && a.month === month) ?? null);
+    // An envelope changed or first filled since the read above fails the whole change.
+    const operations = categoryIds.map((categoryId, index): TaggedBatchOperation => {
+      const current = before[index];
+      const amount = amountOf(categoryId, current?.amount ?? 0);
+      if (!current) {
+        const record: EnvelopeAssignment = { id: randomUUID(), userId, categoryId, month, amount, createdAt: now, updatedAt: now };
+        return { entity: 'envelopeAssignments', type: 'insert', record: roundMoneyFields('envelopeAssignments', record) };
+      }
+      const version = versionOf(current) ?? 0;
+      return { entity: 'envelopeAssignments', type: 'update', id: current.id, patch: { amount, updatedAt: Math.max(now, version + 1) }, expectedUpdatedAt: version };
+    });
+    const result = await storage().applyChanges(userId, operations);
+    if (!result.applied) return { success: false, conflict: true, error: "An envelope was changed while saving; review it and try again." };
+    for (const [index, record] of result.records.entries()) {
+      const changed = diffRecords(before[index], record);
+      if (changed.length) await recordHistory(userId, 'envelopeAssignments', record.id, before[index] ? 'update' : 'create', changed);
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.financialGoals) return { success: false, error: "User or goals not found." };
-    const initialLength = db.users[userId].financialGoals.length;
-    db.users[userId].financialGoals = db.users[userId].financialGoals.filter(g => g.id !== goalId);
-    if (db.users[userId].financialGoals.length === initialLength) return { success: false, error: "Goal not found." };
-    await writeDB(db);
-    return { success: true };
+    return { success: true, assignments: result.records as EnvelopeAssignment[] };
+  } catch (error: any) {
+    if (error instanceof StorageError && error.code === 'conflict') {
+      return { success: false, conflict: true, error: "An envelope was changed while saving; review it and try again." };
+    }
+    console.error("Error changing envelopes:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error changing envelopes.") };
+  }
+}
+
+/** Sets how much is put in a category's envelope in a month; zero or negative amounts are allowed. */
+export async function assignToEnvelope(userId: string, data: EnvelopeAssignmentData): Promise<EnvelopeChangeResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!data?.categoryId || !data.month || data.amount === undefined) return { success: false, error: "Category, month and amount are required." };
+  const amount = parseMoney(data.amount);
+  if (amount === null) return { success: false, error: "Amount must be a number." };
+  return changeEnvelopes(userId, data.month, [data.categoryId], () => amount);
+}
+
+/**
+ * Moves money in a month from one envelope to another, or between an envelope and the
+ * "to be assigned" pool when a side is null. An envelope may be left negative.
+ */
+export async function moveEnvelopeMoney(userId: string, data: EnvelopeMoveData): Promise<EnvelopeChangeResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!data?.month || data.amount === undefined) return { success: false, error: "Month and amount are required." };
+  const amount = parseMoney(data.amount);
+  if (amount === null || amount <= 0) return { success: false, error: "Amount must be a positive number." };
+  const from = data.fromCategoryId || null;
+  const to = data.toCategoryId || null;
+  if (from === to) return { success: false, error: "Choose two different envelopes." };
+  const categoryIds = [from, to].filter((id): id is string => id !== null);
+  return changeEnvelopes(userId, data.month, categoryIds, (categoryId, current) =>
+    categoryId === from ? subtractMoney(current, amount) : addMoney(current, amount));
+}
+
+// --- Tags ---
+
+const MAX_TAG_NAME_LENGTH = 50;
+
+function tagNameError(name: string | undefined): string | null {
+  if (!name?.trim()) return "Tag name is required.";
+  if (name.trim().length > MAX_TAG_NAME_LENGTH) return `Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters.`;
+  return null;
+}
+
+/** Whether another of the user's tags already has `name`, ignoring case. */
+async function isTagNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  return (await listEntity('tags', userId)).some(tag => tag.id !== exceptId && tag.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+export interface AddTagResult { success: boolean; tag?: Tag; error?: string; }
+export const addTag = async (userId: string, tagData: NewTagData): Promise<AddTagResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  const nameError = tagNameError(tagData.name);
+  if (nameError) return { success: false, error: nameError };
+  if (await isTagNameTaken(userId, tagData.name)) return { success: false, error: "A tag with this name already exists." };
+
+  const nowTs = Date.now();
+  const newTag: Tag = { id: randomUUID(), userId, name: tagData.name.trim(), createdAt: nowTs, updatedAt: nowTs };
+  const result = await insertEntity('tags', newTag, 'tag');
+  return { success: result.success, tag: result.success ? newTag : undefined, error: result.error };
+};
+
+export async function getTagsForUser(userId: string): Promise<Tag[]> {
+  return listEntity('tags', userId);
+}
+
+export const updateTag = async (userId: string, tagId: string, data: UpdateTagData, expectedVersion?: number): Promise<VersionedUpdateResult<Tag>> => {
+  if (!userId || !tagId) return { success: false, error: "User ID and Tag ID are required." };
+  if (data.name !== undefined) {
+    const nameError = tagNameError(data.name);
+    if (nameError) return { success: false, error: nameError };
+    if (await isTagNameTaken(userId, data.name, tagId)) return { success: false, error: "A tag with this name already exists." };
   }
+  return updateEntity('tags', userId, tagId, { name: data.name?.trim() }, 'tag', expectedVersion);
 };
 
-export interface AddInvestmentResult { success: boolean; investmentId?: string; error?: string; }
-export const addInvestment = async (userId: string, investmentData: NewInvestmentData): Promise<AddInvestmentResult> => {
+/** Tagged records keep the tag's id, so restoring the tag from the trash tags them again. */
+export const deleteTag = async (userId: string, tagId: string): Promise<UpdateResult> => {
+  if (!userId || !tagId) return { success: false, error: "User ID and Tag ID are required." };
+  return deleteEntity('tags', userId, tagId, 'tag');
+};
+
+async function tagIdsOf(userId: string): Promise<Set<string>> {
+  return new Set((await listEntity('tags', userId)).map(tag => tag.id));
+}
+
+/**
+ * Tag ids as saved: without repeats, and null when there are none. Added ids must be of the
+ * user's active tags; ids the record already had (`kept`) stay even if their tag was deleted.
+ */
+function checkTagIds(tagIds: unknown, known: Set<string>, kept?: string[] | null): { tagIds: string[] | null } | { error: string } {
+  if (tagIds === null) return { tagIds: null };
+  if (!Array.isArray(tagIds) || tagIds.some(id => typeof id !== 'string')) return { error: "Tag IDs must be a list of tag IDs." };
+  if (tagIds.some(id => !known.has(id) && !kept?.includes(id))) return { error: "Tag not found." };
+  return { tagIds: tagIds.length ? [...new Set(tagIds as string[])] : null };
+}
+
+// --- Payees ---
+
+const MAX_PAYEE_NAME_LENGTH = 100;
+const MAX_PAYEE_ALIASES = 50;
+
+function payeeNameError(name: string | undefined): string | null {
+  if (!name?.trim()) return "Payee name is required.";
+  if (name.trim().length > MAX_PAYEE_NAME_LENGTH) return `Payee name must be at most ${MAX_PAYEE_NAME_LENGTH} characters.`;
+  return null;
+}
+
+/** Whether another of the user's payees already has `name`, ignoring case. */
+async function isPayeeNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  return (await listEntity('payees', userId)).some(payee => payee.id !== exceptId && payee.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/** Aliases as saved: trimmed, without blanks or repeats (ignoring case). */
+function checkPayeeAliases(aliases: unknown): { aliases: string[] } | { error: string } {
+  if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string')) return { error: "Payee aliases must be a list of names." };
+  const unique = new Map<string, string>();
+  for (const alias of aliases as string[]) {
+    if (alias.trim() && !unique.has(alias.trim().toLowerCase())) unique.set(alias.trim().toLowerCase(), alias.trim());
+  }
+  const checked = [...unique.values()];
+  if (checked.length > MAX_PAYEE_ALIASES) return { error: `A payee can have at most ${MAX_PAYEE_ALIASES} aliases.` };
+  if (checked.some(alias => alias.length > MAX_PAYEE_NAME_LENGTH)) return { error: `Payee aliases must be at most ${MAX_PAYEE_NAME_LENGTH} characters.` };
+  return { aliases: checked };
+}
+
+/** The default category as saved: the name of one of the user's categories, or null for none. */
+async function checkPayeeCategory(userId: string, category: string | null): Promise<{ defaultCategory: string | null } | { error: string }> {
+  if (category === null || !category.trim()) return { defaultCategory: null };
+  const found = findCategory(await listEntity('categories', userId), category);
+  return found ? { defaultCategory: found.name } : { error: "Category not found." };
+}
+
+export interface AddPayeeResult { success: boolean; payee?: Payee; error?: string; }
+export const addPayee = async (userId: string, payeeData: NewPayeeData): Promise<AddPayeeResult> => {
   if (!userId) return { success: false, error: "User ID is required." };
-  const newInvestmentId = randomUUID();
-  const now = new Date();
+  const nameError = payeeNameError(payeeData.name);
+  if (nameError) return { success: false, error: nameError };
+  if (await isPayeeNameTaken(userId, payeeData.name)) return { success: false, error: "A payee with this name already exists." };
+  const aliases = checkPayeeAliases(payeeData.aliases ?? []);
+  if ('error' in aliases) return { success: false, error: aliases.error };
+  const category = await checkPayeeCategory(userId, payeeData.defaultCategory ?? null);
+  if ('error' in category) return { success: false, error: category.error };
+
+  const nowTs = Date.now();
+  const newPayee: Payee = { id: randomUUID(), userId, name: payeeData.name.trim(), ...aliases, ...category, createdAt: nowTs, updatedAt: nowTs };
+  const result = await insertEntity('payees', newPayee, 'payee');
+  return { success: result.success, payee: result.success ? newPayee : undefined, error: result.error };
+};
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query(
-        'INSERT INTO investments (id, user_id, name, type, initial_amount, current_value, quantity, symbol, institution, acquisition_date, notes, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $12) RETURNING id', 
-        [
-          newInvestmentId, userId, investmentData.name, investmentData.type,
-          investmentData.initialAmount || null, investmentData.currentValue,
-          investmentData.quantity || null, investmentData.symbol || null,
-          investmentData.institution || null, investmentData.acquisitionDate || null,
-          investmentData.notes || null, now
-        ]
-      );
-      return { success: true, investmentId: res.rows[0].id };
-    } catch (error: any) {
-      console.error("Error adding investment to PostgreSQL:", error.message);
-      return { success: false, error: "Database error adding investment." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]) return { success: false, error: "User not found." };
-    if (!db.users[userId].investments) db.users[userId].investments = [];
-    const nowTs = now.getTime();
-    const newInvestment: Investment = {
-      id: newInvestmentId, userId,
-      ...investmentData,
-      createdAt: nowTs,
-      updatedAt: nowTs,
-    };
-    db.users[userId].investments.push(newInvestment);
-    await writeDB(db);
-    return { success: true, investmentId: newInvestmentId };
+export async function getPayeesForUser(userId: string): Promise<Payee[]> {
+  return listEntity('payees', userId);
+}
+
+export const updatePayee = async (userId: string, payeeId: string, data: UpdatePayeeData, expectedVersion?: number): Promise<VersionedUpdateResult<Payee>> => {
+  if (!userId || !payeeId) return { success: false, error: "User ID and Payee ID are required." };
+  if (data.name !== undefined) {
+    const nameError = payeeNameError(data.name);
+    if (nameError) return { success: false, error: nameError };
+    if (await isPayeeNameTaken(userId, data.name, payeeId)) return { success: false, error: "A payee with this name already exists." };
   }
+  const aliases = data.aliases === undefined ? null : checkPayeeAliases(data.aliases);
+  if (aliases && 'error' in aliases) return { success: false, error: aliases.error };
+  const category = data.defaultCategory === undefined ? null : await checkPayeeCategory(userId, data.defaultCategory);
+  if (category && 'error' in category) return { success: false, error: category.error };
+  return updateEntity('payees', userId, payeeId, { name: data.name?.trim(), aliases: aliases?.aliases, defaultCategory: category?.defaultCategory }, 'payee', expectedVersion);
 };
 
-export async function getInvestmentsForUser(userId: string): Promise<Investment[]> {
-  if (!userId) return [];
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-        console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get investments.");
-        return []; 
+/** Linked records keep the payee's id, so restoring the payee from the trash links them again. */
+export const deletePayee = async (userId: string, payeeId: string): Promise<UpdateResult> => {
+  if (!userId || !payeeId) return { success: false, error: "User ID and Payee ID are required." };
+  return deleteEntity('payees', userId, payeeId, 'payee');
+};
+
+/**
+ * Links the user's transactions and card purchases without a payee whose description
+ * matches `payeeId` (by its name or aliases, as on import), so a payee created for
+ * descriptions already saved also covers them. Records with another payee are left alone.
+ */
+export async function linkPayeeRecords(userId: string, payeeId: string): Promise<{ success: boolean; linked?: number; error?: string }> {
+  if (!userId || !payeeId) return { success: false, error: "User ID and Payee ID are required." };
+  try {
+    const payees = await listEntity('payees', userId);
+    if (!payees.some(payee => payee.id === payeeId)) return { success: false, error: "Payee not found." };
+    const now = Date.now();
+    const updates: LinkedUpdate[] = [];
+    for (const entity of ['transactions', 'creditCardPurchases'] as const) {
+      for (const before of await listEntity(entity, userId)) {
+        if (before.payeeId || matchPayee(before.description || '', payees)?.id !== payeeId) continue;
+        const version = versionOf(before) ?? 0;
+        const patch = { payeeId, updatedAt: Math.max(now, version + 1) };
+        updates.push({ before, operation: { entity, type: 'update', id: before.id, patch, expectedUpdatedAt: version } as TaggedBatchOperation });
+      }
     }
-    try {
-      const res = await pool.query<Investment>(
-        'SELECT id, user_id AS "userId", name, type, initial_amount AS "initialAmount", current_value AS "currentValue", quantity, symbol, institution, acquisition_date AS "acquisitionDate", notes, created_at AS "createdAt", updated_at FROM investments WHERE user_id = $1 ORDER BY created_at DESC',
-        [userId]
-      );
-      return res.rows.map(inv => ({
-        ...inv,
-        initialAmount: inv.initialAmount != null ? Number(inv.initialAmount) : null,
-        currentValue: Number(inv.currentValue),
-        quantity: inv.quantity != null ? Number(inv.quantity) : null,
-        createdAt: new Date(inv.createdAt).getTime(),
-        updatedAt: inv.updatedAt ? new Date(inv.updatedAt).getTime() : new Date(inv.createdAt).getTime(),
-        acquisitionDate: inv.acquisitionDate ? formatDateFns(new Date(inv.acquisitionDate), 'yyyy-MM-dd') : null,
-      }));
-    } catch (error: any) {
-      console.error("Error fetching investments from PostgreSQL:", error.message);
-      return [];
+    if (updates.length && !(await applyWithLinked(userId, [], updates)).applied) {
+      return { success: false, error: "Records changed while linking them to the payee. Try again." };
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userData = db.users[userId];
-    return userData?.investments?.map(inv => ({...inv, updatedAt: inv.updatedAt || inv.createdAt })).sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)) || [];
+    return { success: true, linked: updates.length };
+  } catch (error: any) {
+    console.error("Error linking payee records:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error linking payee records.") };
   }
 }
 
-export const updateInvestment = async (userId: string, investmentId: string, updateData: UpdateInvestmentData): Promise<UpdateResult> => {
-  if (!userId || !investmentId) return { success: false, error: "User ID and Investment ID are required." };
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const fields: string[] = [];
-      const values: any[] = [];
-      let queryIndex = 1;
-
-      (Object.keys(updateData) as Array<keyof UpdateInvestmentData>).forEach(key => {
-        if (updateData[key] !== undefined) {
-          const dbKeyMap: Record<keyof UpdateInvestmentData, string> = {
-            name: 'name', type: 'type', initialAmount: 'initial_amount', currentValue: 'current_value',
-            quantity: 'quantity', symbol: 'symbol', institution: 'institution',
-            acquisitionDate: 'acquisition_date', notes: 'notes',
-          };
-          const dbKey = dbKeyMap[key] || key;
-          fields.push(`${dbKey} = $${queryIndex++}`);
-          values.push(updateData[key]);
-        }
-      });
+/**
+ * The payee a record is saved with. Left out (undefined), it is the payee matching
+ * `description`, if any; null or '' clears it. Otherwise it must be one of `payees`, or the
+ * payee the record already has (`kept`) even if that one was deleted.
+ */
+function resolvePayee(payeeId: unknown, description: string | undefined, payees: Payee[], kept?: string | null): { payeeId: string | null } | { error: string } {
+  if (payeeId === undefined) return { payeeId: description ? matchPayee(description, payees)?.id ?? null : null };
+  if (payeeId === null || payeeId === '') return { payeeId: null };
+  if (typeof payeeId !== 'string') return { error: "Payee ID must be a string." };
+  if (payeeId !== kept && !payees.some(payee => payee.id === payeeId)) return { error: "Payee not found." };
+  return { payeeId };
+}
+
+/**
+ * Updates that carry category `from` over to `to` in payees' default category, trashed
+ * payees included; a null `to` leaves them without a default.
+ */
+async function payeeCategoryUpdates(userId: string, from: string, to: string | null): Promise<LinkedUpdate[]> {
+  const now = Date.now();
+  return (await storage().list('payees', userId))
+    .filter(payee => payee.defaultCategory?.toLowerCase() === from.toLowerCase())
+    .map(before => {
+      const version = versionOf(before) ?? 0;
+      const patch = { defaultCategory: to, updatedAt: Math.max(now, version + 1) };
+      return { before, operation: { entity: 'payees', type: 'update', id: before.id, patch, expectedUpdatedAt: version } as TaggedBatchOperation };
+    });
+}
 
-      if (fields.length === 0) return { success: true, error: 'No fields to update.' };
+export interface AddFinancialGoalResult { success: boolean; goalId?: string; error?: string; }
+export const addFinancialGoal = async (userId: string, goalData: NewFinancialGoalData): Promise<AddFinancialGoalResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (hasInvalidCurrency(goalData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  const nowTs = Date.now();
+  const newGoal: FinancialGoal = {
+    id: randomUUID(), userId,
+    name: goalData.name,
+    targetAmount: goalData.targetAmount,
+    currentAmount: goalData.currentAmount || 0,
+    currency: goalData.currency || await baseCurrencyOf(userId),
+    targetDate: goalData.targetDate || null,
+    description: goalData.description || null,
+    icon: goalData.icon || null,
+    status: goalData.status || 'active',
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('financialGoals', newGoal, 'financial goal');
+  return { success: result.success, goalId: result.id, error: result.error };
+};
 
-      fields.push(`updated_at = $${queryIndex++}`);
-      values.push(new Date());
-      
-      values.push(investmentId); 
-      values.push(userId); 
+export async function getFinancialGoalsForUser(userId: string): Promise<FinancialGoal[]> {
+  return listEntity('financialGoals', userId);
+}
 
-      const query = `UPDATE investments SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}`;
-      const res = await pool.query(query, values);
+export const updateFinancialGoal = async (userId: string, goalId: string, updateData: UpdateFinancialGoalData, expectedVersion?: number): Promise<VersionedUpdateResult<FinancialGoal>> => {
+  if (!userId || !goalId) return { success: false, error: "User ID and Goal ID are required." };
+  if (hasInvalidCurrency(updateData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  return updateEntity('financialGoals', userId, goalId, {
+    name: updateData.name, targetAmount: updateData.targetAmount, currentAmount: updateData.currentAmount, currency: updateData.currency,
+    targetDate: updateData.targetDate, description: updateData.description, icon: updateData.icon, status: updateData.status,
+  }, 'goal', expectedVersion);
+};
 
-      if (res.rowCount === 0) return { success: false, error: "Investment not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error updating investment in PostgreSQL:", error.message);
-      return { success: false, error: "Database error updating investment." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.investments) return { success: false, error: "User or investments not found." };
-    const invIndex = db.users[userId].investments.findIndex(inv => inv.id === investmentId);
-    if (invIndex === -1) return { success: false, error: "Investment not found." };
-
-    db.users[userId].investments[invIndex] = {
-      ...db.users[userId].investments[invIndex],
-      ...updateData,
-      updatedAt: Date.now(),
-    };
-    await writeDB(db);
-    return { success: true };
-  }
+export const deleteFinancialGoal = async (userId: string, goalId: string): Promise<UpdateResult> => {
+  if (!userId || !goalId) return { success: false, error: "User ID and Goal ID are required." };
+  return deleteEntity('financialGoals', userId, goalId, 'goal');
+};
+
+export interface AddInvestmentResult { success: boolean; investmentId?: string; error?: string; }
+export const addInvestment = async (userId: string, investmentData: NewInvestmentData): Promise<AddInvestmentResult> => {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (hasInvalidCurrency(investmentData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  const nowTs = Date.now();
+  const newInvestment: Investment = {
+    id: randomUUID(), userId,
+    ...investmentData,
+    currency: investmentData.currency || await baseCurrencyOf(userId),
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('investments', newInvestment, 'investment');
+  return { success: result.success, investmentId: result.id, error: result.error };
+};
+
+export async function getInvestmentsForUser(userId: string): Promise<Investment[]> {
+  return listEntity('investments', userId);
+}
+
+export const updateInvestment = async (userId: string, investmentId: string, updateData: UpdateInvestmentData, expectedVersion?: number): Promise<VersionedUpdateResult<Investment>> => {
+  if (!userId || !investmentId) return { success: false, error: "User ID and Investment ID are required." };
+  if (hasInvalidCurrency(updateData)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  return updateEntity('investments', userId, investmentId, {
+    name: updateData.name, type: updateData.type, initialAmount: updateData.initialAmount, currentValue: updateData.currentValue,
+    currency: updateData.currency,
+    quantity: updateData.quantity, symbol: updateData.symbol, institution: updateData.institution,
+    acquisitionDate: updateData.acquisitionDate, notes: updateData.notes,
+  }, 'investment', expectedVersion);
 };
 
 export const deleteInvestment = async (userId: string, investmentId: string): Promise<UpdateResult> => {
   if (!userId || !investmentId) return { success: false, error: "User ID and Investment ID are required." };
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    try {
-      const res = await pool.query('DELETE FROM investments WHERE id = $1 AND user_id = $2', [investmentId, userId]);
-      if (res.rowCount === 0) return { success: false, error: "Investment not found or not owned by user." };
-      return { success: true };
-    } catch (error: any) {
-      console.error("Error deleting investment from PostgreSQL:", error.message);
-      return { success: false, error: "Database error deleting investment." };
-    }
-  } else { // Local JSON mode
-    const db = await readDB();
-    if (!db.users[userId]?.investments) return { success: false, error: "User or investments not found." };
-    const initialLength = db.users[userId].investments.length;
-    db.users[userId].investments = db.users[userId].investments.filter(inv => inv.id !== investmentId);
-    if (db.users[userId].investments.length === initialLength) return { success: false, error: "Investment not found." };
-    await writeDB(db);
+  return deleteEntity('investments', userId, investmentId, 'investment');
+};
+
+
+// --- Attachments ---
+
+export interface AttachmentUpload {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface AddAttachmentResult {
+  success: boolean;
+  attachment?: Attachment;
+  error?: string;
+}
+
+const MAX_ATTACHMENT_NAME_LENGTH = 200;
+
+/** Largest file accepted, in bytes, from ATTACHMENT_MAX_MB. */
+function maxAttachmentBytes(): number {
+  const megabytes = Number(process.env.ATTACHMENT_MAX_MB);
+  return (megabytes > 0 ? megabytes : DEFAULT_MAX_ATTACHMENT_MB) * 1024 * 1024;
+}
+
+function attachmentFileError(file: AttachmentUpload): string | null {
+  if (!file.data?.length) return "The file is empty.";
+  if (file.data.length > maxAttachmentBytes()) return `Files can have at most ${maxAttachmentBytes() / (1024 * 1024)} MB.`;
+  if (!isAttachmentContentType(file.contentType)) return "Only images and PDF files can be attached.";
+  return null;
+}
+
+/** The name without any directory part, or `anexo.<type>` when nothing is left. */
+function attachmentFileName(fileName: string, contentType: string): string {
+  const name = (fileName || '').split(/[\\/]/).pop()!.trim().slice(0, MAX_ATTACHMENT_NAME_LENGTH);
+  return name || `anexo.${contentType.split('/')[1]}`;
+}
+
+/** Content type and bytes of a base64 data URI, or null if `value` is not one. */
+function parseDataUri(value: string): { contentType: string; data: Buffer } | null {
+  const match = /^data:([\w.+-]+\/[\w.+-]+)(?:;[\w.+-]+=[^;,]*)*;base64,([\s\S]*)$/.exec(value);
+  return match ? { contentType: match[1].toLowerCase(), data: Buffer.from(match[2], 'base64') } : null;
+}
+
+/** Writes the file (and thumbnail) first, then the record; a file without a record is removed again. */
+async function storeAttachment(userId: string, ownerEntity: AttachmentOwner, ownerId: string, file: AttachmentUpload): Promise<AddAttachmentResult> {
+  const id = randomUUID();
+  const thumbnail = await createThumbnail(file.data, file.contentType);
+  try {
+    const store = getAttachmentStore();
+    await store.put(attachmentKey(userId, id), file.data, file.contentType);
+    if (thumbnail) await store.put(thumbnailKey(userId, id), thumbnail, 'image/jpeg');
+  } catch (error: any) {
+    console.error(`Error storing attachment file for user ${userId}:`, error.message);
+    await removeAttachmentFiles(userId, [id]);
+    return { success: false, error: storageErrorMessage(error, "Error storing the file.") };
+  }
+
+  const nowTs = Date.now();
+  const attachment: Attachment = {
+    id,
+    userId,
+    ownerEntity,
+    ownerId,
+    fileName: attachmentFileName(file.fileName, file.contentType),
+    contentType: file.contentType,
+    size: file.data.length,
+    hasThumbnail: !!thumbnail,
+    createdAt: nowTs,
+    updatedAt: nowTs,
+  };
+  const result = await insertEntity('attachments', attachment, 'attachment');
+  if (!result.success) {
+    await removeAttachmentFiles(userId, [id]);
+    return { success: false, error: result.error };
+  }
+  return { success: true, attachment };
+}
+
+export async function addAttachment(userId: string, ownerEntity: AttachmentOwner, ownerId: string, file: AttachmentUpload): Promise<AddAttachmentResult> {
+  if (!userId || !ownerId) return { success: false, error: "User ID and owner ID are required." };
+  if (!isAttachmentOwner(ownerEntity)) return { success: false, error: "Files can only be attached to transactions, card purchases, loans and investments." };
+  const fileError = attachmentFileError(file);
+  if (fileError) return { success: false, error: fileError };
+  if (!(await getRecordForUser(userId, ownerEntity, ownerId))) return { success: false, error: "Record not found." };
+  return storeAttachment(userId, ownerEntity, ownerId, file);
+}
+
+/** The user's attachments, oldest first; with `owner`, only those of that record. */
+export async function getAttachmentsForUser(userId: string, owner?: { ownerEntity: AttachmentOwner; ownerId: string }): Promise<Attachment[]> {
+  const attachments = await listEntity('attachments', userId);
+  return owner ? attachments.filter(attachment => attachment.ownerEntity === owner.ownerEntity && attachment.ownerId === owner.ownerId) : attachments;
+}
+
+/** An attachment with its file, or its thumbnail; null if either is missing. */
+export async function getAttachmentFile(userId: string, attachmentId: string, thumbnail = false): Promise<{ attachment: Attachment; data: Buffer } | null> {
+  const attachment = await getRecordForUser(userId, 'attachments', attachmentId);
+  if (!attachment || (thumbnail && !attachment.hasThumbnail)) return null;
+  try {
+    const data = await getAttachmentStore().get(thumbnail ? thumbnailKey(userId, attachmentId) : attachmentKey(userId, attachmentId));
+    return data ? { attachment, data } : null;
+  } catch (error: any) {
+    console.error(`Error reading file of attachment ${attachmentId}:`, error.message);
+    return null;
+  }
+}
+
+/** Deletes an attachment and its file for good; attachments only go to the trash with their owner. */
+export async function deleteAttachment(userId: string, attachmentId: string): Promise<UpdateResult> {
+  if (!userId || !attachmentId) return { success: false, error: "User ID and Attachment ID are required." };
+  try {
+    const attachment = await getRecordForUser(userId, 'attachments', attachmentId);
+    if (!attachment || !(await storage().remove('attachments', userId, attachmentId))) return { success: false, error: "Attachment not found." };
+    await recordHistory(userId, 'attachments', attachmentId, 'purge');
+    await removeAttachmentFiles(userId, [attachmentId]);
     return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting attachment:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error deleting attachment.") };
   }
-};
+}
 
+/**
+ * Receipts used to be saved inline, as a data URI in receiptImageUri. One still sent that
+ * way is stored as an attachment of the transaction instead and the field is cleared.
+ */
+async function moveInlineReceipt(userId: string, transactionId: string, receiptImageUri: string | null | undefined): Promise<{ receiptImageUri?: string | null; attachmentId?: string } | { error: string }> {
+  if (!receiptImageUri?.startsWith('data:')) return { receiptImageUri };
+  const parsed = parseDataUri(receiptImageUri);
+  if (!parsed) return { error: "Invalid receipt image." };
+  const file = { ...parsed, fileName: `comprovante.${parsed.contentType.split('/')[1]}` };
+  const fileError = attachmentFileError(file);
+  if (fileError) return { error: fileError };
+  const stored = await storeAttachment(userId, 'transactions', transactionId, file);
+  if (!stored.success) return { error: stored.error || "Error storing the receipt." };
+  return { receiptImageUri: null, attachmentId: stored.attachment!.id };
+}
 
-async function migrateOldDbStructure() {
-    if (DATABASE_MODE === 'local') {
-        try {
-            const rawData = await fs.readFile(DB_PATH, 'utf-8');
-            const db = JSON.parse(rawData);
-
-            let modified = false;
-            if (!db.users || (db.users && !Object.keys(db.users).every(key => typeof db.users[key]?.profile === 'object'))) {
-                 if (db.transactions || db.loans || db.creditCards || db.creditCardPurchases) {
-                    console.log("Old db.json structure detected. Migrating to multi-user structure...");
-                    const defaultUserId = "default-user-migrated-id";
-                    const newDb: LocalDB = {
-                        users: {
-                            [defaultUserId]: {
-                                profile: {
-                                    id: defaultUserId,
-                                    email: "migrated@example.local",
-                                    displayName: "Migrated User",
-                                    createdAt: Date.now(),
-                                    lastLoginAt: Date.now(),
-                                    notifyByEmail: false,
-                                },
-                                hashedPassword: await bcrypt.hash("password", 10),
-                                transactions: (db.transactions || []).map((tx: any) => {
-                                    const migratedTx: Transaction = {...tx, userId: defaultUserId, recurrenceFrequency: tx.isRecurring ? 'monthly' : 'none', updatedAt: tx.updatedAt || tx.createdAt };
-                                    delete (migratedTx as any).isRecurring;
-                                    return migratedTx;
-                                }),
-                                loans: (db.loans || []).map((l: any) => ({...l, userId: defaultUserId, updatedAt: l.updatedAt || l.createdAt})),
-                                creditCards: (db.creditCards || []).map((cc: any) => ({...cc, userId: defaultUserId, updatedAt: cc.updatedAt || cc.createdAt})),
-                                creditCardPurchases: (db.creditCardPurchases || []).map((p: any) => ({...p, userId: defaultUserId, updatedAt: p.updatedAt || p.createdAt})),
-                                categories: (defaultCategories.map(cat => ({id: randomUUID(), userId: defaultUserId, name: cat.name, isSystemDefined: cat.isSystemDefined || false, createdAt: Date.now(), updatedAt: Date.now() }))),
-                                financialGoals: [],
-                                investments: [],
-                            }
-                        }
-                    };
-                    await writeDB(newDb);
-                    console.log("db.json migrated. Data moved under 'migrated@example.local'. Please update password or create new users.");
-                    modified = true;
-                 } else if (!db.users) {
-                    await writeDB({ users: {} });
-                    console.log("Initialized empty users object in db.json.");
-                 }
-            }
-
-            if (db.users) {
-              for (const userId in db.users) {
-                  if (db.users[userId] && db.users[userId].profile) {
-                      const userRecord = db.users[userId];
-                      if (!userRecord.categories) {
-                          userRecord.categories = [];
-                          defaultCategories.forEach(cat => {
-                              if (!userRecord.categories.find(c => c.name === cat.name)) {
-                                  userRecord.categories.push({
-                                      id: randomUUID(), userId: userId, name: cat.name,
-                                      isSystemDefined: cat.isSystemDefined || false, createdAt: Date.now(), updatedAt: Date.now()
-                                  });
-                              }
-                          });
-                          modified = true;
-                      } else { 
-                        userRecord.categories = userRecord.categories.map(c => ({...c, updatedAt: c.updatedAt || c.createdAt}));
-                      }
-
-
-                      if (!userRecord.financialGoals) {
-                          userRecord.financialGoals = [];
-                          modified = true;
-                      }
-                       if (!userRecord.investments) {
-                          userRecord.investments = [];
-                          modified = true;
-                      }
-                      if (userRecord.profile.notifyByEmail === undefined) {
-                          userRecord.profile.notifyByEmail = false;
-                          modified = true;
-                      }
-                      if (userRecord.transactions) {
-                          userRecord.transactions = userRecord.transactions.map(tx => {
-                              const txAsAny = tx as any;
-                              let frequency = tx.recurrenceFrequency || 'none';
-                              let txModified = false;
-                              if (txAsAny.hasOwnProperty('isRecurring') && typeof txAsAny.isRecurring === 'boolean') {
-                                  if (txAsAny.isRecurring && frequency === 'none') {
-                                      frequency = 'monthly';
-                                  }
-                                  delete txAsAny.isRecurring;
-                                  txModified = true;
-                              }
-                              if (!tx.updatedAt) {
-                                  tx.updatedAt = tx.createdAt;
-                                  txModified = true;
-                              }
-                              if(txModified) modified = true;
-                              return { ...tx, recurrenceFrequency: frequency as RecurrenceFrequency, updatedAt: tx.updatedAt };
-                          });
-                      }
-                      const ensureUpdatedAt = (items: any[] | undefined) => {
-                        if(items) {
-                          let arrayModified = false;
-                          const newArray = items.map(item => {
-                            if(!item.updatedAt) {
-                                arrayModified = true;
-                                return {...item, updatedAt: item.createdAt};
-                            }
-                            return item;
-                          });
-                          if(arrayModified) modified = true; 
-                          return newArray;
-                        }
-                        return items || [];
-                      };
-                      userRecord.loans = ensureUpdatedAt(userRecord.loans);
-                      userRecord.creditCards = ensureUpdatedAt(userRecord.creditCards);
-                      userRecord.creditCardPurchases = ensureUpdatedAt(userRecord.creditCardPurchases);
-                      userRecord.financialGoals = ensureUpdatedAt(userRecord.financialGoals);
-                      userRecord.investments = ensureUpdatedAt(userRecord.investments);
-
-                  }
-              }
-            }
-
-            if (modified) {
-                await writeDB(db);
-                console.log("db.json structure updated for all users.");
-            }
-        } catch (error: any) {
-            if (error.code === 'ENOENT') {
-                await writeDB({ users: {} });
-                 console.log("Initialized empty db.json as it was not found during migration check.");
-            } else {
-                console.error("Error during DB migration check:", error);
-            }
-        }
+/** Moves the receipts saved inline in the user's transactions, trashed ones included, to attachments. Returns how many. */
+export async function moveInlineReceipts(userId: string): Promise<number> {
+  let moved = 0;
+  for (const tx of await storage().list('transactions', userId)) {
+    if (!tx.receiptImageUri?.startsWith('data:')) continue;
+    const receipt = await moveInlineReceipt(userId, tx.id, tx.receiptImageUri);
+    if ('error' in receipt) {
+      console.error(`Receipt of transaction ${tx.id} not moved:`, receipt.error);
+      continue;
     }
+    const version = versionOf(tx) ?? 0;
+    const updated = await storage().update('transactions', userId, tx.id, { receiptImageUri: null, updatedAt: Math.max(Date.now(), version + 1) }, version);
+    if (!updated) {
+      // Changed meanwhile; the next run picks it up again.
+      await deleteAttachment(userId, receipt.attachmentId!);
+      continue;
+    }
+    await recordHistory(userId, 'transactions', tx.id, 'update', diffRecords(tx, updated));
+    moved++;
+  }
+  return moved;
 }
 
-export async function getUserBackupData(userId: string): Promise<UserBackupData | null> {
-  if (!userId) return null;
-  const userProfile = await findUserById(userId);
-  if (!userProfile) return null;
 
-  const profileForBackup: UserBackupData['profile'] = {
-    email: userProfile.email,
-    displayName: userProfile.displayName || undefined,
-    notifyByEmail: userProfile.notifyByEmail || false,
+// --- Exchange rates ---
+
+export async function getExchangeRatesForUser(userId: string): Promise<ExchangeRate[]> {
+  return listEntity('exchangeRates', userId);
+}
+
+export interface SaveExchangeRateResult { success: boolean; rate?: ExchangeRate; error?: string; }
+/** Records a rate, replacing the one already recorded for the same pair and date. */
+export async function saveExchangeRate(userId: string, data: NewExchangeRateData): Promise<SaveExchangeRateResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  if (!isCurrencyCode(data.currency) || !isCurrencyCode(data.quoteCurrency)) return { success: false, error: UNSUPPORTED_CURRENCY };
+  if (data.currency === data.quoteCurrency) return { success: false, error: "A rate needs two different currencies." };
+  const rate = Number(data.rate);
+  if (!Number.isFinite(rate) || rate <= 0) return { success: false, error: "Rate must be a positive number." };
+  if (!isDateString(data.date)) return { success: false, error: "Date must be in yyyy-MM-dd format." };
+  // Same precision as the NUMERIC(20, 10) column, so every backend reads back the same value.
+  const roundedRate = Number(rate.toFixed(10));
+
+  const existing = (await listEntity('exchangeRates', userId))
+    .find(r => r.currency === data.currency && r.quoteCurrency === data.quoteCurrency && r.date === data.date);
+  if (existing) {
+    const result = await updateEntity('exchangeRates', userId, existing.id, { rate: roundedRate }, 'exchange rate');
+    return { success: result.success, rate: result.record ?? existing, error: result.error };
+  }
+
+  const nowTs = Date.now();
+  const newRate: ExchangeRate = {
+    id: randomUUID(), userId, currency: data.currency, quoteCurrency: data.quoteCurrency, rate: roundedRate, date: data.date, createdAt: nowTs, updatedAt: nowTs,
   };
+  const result = await insertEntity('exchangeRates', newRate, 'exchange rate');
+  return { success: result.success, rate: result.success ? newRate : undefined, error: result.error };
+}
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) {
-        console.warn("DATABASE_MODE is postgres but pool is not initialized. Cannot get backup data.");
-        return null; 
-    }
-    const transactions = await getTransactionsForUser(userId);
-    const loans = await getLoansForUser(userId);
-    const creditCards = await getCreditCardsForUser(userId);
-    const creditCardPurchases = await getCreditCardPurchasesForUser(userId);
-    const categories = await getCategoriesForUser(userId);
-    const financialGoals = await getFinancialGoalsForUser(userId);
-    const investments = await getInvestmentsForUser(userId);
+/** Rates are reference data, so they are removed outright instead of going to the trash. */
+export async function deleteExchangeRate(userId: string, rateId: string): Promise<UpdateResult> {
+  if (!userId || !rateId) return { success: false, error: "User ID and Rate ID are required." };
+  try {
+    const removed = await storage().remove('exchangeRates', userId, rateId);
+    if (!removed) return { success: false, error: "Exchange rate not found." };
+    await recordHistory(userId, 'exchangeRates', rateId, 'purge');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting exchange rate:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error deleting exchange rate.") };
+  }
+}
+
+
+export async function getUserBackupData(userId: string): Promise<UserBackupData | null> {
+  if (!userId) return null;
+  try {
+    const user = await storage().findUserById(userId);
+    if (!user) return null;
+
+    const collections = await buildCollections(entity => storage().list(entity, userId));
     return {
-      profile: profileForBackup,
-      transactions, loans, creditCards, creditCardPurchases, categories, financialGoals, investments,
+      profile: {
+        email: user.profile.email,
+        displayName: user.profile.displayName || undefined,
+        notifyByEmail: user.profile.notifyByEmail || false,
+        baseCurrency: user.profile.baseCurrency || DEFAULT_CURRENCY,
+        envelopeStartMonth: user.profile.envelopeStartMonth ?? null,
+      },
+      ...collections,
     };
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userData = db.users[userId];
-    if (!userData) return null;
-
-    const cleanedTransactions = (userData.transactions || []).map(tx => {
-      const { ...cleanedTx } = tx;
-      if ((cleanedTx as any).isRecurring !== undefined) {
-        if (!cleanedTx.recurrenceFrequency || cleanedTx.recurrenceFrequency === 'none') {
-          cleanedTx.recurrenceFrequency = (cleanedTx as any).isRecurring ? 'monthly' : 'none';
-        }
-        delete (cleanedTx as any).isRecurring;
-      } else if (!cleanedTx.recurrenceFrequency) {
-        cleanedTx.recurrenceFrequency = 'none';
+  } catch (error: any) {
+    console.error(`Error building backup for user ${userId}:`, error.message);
+    return null;
+  }
+}
+
+/** The backup as a .tar.gz archive: the data as in getUserBackupData plus every attachment's file and thumbnail. */
+export async function getUserBackupArchive(userId: string): Promise<Buffer | null> {
+  const backupData = await getUserBackupData(userId);
+  if (!backupData) return null;
+  try {
+    const entries: ArchiveEntry[] = [{ name: BACKUP_DATA_ENTRY, data: Buffer.from(JSON.stringify(backupData, null, 2)) }];
+    const store = getAttachmentStore();
+    for (const attachment of backupData.attachments || []) {
+      const file = await store.get(attachmentKey(userId, attachment.id));
+      if (!file) {
+        console.warn(`File of attachment ${attachment.id} is missing; left out of the backup.`);
+        continue;
       }
-      return cleanedTx;
-    });
+      entries.push({ name: `${BACKUP_ATTACHMENTS_DIR}${attachment.id}`, data: file });
+      const thumbnail = attachment.hasThumbnail ? await store.get(thumbnailKey(userId, attachment.id)) : null;
+      if (thumbnail) entries.push({ name: `${BACKUP_ATTACHMENTS_DIR}${attachment.id}.thumb`, data: thumbnail });
+    }
+    return createArchive(entries);
+  } catch (error: any) {
+    console.error(`Error building backup archive for user ${userId}:`, error.message);
+    return null;
+  }
+}
 
-    return {
-      profile: profileForBackup,
-      transactions: cleanedTransactions,
-      loans: userData.loans || [],
-      creditCards: userData.creditCards || [],
-      creditCardPurchases: userData.creditCardPurchases || [],
-      categories: userData.categories || [],
-      financialGoals: userData.financialGoals || [],
-      investments: userData.investments || [],
-    };
+
+// --- Trash (Lixeira) ---
+
+const trashSummaries: { [K in TrashEntity]: (record: EntityRecord<K>) => Pick<TrashItem, 'description' | 'amount'> } = {
+  accounts: account => ({ description: account.name, amount: account.openingBalance }),
+  tags: tag => ({ description: tag.name }),
+  payees: payee => ({ description: payee.name }),
+  transactions: tx => ({ description: tx.description || tx.category, amount: tx.amount }),
+  creditCards: card => ({ description: card.name, amount: card.limit }),
+  creditCardPurchases: purchase => ({ description: purchase.description, amount: purchase.totalAmount }),
+  loans: loan => ({ description: `${loan.bankName} - ${loan.description}`, amount: loan.installmentAmount }),
+  financialGoals: goal => ({ description: goal.name, amount: goal.targetAmount }),
+  investments: investment => ({ description: investment.name, amount: investment.currentValue }),
+};
+
+/** Parents whose deletion cascades to `entity`, e.g. creditCards for creditCardPurchases. */
+function cascadeParentsOf(entity: EntityName): Array<{ parent: EntityName; foreignKey: string }> {
+  return entityNames.flatMap(parent =>
+    (entityDefinitions[parent].cascade || []).filter(child => child.entity === entity).map(child => ({ parent, foreignKey: child.foreignKey }))
+  );
+}
+
+/**
+ * Items in the trash, most recently deleted first. Children trashed together with
+ * their parent (a card's purchases) are not listed on their own: they come back
+ * with the parent and are counted in its `childCount`.
+ */
+export async function getTrashForUser(userId: string): Promise<TrashItem[]> {
+  if (!userId) return [];
+  await purgeExpiredTrash(userId);
+  const retentionDays = getTrashRetentionDays();
+  try {
+    const trashed = await listTrashed(userId);
+    const trashedWith = (record: any, entity: EntityName, foreignKey: string, id: string) =>
+      (trashed.get(entity) || []).filter(other => other[foreignKey] === id && other.deletedAt === record.deletedAt);
+
+    const items: TrashItem[] = [];
+    for (const entity of TRASH_ENTITIES) {
+      for (const record of trashed.get(entity)!) {
+        const cascadedFromParent = cascadeParentsOf(entity).some(({ parent, foreignKey }) => trashedWith(record, parent, 'id', record[foreignKey]).length > 0);
+        if (cascadedFromParent) continue;
+        const childCount = (entityDefinitions[entity].cascade || [])
+          .reduce((count, child) => count + trashedWith(record, child.entity, child.foreignKey, record.id).length, 0);
+        items.push({
+          entity,
+          id: record.id,
+          ...trashSummaries[entity](record),
+          deletedAt: record.deletedAt,
+          purgeAt: retentionDays > 0 ? record.deletedAt + retentionDays * DAY_MS : null,
+          childCount,
+        });
+      }
+    }
+    return items.sort((a, b) => b.deletedAt - a.deletedAt);
+  } catch (error: any) {
+    console.error(`Error fetching trash for user ${userId}:`, error.message);
+    return [];
   }
 }
 
-export async function restoreUserBackupData(userId: string, backupData: UserBackupData): Promise<UpdateResult> {
-  if (!userId) return { success: false, error: "User ID is required for restore." };
+/** Restores a trashed item with its cascaded children. Refuses while its parent is still in the trash. */
+export async function restoreFromTrash(userId: string, entity: TrashEntity, id: string): Promise<UpdateResult> {
+  if (!userId || !id || !TRASH_ENTITIES.includes(entity)) return { success: false, error: "User ID, a valid entity and item ID are required." };
+  try {
+    const record: any = await storage().get(entity, userId, id);
+    if (!record || !record.deletedAt) return { success: false, error: "Item not found in trash." };
+    for (const { parent, foreignKey } of cascadeParentsOf(entity)) {
+      const parentRecord: any = await storage().get(parent, userId, record[foreignKey]);
+      if (parentRecord?.deletedAt) return { success: false, error: "Restore the parent item (e.g. the credit card) first." };
+    }
+    const cascaded = await cascadeChildrenOf(entity, userId, id, child => child.deletedAt === record.deletedAt);
+    const linked = await trashLinkedUpdates(userId, [{ entity, record }, ...cascaded], true);
+    const restored = linked.length
+      ? (await applyWithLinked(userId, [{ entity, type: 'restore', id } as TaggedBatchOperation], linked)).applied
+      : await storage().restore(entity, userId, id);
+    if (!restored) return { success: false, error: "Item not found in trash." };
+    for (const item of [{ entity, id }, ...cascaded]) await recordHistory(userId, item.entity, item.id, 'restore');
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error restoring item from trash:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error restoring item.") };
+  }
+}
 
-  if (!backupData || typeof backupData.profile !== 'object' || !Array.isArray(backupData.transactions) || !Array.isArray(backupData.loans) || !Array.isArray(backupData.creditCards) || !Array.isArray(backupData.creditCardPurchases) || !Array.isArray(backupData.categories) || !Array.isArray(backupData.financialGoals) || !Array.isArray(backupData.investments) ) {
-    return { success: false, error: "Invalid backup file structure." };
+/** Permanently deletes a trashed item and its children. */
+export async function deleteFromTrash(userId: string, entity: TrashEntity, id: string): Promise<UpdateResult> {
+  if (!userId || !id || !TRASH_ENTITIES.includes(entity)) return { success: false, error: "User ID, a valid entity and item ID are required." };
+  try {
+    const record = await storage().get(entity, userId, id);
+    if (!record || !record.deletedAt) return { success: false, error: "Item not found in trash." };
+    await purgeRecord(userId, entity, id, userId);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error deleting item from trash:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error deleting item.") };
   }
+}
 
-  if (DATABASE_MODE === 'postgres') {
-    if (!pool) return { success: false, error: "Database service (PostgreSQL) not configured correctly." };
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
-      await client.query('DELETE FROM investments WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM financial_goals WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM transactions WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM loans WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM credit_card_purchases WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM credit_cards WHERE user_id = $1', [userId]);
-      await client.query('DELETE FROM user_categories WHERE user_id = $1', [userId]);
-
-      let updateUserQuery = 'UPDATE app_users SET updated_at = NOW()';
-      const updateUserValues = [];
-      let valueIndex = 1;
-      if (backupData.profile.displayName) {
-        updateUserQuery += `, display_name = $${valueIndex++}`;
-        updateUserValues.push(backupData.profile.displayName);
-      }
-      updateUserQuery += `, notify_by_email = $${valueIndex++}`;
-      updateUserValues.push(backupData.profile.notifyByEmail || false);
-      updateUserQuery += ` WHERE id = $${valueIndex++}`;
-      updateUserValues.push(userId);
-      await client.query(updateUserQuery, updateUserValues);
-
-      for (const tx of backupData.transactions) {
-        await client.query('INSERT INTO transactions (id, user_id, type, amount, category, date, description, recurrence_frequency, created_at, receipt_image_uri, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)',
-          [tx.id, userId, tx.type, tx.amount, tx.category, tx.date, tx.description, tx.recurrenceFrequency || 'none', new Date(tx.createdAt), tx.receiptImageUri, new Date(tx.updatedAt || tx.createdAt)]);
-      }
-      for (const loan of backupData.loans) {
-         await client.query('INSERT INTO loans (id, user_id, bank_name, description, installment_amount, installments_count, start_date, end_date, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)',
-          [loan.id, userId, loan.bankName, loan.description, loan.installmentAmount, loan.installmentsCount, loan.startDate, loan.endDate, new Date(loan.createdAt), new Date(loan.updatedAt || loan.createdAt)]);
-      }
-      for (const card of backupData.creditCards) {
-         await client.query('INSERT INTO credit_cards (id, user_id, name, limit_amount, due_date_day, closing_date_day, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
-          [card.id, userId, card.name, card.limit, card.dueDateDay, card.closingDateDay, new Date(card.createdAt), new Date(card.updatedAt || card.createdAt)]);
-      }
-      for (const purchase of backupData.creditCardPurchases) {
-        await client.query('INSERT INTO credit_card_purchases (id, user_id, card_id, purchase_date, description, category, total_amount, installments, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)',
-          [purchase.id, userId, purchase.cardId, purchase.date, purchase.description, purchase.category, purchase.totalAmount, purchase.installments, new Date(purchase.createdAt), new Date(purchase.updatedAt || purchase.createdAt)]);
-      }
-      for (const category of backupData.categories) {
-         await client.query('INSERT INTO user_categories (id, user_id, name, is_system_defined, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $5)', 
-          [category.id, userId, category.name, category.isSystemDefined, new Date(category.createdAt)]);
-      }
-      for (const goal of backupData.financialGoals) {
-        await client.query('INSERT INTO financial_goals (id, user_id, name, target_amount, current_amount, target_date, description, icon, status, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)',
-          [goal.id, userId, goal.name, goal.targetAmount, goal.currentAmount, goal.targetDate || null, goal.description || null, goal.icon || null, goal.status, new Date(goal.createdAt), new Date(goal.updatedAt || goal.createdAt)]);
-      }
-      for (const inv of backupData.investments) {
-        await client.query('INSERT INTO investments (id, user_id, name, type, initial_amount, current_value, quantity, symbol, institution, acquisition_date, notes, created_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $12)', 
-          [inv.id, userId, inv.name, inv.type, inv.initialAmount, inv.currentValue, inv.quantity, inv.symbol, inv.institution, inv.acquisitionDate, inv.notes, new Date(inv.createdAt), new Date(inv.updatedAt || inv.createdAt)]);
+export async function emptyTrash(userId: string): Promise<UpdateResult> {
+  if (!userId) return { success: false, error: "User ID is required." };
+  try {
+    for (const [entity, records] of await listTrashed(userId)) {
+      for (const record of records) {
+        await purgeRecord(userId, entity, record.id, userId);
       }
-      await client.query('COMMIT');
-      return { success: true };
-    } catch (error: any) {
-      await client.query('ROLLBACK');
-      console.error("Error restoring user data in PostgreSQL:", error.message);
-      return { success: false, error: "Database error during restore." };
-    } finally {
-      client.release();
     }
-  } else { // Local JSON mode
-    const db = await readDB();
-    const userRecord = db.users[userId];
-    if (!userRecord) return { success: false, error: "User not found." };
-
-    userRecord.profile.displayName = backupData.profile.displayName || userRecord.profile.displayName;
-    userRecord.profile.notifyByEmail = backupData.profile.notifyByEmail === undefined ? userRecord.profile.notifyByEmail : backupData.profile.notifyByEmail;
-    userRecord.profile.updatedAt = Date.now();
-
-    userRecord.transactions = backupData.transactions.map(t => ({...t, userId, recurrenceFrequency: t.recurrenceFrequency || 'none'}));
-    userRecord.loans = backupData.loans.map(l => ({...l, userId}));
-    userRecord.creditCards = backupData.creditCards.map(cc => ({...cc, userId}));
-    userRecord.creditCardPurchases = backupData.creditCardPurchases.map(p => ({...p, userId}));
-    userRecord.categories = backupData.categories.map(cat => ({...cat, userId}));
-    userRecord.financialGoals = backupData.financialGoals.map(g => ({...g, userId}));
-    userRecord.investments = backupData.investments.map(inv => ({...inv, userId}));
-
-    await writeDB(db);
     return { success: true };
+  } catch (error: any) {
+    console.error("Error emptying trash:", error.message);
+    return { success: false, error: storageErrorMessage(error, "Database error emptying trash.") };
   }
 }
 
-migrateOldDbStructure().catch(err => console.error("Migration check failed:", err));
+/** History of one record, oldest event first. Kept after the record itself is purged. */
+export async function getRecordHistory(userId: string, entity: UserEntityName, recordId: string): Promise<AuditEvent[]> {
+  if (!userId || !recordId || !entityNames.includes(entity) || (entity as string) === 'auditEvents') return [];
+  try {
+    return (await storage().list('auditEvents', userId)).filter(event => event.entity === entity && event.recordId === recordId);
+  } catch (error: any) {
+    console.error(`Error fetching history of ${entity} ${recordId}:`, error.message);
+    return [];
+  }
+}
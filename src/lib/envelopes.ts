@@ -0,0 +1,102 @@
+// src/lib/envelopes.ts
+import { endOfMonth, format, parseISO } from 'date-fns';
+import type { EnvelopeAssignment, Money, UserCategory } from '@/types';
+import { addMoney, subtractMoney } from '@/lib/money';
+import { categoryLines } from '@/lib/splits';
+import { projectOccurrences } from '@/lib/recurrence';
+import { shiftMonth, type SpendingEntry, type SpendingSources, type ToBase } from '@/lib/budgets';
+
+/**
+ * The month's income, converted with `toBase`: income transactions on each occurrence that was
+ * not skipped, one entry per category line. Transfers between the user's own places are not income.
+ */
+export function monthlyIncome(sources: Pick<SpendingSources, 'transactions' | 'occurrenceStates'>, month: string, toBase: ToBase): SpendingEntry[] {
+  const from = parseISO(`${month}-01`);
+  const entries: SpendingEntry[] = [];
+  for (const tx of sources.transactions) {
+    if (tx.type !== 'income') continue;
+    for (const occurrence of projectOccurrences(tx, sources.occurrenceStates, from, endOfMonth(from))) {
+      if (occurrence.status === 'skipped') continue;
+      const date = format(occurrence.date, 'yyyy-MM-dd');
+      for (const line of categoryLines(tx, toBase(occurrence.amount, tx.currency, tx.date))) {
+        entries.push({ category: line.category, date, amount: line.amount });
+      }
+    }
+  }
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface EnvelopeStatus {
+  categoryId: string;
+  assigned: Money; // Put in the envelope this month
+  activity: Money; // Spent from it this month
+  available: Money; // Everything put in since the start, less everything spent; negative when overspent
+}
+
+export interface EnvelopeMonth {
+  month: string; // 'yyyy-MM'
+  income: Money; // Received this month
+  toBeAssigned: Money; // Income since the start not yet put in an envelope; negative when more was assigned than received
+  unassignedSpending: Money; // Spent this month under names no category has, taken straight from the pool
+  envelopes: EnvelopeStatus[]; // One per category, in the order given
+}
+
+/**
+ * How envelope budgeting stands in `month`, or null before `startMonth`. Income from the start
+ * month on feeds the "to be assigned" pool and assignments move it into envelopes; spending
+ * comes out of the envelope of the category with its name (subcategories have their own), or
+ * out of the pool when no category has it. `spendingOf` and `incomeOf` give a month's entries.
+ */
+export function envelopeMonth(
+  startMonth: string,
+  month: string,
+  categories: UserCategory[],
+  assignments: EnvelopeAssignment[],
+  spendingOf: (month: string) => SpendingEntry[],
+  incomeOf: (month: string) => SpendingEntry[],
+): EnvelopeMonth | null {
+  if (month < startMonth) return null;
+  const idsByName = new Map(categories.map(category => [category.name.trim().toLowerCase(), category.id]));
+  const available = new Map<string, Money>();
+  const assigned = new Map<string, Money>();
+  const activity = new Map<string, Money>();
+  const add = (totals: Map<string, Money>, id: string, amount: Money) => totals.set(id, addMoney(totals.get(id) ?? 0, amount));
+  let toBeAssigned = 0;
+  let income = 0;
+  let unassignedSpending = 0;
+
+  for (let m = startMonth; m <= month; m = shiftMonth(m, 1)) {
+    const received = addMoney(...incomeOf(m).map(entry => entry.amount));
+    toBeAssigned = addMoney(toBeAssigned, received);
+    if (m === month) income = received;
+    for (const assignment of assignments) {
+      if (assignment.month !== m) continue;
+      toBeAssigned = subtractMoney(toBeAssigned, assignment.amount);
+      add(available, assignment.categoryId, assignment.amount);
+      if (m === month) add(assigned, assignment.categoryId, assignment.amount);
+    }
+    for (const entry of spendingOf(m)) {
+      const id = idsByName.get(entry.category.trim().toLowerCase());
+      if (id) {
+        add(available, id, -entry.amount);
+        if (m === month) add(activity, id, entry.amount);
+      } else {
+        toBeAssigned = subtractMoney(toBeAssigned, entry.amount);
+        if (m === month) unassignedSpending = addMoney(unassignedSpending, entry.amount);
+      }
+    }
+  }
+
+  return {
+    month,
+    income,
+    toBeAssigned,
+    unassignedSpending,
+    envelopes: categories.map(category => ({
+      categoryId: category.id,
+      assigned: assigned.get(category.id) ?? 0,
+      activity: activity.get(category.id) ?? 0,
+      available: available.get(category.id) ?? 0,
+    })),
+  };
+}
@@ -0,0 +1,199 @@
+// src/lib/forecast.ts
+import { addDays, addMonths, format, getDate, lastDayOfMonth, parseISO, setDate, startOfDay, startOfMonth } from 'date-fns';
+import type { Account, CreditCard, CreditCardPurchase, FinancialGoal, Money, Transaction } from '@/types';
+import { addMoney, splitMoney, subtractMoney } from '@/lib/money';
+import { projectOccurrences } from '@/lib/recurrence';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import type { SpendingSources, ToBase } from '@/lib/budgets';
+
+export const MIN_FORECAST_MONTHS = 3;
+export const MAX_FORECAST_MONTHS = 24;
+export const DEFAULT_FORECAST_MONTHS = 6;
+
+export const isForecastMonths = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_FORECAST_MONTHS && (value as number) <= MAX_FORECAST_MONTHS;
+
+export type ForecastEventSource = 'transaction' | 'cardInvoice' | 'loan' | 'goal';
+
+/** Money coming in (positive) or going out (negative) on a day, in the base currency. */
+export interface ForecastEvent {
+  date: string; // 'yyyy-MM-dd'
+  amount: Money;
+  source: ForecastEventSource;
+  sourceId: string;
+  description: string; // The transaction's description or category, the card's, loan's or goal's name
+}
+
+export interface ForecastDay {
+  date: string; // 'yyyy-MM-dd'
+  inflow: Money;
+  outflow: Money; // Positive
+  balance: Money; // At the end of the day
+}
+
+export interface CashFlowForecast {
+  from: string; // 'yyyy-MM-dd', today
+  to: string;
+  startingBalance: Money; // Before today: opening balances plus every transaction, invoice and installment before it
+  days: ForecastDay[];
+  events: ForecastEvent[];
+  lowest: { date: string; balance: Money };
+  firstNegativeDate: string | null;
+}
+
+export interface ForecastSources extends SpendingSources {
+  accounts: Account[];
+  goals: FinancialGoal[];
+}
+
+const dateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** `day` of the month of `month`, or its last day when the month is shorter. */
+const dayOf = (month: Date, day: number) => setDate(month, Math.min(day, getDate(lastDayOfMonth(month))));
+
+/** How a transaction moves the balance: transfers between the user's accounts leave it as it is. */
+function transactionFlow(tx: Transaction, amount: Money): Money {
+  if (tx.type === 'income') return amount;
+  if (tx.type === 'transfer' && tx.transferTo === 'account') return 0;
+  return -amount;
+}
+
+/** Occurrences of the transactions that were not skipped, from `from` through `to`, as balance changes. */
+function transactionEvents(sources: ForecastSources, toBase: ToBase, from: Date, to: Date): ForecastEvent[] {
+  return sources.transactions.flatMap(tx => projectOccurrences(tx, sources.occurrenceStates, from, to)
+    .filter(occurrence => occurrence.status !== 'skipped')
+    .map(occurrence => ({
+      date: dateString(occurrence.date),
+      amount: transactionFlow(tx, toBase(occurrence.amount, tx.currency, tx.date)),
+      source: 'transaction' as const,
+      sourceId: tx.id,
+      description: tx.description || tx.category,
+    }))
+    .filter(event => event.amount !== 0));
+}
+
+/** What the card's invoice closing in `month` adds up to: one installment of each purchase billed in it. */
+function invoiceTotal(card: CreditCard, purchases: CreditCardPurchase[], month: Date, toBase: ToBase): Money {
+  let total = 0;
+  for (const purchase of purchases) {
+    if (purchase.cardId !== card.id) continue;
+    const purchaseDate = parseISO(purchase.date);
+    // As on the dashboard: bought after the closing day, the first installment goes to the next invoice.
+    const firstInvoice = startOfMonth(addMonths(purchaseDate, getDate(purchaseDate) > card.closingDateDay ? 1 : 0));
+    const index = (month.getFullYear() - firstInvoice.getFullYear()) * 12 + month.getMonth() - firstInvoice.getMonth();
+    if (index < 0 || index >= purchase.installments) continue;
+    total = addMoney(total, splitMoney(toBase(purchase.totalAmount, purchase.currency, purchase.date), purchase.installments)[index]);
+  }
+  return total;
+}
+
+/**
+ * Card invoices paid from `from` through `to`, on their due date: in the month the invoice
+ * closes when the due day comes after the closing day, else in the next month.
+ */
+function invoiceEvents(sources: ForecastSources, toBase: ToBase, from: Date, to: Date): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+  for (const card of sources.creditCards) {
+    const dueMonthOffset = card.dueDateDay > card.closingDateDay ? 0 : 1;
+    for (let month = startOfMonth(addMonths(from, -1)); month <= to; month = addMonths(month, 1)) {
+      const dueDate = dayOf(addMonths(month, dueMonthOffset), card.dueDateDay);
+      if (dueDate < from || dueDate > to) continue;
+      const total = invoiceTotal(card, sources.creditCardPurchases, month, toBase);
+      if (total > 0) events.push({ date: dateString(dueDate), amount: -total, source: 'cardInvoice', sourceId: card.id, description: card.name });
+    }
+  }
+  return events;
+}
+
+/** Loan installments paid from `from` through `to`, each month on the day the loan started. */
+function loanEvents(sources: ForecastSources, toBase: ToBase, from: Date, to: Date): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+  for (const loan of sources.loans) {
+    const start = parseISO(loan.startDate);
+    for (let index = 0; index < loan.installmentsCount; index++) {
+      const paymentDate = dayOf(addMonths(startOfMonth(start), index), getDate(start));
+      if (paymentDate > to) break;
+      if (paymentDate < from) continue;
+      const date = dateString(paymentDate);
+      events.push({ date, amount: -toBase(loan.installmentAmount, DEFAULT_CURRENCY, date), source: 'loan', sourceId: loan.id, description: `${loan.bankName} - ${loan.description}` });
+    }
+  }
+  return events;
+}
+
+/**
+ * What active goals with a target date still need, set aside in equal parts on the first day of
+ * each month until the target date, or all on the target date when no month starts before it.
+ */
+function goalEvents(sources: ForecastSources, toBase: ToBase, from: Date, to: Date): ForecastEvent[] {
+  const events: ForecastEvent[] = [];
+  for (const goal of sources.goals) {
+    if (goal.status !== 'active' || !goal.targetDate) continue;
+    const targetDate = parseISO(goal.targetDate);
+    const remaining = toBase(subtractMoney(goal.targetAmount, goal.currentAmount), goal.currency);
+    if (targetDate < from || remaining <= 0) continue;
+    const dates: Date[] = [];
+    for (let month = startOfMonth(addMonths(from, 1)); month <= targetDate; month = addMonths(month, 1)) dates.push(month);
+    if (dates.length === 0) dates.push(targetDate);
+    splitMoney(remaining, dates.length).forEach((amount, index) => {
+      if (dates[index] <= to) events.push({ date: dateString(dates[index]), amount: -amount, source: 'goal', sourceId: goal.id, description: goal.name });
+    });
+  }
+  return events;
+}
+
+/**
+ * The daily balance from `today` through `months` months ahead, converted with `toBase`. It starts
+ * from the accounts' opening balances plus what moved before today (transaction occurrences, and
+ * invoices and installments due before today, taken as paid), then follows recurring and future
+ * transactions, card invoices on their due dates, loan installments and the monthly contributions
+ * goals with a target date still need.
+ */
+export function cashFlowForecast(sources: ForecastSources, toBase: ToBase, today: Date, months: number): CashFlowForecast {
+  const from = startOfDay(today);
+  const to = addMonths(from, months);
+  const yesterday = addDays(from, -1);
+  // No invoice is due before the first purchase.
+  const firstPurchase = sources.creditCardPurchases.reduce((first, purchase) => (purchase.date < first ? purchase.date : first), dateString(from));
+  const past = [
+    ...transactionEvents(sources, toBase, new Date(0), yesterday),
+    ...invoiceEvents(sources, toBase, parseISO(firstPurchase), yesterday),
+    ...loanEvents(sources, toBase, new Date(0), yesterday),
+  ];
+  const startingBalance = addMoney(
+    ...sources.accounts.map(account => toBase(account.openingBalance, account.currency)),
+    ...past.map(event => event.amount),
+  );
+
+  const events = [
+    ...transactionEvents(sources, toBase, from, to),
+    ...invoiceEvents(sources, toBase, from, to),
+    ...loanEvents(sources, toBase, from, to),
+    ...goalEvents(sources, toBase, from, to),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.amount - a.amount);
+
+  const byDate = new Map<string, ForecastEvent[]>();
+  for (const event of events) byDate.set(event.date, [...(byDate.get(event.date) ?? []), event]);
+
+  const days: ForecastDay[] = [];
+  let balance = startingBalance;
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const date = dateString(day);
+    const amounts = (byDate.get(date) ?? []).map(event => event.amount);
+    const inflow = addMoney(...amounts.filter(amount => amount > 0));
+    const outflow = addMoney(...amounts.filter(amount => amount < 0).map(amount => -amount));
+    balance = subtractMoney(addMoney(balance, inflow), outflow);
+    days.push({ date, inflow, outflow, balance });
+  }
+
+  const lowest = days.reduce((min, day) => (day.balance < min.balance ? day : min), days[0]);
+  return {
+    from: days[0].date,
+    to: days[days.length - 1].date,
+    startingBalance,
+    days,
+    events,
+    lowest: { date: lowest.date, balance: lowest.balance },
+    firstNegativeDate: days.find(day => day.balance < 0)?.date ?? null,
+  };
+}
@@ -0,0 +1,103 @@
+// src/lib/money.ts
+import type { Money } from '@/types';
+
+/*
+ * Money values are plain numbers of reais with at most two decimal places, so
+ * they serialize unchanged to JSON, db.json and NUMERIC(12,2). Any arithmetic on
+ * them goes through integer cents here; never add, multiply or divide amounts directly.
+ */
+
+/** Converts reais (number or decimal string such as "150.75") to integer cents, rounding half away from zero. */
+export function toCents(value: number | string): number {
+  const text = typeof value === 'string' ? value.trim() : String(value);
+  const [mantissa, exponent = '0'] = text.toLowerCase().split('e');
+  // Shifting the decimal point in the text avoids binary float error (1.005 * 100 = 100.49999...).
+  const shifted = Number(`${mantissa}e${Number(exponent) + 2}`);
+  if (!Number.isFinite(shifted)) return NaN;
+  return Math.sign(shifted) * Math.round(Math.abs(shifted));
+}
+
+export function fromCents(cents: number): Money {
+  return cents / 100;
+}
+
+/** Rounds to whole cents. */
+export function roundMoney(value: number | string): Money {
+  return fromCents(toCents(value));
+}
+
+export function addMoney(...values: number[]): Money {
+  return fromCents(values.reduce((cents, value) => cents + toCents(value), 0));
+}
+
+export function sumMoney(values: number[]): Money {
+  return addMoney(...values);
+}
+
+export function subtractMoney(value: number, ...subtrahends: number[]): Money {
+  return fromCents(subtrahends.reduce((cents, s) => cents - toCents(s), toCents(value)));
+}
+
+/** Multiplies by a factor (quantity, rate, installment count) and rounds the result to cents. */
+export function multiplyMoney(value: number, factor: number): Money {
+  return roundMoney(toCents(value) * factor / 100);
+}
+
+/**
+ * Splits `total` into `parts` amounts that add up to exactly `total`.
+ * Leftover cents go to the first parts: 100.00 in 3 → [33.34, 33.33, 33.33].
+ */
+export function splitMoney(total: number, parts: number): Money[] {
+  const count = Math.max(1, Math.floor(parts));
+  const totalCents = toCents(total);
+  const base = Math.trunc(totalCents / count);
+  const remainder = totalCents - base * count;
+  return Array.from({ length: count }, (_, index) =>
+    fromCents(base + (index < Math.abs(remainder) ? Math.sign(remainder) : 0))
+  );
+}
+
+/**
+ * Splits `total` in proportion to `weights` (other amounts), adding up to exactly `total`.
+ * Leftover cents go to the first parts, as in splitMoney: 10.00 by [1, 1, 1] → [3.34, 3.33, 3.33].
+ */
+export function allocateMoney(total: number, weights: number[]): Money[] {
+  const weightCents = weights.map(toCents);
+  const weightTotal = weightCents.reduce((sum, cents) => sum + cents, 0);
+  if (weightTotal === 0) return splitMoney(total, weights.length);
+  const totalCents = toCents(total);
+  const parts = weightCents.map(cents => Math.trunc(totalCents * cents / weightTotal));
+  let remainder = totalCents - parts.reduce((sum, cents) => sum + cents, 0);
+  for (let index = 0; remainder !== 0; index = (index + 1) % parts.length) {
+    parts[index] += Math.sign(remainder);
+    remainder -= Math.sign(remainder);
+  }
+  return parts.map(fromCents);
+}
+
+/** Amount of installment `index` (0-based) when `total` is paid in `installments` parts. */
+export function installmentAmount(total: number, installments: number, index: number): Money {
+  return splitMoney(total, installments)[index] ?? 0;
+}
+
+/** Decimal text with exactly two places, built from cents ("1234.50"); used for NUMERIC columns. */
+export function formatMoneyDecimal(value: number | string): string {
+  const cents = toCents(value);
+  const sign = cents < 0 ? '-' : '';
+  const abs = Math.abs(cents);
+  return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Parses an amount from an API payload or form field: numbers and decimal strings
+ * (a comma decimal separator is accepted). Returns null when it is not a finite amount.
+ */
+export function parseMoney(input: unknown): Money | null {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) ? roundMoney(input) : null;
+  }
+  if (typeof input === 'string' && /^\s*-?\d+([.,]\d+)?\s*$/.test(input)) {
+    return roundMoney(input.replace(',', '.'));
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+// src/lib/payees.ts
+import type { CreditCardPurchase, CurrencyCode, Money, Payee, Transaction } from '@/types';
+import { addMoney } from '@/lib/money';
+
+/**
+ * Codes payment processors put before the merchant in statement descriptions, as in
+ * 'PAG*JOSEDASILVA' or 'IFD*IFOOD.COM'. They say nothing about who was paid.
+ */
+const PROCESSOR_PREFIXES = ['PAG', 'PAGSEGURO', 'PAGSEG', 'IFD', 'MP', 'MERCPAGO', 'MERCADOPAGO', 'PICPAY', 'PAYPAL', 'SUMUP', 'EC', 'PG', 'STONE', 'CIELO', 'GETNET', 'SQ', 'EBANX', 'EBN'];
+const PROCESSOR_PREFIX = new RegExp(`^(?:${PROCESSOR_PREFIXES.join('|')})\\s*\\*\\s*`, 'i');
+
+/** Keys shorter than this match too much by accident ('BR', 'SP'). */
+const MIN_KEY_LENGTH = 3;
+
+const withoutAccents = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * The form descriptions, names and aliases are compared in: upper case, without accents,
+ * without a processor prefix and with only letters and digits, so 'IFD*IFOOD.COM' and
+ * 'iFood .com' are both 'IFOODCOM'.
+ */
+export function normalizePayeeText(text: string): string {
+  return withoutAccents(text).toUpperCase().trim().replace(PROCESSOR_PREFIX, '').replace(/[^A-Z0-9]/g, '');
+}
+
+/** The normalized keys a payee is recognized by: its name and aliases. */
+export function payeeKeys(payee: Pick<Payee, 'name' | 'aliases'>): string[] {
+  return [payee.name, ...(payee.aliases || [])].map(normalizePayeeText).filter(key => key.length >= MIN_KEY_LENGTH);
+}
+
+/**
+ * The payee a description belongs to: the one with a key contained in the normalized
+ * description, the longest key winning when several match ('IFOOD MERCADO' over 'IFOOD').
+ */
+export function matchPayee<T extends Pick<Payee, 'name' | 'aliases'>>(description: string, payees: T[]): T | undefined {
+  const text = normalizePayeeText(description);
+  let best: { payee: T; length: number } | undefined;
+  for (const payee of payees) {
+    for (const key of payeeKeys(payee)) {
+      if (text.includes(key) && key.length > (best?.length ?? 0)) best = { payee, length: key.length };
+    }
+  }
+  return best?.payee;
+}
+
+/** A name to offer for a new payee from a description: without processor prefix, trailing numbers or extra spaces. */
+export function suggestPayeeName(description: string): string {
+  const cleaned = description.trim().replace(PROCESSOR_PREFIX, '').replace(/[\s\d/*-]+$/, '').replace(/\s+/g, ' ').trim();
+  return cleaned.toLowerCase().split(' ').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export interface PayeeSpending {
+  payee: Payee;
+  total: Money;
+  count: number;
+  lastDate: string | null;
+  byMonth: Record<string, Money>; // 'yyyy-MM' => spent that month
+}
+
+/**
+ * What was spent with each payee over expense transactions and card purchases (in full on
+ * their purchase date), converted with `toBase`. Payees with nothing spent are included, last.
+ */
+export function spendingByPayee(
+  payees: Payee[],
+  transactions: Transaction[],
+  purchases: CreditCardPurchase[],
+  toBase: (amount: Money, currency: CurrencyCode | undefined, date: string) => Money
+): PayeeSpending[] {
+  const byId = new Map<string, PayeeSpending>(payees.map(payee => [payee.id, { payee, total: 0, count: 0, lastDate: null, byMonth: {} }]));
+  const add = (payeeId: string | null | undefined, amount: Money, date: string) => {
+    const entry = payeeId ? byId.get(payeeId) : undefined;
+    if (!entry) return;
+    const month = date.slice(0, 7);
+    entry.total = addMoney(entry.total, amount);
+    entry.byMonth[month] = addMoney(entry.byMonth[month] || 0, amount);
+    entry.count += 1;
+    if (!entry.lastDate || date > entry.lastDate) entry.lastDate = date;
+  };
+
+  for (const tx of transactions) {
+    if (tx.type === 'expense') add(tx.payeeId, toBase(tx.amount, tx.currency, tx.date), tx.date);
+  }
+  for (const purchase of purchases) add(purchase.payeeId, toBase(purchase.totalAmount, purchase.currency, purchase.date), purchase.date);
+  return [...byId.values()].sort((a, b) => b.total - a.total || a.payee.name.localeCompare(b.payee.name));
+}
@@ -0,0 +1,132 @@
+// src/lib/recordFormatting.ts
+import type { UserEntityName } from '@/lib/storage/types';
+import type { CurrencyCode, WeekendShift } from '@/types';
+import { entityDefinitions } from '@/lib/storage/entities';
+import { formatCurrency } from '@/lib/utils';
+import { formatFileSize } from '@/lib/attachments';
+import { clearedStatusLabels } from '@/lib/accounts';
+import { occurrenceStatusLabels, recurrenceDayRuleLabels, recurrenceFrequencyLabels, weekendShiftLabels } from '@/lib/recurrence';
+import { format, parseISO } from 'date-fns';
+
+// Display names and values of record fields, for history and edit-conflict views.
+
+export const recordFieldLabels: Record<string, string> = {
+  type: 'Tipo',
+  amount: 'Valor',
+  category: 'Categoria',
+  date: 'Data',
+  description: 'Descrição',
+  recurrenceFrequency: 'Recorrência',
+  recurrenceInterval: 'Repetir a Cada',
+  recurrenceEndDate: 'Termina em',
+  recurrenceCount: 'Nº de Ocorrências',
+  recurrenceDayRule: 'Dia da Recorrência',
+  recurrenceWeekendShift: 'Fim de Semana',
+  receiptImageUri: 'Comprovante',
+  bankName: 'Banco',
+  installmentAmount: 'Valor da Parcela',
+  installmentsCount: 'Nº de Parcelas',
+  startDate: 'Data de Início',
+  endDate: 'Data Final',
+  name: 'Nome',
+  limit: 'Limite',
+  dueDateDay: 'Dia de Vencimento',
+  closingDateDay: 'Dia de Fechamento',
+  cardId: 'Cartão',
+  totalAmount: 'Valor Total',
+  installments: 'Parcelas',
+  targetAmount: 'Valor Alvo',
+  currentAmount: 'Valor Atual',
+  targetDate: 'Data Alvo',
+  status: 'Status',
+  icon: 'Ícone',
+  notes: 'Observações',
+  initialAmount: 'Valor Inicial',
+  currentValue: 'Valor Atual',
+  quantity: 'Quantidade',
+  symbol: 'Código',
+  institution: 'Instituição',
+  acquisitionDate: 'Data de Aquisição',
+  isSystemDefined: 'Padrão do Sistema',
+  currency: 'Moeda',
+  quoteCurrency: 'Moeda da Cotação',
+  rate: 'Cotação',
+  accountId: 'Conta',
+  openingBalance: 'Saldo Inicial',
+  transferTo: 'Tipo de Destino',
+  transferToId: 'Destino',
+  splits: 'Divisão por Categoria',
+  tagIds: 'Tags',
+  parentId: 'Categoria Pai',
+  color: 'Cor',
+  payeeId: 'Favorecido',
+  aliases: 'Apelidos',
+  defaultCategory: 'Categoria Padrão',
+  ownerEntity: 'Anexado a',
+  ownerId: 'Registro',
+  fileName: 'Arquivo',
+  contentType: 'Tipo de Arquivo',
+  size: 'Tamanho',
+  hasThumbnail: 'Miniatura',
+  transactionId: 'Transação',
+  scheduledDate: 'Data Prevista',
+  clearedStatus: 'Conciliação',
+  statementDate: 'Data do Extrato',
+  statementBalance: 'Saldo do Extrato',
+  transactionIds: 'Transações',
+  completedAt: 'Concluída em',
+  categoryId: 'Categoria',
+  rollover: 'Acumular Saldo',
+  startMonth: 'Mês de Início',
+  month: 'Mês',
+};
+
+const valueLabels: Record<string, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência',
+  account: 'Conta',
+  investment: 'Investimento',
+  goal: 'Meta',
+  ...recurrenceFrequencyLabels,
+  ...recurrenceDayRuleLabels,
+  ...occurrenceStatusLabels,
+  ...clearedStatusLabels,
+  open: 'Em Andamento',
+  completed: 'Concluída',
+  active: 'Ativa',
+  achieved: 'Alcançada',
+  abandoned: 'Abandonada',
+  stock: 'Ações',
+  savings: 'Poupança',
+  crypto: 'Criptomoedas',
+  other: 'Outro',
+  checking: 'Conta Corrente',
+  cash: 'Dinheiro',
+  wallet: 'Carteira Digital',
+  transactions: 'Transação',
+  creditCardPurchases: 'Compra no Cartão',
+  loans: 'Empréstimo',
+  investments: 'Investimento',
+};
+
+/** `currency` is the record's own, for its amounts; reais when not given. */
+export function formatFieldValue(entity: UserEntityName, field: string, value: any, currency?: CurrencyCode): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const kind = (entityDefinitions[entity].fields as Record<string, { kind: string }>)[field]?.kind;
+  if (kind === 'money' && typeof value === 'number') return formatCurrency(value, currency || undefined);
+  if (kind === 'date' && typeof value === 'string') return format(parseISO(value), 'dd/MM/yyyy');
+  if (kind === 'boolean') return value ? 'Sim' : 'Não';
+  if (field === 'splits' && Array.isArray(value)) {
+    return value.map(line => `${line.category}: ${formatCurrency(line.amount, currency || undefined)}`).join('; ');
+  }
+  // History keeps tag ids; the count is what can still be shown after a tag is renamed or deleted.
+  if (field === 'tagIds' && Array.isArray(value)) return value.length === 1 ? '1 tag' : `${value.length} tags`;
+  if (field === 'transactionIds' && Array.isArray(value)) return value.length === 1 ? '1 transação' : `${value.length} transações`;
+  if (kind === 'timestamp' && typeof value === 'number') return format(new Date(value), 'dd/MM/yyyy HH:mm');
+  if (field === 'size' && typeof value === 'number') return formatFileSize(value);
+  if ((field === 'startMonth' || field === 'month') && typeof value === 'string') return format(parseISO(`${value}-01`), 'MM/yyyy');
+  if (field === 'recurrenceWeekendShift') return weekendShiftLabels[value as WeekendShift] || value;
+  if (typeof value === 'string') return valueLabels[value] || value;
+  return String(value);
+}
@@ -0,0 +1,220 @@
+// src/lib/recurrence.ts
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, isValid, isWeekend, lastDayOfMonth, parseISO, startOfDay } from 'date-fns';
+import type { Money, OccurrenceStatus, RecurrenceDayRule, RecurrenceFrequency, RecurrenceOccurrence, Transaction, WeekendShift } from '@/types';
+
+// Expands recurring transactions into the dates they occur on. A recurring transaction is a
+// template: its date schedules the first occurrence and its rule fields say how it repeats.
+// Business days are Monday to Friday; holidays are not taken into account.
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['none', 'daily', 'weekly', 'biweekly', 'monthly', 'annually'];
+export const RECURRENCE_DAY_RULES: RecurrenceDayRule[] = ['sameDay', 'lastBusinessDay'];
+export const WEEKEND_SHIFTS: WeekendShift[] = ['none', 'before', 'after'];
+
+export const MAX_RECURRENCE_INTERVAL = 99;
+export const MAX_RECURRENCE_COUNT = 999;
+
+export const recurrenceFrequencyLabels: Record<RecurrenceFrequency, string> = {
+  none: 'Não Recorrente',
+  daily: 'Diária',
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+  annually: 'Anual',
+};
+
+export const recurrenceDayRuleLabels: Record<RecurrenceDayRule, string> = {
+  sameDay: 'Mesmo dia do mês',
+  lastBusinessDay: 'Último dia útil do mês',
+};
+
+export const weekendShiftLabels: Record<WeekendShift, string> = {
+  none: 'Manter no fim de semana',
+  before: 'Antecipar para sexta-feira',
+  after: 'Adiar para segunda-feira',
+};
+
+/** The fields of a transaction that say when it occurs. */
+export type RecurrenceRule = Pick<Transaction, 'date' | 'recurrenceFrequency' | 'recurrenceInterval' | 'recurrenceEndDate' | 'recurrenceCount' | 'recurrenceDayRule' | 'recurrenceWeekendShift'>;
+
+/** Length of one period of each frequency, counted in days or in months. */
+const periods: Record<Exclude<RecurrenceFrequency, 'none'>, { unit: 'day' | 'month'; size: number }> = {
+  daily: { unit: 'day', size: 1 },
+  weekly: { unit: 'day', size: 7 },
+  biweekly: { unit: 'day', size: 14 },
+  monthly: { unit: 'month', size: 1 },
+  annually: { unit: 'month', size: 12 },
+};
+
+const isRecurring = (rule: Pick<RecurrenceRule, 'recurrenceFrequency'>) => !!rule.recurrenceFrequency && rule.recurrenceFrequency !== 'none';
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+
+const isWholeNumberBetween = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/** Checks the rule fields of a recurring transaction. Returns what is wrong, or null. */
+export function recurrenceRuleError(rule: RecurrenceRule): string | null {
+  const frequency = rule.recurrenceFrequency || 'none';
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) return "Invalid recurrence frequency.";
+  if (frequency === 'none') return null;
+  if (rule.recurrenceInterval != null && !isWholeNumberBetween(rule.recurrenceInterval, 1, MAX_RECURRENCE_INTERVAL)) {
+    return `Recurrence interval must be a whole number from 1 to ${MAX_RECURRENCE_INTERVAL}.`;
+  }
+  if (rule.recurrenceCount != null && !isWholeNumberBetween(rule.recurrenceCount, 1, MAX_RECURRENCE_COUNT)) {
+    return `Occurrence count must be a whole number from 1 to ${MAX_RECURRENCE_COUNT}.`;
+  }
+  if (rule.recurrenceEndDate != null) {
+    if (!isDateString(rule.recurrenceEndDate)) return "Recurrence end date must be in yyyy-MM-dd format.";
+    if (rule.recurrenceCount != null) return "A recurrence ends on a date or after a number of occurrences, not both.";
+    if (rule.recurrenceEndDate < rule.date.slice(0, 10)) return "Recurrence end date cannot be before the transaction date.";
+  }
+  const dayRule = rule.recurrenceDayRule || 'sameDay';
+  if (!RECURRENCE_DAY_RULES.includes(dayRule)) return "Invalid recurrence day rule.";
+  if (dayRule === 'lastBusinessDay' && frequency !== 'monthly' && frequency !== 'annually') {
+    return "The last business day rule applies only to monthly and annual recurrences.";
+  }
+  const shift = rule.recurrenceWeekendShift || 'none';
+  if (!WEEKEND_SHIFTS.includes(shift)) return "Invalid recurrence weekend shift.";
+  // Shifting every day of a weekend would stack them on Friday or Monday.
+  if (shift !== 'none' && frequency === 'daily') return "Daily recurrences cannot be shifted off weekends.";
+  return null;
+}
+
+/**
+ * Rule fields as stored: defaults (every 1 period, same day, no shift) are left null, and a
+ * transaction that does not recur has none. Assumes recurrenceRuleError found nothing.
+ */
+export function normalizeRecurrenceRule(rule: RecurrenceRule): Omit<RecurrenceRule, 'date'> {
+  if (!isRecurring(rule)) {
+    return { recurrenceFrequency: 'none', recurrenceInterval: null, recurrenceEndDate: null, recurrenceCount: null, recurrenceDayRule: null, recurrenceWeekendShift: null };
+  }
+  return {
+    recurrenceFrequency: rule.recurrenceFrequency,
+    recurrenceInterval: rule.recurrenceInterval && rule.recurrenceInterval > 1 ? rule.recurrenceInterval : null,
+    recurrenceEndDate: rule.recurrenceEndDate || null,
+    recurrenceCount: rule.recurrenceCount ?? null,
+    recurrenceDayRule: rule.recurrenceDayRule === 'lastBusinessDay' ? 'lastBusinessDay' : null,
+    recurrenceWeekendShift: rule.recurrenceWeekendShift && rule.recurrenceWeekendShift !== 'none' ? rule.recurrenceWeekendShift : null,
+  };
+}
+
+function lastBusinessDayOf(date: Date): Date {
+  let day = lastDayOfMonth(date);
+  while (isWeekend(day)) day = addDays(day, -1);
+  return day;
+}
+
+/** Where the scheduled date of an occurrence actually falls under the day rule and weekend shift. */
+function applyDayRules(scheduled: Date, rule: RecurrenceRule): Date {
+  let date = rule.recurrenceDayRule === 'lastBusinessDay' ? lastBusinessDayOf(scheduled) : scheduled;
+  const step = rule.recurrenceWeekendShift === 'before' ? -1 : rule.recurrenceWeekendShift === 'after' ? 1 : 0;
+  while (step !== 0 && isWeekend(date)) date = addDays(date, step);
+  return date;
+}
+
+/**
+ * Dates `rule` occurs on from `from` through `to`, whole days included, in order. A transaction
+ * that does not recur occurs once, on its date. Occurrences are counted from the transaction
+ * date, so monthly ones on the 31st fall on the last day of shorter months and go back to the
+ * 31st afterwards.
+ */
+export function occurrencesBetween(rule: RecurrenceRule, from: Date, to: Date): Date[] {
+  const start = startOfDay(parseISO(rule.date));
+  const first = startOfDay(from);
+  const last = startOfDay(to);
+  if (!isRecurring(rule)) return start >= first && start <= last ? [start] : [];
+
+  const { unit, size } = periods[rule.recurrenceFrequency as Exclude<RecurrenceFrequency, 'none'>];
+  const step = size * (rule.recurrenceInterval || 1);
+  const endDate = rule.recurrenceEndDate ? parseISO(rule.recurrenceEndDate) : null;
+  const count = rule.recurrenceCount ?? Infinity;
+  const scheduledAt = (index: number) => (unit === 'day' ? addDays(start, index * step) : addMonths(start, index * step));
+
+  // Skip straight to the period before `from`: day rules and shifts move a date by less than a period.
+  const elapsed = unit === 'day' ? differenceInCalendarDays(first, start) : differenceInCalendarMonths(first, start);
+  const occurrences: Date[] = [];
+  for (let index = Math.max(0, Math.floor(elapsed / step) - 1); index < count; index++) {
+    const date = applyDayRules(scheduledAt(index), rule);
+    if (date > last || (endDate && date > endDate)) break;
+    if (date >= first) occurrences.push(date);
+  }
+  return occurrences;
+}
+
+/** Whether `rule` puts an occurrence on `scheduledDate` ('yyyy-MM-dd'). */
+export function isOccurrenceOf(rule: RecurrenceRule, scheduledDate: string): boolean {
+  if (!isDateString(scheduledDate)) return false;
+  const day = parseISO(scheduledDate);
+  return occurrencesBetween(rule, day, day).length > 0;
+}
+
+export const occurrenceStatusLabels: Record<OccurrenceStatus, string> = {
+  pending: 'Pendente',
+  paid: 'Pago',
+  skipped: 'Pulado',
+};
+
+/** An occurrence of a transaction as it stands once its RecurrenceOccurrence, if any, is applied. */
+export interface ProjectedOccurrence {
+  scheduledDate: string; // 'yyyy-MM-dd' the rule puts it on
+  date: Date; // Where it falls: the date it was paid on or rescheduled to, else the scheduled one
+  amount: Money;
+  status: OccurrenceStatus;
+  state?: RecurrenceOccurrence;
+}
+
+/**
+ * Occurrences of `transaction` falling from `from` through `to`, in order, with what `states`
+ * say about them: one paid on or rescheduled to another date falls on that date, inside or
+ * outside the range, and an adjusted one has its own amount. Skipped occurrences are kept
+ * so they can be shown; leave them out of totals. States of other transactions, and of
+ * dates the rule no longer schedules, are ignored.
+ */
+export function projectOccurrences(
+  transaction: RecurrenceRule & Pick<Transaction, 'id' | 'amount'>,
+  states: RecurrenceOccurrence[],
+  from: Date,
+  to: Date,
+): ProjectedOccurrence[] {
+  const first = startOfDay(from);
+  const last = startOfDay(to);
+  const stateOf = new Map<string, RecurrenceOccurrence>();
+  for (const state of states) {
+    if (state.transactionId === transaction.id && !state.deletedAt && isOccurrenceOf(transaction, state.scheduledDate)) {
+      stateOf.set(state.scheduledDate, state);
+    }
+  }
+  const scheduledDates = new Set([
+    ...occurrencesBetween(transaction, first, last).map(date => format(date, 'yyyy-MM-dd')),
+    ...stateOf.keys(),
+  ]);
+  return [...scheduledDates]
+    .map((scheduledDate): ProjectedOccurrence => {
+      const state = stateOf.get(scheduledDate);
+      return {
+        scheduledDate,
+        date: parseISO(state?.date || scheduledDate),
+        amount: state?.amount ?? transaction.amount,
+        status: state?.status ?? 'pending',
+        state,
+      };
+    })
+    .filter(occurrence => occurrence.date >= first && occurrence.date <= last)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.scheduledDate.localeCompare(b.scheduledDate));
+}
+
+/** How often `rule` repeats, for display, e.g. "A cada 3 meses, último dia útil, até 31/12/2026". */
+export function describeRecurrence(rule: Omit<RecurrenceRule, 'date'>): string {
+  const frequency = rule.recurrenceFrequency || 'none';
+  if (frequency === 'none') return recurrenceFrequencyLabels.none;
+  const interval = rule.recurrenceInterval || 1;
+  const units: Record<Exclude<RecurrenceFrequency, 'none'>, string> = { daily: 'dias', weekly: 'semanas', biweekly: 'quinzenas', monthly: 'meses', annually: 'anos' };
+  const parts = [interval > 1 ? `A cada ${interval} ${units[frequency]}` : recurrenceFrequencyLabels[frequency]];
+  if (rule.recurrenceDayRule === 'lastBusinessDay') parts.push('último dia útil');
+  if (rule.recurrenceWeekendShift === 'before') parts.push('antecipada do fim de semana');
+  if (rule.recurrenceWeekendShift === 'after') parts.push('adiada do fim de semana');
+  if (rule.recurrenceEndDate) parts.push(`até ${format(parseISO(rule.recurrenceEndDate), 'dd/MM/yyyy')}`);
+  if (rule.recurrenceCount) parts.push(rule.recurrenceCount === 1 ? '1 vez' : `${rule.recurrenceCount} vezes`);
+  return parts.join(', ');
+}
@@ -0,0 +1,222 @@
+// src/lib/serverData.ts
+import { randomUUID } from 'crypto';
+import type { Attachment, AuditAction, AuditFieldChange, TrashEntity, UpdateResult, UserBackupData } from '@/types';
+import { isMonthString } from '@/lib/budgets';
+import { isAttachmentOwner } from '@/lib/attachments';
+import { attachmentKey, getAttachmentStore, thumbnailKey } from '@/lib/attachmentStore';
+import { readArchive } from '@/lib/archive';
+import { isCurrencyCode } from '@/lib/currency';
+import { buildCollections, entityDefinitions, entityNames, fieldValue, getStorageAdapter, getTrashRetentionDays, normalizeRecord, StorageError, type EntityName, type EntityRecord, type StorageAdapter } from '@/lib/storage';
+
+// Data operations shared by the server actions in databaseService and by code that runs
+// outside them: instrumentation.ts and authenticated API routes. Nothing here checks who
+// is calling, so this module must never be marked 'use server'.
+
+const storage = (): StorageAdapter => getStorageAdapter();
+
+/** Surfaces adapter errors that are meaningful to callers; hides driver details behind `fallback`. */
+export function storageErrorMessage(error: any, fallback: string): string {
+  return error instanceof StorageError && error.code !== 'conflict' ? error.message : fallback;
+}
+
+// --- Change history ---
+
+/**
+ * Appends a history event. Written after the change itself, so a failure here is
+ * logged and never undoes or fails the change.
+ */
+export async function recordHistory(userId: string, entity: EntityName, recordId: string, action: AuditAction, changes: AuditFieldChange[] = [], actorId: string | null = userId): Promise<void> {
+  try {
+    await storage().insert('auditEvents', { id: randomUUID(), userId, entity, recordId, action, changes, actorId, createdAt: Date.now() });
+  } catch (error: any) {
+    console.error(`Error recording ${action} history for ${entity} ${recordId}:`, error.message);
+  }
+}
+
+// --- Trash (Lixeira) ---
+
+export const TRASH_ENTITIES: TrashEntity[] = ['accounts', 'tags', 'payees', 'transactions', 'creditCards', 'creditCardPurchases', 'loans', 'financialGoals', 'investments'];
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Cascade children of a record (a card's purchases) matching `filter`, for history events of cascaded changes. */
+export async function cascadeChildrenOf(entity: EntityName, userId: string, id: string, filter: (child: any) => boolean = () => true): Promise<Array<{ entity: EntityName; id: string; record: any }>> {
+  const children: Array<{ entity: EntityName; id: string; record: any }> = [];
+  for (const child of entityDefinitions[entity].cascade || []) {
+    for (const record of await storage().list(child.entity, userId)) {
+      if (fieldValue(record, child.foreignKey) === id && filter(record)) children.push({ entity: child.entity, id: record.id, record });
+    }
+  }
+  return children;
+}
+
+/** Best effort: a file left behind only takes space, while failing here would undo a delete already done. */
+export async function removeAttachmentFiles(userId: string, attachmentIds: string[]): Promise<void> {
+  for (const id of attachmentIds) {
+    try {
+      const store = getAttachmentStore();
+      await store.remove(attachmentKey(userId, id));
+      await store.remove(thumbnailKey(userId, id));
+    } catch (error: any) {
+      console.error(`Error removing files of attachment ${id}:`, error.message);
+    }
+  }
+}
+
+export async function listTrashed(userId: string): Promise<Map<EntityName, any[]>> {
+  const trashed = new Map<EntityName, any[]>();
+  for (const entity of TRASH_ENTITIES) {
+    trashed.set(entity, (await storage().list(entity, userId)).filter(record => record.deletedAt));
+  }
+  return trashed;
+}
+
+/** Records that point at a parent of their parent's collection, which its one-level cascade does not reach. */
+const ORPHAN_KEYS: Array<{ entity: 'attachments' | 'recurrenceOccurrences'; foreignKey: string }> = [
+  { entity: 'attachments', foreignKey: 'ownerId' },
+  { entity: 'recurrenceOccurrences', foreignKey: 'transactionId' },
+];
+
+/**
+ * After purging `items`: removes the records left pointing at them (the attachments and
+ * occurrences of an account's transactions) and the files of every purged attachment.
+ */
+async function purgeOrphansOf(userId: string, items: Array<{ entity: EntityName; id: string }>, actorId: string | null): Promise<void> {
+  const purgedIds = new Set<unknown>(items.map(item => item.id));
+  const attachmentIds = items.filter(item => item.entity === 'attachments').map(item => item.id);
+  for (const { entity, foreignKey } of ORPHAN_KEYS) {
+    const orphans = (await storage().list(entity, userId)).filter(record => purgedIds.has(fieldValue(record, foreignKey)));
+    for (const orphan of orphans) {
+      if (await storage().remove(entity, userId, orphan.id)) await recordHistory(userId, entity, orphan.id, 'purge', [], actorId);
+    }
+    if (entity === 'attachments') attachmentIds.push(...orphans.map(orphan => orphan.id));
+  }
+  await removeAttachmentFiles(userId, attachmentIds);
+}
+
+/** Permanently deletes a record with its cascade children; their history is kept. Returns false if it was already gone. */
+export async function purgeRecord(userId: string, entity: EntityName, id: string, actorId: string | null): Promise<boolean> {
+  const cascaded = await cascadeChildrenOf(entity, userId, id);
+  if (!(await storage().remove(entity, userId, id))) return false;
+  for (const item of [{ entity, id }, ...cascaded]) await recordHistory(userId, item.entity, item.id, 'purge', [], actorId);
+  await purgeOrphansOf(userId, [{ entity, id }, ...cascaded], actorId);
+  return true;
+}
+
+/**
+ * Permanently deletes items trashed more than TRASH_RETENTION_DAYS ago, for one
+ * user or, without `userId`, for the whole instance. Returns how many were removed.
+ */
+export async function purgeExpiredTrash(userId?: string): Promise<number> {
+  const retentionDays = getTrashRetentionDays();
+  if (retentionDays <= 0) return 0;
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  let purged = 0;
+  try {
+    const userIds = userId ? [userId] : (await storage().listUsers()).map(user => user.profile.id);
+    for (const id of userIds) {
+      for (const [entity, records] of await listTrashed(id)) {
+        for (const record of records.filter(r => r.deletedAt <= cutoff)) {
+          if (await purgeRecord(id, entity, record.id, null)) purged++;
+        }
+      }
+    }
+  } catch (error: any) {
+    console.error("Error purging expired trash:", error.message);
+  }
+  return purged;
+}
+
+// --- Backup restore ---
+
+/** Where the data and the attachment files go in a backup archive. */
+export const BACKUP_DATA_ENTRY = 'backup.json';
+export const BACKUP_ATTACHMENTS_DIR = 'attachments/';
+
+const ATTACHMENT_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/** Restores a backup archive from getUserBackupArchive, files included. */
+export async function restoreUserBackupArchive(userId: string, archive: Buffer): Promise<UpdateResult> {
+  let backupData: UserBackupData;
+  const files = new Map<string, Buffer>();
+  try {
+    const entries = readArchive(archive);
+    const dataEntry = entries.find(entry => entry.name === BACKUP_DATA_ENTRY);
+    if (!dataEntry) return { success: false, error: "Invalid backup file structure." };
+    backupData = JSON.parse(dataEntry.data.toString('utf-8'));
+    for (const entry of entries) {
+      if (entry.name.startsWith(BACKUP_ATTACHMENTS_DIR)) files.set(entry.name.slice(BACKUP_ATTACHMENTS_DIR.length), entry.data);
+    }
+  } catch (error: any) {
+    console.error("Error reading backup archive:", error.message);
+    return { success: false, error: "Invalid backup file." };
+  }
+  return restoreUserBackupData(userId, backupData, files);
+}
+
+/** Collections added after the backup format was introduced; older backup files may lack them. */
+const OPTIONAL_BACKUP_COLLECTIONS: EntityName[] = ['auditEvents', 'exchangeRates', 'accounts', 'tags', 'payees', 'attachments', 'recurrenceOccurrences', 'reconciliations', 'budgets', 'envelopeAssignments'];
+
+/**
+ * Replaces the user's data with a backup. Attachments come back only with a file: one of
+ * `files` (by attachment id, thumbnails as `<id>.thumb`) or one the user already has,
+ * as when a JSON backup is restored into the account it was made from.
+ */
+export async function restoreUserBackupData(userId: string, backupData: UserBackupData, files: Map<string, Buffer> = new Map()): Promise<UpdateResult> {
+  if (!userId) return { success: false, error: "User ID is required for restore." };
+
+  const collectionIn = (entity: EntityName) => backupData[entity] ?? (OPTIONAL_BACKUP_COLLECTIONS.includes(entity) ? [] : undefined);
+  if (!backupData || typeof backupData.profile !== 'object' || entityNames.some(entity => !Array.isArray(collectionIn(entity)))) {
+    return { success: false, error: "Invalid backup file structure." };
+  }
+
+  // Records keep their own timestamps; only ownership and read-time defaults are rewritten.
+  const collections = await buildCollections(entity => (collectionIn(entity) as EntityRecord<typeof entity>[]).map(record => normalizeRecord(entity, { ...record, userId })));
+
+  const written: string[] = [];
+  let previousIds: Set<string>;
+  try {
+    previousIds = new Set((await storage().list('attachments', userId)).map(attachment => attachment.id));
+    const store = getAttachmentStore();
+    const kept: Attachment[] = [];
+    for (const attachment of collections.attachments) {
+      // Ids become file keys, so only ids that cannot leave the user's folder are taken.
+      if (!ATTACHMENT_ID_PATTERN.test(attachment.id) || !isAttachmentOwner(attachment.ownerEntity)) continue;
+      const file = files.get(attachment.id);
+      if (!file) {
+        if (previousIds.has(attachment.id)) kept.push(attachment);
+        continue;
+      }
+      written.push(attachment.id);
+      await store.put(attachmentKey(userId, attachment.id), file, attachment.contentType);
+      const thumbnail = files.get(`${attachment.id}.thumb`);
+      if (thumbnail) await store.put(thumbnailKey(userId, attachment.id), thumbnail, 'image/jpeg');
+      kept.push({ ...attachment, hasThumbnail: !!thumbnail });
+    }
+    collections.attachments = kept;
+  } catch (error: any) {
+    console.error("Error restoring attachment files:", error.message);
+    await removeAttachmentFiles(userId, written.filter(id => !previousIds?.has(id)));
+    return { success: false, error: storageErrorMessage(error, "Error restoring attachment files.") };
+  }
+
+  try {
+    const restored = await storage().replaceUserData(userId, {
+      displayName: backupData.profile.displayName || undefined,
+      notifyByEmail: backupData.profile.notifyByEmail,
+      baseCurrency: isCurrencyCode(backupData.profile.baseCurrency) ? backupData.profile.baseCurrency : undefined,
+      // Backups made before envelope budgeting leave the mode as it is.
+      envelopeStartMonth: isMonthString(backupData.profile.envelopeStartMonth) || backupData.profile.envelopeStartMonth === null ? backupData.profile.envelopeStartMonth : undefined,
+    }, collections);
+    if (!restored) {
+      await removeAttachmentFiles(userId, written.filter(id => !previousIds.has(id)));
+      return { success: false, error: "User not found." };
+    }
+    const keptIds = new Set(collections.attachments.map(attachment => attachment.id));
+    await removeAttachmentFiles(userId, [...previousIds].filter(id => !keptIds.has(id)));
+    return { success: true };
+  } catch (error: any) {
+    console.error("Error restoring user data:", error.message);
+    await removeAttachmentFiles(userId, written.filter(id => !previousIds.has(id)));
+    return { success: false, error: storageErrorMessage(error, "Database error during restore.") };
+  }
+}
@@ -0,0 +1,54 @@
+// src/lib/splits.ts
+import type { CategorySplit, Money } from '@/types';
+import { addMoney, allocateMoney, parseMoney } from '@/lib/money';
+
+export const MAX_SPLIT_LINES = 20;
+
+/**
+ * Checks that `splits` has two or more lines, each with a category and a positive
+ * amount, adding up to exactly `total`. Returns what is wrong, or null.
+ */
+export function splitsError(splits: unknown, total: Money): string | null {
+  if (!Array.isArray(splits) || splits.length < 2) return "A split needs at least two lines.";
+  if (splits.length > MAX_SPLIT_LINES) return `A split can have at most ${MAX_SPLIT_LINES} lines.`;
+  for (const line of splits) {
+    const amount = parseMoney(line?.amount);
+    if (typeof line?.category !== 'string' || !line.category.trim() || amount === null || amount <= 0) {
+      return "Every split line needs a category and a positive amount.";
+    }
+  }
+  if (addMoney(...splits.map(line => parseMoney(line.amount)!)) !== addMoney(total)) return "Split amounts must add up to the total.";
+  return null;
+}
+
+/** Split lines as stored: trimmed categories and amounts in whole cents. Assumes splitsError found nothing. */
+export function normalizeSplits(splits: CategorySplit[]): CategorySplit[] {
+  return splits.map(line => ({ category: line.category.trim(), amount: parseMoney(line.amount)! }));
+}
+
+/**
+ * How `amount` of a transaction or purchase spreads over categories: in proportion to its
+ * split lines, or all of it under its category when it is not split. `amount` is usually
+ * the record's own amount converted to another currency, so the lines still add up to it.
+ */
+export function categoryLines(record: { category: string; splits?: CategorySplit[] | null }, amount: Money): CategorySplit[] {
+  if (!record.splits?.length) return [{ category: record.category, amount }];
+  const amounts = allocateMoney(amount, record.splits.map(line => line.amount));
+  return record.splits.map((line, index) => ({ category: line.category, amount: amounts[index] }));
+}
+
+/** Total per category over `records`, honoring splits; `amountOf` gives each record's amount to spread. */
+export function totalsByCategory<T extends { category: string; splits?: CategorySplit[] | null }>(records: T[], amountOf: (record: T) => Money): Record<string, Money> {
+  const totals: Record<string, Money> = {};
+  for (const record of records) {
+    for (const line of categoryLines(record, amountOf(record))) {
+      totals[line.category] = addMoney(totals[line.category] || 0, line.amount);
+    }
+  }
+  return totals;
+}
+
+/** How a record's category is shown: its split categories joined, or just its category. */
+export function categoryLabel(record: { category: string; splits?: CategorySplit[] | null }): string {
+  return record.splits?.length ? record.splits.map(line => line.category).join(' / ') : record.category;
+}
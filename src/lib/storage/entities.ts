@@ -0,0 +1,342 @@
+// src/lib/storage/entities.ts
+import { parseISO } from 'date-fns';
+import { roundMoney } from '@/lib/money';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { normalizeRecurrenceRule } from '@/lib/recurrence';
+import type { EntityName, EntityRecord, UserCollections } from './types';
+
+/**
+ * How a field is stored in SQL:
+ * - `text`: strings and enums, stored as-is
+ * - `number`: NUMERIC columns, which the driver returns as strings
+ * - `money`: NUMERIC(12,2) amounts, always kept at whole cents (see src/lib/money.ts)
+ * - `integer`, `boolean`: stored as-is
+ * - `date`: 'yyyy-MM-dd' strings stored in DATE columns
+ * - `timestamp`: epoch milliseconds stored in TIMESTAMPTZ columns
+ * - `json`: arrays and objects, stored in JSONB (PostgreSQL) or TEXT (SQLite) columns
+ */
+export type FieldKind = 'text' | 'number' | 'money' | 'integer' | 'boolean' | 'date' | 'timestamp' | 'json';
+
+export interface FieldDefinition {
+  column: string;
+  kind: FieldKind;
+}
+
+export interface EntityDefinition<K extends EntityName> {
+  table: string;
+  fields: { [F in keyof EntityRecord<K>]-?: FieldDefinition };
+  /** Default listing order, applied identically by every adapter. */
+  compare: (a: EntityRecord<K>, b: EntityRecord<K>) => number;
+  /** Fills in defaults for records written by older versions. */
+  normalize?: (record: EntityRecord<K>) => EntityRecord<K>;
+  /** Child collections removed (or moved to the trash) together with a record. */
+  cascade?: Array<{ entity: EntityName; foreignKey: string }>;
+}
+
+const field = (column: string, kind: FieldKind = 'text'): FieldDefinition => ({ column, kind });
+
+const auditFields = {
+  id: field('id'),
+  userId: field('user_id'),
+  createdAt: field('created_at', 'timestamp'),
+  updatedAt: field('updated_at', 'timestamp'),
+  deletedAt: field('deleted_at', 'timestamp'),
+};
+
+const newestFirst = (a: { createdAt: number }, b: { createdAt: number }) => (b.createdAt || 0) - (a.createdAt || 0);
+
+// Parents come before the collections that reference them, so restores and transfers can insert in this order.
+export const entityDefinitions: { [K in EntityName]: EntityDefinition<K> } = {
+  accounts: {
+    table: 'accounts',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      type: field('type'),
+      institution: field('institution'),
+      openingBalance: field('opening_balance', 'money'),
+      currency: field('currency'),
+    },
+    compare: (a, b) => a.name.localeCompare(b.name) || newestFirst(a, b),
+    cascade: [{ entity: 'transactions', foreignKey: 'accountId' }, { entity: 'reconciliations', foreignKey: 'accountId' }],
+  },
+  // Checks of an account against bank statements; the transactions they reconciled are locked.
+  reconciliations: {
+    table: 'reconciliations',
+    fields: {
+      ...auditFields,
+      accountId: field('account_id'),
+      statementDate: field('statement_date', 'date'),
+      statementBalance: field('statement_balance', 'money'),
+      status: field('status'),
+      transactionIds: field('transaction_ids', 'json'),
+      completedAt: field('completed_at', 'timestamp'),
+    },
+    compare: (a, b) => b.statementDate.localeCompare(a.statementDate) || newestFirst(a, b),
+    normalize: (reconciliation) => ({ ...reconciliation, transactionIds: reconciliation.transactionIds ?? null, completedAt: reconciliation.completedAt ?? null }),
+  },
+  transactions: {
+    table: 'transactions',
+    fields: {
+      ...auditFields,
+      type: field('type'),
+      amount: field('amount', 'money'),
+      currency: field('currency'),
+      accountId: field('account_id'),
+      transferTo: field('transfer_to'),
+      transferToId: field('transfer_to_id'),
+      category: field('category'),
+      splits: field('splits', 'json'),
+      tagIds: field('tag_ids', 'json'),
+      payeeId: field('payee_id'),
+      date: field('date', 'date'),
+      description: field('description'),
+      recurrenceFrequency: field('recurrence_frequency'),
+      recurrenceInterval: field('recurrence_interval', 'integer'),
+      recurrenceEndDate: field('recurrence_end_date', 'date'),
+      recurrenceCount: field('recurrence_count', 'integer'),
+      recurrenceDayRule: field('recurrence_day_rule'),
+      recurrenceWeekendShift: field('recurrence_weekend_shift'),
+      clearedStatus: field('cleared_status'),
+      receiptImageUri: field('receipt_image_uri'),
+    },
+    compare: (a, b) => {
+      const dateComparison = parseISO(b.date).getTime() - parseISO(a.date).getTime();
+      return dateComparison !== 0 ? dateComparison : newestFirst(a, b);
+    },
+    normalize: (tx) => ({ ...tx, ...normalizeRecurrenceRule(tx), currency: tx.currency || DEFAULT_CURRENCY, splits: tx.splits ?? null, tagIds: tx.tagIds ?? null, payeeId: tx.payeeId ?? null, clearedStatus: tx.clearedStatus ?? null }),
+    cascade: [{ entity: 'attachments', foreignKey: 'ownerId' }, { entity: 'recurrenceOccurrences', foreignKey: 'transactionId' }],
+  },
+  // One per occurrence of a recurring transaction that was paid, skipped, rescheduled or adjusted.
+  recurrenceOccurrences: {
+    table: 'recurrence_occurrences',
+    fields: {
+      ...auditFields,
+      transactionId: field('transaction_id'),
+      scheduledDate: field('scheduled_date', 'date'),
+      status: field('status'),
+      date: field('occurrence_date', 'date'),
+      amount: field('amount', 'money'),
+    },
+    compare: (a, b) => a.scheduledDate.localeCompare(b.scheduledDate) || newestFirst(a, b),
+    normalize: (occurrence) => ({ ...occurrence, date: occurrence.date ?? null, amount: occurrence.amount ?? null }),
+  },
+  loans: {
+    table: 'loans',
+    fields: {
+      ...auditFields,
+      bankName: field('bank_name'),
+      description: field('description'),
+      installmentAmount: field('installment_amount', 'money'),
+      installmentsCount: field('installments_count', 'integer'),
+      startDate: field('start_date', 'date'),
+      endDate: field('end_date', 'date'),
+    },
+    compare: (a, b) => parseISO(a.startDate).getTime() - parseISO(b.startDate).getTime() || newestFirst(a, b),
+    cascade: [{ entity: 'attachments', foreignKey: 'ownerId' }],
+  },
+  creditCards: {
+    table: 'credit_cards',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      limit: field('limit_amount', 'money'),
+      dueDateDay: field('due_date_day', 'integer'),
+      closingDateDay: field('closing_date_day', 'integer'),
+    },
+    compare: newestFirst,
+    cascade: [{ entity: 'creditCardPurchases', foreignKey: 'cardId' }],
+  },
+  creditCardPurchases: {
+    table: 'credit_card_purchases',
+    fields: {
+      ...auditFields,
+      cardId: field('card_id'),
+      date: field('purchase_date', 'date'),
+      description: field('description'),
+      category: field('category'),
+      splits: field('splits', 'json'),
+      tagIds: field('tag_ids', 'json'),
+      payeeId: field('payee_id'),
+      totalAmount: field('total_amount', 'money'),
+      currency: field('currency'),
+      installments: field('installments', 'integer'),
+    },
+    compare: (a, b) => parseISO(b.date).getTime() - parseISO(a.date).getTime() || newestFirst(a, b),
+    normalize: (purchase) => ({ ...purchase, currency: purchase.currency || DEFAULT_CURRENCY, splits: purchase.splits ?? null, tagIds: purchase.tagIds ?? null, payeeId: purchase.payeeId ?? null }),
+    cascade: [{ entity: 'attachments', foreignKey: 'ownerId' }],
+  },
+  categories: {
+    table: 'user_categories',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      isSystemDefined: field('is_system_defined', 'boolean'),
+      parentId: field('parent_id'),
+      icon: field('icon'),
+      color: field('color'),
+    },
+    compare: (a, b) => a.name.localeCompare(b.name),
+    normalize: (category) => ({ ...category, parentId: category.parentId ?? null, icon: category.icon ?? null, color: category.color ?? null }),
+    cascade: [{ entity: 'budgets', foreignKey: 'categoryId' }, { entity: 'envelopeAssignments', foreignKey: 'categoryId' }],
+  },
+  // Monthly spending limits; spending is matched to them through the category's name (src/lib/budgets.ts).
+  budgets: {
+    table: 'budgets',
+    fields: {
+      ...auditFields,
+      categoryId: field('category_id'),
+      amount: field('amount', 'money'),
+      rollover: field('rollover', 'boolean'),
+      startMonth: field('start_month'),
+    },
+    compare: (a, b) => a.startMonth.localeCompare(b.startMonth) || newestFirst(a, b),
+  },
+  // Envelope budgeting: what was put in each category's envelope per month (src/lib/envelopes.ts).
+  envelopeAssignments: {
+    table: 'envelope_assignments',
+    fields: {
+      ...auditFields,
+      categoryId: field('category_id'),
+      month: field('month'),
+      amount: field('amount', 'money'),
+    },
+    compare: (a, b) => a.month.localeCompare(b.month) || newestFirst(a, b),
+  },
+  tags: {
+    table: 'tags',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+    },
+    compare: (a, b) => a.name.localeCompare(b.name),
+  },
+  payees: {
+    table: 'payees',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      aliases: field('aliases', 'json'),
+      defaultCategory: field('default_category'),
+    },
+    compare: (a, b) => a.name.localeCompare(b.name),
+    normalize: (payee) => ({ ...payee, aliases: payee.aliases ?? [], defaultCategory: payee.defaultCategory ?? null }),
+  },
+  financialGoals: {
+    table: 'financial_goals',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      targetAmount: field('target_amount', 'money'),
+      currentAmount: field('current_amount', 'money'),
+      currency: field('currency'),
+      targetDate: field('target_date', 'date'),
+      description: field('description'),
+      icon: field('icon'),
+      status: field('status'),
+    },
+    compare: newestFirst,
+    normalize: (goal) => ({ ...goal, currency: goal.currency || DEFAULT_CURRENCY }),
+  },
+  investments: {
+    table: 'investments',
+    fields: {
+      ...auditFields,
+      name: field('name'),
+      type: field('type'),
+      initialAmount: field('initial_amount', 'money'),
+      currentValue: field('current_value', 'money'),
+      currency: field('currency'),
+      quantity: field('quantity', 'number'),
+      symbol: field('symbol'),
+      institution: field('institution'),
+      acquisitionDate: field('acquisition_date', 'date'),
+      notes: field('notes'),
+    },
+    compare: newestFirst,
+    normalize: (investment) => ({ ...investment, currency: investment.currency || DEFAULT_CURRENCY }),
+    cascade: [{ entity: 'attachments', foreignKey: 'ownerId' }],
+  },
+  // Files live in the attachment store (src/lib/attachmentStore); this is their metadata.
+  // ownerId is a transaction, card purchase, loan or investment, whose cascade moves it along.
+  attachments: {
+    table: 'attachments',
+    fields: {
+      ...auditFields,
+      ownerEntity: field('owner_entity'),
+      ownerId: field('owner_id'),
+      fileName: field('file_name'),
+      contentType: field('content_type'),
+      size: field('size', 'integer'),
+      hasThumbnail: field('has_thumbnail', 'boolean'),
+    },
+    compare: (a, b) => a.createdAt - b.createdAt,
+  },
+  exchangeRates: {
+    table: 'exchange_rates',
+    fields: {
+      ...auditFields,
+      currency: field('currency'),
+      quoteCurrency: field('quote_currency'),
+      rate: field('rate', 'number'),
+      date: field('rate_date', 'date'),
+    },
+    // Newest quote first, so the table in Configurações reads like a price history.
+    compare: (a, b) => b.date.localeCompare(a.date) || a.currency.localeCompare(b.currency) || newestFirst(a, b),
+  },
+  // Append-only change history; databaseService writes it, nothing updates or deletes it.
+  auditEvents: {
+    table: 'audit_events',
+    fields: {
+      id: field('id'),
+      userId: field('user_id'),
+      entity: field('entity'),
+      recordId: field('record_id'),
+      action: field('action'),
+      changes: field('changes', 'json'),
+      actorId: field('actor_id'),
+      createdAt: field('created_at', 'timestamp'),
+    },
+    compare: (a, b) => a.createdAt - b.createdAt,
+  },
+};
+
+export const entityNames = Object.keys(entityDefinitions) as EntityName[];
+
+/** Rounds every `money` field to whole cents, so amounts never carry float residue into storage. */
+export function roundMoneyFields<T extends object>(entity: EntityName, record: T): T {
+  const rounded: Record<string, any> = { ...record };
+  for (const [key, { kind }] of Object.entries(entityDefinitions[entity].fields as Record<string, FieldDefinition>)) {
+    if (kind === 'money' && typeof rounded[key] === 'number') rounded[key] = roundMoney(rounded[key]);
+  }
+  return rounded as T;
+}
+
+/** Applies the shared read-time defaults every adapter must honour. */
+export function normalizeRecord<K extends EntityName>(entity: K, record: EntityRecord<K>): EntityRecord<K> {
+  const definition = entityDefinitions[entity] as EntityDefinition<K>;
+  const withUpdatedAt: Record<string, any> = roundMoneyFields(entity, { ...record });
+  if ('updatedAt' in definition.fields) withUpdatedAt.updatedAt = withUpdatedAt.updatedAt || withUpdatedAt.createdAt;
+  // Records outside the trash carry no deletedAt at all, whatever the backend returns for the column.
+  if (withUpdatedAt.deletedAt === null) delete withUpdatedAt.deletedAt;
+  return definition.normalize ? definition.normalize(withUpdatedAt as EntityRecord<K>) : withUpdatedAt as EntityRecord<K>;
+}
+
+export function sortRecords<K extends EntityName>(entity: K, records: EntityRecord<K>[]): EntityRecord<K>[] {
+  const definition = entityDefinitions[entity] as EntityDefinition<K>;
+  return [...records].sort(definition.compare);
+}
+
+/** A record's value for a field named in a definition rather than in code, like a cascade's `foreignKey`. */
+export function fieldValue(record: object, field: string): unknown {
+  return (record as Record<string, unknown>)[field];
+}
+
+/** Every collection of a user, each built by `collect` (read from storage, taken from a backup). */
+export async function buildCollections(collect: <K extends EntityName>(entity: K) => EntityRecord<K>[] | Promise<EntityRecord<K>[]>): Promise<UserCollections> {
+  const collections: Array<[EntityName, EntityRecord<EntityName>[]]> = [];
+  for (const entity of entityNames) {
+    collections.push([entity, await collect(entity)]);
+  }
+  return Object.fromEntries(collections) as UserCollections;
+}
@@ -0,0 +1,94 @@
+// src/lib/storage/index.ts
+import path from 'path';
+import { Pool } from 'pg';
+import { createLocalJsonAdapter } from './localJsonAdapter';
+import { createPostgresAdapter } from './postgresAdapter';
+import { createSqliteAdapter } from './sqliteAdapter';
+import { migratePostgres, type Migration } from './migrations';
+import { StorageError, type StorageAdapter } from './types';
+
+export * from './types';
+export { buildCollections, entityDefinitions, entityNames, fieldValue, normalizeRecord, roundMoneyFields, sortRecords } from './entities';
+export { decodeCursor, DEFAULT_TRANSACTION_PAGE_SIZE, MAX_TRANSACTION_PAGE_SIZE } from './transactionQuery';
+
+export const DEFAULT_CATEGORY_NAMES = [
+  'Alimentação',
+  'Transporte',
+  'Moradia',
+  'Saúde',
+  'Educação',
+  'Lazer',
+  'Vestuário',
+  'Contas Fixas',
+  'Compras Online',
+  'Salário',
+  'Investimentos',
+  'Presentes',
+  'Cuidados Pessoais',
+  'Viagens',
+  'Serviços (Assinaturas)',
+  'Impostos',
+  'Outras Receitas',
+  'Outras Despesas',
+];
+
+export const LOCAL_DB_PATH = path.join(process.cwd(), 'src', 'data', 'db.json');
+export const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'src', 'data', 'solar-fin.sqlite');
+
+export function getDatabaseMode(): string {
+  return process.env.DATABASE_MODE || 'local';
+}
+
+/** Days a deleted record stays in the trash before it is purged (TRASH_RETENTION_DAYS, default 30; 0 keeps it until removed by hand). */
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS ?? 30);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+}
+
+let adapter: StorageAdapter | null = null;
+let pool: Pool | null = null;
+
+function getPostgresPool(): Pool {
+  if (pool) return pool;
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    console.warn("DATABASE_MODE is 'postgres' but DATABASE_URL is not set. PostgreSQL will not be available.");
+    throw new StorageError('Database service (PostgreSQL) not configured correctly.', 'unavailable');
+  }
+  pool = new Pool({ connectionString: databaseUrl });
+  pool.on('connect', () => console.log('Connected to PostgreSQL'));
+  pool.on('error', (err) => console.error('PostgreSQL client error', err));
+  return pool;
+}
+
+/**
+ * Builds an adapter for the given DATABASE_MODE from the environment
+ * (DATABASE_URL, SQLITE_PATH). Throws an `unavailable` StorageError when the backend is misconfigured.
+ */
+export function createStorageAdapter(mode: string): StorageAdapter {
+  if (mode === 'postgres') {
+    return createPostgresAdapter(getPostgresPool());
+  }
+  if (mode === 'sqlite') {
+    const filePath = process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH;
+    console.log(`Using SQLite database at ${filePath} for data storage.`);
+    return createSqliteAdapter({ filePath });
+  }
+  console.log('Using local db.json for data storage.');
+  return createLocalJsonAdapter({ filePath: LOCAL_DB_PATH, defaultCategoryNames: DEFAULT_CATEGORY_NAMES });
+}
+
+/** Returns the process-wide adapter for the configured DATABASE_MODE. */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) adapter = createStorageAdapter(getDatabaseMode());
+  return adapter;
+}
+
+/**
+ * Applies pending PostgreSQL migrations; called on server startup.
+ * SQLite migrates when the adapter opens and db.json upgrades itself on read.
+ */
+export async function migrateDatabase(): Promise<Migration[]> {
+  if (getDatabaseMode() !== 'postgres') return [];
+  return migratePostgres(getPostgresPool());
+}
@@ -0,0 +1,531 @@
+// src/lib/storage/localJsonAdapter.ts
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import type { UserProfile, Transaction, UserCategory, RecurrenceFrequency } from '@/types';
+import { entityDefinitions, entityNames, fieldValue, normalizeRecord, sortRecords } from './entities';
+import { compareForQuery, decodeCursor, isAfterCursor, matchesTransactionQuery, pageSizeOf, toTransactionPage } from './transactionQuery';
+import { StorageError, type StorageAdapter, type StoredUser, type UserPatch, type UserCollections, type EntityName, type EntityRecord, type EntityPatch, type EntityBatchOperation, type EntityBatchResult } from './types';
+
+/** The fields trash and restore touch. */
+type TrashableItem = { id: string; deletedAt?: number | null };
+
+interface UserRecord extends UserCollections {
+  profile: UserProfile;
+  hashedPassword?: string;
+}
+
+interface LocalDB {
+  users: {
+    [userId: string]: UserRecord;
+  };
+}
+
+export interface LocalJsonAdapterOptions {
+  filePath: string;
+  /** Categories given to users found without any while upgrading an old db.json. */
+  defaultCategoryNames?: string[];
+}
+
+const emptyCollections = (): UserCollections => ({
+  accounts: [],
+  reconciliations: [],
+  transactions: [],
+  recurrenceOccurrences: [],
+  loans: [],
+  creditCards: [],
+  creditCardPurchases: [],
+  categories: [],
+  budgets: [],
+  envelopeAssignments: [],
+  tags: [],
+  payees: [],
+  financialGoals: [],
+  investments: [],
+  attachments: [],
+  exchangeRates: [],
+  auditEvents: [],
+});
+
+const definedOnly = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+/** Maps the pre-`recurrenceFrequency` boolean flag onto the current field. */
+function migrateLegacyRecurrence(tx: Transaction): { tx: Transaction; changed: boolean } {
+  const txAsAny = tx as any;
+  if (!txAsAny.hasOwnProperty('isRecurring') || typeof txAsAny.isRecurring !== 'boolean') {
+    return { tx, changed: false };
+  }
+  const { isRecurring, ...rest } = txAsAny;
+  let frequency: RecurrenceFrequency = rest.recurrenceFrequency || 'none';
+  if (isRecurring && frequency === 'none') frequency = 'monthly';
+  return { tx: { ...rest, recurrenceFrequency: frequency }, changed: true };
+}
+
+/** Parsed db.json plus the file identity it was read from, used to detect external changes. */
+interface Snapshot {
+  db: LocalDB;
+  /** Canonical serialization of `db`; mutations that leave it unchanged skip the write. */
+  raw: string;
+  stat: { mtimeMs: number; size: number; ino: number } | null;
+}
+
+const serialize = (db: LocalDB) => JSON.stringify(db, null, 2);
+
+function parseDB(raw: string): any | null {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function statOrNull(filePath: string) {
+  try {
+    const { mtimeMs, size, ino } = await fs.stat(filePath);
+    return { mtimeMs, size, ino };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/** Writes to a temp file, fsyncs it and renames it over the target, so readers never see a partial file. */
+async function writeAtomically(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * db.json-backed adapter. Every mutation runs through a per-process queue and is
+ * written with temp-file-and-rename; the previous good file is kept as `<file>.bak`
+ * and restored automatically when db.json turns out to be unreadable.
+ */
+export function createLocalJsonAdapter({ filePath, defaultCategoryNames = [] }: LocalJsonAdapterOptions): StorageAdapter {
+  const backupPath = `${filePath}.bak`;
+  let cache: Snapshot | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async function persist(db: LocalDB, raw: string = serialize(db)): Promise<Snapshot> {
+    try {
+      // Only snapshot a file we have successfully parsed; a corrupt one must not replace the backup.
+      if (cache?.stat && (await statOrNull(filePath))) {
+        await fs.copyFile(filePath, backupPath);
+      }
+      await writeAtomically(filePath, raw);
+    } catch (error: any) {
+      console.error('Error writing to database file:', error.message, error);
+      throw new Error('Could not write to database.');
+    }
+    cache = { db, raw, stat: await statOrNull(filePath) };
+    return cache;
+  }
+
+  async function recoverFromBackup(): Promise<any> {
+    const backup = parseDB(await fs.readFile(backupPath, 'utf-8').catch(() => ''));
+    if (!backup) {
+      console.error('Database file is corrupt and no usable backup was found.');
+      throw new Error('Could not read database.');
+    }
+    const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+    await fs.rename(filePath, corruptPath).catch(() => undefined);
+    console.warn(`Database file was unreadable; restored the last good snapshot. The damaged file was kept as ${corruptPath}.`);
+    return backup;
+  }
+
+  const defaultCategoriesFor = (userId: string): UserCategory[] => defaultCategoryNames.map(name => ({
+    id: randomUUID(), userId, name, isSystemDefined: true, createdAt: Date.now(), updatedAt: Date.now(),
+  }));
+
+  /**
+   * Upgrades db.json files written by older versions: the single-user layout,
+   * missing collections, missing `updatedAt` and the legacy `isRecurring` flag.
+   */
+  async function upgradeStructure(db: any): Promise<LocalDB> {
+    let modified = false;
+
+    if (!db.users || !Object.keys(db.users).every(key => typeof db.users[key]?.profile === 'object')) {
+      if (db.transactions || db.loans || db.creditCards || db.creditCardPurchases) {
+        console.log("Old db.json structure detected. Migrating to multi-user structure...");
+        const defaultUserId = "default-user-migrated-id";
+        db = {
+          users: {
+            [defaultUserId]: {
+              ...emptyCollections(),
+              profile: {
+                id: defaultUserId,
+                email: "migrated@example.local",
+                displayName: "Migrated User",
+                createdAt: Date.now(),
+                lastLoginAt: Date.now(),
+                notifyByEmail: false,
+              },
+              hashedPassword: await bcrypt.hash("password", 10),
+              transactions: (db.transactions || []).map((tx: any) => ({ ...tx, userId: defaultUserId })),
+              loans: (db.loans || []).map((l: any) => ({ ...l, userId: defaultUserId })),
+              creditCards: (db.creditCards || []).map((cc: any) => ({ ...cc, userId: defaultUserId })),
+              creditCardPurchases: (db.creditCardPurchases || []).map((p: any) => ({ ...p, userId: defaultUserId })),
+              categories: defaultCategoriesFor(defaultUserId),
+            },
+          },
+        };
+        console.log("db.json migrated. Data moved under 'migrated@example.local'. Please update password or create new users.");
+        modified = true;
+      } else if (!db.users) {
+        db = { users: {} };
+        console.log("Initialized empty users object in db.json.");
+        modified = true;
+      }
+    }
+
+    for (const userId in db.users) {
+      const userRecord = db.users[userId];
+      if (!userRecord?.profile) continue;
+
+      if (!userRecord.categories) {
+        userRecord.categories = defaultCategoriesFor(userId);
+        modified = true;
+      }
+      for (const entity of entityNames) {
+        if (!userRecord[entity]) {
+          userRecord[entity] = [];
+          modified = true;
+        }
+        userRecord[entity] = userRecord[entity].map((item: any) => {
+          if (!item.updatedAt && 'updatedAt' in entityDefinitions[entity].fields) {
+            modified = true;
+            return { ...item, updatedAt: item.createdAt };
+          }
+          return item;
+        });
+      }
+      userRecord.transactions = userRecord.transactions.map((tx: Transaction) => {
+        const migrated = migrateLegacyRecurrence(tx);
+        if (migrated.changed) modified = true;
+        return migrated.tx;
+      });
+      if (userRecord.profile.notifyByEmail === undefined) {
+        userRecord.profile.notifyByEmail = false;
+        modified = true;
+      }
+    }
+
+    if (modified) {
+      console.log("db.json structure updated for all users.");
+    }
+    return db as LocalDB;
+  }
+
+  /** Returns the cached database, re-reading db.json only when it changed on disk. */
+  async function load(): Promise<Snapshot> {
+    const stat = await statOrNull(filePath);
+    if (cache && stat && cache.stat && stat.mtimeMs === cache.stat.mtimeMs && stat.size === cache.stat.size && stat.ino === cache.stat.ino) {
+      return cache;
+    }
+
+    if (!stat) {
+      cache = null;
+      const snapshot = await persist({ users: {} });
+      console.log('Created empty db.json.');
+      return snapshot;
+    }
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      console.error('Error reading database file:', error.message, error);
+      throw new Error('Could not read database.');
+    }
+    let data = parseDB(raw);
+    const recovered = !data;
+    if (recovered) data = await recoverFromBackup();
+
+    const beforeUpgrade = serialize(data);
+    const db = await upgradeStructure(data);
+    const canonical = serialize(db);
+    cache = { db, raw: canonical, stat: recovered ? null : stat };
+    return recovered || canonical !== beforeUpgrade ? persist(db, canonical) : cache;
+  }
+
+  /** Reads behind pending writes, so callers always see their own mutations. */
+  const readDB = (): Promise<LocalDB> => enqueue(async () => (await load()).db);
+
+  /**
+   * Applies `work` to a private copy of the database and writes it back atomically.
+   * Writes are skipped when `work` leaves the data unchanged; if `work` throws, nothing is written.
+   */
+  function mutate<T>(work: (db: LocalDB) => T): Promise<T> {
+    return enqueue(async () => {
+      const snapshot = await load();
+      const db = JSON.parse(snapshot.raw) as LocalDB;
+      const result = work(db);
+      const raw = serialize(db);
+      if (raw !== snapshot.raw) await persist(db, raw);
+      return result;
+    });
+  }
+
+  const findByEmail = (db: LocalDB, email: string) => Object.values(db.users).find(u => u.profile.email === email);
+
+  // Copies, so callers can't modify the cached database through the returned profile.
+  // Users created before base currencies existed read as BRL, like the SQL column default.
+  const toStoredUser = (record: UserRecord): StoredUser => ({ profile: { baseCurrency: DEFAULT_CURRENCY, ...record.profile }, hashedPassword: record.hashedPassword });
+
+  const collectionOf = <K extends EntityName>(record: UserRecord, entity: K): EntityRecord<K>[] => {
+    if (!record[entity]) (record as UserCollections)[entity] = [];
+    return record[entity] as EntityRecord<K>[];
+  };
+
+  // Every entity but the append-only history log can be trashed.
+  const trashableOf = (record: UserRecord, entity: EntityName): TrashableItem[] => collectionOf(record, entity);
+
+  /** Drops, in place, the items of a collection that `keep` rejects; returns how many were dropped. */
+  function keepOnly<K extends EntityName>(record: UserRecord, entity: K, keep: (item: EntityRecord<K>) => boolean): number {
+    const items = collectionOf(record, entity);
+    let kept = 0;
+    for (const item of items) {
+      if (keep(item)) items[kept++] = item;
+    }
+    const dropped = items.length - kept;
+    items.length = kept;
+    return dropped;
+  }
+
+  function updateItem<K extends EntityName>(record: UserRecord, entity: K, id: string, patch: EntityPatch<K>, expectedUpdatedAt?: number): EntityRecord<K> | null {
+    const items = collectionOf(record, entity);
+    const index = items.findIndex(i => i.id === id);
+    if (index === -1) return null;
+    const item = items[index] as { createdAt?: number; updatedAt?: number };
+    if (expectedUpdatedAt !== undefined && (item.updatedAt ?? item.createdAt) !== expectedUpdatedAt) return null;
+    items[index] = { ...items[index], ...definedOnly(patch) };
+    return normalizeRecord(entity, items[index]);
+  }
+
+  /** Trashes the item and its active cascade children; null if it does not exist or is already trashed. */
+  function trashItem<K extends EntityName>(record: UserRecord, entity: K, id: string, deletedAt: number): EntityRecord<K> | null {
+    const items = collectionOf(record, entity);
+    const index = items.findIndex(i => i.id === id);
+    const item: TrashableItem | undefined = items[index];
+    if (!item || item.deletedAt) return null;
+    item.deletedAt = deletedAt;
+    for (const child of entityDefinitions[entity].cascade || []) {
+      for (const c of trashableOf(record, child.entity)) {
+        if (fieldValue(c, child.foreignKey) === id && !c.deletedAt) c.deletedAt = deletedAt;
+      }
+    }
+    return normalizeRecord(entity, items[index]);
+  }
+
+  /** Takes the item out of the trash with the children trashed along with it; null if it is not in the trash. */
+  function restoreItem<K extends EntityName>(record: UserRecord, entity: K, id: string): EntityRecord<K> | null {
+    const items = collectionOf(record, entity);
+    const index = items.findIndex(i => i.id === id);
+    const item: TrashableItem | undefined = items[index];
+    if (!item || !item.deletedAt) return null;
+    for (const child of entityDefinitions[entity].cascade || []) {
+      for (const c of trashableOf(record, child.entity)) {
+        if (fieldValue(c, child.foreignKey) === id && c.deletedAt === item.deletedAt) delete c.deletedAt;
+      }
+    }
+    delete item.deletedAt;
+    return normalizeRecord(entity, items[index]);
+  }
+
+  function insertUser(user: StoredUser, data: UserCollections): Promise<StoredUser> {
+    return mutate(db => {
+      if (findByEmail(db, user.profile.email)) {
+        throw new StorageError('User with this email already exists.', 'conflict');
+      }
+      db.users[user.profile.id] = {
+        ...data,
+        profile: user.profile,
+        hashedPassword: user.hashedPassword,
+      };
+      return user;
+    });
+  }
+
+  function applyChanges<K extends EntityName>(userId: string, operations: Array<EntityBatchOperation<K> & { entity: K }>): Promise<EntityBatchResult<K>> {
+    return mutate(db => {
+      if (!db.users[userId]) throw new StorageError('User not found.', 'not_found');
+      // Changes go to a copy of the user's data, kept only if every operation applies.
+      const draft = structuredClone(db.users[userId]);
+      const records: EntityRecord<K>[] = [];
+      for (const [index, operation] of operations.entries()) {
+        const { entity } = operation;
+        let result: EntityRecord<K> | null;
+        if (operation.type === 'insert') {
+          collectionOf(draft, entity).push(operation.record);
+          result = operation.record;
+        } else if (operation.type === 'update') {
+          result = updateItem(draft, entity, operation.id, operation.patch, operation.expectedUpdatedAt);
+        } else if (operation.type === 'trash') {
+          result = trashItem(draft, entity, operation.id, operation.deletedAt);
+        } else {
+          result = restoreItem(draft, entity, operation.id);
+        }
+        if (!result) return { applied: false, failedIndex: index };
+        records.push(result);
+      }
+      db.users[userId] = draft;
+      return { applied: true, records };
+    });
+  }
+
+  return {
+    mode: 'local',
+
+    async createUser(user, categories) {
+      return insertUser(user, { ...emptyCollections(), categories });
+    },
+
+    async createUserWithData(user, data) {
+      return insertUser(user, data);
+    },
+
+    async findUserById(userId) {
+      const db = await readDB();
+      const record = db.users[userId];
+      return record?.profile ? toStoredUser(record) : null;
+    },
+
+    async findUserByEmail(email) {
+      const db = await readDB();
+      const record = findByEmail(db, email);
+      return record ? toStoredUser(record) : null;
+    },
+
+    async listUsers() {
+      const db = await readDB();
+      return Object.values(db.users)
+        .filter(record => record?.profile)
+        .sort((a, b) => (a.profile.createdAt || 0) - (b.profile.createdAt || 0))
+        .map(toStoredUser);
+    },
+
+    async updateUser(userId, patch: UserPatch) {
+      return mutate(db => {
+        const record = db.users[userId];
+        if (!record?.profile) return null;
+        const { hashedPassword, ...profilePatch } = patch;
+        record.profile = { ...record.profile, ...definedOnly(profilePatch) };
+        if (hashedPassword !== undefined) record.hashedPassword = hashedPassword;
+        return toStoredUser(record);
+      });
+    },
+
+    async list(entity, userId) {
+      const db = await readDB();
+      const record = db.users[userId];
+      if (!record) return [];
+      return sortRecords(entity, collectionOf(record, entity).map(item => normalizeRecord(entity, item)));
+    },
+
+    async get(entity, userId, id) {
+      const db = await readDB();
+      const record = db.users[userId];
+      const item = record ? collectionOf(record, entity).find(i => i.id === id) : undefined;
+      return item ? normalizeRecord(entity, item) : null;
+    },
+
+    async insert(entity, item) {
+      return mutate(db => {
+        const record = db.users[item.userId];
+        if (!record) throw new StorageError('User not found.', 'not_found');
+        collectionOf(record, entity).push(item);
+        return item;
+      });
+    },
+
+    async update<K extends EntityName>(entity: K, userId: string, id: string, patch: EntityPatch<K>, expectedUpdatedAt?: number) {
+      return mutate(db => {
+        const record = db.users[userId];
+        return record ? updateItem(record, entity, id, patch, expectedUpdatedAt) : null;
+      });
+    },
+
+    async remove(entity, userId, id) {
+      return mutate(db => {
+        const record = db.users[userId];
+        if (!record) return false;
+        if (!keepOnly(record, entity, item => item.id !== id)) return false;
+        for (const child of entityDefinitions[entity].cascade || []) {
+          keepOnly(record, child.entity, c => fieldValue(c, child.foreignKey) !== id);
+        }
+        return true;
+      });
+    },
+
+    async trash(entity, userId, id, deletedAt) {
+      return mutate(db => {
+        const record = db.users[userId];
+        return !!record && trashItem(record, entity, id, deletedAt) !== null;
+      });
+    },
+
+    async restore(entity, userId, id) {
+      return mutate(db => {
+        const record = db.users[userId];
+        return !!record && restoreItem(record, entity, id) !== null;
+      });
+    },
+
+    async applyBatch(entity, userId, operations) {
+      return applyChanges(userId, operations.map(operation => ({ ...operation, entity })));
+    },
+
+    applyChanges,
+
+    async queryTransactions(userId, query) {
+      const db = await readDB();
+      const record = db.users[userId];
+      const matches = (record ? collectionOf(record, 'transactions') : [])
+        .map(tx => normalizeRecord('transactions', tx))
+        .filter(tx => matchesTransactionQuery(tx, query))
+        .sort(compareForQuery(query));
+      const cursorValues = query.cursor ? decodeCursor(query.cursor, query.sortBy) : null;
+      const remaining = cursorValues ? matches.filter(tx => isAfterCursor(tx, cursorValues, query)) : matches;
+      return toTransactionPage(remaining.slice(0, pageSizeOf(query) + 1), query, matches.length);
+    },
+
+    async replaceUserData(userId, profile, data) {
+      return mutate(db => {
+        const record = db.users[userId];
+        if (!record) return false;
+        const { hashedPassword, ...profilePatch } = profile;
+        db.users[userId] = {
+          ...record,
+          ...data,
+          profile: { ...record.profile, ...definedOnly(profilePatch) },
+          hashedPassword: hashedPassword ?? record.hashedPassword,
+        };
+        return true;
+      });
+    },
+
+    async close() {
+      await queue;
+    },
+  };
+}
@@ -0,0 +1,180 @@
+// src/lib/storage/migrations.ts
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Pool } from 'pg';
+import type Database from 'better-sqlite3';
+
+export type MigrationDialect = 'postgres' | 'sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: number;
+}
+
+/**
+ * - `applied`: recorded in schema_migrations with a matching checksum
+ * - `pending`: file present but not applied yet
+ * - `changed`: applied, but the file was edited afterwards
+ * - `missing`: recorded in schema_migrations but the file no longer exists
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt?: number;
+}
+
+export const MIGRATIONS_ROOT = path.join(process.cwd(), 'sql', 'migrations');
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+// Arbitrary key so concurrently starting app instances apply migrations one at a time.
+const POSTGRES_LOCK_KEY = 727_001;
+
+/** `0003_add_tags`, matching the file name. */
+export const migrationLabel = ({ version, name }: { version: number; name: string }) => `${String(version).padStart(4, '0')}_${name}`;
+
+const checksumOf = (sql: string) => createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+/** Reads `NNNN_name.sql` files for a dialect, ordered by version. */
+export function loadMigrations(dialect: MigrationDialect, root: string = MIGRATIONS_ROOT): Migration[] {
+  const directory = path.join(root, dialect);
+  const migrations = fs.readdirSync(directory)
+    .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => {
+      const sql = fs.readFileSync(path.join(directory, file), 'utf-8');
+      return { version: Number(match![1]), name: match![2], sql, checksum: checksumOf(sql) };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  const duplicate = migrations.find((m, index) => index > 0 && migrations[index - 1].version === m.version);
+  if (duplicate) {
+    throw new Error(`Duplicate migration version ${duplicate.version} in ${directory}.`);
+  }
+  return migrations;
+}
+
+export function describeMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(a => [a.version, a]));
+  const statuses: MigrationStatus[] = migrations.map(m => {
+    const record = appliedByVersion.get(m.version);
+    if (!record) return { version: m.version, name: m.name, state: 'pending' };
+    return { version: m.version, name: m.name, state: record.checksum === m.checksum ? 'applied' : 'changed', appliedAt: record.appliedAt };
+  });
+  for (const record of applied) {
+    if (!migrations.some(m => m.version === record.version)) {
+      statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+    }
+  }
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Migrations that still have to run. Refuses to continue when an applied migration
+ * was edited, since the database would no longer match the files.
+ */
+export function pendingMigrations(migrations: Migration[], applied: AppliedMigration[]): Migration[] {
+  const changed = describeMigrations(migrations, applied).filter(s => s.state === 'changed');
+  if (changed.length) {
+    throw new Error(`Applied migrations were modified: ${changed.map(migrationLabel).join(', ')}. Restore the original files or add a new migration instead.`);
+  }
+  const appliedVersions = new Set(applied.map(a => a.version));
+  return migrations.filter(m => !appliedVersions.has(m.version));
+}
+
+// --- PostgreSQL ---
+
+const POSTGRES_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  )`;
+
+async function appliedPostgresMigrations(client: Pick<Pool, 'query'>): Promise<AppliedMigration[]> {
+  await client.query(POSTGRES_MIGRATIONS_TABLE);
+  const res = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return res.rows.map(row => ({ version: row.version, name: row.name, checksum: row.checksum, appliedAt: new Date(row.applied_at).getTime() }));
+}
+
+export async function getPostgresMigrationStatus(pool: Pool, migrations: Migration[] = loadMigrations('postgres')): Promise<MigrationStatus[]> {
+  return describeMigrations(migrations, await appliedPostgresMigrations(pool));
+}
+
+/**
+ * Applies pending migrations, each in its own transaction together with its
+ * schema_migrations row. Returns the migrations that were (or, with `dryRun`, would be) applied.
+ */
+export async function migratePostgres(pool: Pool, options: { migrations?: Migration[]; dryRun?: boolean } = {}): Promise<Migration[]> {
+  const migrations = options.migrations ?? loadMigrations('postgres');
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [POSTGRES_LOCK_KEY]);
+    const pending = pendingMigrations(migrations, await appliedPostgresMigrations(client));
+    if (options.dryRun) return pending;
+    for (const migration of pending) {
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [migration.version, migration.name, migration.checksum]);
+        await client.query('COMMIT');
+        console.log(`Applied migration ${migrationLabel(migration)}.`);
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        console.error(`Migration ${migrationLabel(migration)} failed:`, error.message);
+        throw error;
+      }
+    }
+    return pending;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [POSTGRES_LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+}
+
+// --- SQLite (synchronous, like better-sqlite3 itself) ---
+
+function appliedSqliteMigrations(db: Database.Database): AppliedMigration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`);
+  const rows = db.prepare('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version').all() as any[];
+  return rows.map(row => ({ version: row.version, name: row.name, checksum: row.checksum, appliedAt: row.applied_at }));
+}
+
+export function getSqliteMigrationStatus(db: Database.Database, migrations: Migration[] = loadMigrations('sqlite')): MigrationStatus[] {
+  return describeMigrations(migrations, appliedSqliteMigrations(db));
+}
+
+export function migrateSqlite(db: Database.Database, options: { migrations?: Migration[]; dryRun?: boolean } = {}): Migration[] {
+  const migrations = options.migrations ?? loadMigrations('sqlite');
+  const pending = pendingMigrations(migrations, appliedSqliteMigrations(db));
+  if (options.dryRun) return pending;
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.sql);
+      db.prepare('INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)')
+        .run(migration.version, migration.name, migration.checksum, Date.now());
+    })();
+    console.log(`Applied migration ${migrationLabel(migration)}.`);
+  }
+  return pending;
+}
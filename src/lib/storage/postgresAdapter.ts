@@ -0,0 +1,362 @@
+// src/lib/storage/postgresAdapter.ts
+import { format as formatDateFns } from 'date-fns';
+import type { Pool, PoolClient } from 'pg';
+import { formatMoneyDecimal, roundMoney } from '@/lib/money';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { entityDefinitions, entityNames, normalizeRecord, sortRecords, type FieldDefinition } from './entities';
+import { pageSizeOf, toTransactionPage, transactionQuerySql, type TransactionSqlDialect } from './transactionQuery';
+import { StorageError, type StorageAdapter, type StoredUser, type UserPatch, type UserCollections, type EntityName, type EntityRecord, type EntityBatchOperation, type EntityBatchResult } from './types';
+
+const USER_COLUMNS = 'id, email, hashed_password, display_name, created_at, last_login_at, notify_by_email, base_currency, envelope_start_month';
+
+function toStoredUser(row: any): StoredUser {
+  return {
+    profile: {
+      id: row.id,
+      email: row.email,
+      displayName: row.display_name,
+      createdAt: new Date(row.created_at).getTime(),
+      lastLoginAt: row.last_login_at ? new Date(row.last_login_at).getTime() : undefined,
+      notifyByEmail: row.notify_by_email,
+      baseCurrency: row.base_currency,
+      envelopeStartMonth: row.envelope_start_month ?? undefined,
+    },
+    hashedPassword: row.hashed_password,
+  };
+}
+
+function fromColumnValue(value: any, { kind }: FieldDefinition): any {
+  if (value === null || value === undefined) return value;
+  switch (kind) {
+    case 'number':
+    case 'integer':
+      return Number(value);
+    case 'money':
+      return roundMoney(value);
+    case 'date':
+      return formatDateFns(new Date(value), 'yyyy-MM-dd');
+    case 'timestamp':
+      return new Date(value).getTime();
+    case 'json':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    default:
+      return value;
+  }
+}
+
+function toColumnValue(value: any, { kind }: FieldDefinition): any {
+  if (value === null || value === undefined) return null;
+  if (kind === 'money') return formatMoneyDecimal(value);
+  // node-postgres would send a JS array as a PostgreSQL array, not as JSON.
+  if (kind === 'json') return JSON.stringify(value);
+  return kind === 'timestamp' ? new Date(value) : value;
+}
+
+function fieldEntries(entity: EntityName): Array<[string, FieldDefinition]> {
+  return Object.entries(entityDefinitions[entity].fields);
+}
+
+function fromRow<K extends EntityName>(entity: K, row: any): EntityRecord<K> {
+  const record: Record<string, any> = {};
+  for (const [key, definition] of fieldEntries(entity)) {
+    record[key] = fromColumnValue(row[definition.column], definition);
+  }
+  return normalizeRecord(entity, record as EntityRecord<K>);
+}
+
+async function insertRecord(client: Pool | PoolClient, entity: EntityName, record: Record<string, any>): Promise<any> {
+  const columns: string[] = [];
+  const values: any[] = [];
+  for (const [key, definition] of fieldEntries(entity)) {
+    if (record[key] === undefined) continue;
+    columns.push(definition.column);
+    values.push(toColumnValue(record[key], definition));
+  }
+  const placeholders = values.map((_, index) => `$${index + 1}`).join(', ');
+  const res = await client.query(
+    `INSERT INTO ${entityDefinitions[entity].table} (${columns.join(', ')}) VALUES (${placeholders}) RETURNING *`,
+    values
+  );
+  return res.rows[0];
+}
+
+/** Updated row, or null if the record does not exist (or no longer has version `expectedUpdatedAt`). */
+async function updateRow(client: Pool | PoolClient, entity: EntityName, userId: string, id: string, patch: Record<string, any>, expectedUpdatedAt?: number): Promise<any | null> {
+  const fields: string[] = [];
+  const values: any[] = [];
+  let queryIndex = 1;
+  const definitions = entityDefinitions[entity].fields as Record<string, FieldDefinition>;
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined || !definitions[key] || ['id', 'userId', 'createdAt'].includes(key)) continue;
+    fields.push(`${definitions[key].column} = $${queryIndex++}`);
+    values.push(toColumnValue(value, definitions[key]));
+  }
+  values.push(id, userId);
+  let versionCondition = '';
+  if (expectedUpdatedAt !== undefined) {
+    // Rows last written by the old trigger keep microseconds, but versions are read back in milliseconds.
+    versionCondition = ` AND date_trunc('milliseconds', updated_at) = $${queryIndex + 2}`;
+    values.push(new Date(expectedUpdatedAt));
+  }
+  const res = await client.query(
+    `UPDATE ${entityDefinitions[entity].table} SET ${fields.join(', ')} WHERE id = $${queryIndex} AND user_id = $${queryIndex + 1}${versionCondition} RETURNING *`,
+    values
+  );
+  return res.rows[0] || null;
+}
+
+/** Trashes the record and its active cascade children; returns the trashed row, or null. Run inside a transaction. */
+async function trashRow(client: PoolClient, entity: EntityName, userId: string, id: string, deletedAt: number): Promise<any | null> {
+  const res = await client.query(
+    `UPDATE ${entityDefinitions[entity].table} SET deleted_at = $1 WHERE id = $2 AND user_id = $3 AND deleted_at IS NULL RETURNING *`,
+    [new Date(deletedAt), id, userId]
+  );
+  if (!res.rows.length) return null;
+  for (const child of entityDefinitions[entity].cascade || []) {
+    const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+    await client.query(
+      `UPDATE ${entityDefinitions[child.entity].table} SET deleted_at = $1 WHERE ${childDefinitions[child.foreignKey].column} = $2 AND user_id = $3 AND deleted_at IS NULL`,
+      [new Date(deletedAt), id, userId]
+    );
+  }
+  return res.rows[0];
+}
+
+/** Restores the record with the children trashed along with it; returns the restored row, or null. Run inside a transaction. */
+async function restoreRow(client: PoolClient, entity: EntityName, userId: string, id: string): Promise<any | null> {
+  const res = await client.query(
+    `SELECT deleted_at FROM ${entityDefinitions[entity].table} WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+    [id, userId]
+  );
+  const deletedAt = res.rows[0]?.deleted_at;
+  if (!deletedAt) return null;
+  for (const child of entityDefinitions[entity].cascade || []) {
+    const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+    await client.query(
+      `UPDATE ${entityDefinitions[child.entity].table} SET deleted_at = NULL WHERE ${childDefinitions[child.foreignKey].column} = $1 AND user_id = $2 AND deleted_at = $3`,
+      [id, userId, deletedAt]
+    );
+  }
+  const restored = await client.query(`UPDATE ${entityDefinitions[entity].table} SET deleted_at = NULL WHERE id = $1 AND user_id = $2 RETURNING *`, [id, userId]);
+  return restored.rows[0];
+}
+
+const transactionSqlDialect: TransactionSqlDialect = {
+  placeholder: index => `$${index}`,
+  toParam: toColumnValue,
+  ilike: 'ILIKE',
+  jsonArrayContains: (column, placeholder) => `${column} @> jsonb_build_array(${placeholder}::text)`,
+};
+
+function translateError(error: any): never {
+  if (error instanceof StorageError) throw error;
+  if (error.code === '23505') throw new StorageError('Record already exists.', 'conflict');
+  if (error.code === '23503') throw new StorageError('User not found.', 'not_found');
+  throw error;
+}
+
+export function createPostgresAdapter(pool: Pool): StorageAdapter {
+  async function inTransaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async function applyChanges<K extends EntityName>(userId: string, operations: Array<EntityBatchOperation<K> & { entity: K }>): Promise<EntityBatchResult<K>> {
+    const failed = new Error('batch operation failed');
+    let failedIndex = -1;
+    try {
+      const rows = await inTransaction(async client => {
+        const user = await client.query('SELECT 1 FROM app_users WHERE id = $1', [userId]);
+        if (!user.rows.length) throw new StorageError('User not found.', 'not_found');
+        const applied: any[] = [];
+        for (const [index, operation] of operations.entries()) {
+          const { entity } = operation;
+          const row = operation.type === 'insert' ? await insertRecord(client, entity, operation.record)
+            : operation.type === 'update' ? await updateRow(client, entity, userId, operation.id, operation.patch, operation.expectedUpdatedAt)
+            : operation.type === 'trash' ? await trashRow(client, entity, userId, operation.id, operation.deletedAt)
+            : await restoreRow(client, entity, userId, operation.id);
+          if (!row) {
+            failedIndex = index;
+            throw failed; // rolls the transaction back
+          }
+          applied.push(row);
+        }
+        return applied;
+      });
+      return { applied: true, records: rows.map((row, index) => fromRow(operations[index].entity, row)) };
+    } catch (error) {
+      if (error === failed) return { applied: false, failedIndex };
+      translateError(error);
+    }
+  }
+
+  async function insertUser(user: StoredUser, data: Partial<UserCollections>): Promise<StoredUser> {
+    try {
+      return await inTransaction(async client => {
+        const { profile } = user;
+        const res = await client.query(
+          `INSERT INTO app_users (id, email, hashed_password, display_name, created_at, last_login_at, notify_by_email, base_currency, envelope_start_month) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING ${USER_COLUMNS}`,
+          [profile.id, profile.email, user.hashedPassword, profile.displayName || null, new Date(profile.createdAt ?? Date.now()), profile.lastLoginAt ? new Date(profile.lastLoginAt) : null, profile.notifyByEmail ?? false, profile.baseCurrency || DEFAULT_CURRENCY, profile.envelopeStartMonth ?? null]
+        );
+        // Parents before children.
+        for (const entity of entityNames) {
+          for (const record of data[entity] ?? []) {
+            await insertRecord(client, entity, record);
+          }
+        }
+        return toStoredUser(res.rows[0]);
+      });
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'app_users_email_key') {
+        throw new StorageError('User with this email already exists.', 'conflict');
+      }
+      throw error;
+    }
+  }
+
+  async function updateUserRow(client: Pool | PoolClient, userId: string, patch: UserPatch): Promise<any | null> {
+    const columnMap: Record<keyof UserPatch, string> = {
+      displayName: 'display_name', notifyByEmail: 'notify_by_email', baseCurrency: 'base_currency', envelopeStartMonth: 'envelope_start_month', lastLoginAt: 'last_login_at', hashedPassword: 'hashed_password',
+    };
+    const fields: string[] = [];
+    const values: any[] = [];
+    let queryIndex = 1;
+    (Object.keys(columnMap) as Array<keyof UserPatch>).forEach(key => {
+      if (patch[key] === undefined) return;
+      fields.push(`${columnMap[key]} = $${queryIndex++}`);
+      values.push(key === 'lastLoginAt' ? new Date(patch[key] as number) : patch[key]);
+    });
+    fields.push('updated_at = NOW()');
+    values.push(userId);
+    const res = await client.query(`UPDATE app_users SET ${fields.join(', ')} WHERE id = $${queryIndex} RETURNING ${USER_COLUMNS}`, values);
+    return res.rows[0] || null;
+  }
+
+  return {
+    mode: 'postgres',
+
+    async createUser(user, categories) {
+      return insertUser(user, { categories });
+    },
+
+    async createUserWithData(user, data) {
+      return insertUser(user, data);
+    },
+
+    async findUserById(userId) {
+      const res = await pool.query(`SELECT ${USER_COLUMNS} FROM app_users WHERE id = $1`, [userId]);
+      return res.rows.length ? toStoredUser(res.rows[0]) : null;
+    },
+
+    async findUserByEmail(email) {
+      const res = await pool.query(`SELECT ${USER_COLUMNS} FROM app_users WHERE email = $1`, [email]);
+      return res.rows.length ? toStoredUser(res.rows[0]) : null;
+    },
+
+    async listUsers() {
+      const res = await pool.query(`SELECT ${USER_COLUMNS} FROM app_users ORDER BY created_at, id`);
+      return res.rows.map(toStoredUser);
+    },
+
+    async updateUser(userId, patch) {
+      const row = await updateUserRow(pool, userId, patch);
+      return row ? toStoredUser(row) : null;
+    },
+
+    async list(entity, userId) {
+      const res = await pool.query(`SELECT * FROM ${entityDefinitions[entity].table} WHERE user_id = $1`, [userId]);
+      return sortRecords(entity, res.rows.map(row => fromRow(entity, row)));
+    },
+
+    async get(entity, userId, id) {
+      const res = await pool.query(`SELECT * FROM ${entityDefinitions[entity].table} WHERE id = $1 AND user_id = $2`, [id, userId]);
+      return res.rows.length ? fromRow(entity, res.rows[0]) : null;
+    },
+
+    async insert(entity, record) {
+      try {
+        return fromRow(entity, await insertRecord(pool, entity, record));
+      } catch (error) {
+        translateError(error);
+      }
+    },
+
+    async update(entity, userId, id, patch, expectedUpdatedAt) {
+      try {
+        const row = await updateRow(pool, entity, userId, id, patch, expectedUpdatedAt);
+        return row ? fromRow(entity, row) : null;
+      } catch (error) {
+        translateError(error);
+      }
+    },
+
+    async remove(entity, userId, id) {
+      return inTransaction(async client => {
+        for (const child of entityDefinitions[entity].cascade || []) {
+          const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+          await client.query(
+            `DELETE FROM ${entityDefinitions[child.entity].table} WHERE ${childDefinitions[child.foreignKey].column} = $1 AND user_id = $2`,
+            [id, userId]
+          );
+        }
+        const res = await client.query(`DELETE FROM ${entityDefinitions[entity].table} WHERE id = $1 AND user_id = $2`, [id, userId]);
+        return (res.rowCount ?? 0) > 0;
+      });
+    },
+
+    async trash(entity, userId, id, deletedAt) {
+      return inTransaction(async client => (await trashRow(client, entity, userId, id, deletedAt)) !== null);
+    },
+
+    async restore(entity, userId, id) {
+      return inTransaction(async client => (await restoreRow(client, entity, userId, id)) !== null);
+    },
+
+    async applyBatch(entity, userId, operations) {
+      return applyChanges(userId, operations.map(operation => ({ ...operation, entity })));
+    },
+
+    applyChanges,
+
+    async queryTransactions(userId, query) {
+      const page = transactionQuerySql(userId, query, transactionSqlDialect);
+      const count = transactionQuerySql(userId, query, transactionSqlDialect, false);
+      const [rows, counted] = await Promise.all([
+        pool.query(`SELECT * FROM transactions WHERE ${page.where} ORDER BY ${page.orderBy} LIMIT ${pageSizeOf(query) + 1}`, page.params),
+        pool.query(`SELECT COUNT(*) AS total FROM transactions WHERE ${count.where}`, count.params),
+      ]);
+      return toTransactionPage(rows.rows.map(row => fromRow('transactions', row)), query, Number(counted.rows[0].total));
+    },
+
+    async replaceUserData(userId, profile, data) {
+      return inTransaction(async client => {
+        const userRow = await updateUserRow(client, userId, profile);
+        if (!userRow) return false;
+        // Children before parents on delete, parents before children on insert.
+        for (const entity of [...entityNames].reverse()) {
+          await client.query(`DELETE FROM ${entityDefinitions[entity].table} WHERE user_id = $1`, [userId]);
+        }
+        for (const entity of entityNames) {
+          for (const record of data[entity]) {
+            await insertRecord(client, entity, record);
+          }
+        }
+        return true;
+      });
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
@@ -0,0 +1,326 @@
+// src/lib/storage/sqliteAdapter.ts
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { roundMoney } from '@/lib/money';
+import { DEFAULT_CURRENCY } from '@/lib/currency';
+import { loadMigrations, migrateSqlite, MIGRATIONS_ROOT } from './migrations';
+import { entityDefinitions, entityNames, normalizeRecord, sortRecords, type FieldDefinition } from './entities';
+import { pageSizeOf, toTransactionPage, transactionQuerySql, type TransactionSqlDialect } from './transactionQuery';
+import { StorageError, type StorageAdapter, type StoredUser, type UserPatch, type UserCollections, type EntityName, type EntityRecord, type EntityBatchOperation, type EntityBatchResult } from './types';
+
+export interface SqliteAdapterOptions {
+  filePath: string;
+  /** Directory holding `sqlite/NNNN_name.sql`; pending migrations are applied on open. */
+  migrationsRoot?: string;
+}
+
+const USER_COLUMNS = 'id, email, hashed_password, display_name, created_at, last_login_at, notify_by_email, base_currency, envelope_start_month';
+
+function toStoredUser(row: any): StoredUser {
+  return {
+    profile: {
+      id: row.id,
+      email: row.email,
+      displayName: row.display_name,
+      createdAt: row.created_at,
+      lastLoginAt: row.last_login_at ?? undefined,
+      notifyByEmail: !!row.notify_by_email,
+      baseCurrency: row.base_currency,
+      envelopeStartMonth: row.envelope_start_month ?? undefined,
+    },
+    hashedPassword: row.hashed_password,
+  };
+}
+
+// Dates are already 'yyyy-MM-dd' TEXT and timestamps INTEGER epoch ms, so only
+// booleans (stored as 0/1), money (NUMERIC, read back as REAL) and JSON (TEXT) need converting.
+function fromColumnValue(value: any, { kind }: FieldDefinition): any {
+  if (value === null || value === undefined) return value;
+  if (kind === 'money') return roundMoney(value);
+  if (kind === 'json') return JSON.parse(value);
+  return kind === 'boolean' ? !!value : value;
+}
+
+function toColumnValue(value: any, { kind }: FieldDefinition): any {
+  if (value === null || value === undefined) return null;
+  if (kind === 'money') return roundMoney(value);
+  if (kind === 'json') return JSON.stringify(value);
+  return kind === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+function fieldEntries(entity: EntityName): Array<[string, FieldDefinition]> {
+  return Object.entries(entityDefinitions[entity].fields);
+}
+
+function fromRow<K extends EntityName>(entity: K, row: any): EntityRecord<K> {
+  const record: Record<string, any> = {};
+  for (const [key, definition] of fieldEntries(entity)) {
+    record[key] = fromColumnValue(row[definition.column], definition);
+  }
+  return normalizeRecord(entity, record as EntityRecord<K>);
+}
+
+function insertRecord(db: Database.Database, entity: EntityName, record: Record<string, any>): any {
+  const columns: string[] = [];
+  const values: any[] = [];
+  for (const [key, definition] of fieldEntries(entity)) {
+    if (record[key] === undefined) continue;
+    columns.push(definition.column);
+    values.push(toColumnValue(record[key], definition));
+  }
+  const placeholders = values.map(() => '?').join(', ');
+  return db
+    .prepare(`INSERT INTO ${entityDefinitions[entity].table} (${columns.join(', ')}) VALUES (${placeholders}) RETURNING *`)
+    .get(...values);
+}
+
+/** Updated row, or undefined if the record does not exist (or no longer has version `expectedUpdatedAt`). */
+function updateRow(db: Database.Database, entity: EntityName, userId: string, id: string, patch: Record<string, any>, expectedUpdatedAt?: number): any {
+  const fields: string[] = [];
+  const values: any[] = [];
+  const definitions = entityDefinitions[entity].fields as Record<string, FieldDefinition>;
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined || !definitions[key] || ['id', 'userId', 'createdAt'].includes(key)) continue;
+    fields.push(`${definitions[key].column} = ?`);
+    values.push(toColumnValue(value, definitions[key]));
+  }
+  values.push(id, userId);
+  let versionCondition = '';
+  if (expectedUpdatedAt !== undefined) {
+    versionCondition = ' AND COALESCE(updated_at, created_at) = ?';
+    values.push(expectedUpdatedAt);
+  }
+  return db.prepare(
+    `UPDATE ${entityDefinitions[entity].table} SET ${fields.join(', ')} WHERE id = ? AND user_id = ?${versionCondition} RETURNING *`
+  ).get(...values);
+}
+
+/** Trashes the record and its active cascade children; returns the trashed row, or null. Run inside a transaction. */
+function trashRow(db: Database.Database, entity: EntityName, userId: string, id: string, deletedAt: number): any {
+  const row = db.prepare(`UPDATE ${entityDefinitions[entity].table} SET deleted_at = ? WHERE id = ? AND user_id = ? AND deleted_at IS NULL RETURNING *`)
+    .get(deletedAt, id, userId);
+  if (!row) return null;
+  for (const child of entityDefinitions[entity].cascade || []) {
+    const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+    db.prepare(
+      `UPDATE ${entityDefinitions[child.entity].table} SET deleted_at = ? WHERE ${childDefinitions[child.foreignKey].column} = ? AND user_id = ? AND deleted_at IS NULL`
+    ).run(deletedAt, id, userId);
+  }
+  return row;
+}
+
+/** Restores the record with the children trashed along with it; returns the restored row, or null. Run inside a transaction. */
+function restoreRow(db: Database.Database, entity: EntityName, userId: string, id: string): any {
+  const row = db.prepare(`SELECT deleted_at FROM ${entityDefinitions[entity].table} WHERE id = ? AND user_id = ?`).get(id, userId) as any;
+  if (!row || row.deleted_at === null) return null;
+  for (const child of entityDefinitions[entity].cascade || []) {
+    const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+    db.prepare(
+      `UPDATE ${entityDefinitions[child.entity].table} SET deleted_at = NULL WHERE ${childDefinitions[child.foreignKey].column} = ? AND user_id = ? AND deleted_at = ?`
+    ).run(id, userId, row.deleted_at);
+  }
+  return db.prepare(`UPDATE ${entityDefinitions[entity].table} SET deleted_at = NULL WHERE id = ? AND user_id = ? RETURNING *`).get(id, userId);
+}
+
+// SQLite's LIKE already ignores case (for ASCII letters).
+const transactionSqlDialect: TransactionSqlDialect = {
+  placeholder: () => '?',
+  toParam: toColumnValue,
+  ilike: 'LIKE',
+  jsonArrayContains: (column, placeholder) => `EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value = ${placeholder})`,
+};
+
+function translateError(error: any): never {
+  if (error instanceof StorageError) throw error;
+  if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' || error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+    throw new StorageError('Record already exists.', 'conflict');
+  }
+  if (error.code === 'SQLITE_CONSTRAINT_FOREIGNKEY') throw new StorageError('User not found.', 'not_found');
+  throw error;
+}
+
+export function createSqliteAdapter({ filePath, migrationsRoot = MIGRATIONS_ROOT }: SqliteAdapterOptions): StorageAdapter {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrateSqlite(db, { migrations: loadMigrations('sqlite', migrationsRoot) });
+
+  async function applyChanges<K extends EntityName>(userId: string, operations: Array<EntityBatchOperation<K> & { entity: K }>): Promise<EntityBatchResult<K>> {
+    if (!db.prepare('SELECT 1 FROM app_users WHERE id = ?').get(userId)) throw new StorageError('User not found.', 'not_found');
+    const failed = new Error('batch operation failed');
+    let failedIndex = -1;
+    try {
+      const rows = db.transaction(() => operations.map((operation, index) => {
+        const { entity } = operation;
+        const row = operation.type === 'insert' ? insertRecord(db, entity, operation.record)
+          : operation.type === 'update' ? updateRow(db, entity, userId, operation.id, operation.patch, operation.expectedUpdatedAt)
+          : operation.type === 'trash' ? trashRow(db, entity, userId, operation.id, operation.deletedAt)
+          : restoreRow(db, entity, userId, operation.id);
+        if (!row) {
+          failedIndex = index;
+          throw failed; // rolls the transaction back
+        }
+        return row;
+      }))();
+      return { applied: true, records: rows.map((row, index) => fromRow(operations[index].entity, row)) };
+    } catch (error) {
+      if (error === failed) return { applied: false, failedIndex };
+      translateError(error);
+    }
+  }
+
+  async function insertUser(user: StoredUser, data: Partial<UserCollections>): Promise<StoredUser> {
+    try {
+      return db.transaction(() => {
+        const { profile } = user;
+        const row = db.prepare(
+          `INSERT INTO app_users (id, email, hashed_password, display_name, created_at, updated_at, last_login_at, notify_by_email, base_currency, envelope_start_month) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING ${USER_COLUMNS}`
+        ).get(profile.id, profile.email, user.hashedPassword, profile.displayName || null, profile.createdAt ?? Date.now(), Date.now(), profile.lastLoginAt ?? null, profile.notifyByEmail ? 1 : 0, profile.baseCurrency || DEFAULT_CURRENCY, profile.envelopeStartMonth ?? null);
+        // Parents before children.
+        for (const entity of entityNames) {
+          for (const record of data[entity] ?? []) {
+            insertRecord(db, entity, record);
+          }
+        }
+        return toStoredUser(row);
+      })();
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE' && String(error.message).includes('app_users.email')) {
+        throw new StorageError('User with this email already exists.', 'conflict');
+      }
+      translateError(error);
+    }
+  }
+
+  function updateUserRow(userId: string, patch: UserPatch): any | null {
+    const columnMap: Record<keyof UserPatch, string> = {
+      displayName: 'display_name', notifyByEmail: 'notify_by_email', baseCurrency: 'base_currency', envelopeStartMonth: 'envelope_start_month', lastLoginAt: 'last_login_at', hashedPassword: 'hashed_password',
+    };
+    const fields: string[] = [];
+    const values: any[] = [];
+    (Object.keys(columnMap) as Array<keyof UserPatch>).forEach(key => {
+      if (patch[key] === undefined) return;
+      fields.push(`${columnMap[key]} = ?`);
+      values.push(key === 'notifyByEmail' ? (patch[key] ? 1 : 0) : patch[key]);
+    });
+    fields.push('updated_at = ?');
+    values.push(Date.now(), userId);
+    return db.prepare(`UPDATE app_users SET ${fields.join(', ')} WHERE id = ? RETURNING ${USER_COLUMNS}`).get(...values) ?? null;
+  }
+
+  return {
+    mode: 'sqlite',
+
+    async createUser(user, categories) {
+      return insertUser(user, { categories });
+    },
+
+    async createUserWithData(user, data) {
+      return insertUser(user, data);
+    },
+
+    async findUserById(userId) {
+      const row = db.prepare(`SELECT ${USER_COLUMNS} FROM app_users WHERE id = ?`).get(userId);
+      return row ? toStoredUser(row) : null;
+    },
+
+    async findUserByEmail(email) {
+      const row = db.prepare(`SELECT ${USER_COLUMNS} FROM app_users WHERE email = ?`).get(email);
+      return row ? toStoredUser(row) : null;
+    },
+
+    async listUsers() {
+      return db.prepare(`SELECT ${USER_COLUMNS} FROM app_users ORDER BY created_at, id`).all().map(toStoredUser);
+    },
+
+    async updateUser(userId, patch) {
+      const row = updateUserRow(userId, patch);
+      return row ? toStoredUser(row) : null;
+    },
+
+    async list(entity, userId) {
+      const rows = db.prepare(`SELECT * FROM ${entityDefinitions[entity].table} WHERE user_id = ?`).all(userId);
+      return sortRecords(entity, rows.map(row => fromRow(entity, row)));
+    },
+
+    async get(entity, userId, id) {
+      const row = db.prepare(`SELECT * FROM ${entityDefinitions[entity].table} WHERE id = ? AND user_id = ?`).get(id, userId);
+      return row ? fromRow(entity, row) : null;
+    },
+
+    async insert(entity, record) {
+      try {
+        return fromRow(entity, insertRecord(db, entity, record));
+      } catch (error) {
+        translateError(error);
+      }
+    },
+
+    async update(entity, userId, id, patch, expectedUpdatedAt) {
+      try {
+        const row = updateRow(db, entity, userId, id, patch, expectedUpdatedAt);
+        return row ? fromRow(entity, row) : null;
+      } catch (error) {
+        translateError(error);
+      }
+    },
+
+    async remove(entity, userId, id) {
+      return db.transaction(() => {
+        for (const child of entityDefinitions[entity].cascade || []) {
+          const childDefinitions = entityDefinitions[child.entity].fields as Record<string, FieldDefinition>;
+          db.prepare(
+            `DELETE FROM ${entityDefinitions[child.entity].table} WHERE ${childDefinitions[child.foreignKey].column} = ? AND user_id = ?`
+          ).run(id, userId);
+        }
+        const res = db.prepare(`DELETE FROM ${entityDefinitions[entity].table} WHERE id = ? AND user_id = ?`).run(id, userId);
+        return res.changes > 0;
+      })();
+    },
+
+    async trash(entity, userId, id, deletedAt) {
+      return db.transaction(() => trashRow(db, entity, userId, id, deletedAt) !== null)();
+    },
+
+    async restore(entity, userId, id) {
+      return db.transaction(() => restoreRow(db, entity, userId, id) !== null)();
+    },
+
+    async applyBatch(entity, userId, operations) {
+      return applyChanges(userId, operations.map(operation => ({ ...operation, entity })));
+    },
+
+    applyChanges,
+
+    async queryTransactions(userId, query) {
+      const page = transactionQuerySql(userId, query, transactionSqlDialect);
+      const rows = db.prepare(`SELECT * FROM transactions WHERE ${page.where} ORDER BY ${page.orderBy} LIMIT ?`)
+        .all(...page.params, pageSizeOf(query) + 1);
+      const count = transactionQuerySql(userId, query, transactionSqlDialect, false);
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM transactions WHERE ${count.where}`).get(...count.params) as { total: number };
+      return toTransactionPage(rows.map(row => fromRow('transactions', row)), query, total);
+    },
+
+    async replaceUserData(userId, profile, data) {
+      return db.transaction(() => {
+        if (!updateUserRow(userId, profile)) return false;
+        // Children before parents on delete, parents before children on insert.
+        for (const entity of [...entityNames].reverse()) {
+          db.prepare(`DELETE FROM ${entityDefinitions[entity].table} WHERE user_id = ?`).run(userId);
+        }
+        for (const entity of entityNames) {
+          for (const record of data[entity]) {
+            insertRecord(db, entity, record);
+          }
+        }
+        return true;
+      })();
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,167 @@
+// src/lib/storage/transactionQuery.ts
+import type { Transaction, TransactionPage, TransactionQuery, TransactionSortField } from '@/types';
+import { entityDefinitions, type FieldDefinition } from './entities';
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 50;
+export const MAX_TRANSACTION_PAGE_SIZE = 200;
+
+type SortKey = TransactionSortField | 'id';
+
+/**
+ * Keyset order for a sort field: the field itself, then createdAt and id as
+ * tie-breakers, all in the same direction. The cursor holds these values for the
+ * last transaction of a page.
+ */
+function sortKeysFor(sortBy: TransactionSortField = 'date'): SortKey[] {
+  return sortBy === 'createdAt' ? ['createdAt', 'id'] : [sortBy, 'createdAt', 'id'];
+}
+
+export function pageSizeOf(query: TransactionQuery): number {
+  return Math.min(Math.max(Math.trunc(query.limit || DEFAULT_TRANSACTION_PAGE_SIZE), 1), MAX_TRANSACTION_PAGE_SIZE);
+}
+
+export function encodeCursor(tx: Transaction, sortBy?: TransactionSortField): string {
+  return Buffer.from(JSON.stringify(sortKeysFor(sortBy).map(key => tx[key]))).toString('base64url');
+}
+
+/** Cursor values, or null if the cursor is malformed or was made for another sort field. */
+export function decodeCursor(cursor: string, sortBy?: TransactionSortField): Array<string | number> | null {
+  const keys = sortKeysFor(sortBy);
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Array.isArray(values) || values.length !== keys.length) return null;
+    const valid = keys.every((key, index) => {
+      const value = values[index];
+      if (key === 'date') return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (key === 'id') return typeof value === 'string' && value.length > 0;
+      return typeof value === 'number' && Number.isFinite(value);
+    });
+    return valid ? values : null;
+  } catch {
+    return null;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Orders transactions the way the SQL adapters do for the same query. */
+export function compareForQuery(query: TransactionQuery): (a: Transaction, b: Transaction) => number {
+  const keys = sortKeysFor(query.sortBy);
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  return (a, b) => {
+    for (const key of keys) {
+      const comparison = compareValues(a[key] as string | number, b[key] as string | number);
+      if (comparison !== 0) return comparison * direction;
+    }
+    return 0;
+  };
+}
+
+/** In-memory equivalent of the SQL filters, for the local JSON adapter. Ignores the cursor. */
+export function matchesTransactionQuery(tx: Transaction, query: TransactionQuery): boolean {
+  if (tx.deletedAt) return false;
+  if (query.from && tx.date < query.from) return false;
+  if (query.to && tx.date > query.to) return false;
+  if (query.type && tx.type !== query.type) return false;
+  if (query.category && tx.category !== query.category) return false;
+  if (query.accountId && (tx.accountId || 'none') !== query.accountId) return false;
+  if (query.tagId && !tx.tagIds?.includes(query.tagId)) return false;
+  const recurrence = tx.recurrenceFrequency || 'none';
+  if (query.recurrence === 'recurring' ? recurrence === 'none' : query.recurrence && recurrence !== query.recurrence) return false;
+  if (query.minAmount !== undefined && tx.amount < query.minAmount) return false;
+  if (query.maxAmount !== undefined && tx.amount > query.maxAmount) return false;
+  if (query.search) {
+    const search = query.search.toLocaleLowerCase();
+    if (!`${tx.description || ''}\n${tx.category}`.toLocaleLowerCase().includes(search)) return false;
+  }
+  return true;
+}
+
+/** True if `tx` comes after the cursor position in the query's order. */
+export function isAfterCursor(tx: Transaction, cursorValues: Array<string | number>, query: TransactionQuery): boolean {
+  const keys = sortKeysFor(query.sortBy);
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  for (let i = 0; i < keys.length; i++) {
+    const comparison = compareValues(tx[keys[i]] as string | number, cursorValues[i]);
+    if (comparison !== 0) return comparison * direction > 0;
+  }
+  return false;
+}
+
+/** Builds the page from up to pageSize + 1 matches; the extra one only tells that there is a next page. */
+export function toTransactionPage(matches: Transaction[], query: TransactionQuery, totalCount: number): TransactionPage {
+  const pageSize = pageSizeOf(query);
+  const transactions = matches.slice(0, pageSize);
+  const last = transactions[transactions.length - 1];
+  return {
+    transactions,
+    nextCursor: matches.length > pageSize && last ? encodeCursor(last, query.sortBy) : null,
+    totalCount,
+  };
+}
+
+export interface TransactionSqlDialect {
+  /** Placeholder for the n-th (1-based) parameter. */
+  placeholder: (index: number) => string;
+  /** Converts a filter or cursor value to the driver representation of the column. */
+  toParam: (value: any, field: FieldDefinition) => any;
+  /** Case-insensitive LIKE operator. */
+  ilike: string;
+  /** Condition that the JSON array in `column` contains the string parameter `placeholder`. */
+  jsonArrayContains: (column: string, placeholder: string) => string;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * WHERE and ORDER BY clauses for a transaction query, shared by the SQL adapters.
+ * With `withCursor` false the cursor is ignored (used for the total count).
+ */
+export function transactionQuerySql(userId: string, query: TransactionQuery, dialect: TransactionSqlDialect, withCursor = true): { where: string; orderBy: string; params: any[] } {
+  const fields = entityDefinitions.transactions.fields as Record<string, FieldDefinition>;
+  const column = (key: string) => fields[key].column;
+  const params: any[] = [];
+  const param = (value: any, key: string) => {
+    params.push(dialect.toParam(value, fields[key]));
+    return dialect.placeholder(params.length);
+  };
+
+  const conditions = [`${column('userId')} = ${param(userId, 'userId')}`, `${column('deletedAt')} IS NULL`];
+  if (query.from) conditions.push(`${column('date')} >= ${param(query.from, 'date')}`);
+  if (query.to) conditions.push(`${column('date')} <= ${param(query.to, 'date')}`);
+  if (query.type) conditions.push(`${column('type')} = ${param(query.type, 'type')}`);
+  if (query.category) conditions.push(`${column('category')} = ${param(query.category, 'category')}`);
+  if (query.accountId) {
+    conditions.push(query.accountId === 'none' ? `${column('accountId')} IS NULL` : `${column('accountId')} = ${param(query.accountId, 'accountId')}`);
+  }
+  // Bound as a plain id; the tagIds field itself is JSON.
+  if (query.tagId) conditions.push(dialect.jsonArrayContains(column('tagIds'), param(query.tagId, 'id')));
+  if (query.recurrence) {
+    const recurrence = `COALESCE(${column('recurrenceFrequency')}, 'none')`;
+    conditions.push(query.recurrence === 'recurring' ? `${recurrence} <> 'none'` : `${recurrence} = ${param(query.recurrence, 'recurrenceFrequency')}`);
+  }
+  if (query.minAmount !== undefined) conditions.push(`${column('amount')} >= ${param(query.minAmount, 'amount')}`);
+  if (query.maxAmount !== undefined) conditions.push(`${column('amount')} <= ${param(query.maxAmount, 'amount')}`);
+  if (query.search) {
+    const pattern = `%${escapeLike(query.search)}%`;
+    conditions.push(`(${column('description')} ${dialect.ilike} ${param(pattern, 'description')} ESCAPE '\\' OR ${column('category')} ${dialect.ilike} ${param(pattern, 'category')} ESCAPE '\\')`);
+  }
+
+  const keys = sortKeysFor(query.sortBy);
+  const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  const cursorValues = withCursor && query.cursor ? decodeCursor(query.cursor, query.sortBy) : null;
+  if (cursorValues) {
+    const placeholders = keys.map((key, index) => param(cursorValues[index], key));
+    conditions.push(`(${keys.map(column).join(', ')}) ${direction === 'ASC' ? '>' : '<'} (${placeholders.join(', ')})`);
+  }
+
+  return {
+    where: conditions.join(' AND '),
+    orderBy: keys.map(key => `${column(key)} ${direction}`).join(', '),
+    params,
+  };
+}
@@ -0,0 +1,122 @@
+// src/lib/storage/transfer.ts
+import { randomUUID } from 'crypto';
+import { attachmentKey, thumbnailKey, type AttachmentStore } from '@/lib/attachmentStore';
+import { buildCollections, entityNames } from './entities';
+import type { EntityName, EntityRecord, StorageAdapter, StoredUser, UserCollections } from './types';
+
+export type EntityCounts = Record<EntityName | 'users', number>;
+
+export interface TransferReport {
+  dryRun: boolean;
+  /** Records read from the source. */
+  source: EntityCounts;
+  /** Records found in the target for the transferred users afterwards (equal to `source` on a dry run). */
+  target: EntityCounts;
+  /** Keys whose counts differ between source and target; empty when the transfer verified. */
+  mismatches: Array<keyof EntityCounts>;
+  /**
+   * Users whose id is not a UUID (the one created from the old single-user db.json),
+   * which PostgreSQL rejects, with the new id they get in the target.
+   */
+  reassignedUsers: Array<{ email: string; from: string; to: string }>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const emptyCounts = (): EntityCounts =>
+  Object.fromEntries(['users', ...entityNames].map(key => [key, 0])) as EntityCounts;
+
+const readCollections = (adapter: StorageAdapter, userId: string): Promise<UserCollections> =>
+  buildCollections(entity => adapter.list(entity, userId));
+
+/** The user and its records with every user id found in `newIds` replaced. */
+function withNewUserIds(user: StoredUser, data: UserCollections, newIds: Map<string, string>): { user: StoredUser; data: UserCollections } {
+  const idOf = (userId: string) => newIds.get(userId) ?? userId;
+  const remap = <K extends EntityName>(entity: K): EntityRecord<K>[] => data[entity].map(record => ({ ...record, userId: idOf(record.userId) }));
+  const remapped = Object.fromEntries(entityNames.map(entity => [entity, remap(entity)])) as UserCollections;
+  remapped.auditEvents = remapped.auditEvents.map(event => (event.actorId ? { ...event, actorId: idOf(event.actorId) } : event));
+  return { user: { ...user, profile: { ...user.profile, id: idOf(user.profile.id) } }, data: remapped };
+}
+
+async function countUser(adapter: StorageAdapter, userId: string, counts: EntityCounts): Promise<void> {
+  counts.users += 1;
+  for (const entity of entityNames) {
+    counts[entity] += (await adapter.list(entity, userId)).length;
+  }
+}
+
+/**
+ * Copies every user of `source` (profile, password hash, categories and all
+ * entities, keeping ids and timestamps) into `target`, then recounts both sides.
+ * Users whose id is not a UUID get a new one (see `reassignedUsers`); with
+ * `attachments`, their attachment files are copied to the keys of the new id.
+ *
+ * Refuses to start when any source user already exists in the target, so a
+ * transfer never merges into or overwrites existing accounts. Each user is written
+ * together with its records in one transaction; on failure the users copied
+ * before the failing one stay in the target, and the failing one is not written.
+ */
+export async function transferInstance(source: StorageAdapter, target: StorageAdapter, options: { dryRun?: boolean; attachments?: AttachmentStore } = {}): Promise<TransferReport> {
+  const dryRun = !!options.dryRun;
+  const users = await source.listUsers();
+
+  const reassignedUsers = users.filter(u => !UUID_PATTERN.test(u.profile.id)).map(u => ({ email: u.profile.email, from: u.profile.id, to: randomUUID() }));
+  const newIds = new Map(reassignedUsers.map(({ from, to }) => [from, to]));
+  const targetIdOf = (userId: string) => newIds.get(userId) ?? userId;
+
+  const existing = await target.listUsers();
+  const existingIds = new Set(existing.map(u => u.profile.id));
+  const existingEmails = new Set(existing.map(u => u.profile.email.toLowerCase()));
+  const conflicts = users.filter(u => existingIds.has(targetIdOf(u.profile.id)) || existingEmails.has(u.profile.email.toLowerCase()));
+  if (conflicts.length) {
+    throw new Error(`The target (${target.mode}) already contains ${conflicts.length} of these users: ${conflicts.map(u => u.profile.email).join(', ')}. Transfer into an empty instance.`);
+  }
+
+  const sourceCounts = emptyCounts();
+  for (const user of users) {
+    const data = await readCollections(source, user.profile.id);
+    sourceCounts.users += 1;
+    entityNames.forEach(entity => { sourceCounts[entity] += data[entity].length; });
+    if (dryRun) continue;
+    const copy = withNewUserIds(user, data, newIds);
+    await copyUser(target, copy.user, copy.data);
+    if (options.attachments && newIds.has(user.profile.id)) {
+      await copyAttachmentFiles(options.attachments, data, user.profile.id, copy.user.profile.id);
+    }
+  }
+
+  if (dryRun) {
+    return { dryRun, source: sourceCounts, target: { ...sourceCounts }, mismatches: [], reassignedUsers };
+  }
+
+  const targetCounts = emptyCounts();
+  for (const user of users) {
+    const userId = targetIdOf(user.profile.id);
+    if (await target.findUserById(userId)) {
+      await countUser(target, userId, targetCounts);
+    }
+  }
+  const mismatches = (Object.keys(sourceCounts) as Array<keyof EntityCounts>).filter(key => sourceCounts[key] !== targetCounts[key]);
+  return { dryRun, source: sourceCounts, target: targetCounts, mismatches, reassignedUsers };
+}
+
+async function copyUser(target: StorageAdapter, user: StoredUser, data: UserCollections): Promise<void> {
+  if (!user.hashedPassword) {
+    throw new Error(`User ${user.profile.email} has no password hash and cannot be transferred.`);
+  }
+  try {
+    await target.createUserWithData(user, data);
+  } catch (error: any) {
+    throw new Error(`Failed to copy user ${user.profile.email}: ${error.message}`);
+  }
+}
+
+/** Copies a reassigned user's attachment files (and thumbnails) to the keys of its new id; the originals stay. */
+async function copyAttachmentFiles(store: AttachmentStore, data: UserCollections, from: string, to: string): Promise<void> {
+  for (const attachment of data.attachments) {
+    const file = await store.get(attachmentKey(from, attachment.id));
+    if (file) await store.put(attachmentKey(to, attachment.id), file, attachment.contentType);
+    const thumbnail = attachment.hasThumbnail ? await store.get(thumbnailKey(from, attachment.id)) : null;
+    if (thumbnail) await store.put(thumbnailKey(to, attachment.id), thumbnail, 'image/jpeg');
+  }
+}
@@ -0,0 +1,136 @@
+// src/lib/storage/types.ts
+import type { UserProfile, Account, Transaction, Loan, CreditCard, CreditCardPurchase, UserCategory, Budget, EnvelopeAssignment, Tag, Payee, FinancialGoal, Investment, Attachment, RecurrenceOccurrence, Reconciliation, ExchangeRate, AuditEvent, TransactionQuery, TransactionPage } from '@/types';
+
+/**
+ * Every per-user entity the storage layer knows how to persist, keyed by the
+ * collection name used in db.json (and in backups).
+ */
+export interface EntityRecordMap {
+  accounts: Account;
+  reconciliations: Reconciliation;
+  transactions: Transaction;
+  recurrenceOccurrences: RecurrenceOccurrence;
+  loans: Loan;
+  creditCards: CreditCard;
+  creditCardPurchases: CreditCardPurchase;
+  categories: UserCategory;
+  budgets: Budget;
+  envelopeAssignments: EnvelopeAssignment;
+  tags: Tag;
+  payees: Payee;
+  financialGoals: FinancialGoal;
+  investments: Investment;
+  attachments: Attachment;
+  exchangeRates: ExchangeRate;
+  auditEvents: AuditEvent;
+}
+
+export type EntityName = keyof EntityRecordMap;
+export type EntityRecord<K extends EntityName> = EntityRecordMap[K];
+/** Entities users edit and trash; the history log is append-only. */
+export type UserEntityName = Exclude<EntityName, 'auditEvents'>;
+
+/** Field changes for an update. `updatedAt` is always set by the caller. */
+export type EntityPatch<K extends EntityName> = Partial<Omit<EntityRecord<K>, 'id' | 'userId' | 'createdAt'>> & { updatedAt: number };
+
+export type UserCollections = { [K in EntityName]: EntityRecord<K>[] };
+
+/** One change of an applyBatch call; `update`, `trash` and `restore` behave like the single-record methods. */
+export type EntityBatchOperation<K extends EntityName> =
+  | { type: 'insert'; record: EntityRecord<K> }
+  | { type: 'update'; id: string; patch: EntityPatch<K>; expectedUpdatedAt?: number }
+  | { type: 'trash'; id: string; deletedAt: number }
+  | { type: 'restore'; id: string };
+
+/** A batch operation on any entity, for changes that span several (a transfer and its destination). */
+export type TaggedBatchOperation = { [K in EntityName]: EntityBatchOperation<K> & { entity: K } }[EntityName];
+
+/** The resulting record of each operation, in order, or the first operation whose record was missing or changed. */
+export type EntityBatchResult<K extends EntityName> =
+  | { applied: true; records: EntityRecord<K>[] }
+  | { applied: false; failedIndex: number };
+
+export interface StoredUser {
+  profile: UserProfile;
+  hashedPassword?: string;
+}
+
+export interface UserPatch {
+  displayName?: string | null;
+  notifyByEmail?: boolean;
+  baseCurrency?: string;
+  envelopeStartMonth?: string | null;
+  lastLoginAt?: number;
+  hashedPassword?: string;
+}
+
+export type StorageErrorCode = 'not_found' | 'conflict' | 'unavailable';
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly code: StorageErrorCode) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Persistence contract shared by every DATABASE_MODE backend. Adapters only
+ * store and load data; validation and derived fields (loan end dates, default
+ * categories, ...) stay in databaseService so they behave the same everywhere.
+ *
+ * Every adapter must pass the suite in __tests__/lib/storage.
+ */
+export interface StorageAdapter {
+  readonly mode: string;
+
+  /** Creates a user together with its initial categories. Throws a `conflict` StorageError if the email is taken. */
+  createUser(user: StoredUser, categories: UserCategory[]): Promise<StoredUser>;
+  /** Creates a user together with all of its records in one transaction (instance transfers). Same errors as createUser. */
+  createUserWithData(user: StoredUser, data: UserCollections): Promise<StoredUser>;
+  findUserById(userId: string): Promise<StoredUser | null>;
+  findUserByEmail(email: string): Promise<StoredUser | null>;
+  /** Every user of the instance, oldest first (whole-instance transfers). */
+  listUsers(): Promise<StoredUser[]>;
+  /** Returns the updated user, or null if it does not exist. */
+  updateUser(userId: string, patch: UserPatch): Promise<StoredUser | null>;
+
+  /** Lists a user's records, trashed ones included, sorted by the entity's default order. */
+  list<K extends EntityName>(entity: K, userId: string): Promise<EntityRecord<K>[]>;
+  get<K extends EntityName>(entity: K, userId: string, id: string): Promise<EntityRecord<K> | null>;
+  /** Throws a `not_found` StorageError if the owning user does not exist. */
+  insert<K extends EntityName>(entity: K, record: EntityRecord<K>): Promise<EntityRecord<K>>;
+  /**
+   * Returns the updated record, or null if it does not exist for this user. With
+   * `expectedUpdatedAt`, the update only applies while the record's version
+   * (`updatedAt`, else `createdAt`) still equals it, and null is returned otherwise.
+   */
+  update<K extends EntityName>(entity: K, userId: string, id: string, patch: EntityPatch<K>, expectedUpdatedAt?: number): Promise<EntityRecord<K> | null>;
+  /** Deletes the record and its dependent children permanently. Returns false if it did not exist. */
+  remove(entity: EntityName, userId: string, id: string): Promise<boolean>;
+  /**
+   * Moves the record to the trash by setting `deletedAt`, together with those of its
+   * children that are not in the trash yet. Returns false if it does not exist or is already in the trash.
+   */
+  trash(entity: EntityName, userId: string, id: string, deletedAt: number): Promise<boolean>;
+  /** Takes the record out of the trash with the children trashed along with it (same `deletedAt`). Returns false if it is not in the trash. */
+  restore(entity: EntityName, userId: string, id: string): Promise<boolean>;
+  /**
+   * Applies all operations to one entity of a user atomically (one transaction, or one
+   * write in JSON mode). If an update or trash finds no matching record, nothing is
+   * applied. Throws a `not_found` StorageError if the user does not exist.
+   */
+  applyBatch<K extends EntityName>(entity: K, userId: string, operations: EntityBatchOperation<K>[]): Promise<EntityBatchResult<K>>;
+  /** Same as applyBatch, with operations on several entities applied together. */
+  applyChanges(userId: string, operations: TaggedBatchOperation[]): Promise<EntityBatchResult<EntityName>>;
+
+  /**
+   * One page of a user's active transactions matching the filters, in the requested
+   * order (see transactionQuery.ts). Expects a cursor already validated with decodeCursor.
+   */
+  queryTransactions(userId: string, query: TransactionQuery): Promise<TransactionPage>;
+
+  /** Atomically replaces every collection of a user (backup restore). Returns false if the user does not exist. */
+  replaceUserData(userId: string, profile: UserPatch, data: UserCollections): Promise<boolean>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,55 @@
+// src/lib/tags.ts
+import type { CreditCardPurchase, CurrencyCode, Money, Tag, Transaction } from '@/types';
+import { addMoney } from '@/lib/money';
+
+export interface TagSpending {
+  tag: Tag;
+  cash: Money; // Expense transactions
+  card: Money; // Credit card purchases, counted in full on their purchase date
+  total: Money;
+  count: number; // Records tagged with it in the period
+}
+
+export interface TagSpendingPeriod {
+  from?: string; // 'yyyy-MM-dd', inclusive
+  to?: string; // 'yyyy-MM-dd', inclusive
+}
+
+const inPeriod = (date: string, period: TagSpendingPeriod) => (!period.from || date >= period.from) && (!period.to || date <= period.to);
+
+/**
+ * Spending per tag over cash expenses and card purchases, converted with `toBase`, largest first.
+ * A record with several tags counts in full under each, so the tags' totals can add up to more
+ * than was spent. Income and transfers are not spending; tags with nothing spent are left out.
+ */
+export function spendingByTag(
+  tags: Tag[],
+  transactions: Transaction[],
+  purchases: CreditCardPurchase[],
+  toBase: (amount: Money, currency: CurrencyCode | undefined, date: string) => Money,
+  period: TagSpendingPeriod = {}
+): TagSpending[] {
+  const byId = new Map(tags.map(tag => [tag.id, { tag, cash: 0, card: 0, total: 0, count: 0 }]));
+  const add = (tagIds: string[] | null | undefined, amount: Money, kind: 'cash' | 'card') => {
+    for (const tagId of tagIds || []) {
+      const entry = byId.get(tagId);
+      if (!entry) continue;
+      entry[kind] = addMoney(entry[kind], amount);
+      entry.total = addMoney(entry.total, amount);
+      entry.count += 1;
+    }
+  };
+
+  for (const tx of transactions) {
+    if (tx.type === 'expense' && inPeriod(tx.date, period)) add(tx.tagIds, toBase(tx.amount, tx.currency, tx.date), 'cash');
+  }
+  for (const purchase of purchases) {
+    if (inPeriod(purchase.date, period)) add(purchase.tagIds, toBase(purchase.totalAmount, purchase.currency, purchase.date), 'card');
+  }
+  return [...byId.values()].filter(entry => entry.count > 0).sort((a, b) => b.total - a.total || a.tag.name.localeCompare(b.tag.name));
+}
+
+/** The tags of a record that still exist, in the order of `tags`; ids of deleted tags are skipped. */
+export function tagsOf(record: { tagIds?: string[] | null }, tags: Tag[]): Tag[] {
+  return record.tagIds?.length ? tags.filter(tag => record.tagIds!.includes(tag.id)) : [];
+}
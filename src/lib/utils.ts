@@ -1,15 +1,20 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { CurrencyCode, Money } from "@/types"
+import { roundMoney } from "@/lib/money"
+import { DEFAULT_CURRENCY } from "@/lib/currency"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
 export function formatCurrency(
-  value: number
+  value: Money,
+  currency: CurrencyCode = DEFAULT_CURRENCY
 ): string {
+  // Round through cents first: Intl rounds the binary float, so 1.005 would show as R$ 1,00.
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
-    currency: 'BRL',
-  }).format(value);
+    currency,
+  }).format(roundMoney(value));
 }
@@ -7,24 +7,132 @@ export interface UserProfile {
   createdAt?: number;
   lastLoginAt?: number;
   notifyByEmail?: boolean; // Added for email notification preference
+  baseCurrency?: CurrencyCode; // Currency totals are shown in; BRL when unset
+  envelopeStartMonth?: string | null; // 'yyyy-MM' envelope budgeting counts from; null while it is off
   // hashedPassword should not be part of UserProfile sent to client
 }
 
-export type TransactionType = 'income' | 'expense';
-export type RecurrenceFrequency = 'none' | 'monthly' | 'weekly' | 'annually';
+/**
+ * An amount with at most two decimal places (e.g. 150.75), in the currency of the
+ * record holding it (reais unless it says otherwise).
+ * Do arithmetic on it with the helpers in src/lib/money.ts, which work in integer cents.
+ */
+export type Money = number;
+
+/** ISO 4217 code such as 'BRL' or 'USD'; the supported ones are listed in src/lib/currency.ts. */
+export type CurrencyCode = string;
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+/** One category line of a split transaction or card purchase. */
+export interface CategorySplit {
+  category: string;
+  amount: Money;
+}
+
+/** What a transfer moves money into; investments and goals have their value updated with it. */
+export type TransferDestination = 'account' | 'investment' | 'goal';
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'annually';
+/** Which day of the month monthly and annual recurrences fall on. */
+export type RecurrenceDayRule = 'sameDay' | 'lastBusinessDay';
+/** Where an occurrence that falls on a Saturday or Sunday moves: to the Friday before or the Monday after. */
+export type WeekendShift = 'none' | 'before' | 'after';
 
 export interface Transaction {
   id: string;
   userId: string;
   type: TransactionType;
-  amount: number;
+  amount: Money;
+  currency?: CurrencyCode; // BRL when unset
+  accountId?: string | null; // Account the money moved in or out of; null when not tied to one
+  transferTo?: TransferDestination | null; // Set only on transfers
+  transferToId?: string | null; // Id of the destination account, investment or goal
   category: string; // This will now reference a UserCategory.name
+  splits?: CategorySplit[] | null; // Two or more lines adding up to amount; category is then the first line's
+  tagIds?: string[] | null; // Ids of the user's tags
+  payeeId?: string | null; // The merchant or person paid (see Payee)
   date: string; // Original date of the transaction template
   description?: string;
   recurrenceFrequency?: RecurrenceFrequency;
+  recurrenceInterval?: number | null; // Repeats every N days, weeks, months or years of the frequency; 1 when unset
+  recurrenceEndDate?: string | null; // 'yyyy-MM-dd'; no occurrence falls after it
+  recurrenceCount?: number | null; // How many times it occurs, the first included; never both this and an end date
+  recurrenceDayRule?: RecurrenceDayRule | null; // 'sameDay' when unset
+  recurrenceWeekendShift?: WeekendShift | null; // 'none' when unset
+  clearedStatus?: ClearedStatus | null; // Set once it shows up on a bank statement; null while it has not
   createdAt: number;
   updatedAt?: number; // Added for consistency
-  receiptImageUri?: string | null;
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
+  receiptImageUri?: string | null; // Receipts saved before attachments existed; a data URI sent here is stored as an Attachment
+}
+
+/** 'cleared' once it shows up on a bank statement; 'reconciled' once a completed reconciliation locked it. */
+export type ClearedStatus = 'cleared' | 'reconciled';
+
+export type OccurrenceStatus = 'pending' | 'paid' | 'skipped';
+
+/**
+ * What became of one occurrence of a recurring transaction. Occurrences without one are
+ * pending, on their scheduled date and for the transaction's amount.
+ */
+export interface RecurrenceOccurrence {
+  id: string;
+  userId: string;
+  transactionId: string; // The recurring transaction (the template)
+  scheduledDate: string; // 'yyyy-MM-dd' the rule puts the occurrence on; identifies it
+  status: OccurrenceStatus;
+  date?: string | null; // 'yyyy-MM-dd' it was paid on or rescheduled to; the scheduled date when unset
+  amount?: Money | null; // Actual or adjusted amount, in the transaction's currency; its amount when unset
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while its transaction is in the trash (Lixeira)
+}
+
+export interface OccurrenceStateData {
+  status: OccurrenceStatus;
+  date?: string | null;
+  amount?: Money | null;
+}
+
+export type AccountType = 'checking' | 'savings' | 'cash' | 'wallet';
+
+/** Where money is kept; its balance is the opening balance plus the transactions assigned to it. */
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  institution?: string | null;
+  openingBalance: Money; // Balance before the first transaction assigned to the account
+  currency: CurrencyCode; // Transactions assigned to the account are in this currency
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
+}
+
+export type ReconciliationStatus = 'open' | 'completed';
+
+/**
+ * A check of an account against a bank statement: the transactions cleared up to the statement
+ * date must add up to its closing balance. Completing it locks them as reconciled.
+ */
+export interface Reconciliation {
+  id: string;
+  userId: string;
+  accountId: string;
+  statementDate: string; // 'yyyy-MM-dd' the statement closes on
+  statementBalance: Money; // Closing balance on the statement, in the account's currency
+  status: ReconciliationStatus;
+  transactionIds?: string[] | null; // Transactions it reconciled; set when completed
+  completedAt?: number | null;
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while its account is in the trash (Lixeira)
+}
+
+export interface ReconciliationData {
+  statementDate: string;
+  statementBalance: Money;
 }
 
 export interface Loan {
@@ -32,23 +140,25 @@ export interface Loan {
   userId: string;
   bankName: string;
   description: string;
-  installmentAmount: number;
+  installmentAmount: Money;
   installmentsCount: number;
   startDate: string;
   endDate: string;
   createdAt: number;
   updatedAt?: number; // Added
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
 }
 
 export interface CreditCard {
   id:string;
   userId: string;
   name: string;
-  limit: number;
+  limit: Money;
   dueDateDay: number;
   closingDateDay: number;
   createdAt: number;
   updatedAt?: number; // Added
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
 }
 
 export interface CreditCardPurchase {
@@ -58,10 +168,15 @@ export interface CreditCardPurchase {
   date: string;
   description: string;
   category: string; // This will now reference a UserCategory.name
-  totalAmount: number;
+  splits?: CategorySplit[] | null; // Two or more lines adding up to totalAmount; category is then the first line's
+  tagIds?: string[] | null; // Ids of the user's tags
+  payeeId?: string | null; // The merchant or person paid (see Payee)
+  totalAmount: Money;
+  currency?: CurrencyCode; // BRL when unset
   installments: number;
   createdAt: number;
   updatedAt?: number; // Added
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
 }
 
 export interface UserCategory {
@@ -69,8 +184,134 @@ export interface UserCategory {
   userId: string;
   name: string;
   isSystemDefined: boolean; // To differentiate default from user-added
+  parentId?: string | null; // Set on subcategories; only top-level categories can be parents
+  icon?: string | null; // One of CATEGORY_ICONS (src/lib/categories.ts)
+  color?: string | null; // '#rrggbb'
   createdAt: number;
   updatedAt?: number; // Added for consistency
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
+}
+
+// A monthly spending limit for a category, in the user's base currency. Spending under its
+// subcategories counts too.
+export interface Budget {
+  id: string;
+  userId: string;
+  categoryId: string;
+  amount: Money; // Per month
+  rollover: boolean; // Whether what was left unspent, or overspent, carries over to the next month
+  startMonth: string; // 'yyyy-MM' the budget starts in; rollover counts from it
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while its category is being removed
+}
+
+export interface NewBudgetData {
+  categoryId: string;
+  amount: Money;
+  rollover?: boolean;
+  startMonth?: string; // The current month when not given
+}
+
+export type UpdateBudgetData = Partial<Omit<NewBudgetData, 'categoryId'>>;
+
+// Money put in a category's envelope in a month, in the base currency, for envelope budgeting.
+// One per category and month; it can be negative when more was moved out than was put in.
+export interface EnvelopeAssignment {
+  id: string;
+  userId: string;
+  categoryId: string;
+  month: string; // 'yyyy-MM'
+  amount: Money;
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while its category is being removed
+}
+
+export interface EnvelopeAssignmentData {
+  categoryId: string;
+  month: string;
+  amount: Money; // The month's total for the envelope
+}
+
+// Money moved in a month from one envelope to another; a null side is the "to be assigned" pool.
+export interface EnvelopeMoveData {
+  month: string;
+  fromCategoryId: string | null;
+  toCategoryId: string | null;
+  amount: Money;
+}
+
+export interface CategoryDetails {
+  parentId?: string | null;
+  icon?: string | null;
+  color?: string | null;
+}
+
+export interface UpdateCategoryData extends CategoryDetails {
+  name?: string;
+}
+
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string; // Unique per user, ignoring case
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
+}
+
+export interface NewTagData {
+  name: string;
+}
+
+export interface UpdateTagData {
+  name?: string;
+}
+
+/** A merchant or person paid, whatever way statements spell it. */
+export interface Payee {
+  id: string;
+  userId: string;
+  name: string; // Unique per user, ignoring case
+  aliases: string[]; // Other spellings in descriptions, e.g. 'IFD*IFOOD'; see src/lib/payees.ts
+  defaultCategory?: string | null; // Category name suggested for its new records
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
+}
+
+export interface NewPayeeData {
+  name: string;
+  aliases?: string[];
+  defaultCategory?: string | null;
+}
+
+export interface UpdatePayeeData {
+  name?: string;
+  aliases?: string[];
+  defaultCategory?: string | null;
+}
+
+/** Records files can be attached to. */
+export type AttachmentOwner = 'transactions' | 'creditCardPurchases' | 'loans' | 'investments';
+
+/**
+ * A receipt or document attached to a record. Only this metadata is in the database; the
+ * file (and its thumbnail) are in the attachment store under a key made of userId and id.
+ */
+export interface Attachment {
+  id: string;
+  userId: string;
+  ownerEntity: AttachmentOwner;
+  ownerId: string;
+  fileName: string;
+  contentType: string; // An image or PDF type; see ATTACHMENT_CONTENT_TYPES
+  size: number; // In bytes
+  hasThumbnail: boolean; // Images get a small JPEG preview
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
 }
 
 export type FinancialGoalStatus = 'active' | 'achieved' | 'abandoned';
@@ -79,14 +320,16 @@ export interface FinancialGoal {
   id: string;
   userId: string;
   name: string;
-  targetAmount: number;
-  currentAmount: number;
+  targetAmount: Money;
+  currentAmount: Money;
+  currency?: CurrencyCode; // BRL when unset
   targetDate?: string | null; // ISO string like 'YYYY-MM-DD'
   description?: string | null;
   icon?: string | null; // Lucide icon name
   status: FinancialGoalStatus;
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
 }
 
 export type InvestmentType = 'stock' | 'savings' | 'crypto' | 'other';
@@ -96,8 +339,9 @@ export interface Investment {
   userId: string;
   name: string;
   type: InvestmentType;
-  initialAmount?: number | null;
-  currentValue: number;
+  initialAmount?: Money | null;
+  currentValue: Money;
+  currency?: CurrencyCode; // BRL when unset
   quantity?: number | null;
   symbol?: string | null;
   institution?: string | null;
@@ -105,11 +349,25 @@ export interface Investment {
   notes?: string | null;
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
+  deletedAt?: number | null; // Set while the record is in the trash (Lixeira)
 }
 
+/** 1 `currency` was worth `rate` of `quoteCurrency` on `date`; maintained by the user. */
+export interface ExchangeRate {
+  id: string;
+  userId: string;
+  currency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  date: string; // 'YYYY-MM-DD'
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
+}
 
 // For AI Flow - this might need adjustment if AI needs password or other auth details (it shouldn't)
 export interface FinancialDataInput {
+  currency: CurrencyCode; // Every amount below is converted into it
   income: number;
   expenses: Array<{ category: string; amount: number }>;
   loans: Array<{ description: string; amount: number; interestRate: number; monthlyPayment: number }>;
@@ -120,34 +378,92 @@ export interface FinancialDataInput {
 // Data for creating new entities
 export interface NewTransactionData {
   type: TransactionType;
-  amount: number;
-  category: string; // Will be the category name string
+  amount: Money;
+  currency?: CurrencyCode; // Defaults to the account's currency, else the user's base currency
+  accountId?: string | null;
+  transferTo?: TransferDestination | null; // Required for transfers
+  transferToId?: string | null;
+  category: string; // Will be the category name string; transfers default to 'Transferência'
+  splits?: CategorySplit[] | null;
+  tagIds?: string[] | null;
+  payeeId?: string | null; // Left out, the payee matching the description is linked
   date: string;
   description?: string;
   recurrenceFrequency?: RecurrenceFrequency;
+  recurrenceInterval?: number | null;
+  recurrenceEndDate?: string | null;
+  recurrenceCount?: number | null;
+  recurrenceDayRule?: RecurrenceDayRule | null;
+  recurrenceWeekendShift?: WeekendShift | null;
+  clearedStatus?: 'cleared' | null; // Transactions are only reconciled by completing a reconciliation
   receiptImageUri?: string | null;
 }
 
 export interface UpdateTransactionData {
   type?: TransactionType;
-  amount?: number;
-  category?: string;
+  amount?: Money;
+  currency?: CurrencyCode;
+  accountId?: string | null;
+  transferTo?: TransferDestination | null;
+  transferToId?: string | null;
+  category?: string; // Without splits, replaces any split
+  splits?: CategorySplit[] | null;
+  tagIds?: string[] | null;
+  payeeId?: string | null;
   date?: string; // ISO string
   description?: string | null;
   recurrenceFrequency?: RecurrenceFrequency;
+  recurrenceInterval?: number | null;
+  recurrenceEndDate?: string | null;
+  recurrenceCount?: number | null;
+  recurrenceDayRule?: RecurrenceDayRule | null;
+  recurrenceWeekendShift?: WeekendShift | null;
+  clearedStatus?: 'cleared' | null; // The only change a reconciled transaction accepts, which unlocks it
   receiptImageUri?: string | null;
 }
 
+export type TransactionSortField = 'date' | 'amount' | 'createdAt';
+
+// Filters for GET /api/transactions. Every filter is optional; trashed transactions are never returned.
+export interface TransactionQuery {
+  from?: string; // 'yyyy-MM-dd', inclusive
+  to?: string; // 'yyyy-MM-dd', inclusive
+  type?: TransactionType;
+  category?: string;
+  accountId?: string; // 'none' matches transactions without an account
+  tagId?: string;
+  recurrence?: RecurrenceFrequency | 'recurring'; // 'recurring' matches every frequency but 'none'
+  minAmount?: Money;
+  maxAmount?: Money;
+  search?: string; // Case-insensitive match on description or category
+  sortBy?: TransactionSortField; // Defaults to 'date'
+  sortOrder?: 'asc' | 'desc'; // Defaults to 'desc'
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  nextCursor: string | null; // null on the last page
+  totalCount: number; // Matches across all pages
+}
+
+export interface TransactionPageResult {
+  success: boolean;
+  page?: TransactionPage;
+  error?: string;
+}
+
 export interface NewCreditCardData {
   name: string;
-  limit: number;
+  limit: Money;
   dueDateDay: number;
   closingDateDay: number;
 }
 
 export interface UpdateCreditCardData {
   name?: string;
-  limit?: number;
+  limit?: Money;
   dueDateDay?: number;
   closingDateDay?: number;
 }
@@ -157,7 +473,11 @@ export interface NewCreditCardPurchaseData {
   date: string;
   description: string;
   category: string; // Will be the category name string
-  totalAmount: number;
+  splits?: CategorySplit[] | null;
+  tagIds?: string[] | null;
+  payeeId?: string | null; // Left out, the payee matching the description is linked
+  totalAmount: Money;
+  currency?: CurrencyCode; // Defaults to the user's base currency
   installments: number;
 }
 
@@ -165,16 +485,36 @@ export interface UpdateCreditCardPurchaseData {
     cardId?: string;
     date?: string; // ISO string
     description?: string;
-    category?: string;
-    totalAmount?: number;
+    category?: string; // Without splits, replaces any split
+    splits?: CategorySplit[] | null;
+    tagIds?: string[] | null;
+    payeeId?: string | null;
+    totalAmount?: Money;
+    currency?: CurrencyCode;
     installments?: number;
 }
 
 
+export interface NewAccountData {
+  name: string;
+  type: AccountType;
+  institution?: string | null;
+  openingBalance?: Money; // Defaults to 0
+  currency?: CurrencyCode; // Defaults to the user's base currency
+}
+
+export interface UpdateAccountData {
+  name?: string;
+  type?: AccountType;
+  institution?: string | null;
+  openingBalance?: Money;
+  currency?: CurrencyCode;
+}
+
 export interface NewLoanData {
   bankName: string;
   description: string;
-  installmentAmount: number;
+  installmentAmount: Money;
   installmentsCount: number;
   startDate: string;
 }
@@ -182,7 +522,7 @@ export interface NewLoanData {
 export interface UpdateLoanData {
   bankName?: string;
   description?: string;
-  installmentAmount?: number;
+  installmentAmount?: Money;
   installmentsCount?: number;
   startDate?: string; // ISO string
 }
@@ -193,10 +533,18 @@ export interface NewUserCategoryData {
   isSystemDefined?: boolean;
 }
 
+export interface NewExchangeRateData {
+  currency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  date: string;
+}
+
 export interface NewFinancialGoalData {
   name: string;
-  targetAmount: number;
-  currentAmount?: number; // Defaults to 0
+  targetAmount: Money;
+  currentAmount?: Money; // Defaults to 0
+  currency?: CurrencyCode; // Defaults to the user's base currency
   targetDate?: string | null;
   description?: string | null;
   icon?: string | null;
@@ -205,8 +553,9 @@ export interface NewFinancialGoalData {
 
 export interface UpdateFinancialGoalData {
   name?: string;
-  targetAmount?: number;
-  currentAmount?: number;
+  targetAmount?: Money;
+  currentAmount?: Money;
+  currency?: CurrencyCode;
   targetDate?: string | null;
   description?: string | null;
   icon?: string | null;
@@ -216,8 +565,9 @@ export interface UpdateFinancialGoalData {
 export interface NewInvestmentData {
   name: string;
   type: InvestmentType;
-  initialAmount?: number | null;
-  currentValue: number;
+  initialAmount?: Money | null;
+  currentValue: Money;
+  currency?: CurrencyCode; // Defaults to the user's base currency
   quantity?: number | null;
   symbol?: string | null;
   institution?: string | null;
@@ -228,8 +578,9 @@ export interface NewInvestmentData {
 export interface UpdateInvestmentData {
   name?: string;
   type?: InvestmentType;
-  initialAmount?: number | null;
-  currentValue?: number;
+  initialAmount?: Money | null;
+  currentValue?: Money;
+  currency?: CurrencyCode;
   quantity?: number | null;
   symbol?: string | null;
   institution?: string | null;
@@ -312,7 +663,7 @@ export interface ExtractCardInvoiceOutput {
 
 // Backup and Restore types
 export interface UserBackupData {
-  profile: Pick<UserProfile, 'email' | 'displayName' | 'notifyByEmail'>;
+  profile: Pick<UserProfile, 'email' | 'displayName' | 'notifyByEmail' | 'baseCurrency' | 'envelopeStartMonth'>;
   transactions: Transaction[];
   loans: Loan[];
   creditCards: CreditCard[];
@@ -320,22 +671,75 @@ export interface UserBackupData {
   categories: UserCategory[];
   financialGoals: FinancialGoal[];
   investments: Investment[];
+  auditEvents?: AuditEvent[]; // Missing in backups made before the change history existed
+  exchangeRates?: ExchangeRate[]; // Missing in backups made before multi-currency support
+  accounts?: Account[]; // Missing in backups made before accounts existed
+  tags?: Tag[]; // Missing in backups made before tags existed
+  payees?: Payee[]; // Missing in backups made before payees existed
+  attachments?: Attachment[]; // Missing in backups made before attachments existed; files come in the backup archive
+  recurrenceOccurrences?: RecurrenceOccurrence[]; // Missing in backups made before occurrences could be confirmed
+  reconciliations?: Reconciliation[]; // Missing in backups made before statement reconciliation
+  budgets?: Budget[]; // Missing in backups made before budgets existed
+  envelopeAssignments?: EnvelopeAssignment[]; // Missing in backups made before envelope budgeting
 }
 
 export interface UpdateEmailNotificationPrefsData {
     notifyByEmail: boolean;
 }
 
+export interface UpdateBaseCurrencyData {
+  baseCurrency: CurrencyCode;
+}
+
+export interface UpdateEnvelopeModeData {
+  enabled: boolean;
+  startMonth?: string; // 'yyyy-MM' to count from when turning it on; the current month when not given
+}
+
 // Notification specific type
 export interface NotificationItem {
   id: string; // Unique ID for the notification instance, e.g., `tx-${originalTx.id}-${projectedDate}`
-  type: 'scheduled_transaction'; // More specific type
-  relatedId: string; // Original transaction ID (from Transaction.id)
+  type: 'scheduled_transaction' | 'budget_alert'; // More specific type
+  relatedId: string; // Original transaction ID (from Transaction.id), or the budget's for budget alerts
   message: string; // Formatted message
-  projectedDate: string; // Projected date of the occurrence (ISO string, e.g., "2023-10-27")
+  projectedDate: string; // Projected date of the occurrence, or the day a budget alert's threshold was reached (ISO string, e.g., "2023-10-27")
   isRead: boolean;
   isPast: boolean; // True if the projected date is in the past relative to today
-  originalTransaction: Transaction; // The original recurring transaction template for context
+  originalTransaction?: Transaction; // The original recurring transaction template for context; scheduled transactions only
+  budgetThreshold?: number; // Percentage of the month's budget reached; budget alerts only
+}
+
+// Change history (audit trail)
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface AuditFieldChange {
+  field: string;
+  from: unknown; // null when the field had no value
+  to: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  userId: string; // Owner of the changed record
+  entity: string; // Collection of the changed record, e.g. 'loans'
+  recordId: string;
+  action: AuditAction;
+  changes: AuditFieldChange[]; // Field-level diff; empty for delete, restore and purge
+  actorId?: string | null; // Who made the change; null for automatic ones (trash retention purge)
+  createdAt: number; // Timestamp
+}
+
+// Trash (Lixeira)
+export type TrashEntity = 'transactions' | 'accounts' | 'tags' | 'payees' | 'creditCards' | 'creditCardPurchases' | 'loans' | 'financialGoals' | 'investments';
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: string;
+  description: string;
+  amount?: Money | null;
+  deletedAt: number; // Timestamp
+  purgeAt: number | null; // When it is permanently deleted; null if retention is disabled
+  childCount: number; // Records trashed along with it (e.g. a card's purchases), restored with it
 }
 
 // General update result
@@ -344,3 +748,43 @@ export interface UpdateResult {
   error?: string;
 }
 
+/** Update that may be rejected because the record changed after the client loaded it. */
+export interface VersionedUpdateResult<T> extends UpdateResult {
+  /** The saved record or, when `conflict` is set, the current one. */
+  record?: T;
+  conflict?: boolean;
+}
+
+/** Changes applied all-or-nothing by a batch endpoint. `version` is required and works like `If-Match` on the single-record routes. */
+export interface BatchRequest<New, Update> {
+  create?: New[];
+  update?: Array<{ id: string; changes: Update; version: number }>;
+  delete?: string[];
+}
+
+export type TransactionBatchRequest = BatchRequest<NewTransactionData, UpdateTransactionData>;
+export type CreditCardPurchaseBatchRequest = BatchRequest<NewCreditCardPurchaseData, UpdateCreditCardPurchaseData>;
+
+export interface BatchItemError {
+  operation: 'create' | 'update' | 'delete';
+  /** Position of the item in its `create`, `update` or `delete` list. */
+  index: number;
+  id?: string;
+  message: string;
+}
+
+export interface BatchResult {
+  success: boolean;
+  /** Ids of the created records, in request order. */
+  created?: string[];
+  updated?: number;
+  deleted?: number;
+  /** Why the batch was rejected, item by item; nothing was saved. */
+  errors?: BatchItemError[];
+  /** Set when the rejection is because items changed since they were loaded. */
+  conflict?: boolean;
+  /** Set when an update does not say which version it is based on. */
+  versionRequired?: boolean;
+  error?: string;
+}
+